@@ -0,0 +1,9 @@
+import { AchBatches } from "@/components/ach-batches/ach-batches";
+
+export default function AdminAchBatchesPage() {
+  return (
+    <div className="container mx-auto py-6">
+      <AchBatches />
+    </div>
+  );
+}
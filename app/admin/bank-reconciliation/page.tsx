@@ -0,0 +1,9 @@
+import { BankReconciliation } from "@/components/bank-reconciliation/bank-reconciliation";
+
+export default function AdminBankReconciliationPage() {
+  return (
+    <div className="container mx-auto py-6">
+      <BankReconciliation />
+    </div>
+  );
+}
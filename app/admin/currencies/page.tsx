@@ -0,0 +1,9 @@
+import { CurrenciesAdmin } from "@/components/currencies/currencies-admin";
+
+export default function AdminCurrenciesPage() {
+  return (
+    <div className="container mx-auto py-6">
+      <CurrenciesAdmin />
+    </div>
+  );
+}
@@ -0,0 +1,9 @@
+import { DepositBatches } from "@/components/deposit-batches/deposit-batches";
+
+export default function AdminDepositBatchesPage() {
+  return (
+    <div className="container mx-auto py-6">
+      <DepositBatches />
+    </div>
+  );
+}
@@ -0,0 +1,9 @@
+import { ExchangeRatesAdmin } from "@/components/exchange-rates/exchange-rates-admin";
+
+export default function AdminExchangeRatesPage() {
+  return (
+    <div className="container mx-auto py-6">
+      <ExchangeRatesAdmin />
+    </div>
+  );
+}
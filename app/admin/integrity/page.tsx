@@ -0,0 +1,9 @@
+import { IntegrityChecker } from "@/components/integrity/integrity-checker";
+
+export default function AdminIntegrityPage() {
+  return (
+    <div className="container mx-auto py-6">
+      <IntegrityChecker />
+    </div>
+  );
+}
@@ -10,12 +10,43 @@ import { Input } from "@/components/ui/input";
 import { useToast } from "@/hooks/use-toast";
 import { Download, Search } from "lucide-react";
 
+const ENTITY_TYPES = [
+  { value: "contact", label: "Contact" },
+  { value: "pledge", label: "Pledge" },
+  { value: "payment", label: "Payment" },
+  { value: "paymentPlan", label: "Payment Plan" },
+  { value: "paymentAllocation", label: "Payment Allocation" },
+  { value: "solicitor", label: "Solicitor" },
+  { value: "bonusRule", label: "Bonus Rule" },
+  { value: "tag", label: "Tag" },
+  { value: "category", label: "Category" },
+  { value: "annualReceipt", label: "Annual Receipt" },
+  { value: "donationReceipt", label: "Receipt" },
+  { value: "planRenewal", label: "Plan Renewal" },
+  { value: "memorial", label: "Memorial" },
+  { value: "savedPaymentMethod", label: "Saved Payment Method" },
+  { value: "processorTransaction", label: "Processor Transaction" },
+  { value: "achBatch", label: "ACH Batch" },
+  { value: "bankStatement", label: "Bank Statement" },
+  { value: "bankStatementLine", label: "Bank Deposit" },
+  { value: "depositBatch", label: "Deposit Batch" },
+  { value: "paymentRefund", label: "Refund" },
+  { value: "pledgeAdjustment", label: "Pledge Adjustment" },
+  { value: "exchangeRate", label: "Exchange Rate" },
+  { value: "exchangeRateLock", label: "Exchange Rate Lock" },
+  { value: "integrityIssue", label: "Integrity Issue" },
+  { value: "currency", label: "Currency" },
+];
+
 interface LogEntry {
   id: number;
   userId: number | null;
   userEmail: string;
   action: string;
+  entityType: string | null;
+  entityId: number | null;
   details: string | null;
+  changes: Record<string, { from: unknown; to: unknown }> | null;
   ipAddress: string | null;
   userAgent: string | null;
   timestamp: string;
@@ -26,6 +57,7 @@ export default function LogReportsPage() {
   const [loading, setLoading] = useState(true);
   const [filters, setFilters] = useState({
     action: "",
+    entityType: "",
     userEmail: "",
     dateFrom: "",
     dateTo: "",
@@ -40,6 +72,7 @@ export default function LogReportsPage() {
     try {
       const queryParams = new URLSearchParams();
       if (filters.action && filters.action !== "all") queryParams.append("action", filters.action);
+      if (filters.entityType && filters.entityType !== "all") queryParams.append("entityType", filters.entityType);
       if (filters.userEmail) queryParams.append("userEmail", filters.userEmail);
       if (filters.dateFrom) queryParams.append("dateFrom", filters.dateFrom);
       if (filters.dateTo) queryParams.append("dateTo", filters.dateTo);
@@ -70,6 +103,7 @@ export default function LogReportsPage() {
     try {
       const queryParams = new URLSearchParams();
       if (filters.action && filters.action !== "all") queryParams.append("action", filters.action);
+      if (filters.entityType && filters.entityType !== "all") queryParams.append("entityType", filters.entityType);
       if (filters.userEmail) queryParams.append("userEmail", filters.userEmail);
       if (filters.dateFrom) queryParams.append("dateFrom", filters.dateFrom);
       if (filters.dateTo) queryParams.append("dateTo", filters.dateTo);
@@ -118,6 +152,15 @@ export default function LogReportsPage() {
     }
   };
 
+  const formatValue = (value: unknown) =>
+    value === null || value === undefined || value === "" ? "—" : String(value);
+
+  const getEntityLabel = (log: LogEntry) => {
+    if (!log.entityType) return "—";
+    const label = ENTITY_TYPES.find((type) => type.value === log.entityType)?.label ?? log.entityType;
+    return log.entityId ? `${label} #${log.entityId}` : label;
+  };
+
   if (loading) {
     return <div className="flex justify-center items-center h-64">Loading...</div>;
   }
@@ -138,7 +181,7 @@ export default function LogReportsPage() {
           <CardTitle>Filters</CardTitle>
         </CardHeader>
         <CardContent>
-          <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+          <div className="grid grid-cols-1 md:grid-cols-5 gap-4">
             <div>
               <label className="block text-sm font-medium mb-1">Action</label>
               <Select value={filters.action} onValueChange={(value) => setFilters({ ...filters, action: value })}>
@@ -155,6 +198,22 @@ export default function LogReportsPage() {
                 </SelectContent>
               </Select>
             </div>
+            <div>
+              <label className="block text-sm font-medium mb-1">Record Type</label>
+              <Select value={filters.entityType} onValueChange={(value) => setFilters({ ...filters, entityType: value })}>
+                <SelectTrigger>
+                  <SelectValue placeholder="All records" />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">All records</SelectItem>
+                  {ENTITY_TYPES.map((type) => (
+                    <SelectItem key={type.value} value={type.value}>
+                      {type.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
             <div>
               <label className="block text-sm font-medium mb-1">User Email</label>
               <Input
@@ -194,7 +253,9 @@ export default function LogReportsPage() {
                 <TableHead>Timestamp</TableHead>
                 <TableHead>User</TableHead>
                 <TableHead>Action</TableHead>
+                <TableHead>Record</TableHead>
                 <TableHead>Details</TableHead>
+                <TableHead>Changes</TableHead>
                 <TableHead>IP Address</TableHead>
               </TableRow>
             </TableHeader>
@@ -208,9 +269,27 @@ export default function LogReportsPage() {
                       {log.action}
                     </Badge>
                   </TableCell>
+                  <TableCell className="whitespace-nowrap">{getEntityLabel(log)}</TableCell>
                   <TableCell className="max-w-xs truncate" title={log.details ?? undefined}>
                     {log.details}
                   </TableCell>
+                  <TableCell className="max-w-sm">
+                    {log.changes && Object.keys(log.changes).length > 0 && log.action === "update" ? (
+                      <ul className="space-y-1 text-xs">
+                        {Object.entries(log.changes).map(([field, change]) => (
+                          <li key={field}>
+                            <span className="font-medium">{field}</span>:{" "}
+                            <span className="text-muted-foreground line-through">{formatValue(change.from)}</span>{" "}
+                            → {formatValue(change.to)}
+                          </li>
+                        ))}
+                      </ul>
+                    ) : (
+                      <span className="text-xs text-muted-foreground">
+                        {log.changes ? `${Object.keys(log.changes).length} fields` : "—"}
+                      </span>
+                    )}
+                  </TableCell>
                   <TableCell>{log.ipAddress}</TableCell>
                 </TableRow>
               ))}
@@ -0,0 +1,9 @@
+import { PaymentEntryGrid } from "@/components/payment-entry/payment-entry-grid";
+
+export default function AdminPaymentEntryPage() {
+  return (
+    <div className="container mx-auto py-6">
+      <PaymentEntryGrid />
+    </div>
+  );
+}
@@ -0,0 +1,9 @@
+import { PlanRenewalsQueue } from "@/components/plan-renewals/plan-renewals-queue";
+
+export default function AdminPlanRenewalsPage() {
+  return (
+    <div className="container mx-auto py-6">
+      <PlanRenewalsQueue />
+    </div>
+  );
+}
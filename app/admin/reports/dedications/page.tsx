@@ -0,0 +1,222 @@
+"use client";
+
+import { useSession } from "next-auth/react";
+import { useRouter } from "next/navigation";
+import { useEffect, useState, useMemo } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { FileText, Search } from "lucide-react";
+import {
+  useReactTable,
+  getCoreRowModel,
+  getPaginationRowModel,
+  getFilteredRowModel,
+  ColumnDef,
+} from "@tanstack/react-table";
+import { DataTable } from "@/components/data-table/data-table";
+
+interface ReportData {
+  [key: string]: string;
+}
+
+interface ReportFilters {
+  year?: string;
+  dedicationType?: string;
+}
+
+export default function DedicationsReportPage() {
+  const { data: session, status } = useSession();
+  const router = useRouter();
+  const [reportData, setReportData] = useState<ReportData[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [initialLoad, setInitialLoad] = useState(true);
+  const [yearFilter, setYearFilter] = useState("");
+  const [typeFilter, setTypeFilter] = useState("all");
+
+  const columns: ColumnDef<ReportData>[] = useMemo(() => {
+    if (reportData.length === 0) return [];
+    return Object.keys(reportData[0]).map((header) => ({
+      accessorKey: header,
+      header: header,
+      cell: ({ getValue }) => {
+        const value = getValue() as string;
+        return <span className="text-sm">{value}</span>;
+      },
+    }));
+  }, [reportData]);
+
+  const table = useReactTable({
+    data: reportData,
+    columns,
+    getCoreRowModel: getCoreRowModel(),
+    getPaginationRowModel: getPaginationRowModel(),
+    getFilteredRowModel: getFilteredRowModel(),
+    initialState: {
+      pagination: {
+        pageSize: 10,
+      },
+    },
+  });
+
+  useEffect(() => {
+    if (status === "loading") return;
+    if (!session) {
+      router.push("/auth/login");
+    } else if (session.user.role !== "admin") {
+      router.push("/contacts");
+    }
+  }, [session, status, router]);
+
+  // Load all data on component mount
+  useEffect(() => {
+    if (session?.user?.role === "admin" && initialLoad) {
+      fetchReportData();
+      setInitialLoad(false);
+    }
+  }, [session, initialLoad]);
+
+  const currentFilters = (): ReportFilters => ({
+    year: yearFilter || undefined,
+    dedicationType: typeFilter === "all" ? undefined : typeFilter,
+  });
+
+  const fetchReportData = async (filters: ReportFilters = {}) => {
+    setLoading(true);
+    try {
+      const response = await fetch('/api/admin/reports/dedications', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          filters,
+          preview: true
+        }),
+      });
+
+      if (response.ok) {
+        const result = await response.json();
+        setReportData(result.data || []);
+      } else {
+        console.error('Failed to fetch report data');
+        setReportData([]);
+      }
+    } catch (error) {
+      console.error('Error fetching report data:', error);
+      setReportData([]);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const generateReport = async (filters: ReportFilters) => {
+    try {
+      const response = await fetch('/api/admin/reports/dedications', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ filters }),
+      });
+
+      if (response.ok) {
+        const blob = await response.blob();
+        const url = window.URL.createObjectURL(blob);
+        const a = document.createElement('a');
+        a.href = url;
+        a.download = `dedications-${new Date().toISOString().split('T')[0]}.csv`;
+        document.body.appendChild(a);
+        a.click();
+        window.URL.revokeObjectURL(url);
+        document.body.removeChild(a);
+      } else {
+        console.error('Failed to generate report');
+      }
+    } catch (error) {
+      console.error('Error generating report:', error);
+    }
+  };
+
+  if (status === "loading") {
+    return <div className="text-center py-8">Loading...</div>;
+  }
+
+  if (!session || session.user.role !== "admin") {
+    return null; // Will redirect
+  }
+
+  const clearFilter = () => {
+    setYearFilter("");
+    setTypeFilter("all");
+    fetchReportData();
+  };
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h1 className="text-3xl font-bold">Dedications Report</h1>
+        <p className="text-muted-foreground">
+          Gifts given in honor or in memory of someone
+        </p>
+      </div>
+
+      {/* Filters */}
+      <div className="flex gap-4 items-center flex-wrap">
+        <div className="flex-1 max-w-sm">
+          <Input
+            placeholder="Filter by year..."
+            value={yearFilter}
+            onChange={(e) => setYearFilter(e.target.value)}
+            className="w-full"
+          />
+        </div>
+        <Select value={typeFilter} onValueChange={setTypeFilter}>
+          <SelectTrigger className="w-48">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="all">All dedications</SelectItem>
+            <SelectItem value="in_honor_of">In honor of</SelectItem>
+            <SelectItem value="in_memory_of">In memory of</SelectItem>
+          </SelectContent>
+        </Select>
+        <Button onClick={() => fetchReportData(currentFilters())} disabled={loading}>
+          <Search className="mr-2 h-4 w-4" />
+          Filter
+        </Button>
+        <Button variant="outline" onClick={clearFilter} disabled={loading}>
+          Clear
+        </Button>
+      </div>
+
+      {/* Data Table */}
+      {reportData.length > 0 && (
+        <div className="space-y-4">
+          <div className="flex justify-between items-center">
+            <h2 className="text-xl font-semibold">Dedicated Gifts ({reportData.length} records)</h2>
+            <Button onClick={() => generateReport(currentFilters())}>
+              <FileText className="mr-2 h-4 w-4" />
+              Download CSV
+            </Button>
+          </div>
+          <DataTable table={table} />
+        </div>
+      )}
+
+      {!loading && !initialLoad && reportData.length === 0 && (
+        <div className="text-center py-8 text-muted-foreground">No dedicated gifts found.</div>
+      )}
+
+      {loading && (
+        <div className="text-center py-8">Loading report data...</div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,290 @@
+"use client";
+
+import { useSession } from "next-auth/react";
+import { useRouter } from "next/navigation";
+import { useCallback, useEffect, useState, useMemo } from "react";
+import { useCurrenciesQuery } from "@/lib/query/currencies/useCurrenciesQuery";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { FileText, Search } from "lucide-react";
+import {
+  useReactTable,
+  getCoreRowModel,
+  getPaginationRowModel,
+  getFilteredRowModel,
+  ColumnDef,
+} from "@tanstack/react-table";
+import { DataTable } from "@/components/data-table/data-table";
+
+interface ReportData {
+  [key: string]: string;
+}
+
+interface ReportFilters {
+  view: string;
+  groupBy: string;
+  from?: string;
+  to?: string;
+  asOf?: string;
+  currency?: string;
+}
+
+const today = () => new Date().toISOString().split("T")[0];
+
+// First day of the current quarter, which the accountant asks for
+const quarterStart = () => {
+  const now = new Date();
+  const month = Math.floor(now.getMonth() / 3) * 3 + 1;
+  return `${now.getFullYear()}-${String(month).padStart(2, "0")}-01`;
+};
+
+export default function FxGainLossReportPage() {
+  const { currencies } = useCurrenciesQuery();
+  const quotedCodes = currencies.map((currency) => currency.code).filter((code) => code !== "USD");
+  const { data: session, status } = useSession();
+  const router = useRouter();
+  const [reportData, setReportData] = useState<ReportData[]>([]);
+  const [skipped, setSkipped] = useState(0);
+  const [loading, setLoading] = useState(false);
+  const [initialLoad, setInitialLoad] = useState(true);
+  const [view, setView] = useState("realized");
+  const [groupBy, setGroupBy] = useState("pledge");
+  const [from, setFrom] = useState(quarterStart);
+  const [to, setTo] = useState(today);
+  const [asOf, setAsOf] = useState(today);
+  const [currency, setCurrency] = useState("all");
+
+  const columns: ColumnDef<ReportData>[] = useMemo(() => {
+    if (reportData.length === 0) return [];
+    return Object.keys(reportData[0]).map((header) => ({
+      accessorKey: header,
+      header: header,
+      cell: ({ getValue }) => {
+        const value = getValue() as string;
+        return <span className="text-sm">{value}</span>;
+      },
+    }));
+  }, [reportData]);
+
+  const table = useReactTable({
+    data: reportData,
+    columns,
+    getCoreRowModel: getCoreRowModel(),
+    getPaginationRowModel: getPaginationRowModel(),
+    getFilteredRowModel: getFilteredRowModel(),
+    initialState: {
+      pagination: {
+        pageSize: 10,
+      },
+    },
+  });
+
+  useEffect(() => {
+    if (status === "loading") return;
+    if (!session) {
+      router.push("/auth/login");
+    } else if (session.user.role !== "admin") {
+      router.push("/contacts");
+    }
+  }, [session, status, router]);
+
+  const currentFilters = useCallback(
+    (): ReportFilters => ({
+      view,
+      groupBy,
+      from: view === "realized" ? from || undefined : undefined,
+      to: view === "realized" ? to || undefined : undefined,
+      asOf: view === "unrealized" ? asOf || undefined : undefined,
+      currency: currency === "all" ? undefined : currency,
+    }),
+    [view, groupBy, from, to, asOf, currency]
+  );
+
+  // Load the current quarter on component mount
+  useEffect(() => {
+    if (session?.user?.role === "admin" && initialLoad) {
+      fetchReportData(currentFilters());
+      setInitialLoad(false);
+    }
+  }, [session, initialLoad, currentFilters]);
+
+  const fetchReportData = async (filters: ReportFilters) => {
+    setLoading(true);
+    try {
+      const response = await fetch('/api/admin/reports/fx-gain-loss', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          filters,
+          preview: true
+        }),
+      });
+
+      if (response.ok) {
+        const result = await response.json();
+        setReportData(result.data || []);
+        setSkipped(result.skipped || 0);
+      } else {
+        console.error('Failed to fetch report data');
+        setReportData([]);
+        setSkipped(0);
+      }
+    } catch (error) {
+      console.error('Error fetching report data:', error);
+      setReportData([]);
+      setSkipped(0);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const generateReport = async (filters: ReportFilters) => {
+    try {
+      const response = await fetch('/api/admin/reports/fx-gain-loss', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ filters }),
+      });
+
+      if (response.ok) {
+        const blob = await response.blob();
+        const url = window.URL.createObjectURL(blob);
+        const a = document.createElement('a');
+        a.href = url;
+        a.download = filters.view === "unrealized"
+          ? `fx-unrealized-${filters.asOf ?? today()}.csv`
+          : `fx-realized-${filters.from ?? "start"}-to-${filters.to ?? today()}.csv`;
+        document.body.appendChild(a);
+        a.click();
+        window.URL.revokeObjectURL(url);
+        document.body.removeChild(a);
+      } else {
+        console.error('Failed to generate report');
+      }
+    } catch (error) {
+      console.error('Error generating report:', error);
+    }
+  };
+
+  if (status === "loading") {
+    return <div className="text-center py-8">Loading...</div>;
+  }
+
+  if (!session || session.user.role !== "admin") {
+    return null; // Will redirect
+  }
+
+  const changeView = (value: string) => {
+    setView(value);
+    // Open balances are revalued on one date, so there are no periods
+    if (value === "unrealized" && (groupBy === "quarter" || groupBy === "month")) {
+      setGroupBy("currency");
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h1 className="text-3xl font-bold">FX Gain/Loss Report</h1>
+        <p className="text-muted-foreground">
+          Realized exchange gain or loss on payments to non-USD pledges, and the revaluation of open balances
+        </p>
+      </div>
+
+      {/* Filters */}
+      <div className="flex gap-4 items-center flex-wrap">
+        <Select value={view} onValueChange={changeView}>
+          <SelectTrigger className="w-44">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="realized">Realized</SelectItem>
+            <SelectItem value="unrealized">Unrealized</SelectItem>
+          </SelectContent>
+        </Select>
+        <Select value={groupBy} onValueChange={setGroupBy}>
+          <SelectTrigger className="w-44">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="pledge">Per pledge</SelectItem>
+            <SelectItem value="currency">Per currency</SelectItem>
+            {view === "realized" && <SelectItem value="quarter">Per quarter</SelectItem>}
+            {view === "realized" && <SelectItem value="month">Per month</SelectItem>}
+          </SelectContent>
+        </Select>
+        {view === "realized" ? (
+          <>
+            <Input type="date" value={from} onChange={(e) => setFrom(e.target.value)} className="w-44" />
+            <span className="text-sm text-muted-foreground">to</span>
+            <Input type="date" value={to} onChange={(e) => setTo(e.target.value)} className="w-44" />
+          </>
+        ) : (
+          <>
+            <span className="text-sm text-muted-foreground">Balances on</span>
+            <Input type="date" value={asOf} onChange={(e) => setAsOf(e.target.value)} className="w-44" />
+          </>
+        )}
+        <Select value={currency} onValueChange={setCurrency}>
+          <SelectTrigger className="w-36">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="all">All currencies</SelectItem>
+            {quotedCodes.map((code) => (
+              <SelectItem key={code} value={code}>
+                {code}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Button onClick={() => fetchReportData(currentFilters())} disabled={loading}>
+          <Search className="mr-2 h-4 w-4" />
+          Run
+        </Button>
+      </div>
+
+      {skipped > 0 && (
+        <p className="text-sm text-muted-foreground">
+          {skipped} {view === "realized" ? "payments" : "pledges"} left out because they have no USD amount to compare
+          with.
+        </p>
+      )}
+
+      {/* Data Table */}
+      {reportData.length > 0 && (
+        <div className="space-y-4">
+          <div className="flex justify-between items-center">
+            <h2 className="text-xl font-semibold">
+              {view === "realized" ? "Realized" : "Unrealized"} Gain/Loss ({reportData.length} records)
+            </h2>
+            <Button onClick={() => generateReport(currentFilters())}>
+              <FileText className="mr-2 h-4 w-4" />
+              Download CSV
+            </Button>
+          </div>
+          <DataTable table={table} />
+        </div>
+      )}
+
+      {!loading && !initialLoad && reportData.length === 0 && (
+        <div className="text-center py-8 text-muted-foreground">No foreign-currency pledges in this period.</div>
+      )}
+
+      {loading && (
+        <div className="text-center py-8">Loading report data...</div>
+      )}
+    </div>
+  );
+}
@@ -5,7 +5,7 @@ import { useRouter } from "next/navigation";
 import { useEffect } from "react";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
-import { FileText, TrendingUp, Users, DollarSign, Calendar, Target } from "lucide-react";
+import { FileText, TrendingUp, Users, DollarSign, Calendar, Target, Heart, ArrowLeftRight } from "lucide-react";
 
 export default function ReportsPage() {
   const { data: session, status } = useSession();
@@ -82,6 +82,27 @@ export default function ReportsPage() {
         "SYBUNT Reports"
       ]
     },
+    {
+      title: "Dedication Reports",
+      description: "Gifts given in honor or in memory of someone",
+      icon: Heart,
+      href: "/admin/reports/dedications",
+      color: "text-rose-600",
+      subReports: [
+        "In Honor Of / In Memory Of Gifts"
+      ]
+    },
+    {
+      title: "FX Gain/Loss Reports",
+      description: "Exchange gain or loss on pledges made in currencies other than USD",
+      icon: ArrowLeftRight,
+      href: "/admin/reports/fx-gain-loss",
+      color: "text-teal-600",
+      subReports: [
+        "Realized Gain/Loss by Pledge, Currency or Period",
+        "Unrealized Revaluation of Open Balances"
+      ]
+    },
   ];
 
   return (
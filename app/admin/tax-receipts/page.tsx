@@ -0,0 +1,9 @@
+import { TaxReceiptsManagement } from "@/components/tax-receipts/tax-receipts-management";
+
+export default function AdminTaxReceiptsPage() {
+  return (
+    <div className="container mx-auto py-6">
+      <TaxReceiptsManagement />
+    </div>
+  );
+}
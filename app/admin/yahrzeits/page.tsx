@@ -0,0 +1,9 @@
+import { YahrzeitList } from "@/components/memorials/yahrzeit-list";
+
+export default function AdminYahrzeitsPage() {
+  return (
+    <div className="container mx-auto py-6">
+      <YahrzeitList />
+    </div>
+  );
+}
@@ -0,0 +1,30 @@
+import { NextResponse } from "next/server";
+import { ErrorHandler } from "@/lib/error-handler";
+import { withAuth } from "@/lib/auth-guard";
+import { buildAchBatchFile } from "@/lib/ach/batches";
+
+// The NACHA file for the batch, for upload to the bank
+export const GET = withAuth<{ id: string }>(
+  { role: "admin", location: { resource: "achBatch", param: "id" } },
+  async (_request, { params }) => {
+    try {
+      const batchId = parseInt((await params).id, 10);
+      if (isNaN(batchId)) {
+        return NextResponse.json({ error: "Invalid batch ID" }, { status: 400 });
+      }
+
+      const { fileName, contents } = await buildAchBatchFile(batchId);
+
+      return new NextResponse(contents, {
+        headers: {
+          "Content-Type": "text/plain; charset=us-ascii",
+          "Content-Disposition": `attachment; filename="${fileName}"`,
+          "Cache-Control": "no-store",
+        },
+      });
+    } catch (error) {
+      console.error("Error downloading ACH file:", error);
+      return ErrorHandler.handle(error);
+    }
+  }
+);
@@ -0,0 +1,63 @@
+import { NextResponse } from "next/server";
+import { eq, sql } from "drizzle-orm";
+import { db } from "@/lib/db";
+import { achBatch, achBatchEntry, contact, paymentPlan, pledge } from "@/lib/db/schema";
+import { ErrorHandler } from "@/lib/error-handler";
+import { withAuth } from "@/lib/auth-guard";
+
+export const GET = withAuth<{ id: string }>(
+  { role: "admin", location: { resource: "achBatch", param: "id" } },
+  async (_request, { params }) => {
+    try {
+      const batchId = parseInt((await params).id, 10);
+      if (isNaN(batchId)) {
+        return NextResponse.json({ error: "Invalid batch ID" }, { status: 400 });
+      }
+
+      const [batch] = await db
+        .select({
+          id: achBatch.id,
+          fromDate: achBatch.fromDate,
+          toDate: achBatch.toDate,
+          effectiveDate: achBatch.effectiveDate,
+          entryCount: achBatch.entryCount,
+          totalAmount: achBatch.totalAmount,
+          fileName: achBatch.fileName,
+          settledAt: achBatch.settledAt,
+          createdAt: achBatch.createdAt,
+        })
+        .from(achBatch)
+        .where(eq(achBatch.id, batchId))
+        .limit(1);
+      if (!batch) {
+        return NextResponse.json({ error: "ACH batch not found" }, { status: 404 });
+      }
+
+      const entries = await db
+        .select({
+          id: achBatchEntry.id,
+          traceNumber: achBatchEntry.traceNumber,
+          amount: achBatchEntry.amount,
+          status: achBatchEntry.status,
+          returnCode: achBatchEntry.returnCode,
+          returnReason: achBatchEntry.returnReason,
+          returnedAt: achBatchEntry.returnedAt,
+          paymentId: achBatchEntry.paymentId,
+          paymentPlanId: achBatchEntry.paymentPlanId,
+          contactId: contact.id,
+          contactName: sql<string>`TRIM(CONCAT(${contact.firstName}, ' ', ${contact.lastName}))`,
+        })
+        .from(achBatchEntry)
+        .leftJoin(paymentPlan, eq(achBatchEntry.paymentPlanId, paymentPlan.id))
+        .leftJoin(pledge, eq(paymentPlan.pledgeId, pledge.id))
+        .leftJoin(contact, eq(pledge.contactId, contact.id))
+        .where(eq(achBatchEntry.batchId, batchId))
+        .orderBy(achBatchEntry.id);
+
+      return NextResponse.json({ batch, entries });
+    } catch (error) {
+      console.error("Error fetching ACH batch:", error);
+      return ErrorHandler.handle(error);
+    }
+  }
+);
@@ -0,0 +1,33 @@
+import { NextResponse } from "next/server";
+import { ErrorHandler } from "@/lib/error-handler";
+import { withAuth } from "@/lib/auth-guard";
+import { recordAudit } from "@/lib/audit-log";
+import { settleAchBatch } from "@/lib/ach/batches";
+
+export const POST = withAuth<{ id: string }>(
+  { role: "admin", location: { resource: "achBatch", param: "id" } },
+  async (request, { params }) => {
+    try {
+      const batchId = parseInt((await params).id, 10);
+      if (isNaN(batchId)) {
+        return NextResponse.json({ error: "Invalid batch ID" }, { status: 400 });
+      }
+
+      const { batch, settled } = await settleAchBatch(batchId);
+
+      await recordAudit(request, {
+        action: "update",
+        entityType: "achBatch",
+        entityId: batch.id,
+        before: { settledAt: null },
+        after: { settledAt: batch.settledAt },
+        note: `${settled} debits settled`,
+      });
+
+      return NextResponse.json({ message: `${settled} debits marked as settled`, batch });
+    } catch (error) {
+      console.error("Error settling ACH batch:", error);
+      return ErrorHandler.handle(error);
+    }
+  }
+);
@@ -0,0 +1,40 @@
+import { NextResponse } from "next/server";
+import { z } from "zod";
+import { ErrorHandler } from "@/lib/error-handler";
+import { withAuth } from "@/lib/auth-guard";
+import { recordAudit } from "@/lib/audit-log";
+import { importAchReturns } from "@/lib/ach/batches";
+
+// The return file's text; the page reads the upload in the browser
+const returnFileSchema = z.object({
+  content: z.string().min(1, "The return file is empty").max(5_000_000),
+});
+
+export const POST = withAuth({ role: "admin", location: true }, async (request, _context, auth) => {
+  try {
+    const { content } = returnFileSchema.parse(await request.json());
+    const result = await importAchReturns(content, { locationId: auth.isGlobal ? null : auth.locationId });
+
+    await recordAudit(
+      request,
+      ...result.returned
+        .filter((entry) => entry.paymentId)
+        .map((entry) => ({
+          action: "update" as const,
+          entityType: "payment" as const,
+          entityId: entry.paymentId!,
+          before: { paymentStatus: "processing" },
+          after: { paymentStatus: "failed" },
+          note: `ACH return ${entry.returnCode} (${entry.returnReason}), trace ${entry.traceNumber}`,
+        }))
+    );
+
+    return NextResponse.json({
+      message: `${result.returned.length} debits returned, ${result.alreadyReturned.length} already recorded, ${result.unmatched.length} not recognised`,
+      ...result,
+    });
+  } catch (error) {
+    console.error("Error importing ACH returns:", error);
+    return ErrorHandler.handle(error);
+  }
+});
@@ -0,0 +1,129 @@
+import { NextResponse } from "next/server";
+import { desc, sql } from "drizzle-orm";
+import { z } from "zod";
+import { db } from "@/lib/db";
+import { achBatch, achBatchEntry } from "@/lib/db/schema";
+import { ErrorHandler } from "@/lib/error-handler";
+import { withAuth, locationFilter } from "@/lib/auth-guard";
+import { recordAudit } from "@/lib/audit-log";
+import { generateAchBatch, previewAchBatch } from "@/lib/ach/batches";
+
+const isoDate = (label: string) => z.string().regex(/^\d{4}-\d{2}-\d{2}$/, `${label} must be YYYY-MM-DD`);
+
+const querySchema = z.object({
+  page: z.coerce.number().min(1).default(1),
+  limit: z.coerce.number().min(1).max(100).default(25),
+});
+
+const generateSchema = z
+  .object({
+    fromDate: isoDate("From date"),
+    toDate: isoDate("To date"),
+    effectiveDate: isoDate("Effective date"),
+    // Lists what the file would contain without creating it
+    preview: z.boolean().default(false),
+  })
+  .refine((data) => data.fromDate <= data.toDate, {
+    message: "From date must be on or before the to date",
+    path: ["toDate"],
+  });
+
+export const GET = withAuth({ role: "admin", location: true }, async (request, _context, auth) => {
+  try {
+    const { searchParams } = new URL(request.url);
+    const { page, limit } = querySchema.parse({
+      page: searchParams.get("page") ?? undefined,
+      limit: searchParams.get("limit") ?? undefined,
+    });
+    const where = locationFilter(auth, achBatch.locationId);
+
+    const [batches, [{ total }]] = await Promise.all([
+      db
+        .select({
+          id: achBatch.id,
+          fromDate: achBatch.fromDate,
+          toDate: achBatch.toDate,
+          effectiveDate: achBatch.effectiveDate,
+          entryCount: achBatch.entryCount,
+          totalAmount: achBatch.totalAmount,
+          fileName: achBatch.fileName,
+          settledAt: achBatch.settledAt,
+          createdAt: achBatch.createdAt,
+          returnedCount: sql<number>`(
+            SELECT COUNT(*)::int FROM ${achBatchEntry}
+            WHERE ${achBatchEntry.batchId} = ${achBatch.id} AND ${achBatchEntry.status} = 'returned'
+          )`,
+        })
+        .from(achBatch)
+        .where(where)
+        .orderBy(desc(achBatch.createdAt), desc(achBatch.id))
+        .limit(limit)
+        .offset((page - 1) * limit),
+      db
+        .select({ total: sql<number>`COUNT(*)::int` })
+        .from(achBatch)
+        .where(where),
+    ]);
+
+    return NextResponse.json({
+      batches,
+      pagination: {
+        page,
+        limit,
+        totalCount: total,
+        totalPages: Math.ceil(total / limit),
+      },
+    });
+  } catch (error) {
+    return ErrorHandler.handle(error);
+  }
+});
+
+export const POST = withAuth({ role: "admin", location: true }, async (request, _context, auth) => {
+  try {
+    const { preview, ...range } = generateSchema.parse(await request.json());
+    const locationId = auth.isGlobal ? null : auth.locationId;
+
+    if (preview) {
+      return NextResponse.json(await previewAchBatch({ ...range, locationId }));
+    }
+
+    const result = await generateAchBatch({ ...range, locationId, createdBy: auth.userId });
+
+    await recordAudit(
+      request,
+      {
+        action: "create",
+        entityType: "achBatch",
+        entityId: result.batch.id,
+        after: {
+          fromDate: result.batch.fromDate,
+          toDate: result.batch.toDate,
+          effectiveDate: result.batch.effectiveDate,
+          entryCount: result.batch.entryCount,
+          totalAmount: result.batch.totalAmount,
+        },
+      },
+      ...result.entries
+        .filter((entry) => entry.paymentId)
+        .map((entry) => ({
+          action: "update" as const,
+          entityType: "payment" as const,
+          entityId: entry.paymentId!,
+          note: `submitted in ACH batch #${result.batch.id}, trace ${entry.traceNumber}`,
+        }))
+    );
+
+    return NextResponse.json(
+      {
+        message: `ACH file created with ${result.entries.length} debits totalling ${result.batch.totalAmount} USD`,
+        batch: result.batch,
+        skipped: result.skipped,
+      },
+      { status: 201 }
+    );
+  } catch (error) {
+    console.error("Error generating ACH batch:", error);
+    return ErrorHandler.handle(error);
+  }
+});
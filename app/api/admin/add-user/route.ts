@@ -5,6 +5,7 @@ import { db } from "@/lib/db";
 import { user, contact, type NewUser, type NewContact } from "@/lib/db/schema";
 import { eq, and } from "drizzle-orm";
 import bcrypt from "bcryptjs";
+import { recordAudit } from "@/lib/audit-log";
 
 export async function POST(request: NextRequest) {
   try {
@@ -82,7 +83,15 @@ export async function POST(request: NextRequest) {
       contactData.locationId = adminLocationId;
     }
 
-    await db.insert(contact).values(contactData);
+    const [createdContact] = await db.insert(contact).values(contactData).returning();
+
+    await recordAudit(request, {
+      action: "create",
+      entityType: "contact",
+      entityId: createdContact.id,
+      after: createdContact,
+      note: "user account created",
+    });
 
     return NextResponse.json({ message: "User created successfully" });
   } catch (error) {
@@ -0,0 +1,70 @@
+import { NextResponse } from "next/server";
+import { eq } from "drizzle-orm";
+import { db } from "@/lib/db";
+import { bankStatement, bankStatementLine } from "@/lib/db/schema";
+import { ErrorHandler } from "@/lib/error-handler";
+import { withAuth } from "@/lib/auth-guard";
+import { recordAudit } from "@/lib/audit-log";
+import { deleteBankStatement } from "@/lib/bank-statements/reconciliation";
+
+export const GET = withAuth<{ id: string }>(
+  { role: "admin", location: { resource: "bankStatement", param: "id" } },
+  async (_request, { params }) => {
+    try {
+      const statementId = parseInt((await params).id, 10);
+      if (isNaN(statementId)) {
+        return NextResponse.json({ error: "Invalid statement ID" }, { status: 400 });
+      }
+
+      const [statement] = await db.select().from(bankStatement).where(eq(bankStatement.id, statementId)).limit(1);
+      if (!statement) {
+        return NextResponse.json({ error: "Bank statement not found" }, { status: 404 });
+      }
+
+      const lines = await db
+        .select()
+        .from(bankStatementLine)
+        .where(eq(bankStatementLine.statementId, statementId))
+        .orderBy(bankStatementLine.postedDate, bankStatementLine.id);
+
+      return NextResponse.json({ statement, lines });
+    } catch (error) {
+      console.error("Error fetching bank statement:", error);
+      return ErrorHandler.handle(error);
+    }
+  }
+);
+
+export const DELETE = withAuth<{ id: string }>(
+  { role: "admin", location: { resource: "bankStatement", param: "id" } },
+  async (request, { params }) => {
+    try {
+      const statementId = parseInt((await params).id, 10);
+      if (isNaN(statementId)) {
+        return NextResponse.json({ error: "Invalid statement ID" }, { status: 400 });
+      }
+
+      const { unreconciled } = await deleteBankStatement(statementId);
+
+      await recordAudit(
+        request,
+        { action: "delete", entityType: "bankStatement", entityId: statementId },
+        ...unreconciled.map((paymentId) => ({
+          action: "update" as const,
+          entityType: "payment" as const,
+          entityId: paymentId,
+          before: { isReconciled: true },
+          after: { isReconciled: false, bankDepositId: null },
+          note: `bank statement #${statementId} deleted`,
+        }))
+      );
+
+      return NextResponse.json({
+        message: `Statement deleted; ${unreconciled.length} payments are unreconciled again`,
+      });
+    } catch (error) {
+      console.error("Error deleting bank statement:", error);
+      return ErrorHandler.handle(error);
+    }
+  }
+);
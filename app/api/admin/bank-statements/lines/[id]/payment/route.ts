@@ -0,0 +1,57 @@
+import { NextResponse } from "next/server";
+import { z } from "zod";
+import { ErrorHandler } from "@/lib/error-handler";
+import { withAuth, assertLocationAccess } from "@/lib/auth-guard";
+import { recordAudit } from "@/lib/audit-log";
+import { createPaymentFromLine } from "@/lib/bank-statements/reconciliation";
+
+const depositPaymentSchema = z.object({
+  pledgeId: z.number().int().positive(),
+  paymentMethod: z.string().min(1).default("check"),
+  notes: z.string().max(1000).optional().nullable(),
+});
+
+// Records an unmatched deposit as a new payment on a pledge
+export const POST = withAuth<{ id: string }>(
+  { role: "admin", location: { resource: "bankStatementLine", param: "id" } },
+  async (request, { params }, auth) => {
+    try {
+      const lineId = parseInt((await params).id, 10);
+      if (isNaN(lineId)) {
+        return NextResponse.json({ error: "Invalid line ID" }, { status: 400 });
+      }
+      const data = depositPaymentSchema.parse(await request.json());
+      await assertLocationAccess(auth, "pledge", data.pledgeId);
+
+      const { line, paymentId } = await createPaymentFromLine(lineId, data, auth.userId);
+
+      await recordAudit(
+        request,
+        {
+          action: "create",
+          entityType: "payment",
+          entityId: paymentId,
+          after: {
+            pledgeId: data.pledgeId,
+            amount: line.amount,
+            paymentDate: line.postedDate,
+            paymentMethod: data.paymentMethod,
+            isReconciled: true,
+          },
+          note: `created from bank deposit #${lineId}`,
+        },
+        {
+          action: "update",
+          entityType: "bankStatementLine",
+          entityId: lineId,
+          after: { status: line.status, paymentId },
+        }
+      );
+
+      return NextResponse.json({ message: "Payment recorded and reconciled", line, paymentId }, { status: 201 });
+    } catch (error) {
+      console.error("Error creating payment from deposit:", error);
+      return ErrorHandler.handle(error);
+    }
+  }
+);
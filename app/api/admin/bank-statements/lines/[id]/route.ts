@@ -0,0 +1,124 @@
+import { NextResponse } from "next/server";
+import { eq } from "drizzle-orm";
+import { z } from "zod";
+import { db } from "@/lib/db";
+import { bankStatement, bankStatementLine } from "@/lib/db/schema";
+import { ErrorHandler } from "@/lib/error-handler";
+import { withAuth, assertLocationAccess } from "@/lib/auth-guard";
+import { recordAudit } from "@/lib/audit-log";
+import {
+  findMatchCandidates,
+  ignoreLine,
+  reconcileLine,
+  reopenLine,
+  summarizePayments,
+} from "@/lib/bank-statements/reconciliation";
+
+const actionSchema = z.discriminatedUnion("action", [
+  z.object({ action: z.literal("match"), paymentId: z.number().int().positive() }),
+  z.object({ action: z.literal("ignore"), note: z.string().max(500).optional() }),
+  z.object({ action: z.literal("reopen") }),
+]);
+
+const parseLineId = async (params: Promise<{ id: string }>) => parseInt((await params).id, 10);
+
+// The deposit with the payments it could be, stored candidates first
+export const GET = withAuth<{ id: string }>(
+  { role: "admin", location: { resource: "bankStatementLine", param: "id" } },
+  async (_request, { params }) => {
+    try {
+      const lineId = await parseLineId(params);
+      if (isNaN(lineId)) {
+        return NextResponse.json({ error: "Invalid line ID" }, { status: 400 });
+      }
+
+      const [row] = await db
+        .select({ line: bankStatementLine, currency: bankStatement.currency, locationId: bankStatement.locationId })
+        .from(bankStatementLine)
+        .innerJoin(bankStatement, eq(bankStatementLine.statementId, bankStatement.id))
+        .where(eq(bankStatementLine.id, lineId))
+        .limit(1);
+      if (!row) {
+        return NextResponse.json({ error: "Statement line not found" }, { status: 404 });
+      }
+
+      const found = await findMatchCandidates(db, row.line, { currency: row.currency, locationId: row.locationId });
+      const ids = [
+        ...(row.line.paymentId ? [row.line.paymentId] : []),
+        ...(row.line.candidatePaymentIds ?? []),
+        ...found.map((candidate) => candidate.paymentId),
+      ];
+      const candidates = await summarizePayments([...new Set(ids)]);
+
+      return NextResponse.json({ line: { ...row.line, currency: row.currency }, candidates });
+    } catch (error) {
+      console.error("Error fetching statement line:", error);
+      return ErrorHandler.handle(error);
+    }
+  }
+);
+
+export const PATCH = withAuth<{ id: string }>(
+  { role: "admin", location: { resource: "bankStatementLine", param: "id" } },
+  async (request, { params }, auth) => {
+    try {
+      const lineId = await parseLineId(params);
+      if (isNaN(lineId)) {
+        return NextResponse.json({ error: "Invalid line ID" }, { status: 400 });
+      }
+      const data = actionSchema.parse(await request.json());
+
+      const [before] = await db
+        .select({ status: bankStatementLine.status, paymentId: bankStatementLine.paymentId })
+        .from(bankStatementLine)
+        .where(eq(bankStatementLine.id, lineId))
+        .limit(1);
+
+      let line;
+      if (data.action === "match") {
+        await assertLocationAccess(auth, "payment", data.paymentId);
+        line = await reconcileLine(lineId, data.paymentId, auth.userId);
+      } else if (data.action === "ignore") {
+        line = await ignoreLine(lineId, auth.userId, data.note);
+      } else {
+        line = await reopenLine(lineId);
+      }
+
+      const paymentEntry =
+        data.action === "match"
+          ? {
+              action: "update" as const,
+              entityType: "payment" as const,
+              entityId: data.paymentId,
+              before: { isReconciled: false },
+              after: { isReconciled: true, bankDepositId: lineId },
+            }
+          : data.action === "reopen" && before?.paymentId
+            ? {
+                action: "update" as const,
+                entityType: "payment" as const,
+                entityId: before.paymentId,
+                before: { isReconciled: true, bankDepositId: lineId },
+                after: { isReconciled: false, bankDepositId: null },
+              }
+            : null;
+
+      await recordAudit(
+        request,
+        {
+          action: "update",
+          entityType: "bankStatementLine",
+          entityId: lineId,
+          before,
+          after: { status: line.status, paymentId: line.paymentId },
+        },
+        ...(paymentEntry ? [paymentEntry] : [])
+      );
+
+      return NextResponse.json({ line });
+    } catch (error) {
+      console.error("Error updating statement line:", error);
+      return ErrorHandler.handle(error);
+    }
+  }
+);
@@ -0,0 +1,80 @@
+import { NextResponse } from "next/server";
+import { and, desc, eq, inArray, sql, type SQL } from "drizzle-orm";
+import { z } from "zod";
+import { db } from "@/lib/db";
+import { bankStatement, bankStatementLine, bankLineStatusEnum } from "@/lib/db/schema";
+import { ErrorHandler } from "@/lib/error-handler";
+import { withAuth, locationFilter } from "@/lib/auth-guard";
+
+// "open" is the review queue: deposits still waiting on someone
+const querySchema = z.object({
+  status: z.enum(["open", ...bankLineStatusEnum.enumValues]).default("open"),
+  statementId: z.coerce.number().int().positive().optional(),
+  page: z.coerce.number().min(1).default(1),
+  limit: z.coerce.number().min(1).max(100).default(50),
+});
+
+export const GET = withAuth({ role: "admin", location: true }, async (request, _context, auth) => {
+  try {
+    const { searchParams } = new URL(request.url);
+    const { status, statementId, page, limit } = querySchema.parse({
+      status: searchParams.get("status") ?? undefined,
+      statementId: searchParams.get("statementId") ?? undefined,
+      page: searchParams.get("page") ?? undefined,
+      limit: searchParams.get("limit") ?? undefined,
+    });
+
+    const conditions: SQL[] = [
+      status === "open"
+        ? inArray(bankStatementLine.status, ["review", "unmatched"])
+        : eq(bankStatementLine.status, status),
+    ];
+    const location = locationFilter(auth, bankStatement.locationId);
+    if (location) conditions.push(location);
+    if (statementId) conditions.push(eq(bankStatementLine.statementId, statementId));
+    const where = and(...conditions);
+
+    const [lines, [{ total }]] = await Promise.all([
+      db
+        .select({
+          id: bankStatementLine.id,
+          statementId: bankStatementLine.statementId,
+          fileName: bankStatement.fileName,
+          currency: bankStatement.currency,
+          postedDate: bankStatementLine.postedDate,
+          amount: bankStatementLine.amount,
+          description: bankStatementLine.description,
+          referenceNumber: bankStatementLine.referenceNumber,
+          checkNumber: bankStatementLine.checkNumber,
+          status: bankStatementLine.status,
+          paymentId: bankStatementLine.paymentId,
+          matchMethod: bankStatementLine.matchMethod,
+          candidatePaymentIds: bankStatementLine.candidatePaymentIds,
+          matchNote: bankStatementLine.matchNote,
+        })
+        .from(bankStatementLine)
+        .innerJoin(bankStatement, eq(bankStatementLine.statementId, bankStatement.id))
+        .where(where)
+        .orderBy(desc(bankStatementLine.postedDate), bankStatementLine.id)
+        .limit(limit)
+        .offset((page - 1) * limit),
+      db
+        .select({ total: sql<number>`COUNT(*)::int` })
+        .from(bankStatementLine)
+        .innerJoin(bankStatement, eq(bankStatementLine.statementId, bankStatement.id))
+        .where(where),
+    ]);
+
+    return NextResponse.json({
+      lines,
+      pagination: {
+        page,
+        limit,
+        totalCount: total,
+        totalPages: Math.ceil(total / limit),
+      },
+    });
+  } catch (error) {
+    return ErrorHandler.handle(error);
+  }
+});
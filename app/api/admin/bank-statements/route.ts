@@ -0,0 +1,128 @@
+import { NextResponse } from "next/server";
+import { desc, sql } from "drizzle-orm";
+import { z } from "zod";
+import { db } from "@/lib/db";
+import { bankStatement, bankStatementLine } from "@/lib/db/schema";
+import { ErrorHandler } from "@/lib/error-handler";
+import { withAuth, locationFilter } from "@/lib/auth-guard";
+import { recordAudit } from "@/lib/audit-log";
+import { importBankStatement } from "@/lib/bank-statements/reconciliation";
+import { currencyCodeSchema } from "@/lib/form-schemas/currency";
+
+const querySchema = z.object({
+  page: z.coerce.number().min(1).default(1),
+  limit: z.coerce.number().min(1).max(100).default(25),
+});
+
+// The file's text; the page reads the upload in the browser
+const importSchema = z.object({
+  fileName: z.string().min(1).max(255),
+  content: z.string().min(1, "The statement file is empty").max(10_000_000),
+  // For CSV files, which do not say
+  currency: currencyCodeSchema.optional(),
+});
+
+const countWhere = (status: string) =>
+  sql<number>`(
+    SELECT COUNT(*)::int FROM ${bankStatementLine}
+    WHERE ${bankStatementLine.statementId} = ${bankStatement.id} AND ${bankStatementLine.status} = ${status}
+  )`;
+
+export const GET = withAuth({ role: "admin", location: true }, async (request, _context, auth) => {
+  try {
+    const { searchParams } = new URL(request.url);
+    const { page, limit } = querySchema.parse({
+      page: searchParams.get("page") ?? undefined,
+      limit: searchParams.get("limit") ?? undefined,
+    });
+    const where = locationFilter(auth, bankStatement.locationId);
+
+    const [statements, [{ total }]] = await Promise.all([
+      db
+        .select({
+          id: bankStatement.id,
+          fileName: bankStatement.fileName,
+          format: bankStatement.format,
+          currency: bankStatement.currency,
+          periodStart: bankStatement.periodStart,
+          periodEnd: bankStatement.periodEnd,
+          lineCount: bankStatement.lineCount,
+          duplicateCount: bankStatement.duplicateCount,
+          createdAt: bankStatement.createdAt,
+          matchedCount: countWhere("matched"),
+          reviewCount: countWhere("review"),
+          unmatchedCount: countWhere("unmatched"),
+          ignoredCount: countWhere("ignored"),
+        })
+        .from(bankStatement)
+        .where(where)
+        .orderBy(desc(bankStatement.createdAt), desc(bankStatement.id))
+        .limit(limit)
+        .offset((page - 1) * limit),
+      db
+        .select({ total: sql<number>`COUNT(*)::int` })
+        .from(bankStatement)
+        .where(where),
+    ]);
+
+    return NextResponse.json({
+      statements,
+      pagination: {
+        page,
+        limit,
+        totalCount: total,
+        totalPages: Math.ceil(total / limit),
+      },
+    });
+  } catch (error) {
+    return ErrorHandler.handle(error);
+  }
+});
+
+export const POST = withAuth({ role: "admin", location: true }, async (request, _context, auth) => {
+  try {
+    const data = importSchema.parse(await request.json());
+    const result = await importBankStatement({
+      ...data,
+      locationId: auth.isGlobal ? null : auth.locationId,
+      importedBy: auth.userId,
+    });
+
+    await recordAudit(
+      request,
+      {
+        action: "create",
+        entityType: "bankStatement",
+        entityId: result.statement.id,
+        after: {
+          fileName: result.statement.fileName,
+          periodStart: result.statement.periodStart,
+          periodEnd: result.statement.periodEnd,
+          lineCount: result.statement.lineCount,
+        },
+        note: `${result.matched} matched, ${result.review} to review, ${result.unmatched} unmatched`,
+      },
+      ...result.reconciled.map(({ lineId, paymentId }) => ({
+        action: "update" as const,
+        entityType: "payment" as const,
+        entityId: paymentId,
+        before: { isReconciled: false },
+        after: { isReconciled: true, bankDepositId: lineId },
+        note: `auto-matched to a deposit on statement #${result.statement.id}`,
+      }))
+    );
+
+    return NextResponse.json(
+      {
+        message: `${result.statement.lineCount} deposits imported: ${result.matched} matched, ${result.review} to review, ${result.unmatched} unmatched${
+          result.duplicates ? `, ${result.duplicates} already imported` : ""
+        }`,
+        ...result,
+      },
+      { status: 201 }
+    );
+  } catch (error) {
+    console.error("Error importing bank statement:", error);
+    return ErrorHandler.handle(error);
+  }
+});
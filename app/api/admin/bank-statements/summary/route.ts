@@ -0,0 +1,22 @@
+import { NextResponse } from "next/server";
+import { format } from "date-fns";
+import { z } from "zod";
+import { ErrorHandler } from "@/lib/error-handler";
+import { withAuth } from "@/lib/auth-guard";
+import { monthCloseSummary } from "@/lib/bank-statements/reconciliation";
+
+const querySchema = z.object({
+  month: z.string().regex(/^\d{4}-(0[1-9]|1[0-2])$/, "Month must be YYYY-MM"),
+});
+
+// Month-end check that the CRM agrees with the bank
+export const GET = withAuth({ role: "admin", location: true }, async (request, _context, auth) => {
+  try {
+    const { searchParams } = new URL(request.url);
+    const { month } = querySchema.parse({ month: searchParams.get("month") ?? format(new Date(), "yyyy-MM") });
+
+    return NextResponse.json(await monthCloseSummary(month, auth.isGlobal ? null : auth.locationId));
+  } catch (error) {
+    return ErrorHandler.handle(error);
+  }
+});
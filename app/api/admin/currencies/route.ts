@@ -0,0 +1,47 @@
+import { NextResponse } from "next/server";
+import { ErrorHandler } from "@/lib/error-handler";
+import { withAuth } from "@/lib/auth-guard";
+import { recordAudit } from "@/lib/audit-log";
+import { listCurrencies, saveCurrency } from "@/lib/currencies/currencies";
+import { currencySchema } from "@/lib/form-schemas/currency";
+
+// Super admins manage the rows for every location; admins their own location's
+export const GET = withAuth({ role: "admin", location: true }, async (_request, _context, auth) => {
+  try {
+    const currencies = await listCurrencies(auth.isGlobal ? null : auth.locationId, { includeInactive: true });
+    return NextResponse.json({ currencies });
+  } catch (error) {
+    return ErrorHandler.handle(error);
+  }
+});
+
+export const POST = withAuth({ role: "admin", location: true }, async (request, _context, auth) => {
+  try {
+    const data = currencySchema.parse(await request.json());
+    const { before, after } = await saveCurrency(data, auth.isGlobal ? null : auth.locationId);
+
+    const snapshot = (row: typeof after) => ({
+      code: row.code,
+      name: row.name,
+      symbol: row.symbol,
+      minorUnits: row.minorUnits,
+      isActive: row.isActive,
+    });
+    await recordAudit(request, {
+      action: before ? "update" : "create",
+      entityType: "currency",
+      entityId: after.id,
+      before: before ? snapshot(before) : undefined,
+      after: snapshot(after),
+      note: after.locationId ? undefined : "applies to every location",
+    });
+
+    return NextResponse.json(
+      { message: `${after.code} ${after.isActive ? "enabled" : "turned off"}`, currency: after },
+      { status: before ? 200 : 201 }
+    );
+  } catch (error) {
+    console.error("Error saving currency:", error);
+    return ErrorHandler.handle(error);
+  }
+});
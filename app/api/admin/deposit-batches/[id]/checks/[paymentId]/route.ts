@@ -0,0 +1,42 @@
+import { NextResponse } from "next/server";
+import { ErrorHandler } from "@/lib/error-handler";
+import { withAuth } from "@/lib/auth-guard";
+import { recordAudit } from "@/lib/audit-log";
+import { removeCheckFromBatch } from "@/lib/deposit-batches/batches";
+
+export const DELETE = withAuth<{ id: string; paymentId: string }>(
+  { role: "admin", location: { resource: "depositBatch", param: "id" } },
+  async (request, { params }) => {
+    try {
+      const { id, paymentId: rawPaymentId } = await params;
+      const batchId = parseInt(id, 10);
+      const paymentId = parseInt(rawPaymentId, 10);
+      if (isNaN(batchId) || isNaN(paymentId)) {
+        return NextResponse.json({ error: "Invalid batch or payment ID" }, { status: 400 });
+      }
+
+      await removeCheckFromBatch(batchId, paymentId);
+
+      await recordAudit(
+        request,
+        {
+          action: "delete",
+          entityType: "payment",
+          entityId: paymentId,
+          note: `removed from deposit batch #${batchId}`,
+        },
+        {
+          action: "update",
+          entityType: "depositBatch",
+          entityId: batchId,
+          note: `payment #${paymentId} removed`,
+        }
+      );
+
+      return NextResponse.json({ message: "Check removed from the batch" });
+    } catch (error) {
+      console.error("Error removing check from deposit batch:", error);
+      return ErrorHandler.handle(error);
+    }
+  }
+);
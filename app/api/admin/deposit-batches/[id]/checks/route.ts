@@ -0,0 +1,54 @@
+import { NextResponse } from "next/server";
+import { z } from "zod";
+import { ErrorHandler } from "@/lib/error-handler";
+import { withAuth, assertLocationAccess } from "@/lib/auth-guard";
+import { recordAudit } from "@/lib/audit-log";
+import { addCheckToBatch } from "@/lib/deposit-batches/batches";
+
+const checkSchema = z.object({
+  pledgeId: z.number().int().positive(),
+  amount: z.number().positive("Amount must be positive"),
+  checkNumber: z.string().trim().min(1, "Check number is required").max(50),
+  checkDate: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Check date must be YYYY-MM-DD").nullable().optional(),
+  payerContactId: z.number().int().positive().nullable().optional(),
+  notes: z.string().max(1000).nullable().optional(),
+});
+
+export const POST = withAuth<{ id: string }>(
+  { role: "admin", location: { resource: "depositBatch", param: "id" } },
+  async (request, { params }, auth) => {
+    try {
+      const batchId = parseInt((await params).id, 10);
+      if (isNaN(batchId)) {
+        return NextResponse.json({ error: "Invalid batch ID" }, { status: 400 });
+      }
+
+      const data = checkSchema.parse(await request.json());
+      await assertLocationAccess(auth, "pledge", data.pledgeId);
+
+      const paymentId = await addCheckToBatch(batchId, data);
+
+      await recordAudit(
+        request,
+        {
+          action: "create",
+          entityType: "payment",
+          entityId: paymentId,
+          after: { pledgeId: data.pledgeId, amount: data.amount.toFixed(2), checkNumber: data.checkNumber },
+          note: `keyed into deposit batch #${batchId}`,
+        },
+        {
+          action: "update",
+          entityType: "depositBatch",
+          entityId: batchId,
+          note: `check #${data.checkNumber} added`,
+        }
+      );
+
+      return NextResponse.json({ message: `Check #${data.checkNumber} added`, paymentId }, { status: 201 });
+    } catch (error) {
+      console.error("Error adding check to deposit batch:", error);
+      return ErrorHandler.handle(error);
+    }
+  }
+);
@@ -0,0 +1,32 @@
+import { NextResponse } from "next/server";
+import { ErrorHandler } from "@/lib/error-handler";
+import { withAuth } from "@/lib/auth-guard";
+import { recordAudit } from "@/lib/audit-log";
+import { closeDepositBatch } from "@/lib/deposit-batches/batches";
+
+export const POST = withAuth<{ id: string }>(
+  { role: "admin", location: { resource: "depositBatch", param: "id" } },
+  async (request, { params }, auth) => {
+    try {
+      const batchId = parseInt((await params).id, 10);
+      if (isNaN(batchId)) {
+        return NextResponse.json({ error: "Invalid batch ID" }, { status: 400 });
+      }
+
+      const batch = await closeDepositBatch(batchId, auth.userId);
+
+      await recordAudit(request, {
+        action: "update",
+        entityType: "depositBatch",
+        entityId: batch.id,
+        before: { status: "open" },
+        after: { status: batch.status, closedAt: batch.closedAt },
+      });
+
+      return NextResponse.json({ message: `Deposit batch #${batch.id} closed`, batch });
+    } catch (error) {
+      console.error("Error closing deposit batch:", error);
+      return ErrorHandler.handle(error);
+    }
+  }
+);
@@ -0,0 +1,69 @@
+import { NextResponse } from "next/server";
+import { eq } from "drizzle-orm";
+import { stringify } from "csv-stringify/sync";
+import { db } from "@/lib/db";
+import { depositBatch } from "@/lib/db/schema";
+import { ErrorHandler } from "@/lib/error-handler";
+import { withAuth } from "@/lib/auth-guard";
+import { recordAudit } from "@/lib/audit-log";
+import { listBatchChecks } from "@/lib/deposit-batches/batches";
+
+// One row per check for the accounting system's deposit import
+export const GET = withAuth<{ id: string }>(
+  { role: "admin", location: { resource: "depositBatch", param: "id" } },
+  async (request, { params }) => {
+    try {
+      const batchId = parseInt((await params).id, 10);
+      if (isNaN(batchId)) {
+        return NextResponse.json({ error: "Invalid batch ID" }, { status: 400 });
+      }
+
+      const [batch] = await db.select().from(depositBatch).where(eq(depositBatch.id, batchId)).limit(1);
+      if (!batch) {
+        return NextResponse.json({ error: "Deposit batch not found" }, { status: 404 });
+      }
+      if (batch.status !== "closed") {
+        return NextResponse.json({ error: "Close the batch before exporting it" }, { status: 409 });
+      }
+
+      const checks = await listBatchChecks(batchId);
+      const rows = checks.map((check) => ({
+        "Deposit Date": batch.depositDate,
+        "Batch": batch.id,
+        "Payment ID": check.paymentId,
+        "Check Number": check.checkNumber ?? "",
+        "Check Date": check.checkDate ?? "",
+        "Donor": check.contactName ?? "",
+        "Paid By": check.payerName ?? "",
+        "Pledge": check.pledgeId ?? "",
+        "Campaign": check.campaignCode ?? "",
+        "Amount": check.amount,
+        "Currency": check.currency,
+        "Amount USD": check.amountUsd ?? "",
+      }));
+
+      const exportedAt = new Date();
+      await db.update(depositBatch).set({ exportedAt, updatedAt: exportedAt }).where(eq(depositBatch.id, batchId));
+
+      await recordAudit(request, {
+        action: "update",
+        entityType: "depositBatch",
+        entityId: batchId,
+        before: { exportedAt: batch.exportedAt },
+        after: { exportedAt },
+        note: `exported ${checks.length} checks to accounting`,
+      });
+
+      const csv = stringify(rows, { header: true });
+      return new NextResponse(csv, {
+        headers: {
+          "Content-Type": "text/csv",
+          "Content-Disposition": `attachment; filename="deposit-${batch.depositDate}-batch-${batch.id}.csv"`,
+        },
+      });
+    } catch (error) {
+      console.error("Error exporting deposit batch:", error);
+      return ErrorHandler.handle(error);
+    }
+  }
+);
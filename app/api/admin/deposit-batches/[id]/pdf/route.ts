@@ -0,0 +1,35 @@
+import { NextResponse } from "next/server";
+import { eq } from "drizzle-orm";
+import { db } from "@/lib/db";
+import { depositBatch } from "@/lib/db/schema";
+import { ErrorHandler } from "@/lib/error-handler";
+import { withAuth } from "@/lib/auth-guard";
+import { listBatchChecks } from "@/lib/deposit-batches/batches";
+import { renderDepositSummaryPdf } from "@/lib/deposit-batches/deposit-summary-pdf";
+
+export const GET = withAuth<{ id: string }>(
+  { role: "admin", location: { resource: "depositBatch", param: "id" } },
+  async (_request, { params }) => {
+    try {
+      const batchId = parseInt((await params).id, 10);
+      if (isNaN(batchId)) {
+        return NextResponse.json({ error: "Invalid batch ID" }, { status: 400 });
+      }
+
+      const [batch] = await db.select().from(depositBatch).where(eq(depositBatch.id, batchId)).limit(1);
+      if (!batch) {
+        return NextResponse.json({ error: "Deposit batch not found" }, { status: 404 });
+      }
+
+      return new NextResponse(renderDepositSummaryPdf(batch, await listBatchChecks(batchId)), {
+        headers: {
+          "Content-Type": "application/pdf",
+          "Content-Disposition": `attachment; filename="deposit-${batch.depositDate}-batch-${batch.id}.pdf"`,
+        },
+      });
+    } catch (error) {
+      console.error("Error rendering deposit summary:", error);
+      return ErrorHandler.handle(error);
+    }
+  }
+);
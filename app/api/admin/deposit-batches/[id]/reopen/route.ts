@@ -0,0 +1,33 @@
+import { NextResponse } from "next/server";
+import { ErrorHandler } from "@/lib/error-handler";
+import { withAuth } from "@/lib/auth-guard";
+import { recordAudit } from "@/lib/audit-log";
+import { reopenDepositBatch } from "@/lib/deposit-batches/batches";
+
+export const POST = withAuth<{ id: string }>(
+  { role: "admin", location: { resource: "depositBatch", param: "id" } },
+  async (request, { params }) => {
+    try {
+      const batchId = parseInt((await params).id, 10);
+      if (isNaN(batchId)) {
+        return NextResponse.json({ error: "Invalid batch ID" }, { status: 400 });
+      }
+
+      const batch = await reopenDepositBatch(batchId);
+
+      await recordAudit(request, {
+        action: "update",
+        entityType: "depositBatch",
+        entityId: batch.id,
+        before: { status: "closed" },
+        after: { status: batch.status },
+        note: "reopened; its payments can be edited again",
+      });
+
+      return NextResponse.json({ message: `Deposit batch #${batch.id} reopened`, batch });
+    } catch (error) {
+      console.error("Error reopening deposit batch:", error);
+      return ErrorHandler.handle(error);
+    }
+  }
+);
@@ -0,0 +1,127 @@
+import { NextResponse } from "next/server";
+import { eq } from "drizzle-orm";
+import { z } from "zod";
+import { db } from "@/lib/db";
+import { depositBatch, payment } from "@/lib/db/schema";
+import { ErrorHandler } from "@/lib/error-handler";
+import { withAuth } from "@/lib/auth-guard";
+import { recordAudit } from "@/lib/audit-log";
+import { DepositBatchError, batchTotals, listBatchChecks } from "@/lib/deposit-batches/batches";
+import { roundMoney } from "@/lib/money";
+
+const updateSchema = z.object({
+  depositDate: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Deposit date must be YYYY-MM-DD").optional(),
+  slipTotal: z.number().positive("Slip total must be positive").nullable().optional(),
+  notes: z.string().max(1000).nullable().optional(),
+});
+
+const parseBatchId = async (params: Promise<{ id: string }>) => {
+  const batchId = parseInt((await params).id, 10);
+  if (isNaN(batchId)) throw new DepositBatchError("Invalid batch ID", 400);
+  return batchId;
+};
+
+export const GET = withAuth<{ id: string }>(
+  { role: "admin", location: { resource: "depositBatch", param: "id" } },
+  async (_request, { params }) => {
+    try {
+      const batchId = await parseBatchId(params);
+
+      const [batch] = await db.select().from(depositBatch).where(eq(depositBatch.id, batchId)).limit(1);
+      if (!batch) {
+        return NextResponse.json({ error: "Deposit batch not found" }, { status: 404 });
+      }
+
+      const [checks, totals] = await Promise.all([listBatchChecks(batchId), batchTotals(db, batch)]);
+      return NextResponse.json({ batch: { ...batch, runningTotal: totals.total, checkCount: totals.checkCount }, checks });
+    } catch (error) {
+      console.error("Error fetching deposit batch:", error);
+      return ErrorHandler.handle(error);
+    }
+  }
+);
+
+export const PATCH = withAuth<{ id: string }>(
+  { role: "admin", location: { resource: "depositBatch", param: "id" } },
+  async (request, { params }) => {
+    try {
+      const batchId = await parseBatchId(params);
+      const data = updateSchema.parse(await request.json());
+
+      const [before] = await db.select().from(depositBatch).where(eq(depositBatch.id, batchId)).limit(1);
+      if (!before) {
+        return NextResponse.json({ error: "Deposit batch not found" }, { status: 404 });
+      }
+      if (before.status !== "open") {
+        throw new DepositBatchError("This deposit batch is closed; reopen it to change it", 409);
+      }
+
+      const [batch] = await db
+        .update(depositBatch)
+        .set({
+          ...(data.depositDate !== undefined && { depositDate: data.depositDate }),
+          ...(data.slipTotal !== undefined && { slipTotal: data.slipTotal != null ? roundMoney(data.slipTotal, before.currency) : null }),
+          ...(data.notes !== undefined && { notes: data.notes || null }),
+          updatedAt: new Date(),
+        })
+        .where(eq(depositBatch.id, batchId))
+        .returning();
+
+      // Checks are received on the deposit date, so they move with it
+      if (data.depositDate && data.depositDate !== before.depositDate) {
+        await db
+          .update(payment)
+          .set({ paymentDate: data.depositDate, receivedDate: data.depositDate, updatedAt: new Date() })
+          .where(eq(payment.depositBatchId, batchId));
+      }
+
+      await recordAudit(request, {
+        action: "update",
+        entityType: "depositBatch",
+        entityId: batchId,
+        before: { depositDate: before.depositDate, slipTotal: before.slipTotal, notes: before.notes },
+        after: { depositDate: batch.depositDate, slipTotal: batch.slipTotal, notes: batch.notes },
+      });
+
+      return NextResponse.json({ message: "Deposit batch updated", batch });
+    } catch (error) {
+      console.error("Error updating deposit batch:", error);
+      return ErrorHandler.handle(error);
+    }
+  }
+);
+
+export const DELETE = withAuth<{ id: string }>(
+  { role: "admin", location: { resource: "depositBatch", param: "id" } },
+  async (request, { params }) => {
+    try {
+      const batchId = await parseBatchId(params);
+
+      const [batch] = await db.select().from(depositBatch).where(eq(depositBatch.id, batchId)).limit(1);
+      if (!batch) {
+        return NextResponse.json({ error: "Deposit batch not found" }, { status: 404 });
+      }
+      if (batch.status !== "open") {
+        throw new DepositBatchError("Closed deposit batches cannot be deleted", 409);
+      }
+      const { checkCount } = await batchTotals(db, batch);
+      if (checkCount > 0) {
+        throw new DepositBatchError("Remove the checks from this batch before deleting it", 409);
+      }
+
+      await db.delete(depositBatch).where(eq(depositBatch.id, batchId));
+
+      await recordAudit(request, {
+        action: "delete",
+        entityType: "depositBatch",
+        entityId: batchId,
+        before: { depositDate: batch.depositDate, slipTotal: batch.slipTotal },
+      });
+
+      return NextResponse.json({ message: `Deposit batch #${batchId} deleted` });
+    } catch (error) {
+      console.error("Error deleting deposit batch:", error);
+      return ErrorHandler.handle(error);
+    }
+  }
+);
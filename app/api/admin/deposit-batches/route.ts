@@ -0,0 +1,114 @@
+import { NextResponse } from "next/server";
+import { and, desc, eq, sql } from "drizzle-orm";
+import { z } from "zod";
+import { db } from "@/lib/db";
+import { depositBatch, payment } from "@/lib/db/schema";
+import { ErrorHandler } from "@/lib/error-handler";
+import { withAuth, locationFilter } from "@/lib/auth-guard";
+import { recordAudit } from "@/lib/audit-log";
+import { assertActiveCurrency } from "@/lib/currencies/currencies";
+import { currencyCodeSchema } from "@/lib/form-schemas/currency";
+import { roundMoney } from "@/lib/money";
+
+const querySchema = z.object({
+  page: z.coerce.number().min(1).default(1),
+  limit: z.coerce.number().min(1).max(100).default(25),
+  status: z.enum(["open", "closed"]).optional(),
+});
+
+const createSchema = z.object({
+  depositDate: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Deposit date must be YYYY-MM-DD"),
+  currency: currencyCodeSchema.default("USD"),
+  slipTotal: z.number().positive("Slip total must be positive").nullable().optional(),
+  notes: z.string().max(1000).nullable().optional(),
+});
+
+export const GET = withAuth({ role: "admin", location: true }, async (request, _context, auth) => {
+  try {
+    const { searchParams } = new URL(request.url);
+    const { page, limit, status } = querySchema.parse({
+      page: searchParams.get("page") ?? undefined,
+      limit: searchParams.get("limit") ?? undefined,
+      status: searchParams.get("status") ?? undefined,
+    });
+    const where = and(
+      locationFilter(auth, depositBatch.locationId),
+      status ? eq(depositBatch.status, status) : undefined
+    );
+
+    const [batches, [{ total }]] = await Promise.all([
+      db
+        .select({
+          id: depositBatch.id,
+          depositDate: depositBatch.depositDate,
+          currency: depositBatch.currency,
+          slipTotal: depositBatch.slipTotal,
+          status: depositBatch.status,
+          notes: depositBatch.notes,
+          closedAt: depositBatch.closedAt,
+          exportedAt: depositBatch.exportedAt,
+          createdAt: depositBatch.createdAt,
+          checkCount: sql<number>`(
+            SELECT COUNT(*)::int FROM ${payment} WHERE ${payment.depositBatchId} = ${depositBatch.id}
+          )`,
+          runningTotal: sql<string>`(
+            SELECT COALESCE(SUM(${payment.amount}), 0)::numeric(12,2)::text FROM ${payment}
+            WHERE ${payment.depositBatchId} = ${depositBatch.id}
+          )`,
+        })
+        .from(depositBatch)
+        .where(where)
+        .orderBy(desc(depositBatch.depositDate), desc(depositBatch.id))
+        .limit(limit)
+        .offset((page - 1) * limit),
+      db
+        .select({ total: sql<number>`COUNT(*)::int` })
+        .from(depositBatch)
+        .where(where),
+    ]);
+
+    return NextResponse.json({
+      batches,
+      pagination: {
+        page,
+        limit,
+        totalCount: total,
+        totalPages: Math.ceil(total / limit),
+      },
+    });
+  } catch (error) {
+    return ErrorHandler.handle(error);
+  }
+});
+
+export const POST = withAuth({ role: "admin", location: true }, async (request, _context, auth) => {
+  try {
+    const data = createSchema.parse(await request.json());
+    const locationId = auth.isGlobal ? null : auth.locationId;
+    await assertActiveCurrency(data.currency, locationId);
+
+    const [batch] = await db
+      .insert(depositBatch)
+      .values({
+        locationId,
+        depositDate: data.depositDate,
+        currency: data.currency,
+        slipTotal: data.slipTotal != null ? roundMoney(data.slipTotal, data.currency) : null,
+        notes: data.notes || null,
+        openedBy: auth.userId,
+      })
+      .returning();
+
+    await recordAudit(request, {
+      action: "create",
+      entityType: "depositBatch",
+      entityId: batch.id,
+      after: { depositDate: batch.depositDate, currency: batch.currency, slipTotal: batch.slipTotal },
+    });
+
+    return NextResponse.json({ message: `Deposit batch #${batch.id} opened`, batch }, { status: 201 });
+  } catch (error) {
+    console.error("Error opening deposit batch:", error);
+    return ErrorHandler.handle(error);
+  }
+});
@@ -0,0 +1,35 @@
+import { NextResponse } from "next/server";
+import { z } from "zod";
+import { ErrorHandler } from "@/lib/error-handler";
+import { withAuth } from "@/lib/auth-guard";
+import { importRateFile } from "@/lib/exchange-rates/rates";
+import { currencyCodeSchema } from "@/lib/form-schemas/currency";
+
+// The file's text; the page reads the upload in the browser
+const importSchema = z.object({
+  fileName: z.string().min(1).max(255),
+  content: z.string().min(1, "The rate file is empty").max(20_000_000),
+  // What CSV rates are quoted against; ECB XML is always per EUR
+  base: currencyCodeSchema.optional(),
+});
+
+export const POST = withAuth({ role: "admin" }, async (request) => {
+  try {
+    const data = importSchema.parse(await request.json());
+    const result = await importRateFile(data);
+
+    const span = result.firstDate === result.lastDate ? result.firstDate : `${result.firstDate} to ${result.lastDate}`;
+    return NextResponse.json(
+      {
+        message: `${result.stored} rates imported for ${result.days} day${result.days === 1 ? "" : "s"} (${span})${
+          result.skippedValues ? `, ${result.skippedValues} values skipped` : ""
+        }`,
+        ...result,
+      },
+      { status: 201 }
+    );
+  } catch (error) {
+    console.error("Error importing exchange rates:", error);
+    return ErrorHandler.handle(error);
+  }
+});
@@ -0,0 +1,28 @@
+import { NextResponse } from "next/server";
+import { ErrorHandler } from "@/lib/error-handler";
+import { withAuth } from "@/lib/auth-guard";
+import { recordAudit } from "@/lib/audit-log";
+import { unlockMonthlyRate } from "@/lib/exchange-rates/rates";
+
+// Later conversions in the month go back to the daily rates
+export const DELETE = withAuth<{ id: string }>({ role: "admin" }, async (request, { params }) => {
+  try {
+    const lockId = parseInt((await params).id, 10);
+    if (isNaN(lockId)) {
+      return NextResponse.json({ error: "Invalid lock ID" }, { status: 400 });
+    }
+
+    const lock = await unlockMonthlyRate(lockId);
+
+    await recordAudit(request, {
+      action: "delete",
+      entityType: "exchangeRateLock",
+      entityId: lock.id,
+      before: { currency: lock.currency, month: lock.month, rate: lock.rate },
+    });
+
+    return NextResponse.json({ message: `${lock.currency} unlocked for ${lock.month.slice(0, 7)}` });
+  } catch (error) {
+    return ErrorHandler.handle(error);
+  }
+});
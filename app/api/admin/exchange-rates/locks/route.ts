@@ -0,0 +1,50 @@
+import { NextResponse } from "next/server";
+import { z } from "zod";
+import { ErrorHandler } from "@/lib/error-handler";
+import { withAuth } from "@/lib/auth-guard";
+import { recordAudit } from "@/lib/audit-log";
+import { listRateLocks, lockMonthlyRate } from "@/lib/exchange-rates/rates";
+import { currencyCodeSchema } from "@/lib/form-schemas/currency";
+
+const monthSchema = z.string().regex(/^\d{4}-\d{2}$/, "Month must be YYYY-MM");
+
+const lockSchema = z.object({
+  currency: currencyCodeSchema,
+  month: monthSchema,
+  // Left out to lock the rate in effect on the first of the month
+  rate: z.number().positive("Rate must be positive").optional(),
+  note: z.string().max(500).optional().nullable(),
+});
+
+export const GET = withAuth({ role: "admin" }, async (request) => {
+  try {
+    const { searchParams } = new URL(request.url);
+    const from = searchParams.get("from");
+    const locks = await listRateLocks(from ? monthSchema.parse(from) : undefined);
+    return NextResponse.json({ locks });
+  } catch (error) {
+    return ErrorHandler.handle(error);
+  }
+});
+
+export const POST = withAuth({ role: "admin" }, async (request, _context, auth) => {
+  try {
+    const data = lockSchema.parse(await request.json());
+    const lock = await lockMonthlyRate(data, auth.userId);
+
+    await recordAudit(request, {
+      action: "create",
+      entityType: "exchangeRateLock",
+      entityId: lock.id,
+      after: { currency: lock.currency, month: lock.month, rate: lock.rate },
+      note: lock.note ?? undefined,
+    });
+
+    return NextResponse.json(
+      { message: `${lock.currency} locked at ${lock.rate} for ${data.month}`, lock },
+      { status: 201 }
+    );
+  } catch (error) {
+    return ErrorHandler.handle(error);
+  }
+});
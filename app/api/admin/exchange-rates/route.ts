@@ -0,0 +1,93 @@
+import { NextResponse } from "next/server";
+import { and, desc, eq, gte, lt } from "drizzle-orm";
+import { z } from "zod";
+import { db } from "@/lib/db";
+import { exchangeRate } from "@/lib/db/schema";
+import { ErrorHandler } from "@/lib/error-handler";
+import { withAuth } from "@/lib/auth-guard";
+import { recordAudit } from "@/lib/audit-log";
+import { getExchangeRateProvider } from "@/lib/exchange-rates/registry";
+import { monthStart, saveManualRate } from "@/lib/exchange-rates/rates";
+import { currencyCodeSchema } from "@/lib/form-schemas/currency";
+
+const querySchema = z.object({
+  month: z.string().regex(/^\d{4}-\d{2}$/, "Month must be YYYY-MM"),
+  currency: currencyCodeSchema.optional(),
+});
+
+const manualRateSchema = z.object({
+  date: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Date must be YYYY-MM-DD"),
+  currency: currencyCodeSchema,
+  rate: z.number().positive("Rate must be positive"),
+});
+
+const nextMonth = (month: string) => {
+  const [year, monthIndex] = month.split("-").map(Number);
+  return monthIndex === 12 ? `${year + 1}-01-01` : `${year}-${String(monthIndex + 1).padStart(2, "0")}-01`;
+};
+
+// Stored daily rates for a month, with where each came from
+export const GET = withAuth({ role: "admin" }, async (request) => {
+  try {
+    const { searchParams } = new URL(request.url);
+    const { month, currency } = querySchema.parse({
+      month: searchParams.get("month") ?? new Date().toISOString().slice(0, 7),
+      currency: searchParams.get("currency") || undefined,
+    });
+
+    const conditions = [
+      eq(exchangeRate.baseCurrency, "USD"),
+      gte(exchangeRate.date, monthStart(month)),
+      lt(exchangeRate.date, nextMonth(month)),
+    ];
+    if (currency) conditions.push(eq(exchangeRate.targetCurrency, currency));
+
+    const rates = await db
+      .select({
+        id: exchangeRate.id,
+        currency: exchangeRate.targetCurrency,
+        rate: exchangeRate.rate,
+        date: exchangeRate.date,
+        source: exchangeRate.source,
+        updatedAt: exchangeRate.updatedAt,
+      })
+      .from(exchangeRate)
+      .where(and(...conditions))
+      .orderBy(desc(exchangeRate.date), exchangeRate.targetCurrency);
+
+    let provider: string;
+    try {
+      provider = getExchangeRateProvider().name;
+    } catch (error) {
+      provider = `misconfigured (${error instanceof Error ? error.message : "unknown"})`;
+    }
+
+    return NextResponse.json({ month, provider, rates });
+  } catch (error) {
+    return ErrorHandler.handle(error);
+  }
+});
+
+// A rate typed in by an admin; it outranks imported and fetched rates for the day
+export const POST = withAuth({ role: "admin" }, async (request) => {
+  try {
+    const data = manualRateSchema.parse(await request.json());
+    const { before, after } = await saveManualRate(data);
+
+    await recordAudit(request, {
+      action: before ? "update" : "create",
+      entityType: "exchangeRate",
+      entityId: after.id,
+      before: before ? { rate: before.rate, source: before.source } : null,
+      after: { rate: after.rate, source: after.source },
+      note: `${data.currency} on ${data.date}`,
+    });
+
+    return NextResponse.json(
+      { message: `${data.currency} rate for ${data.date} saved`, rate: after },
+      { status: before ? 200 : 201 }
+    );
+  } catch (error) {
+    return ErrorHandler.handle(error);
+  }
+});
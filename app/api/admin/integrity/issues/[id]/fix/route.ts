@@ -0,0 +1,31 @@
+import { NextResponse } from "next/server";
+import { ErrorHandler } from "@/lib/error-handler";
+import { withAuth } from "@/lib/auth-guard";
+import { recordAudit } from "@/lib/audit-log";
+import { applyIssueFix } from "@/lib/integrity/runs";
+
+// Writes the values the check proposed, once someone has looked at them
+export const POST = withAuth<{ id: string }>({ role: "super_admin" }, async (request, { params }, auth) => {
+  try {
+    const issueId = parseInt((await params).id, 10);
+    if (isNaN(issueId)) {
+      return NextResponse.json({ error: "Invalid issue ID" }, { status: 400 });
+    }
+
+    const issue = await applyIssueFix(issueId, auth.userId);
+    const changes = issue.fix?.changes ?? [];
+
+    await recordAudit(request, {
+      action: "update",
+      entityType: "integrityIssue",
+      entityId: issue.id,
+      before: Object.fromEntries(changes.map((change) => [change.field, change.from])),
+      after: Object.fromEntries(changes.map((change) => [change.field, change.to])),
+      note: `Fixed ${issue.recordType.replace(/_/g, " ")} #${issue.recordId}: ${issue.description}`,
+    });
+
+    return NextResponse.json({ message: "Fix applied", issue });
+  } catch (error) {
+    return ErrorHandler.handle(error);
+  }
+});
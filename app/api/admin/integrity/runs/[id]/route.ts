@@ -0,0 +1,18 @@
+import { NextResponse } from "next/server";
+import { ErrorHandler } from "@/lib/error-handler";
+import { withAuth } from "@/lib/auth-guard";
+import { getIntegrityRun } from "@/lib/integrity/runs";
+
+export const GET = withAuth<{ id: string }>({ role: "super_admin" }, async (_request, { params }) => {
+  try {
+    const runId = parseInt((await params).id, 10);
+    if (isNaN(runId)) {
+      return NextResponse.json({ error: "Invalid run ID" }, { status: 400 });
+    }
+
+    const { run, issues } = await getIntegrityRun(runId);
+    return NextResponse.json({ run, issues });
+  } catch (error) {
+    return ErrorHandler.handle(error);
+  }
+});
@@ -0,0 +1,26 @@
+import { NextResponse } from "next/server";
+import { ErrorHandler } from "@/lib/error-handler";
+import { withAuth } from "@/lib/auth-guard";
+import { listIntegrityRuns, startIntegrityRun } from "@/lib/integrity/runs";
+
+export const GET = withAuth({ role: "super_admin" }, async () => {
+  try {
+    const runs = await listIntegrityRuns();
+    return NextResponse.json({ runs });
+  } catch (error) {
+    return ErrorHandler.handle(error);
+  }
+});
+
+// Runs every check now and waits for the results
+export const POST = withAuth({ role: "super_admin" }, async (_request, _context, auth) => {
+  try {
+    const run = await startIntegrityRun({ trigger: "manual", startedBy: auth.userId });
+    return NextResponse.json(
+      { message: `Integrity check found ${run.totalIssues} issue(s)`, run },
+      { status: 201 }
+    );
+  } catch (error) {
+    return ErrorHandler.handle(error);
+  }
+});
@@ -17,6 +17,8 @@ export async function GET(request: NextRequest) {
     const userEmail = searchParams.get("userEmail");
     const dateFrom = searchParams.get("dateFrom");
     const dateTo = searchParams.get("dateTo");
+    const entityType = searchParams.get("entityType");
+    const entityId = searchParams.get("entityId");
 
     const whereConditions = [];
 
@@ -26,6 +28,12 @@ export async function GET(request: NextRequest) {
     if (userEmail) {
       whereConditions.push(like(auditLog.userEmail, `%${userEmail}%`));
     }
+    if (entityType) {
+      whereConditions.push(eq(auditLog.entityType, entityType));
+    }
+    if (entityId && !isNaN(parseInt(entityId, 10))) {
+      whereConditions.push(eq(auditLog.entityId, parseInt(entityId, 10)));
+    }
     if (dateFrom) {
       whereConditions.push(gte(auditLog.timestamp, new Date(dateFrom)));
     }
@@ -42,7 +50,10 @@ export async function GET(request: NextRequest) {
         userId: auditLog.userId,
         userEmail: auditLog.userEmail,
         action: auditLog.action,
+        entityType: auditLog.entityType,
+        entityId: auditLog.entityId,
         details: auditLog.details,
+        changes: auditLog.changes,
         ipAddress: auditLog.ipAddress,
         userAgent: auditLog.userAgent,
         timestamp: auditLog.timestamp,
@@ -52,12 +63,13 @@ export async function GET(request: NextRequest) {
       .orderBy(auditLog.timestamp);
 
     // Create CSV content
-    const csvHeaders = "ID,User ID,User Email,Action,Details,IP Address,User Agent,Timestamp\n";
+    const csvHeaders = "ID,User ID,User Email,Action,Entity Type,Entity ID,Details,Changes,IP Address,User Agent,Timestamp\n";
     const csvRows = logs.map(log => {
       const details = log.details ? log.details.replace(/"/g, '""') : '';
+      const changes = log.changes ? JSON.stringify(log.changes).replace(/"/g, '""') : '';
       const userAgent = log.userAgent ? log.userAgent.replace(/"/g, '""') : '';
       
-      return `"${log.id}","${log.userId}","${log.userEmail}","${log.action}","${details}","${log.ipAddress}","${userAgent}","${log.timestamp.toISOString()}"`;
+      return `"${log.id}","${log.userId}","${log.userEmail}","${log.action}","${log.entityType ?? ''}","${log.entityId ?? ''}","${details}","${changes}","${log.ipAddress}","${userAgent}","${log.timestamp.toISOString()}"`;
     }).join("\n");
     
     const csvContent = csvHeaders + csvRows;
@@ -18,6 +18,8 @@ export async function GET(request: NextRequest) {
     const userEmail = searchParams.get("userEmail");
     const dateFrom = searchParams.get("dateFrom");
     const dateTo = searchParams.get("dateTo");
+    const entityType = searchParams.get("entityType");
+    const entityId = searchParams.get("entityId");
 
     const whereConditions = [];
 
@@ -29,6 +31,14 @@ export async function GET(request: NextRequest) {
       whereConditions.push(like(auditLog.userEmail, `%${userEmail}%`));
     }
 
+    if (entityType) {
+      whereConditions.push(eq(auditLog.entityType, entityType));
+    }
+
+    if (entityId && !isNaN(parseInt(entityId, 10))) {
+      whereConditions.push(eq(auditLog.entityId, parseInt(entityId, 10)));
+    }
+
     if (dateFrom) {
       whereConditions.push(gte(auditLog.timestamp, new Date(dateFrom)));
     }
@@ -46,7 +56,10 @@ export async function GET(request: NextRequest) {
         userId: auditLog.userId,
         userEmail: auditLog.userEmail,
         action: auditLog.action,
+        entityType: auditLog.entityType,
+        entityId: auditLog.entityId,
         details: auditLog.details,
+        changes: auditLog.changes,
         ipAddress: auditLog.ipAddress,
         userAgent: auditLog.userAgent,
         timestamp: auditLog.timestamp,
@@ -0,0 +1,58 @@
+import { NextResponse } from "next/server";
+import { ErrorHandler } from "@/lib/error-handler";
+import { withAuth, assertLocationAccess } from "@/lib/auth-guard";
+import { recordAudit } from "@/lib/audit-log";
+import { paymentEntryBatchSchema } from "@/lib/form-schemas/payment-entry";
+import { PaymentEntryError, commitPaymentEntries } from "@/lib/payment-entry/commit";
+import { type Decimal, decimal, roundMoney } from "@/lib/money";
+
+export const POST = withAuth({ role: "admin", location: true }, async (request, _context, auth) => {
+  try {
+    const parsed = paymentEntryBatchSchema.safeParse(await request.json());
+    if (!parsed.success) {
+      // Issues under rows.N are reported against the grid row they belong to
+      const rowErrors = parsed.error.issues
+        .filter((issue) => issue.path[0] === "rows" && typeof issue.path[1] === "number")
+        .map((issue) => ({ row: issue.path[1] as number, field: issue.path.slice(2).join("."), message: issue.message }));
+      throw new PaymentEntryError(parsed.error.issues[0]?.message ?? "Invalid payments", 400, rowErrors);
+    }
+    const { rows } = parsed.data;
+
+    // Pledges are checked against their row's donor, so the donors cover location access
+    for (const contactId of new Set(rows.map((row) => row.contactId))) {
+      await assertLocationAccess(auth, "contact", contactId);
+    }
+
+    const committed = await commitPaymentEntries(rows, auth.isGlobal ? null : auth.locationId);
+
+    await recordAudit(
+      request,
+      ...committed.map((entry) => ({
+        action: "create" as const,
+        entityType: "payment" as const,
+        entityId: entry.paymentId,
+        after: {
+          amount: roundMoney(rows[entry.row].amount, rows[entry.row].currency),
+          currency: rows[entry.row].currency,
+          paymentMethod: rows[entry.row].paymentMethod,
+          pledgeIds: entry.pledgeIds,
+        },
+        note: "entered in the payment entry grid",
+      }))
+    );
+
+    const totals = new Map<string, Decimal>();
+    for (const row of rows) totals.set(row.currency, (totals.get(row.currency) ?? decimal(0)).plus(row.amount));
+    const totalText = [...totals.entries()].map(([currency, total]) => `${total.toMoney(currency)} ${currency}`).join(", ");
+    return NextResponse.json(
+      {
+        message: `${committed.length} payments recorded (${totalText})`,
+        payments: committed,
+      },
+      { status: 201 }
+    );
+  } catch (error) {
+    console.error("Error saving payment entry batch:", error);
+    return ErrorHandler.handle(error);
+  }
+});
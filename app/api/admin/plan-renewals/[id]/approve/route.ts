@@ -0,0 +1,66 @@
+import { NextResponse } from "next/server";
+import { z } from "zod";
+import { ErrorHandler } from "@/lib/error-handler";
+import { withAuth } from "@/lib/auth-guard";
+import { recordAudit } from "@/lib/audit-log";
+import { STEPPED_FREQUENCIES } from "@/lib/payment-plans/schedule";
+import { approveRenewal } from "@/lib/payment-plans/renewals";
+
+// Any field left out keeps the proposed value
+const approveSchema = z.object({
+  startDate: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Start date must be YYYY-MM-DD").optional(),
+  frequency: z.enum(STEPPED_FREQUENCIES).optional(),
+  installmentAmount: z.number().positive("Installment amount must be positive").optional(),
+  numberOfInstallments: z.number().int().min(1).max(120).optional(),
+});
+
+export const POST = withAuth<{ id: string }>(
+  { role: "admin", location: { resource: "planRenewal", param: "id" } },
+  async (request, { params }, auth) => {
+    try {
+      const renewalId = parseInt((await params).id, 10);
+      if (isNaN(renewalId)) {
+        return NextResponse.json({ error: "Invalid renewal ID" }, { status: 400 });
+      }
+
+      const adjustments = approveSchema.parse(await request.json().catch(() => ({})));
+      const result = await approveRenewal(renewalId, adjustments, auth.userId);
+
+      await recordAudit(
+        request,
+        {
+          action: "update",
+          entityType: "planRenewal",
+          entityId: result.renewal.id,
+          before: result.before,
+          after: result.renewal,
+          note: "approved",
+        },
+        {
+          action: "create",
+          entityType: "pledge",
+          entityId: result.pledge.id,
+          after: result.pledge,
+          note: `renewal of pledge #${result.pledge.renewedFromPledgeId}`,
+        },
+        { action: "create", entityType: "paymentPlan", entityId: result.plan.id, after: result.plan },
+        ...result.payments.map((record) => ({
+          action: "create" as const,
+          entityType: "payment" as const,
+          entityId: record.id,
+          note: `scheduled by payment plan #${result.plan.id}`,
+        }))
+      );
+
+      return NextResponse.json({
+        message: `Renewal approved: pledge #${result.pledge.id} with ${result.payments.length} scheduled payments`,
+        renewal: result.renewal,
+        pledgeId: result.pledge.id,
+        paymentPlanId: result.plan.id,
+      });
+    } catch (error) {
+      console.error("Error approving plan renewal:", error);
+      return ErrorHandler.handle(error);
+    }
+  }
+);
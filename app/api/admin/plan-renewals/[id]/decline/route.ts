@@ -0,0 +1,40 @@
+import { NextResponse } from "next/server";
+import { z } from "zod";
+import { ErrorHandler } from "@/lib/error-handler";
+import { withAuth } from "@/lib/auth-guard";
+import { recordAudit } from "@/lib/audit-log";
+import { declineRenewal } from "@/lib/payment-plans/renewals";
+
+const declineSchema = z.object({
+  reason: z.string().trim().min(1, "A reason is required to decline a renewal"),
+});
+
+// Declined renewals stay on file so the plan is not proposed again
+export const POST = withAuth<{ id: string }>(
+  { role: "admin", location: { resource: "planRenewal", param: "id" } },
+  async (request, { params }, auth) => {
+    try {
+      const renewalId = parseInt((await params).id, 10);
+      if (isNaN(renewalId)) {
+        return NextResponse.json({ error: "Invalid renewal ID" }, { status: 400 });
+      }
+
+      const { reason } = declineSchema.parse(await request.json());
+      const { before, renewal } = await declineRenewal(renewalId, reason, auth.userId);
+
+      await recordAudit(request, {
+        action: "update",
+        entityType: "planRenewal",
+        entityId: renewal.id,
+        before,
+        after: renewal,
+        note: `declined: ${reason}`,
+      });
+
+      return NextResponse.json({ message: "Renewal declined", renewal });
+    } catch (error) {
+      console.error("Error declining plan renewal:", error);
+      return ErrorHandler.handle(error);
+    }
+  }
+);
@@ -0,0 +1,107 @@
+import { NextResponse } from "next/server";
+import { and, asc, desc, eq, sql } from "drizzle-orm";
+import { z } from "zod";
+import { db } from "@/lib/db";
+import { contact, paymentPlan, planRenewal, pledge, renewalStatusEnum } from "@/lib/db/schema";
+import { ErrorHandler } from "@/lib/error-handler";
+import { withAuth, locationFilter } from "@/lib/auth-guard";
+import { recordAudit } from "@/lib/audit-log";
+import { queuePlanRenewals } from "@/lib/payment-plans/renewals";
+
+const querySchema = z.object({
+  status: z.enum(renewalStatusEnum.enumValues).default("pending"),
+  page: z.coerce.number().min(1).default(1),
+  limit: z.coerce.number().min(1).max(100).default(25),
+});
+
+export const GET = withAuth({ role: "admin", location: true }, async (request, _context, auth) => {
+  try {
+    const { searchParams } = new URL(request.url);
+    const { status, page, limit } = querySchema.parse({
+      status: searchParams.get("status") ?? undefined,
+      page: searchParams.get("page") ?? undefined,
+      limit: searchParams.get("limit") ?? undefined,
+    });
+
+    const conditions = [eq(planRenewal.status, status)];
+    const locationCondition = locationFilter(auth, contact.locationId);
+    if (locationCondition) conditions.push(locationCondition);
+    const where = and(...conditions);
+
+    const [renewals, [{ total }]] = await Promise.all([
+      db
+        .select({
+          id: planRenewal.id,
+          status: planRenewal.status,
+          paymentPlanId: planRenewal.paymentPlanId,
+          startDate: planRenewal.startDate,
+          frequency: planRenewal.frequency,
+          installmentAmount: planRenewal.installmentAmount,
+          numberOfInstallments: planRenewal.numberOfInstallments,
+          currency: planRenewal.currency,
+          newPledgeId: planRenewal.newPledgeId,
+          newPaymentPlanId: planRenewal.newPaymentPlanId,
+          decidedAt: planRenewal.decidedAt,
+          declineReason: planRenewal.declineReason,
+          createdAt: planRenewal.createdAt,
+          planName: paymentPlan.planName,
+          previousPledgeId: pledge.id,
+          pledgeDescription: pledge.description,
+          contactId: contact.id,
+          contactName: sql<string>`TRIM(CONCAT(${contact.firstName}, ' ', ${contact.lastName}))`,
+        })
+        .from(planRenewal)
+        .innerJoin(paymentPlan, eq(planRenewal.paymentPlanId, paymentPlan.id))
+        .innerJoin(pledge, eq(paymentPlan.pledgeId, pledge.id))
+        .innerJoin(contact, eq(pledge.contactId, contact.id))
+        .where(where)
+        .orderBy(status === "pending" ? asc(planRenewal.startDate) : desc(planRenewal.decidedAt), desc(planRenewal.id))
+        .limit(limit)
+        .offset((page - 1) * limit),
+      db
+        .select({ total: sql<number>`COUNT(*)::int` })
+        .from(planRenewal)
+        .innerJoin(paymentPlan, eq(planRenewal.paymentPlanId, paymentPlan.id))
+        .innerJoin(pledge, eq(paymentPlan.pledgeId, pledge.id))
+        .innerJoin(contact, eq(pledge.contactId, contact.id))
+        .where(where),
+    ]);
+
+    return NextResponse.json({
+      renewals,
+      pagination: {
+        page,
+        limit,
+        totalCount: total,
+        totalPages: Math.ceil(total / limit),
+      },
+    });
+  } catch (error) {
+    return ErrorHandler.handle(error);
+  }
+});
+
+// Queues finished plans now instead of waiting for the nightly run
+export const POST = withAuth({ role: "admin", location: true }, async (request, _context, auth) => {
+  try {
+    const queued = await queuePlanRenewals({ locationId: auth.isGlobal ? null : auth.locationId });
+
+    await recordAudit(
+      request,
+      ...queued.map((renewal) => ({
+        action: "create" as const,
+        entityType: "planRenewal" as const,
+        entityId: renewal.id,
+        after: renewal,
+        note: `proposed for payment plan #${renewal.paymentPlanId}`,
+      }))
+    );
+
+    return NextResponse.json({
+      message: queued.length ? `Queued ${queued.length} renewals` : "No finished auto-renew plans to queue",
+      queuedCount: queued.length,
+    });
+  } catch (error) {
+    return ErrorHandler.handle(error);
+  }
+});
@@ -5,6 +5,7 @@ import { db } from '@/lib/db';
 import { contact, payment, pledge, campaign, paymentAllocations } from '@/lib/db/schema';
 import { sql } from 'drizzle-orm';
 import { stringify } from 'csv-stringify/sync';
+import { netAllocationAmountSql, netPaymentAmountSql } from '@/lib/refunds/net-amounts';
 
 interface CampaignFundraisingRow {
   campaign_code: string | null;
@@ -46,7 +47,7 @@ export async function POST(request: NextRequest) {
         c.email as donor_email,
         c.phone as donor_phone,
         c.address as donor_address,
-        COALESCE(p.amount_usd, p.amount) as amount,
+        ${netPaymentAmountSql()} as amount,
         p.payment_date
       FROM payment p
       INNER JOIN pledge pl ON p.pledge_id = pl.id
@@ -80,7 +81,7 @@ export async function POST(request: NextRequest) {
         c.email as donor_email,
         c.phone as donor_phone,
         c.address as donor_address,
-        COALESCE(pa.allocated_amount_usd, pa.allocated_amount) as amount,
+        ${netAllocationAmountSql()} as amount,
         p.payment_date
       FROM payment_allocations pa
       INNER JOIN payment p ON pa.payment_id = p.id
@@ -0,0 +1,135 @@
+import { NextResponse } from "next/server";
+import { and, eq, isNotNull, isNull, notExists, or, sql, type SQL } from "drizzle-orm";
+import { stringify } from "csv-stringify/sync";
+import { z } from "zod";
+import { db } from "@/lib/db";
+import { contact, payment, paymentAllocations, pledge } from "@/lib/db/schema";
+import { ErrorHandler } from "@/lib/error-handler";
+import { withAuth, locationFilter } from "@/lib/auth-guard";
+import { DEDICATION_TYPES } from "@/lib/form-schemas/memorial";
+import { formatDedication } from "@/lib/memorials/memorials";
+import {
+  allocationRefundedAmount,
+  allocationRefundedAmountUsd,
+  paymentRefundedAmount,
+  paymentRefundedAmountUsd,
+} from "@/lib/refunds/net-amounts";
+
+const requestSchema = z.object({
+  filters: z
+    .object({
+      year: z.coerce.number().int().min(1900).max(9999).optional(),
+      dedicationType: z.enum(DEDICATION_TYPES).optional(),
+    })
+    .default({}),
+  preview: z.boolean().optional(),
+});
+
+const donorName = sql<string>`TRIM(CONCAT(${contact.firstName}, ' ', ${contact.lastName}))`;
+
+/**
+ * Completed gifts carrying an "in honor of" or "in memory of" dedication.
+ * A payment's own dedication wins over its pledge's; split payments report
+ * each allocation against its pledge. Amounts are net of refunds.
+ */
+export const POST = withAuth({ role: "admin" }, async (request, _context, auth) => {
+  try {
+    const { filters, preview } = requestSchema.parse(await request.json());
+
+    const conditions: SQL[] = [
+      eq(payment.paymentStatus, "completed"),
+      or(isNotNull(payment.dedicationType), isNotNull(pledge.dedicationType))!,
+    ];
+    const location = locationFilter(auth, contact.locationId);
+    if (location) conditions.push(location);
+    if (filters.year) conditions.push(sql`EXTRACT(YEAR FROM ${payment.paymentDate}) = ${filters.year}`);
+    if (filters.dedicationType) {
+      conditions.push(
+        or(
+          eq(payment.dedicationType, filters.dedicationType),
+          and(isNull(payment.dedicationType), eq(pledge.dedicationType, filters.dedicationType))
+        )!
+      );
+    }
+
+    const columns = {
+      paymentId: payment.id,
+      paymentDate: payment.paymentDate,
+      paymentMethod: payment.paymentMethod,
+      paymentDedicationType: payment.dedicationType,
+      paymentDedicationName: payment.dedicationName,
+      pledgeId: pledge.id,
+      pledgeDescription: pledge.description,
+      pledgeDedicationType: pledge.dedicationType,
+      pledgeDedicationName: pledge.dedicationName,
+      donorName,
+      email: contact.email,
+    };
+
+    const [direct, split] = await Promise.all([
+      db
+        .select({
+          ...columns,
+          amount: sql<string>`${payment.amount} - ${paymentRefundedAmount}`,
+          currency: payment.currency,
+          amountUsd: sql<string | null>`${payment.amountUsd} - ${paymentRefundedAmountUsd}`,
+        })
+        .from(payment)
+        .innerJoin(pledge, eq(payment.pledgeId, pledge.id))
+        .innerJoin(contact, eq(pledge.contactId, contact.id))
+        .where(
+          and(
+            ...conditions,
+            notExists(
+              db.select({ id: paymentAllocations.id }).from(paymentAllocations).where(eq(paymentAllocations.paymentId, payment.id))
+            )
+          )
+        ),
+      db
+        .select({
+          ...columns,
+          amount: sql<string>`${paymentAllocations.allocatedAmount} - ${allocationRefundedAmount}`,
+          currency: paymentAllocations.currency,
+          amountUsd: sql<string | null>`${paymentAllocations.allocatedAmountUsd} - ${allocationRefundedAmountUsd}`,
+        })
+        .from(paymentAllocations)
+        .innerJoin(payment, eq(paymentAllocations.paymentId, payment.id))
+        .innerJoin(pledge, eq(paymentAllocations.pledgeId, pledge.id))
+        .innerJoin(contact, eq(pledge.contactId, contact.id))
+        .where(and(...conditions)),
+    ]);
+
+    const rows = [...direct, ...split]
+      .filter((row) => parseFloat(row.amount) > 0)
+      .sort((a, b) => (b.paymentDate ?? "").localeCompare(a.paymentDate ?? "") || b.paymentId - a.paymentId)
+      .map((row) => ({
+        "Payment Date": row.paymentDate ?? "",
+        Donor: row.donorName,
+        Email: row.email || "",
+        Dedication:
+          formatDedication(row.paymentDedicationType, row.paymentDedicationName) ??
+          formatDedication(row.pledgeDedicationType, row.pledgeDedicationName) ??
+          "",
+        Pledge: row.pledgeDescription || `Pledge #${row.pledgeId}`,
+        Amount: parseFloat(row.amount).toFixed(2),
+        Currency: row.currency,
+        "Amount (USD)": row.amountUsd ? parseFloat(row.amountUsd).toFixed(2) : "",
+        "Payment Method": row.paymentMethod || "",
+      }));
+
+    if (preview) {
+      return NextResponse.json({ data: rows, total: rows.length });
+    }
+
+    const csv = stringify(rows, { header: true });
+    return new NextResponse(csv, {
+      headers: {
+        "Content-Type": "text/csv",
+        "Content-Disposition": `attachment; filename="dedications-${new Date().toISOString().split("T")[0]}.csv"`,
+      },
+    });
+  } catch (error) {
+    console.error("Error generating dedications report:", error);
+    return ErrorHandler.handle(error);
+  }
+});
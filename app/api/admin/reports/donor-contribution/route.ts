@@ -5,6 +5,7 @@ import { db } from '@/lib/db';
 import { contact, payment, pledge, paymentAllocations } from '@/lib/db/schema';
 import { sql } from 'drizzle-orm';
 import { stringify } from 'csv-stringify/sync';
+import { netAllocationAmountSql, netPaymentAmountSql } from '@/lib/refunds/net-amounts';
 
 interface DonorContributionRow {
   donorId: number | null;
@@ -47,7 +48,7 @@ export async function POST(request: NextRequest) {
         c.email,
         c.phone,
         c.address,
-        COALESCE(p.amount_usd, p.amount) as amount,
+        ${netPaymentAmountSql()} as amount,
         p.payment_date,
         pl.campaign_code,
         EXTRACT(YEAR FROM p.payment_date)::integer as year,
@@ -94,7 +95,7 @@ export async function POST(request: NextRequest) {
         c.email,
         c.phone,
         c.address,
-        COALESCE(pa.allocated_amount_usd, pa.allocated_amount) as amount,
+        ${netAllocationAmountSql()} as amount,
         p.payment_date,
         pl.campaign_code,
         EXTRACT(YEAR FROM p.payment_date)::integer as year,
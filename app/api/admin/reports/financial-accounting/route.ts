@@ -5,6 +5,7 @@ import { db } from '@/lib/db';
 import { contact, payment, pledge, paymentAllocations } from '@/lib/db/schema';
 import { sql } from 'drizzle-orm';
 import { stringify } from 'csv-stringify/sync';
+import { netAllocationAmountSql, netPaymentAmountSql } from '@/lib/refunds/net-amounts';
 
 interface FinancialAccountingRow {
   donation_source: string | null;
@@ -34,7 +35,7 @@ export async function POST(request: NextRequest) {
     // Base query for direct payments (non-split payments)
     let directPaymentsSQL = `
       SELECT
-        COALESCE(p.amount_usd, p.amount) as amount,
+        ${netPaymentAmountSql()} as amount,
         p.payment_method as donation_source,
         CASE WHEN pl.notes ILIKE '%restricted%' THEN true ELSE false END as is_restricted,
         pl.campaign_code,
@@ -65,7 +66,7 @@ export async function POST(request: NextRequest) {
     // Query for split payments (payment allocations)
     let splitPaymentsSQL = `
       SELECT
-        COALESCE(pa.allocated_amount_usd, pa.allocated_amount) as amount,
+        ${netAllocationAmountSql()} as amount,
         p.payment_method as donation_source,
         CASE WHEN pl.notes ILIKE '%restricted%' THEN true ELSE false END as is_restricted,
         pl.campaign_code,
@@ -91,11 +92,38 @@ export async function POST(request: NextRequest) {
     // Combine both queries
     const unionSQL = `(${directPaymentsSQL}) UNION ALL (${splitPaymentsSQL})`;
 
+    // Approved write-offs and reductions, reported as their own negative
+    // lines and kept out of the amounts received
+    let adjustmentsSQL = `
+      SELECT
+        -COALESCE(adj.amount_usd, adj.amount) as amount,
+        CASE WHEN adj.type = 'write_off' THEN 'Pledge write-off' ELSE 'Pledge reduction' END as donation_source,
+        CASE WHEN pl.notes ILIKE '%restricted%' THEN true ELSE false END as is_restricted,
+        pl.campaign_code,
+        EXTRACT(YEAR FROM adj.effective_date)::integer as year
+      FROM pledge_adjustment adj
+      INNER JOIN pledge pl ON adj.pledge_id = pl.id
+      INNER JOIN contact c ON pl.contact_id = c.id
+      WHERE adj.status = 'approved'
+        AND c.location_id = '${safeLocationId}'`;
+
+    if (safeEventCode) {
+      adjustmentsSQL += ` AND pl.campaign_code = '${safeEventCode}'`;
+    }
+
+    if (year) {
+      const safeYear = parseInt(year.toString(), 10);
+      adjustmentsSQL += ` AND EXTRACT(YEAR FROM adj.effective_date) = ${safeYear}`;
+    }
+
     // Main aggregation query with year-over-year comparison
     const querySQL = `
       WITH payment_data AS (
         ${unionSQL}
       ),
+      adjustment_data AS (
+        ${adjustmentsSQL}
+      ),
       yearly_totals AS (
         SELECT
           campaign_code,
@@ -103,6 +131,11 @@ export async function POST(request: NextRequest) {
           SUM(amount) as year_total
         FROM payment_data
         GROUP BY campaign_code, year
+      ),
+      line_data AS (
+        SELECT donation_source::text, is_restricted, campaign_code, year, amount FROM payment_data
+        UNION ALL
+        SELECT donation_source, is_restricted, campaign_code, year, amount FROM adjustment_data
       )
       SELECT
         pd.donation_source,
@@ -118,7 +151,7 @@ export async function POST(request: NextRequest) {
            AND yt_prev.year = pd.year - 1),
           0
         ) as previous_year_total
-      FROM payment_data pd
+      FROM line_data pd
       LEFT JOIN yearly_totals yt ON pd.campaign_code = yt.campaign_code AND pd.year = yt.year
       GROUP BY 
         pd.donation_source,
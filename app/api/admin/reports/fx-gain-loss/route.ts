@@ -0,0 +1,110 @@
+import { NextResponse } from "next/server";
+import { stringify } from "csv-stringify/sync";
+import { z } from "zod";
+import { contact } from "@/lib/db/schema";
+import { ErrorHandler } from "@/lib/error-handler";
+import { withAuth, locationFilter } from "@/lib/auth-guard";
+import { currencyCodeSchema } from "@/lib/form-schemas/currency";
+import {
+  FX_GROUPINGS,
+  groupRealizedFx,
+  groupUnrealizedFx,
+  realizedFxGains,
+  unrealizedFxGains,
+  type FxGroupTotal,
+} from "@/lib/exchange-rates/fx-gains";
+
+const isoDate = z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Use YYYY-MM-DD");
+
+const requestSchema = z.object({
+  filters: z
+    .object({
+      view: z.enum(["realized", "unrealized"]).default("realized"),
+      groupBy: z.enum(FX_GROUPINGS).default("pledge"),
+      from: isoDate.optional(),
+      to: isoDate.optional(),
+      asOf: isoDate.optional(),
+      currency: currencyCodeSchema.optional(),
+    })
+    .default({}),
+  preview: z.boolean().optional(),
+});
+
+const GROUP_HEADINGS = { pledge: "Pledge", currency: "Currency", quarter: "Quarter", month: "Month" } as const;
+
+/**
+ * Realized gain/loss on payments to non-USD pledges between two dates, per
+ * pledge, currency, quarter or month, or the unrealized revaluation of
+ * balances still open on a date. Gains are in USD; positive is a gain.
+ */
+export const POST = withAuth({ role: "admin" }, async (request, _context, auth) => {
+  try {
+    const { filters, preview } = requestSchema.parse(await request.json());
+    const scope = locationFilter(auth, contact.locationId);
+    const today = new Date().toISOString().split("T")[0];
+
+    let rows: Record<string, string>[];
+    let skipped: number;
+    let fileName: string;
+
+    if (filters.view === "unrealized") {
+      const asOf = filters.asOf ?? today;
+      const result = await unrealizedFxGains(asOf, filters.currency, scope);
+      skipped = result.skipped;
+      fileName = `fx-unrealized-${asOf}.csv`;
+      rows =
+        filters.groupBy === "pledge"
+          ? result.lines
+              .sort((a, b) => a.donorName.localeCompare(b.donorName) || a.pledgeId - b.pledgeId)
+              .map((line) => ({
+                Pledge: line.pledgeDescription || `Pledge #${line.pledgeId}`,
+                Donor: line.donorName,
+                Currency: line.currency,
+                "Open Balance": line.openBalance.toMoney(line.currency),
+                "Booked (USD)": line.bookedUsd.toMoney("USD"),
+                [`Rate on ${asOf}`]: line.rate,
+                "Revalued (USD)": line.revaluedUsd.toMoney("USD"),
+                "Unrealized Gain/Loss (USD)": line.gainUsd.toMoney("USD"),
+              }))
+          : groupUnrealizedFx(result.lines).map((group) => ({
+              Currency: group.currency,
+              Pledges: String(group.count),
+              "Open Balance": group.amount.toMoney(group.currency),
+              "Booked (USD)": group.bookedUsd.toMoney("USD"),
+              "Revalued (USD)": group.actualUsd.toMoney("USD"),
+              "Unrealized Gain/Loss (USD)": group.gainUsd.toMoney("USD"),
+            }));
+    } else {
+      const result = await realizedFxGains(
+        { from: filters.from, to: filters.to ?? today, currency: filters.currency },
+        scope
+      );
+      skipped = result.skipped;
+      fileName = `fx-realized-${filters.from ?? "start"}-to-${filters.to ?? today}.csv`;
+      rows = groupRealizedFx(result.lines, filters.groupBy).map((group: FxGroupTotal) => ({
+        [GROUP_HEADINGS[filters.groupBy]]: group.label,
+        ...(filters.groupBy === "currency" ? {} : { Currency: group.currency }),
+        Payments: String(group.count),
+        "Amount Paid": group.amount.toMoney(group.currency),
+        "Booked (USD)": group.bookedUsd.toMoney("USD"),
+        "Received (USD)": group.actualUsd.toMoney("USD"),
+        "Realized Gain/Loss (USD)": group.gainUsd.toMoney("USD"),
+      }));
+    }
+
+    if (preview) {
+      return NextResponse.json({ data: rows, total: rows.length, skipped });
+    }
+
+    const csv = stringify(rows, { header: true });
+    return new NextResponse(csv, {
+      headers: {
+        "Content-Type": "text/csv",
+        "Content-Disposition": `attachment; filename="${fileName}"`,
+      },
+    });
+  } catch (error) {
+    console.error("Error generating FX gain/loss report:", error);
+    return ErrorHandler.handle(error);
+  }
+});
@@ -0,0 +1,37 @@
+import { NextResponse } from "next/server";
+import { eq } from "drizzle-orm";
+import { db } from "@/lib/db";
+import { annualReceipt } from "@/lib/db/schema";
+import { ErrorHandler } from "@/lib/error-handler";
+import { withAuth, AuthorizationError } from "@/lib/auth-guard";
+import { renderAnnualReceiptPdf } from "@/lib/receipts/annual-statement-pdf";
+
+export const GET = withAuth<{ id: string }>({ role: "admin", location: true }, async (_request, { params }, auth) => {
+  try {
+    const receiptId = parseInt((await params).id, 10);
+    if (isNaN(receiptId)) {
+      return NextResponse.json({ error: "Invalid receipt ID" }, { status: 400 });
+    }
+
+    const [receipt] = await db
+      .select()
+      .from(annualReceipt)
+      .where(eq(annualReceipt.id, receiptId))
+      .limit(1);
+    if (!receipt) {
+      return NextResponse.json({ error: "Receipt not found" }, { status: 404 });
+    }
+    if (!auth.isGlobal && receipt.locationId !== auth.locationId) {
+      throw new AuthorizationError("Forbidden: record belongs to another location", "FORBIDDEN", 403);
+    }
+
+    return new NextResponse(renderAnnualReceiptPdf(receipt), {
+      headers: {
+        "Content-Type": "application/pdf",
+        "Content-Disposition": `attachment; filename="receipt-${receipt.receiptNumber}.pdf"`,
+      },
+    });
+  } catch (error) {
+    return ErrorHandler.handle(error);
+  }
+});
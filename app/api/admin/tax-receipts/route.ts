@@ -0,0 +1,112 @@
+import { NextRequest, NextResponse } from "next/server";
+import { and, asc, desc, eq, ilike, or, sql } from "drizzle-orm";
+import { z } from "zod";
+import { db } from "@/lib/db";
+import { annualReceipt } from "@/lib/db/schema";
+import { ErrorHandler } from "@/lib/error-handler";
+import { withAuth, locationFilter } from "@/lib/auth-guard";
+import { recordAudit } from "@/lib/audit-log";
+import { generateAnnualReceipts } from "@/lib/receipts/annual-statement";
+
+const querySchema = z.object({
+  taxYear: z.coerce.number().int().min(2000).max(2100),
+  search: z.string().optional(),
+  page: z.coerce.number().min(1).default(1),
+  limit: z.coerce.number().min(1).max(100).default(25),
+});
+
+const generateSchema = z.object({
+  taxYear: z.number().int().min(2000).max(2100),
+  contactIds: z.array(z.number().int().positive()).optional(),
+  // Super admins may target one location; admins always run for their own
+  locationId: z.string().optional(),
+});
+
+export const GET = withAuth({ role: "admin", location: true }, async (request, _context, auth) => {
+  try {
+    const { searchParams } = new URL(request.url);
+    const { taxYear, search, page, limit } = querySchema.parse({
+      taxYear: searchParams.get("taxYear") ?? new Date().getFullYear() - 1,
+      search: searchParams.get("search") ?? undefined,
+      page: searchParams.get("page") ?? undefined,
+      limit: searchParams.get("limit") ?? undefined,
+    });
+
+    const conditions = [eq(annualReceipt.taxYear, taxYear)];
+    const locationCondition = locationFilter(auth, annualReceipt.locationId);
+    if (locationCondition) conditions.push(locationCondition);
+    if (search) {
+      conditions.push(
+        or(
+          ilike(annualReceipt.donorName, `%${search}%`),
+          ilike(annualReceipt.receiptNumber, `%${search}%`)
+        )!
+      );
+    }
+    const where = and(...conditions);
+
+    const [receipts, [{ total }]] = await Promise.all([
+      db
+        .select({
+          id: annualReceipt.id,
+          contactId: annualReceipt.contactId,
+          taxYear: annualReceipt.taxYear,
+          receiptNumber: annualReceipt.receiptNumber,
+          donorName: annualReceipt.donorName,
+          paymentCount: annualReceipt.paymentCount,
+          totalAmountUsd: annualReceipt.totalAmountUsd,
+          issuedAt: annualReceipt.issuedAt,
+        })
+        .from(annualReceipt)
+        .where(where)
+        .orderBy(asc(annualReceipt.receiptNumber), desc(annualReceipt.id))
+        .limit(limit)
+        .offset((page - 1) * limit),
+      db.select({ total: sql<number>`COUNT(*)::int` }).from(annualReceipt).where(where),
+    ]);
+
+    return NextResponse.json({
+      receipts,
+      pagination: {
+        page,
+        limit,
+        totalCount: total,
+        totalPages: Math.ceil(total / limit),
+      },
+    });
+  } catch (error) {
+    return ErrorHandler.handle(error);
+  }
+});
+
+export const POST = withAuth({ role: "admin", location: true }, async (request, _context, auth) => {
+  try {
+    const body = generateSchema.parse(await request.json());
+
+    const result = await generateAnnualReceipts({
+      taxYear: body.taxYear,
+      locationId: auth.isGlobal ? body.locationId ?? null : auth.locationId,
+      contactIds: body.contactIds,
+      issuedBy: auth.userId,
+    });
+
+    await recordAudit(
+      request,
+      ...result.issued.map(({ lineItems, ...receipt }) => ({
+        action: "create" as const,
+        entityType: "annualReceipt" as const,
+        entityId: receipt.id,
+        after: receipt,
+        note: `${lineItems.length} gifts in ${receipt.taxYear}`,
+      }))
+    );
+
+    return NextResponse.json({
+      message: `Issued ${result.issued.length} receipts for ${body.taxYear}`,
+      issuedCount: result.issued.length,
+      skipped: result.skipped,
+    });
+  } catch (error) {
+    return ErrorHandler.handle(error);
+  }
+});
@@ -4,6 +4,7 @@ import { authOptions } from "@/lib/auth";
 import { db } from "@/lib/db";
 import { user, contact } from "@/lib/db/schema";
 import { eq, and } from "drizzle-orm";
+import { recordAudit, diffCollection } from "@/lib/audit-log";
 
 export async function PUT(
   request: NextRequest,
@@ -101,10 +102,14 @@ export async function PUT(
       if (adminLocationId) {
         contactUpdateData.locationId = adminLocationId;
       }
-      await db
+      const contactsBefore = await db.select().from(contact).where(eq(contact.email, email));
+      const contactsAfter = await db
         .update(contact)
         .set(contactUpdateData)
-        .where(eq(contact.email, email));
+        .where(eq(contact.email, email))
+        .returning();
+
+      await recordAudit(request, ...diffCollection("contact", contactsBefore, contactsAfter, "user account updated"));
     }
 
     return NextResponse.json({ message: "User updated successfully" });
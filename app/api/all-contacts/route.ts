@@ -4,6 +4,7 @@ import { sql, desc, asc, or, ilike, and, eq } from "drizzle-orm";
 import { z } from "zod";
 import { unstable_cache } from "next/cache";
 import { contact } from "@/lib/db/schema";
+import { withAuth, locationFilter } from "@/lib/auth-guard";
 
 const CACHE_TTL_SECONDS = 60;
 
@@ -17,7 +18,7 @@ const querySchema = z.object({
   gender: z.enum(["male", "female"]).optional(),
 });
 
-export async function GET(request: NextRequest) {
+export const GET = withAuth({ role: "user", location: true }, async (request, _context, auth) => {
   try {
     const { searchParams } = new URL(request.url);
     const parsedParams = querySchema.safeParse({
@@ -47,7 +48,7 @@ export async function GET(request: NextRequest) {
       parsedParams.data;
     const offset = (page - 1) * limit;
 
-    const cacheKey = `contacts:${page}:${limit}:${
+    const cacheKey = `contacts:${auth.locationId ?? "all"}:${page}:${limit}:${
       search || ""
     }:${sortBy}:${sortOrder}:${title || ""}:${gender || ""}`;
     const cacheTags = [
@@ -61,6 +62,8 @@ export async function GET(request: NextRequest) {
     const cachedQuery = unstable_cache(
       async () => {
         const conditions = [];
+        const locationCondition = locationFilter(auth, contact.locationId);
+        if (locationCondition) conditions.push(locationCondition);
 
         if (search) {
           conditions.push(
@@ -196,4 +199,4 @@ export async function GET(request: NextRequest) {
       { status: 500 }
     );
   }
-}
+});
@@ -1,9 +1,10 @@
 import { db } from "@/lib/db";
-import { bonusCalculation } from "@/lib/db/schema";
-import { sql } from "drizzle-orm";
+import { bonusCalculation, solicitor } from "@/lib/db/schema";
+import { and, inArray, sql } from "drizzle-orm";
 import { NextRequest, NextResponse } from "next/server";
+import { withAuth, locationFilter } from "@/lib/auth-guard";
 
-export async function POST(request: NextRequest) {
+export const POST = withAuth({ role: "admin", location: true }, async (request, _context, auth) => {
   try {
     const body = await request.json();
     const { calculationIds } = body;
@@ -15,13 +16,25 @@ export async function POST(request: NextRequest) {
       );
     }
 
+    // Calculations of solicitors outside the caller's location are skipped
+    const solicitorCondition = locationFilter(auth, solicitor.locationId);
     const updatedCalculations = await db
       .update(bonusCalculation)
       .set({
         isPaid: true,
         paidAt: new Date(),
       })
-      .where(sql`${bonusCalculation.id} = ANY(${calculationIds})`)
+      .where(
+        and(
+          sql`${bonusCalculation.id} = ANY(${calculationIds})`,
+          solicitorCondition
+            ? inArray(
+                bonusCalculation.solicitorId,
+                db.select({ id: solicitor.id }).from(solicitor).where(solicitorCondition)
+              )
+            : undefined
+        )
+      )
       .returning();
 
     return NextResponse.json({
@@ -35,4 +48,4 @@ export async function POST(request: NextRequest) {
       { status: 500 }
     );
   }
-}
+});
@@ -2,11 +2,12 @@ import { db } from "@/lib/db";
 import { bonusCalculation } from "@/lib/db/schema";
 import { eq } from "drizzle-orm";
 import { NextRequest, NextResponse } from "next/server";
+import { withAuth } from "@/lib/auth-guard";
 
-export async function POST(
+export const POST = withAuth({ role: "admin", location: { resource: "bonusCalculation", param: "id" } }, async (
   request: NextRequest,
   { params }: { params: Promise<{ id: string }> }
-) {
+) => {
   const { id } = await params;
   const calculationId = parseInt(id, 10);
   try {
@@ -34,4 +35,4 @@ export async function POST(
       { status: 500 }
     );
   }
-}
+});
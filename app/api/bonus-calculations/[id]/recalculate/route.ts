@@ -8,8 +8,10 @@ import {
 } from "@/lib/db/schema";
 import { eq, and, lte, sql, desc } from "drizzle-orm";
 import { NextRequest, NextResponse } from "next/server";
+import { withAuth } from "@/lib/auth-guard";
+import { decimal } from "@/lib/money";
 
-export async function POST(request: NextRequest) {
+export const POST = withAuth({ role: "admin", location: { resource: "payment", body: "paymentId" } }, async (request: NextRequest) => {
   try {
     const body = await request.json();
     const { paymentId } = body;
@@ -46,7 +48,7 @@ export async function POST(request: NextRequest) {
 
     const solicitorId = paymentInfo.solicitorId as number;
 
-    const paymentAmount = parseFloat(paymentInfo.amountUsd || "0");
+    const paymentAmount = paymentInfo.amountUsd || "0";
     const isDonation = paymentInfo.categoryName
       ?.toLowerCase()
       .includes("donation");
@@ -76,10 +78,7 @@ export async function POST(request: NextRequest) {
     if (applicableRules.length > 0) {
       const rule = applicableRules[0];
       bonusPercentage = rule.bonusPercentage || "0";
-      bonusAmount = (
-        (paymentAmount * parseFloat(bonusPercentage)) /
-        100
-      ).toFixed(2);
+      bonusAmount = decimal(paymentAmount).times(bonusPercentage).dividedBy(100).toMoney("USD");
       bonusRuleId = rule.id;
     }
 
@@ -100,14 +99,14 @@ export async function POST(request: NextRequest) {
 
     // Create new bonus calculation if there's a bonus
     let newCalculation = null;
-    if (parseFloat(bonusAmount) > 0) {
+    if (decimal(bonusAmount).isPositive()) {
       const result = await db
         .insert(bonusCalculation)
         .values({
           paymentId,
           solicitorId, // Use the type-asserted solicitorId
           bonusRuleId,
-          paymentAmount: paymentAmount.toString(),
+          paymentAmount,
           bonusPercentage,
           bonusAmount,
           calculatedAt: new Date(),
@@ -131,4 +130,4 @@ export async function POST(request: NextRequest) {
       { status: 500 }
     );
   }
-}
+});
@@ -8,8 +8,9 @@ import {
   payment,
   bonusRule,
 } from "@/lib/db/schema";
+import { withAuth, locationFilter } from "@/lib/auth-guard";
 
-export async function GET(request: NextRequest) {
+export const GET = withAuth({ role: "admin", location: { resource: "solicitor", query: "solicitorId" } }, async (request, _context, auth) => {
   try {
     const { searchParams } = new URL(request.url);
     const solicitorId = searchParams.get("solicitorId");
@@ -18,6 +19,9 @@ export async function GET(request: NextRequest) {
     // eslint-disable-next-line prefer-const
     let whereConditions = [];
 
+    const locationCondition = locationFilter(auth, contact.locationId);
+    if (locationCondition) whereConditions.push(locationCondition);
+
     if (solicitorId) {
       whereConditions.push(
         eq(bonusCalculation.solicitorId, parseInt(solicitorId))
@@ -67,4 +71,4 @@ export async function GET(request: NextRequest) {
       { status: 500 }
     );
   }
-}
+});
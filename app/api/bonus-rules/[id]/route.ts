@@ -2,15 +2,23 @@ import { db } from "@/lib/db";
 import { bonusRule } from "@/lib/db/schema";
 import { eq } from "drizzle-orm";
 import { NextRequest, NextResponse } from "next/server";
+import { withAuth } from "@/lib/auth-guard";
+import { recordAudit } from "@/lib/audit-log";
 
-export async function PUT(
+export const PUT = withAuth({ role: "admin", location: { resource: "bonusRule", param: "id" } }, async (
   request: NextRequest,
   { params }: { params: Promise<{ id: string }> }
-) {
+) => {
   const { id } = await params;
   const ruleId = parseInt(id, 10);
   try {
     const body = await request.json();
+    const [existingRule] = await db
+      .select()
+      .from(bonusRule)
+      .where(eq(bonusRule.id, ruleId))
+      .limit(1);
+
     const updatedRule = await db
       .update(bonusRule)
       .set({
@@ -27,6 +35,14 @@ export async function PUT(
       );
     }
 
+    await recordAudit(request, {
+      action: "update",
+      entityType: "bonusRule",
+      entityId: ruleId,
+      before: existingRule,
+      after: updatedRule[0],
+    });
+
     return NextResponse.json({ bonusRule: updatedRule[0] });
   } catch (error) {
     console.error("Error updating bonus rule:", error);
@@ -35,12 +51,12 @@ export async function PUT(
       { status: 500 }
     );
   }
-}
+});
 
-export async function DELETE(
+export const DELETE = withAuth({ role: "admin", location: { resource: "bonusRule", param: "id" } }, async (
   request: NextRequest,
   { params }: { params: Promise<{ id: string }> }
-) {
+) => {
   const { id } = await params;
   const ruleId = parseInt(id, 10);
   try {
@@ -56,6 +72,13 @@ export async function DELETE(
       );
     }
 
+    await recordAudit(request, {
+      action: "delete",
+      entityType: "bonusRule",
+      entityId: ruleId,
+      before: deletedRule[0],
+    });
+
     return NextResponse.json({ message: "Bonus rule deleted successfully" });
   } catch (error) {
     console.error("Error deleting bonus rule:", error);
@@ -64,4 +87,4 @@ export async function DELETE(
       { status: 500 }
     );
   }
-}
+});
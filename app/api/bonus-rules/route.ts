@@ -1,15 +1,20 @@
 // app/api/bonus-rules/route.ts
 import { NextRequest, NextResponse } from "next/server";
 import { db } from "@/lib/db";
-import { eq, desc } from "drizzle-orm";
+import { eq, desc, and } from "drizzle-orm";
 import { bonusRule, contact, solicitor } from "@/lib/db/schema";
+import { withAuth, locationFilter } from "@/lib/auth-guard";
+import { recordAudit } from "@/lib/audit-log";
 
-export async function GET(request: NextRequest) {
+export const GET = withAuth({ role: "admin", location: { resource: "solicitor", query: "solicitorId" } }, async (request, _context, auth) => {
   try {
     const { searchParams } = new URL(request.url);
     const solicitorId = searchParams.get("solicitorId");
     const whereConditions = [];
 
+    const locationCondition = locationFilter(auth, contact.locationId);
+    if (locationCondition) whereConditions.push(locationCondition);
+
     if (solicitorId) {
       whereConditions.push(eq(bonusRule.solicitorId, parseInt(solicitorId)));
     }
@@ -35,7 +40,7 @@ export async function GET(request: NextRequest) {
       .from(bonusRule)
       .innerJoin(solicitor, eq(bonusRule.solicitorId, solicitor.id))
       .innerJoin(contact, eq(solicitor.contactId, contact.id))
-      .where(whereConditions.length > 0 ? whereConditions[0] : undefined)
+      .where(whereConditions.length > 0 ? and(...whereConditions) : undefined)
       .orderBy(desc(bonusRule.priority), desc(bonusRule.id));
 
     const rules = await query;
@@ -48,9 +53,9 @@ export async function GET(request: NextRequest) {
       { status: 500 }
     );
   }
-}
+});
 
-export async function POST(request: NextRequest) {
+export const POST = withAuth({ role: "admin", location: { resource: "solicitor", body: "solicitorId" } }, async (request: NextRequest) => {
   try {
     const body = await request.json();
     const {
@@ -106,6 +111,13 @@ export async function POST(request: NextRequest) {
       })
       .returning();
 
+    await recordAudit(request, {
+      action: "create",
+      entityType: "bonusRule",
+      entityId: newRule[0].id,
+      after: newRule[0],
+    });
+
     return NextResponse.json({ bonusRule: newRule[0] }, { status: 201 });
   } catch (error) {
     console.error("Error creating bonus rule:", error);
@@ -114,4 +126,4 @@ export async function POST(request: NextRequest) {
       { status: 500 }
     );
   }
-}
+});
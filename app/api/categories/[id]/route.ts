@@ -6,6 +6,7 @@ import { category, categoryItem } from "@/lib/db/schema";
 import { eq, and, sql } from "drizzle-orm";
 import { z } from "zod";
 import { categorySchema } from "@/lib/form-schemas/category";
+import { recordAudit } from "@/lib/audit-log";
 
 type CategoryUpdateData = {
   updatedAt: Date;
@@ -146,6 +147,12 @@ export async function PUT(
     if (validatedData.isActive !== undefined)
       updateData.isActive = validatedData.isActive;
 
+    const [previous] = await db
+      .select()
+      .from(category)
+      .where(eq(category.id, categoryId))
+      .limit(1);
+
     const result = await db
       .update(category)
       .set(updateData)
@@ -164,6 +171,14 @@ export async function PUT(
       );
     }
 
+    await recordAudit(request, {
+      action: "update",
+      entityType: "category",
+      entityId: categoryId,
+      before: previous,
+      after: result[0],
+    });
+
     return Response.json({
       message: "Category updated successfully",
       category: result[0],
@@ -211,6 +226,13 @@ export async function DELETE(
       return Response.json({ error: "Category not found" }, { status: 404 });
     }
 
+    await recordAudit(request, {
+      action: "delete",
+      entityType: "category",
+      entityId: categoryId,
+      before: result[0],
+    });
+
     return Response.json({ message: "Category deleted successfully" });
   } catch (error) {
     console.error("Database error:", error);
@@ -7,6 +7,7 @@ import { z } from "zod";
 import { ErrorHandler } from "@/lib/error-handler";
 import { category, NewCategory } from "@/lib/db/schema";
 import { categorySchema } from "@/lib/form-schemas/category";
+import { recordAudit } from "@/lib/audit-log";
 
 const querySchema = z.object({
   page: z.coerce.number().min(1).default(1),
@@ -234,6 +235,13 @@ export async function POST(request: NextRequest) {
 
     const result = await db.insert(category).values(newCategory).returning();
 
+    await recordAudit(request, {
+      action: "create",
+      entityType: "category",
+      entityId: result[0].id,
+      after: result[0],
+    });
+
     return NextResponse.json(
       {
         message: "Category created successfully",
@@ -0,0 +1,101 @@
+import { NextResponse } from "next/server";
+import { and, desc, eq } from "drizzle-orm";
+import { format } from "date-fns";
+import { db } from "@/lib/db";
+import { memorial, pledge } from "@/lib/db/schema";
+import { ErrorHandler } from "@/lib/error-handler";
+import { withAuth } from "@/lib/auth-guard";
+import { recordAudit } from "@/lib/audit-log";
+import { memorialSchema } from "@/lib/form-schemas/memorial";
+import { formatHebrewDate, hebrewMonthDay } from "@/lib/hebrew-date";
+import { MemorialError, hebrewDateOfPassing, nextYahrzeit } from "@/lib/memorials/memorials";
+
+async function assertPledgeOfContact(pledgeId: number | null | undefined, contactId: number) {
+  if (!pledgeId) return;
+  const [found] = await db
+    .select({ id: pledge.id })
+    .from(pledge)
+    .where(and(eq(pledge.id, pledgeId), eq(pledge.contactId, contactId)))
+    .limit(1);
+  if (!found) throw new MemorialError("The pledge does not belong to this contact", 400);
+}
+
+export const GET = withAuth<{ id: string }>(
+  { role: "user", location: { resource: "contact", param: "id" } },
+  async (_request, { params }) => {
+    try {
+      const contactId = parseInt((await params).id, 10);
+      if (isNaN(contactId)) {
+        return NextResponse.json({ error: "Invalid contact ID" }, { status: 400 });
+      }
+
+      const rows = await db
+        .select()
+        .from(memorial)
+        .where(eq(memorial.contactId, contactId))
+        .orderBy(desc(memorial.isActive), memorial.deceasedName);
+
+      const today = format(new Date(), "yyyy-MM-dd");
+      const memorials = rows.map((row) => {
+        const next = nextYahrzeit(row, today);
+        return {
+          ...row,
+          hebrewDateOfPassing: formatHebrewDate(hebrewMonthDay(row.hebrewDay, row.hebrewMonth, row.hebrewYear)),
+          nextYahrzeit: next.date,
+          nextYahrzeitHebrew: formatHebrewDate(next.date),
+        };
+      });
+
+      return NextResponse.json({ memorials });
+    } catch (error) {
+      console.error("Error fetching memorials:", error);
+      return ErrorHandler.handle(error);
+    }
+  }
+);
+
+export const POST = withAuth<{ id: string }>(
+  { role: "user", location: { resource: "contact", param: "id" } },
+  async (request, { params }) => {
+    try {
+      const contactId = parseInt((await params).id, 10);
+      if (isNaN(contactId)) {
+        return NextResponse.json({ error: "Invalid contact ID" }, { status: 400 });
+      }
+
+      const data = memorialSchema.parse(await request.json());
+      await assertPledgeOfContact(data.pledgeId, contactId);
+      const passing = hebrewDateOfPassing(data.dateOfPassing, data.afterSunset);
+
+      const [created] = await db
+        .insert(memorial)
+        .values({
+          contactId,
+          pledgeId: data.pledgeId ?? null,
+          deceasedName: data.deceasedName,
+          deceasedHebrewName: data.deceasedHebrewName || null,
+          relationship: data.relationship || null,
+          dateOfPassing: data.dateOfPassing,
+          afterSunset: data.afterSunset,
+          hebrewDay: passing.day,
+          hebrewMonth: passing.month,
+          hebrewYear: passing.year,
+          remindersEnabled: data.remindersEnabled,
+          notes: data.notes || null,
+        })
+        .returning();
+
+      await recordAudit(request, {
+        action: "create",
+        entityType: "memorial",
+        entityId: created.id,
+        after: created,
+      });
+
+      return NextResponse.json({ message: "Memorial created", memorial: created }, { status: 201 });
+    } catch (error) {
+      console.error("Error creating memorial:", error);
+      return ErrorHandler.handle(error);
+    }
+  }
+);
@@ -3,6 +3,7 @@ import { paymentPlan, pledge } from "@/lib/db/schema";
 import { eq, desc, or, ilike, and, SQL, sql, inArray } from "drizzle-orm";
 import { NextRequest, NextResponse } from "next/server";
 import { z } from "zod";
+import { withAuth } from "@/lib/auth-guard";
 
 const PlanStatusEnum = z.enum([
   "active",
@@ -22,10 +23,10 @@ const QueryParamsSchema = z.object({
 
 type QueryParams = z.infer<typeof QueryParamsSchema>;
 
-export async function GET(
+export const GET = withAuth({ role: "user", location: { resource: "contact", param: "id" } }, async (
   request: NextRequest,
   { params }: { params: Promise<{ id: string }> }
-) {
+) => {
   try {
     const { id } = await params;
     const { searchParams } = new URL(request.url);
@@ -158,4 +159,4 @@ export async function GET(
       { status: 500 }
     );
   }
-}
+});
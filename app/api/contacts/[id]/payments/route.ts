@@ -3,6 +3,7 @@ import { payment, pledge, paymentAllocations, contact } from "@/lib/db/schema";
 import { eq, desc, or, ilike, and, SQL, sql, inArray } from "drizzle-orm";
 import { NextRequest, NextResponse } from "next/server";
 import { z } from "zod";
+import { withAuth } from "@/lib/auth-guard";
 
 const PaymentStatusEnum = z.enum([
   "pending",
@@ -26,10 +27,10 @@ const QueryParamsSchema = z.object({
 
 type QueryParams = z.infer<typeof QueryParamsSchema>;
 
-export async function GET(
+export const GET = withAuth({ role: "user", location: { resource: "contact", param: "id" } }, async (
   request: NextRequest,
   { params }: { params: Promise<{ id?: string }> }
-) {
+) => {
   const { id } = await params;
   const contactId = id ? parseInt(id, 10) : null;
   const { searchParams } = new URL(request.url);
@@ -204,4 +205,4 @@ export async function GET(
       { status: 500 }
     );
   }
-}
+});
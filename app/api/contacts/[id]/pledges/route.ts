@@ -9,9 +9,10 @@ import {
   payment,
   paymentAllocations
 } from "@/lib/db/schema";
-import { sql, eq, and, or, gte, lte, ilike, SQL, not, isNull } from "drizzle-orm";
+import { sql, eq, and, or, gte, lte, ilike, SQL, not, isNull, inArray } from "drizzle-orm";
 import { NextRequest, NextResponse } from "next/server";
 import { alias } from "drizzle-orm/pg-core";
+import { withAuth } from "@/lib/auth-guard";
 
 // Define types
 interface ScheduledItem {
@@ -22,6 +23,10 @@ interface ScheduledItem {
 interface PledgeRow {
   id: number;
   pledgeDate: string;
+  dueDate: string | null;
+  dedicationType: "in_honor_of" | "in_memory_of" | null;
+  dedicationName: string | null;
+  memorialId: number | null;
   description: string | null;
   originalAmount: string;
   currency: string;
@@ -79,10 +84,10 @@ interface DetailedPaymentPlan {
   installmentSchedule: InstallmentScheduleItem[];
 }
 
-export async function GET(
+export const GET = withAuth({ role: "user", location: { resource: "contact", param: "id" } }, async (
   request: NextRequest,
   { params }: { params: Promise<{ id: string }> }
-) {
+) => {
   try {
     const { id } = await params;
     const contactId = parseInt(id, 10);
@@ -187,7 +192,7 @@ export async function GET(
         .where(
           and(
             eq(paymentPlan.isActive, true),
-            eq(paymentPlan.planStatus, 'active')
+            inArray(paymentPlan.planStatus, ['active', 'overdue'])
           )
         )
         .groupBy(paymentPlan.pledgeId);
@@ -239,7 +244,7 @@ export async function GET(
         .where(
           and(
             eq(paymentPlan.isActive, true),
-            eq(paymentPlan.planStatus, 'active')
+            inArray(paymentPlan.planStatus, ['active', 'overdue'])
           )
         )
         .orderBy(installmentSchedule.installmentDate);
@@ -334,6 +339,10 @@ export async function GET(
       .select({
         id: pledge.id,
         pledgeDate: pledge.pledgeDate,
+        dueDate: pledge.dueDate,
+        dedicationType: pledge.dedicationType,
+        dedicationName: pledge.dedicationName,
+        memorialId: pledge.memorialId,
         description: pledge.description,
         originalAmount: pledge.originalAmount,
         currency: pledge.currency,
@@ -342,6 +351,8 @@ export async function GET(
         totalPaidUsd: pledge.totalPaidUsd,
         balance: pledge.balance,
         balanceUsd: pledge.balanceUsd,
+        totalAdjusted: pledge.totalAdjusted,
+        totalAdjustedUsd: pledge.totalAdjustedUsd,
         notes: pledge.notes,
         categoryName: category.name,
         categoryDescription: category.description,
@@ -484,4 +495,4 @@ export async function GET(
       { status: 500 }
     );
   }
-}
+});
@@ -3,6 +3,7 @@ import { db } from "@/lib/db";
 import { relationships, contact } from "@/lib/db/schema";
 import { sql, eq, and } from "drizzle-orm";
 import { z } from "zod";
+import { withAuth } from "@/lib/auth-guard";
 
 const paramsSchema = z.object({
   contactId: z.string().transform((val) => parseInt(val, 10)),
@@ -14,10 +15,10 @@ const querySchema = z.object({
   includeInactive: z.coerce.boolean().default(false),
 });
 
-export async function GET(
+export const GET = withAuth({ role: "user", location: { resource: "contact", param: "id" } }, async (
   request: NextRequest,
   { params }: { params: Promise<{ contactId: string }> }
-) {
+) => {
   try {
     // Await the params promise before parsing
     const resolvedParams = await params;
@@ -133,4 +134,4 @@ export async function GET(
       { status: 500 }
     );
   }
-}
+});
@@ -2,11 +2,13 @@ import { db } from "@/lib/db";
 import { contact, pledge, contactRoles, studentRoles, category } from "@/lib/db/schema";
 import { eq, and, sql } from "drizzle-orm";
 import { NextRequest, NextResponse } from "next/server";
+import { withAuth } from "@/lib/auth-guard";
+import { recordAudit } from "@/lib/audit-log";
 
-export async function GET(
+export const GET = withAuth({ role: "user", location: { resource: "contact", param: "id" } }, async (
   request: NextRequest,
   { params }: { params: Promise<{ id: string }> }
-) {
+) => {
   const { id } = await params;
   const contactId = parseInt(id, 10);
   if (isNaN(contactId) || contactId <= 0) {
@@ -31,6 +33,8 @@ export async function GET(
           title: contact.title,
           gender: contact.gender,
           address: contact.address,
+          taxId: contact.taxId,
+          giftAidDeclarationDate: contact.giftAidDeclarationDate,
           createdAt: contact.createdAt,
           updatedAt: contact.updatedAt,
           fullName: sql<string>`concat(${contact.firstName}, ' ', ${contact.lastName})`.as('fullName'),
@@ -65,6 +69,7 @@ export async function GET(
         totalPledgedUsd: sql<number>`COALESCE(SUM(${pledge.originalAmountUsd}), 0)`,
         totalPaidUsd: sql<number>`COALESCE(SUM(${pledge.totalPaidUsd}), 0)`,
         currentBalanceUsd: sql<number>`COALESCE(SUM(${pledge.balanceUsd}), 0)`,
+        totalAdjustedUsd: sql<number>`COALESCE(SUM(${pledge.totalAdjustedUsd}), 0)`,
       })
       .from(category)
       .leftJoin(pledge, and(eq(pledge.categoryId, category.id), eq(pledge.contactId, contactId)))
@@ -110,12 +115,12 @@ export async function GET(
       { status: 500 }
     );
   }
-}
+});
 
-export async function PUT(
+export const PUT = withAuth({ role: "user", location: { resource: "contact", param: "id" } }, async (
   request: NextRequest,
   { params }: { params: Promise<{ id: string }> }
-) {
+) => {
   const { id } = await params;
   const contactId = parseInt(id, 10);
 
@@ -127,7 +132,7 @@ export async function PUT(
     const body = await request.json();
 
     // Validate required fields
-    const { firstName, lastName, email, phone, title, gender, address } = body;
+    const { firstName, lastName, email, phone, title, gender, address, taxId, giftAidDeclarationDate } = body;
 
     if (!firstName || !lastName || !email) {
       return NextResponse.json(
@@ -138,7 +143,7 @@ export async function PUT(
 
     // Check if contact exists
     const existingContact = await db
-      .select({ id: contact.id })
+      .select()
       .from(contact)
       .where(eq(contact.id, contactId))
       .limit(1);
@@ -159,6 +164,10 @@ export async function PUT(
     if (title !== undefined) updateData.title = title;
     if (gender !== undefined) updateData.gender = gender;
     if (address !== undefined) updateData.address = address;
+    if (taxId !== undefined) updateData.taxId = taxId || null;
+    if (giftAidDeclarationDate !== undefined) {
+      updateData.giftAidDeclarationDate = giftAidDeclarationDate || null;
+    }
 
     const [updatedContact] = await db
       .update(contact)
@@ -174,9 +183,19 @@ export async function PUT(
         title: contact.title,
         gender: contact.gender,
         address: contact.address,
+        taxId: contact.taxId,
+        giftAidDeclarationDate: contact.giftAidDeclarationDate,
         updatedAt: contact.updatedAt,
       });
 
+    await recordAudit(request, {
+      action: "update",
+      entityType: "contact",
+      entityId: contactId,
+      before: existingContact[0],
+      after: updatedContact,
+    });
+
     return NextResponse.json({
       message: "Contact updated successfully",
       contact: updatedContact,
@@ -192,12 +211,12 @@ export async function PUT(
       { status: 500 }
     );
   }
-}
+});
 
-export async function DELETE(
+export const DELETE = withAuth({ role: "admin", location: { resource: "contact", param: "id" } }, async (
   request: NextRequest,
   { params }: { params: Promise<{ id: string }> }
-) {
+) => {
   const { id } = await params;
   const contactId = parseInt(id, 10);
 
@@ -208,7 +227,7 @@ export async function DELETE(
   try {
     // Check if contact exists
     const existingContact = await db
-      .select({ id: contact.id })
+      .select()
       .from(contact)
       .where(eq(contact.id, contactId))
       .limit(1);
@@ -233,6 +252,13 @@ export async function DELETE(
     // Delete the contact (CASCADE will handle related records)
     await db.delete(contact).where(eq(contact.id, contactId));
 
+    await recordAudit(request, {
+      action: "delete",
+      entityType: "contact",
+      entityId: contactId,
+      before: existingContact[0],
+    });
+
     return NextResponse.json({
       message: "Contact deleted successfully",
       deletedContact: {
@@ -251,4 +277,4 @@ export async function DELETE(
       { status: 500 }
     );
   }
-}
+});
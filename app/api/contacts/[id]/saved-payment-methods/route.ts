@@ -0,0 +1,108 @@
+import { randomBytes } from "node:crypto";
+import { NextResponse } from "next/server";
+import { and, desc, eq } from "drizzle-orm";
+import { db } from "@/lib/db";
+import { savedPaymentMethod, type NewSavedPaymentMethod } from "@/lib/db/schema";
+import { ErrorHandler } from "@/lib/error-handler";
+import { withAuth } from "@/lib/auth-guard";
+import { recordAudit } from "@/lib/audit-log";
+import { savedPaymentMethodSchema } from "@/lib/form-schemas/saved-payment-method";
+import { getPaymentProcessor } from "@/lib/payment-processors/registry";
+import { NACHA_PROCESSOR, isRoutingNumber } from "@/lib/ach/nacha";
+import { sealAccountNumber } from "@/lib/ach/batches";
+
+// Tokens stay on the server; the client only needs to recognise the method
+const publicColumns = {
+  id: savedPaymentMethod.id,
+  processor: savedPaymentMethod.processor,
+  type: savedPaymentMethod.type,
+  brand: savedPaymentMethod.brand,
+  last4: savedPaymentMethod.last4,
+  expiryMonth: savedPaymentMethod.expiryMonth,
+  expiryYear: savedPaymentMethod.expiryYear,
+  holderName: savedPaymentMethod.holderName,
+  createdAt: savedPaymentMethod.createdAt,
+};
+
+export const GET = withAuth<{ id: string }>(
+  { role: "user", location: { resource: "contact", param: "id" } },
+  async (_request, { params }) => {
+    try {
+      const contactId = parseInt((await params).id, 10);
+      if (isNaN(contactId)) {
+        return NextResponse.json({ error: "Invalid contact ID" }, { status: 400 });
+      }
+
+      const methods = await db
+        .select(publicColumns)
+        .from(savedPaymentMethod)
+        .where(and(eq(savedPaymentMethod.contactId, contactId), eq(savedPaymentMethod.isActive, true)))
+        .orderBy(desc(savedPaymentMethod.createdAt));
+
+      return NextResponse.json({ methods });
+    } catch (error) {
+      console.error("Error fetching saved payment methods:", error);
+      return ErrorHandler.handle(error);
+    }
+  }
+);
+
+export const POST = withAuth<{ id: string }>(
+  { role: "user", location: { resource: "contact", param: "id" } },
+  async (request, { params }) => {
+    try {
+      const contactId = parseInt((await params).id, 10);
+      if (isNaN(contactId)) {
+        return NextResponse.json({ error: "Invalid contact ID" }, { status: 400 });
+      }
+
+      const details = savedPaymentMethodSchema.parse(await request.json());
+
+      let values: NewSavedPaymentMethod;
+      if (details.type === "ach" && details.collection === "nacha_file") {
+        if (!isRoutingNumber(details.routingNumber)) {
+          return NextResponse.json({ error: "The routing number is invalid" }, { status: 400 });
+        }
+        values = {
+          contactId,
+          processor: NACHA_PROCESSOR,
+          token: `nacha_${randomBytes(8).toString("hex")}`,
+          type: "ach",
+          brand: details.accountType === "savings" ? "Savings" : "Checking",
+          last4: details.accountNumber.slice(-4),
+          holderName: details.holderName,
+          routingNumber: details.routingNumber,
+          accountNumberEncrypted: sealAccountNumber(details.accountNumber),
+        };
+      } else {
+        const processor = getPaymentProcessor();
+        const tokenized = await processor.tokenize(details);
+        values = {
+          contactId,
+          processor: processor.name,
+          token: tokenized.token,
+          type: tokenized.type,
+          brand: tokenized.brand,
+          last4: tokenized.last4,
+          expiryMonth: tokenized.expiryMonth,
+          expiryYear: tokenized.expiryYear,
+          holderName: details.holderName || null,
+        };
+      }
+
+      const [created] = await db.insert(savedPaymentMethod).values(values).returning(publicColumns);
+
+      await recordAudit(request, {
+        action: "create",
+        entityType: "savedPaymentMethod",
+        entityId: created.id,
+        after: created,
+      });
+
+      return NextResponse.json({ message: "Payment method saved", method: created }, { status: 201 });
+    } catch (error) {
+      console.error("Error saving payment method:", error);
+      return ErrorHandler.handle(error);
+    }
+  }
+);
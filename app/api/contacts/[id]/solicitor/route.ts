@@ -4,6 +4,7 @@ import { eq, isNotNull, and } from "drizzle-orm";
 import { NextRequest, NextResponse } from "next/server";
 import { getServerSession } from "next-auth";
 import { authOptions } from "@/lib/auth";
+import { recordAudit } from "@/lib/audit-log";
 
 export async function GET(
   request: NextRequest,
@@ -226,6 +227,13 @@ export async function POST(
         updatedAt: solicitor.updatedAt,
       });
 
+    await recordAudit(request, {
+      action: "create",
+      entityType: "solicitor",
+      entityId: newSolicitor[0].id,
+      after: newSolicitor[0],
+    });
+
     // Get the complete solicitor data with contact information
     const solicitorWithContact = await db
       .select({
@@ -338,7 +346,7 @@ export async function PUT(
       : eq(solicitor.contactId, contactId);
 
     const existingSolicitor = await db
-      .select({ id: solicitor.id })
+      .select()
       .from(solicitor)
       .where(whereCondition)
       .limit(1);
@@ -394,6 +402,14 @@ export async function PUT(
         updatedAt: solicitor.updatedAt,
       });
 
+    await recordAudit(request, {
+      action: "update",
+      entityType: "solicitor",
+      entityId: updatedSolicitor[0].id,
+      before: existingSolicitor[0],
+      after: updatedSolicitor[0],
+    });
+
     // Get the complete solicitor data with contact information
     const solicitorWithContact = await db
       .select({
@@ -445,7 +461,7 @@ export async function DELETE(
   try {
     // Check if solicitor exists for this contact
     const existingSolicitor = await db
-      .select({ id: solicitor.id })
+      .select()
       .from(solicitor)
       .where(eq(solicitor.contactId, contactId))
       .limit(1);
@@ -460,6 +476,13 @@ export async function DELETE(
     // Delete solicitor (this will cascade delete bonus rules and calculations)
     await db.delete(solicitor).where(eq(solicitor.contactId, contactId));
 
+    await recordAudit(request, {
+      action: "delete",
+      entityType: "solicitor",
+      entityId: existingSolicitor[0].id,
+      before: existingSolicitor[0],
+    });
+
     return NextResponse.json({
       message: "Solicitor deleted successfully",
     });
@@ -18,6 +18,7 @@ import { contactFormSchema } from "@/lib/form-schemas/contact";
 import { ErrorHandler } from "@/lib/error-handler";
 import { getServerSession } from "next-auth";
 import { authOptions } from "@/lib/auth";
+import { recordAudit } from "@/lib/audit-log";
 
 interface ContactResponse {
   id: number;
@@ -370,10 +371,19 @@ export async function POST(request: Request) {
       title: validatedData.title,
       gender: validatedData.gender,
       address: validatedData.address,
+      taxId: validatedData.taxId || null,
+      giftAidDeclarationDate: validatedData.giftAidDeclarationDate || null,
     };
 
     const result = await db.insert(contact).values(newContact).returning();
 
+    await recordAudit(request, {
+      action: "create",
+      entityType: "contact",
+      entityId: result[0].id,
+      after: result[0],
+    });
+
     return NextResponse.json(
       {
         message: "Contact created successfully",
@@ -2,14 +2,15 @@
 import { NextRequest, NextResponse } from "next/server";
 import { db } from "@/lib/db";
 import { contact } from "@/lib/db/schema";
-import { sql, or, ilike } from "drizzle-orm";
+import { sql, or, ilike, and } from "drizzle-orm";
 import { z } from "zod";
+import { withAuth, locationFilter } from "@/lib/auth-guard";
 
 const searchQuerySchema = z.object({
   q: z.string().min(2, "Search query must be at least 2 characters"),
 });
 
-export async function GET(request: NextRequest) {
+export const GET = withAuth({ role: "user", location: true }, async (request, _context, auth) => {
   try {
     const { searchParams } = new URL(request.url);
     const query = searchParams.get('q');
@@ -36,12 +37,15 @@ export async function GET(request: NextRequest) {
       })
       .from(contact)
       .where(
-        or(
-          ilike(contact.firstName, `%${searchTerm}%`),
-          ilike(contact.lastName, `%${searchTerm}%`),
-          ilike(contact.displayName, `%${searchTerm}%`),
-          ilike(contact.email, `%${searchTerm}%`),
-          ilike(sql`concat(${contact.firstName}, ' ', ${contact.lastName})`, `%${searchTerm}%`)
+        and(
+          locationFilter(auth, contact.locationId),
+          or(
+            ilike(contact.firstName, `%${searchTerm}%`),
+            ilike(contact.lastName, `%${searchTerm}%`),
+            ilike(contact.displayName, `%${searchTerm}%`),
+            ilike(contact.email, `%${searchTerm}%`),
+            ilike(sql`concat(${contact.firstName}, ' ', ${contact.lastName})`, `%${searchTerm}%`)
+          )
         )
       )
       .orderBy(contact.firstName, contact.lastName)
@@ -62,4 +66,4 @@ export async function GET(request: NextRequest) {
       { status: 500 }
     );
   }
-}
\ No newline at end of file
+});
\ No newline at end of file
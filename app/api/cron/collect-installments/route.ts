@@ -0,0 +1,26 @@
+import { NextRequest, NextResponse } from "next/server";
+import { ErrorHandler } from "@/lib/error-handler";
+import { isCronRequest } from "@/lib/cron";
+import { collectDueInstallments } from "@/lib/payment-plans/collect-installments";
+
+// Nightly: charges due installments of plans that collect from a saved method
+export async function GET(request: NextRequest) {
+  if (!isCronRequest(request)) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  try {
+    const result = await collectDueInstallments();
+    return NextResponse.json({
+      asOf: result.asOf,
+      collected: result.collected.length,
+      pending: result.pending.length,
+      declined: result.declined,
+      failed: result.failed,
+      skipped: result.skipped.length,
+    });
+  } catch (error) {
+    console.error("Installment collection run failed:", error);
+    return ErrorHandler.handle(error);
+  }
+}
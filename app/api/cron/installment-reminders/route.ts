@@ -0,0 +1,23 @@
+import { NextRequest, NextResponse } from "next/server";
+import { ErrorHandler } from "@/lib/error-handler";
+import { isCronRequest } from "@/lib/cron";
+import { sendInstallmentReminders } from "@/lib/reminders/installment-reminders";
+
+// Nightly: sends the installment reminders due today
+export async function GET(request: NextRequest) {
+  if (!isCronRequest(request)) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  try {
+    const result = await sendInstallmentReminders();
+    return NextResponse.json({
+      sent: result.sent.length,
+      skipped: result.skipped.length,
+      failed: result.failed,
+    });
+  } catch (error) {
+    console.error("Installment reminder run failed:", error);
+    return ErrorHandler.handle(error);
+  }
+}
@@ -0,0 +1,25 @@
+import { NextRequest, NextResponse } from "next/server";
+import { ErrorHandler } from "@/lib/error-handler";
+import { isCronRequest } from "@/lib/cron";
+import { startIntegrityRun } from "@/lib/integrity/runs";
+
+// Nightly: checks stored totals and conversions, alerting on new critical issues
+export async function GET(request: NextRequest) {
+  if (!isCronRequest(request)) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  try {
+    const run = await startIntegrityRun({ trigger: "scheduled" });
+    return NextResponse.json({
+      runId: run.id,
+      issues: run.totalIssues,
+      critical: run.criticalIssues,
+      newCritical: run.newCriticalIssues,
+      alerted: run.alertedAt !== null,
+    });
+  } catch (error) {
+    console.error("Integrity check run failed:", error);
+    return ErrorHandler.handle(error);
+  }
+}
@@ -0,0 +1,22 @@
+import { NextRequest, NextResponse } from "next/server";
+import { ErrorHandler } from "@/lib/error-handler";
+import { isCronRequest } from "@/lib/cron";
+import { sweepPlanStatuses } from "@/lib/payment-plans/status-sweep";
+import { queuePlanRenewals } from "@/lib/payment-plans/renewals";
+
+// Nightly: moves installments and plans to overdue, active or completed, then
+// queues renewals for auto-renew plans that just completed
+export async function GET(request: NextRequest) {
+  if (!isCronRequest(request)) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  try {
+    const result = await sweepPlanStatuses();
+    const renewals = await queuePlanRenewals();
+    return NextResponse.json({ ...result, renewalsQueued: renewals.length });
+  } catch (error) {
+    console.error("Plan status sweep failed:", error);
+    return ErrorHandler.handle(error);
+  }
+}
@@ -0,0 +1,23 @@
+import { NextRequest, NextResponse } from "next/server";
+import { ErrorHandler } from "@/lib/error-handler";
+import { isCronRequest } from "@/lib/cron";
+import { sendYahrzeitReminders } from "@/lib/reminders/yahrzeit-reminders";
+
+// Nightly: reminds donors of yahrzeits coming up within the lead time
+export async function GET(request: NextRequest) {
+  if (!isCronRequest(request)) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  try {
+    const result = await sendYahrzeitReminders();
+    return NextResponse.json({
+      sent: result.sent.length,
+      skipped: result.skipped.length,
+      failed: result.failed,
+    });
+  } catch (error) {
+    console.error("Yahrzeit reminder run failed:", error);
+    return ErrorHandler.handle(error);
+  }
+}
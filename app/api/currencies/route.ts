@@ -0,0 +1,13 @@
+import { NextResponse } from "next/server";
+import { ErrorHandler } from "@/lib/error-handler";
+import { withAuth } from "@/lib/auth-guard";
+import { listCurrencies } from "@/lib/currencies/currencies";
+
+// The currencies forms offer: those enabled for the user's location
+export const GET = withAuth({ role: "user" }, async (_request, _context, auth) => {
+  try {
+    return NextResponse.json({ currencies: await listCurrencies(auth.locationId) });
+  } catch (error) {
+    return ErrorHandler.handle(error);
+  }
+});
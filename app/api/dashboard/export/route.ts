@@ -42,7 +42,7 @@ export async function GET(request: NextRequest) {
         totalPayments: sql<number>`COUNT(DISTINCT ${payment.id})`,
         totalPledgeAmount: sql<number>`COALESCE(SUM(${pledge.originalAmount}), 0)`,
         totalPaymentAmount: sql<number>`COALESCE(SUM(${payment.amount}), 0)`,
-        activePlans: sql<number>`COUNT(DISTINCT CASE WHEN ${paymentPlan.planStatus} = 'active' THEN ${paymentPlan.id} END)`,
+        activePlans: sql<number>`COUNT(DISTINCT CASE WHEN ${paymentPlan.planStatus} IN ('active', 'overdue') THEN ${paymentPlan.id} END)`,
         collectionRate: sql<number>`ROUND(CASE WHEN COALESCE(SUM(${pledge.originalAmount}), 0) > 0 THEN (COALESCE(SUM(${payment.amount}), 0) / COALESCE(SUM(${pledge.originalAmount}), 0)) * 100 ELSE 0 END, 2)`,
       })
       .from(contact)
@@ -1,7 +1,8 @@
 import { NextRequest, NextResponse } from "next/server";
 import { db } from "@/lib/db";
-import { sql, eq, and, gte, lt, lte, SQL } from "drizzle-orm";
+import { sql, eq, and, gte, lt, lte, SQL, inArray } from "drizzle-orm";
 import { contact, pledge, payment, paymentPlan, installmentSchedule, user } from "@/lib/db/schema";
+import { netPaymentAmountUsd } from "@/lib/refunds/net-amounts";
 import { getServerSession } from "next-auth";
 import { authOptions } from "@/lib/auth";
 
@@ -122,8 +123,8 @@ export async function GET(request: NextRequest) {
     const paymentsResult = await db
       .select({
         count: sql<number>`COUNT(*)`,
-        totalAmount: sql<number>`COALESCE(SUM(${payment.amountUsd}), 0)`,
-        avgSize: sql<number>`COALESCE(AVG(${payment.amountUsd}), 0)`,
+        totalAmount: sql<number>`COALESCE(SUM(${netPaymentAmountUsd}), 0)`,
+        avgSize: sql<number>`COALESCE(AVG(${netPaymentAmountUsd}), 0)`,
       })
       .from(payment)
       .innerJoin(pledge, eq(payment.pledgeId, pledge.id))
@@ -143,7 +144,7 @@ export async function GET(request: NextRequest) {
       .innerJoin(pledge, eq(paymentPlan.pledgeId, pledge.id))
       .innerJoin(contact, eq(pledge.contactId, contact.id))
       .where(and(
-        eq(paymentPlan.planStatus, "active"),
+        inArray(paymentPlan.planStatus, ["active", "overdue"]),
         eq(contact.locationId, adminLocationId)
       ));
     const activePlans = activePlansResult[0]?.count || 0;
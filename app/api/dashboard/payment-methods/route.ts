@@ -2,6 +2,7 @@ import { NextRequest, NextResponse } from "next/server";
 import { db } from "@/lib/db";
 import { sql, eq, and, gte, lt, lte, SQL } from "drizzle-orm";
 import { payment, user, pledge, contact } from "@/lib/db/schema";
+import { netPaymentAmountUsd } from "@/lib/refunds/net-amounts";
 import { getServerSession } from "next-auth";
 import { authOptions } from "@/lib/auth";
 
@@ -44,7 +45,7 @@ export async function GET(request: NextRequest) {
     const methodStats = await db
       .select({
         method: payment.paymentMethod,
-        totalAmount: sql<number>`COALESCE(SUM(${payment.amountUsd}), 0)`,
+        totalAmount: sql<number>`COALESCE(SUM(${netPaymentAmountUsd}), 0)`,
         count: sql<number>`COUNT(*)`,
       })
       .from(payment)
@@ -55,7 +56,7 @@ export async function GET(request: NextRequest) {
         eq(contact.locationId, adminLocationId)
       ))
       .groupBy(payment.paymentMethod)
-      .orderBy(sql`SUM(${payment.amountUsd}) DESC`);
+      .orderBy(sql`SUM(${netPaymentAmountUsd}) DESC`);
 
     const labels = methodStats.map(stat => stat.method);
     const values = methodStats.map(stat => stat.totalAmount);
@@ -2,6 +2,7 @@ import { NextRequest, NextResponse } from "next/server";
 import { db } from "@/lib/db";
 import { sql, eq, and, gte, lt, lte } from "drizzle-orm";
 import { pledge, payment, user, contact } from "@/lib/db/schema";
+import { netPaymentAmountUsd } from "@/lib/refunds/net-amounts";
 import { getServerSession } from "next-auth";
 import { authOptions } from "@/lib/auth";
 
@@ -72,7 +73,7 @@ export async function GET(request: NextRequest) {
 
           // Payments for this day
           const paymentResult = await db
-            .select({ total: sql<number>`COALESCE(SUM(${payment.amountUsd}), 0)` })
+            .select({ total: sql<number>`COALESCE(SUM(${netPaymentAmountUsd}), 0)` })
             .from(payment)
             .innerJoin(pledge, eq(payment.pledgeId, pledge.id))
             .innerJoin(contact, eq(pledge.contactId, contact.id))
@@ -117,7 +118,7 @@ export async function GET(request: NextRequest) {
 
           // Payments for this month
           const paymentResult = await db
-            .select({ total: sql<number>`COALESCE(SUM(${payment.amountUsd}), 0)` })
+            .select({ total: sql<number>`COALESCE(SUM(${netPaymentAmountUsd}), 0)` })
             .from(payment)
             .innerJoin(pledge, eq(payment.pledgeId, pledge.id))
             .innerJoin(contact, eq(pledge.contactId, contact.id))
@@ -156,7 +157,7 @@ export async function GET(request: NextRequest) {
 
         // Payments for this week
         const paymentResult = await db
-          .select({ total: sql<number>`COALESCE(SUM(${payment.amountUsd}), 0)` })
+          .select({ total: sql<number>`COALESCE(SUM(${netPaymentAmountUsd}), 0)` })
           .from(payment)
           .innerJoin(pledge, eq(payment.pledgeId, pledge.id))
           .innerJoin(contact, eq(pledge.contactId, contact.id))
@@ -196,7 +197,7 @@ export async function GET(request: NextRequest) {
 
         // Payments for this year
         const paymentResult = await db
-          .select({ total: sql<number>`COALESCE(SUM(${payment.amountUsd}), 0)` })
+          .select({ total: sql<number>`COALESCE(SUM(${netPaymentAmountUsd}), 0)` })
           .from(payment)
           .innerJoin(pledge, eq(payment.pledgeId, pledge.id))
           .innerJoin(contact, eq(pledge.contactId, contact.id))
@@ -236,7 +237,7 @@ export async function GET(request: NextRequest) {
 
         // Payments for this month
         const paymentResult = await db
-          .select({ total: sql<number>`COALESCE(SUM(${payment.amountUsd}), 0)` })
+          .select({ total: sql<number>`COALESCE(SUM(${netPaymentAmountUsd}), 0)` })
           .from(payment)
           .innerJoin(pledge, eq(payment.pledgeId, pledge.id))
           .innerJoin(contact, eq(pledge.contactId, contact.id))
@@ -0,0 +1,110 @@
+import { NextResponse } from "next/server";
+import { and, eq } from "drizzle-orm";
+import { z } from "zod";
+import { db } from "@/lib/db";
+import { memorial, pledge, type NewMemorial } from "@/lib/db/schema";
+import { ErrorHandler } from "@/lib/error-handler";
+import { withAuth } from "@/lib/auth-guard";
+import { recordAudit } from "@/lib/audit-log";
+import { memorialSchema } from "@/lib/form-schemas/memorial";
+import { MemorialError, hebrewDateOfPassing } from "@/lib/memorials/memorials";
+
+const updateMemorialSchema = memorialSchema.partial().extend({
+  isActive: z.boolean().optional(),
+});
+
+async function findMemorial(id: number) {
+  const [found] = await db.select().from(memorial).where(eq(memorial.id, id)).limit(1);
+  if (!found) throw new MemorialError("Memorial not found", 404);
+  return found;
+}
+
+export const PATCH = withAuth<{ id: string }>(
+  { role: "user", location: { resource: "memorial", param: "id" } },
+  async (request, { params }) => {
+    try {
+      const memorialId = parseInt((await params).id, 10);
+      if (isNaN(memorialId)) {
+        return NextResponse.json({ error: "Invalid memorial ID" }, { status: 400 });
+      }
+
+      const data = updateMemorialSchema.parse(await request.json());
+      const before = await findMemorial(memorialId);
+
+      if (data.pledgeId) {
+        const [owned] = await db
+          .select({ id: pledge.id })
+          .from(pledge)
+          .where(and(eq(pledge.id, data.pledgeId), eq(pledge.contactId, before.contactId)))
+          .limit(1);
+        if (!owned) throw new MemorialError("The pledge does not belong to this contact", 400);
+      }
+
+      const changes: Partial<NewMemorial> = { updatedAt: new Date() };
+      if (data.deceasedName !== undefined) changes.deceasedName = data.deceasedName;
+      if (data.deceasedHebrewName !== undefined) changes.deceasedHebrewName = data.deceasedHebrewName || null;
+      if (data.relationship !== undefined) changes.relationship = data.relationship || null;
+      if (data.pledgeId !== undefined) changes.pledgeId = data.pledgeId;
+      if (data.remindersEnabled !== undefined) changes.remindersEnabled = data.remindersEnabled;
+      if (data.isActive !== undefined) changes.isActive = data.isActive;
+      if (data.notes !== undefined) changes.notes = data.notes || null;
+
+      // The Hebrew date is always derived, so it follows any change to the passing
+      if (data.dateOfPassing !== undefined || data.afterSunset !== undefined) {
+        const dateOfPassing = data.dateOfPassing ?? before.dateOfPassing;
+        const afterSunset = data.afterSunset ?? before.afterSunset;
+        const passing = hebrewDateOfPassing(dateOfPassing, afterSunset);
+        Object.assign(changes, {
+          dateOfPassing,
+          afterSunset,
+          hebrewDay: passing.day,
+          hebrewMonth: passing.month,
+          hebrewYear: passing.year,
+        });
+      }
+
+      const [updated] = await db.update(memorial).set(changes).where(eq(memorial.id, memorialId)).returning();
+
+      await recordAudit(request, {
+        action: "update",
+        entityType: "memorial",
+        entityId: memorialId,
+        before,
+        after: updated,
+      });
+
+      return NextResponse.json({ message: "Memorial updated", memorial: updated });
+    } catch (error) {
+      console.error("Error updating memorial:", error);
+      return ErrorHandler.handle(error);
+    }
+  }
+);
+
+// Dedications that linked the memorial keep their printed name
+export const DELETE = withAuth<{ id: string }>(
+  { role: "user", location: { resource: "memorial", param: "id" } },
+  async (request, { params }) => {
+    try {
+      const memorialId = parseInt((await params).id, 10);
+      if (isNaN(memorialId)) {
+        return NextResponse.json({ error: "Invalid memorial ID" }, { status: 400 });
+      }
+
+      const before = await findMemorial(memorialId);
+      await db.delete(memorial).where(eq(memorial.id, memorialId));
+
+      await recordAudit(request, {
+        action: "delete",
+        entityType: "memorial",
+        entityId: memorialId,
+        before,
+      });
+
+      return NextResponse.json({ message: "Memorial deleted" });
+    } catch (error) {
+      console.error("Error deleting memorial:", error);
+      return ErrorHandler.handle(error);
+    }
+  }
+);
@@ -0,0 +1,34 @@
+import { NextResponse } from "next/server";
+import { z } from "zod";
+import { contact } from "@/lib/db/schema";
+import { ErrorHandler } from "@/lib/error-handler";
+import { withAuth, locationFilter } from "@/lib/auth-guard";
+import { formatHebrewDate, toHebrewDate } from "@/lib/hebrew-date";
+import { listYahrzeits } from "@/lib/memorials/memorials";
+
+const querySchema = z.object({
+  // Defaults to the current Hebrew year
+  hebrewYear: z.coerce.number().int().min(3761).max(9999).optional(),
+});
+
+// The yahrzeit list for a Hebrew year, across the caller's location
+export const GET = withAuth({ role: "user", location: true }, async (request, _context, auth) => {
+  try {
+    const { searchParams } = new URL(request.url);
+    const query = querySchema.parse({ hebrewYear: searchParams.get("hebrewYear") ?? undefined });
+    const hebrewYear = query.hebrewYear ?? toHebrewDate(new Date())!.year;
+
+    const entries = await listYahrzeits({
+      hebrewYear,
+      locationCondition: locationFilter(auth, contact.locationId),
+    });
+
+    return NextResponse.json({
+      hebrewYear,
+      yahrzeits: entries.map((entry) => ({ ...entry, hebrewDate: formatHebrewDate(entry.yahrzeitDate) })),
+    });
+  } catch (error) {
+    console.error("Error listing yahrzeits:", error);
+    return ErrorHandler.handle(error);
+  }
+});
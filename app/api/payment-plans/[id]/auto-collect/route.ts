@@ -0,0 +1,84 @@
+import { NextResponse } from "next/server";
+import { and, eq } from "drizzle-orm";
+import { z } from "zod";
+import { db } from "@/lib/db";
+import { paymentPlan, pledge, savedPaymentMethod } from "@/lib/db/schema";
+import { ErrorHandler } from "@/lib/error-handler";
+import { withAuth } from "@/lib/auth-guard";
+import { recordAudit } from "@/lib/audit-log";
+
+// null stops collecting; installments are then paid by hand again
+const autoCollectSchema = z.object({
+  savedPaymentMethodId: z.number().int().positive().nullable(),
+});
+
+export const PUT = withAuth<{ id: string }>(
+  { role: "user", location: { resource: "paymentPlan", param: "id" } },
+  async (request, { params }) => {
+    try {
+      const planId = parseInt((await params).id, 10);
+      if (isNaN(planId)) {
+        return NextResponse.json({ error: "Invalid payment plan ID" }, { status: 400 });
+      }
+
+      const { savedPaymentMethodId } = autoCollectSchema.parse(await request.json());
+
+      const [plan] = await db
+        .select({
+          id: paymentPlan.id,
+          savedPaymentMethodId: paymentPlan.savedPaymentMethodId,
+          contactId: pledge.contactId,
+        })
+        .from(paymentPlan)
+        .innerJoin(pledge, eq(paymentPlan.pledgeId, pledge.id))
+        .where(eq(paymentPlan.id, planId))
+        .limit(1);
+      if (!plan) {
+        return NextResponse.json({ error: "Payment plan not found" }, { status: 404 });
+      }
+
+      if (savedPaymentMethodId) {
+        const [method] = await db
+          .select({ id: savedPaymentMethod.id })
+          .from(savedPaymentMethod)
+          .where(
+            and(
+              eq(savedPaymentMethod.id, savedPaymentMethodId),
+              eq(savedPaymentMethod.contactId, plan.contactId),
+              eq(savedPaymentMethod.isActive, true)
+            )
+          )
+          .limit(1);
+        if (!method) {
+          return NextResponse.json(
+            { error: "The payment method does not belong to the pledge's donor" },
+            { status: 400 }
+          );
+        }
+      }
+
+      const [updated] = await db
+        .update(paymentPlan)
+        .set({ savedPaymentMethodId, updatedAt: new Date() })
+        .where(eq(paymentPlan.id, planId))
+        .returning({ id: paymentPlan.id, savedPaymentMethodId: paymentPlan.savedPaymentMethodId });
+
+      await recordAudit(request, {
+        action: "update",
+        entityType: "paymentPlan",
+        entityId: planId,
+        before: { savedPaymentMethodId: plan.savedPaymentMethodId },
+        after: updated,
+        note: savedPaymentMethodId ? "auto-collection set" : "auto-collection stopped",
+      });
+
+      return NextResponse.json({
+        message: savedPaymentMethodId ? "Installments will be collected automatically" : "Auto-collection stopped",
+        paymentPlan: updated,
+      });
+    } catch (error) {
+      console.error("Error updating plan auto-collection:", error);
+      return ErrorHandler.handle(error);
+    }
+  }
+);
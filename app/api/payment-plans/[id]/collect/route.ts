@@ -0,0 +1,37 @@
+import { NextResponse } from "next/server";
+import { ErrorHandler } from "@/lib/error-handler";
+import { withAuth } from "@/lib/auth-guard";
+import { recordAudit } from "@/lib/audit-log";
+import { collectDueInstallments } from "@/lib/payment-plans/collect-installments";
+
+// Charges the plan's due installments now instead of waiting for the nightly run
+export const POST = withAuth<{ id: string }>(
+  { role: "admin", location: { resource: "paymentPlan", param: "id" } },
+  async (request, { params }) => {
+    try {
+      const planId = parseInt((await params).id, 10);
+      if (isNaN(planId)) {
+        return NextResponse.json({ error: "Invalid payment plan ID" }, { status: 400 });
+      }
+
+      const result = await collectDueInstallments({ paymentPlanId: planId });
+
+      await recordAudit(
+        request,
+        ...[...result.collected, ...result.pending]
+          .filter((entry) => entry.paymentId)
+          .map((entry) => ({
+            action: "update" as const,
+            entityType: "payment" as const,
+            entityId: entry.paymentId!,
+            note: `collected from saved payment method, transaction #${entry.transactionId}`,
+          }))
+      );
+
+      return NextResponse.json(result);
+    } catch (error) {
+      console.error("Error collecting installments:", error);
+      return ErrorHandler.handle(error);
+    }
+  }
+);
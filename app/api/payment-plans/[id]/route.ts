@@ -1,5 +1,5 @@
 /* eslint-disable @typescript-eslint/no-explicit-any */
-import { db } from "@/lib/db";
+import { db, withTransaction, type Transaction } from "@/lib/db";
 import {
   paymentPlan,
   pledge,
@@ -7,15 +7,22 @@ import {
   payment,
   relationships,
   currencyConversionLog,
-  exchangeRate,
   contact,
   type PaymentPlan,
   type NewCurrencyConversionLog
 } from "@/lib/db/schema";
 import { ErrorHandler } from "@/lib/error-handler";
-import { eq, sql, and, desc } from "drizzle-orm";
+import { eq, sql, and } from "drizzle-orm";
 import { NextRequest, NextResponse } from "next/server";
 import { z } from "zod";
+import { withAuth, recordLocation } from "@/lib/auth-guard";
+import { recordAudit, type AuditEntry } from "@/lib/audit-log";
+import { recurrenceRuleSchema } from "@/lib/form-schemas/recurrence-rule";
+import { isSteppedFrequency, planInstallmentDates } from "@/lib/payment-plans/schedule";
+import { getUsdToCurrencyRate } from "@/lib/payment-totals";
+import { assertActiveCurrency } from "@/lib/currencies/currencies";
+import { currencyCodeSchema } from "@/lib/form-schemas/currency";
+import { convertAmount, crossRate, decimal, formatRate, minorUnits, roundMoney, sumMoney, type Decimal, type DecimalInput } from "@/lib/money";
 
 const PlanStatusEnum = z.enum([
   "active",
@@ -40,14 +47,13 @@ const updatePaymentPlanSchema = z.object({
       "custom",
     ])
     .optional(),
+  recurrenceRule: recurrenceRuleSchema.optional().nullable(),
   distributionType: z.enum(["fixed", "custom"]).optional(),
   totalPlannedAmount: z
     .number()
     .positive("Total planned amount must be positive")
     .optional(),
-  currency: z
-    .enum(["USD", "ILS", "EUR", "JPY", "GBP", "AUD", "CAD", "ZAR"])
-    .optional(),
+  currency: currencyCodeSchema.optional(),
   totalPlannedAmountUsd: z
     .number()
     .positive("Total planned amount USD must be positive")
@@ -85,7 +91,7 @@ const updatePaymentPlanSchema = z.object({
       z.object({
         installmentDate: z.string().min(1, "Installment date is required"),
         installmentAmount: z.number().positive("Installment amount must be positive"),
-        currency: z.enum(["USD", "ILS", "EUR", "JPY", "GBP", "AUD", "CAD", "ZAR"]).optional(),
+        currency: currencyCodeSchema.optional(),
         installmentAmountUsd: z.number().optional(),
         status: z.enum(["pending", "paid", "overdue", "cancelled"]).optional(),
         paidDate: z.string().optional(),
@@ -133,65 +139,17 @@ async function getExchangeRate(
   toCurrency: string,
   providedRate?: number | null,
   conversionDate?: string
-): Promise<number | null> {
-  if (fromCurrency === toCurrency) return 1;
-  if (providedRate) return providedRate;
+): Promise<Decimal | null> {
+  if (fromCurrency === toCurrency) return decimal(1);
+  if (providedRate) return decimal(providedRate);
 
   try {
     const targetDate = conversionDate || new Date().toISOString().split('T')[0];
 
-    // Try to get exact date first
-    let rateQuery = await db
-      .select({ rate: exchangeRate.rate })
-      .from(exchangeRate)
-      .where(
-        and(
-          eq(exchangeRate.baseCurrency, fromCurrency as any),
-          eq(exchangeRate.targetCurrency, toCurrency as any),
-          eq(exchangeRate.date, targetDate)
-        )
-      )
-      .limit(1);
-
-    // If no exact date, get most recent rate
-    if (!rateQuery.length) {
-      rateQuery = await db
-        .select({ rate: exchangeRate.rate })
-        .from(exchangeRate)
-        .where(
-          and(
-            eq(exchangeRate.baseCurrency, fromCurrency as any),
-            eq(exchangeRate.targetCurrency, toCurrency as any),
-            sql`${exchangeRate.date} <= ${targetDate}`
-          )
-        )
-        .orderBy(desc(exchangeRate.date))
-        .limit(1);
-    }
-
-    if (rateQuery.length) {
-      return parseFloat(rateQuery[0].rate.toString());
-    }
-
-    // Try reverse rate (toCurrency to fromCurrency)
-    rateQuery = await db
-      .select({ rate: exchangeRate.rate })
-      .from(exchangeRate)
-      .where(
-        and(
-          eq(exchangeRate.baseCurrency, toCurrency as any),
-          eq(exchangeRate.targetCurrency, fromCurrency as any),
-          sql`${exchangeRate.date} <= ${targetDate}`
-        )
-      )
-      .orderBy(desc(exchangeRate.date))
-      .limit(1);
-
-    if (rateQuery.length) {
-      return 1 / parseFloat(rateQuery[0].rate.toString());
-    }
-
-    return null;
+    // Stored rates are all quoted per USD, so cross rates go through it
+    const usdToFromRate = await getUsdToCurrencyRate(fromCurrency, targetDate);
+    const usdToToRate = await getUsdToCurrencyRate(toCurrency, targetDate);
+    return usdToFromRate && usdToToRate ? crossRate(usdToFromRate, usdToToRate) : null;
   } catch (error) {
     console.warn("Failed to get exchange rate from database:", error);
     return null;
@@ -202,30 +160,31 @@ async function getExchangeRate(
  * Helper function to calculate multi-currency conversions
  */
 async function calculateMultiCurrencyConversions(
-  amount: number,
+  amount: DecimalInput,
   paymentCurrency: string,
   pledgeCurrency: string,
   planCurrency: string,
   providedExchangeRate?: number | null,
   conversionDate?: string
 ) {
+  const unconverted = roundMoney(amount, paymentCurrency);
   const conversions = {
-    amountUsd: null as number | null,
-    amountInPledgeCurrency: amount,
-    pledgeCurrencyExchangeRate: null as number | null,
-    amountInPlanCurrency: amount,
-    planCurrencyExchangeRate: null as number | null,
-    usdExchangeRate: null as number | null,
+    amountUsd: null as string | null,
+    amountInPledgeCurrency: unconverted,
+    pledgeCurrencyExchangeRate: null as Decimal | null,
+    amountInPlanCurrency: unconverted,
+    planCurrencyExchangeRate: null as Decimal | null,
+    usdExchangeRate: null as Decimal | null,
   };
 
   // Calculate USD amount
   if (paymentCurrency === "USD") {
-    conversions.amountUsd = amount;
-    conversions.usdExchangeRate = 1;
+    conversions.amountUsd = unconverted;
+    conversions.usdExchangeRate = decimal(1);
   } else {
     const usdRate = await getExchangeRate(paymentCurrency, "USD", providedExchangeRate, conversionDate);
     if (usdRate) {
-      conversions.amountUsd = amount * usdRate;
+      conversions.amountUsd = convertAmount(amount, usdRate, "USD");
       conversions.usdExchangeRate = usdRate;
     }
   }
@@ -234,94 +193,75 @@ async function calculateMultiCurrencyConversions(
   if (paymentCurrency !== pledgeCurrency) {
     const pledgeRate = await getExchangeRate(paymentCurrency, pledgeCurrency, null, conversionDate);
     if (pledgeRate) {
-      conversions.amountInPledgeCurrency = amount * pledgeRate;
+      conversions.amountInPledgeCurrency = convertAmount(amount, pledgeRate, pledgeCurrency);
       conversions.pledgeCurrencyExchangeRate = pledgeRate;
     } else if (conversions.amountUsd && pledgeCurrency !== "USD") {
       // Try USD as intermediate currency
       const usdToPledgeRate = await getExchangeRate("USD", pledgeCurrency, null, conversionDate);
       if (usdToPledgeRate) {
-        conversions.amountInPledgeCurrency = conversions.amountUsd * usdToPledgeRate;
-        conversions.pledgeCurrencyExchangeRate = (conversions.usdExchangeRate || 1) * usdToPledgeRate;
+        conversions.amountInPledgeCurrency = convertAmount(conversions.amountUsd, usdToPledgeRate, pledgeCurrency);
+        conversions.pledgeCurrencyExchangeRate = (conversions.usdExchangeRate ?? decimal(1)).times(usdToPledgeRate);
       }
     }
   } else {
-    conversions.amountInPledgeCurrency = amount;
-    conversions.pledgeCurrencyExchangeRate = 1;
+    conversions.pledgeCurrencyExchangeRate = decimal(1);
   }
 
   // Calculate plan currency amount
   if (paymentCurrency !== planCurrency) {
     const planRate = await getExchangeRate(paymentCurrency, planCurrency, null, conversionDate);
     if (planRate) {
-      conversions.amountInPlanCurrency = amount * planRate;
+      conversions.amountInPlanCurrency = convertAmount(amount, planRate, planCurrency);
       conversions.planCurrencyExchangeRate = planRate;
     } else if (conversions.amountUsd && planCurrency !== "USD") {
       // Try USD as intermediate currency
       const usdToPlanRate = await getExchangeRate("USD", planCurrency, null, conversionDate);
       if (usdToPlanRate) {
-        conversions.amountInPlanCurrency = conversions.amountUsd * usdToPlanRate;
-        conversions.planCurrencyExchangeRate = (conversions.usdExchangeRate || 1) * usdToPlanRate;
+        conversions.amountInPlanCurrency = convertAmount(conversions.amountUsd, usdToPlanRate, planCurrency);
+        conversions.planCurrencyExchangeRate = (conversions.usdExchangeRate ?? decimal(1)).times(usdToPlanRate);
       }
     }
   } else {
-    conversions.amountInPlanCurrency = amount;
-    conversions.planCurrencyExchangeRate = 1;
+    conversions.planCurrencyExchangeRate = decimal(1);
   }
 
   return conversions;
 }
 
 /**
- * Helper function to log currency conversions
+ * Helper function to log currency conversions, in the transaction that
+ * updates the payment
  */
 async function logCurrencyConversion(
+  tx: Transaction,
   paymentId: number,
   fromCurrency: string,
   toCurrency: string,
-  fromAmount: number,
-  toAmount: number,
-  exchangeRate: number,
+  fromAmount: DecimalInput,
+  toAmount: DecimalInput,
+  exchangeRate: DecimalInput,
   conversionType: string
 ): Promise<void> {
-  if (fromCurrency === toCurrency || !toAmount) return;
+  if (fromCurrency === toCurrency || decimal(toAmount).isZero()) return;
 
   const conversionLog: NewCurrencyConversionLog = {
     paymentId,
-    fromCurrency: fromCurrency as any,
-    toCurrency: toCurrency as any,
-    fromAmount: fromAmount.toFixed(2),
-    toAmount: toAmount.toFixed(2),
-    exchangeRate: exchangeRate.toFixed(4),
+    fromCurrency,
+    toCurrency,
+    fromAmount: roundMoney(fromAmount, fromCurrency),
+    toAmount: roundMoney(toAmount, toCurrency),
+    exchangeRate: formatRate(exchangeRate),
     conversionDate: new Date().toISOString().split('T')[0],
     conversionType,
   };
 
-  try {
-    await db.insert(currencyConversionLog).values(conversionLog);
-  } catch (error) {
-    console.warn("Failed to log currency conversion:", error);
-  }
+  await tx.insert(currencyConversionLog).values(conversionLog);
 }
 
-/**
- * Helper function to safely convert number to proper string format for database
- */
-function safeNumericString(value: number | string | null | undefined): string | null {
-  if (value === null || value === undefined) return null;
-  if (typeof value === 'number') {
-    return Number.isFinite(value) ? value.toFixed(2) : null;
-  }
-  if (typeof value === 'string') {
-    const parsed = parseFloat(value);
-    return Number.isFinite(parsed) ? parsed.toFixed(2) : null;
-  }
-  return null;
-}
-
-export async function GET(
+export const GET = withAuth({ role: "user", location: { resource: "paymentPlan", param: "id" } }, async (
   request: NextRequest,
   { params }: { params: Promise<{ id: string }> }
-) {
+) => {
   try {
     const { id: planIdString } = await params;
     const paymentPlanId = parseInt(planIdString, 10);
@@ -340,6 +280,7 @@ export async function GET(
         pledgeId: paymentPlan.pledgeId,
         relationshipId: paymentPlan.relationshipId,
         frequency: paymentPlan.frequency,
+        recurrenceRule: paymentPlan.recurrenceRule,
         distributionType: paymentPlan.distributionType,
         totalPlannedAmount: paymentPlan.totalPlannedAmount,
         currency: paymentPlan.currency,
@@ -469,12 +410,12 @@ export async function GET(
     console.error("Error fetching payment plan:", error);
     return ErrorHandler.handle(error);
   }
-}
+});
 
-export async function PATCH(
+export const PATCH = withAuth({ role: "user", location: { resource: "paymentPlan", param: "id" } }, async (
   request: NextRequest,
   { params }: { params: Promise<{ id: string }> }
-) {
+) => {
   try {
     const { id: planIdString } = await params;
     const planId = parseInt(planIdString, 10);
@@ -521,6 +462,10 @@ export async function PATCH(
       );
     }
 
+    if (validatedData.currency && validatedData.currency !== existingPlan.currency) {
+      await assertActiveCurrency(validatedData.currency, await recordLocation("paymentPlan", planId));
+    }
+
     // Validate third-party contact if provided
     if (validatedData.thirdPartyContactId !== undefined && validatedData.thirdPartyContactId !== null) {
       const thirdPartyContactExists = await db
@@ -608,9 +553,9 @@ export async function PATCH(
       }
     }
 
-    // Helper functions for currency precision
-    const toCents = (amount: number) => amount * 100;
-    const fromCents = (cents: number) => cents / 100;
+    // Amounts are checked and spread in the plan currency's minor units
+    const planCurrency = validatedData.currency || existingPlan.currency;
+    const minorUnit = decimal(1).dividedBy(10 ** minorUnits(planCurrency));
 
     // Validate custom installments
     if (validatedData.distributionType === "custom" && validatedData.customInstallments) {
@@ -627,32 +572,29 @@ export async function PATCH(
         );
       }
 
-      const totalCustomCents = validatedData.customInstallments.reduce(
-        (sum, inst) => sum + toCents(inst.installmentAmount),
-        0
-      );
-      const expectedCents = toCents(
-        validatedData.totalPlannedAmount || Number.parseFloat(existingPlan.totalPlannedAmount.toString())
+      const totalCustom = validatedData.customInstallments.reduce<Decimal>(
+        (sum, inst) => sum.plus(inst.installmentAmount),
+        decimal(0)
       );
+      const expected = decimal(validatedData.totalPlannedAmount || existingPlan.totalPlannedAmount);
 
-      const difference = expectedCents - totalCustomCents;
+      const difference = expected.minus(totalCustom);
 
-      if (Math.abs(difference) > 2) {
+      if (difference.abs().compare(minorUnit.times(2)) > 0) {
         return NextResponse.json(
           {
             error: "Validation failed",
             details: [{
               field: "totalPlannedAmount",
-              message: `Sum of custom installments (${fromCents(totalCustomCents)}) must equal the total planned amount (${fromCents(expectedCents)}).`,
+              message: `Sum of custom installments (${totalCustom.toMoney(planCurrency)}) must equal the total planned amount (${expected.toMoney(planCurrency)}).`,
             }],
           },
           { status: 400 }
         );
-      } else if (difference !== 0) {
+      } else if (!difference.isZero()) {
         // Auto-adjust last installment amount
-        const lastIndex = validatedData.customInstallments.length - 1;
-        const lastCents = toCents(validatedData.customInstallments[lastIndex].installmentAmount);
-        validatedData.customInstallments[lastIndex].installmentAmount = fromCents(lastCents + difference);
+        const last = validatedData.customInstallments[validatedData.customInstallments.length - 1];
+        last.installmentAmount = Number(decimal(last.installmentAmount).plus(difference).toMoney(planCurrency));
       }
 
       // Validate unique installment dates
@@ -686,58 +628,40 @@ export async function PATCH(
         );
       }
 
-      const totalPlannedAmount = validatedData.totalPlannedAmount || Number.parseFloat(existingPlan.totalPlannedAmount.toString());
+      const totalPlannedAmount = decimal(validatedData.totalPlannedAmount || existingPlan.totalPlannedAmount);
       const numberOfInstallments = validatedData.numberOfInstallments;
 
-      const totalCents = toCents(totalPlannedAmount);
-      const baseCentsPerInstallment = Math.floor(totalCents / numberOfInstallments);
-      const remainderCents = totalCents % numberOfInstallments;
+      const baseInstallment = totalPlannedAmount.dividedBy(numberOfInstallments).truncate(minorUnits(planCurrency));
+      // Minor units left once every installment has the base amount
+      const remainderUnits = Number(
+        totalPlannedAmount.minus(baseInstallment.times(numberOfInstallments)).dividedBy(minorUnit).toFixed(0)
+      );
 
-      const baseInstallmentAmount = fromCents(baseCentsPerInstallment);
+      const baseInstallmentAmount = Number(baseInstallment.toMoney(planCurrency));
 
-      const providedInstallmentCents = toCents(validatedData.installmentAmount);
-      const calculatedTotalCents = providedInstallmentCents * numberOfInstallments;
+      const calculatedTotal = decimal(validatedData.installmentAmount).times(numberOfInstallments);
 
-      if (Math.abs(calculatedTotalCents - totalCents) > 1) {
-        if (remainderCents === 0) {
+      if (calculatedTotal.minus(totalPlannedAmount).abs().compare(minorUnit) > 0) {
+        if (remainderUnits === 0) {
           validatedData.installmentAmount = baseInstallmentAmount;
         } else {
           // Convert to custom installments for handling remainder
           const customInstallments = [];
-          const startDate = new Date(validatedData.startDate || existingPlan.startDate);
           const frequency = validatedData.frequency || existingPlan.frequency;
+          // Plans without a fixed step have always been spread monthly here
+          const installmentDates = planInstallmentDates(
+            validatedData.startDate || existingPlan.startDate,
+            isSteppedFrequency(frequency) ? frequency : "monthly",
+            numberOfInstallments,
+            validatedData.recurrenceRule !== undefined ? validatedData.recurrenceRule : existingPlan.recurrenceRule
+          );
 
-          for (let i = 0; i < numberOfInstallments; i++) {
-            const installmentDate = new Date(startDate);
-
-            switch (frequency) {
-              case "weekly":
-                installmentDate.setDate(startDate.getDate() + i * 7);
-                break;
-              case "monthly":
-                installmentDate.setMonth(startDate.getMonth() + i);
-                break;
-              case "quarterly":
-                installmentDate.setMonth(startDate.getMonth() + i * 3);
-                break;
-              case "biannual":
-                installmentDate.setMonth(startDate.getMonth() + i * 6);
-                break;
-              case "annual":
-                installmentDate.setFullYear(startDate.getFullYear() + i);
-                break;
-              default:
-                installmentDate.setMonth(startDate.getMonth() + i);
-            }
-
-            let installmentCents = baseCentsPerInstallment;
-            if (i < remainderCents) {
-              installmentCents += 1;
-            }
+          for (let i = 0; i < installmentDates.length; i++) {
+            const installment = i < remainderUnits ? baseInstallment.plus(minorUnit) : baseInstallment;
 
             customInstallments.push({
-              installmentDate: installmentDate.toISOString().split("T")[0],
-              installmentAmount: fromCents(installmentCents),
+              installmentDate: installmentDates[i],
+              installmentAmount: Number(installment.toMoney(planCurrency)),
               notes: `Installment ${i + 1}`,
             });
           }
@@ -769,8 +693,8 @@ export async function PATCH(
 
     if (validatedData.totalPlannedAmount && validatedData.currency) {
       if (validatedData.currency === "USD") {
-        calculatedTotalUsd = validatedData.totalPlannedAmount.toFixed(2);
-        effectiveExchangeRate = "1.0000";
+        calculatedTotalUsd = roundMoney(validatedData.totalPlannedAmount, "USD");
+        effectiveExchangeRate = formatRate(1);
       } else {
         const usdRate = await getExchangeRate(
           validatedData.currency,
@@ -779,15 +703,15 @@ export async function PATCH(
           validatedData.startDate || existingPlan.startDate
         );
         if (usdRate) {
-          calculatedTotalUsd = (validatedData.totalPlannedAmount * usdRate).toFixed(2);
-          effectiveExchangeRate = usdRate.toFixed(4);
+          calculatedTotalUsd = convertAmount(validatedData.totalPlannedAmount, usdRate, "USD");
+          effectiveExchangeRate = formatRate(usdRate);
         }
       }
     }
 
     if (validatedData.installmentAmount && validatedData.currency) {
       if (validatedData.currency === "USD") {
-        calculatedInstallmentUsd = validatedData.installmentAmount.toFixed(2);
+        calculatedInstallmentUsd = roundMoney(validatedData.installmentAmount, "USD");
       } else {
         const usdRate = await getExchangeRate(
           validatedData.currency,
@@ -796,7 +720,7 @@ export async function PATCH(
           validatedData.startDate || existingPlan.startDate
         );
         if (usdRate) {
-          calculatedInstallmentUsd = (validatedData.installmentAmount * usdRate).toFixed(2);
+          calculatedInstallmentUsd = convertAmount(validatedData.installmentAmount, usdRate, "USD");
         }
       }
     }
@@ -805,21 +729,22 @@ export async function PATCH(
       updatedAt: new Date(),
       ...(validatedData.planName !== undefined && { planName: validatedData.planName }),
       ...(validatedData.frequency !== undefined && { frequency: validatedData.frequency }),
+      ...(validatedData.recurrenceRule !== undefined && { recurrenceRule: validatedData.recurrenceRule }),
       ...(validatedData.distributionType !== undefined && { distributionType: validatedData.distributionType }),
-      ...(validatedData.totalPlannedAmount !== undefined && { totalPlannedAmount: validatedData.totalPlannedAmount.toString() }),
+      ...(validatedData.totalPlannedAmount !== undefined && { totalPlannedAmount: roundMoney(validatedData.totalPlannedAmount, planCurrency) }),
       ...(validatedData.currency !== undefined && { currency: validatedData.currency }),
       ...(calculatedTotalUsd && { totalPlannedAmountUsd: calculatedTotalUsd }),
-      ...(validatedData.totalPlannedAmountUsd !== undefined && !calculatedTotalUsd && { totalPlannedAmountUsd: validatedData.totalPlannedAmountUsd.toString() }),
-      ...(validatedData.installmentAmount !== undefined && { installmentAmount: validatedData.installmentAmount.toString() }),
+      ...(validatedData.totalPlannedAmountUsd !== undefined && !calculatedTotalUsd && { totalPlannedAmountUsd: roundMoney(validatedData.totalPlannedAmountUsd, "USD") }),
+      ...(validatedData.installmentAmount !== undefined && { installmentAmount: roundMoney(validatedData.installmentAmount, planCurrency) }),
       ...(calculatedInstallmentUsd && { installmentAmountUsd: calculatedInstallmentUsd }),
-      ...(validatedData.installmentAmountUsd !== undefined && !calculatedInstallmentUsd && { installmentAmountUsd: validatedData.installmentAmountUsd.toString() }),
+      ...(validatedData.installmentAmountUsd !== undefined && !calculatedInstallmentUsd && { installmentAmountUsd: roundMoney(validatedData.installmentAmountUsd, "USD") }),
       ...(validatedData.numberOfInstallments !== undefined && { numberOfInstallments: validatedData.numberOfInstallments }),
       ...(effectiveExchangeRate && { exchangeRate: effectiveExchangeRate }),
-      ...(validatedData.exchangeRate !== undefined && !effectiveExchangeRate && { exchangeRate: validatedData.exchangeRate.toString() }),
+      ...(validatedData.exchangeRate !== undefined && !effectiveExchangeRate && { exchangeRate: formatRate(validatedData.exchangeRate) }),
       ...(validatedData.startDate !== undefined && { startDate: validatedData.startDate }),
       ...(validatedData.endDate !== undefined && { endDate: validatedData.endDate }),
       ...(validatedData.nextPaymentDate !== undefined && { nextPaymentDate: validatedData.nextPaymentDate }),
-      ...(validatedData.remainingAmountUsd !== undefined && { remainingAmountUsd: validatedData.remainingAmountUsd.toString() }),
+      ...(validatedData.remainingAmountUsd !== undefined && { remainingAmountUsd: roundMoney(validatedData.remainingAmountUsd, "USD") }),
       ...(validatedData.currencyPriority !== undefined && { currencyPriority: validatedData.currencyPriority }),
       ...(validatedData.autoRenew !== undefined && { autoRenew: validatedData.autoRenew }),
       ...(validatedData.planStatus !== undefined && { planStatus: validatedData.planStatus }),
@@ -829,246 +754,271 @@ export async function PATCH(
       ...(validatedData.relationshipId !== undefined && { relationshipId: validatedData.relationshipId }),
     };
 
-    // Handle installment schedule update with proper multi-currency support
-    if (validatedData.distributionType !== undefined) {
-      if (validatedData.distributionType === "custom") {
-        if (validatedData.customInstallments) {
-          // Remove old installments first
-          await db.delete(installmentSchedule).where(eq(installmentSchedule.paymentPlanId, planId));
-
-          // Insert new custom installments with proper currency conversions
-          const installmentsToInsert = [];
-          for (const inst of validatedData.customInstallments) {
-            const instCurrency = inst.currency || validatedData.currency || existingPlan.currency;
-            let instAmountUsd: string | null = null;
-
-            if (instCurrency === "USD") {
-              instAmountUsd = inst.installmentAmount.toFixed(2);
-            } else if (inst.installmentAmountUsd) {
-              instAmountUsd = inst.installmentAmountUsd.toFixed(2);
-            } else {
-              // Calculate USD amount for this installment
-              const usdRate = await getExchangeRate(
-                instCurrency,
-                "USD",
-                null,
-                inst.installmentDate
-              );
-              if (usdRate) {
-                instAmountUsd = (inst.installmentAmount * usdRate).toFixed(2);
+    // Determine if third-party payment status changed
+    const isUpdatingThirdPartyStatus = validatedData.isThirdPartyPayment !== undefined ||
+      validatedData.thirdPartyContactId !== undefined ||
+      validatedData.payerContactId !== undefined;
+
+    // Installments, plan and pending payments are updated together or not at all
+    const { updatedPlan, paymentAuditEntries } = await withTransaction(async (tx) => {
+      // Handle installment schedule update with proper multi-currency support
+      if (validatedData.distributionType !== undefined) {
+        if (validatedData.distributionType === "custom") {
+          if (validatedData.customInstallments) {
+            // Remove old installments first
+            await tx.delete(installmentSchedule).where(eq(installmentSchedule.paymentPlanId, planId));
+
+            // Insert new custom installments with proper currency conversions
+            const installmentsToInsert = [];
+            for (const inst of validatedData.customInstallments) {
+              const instCurrency = inst.currency || validatedData.currency || existingPlan.currency;
+              let instAmountUsd: string | null = null;
+
+              if (instCurrency === "USD") {
+                instAmountUsd = roundMoney(inst.installmentAmount, "USD");
+              } else if (inst.installmentAmountUsd) {
+                instAmountUsd = roundMoney(inst.installmentAmountUsd, "USD");
+              } else {
+                // Calculate USD amount for this installment
+                const usdRate = await getExchangeRate(
+                  instCurrency,
+                  "USD",
+                  null,
+                  inst.installmentDate
+                );
+                if (usdRate) {
+                  instAmountUsd = convertAmount(inst.installmentAmount, usdRate, "USD");
+                }
               }
-            }
 
-            installmentsToInsert.push({
-              paymentPlanId: planId,
-              installmentDate: inst.installmentDate,
-              installmentAmount: inst.installmentAmount.toString(),
-              currency: instCurrency,
-              installmentAmountUsd: instAmountUsd,
-              notes: inst.notes || null,
-              status: inst.status || "pending",
-            });
-          }
+              installmentsToInsert.push({
+                paymentPlanId: planId,
+                installmentDate: inst.installmentDate,
+                installmentAmount: roundMoney(inst.installmentAmount, instCurrency),
+                currency: instCurrency,
+                installmentAmountUsd: instAmountUsd,
+                notes: inst.notes || null,
+                status: inst.status || "pending",
+              });
+            }
 
-          await db.insert(installmentSchedule).values(installmentsToInsert);
+            await tx.insert(installmentSchedule).values(installmentsToInsert);
 
-          dataToUpdate.numberOfInstallments = validatedData.customInstallments.length;
+            dataToUpdate.numberOfInstallments = validatedData.customInstallments.length;
 
-          // Update total planned to exact sum of custom installments
-          const exactTotal = fromCents(
-            validatedData.customInstallments.reduce(
-              (sum, inst) => sum + toCents(inst.installmentAmount),
-              0,
-            )
-          );
-          dataToUpdate.totalPlannedAmount = exactTotal.toString();
-
-          // Calculate USD total
-          if (validatedData.currency === "USD") {
-            dataToUpdate.totalPlannedAmountUsd = exactTotal.toString();
-          } else {
-            const usdRate = await getExchangeRate(
-              validatedData.currency || existingPlan.currency,
-              "USD",
-              null
+            // Update total planned to exact sum of custom installments
+            const exactTotal = sumMoney(
+              validatedData.customInstallments.map((inst) => inst.installmentAmount),
+              planCurrency
             );
-            if (usdRate) {
-              dataToUpdate.totalPlannedAmountUsd = (exactTotal * usdRate).toString();
+            dataToUpdate.totalPlannedAmount = exactTotal;
+
+            // Calculate USD total
+            if (validatedData.currency === "USD") {
+              dataToUpdate.totalPlannedAmountUsd = exactTotal;
+            } else {
+              const usdRate = await getExchangeRate(
+                validatedData.currency || existingPlan.currency,
+                "USD",
+                null
+              );
+              if (usdRate) {
+                dataToUpdate.totalPlannedAmountUsd = convertAmount(exactTotal, usdRate, "USD");
+              }
             }
           }
-        }
-      } else if (validatedData.distributionType === "fixed") {
-        // Remove any custom installments if switching to fixed
-        await db.delete(installmentSchedule).where(eq(installmentSchedule.paymentPlanId, planId));
-
-        if (validatedData.installmentAmount && validatedData.numberOfInstallments) {
-          const exactTotal = fromCents(
-            toCents(validatedData.installmentAmount) * validatedData.numberOfInstallments
-          );
-          dataToUpdate.totalPlannedAmount = exactTotal.toString();
-
-          // Calculate USD amounts
-          if (validatedData.currency === "USD") {
-            dataToUpdate.totalPlannedAmountUsd = exactTotal.toString();
-            dataToUpdate.installmentAmountUsd = validatedData.installmentAmount.toString();
-          } else {
-            const usdRate = await getExchangeRate(
-              validatedData.currency || existingPlan.currency,
-              "USD",
-              null
-            );
-            if (usdRate) {
-              dataToUpdate.totalPlannedAmountUsd = (exactTotal * usdRate).toString();
-              dataToUpdate.installmentAmountUsd = (validatedData.installmentAmount * usdRate).toString();
+        } else if (validatedData.distributionType === "fixed") {
+          // Remove any custom installments if switching to fixed
+          await tx.delete(installmentSchedule).where(eq(installmentSchedule.paymentPlanId, planId));
+
+          if (validatedData.installmentAmount && validatedData.numberOfInstallments) {
+            const exactTotal = decimal(validatedData.installmentAmount)
+              .times(validatedData.numberOfInstallments)
+              .toMoney(planCurrency);
+            dataToUpdate.totalPlannedAmount = exactTotal;
+
+            // Calculate USD amounts
+            if (validatedData.currency === "USD") {
+              dataToUpdate.totalPlannedAmountUsd = exactTotal;
+              dataToUpdate.installmentAmountUsd = roundMoney(validatedData.installmentAmount, "USD");
+            } else {
+              const usdRate = await getExchangeRate(
+                validatedData.currency || existingPlan.currency,
+                "USD",
+                null
+              );
+              if (usdRate) {
+                dataToUpdate.totalPlannedAmountUsd = convertAmount(exactTotal, usdRate, "USD");
+                dataToUpdate.installmentAmountUsd = convertAmount(validatedData.installmentAmount, usdRate, "USD");
+              }
             }
           }
         }
       }
-    }
-
-    // **RECALCULATE REMAINING AMOUNTS BASED ON UPDATED VALUES**
-    const currentTotalPaidCents = toCents(parseFloat(existingPlan.totalPaid.toString()) || 0);
-    const currentTotalPaidUsdCents = toCents(parseFloat(existingPlan.totalPaidUsd?.toString() || "0"));
-
-    // Get the new total planned amount (either from update or existing)
-    const newTotalPlannedCents = toCents(parseFloat(dataToUpdate.totalPlannedAmount || existingPlan.totalPlannedAmount.toString()));
-    const newTotalPlannedUsdCents = toCents(parseFloat(dataToUpdate.totalPlannedAmountUsd || existingPlan.totalPlannedAmountUsd?.toString() || "0"));
 
-    // Calculate remaining amounts with precision
-    const newRemainingAmountCents = Math.max(0, newTotalPlannedCents - currentTotalPaidCents);
-    const newRemainingAmountUsdCents = Math.max(0, newTotalPlannedUsdCents - currentTotalPaidUsdCents);
-
-    // Update the dataToUpdate object with recalculated remaining amounts
-    dataToUpdate.remainingAmount = fromCents(newRemainingAmountCents).toString();
-    dataToUpdate.remainingAmountUsd = fromCents(newRemainingAmountUsdCents).toString();
-
-    // Update payment plan record
-    const [updatedPlan] = await db
-      .update(paymentPlan)
-      .set(dataToUpdate)
-      .where(eq(paymentPlan.id, planId))
-      .returning();
-
-    // Determine if third-party payment status changed
-    const isUpdatingThirdPartyStatus = validatedData.isThirdPartyPayment !== undefined ||
-      validatedData.thirdPartyContactId !== undefined ||
-      validatedData.payerContactId !== undefined;
-
-    // Get current third-party status from existing payments
-    const [currentThirdPartyStatus] = await db
-      .select({
-        isThirdPartyPayment: payment.isThirdPartyPayment,
-        payerContactId: payment.payerContactId,
-      })
-      .from(payment)
-      .where(eq(payment.paymentPlanId, planId))
-      .limit(1);
-
-    // Update related pending payments with comprehensive multi-currency support and third-party fields
-    if (validatedData.distributionType !== undefined ||
-      validatedData.installmentAmount !== undefined ||
-      validatedData.currency !== undefined ||
-      isUpdatingThirdPartyStatus) {
-
-      // Get all pending payments for this plan
-      const pendingPayments = await db
-        .select()
+      // **RECALCULATE REMAINING AMOUNTS BASED ON UPDATED VALUES**
+      // Get the new total planned amount (either from update or existing)
+      const newTotalPlanned = dataToUpdate.totalPlannedAmount || existingPlan.totalPlannedAmount;
+      const newTotalPlannedUsd = dataToUpdate.totalPlannedAmountUsd || existingPlan.totalPlannedAmountUsd || "0";
+
+      // Update the dataToUpdate object with recalculated remaining amounts
+      dataToUpdate.remainingAmount = decimal(newTotalPlanned)
+        .minus(existingPlan.totalPaid || "0")
+        .clampToZero()
+        .toMoney(planCurrency);
+      dataToUpdate.remainingAmountUsd = decimal(newTotalPlannedUsd)
+        .minus(existingPlan.totalPaidUsd || "0")
+        .clampToZero()
+        .toMoney("USD");
+
+      // Update payment plan record
+      const [updatedPlan] = await tx
+        .update(paymentPlan)
+        .set(dataToUpdate)
+        .where(eq(paymentPlan.id, planId))
+        .returning();
+
+      // Get current third-party status from existing payments
+      const [currentThirdPartyStatus] = await tx
+        .select({
+          isThirdPartyPayment: payment.isThirdPartyPayment,
+          payerContactId: payment.payerContactId,
+        })
         .from(payment)
-        .where(
-          and(
-            eq(payment.paymentPlanId, planId),
-            eq(payment.paymentStatus, "pending")
-          )
-        );
+        .where(eq(payment.paymentPlanId, planId))
+        .limit(1);
 
-      // Determine the third-party configuration to apply
-      const isThirdPartyPayment = validatedData.isThirdPartyPayment ??
-        (currentThirdPartyStatus?.isThirdPartyPayment || false);
-      const thirdPartyContactId = validatedData.thirdPartyContactId ?? null;
-      const payerContactId = validatedData.payerContactId ??
-        (currentThirdPartyStatus?.payerContactId || null);
-
-      // Update pending payments with new currency conversions and third-party fields
-      for (const pendingPayment of pendingPayments) {
-        const paymentAmount = parseFloat(pendingPayment.amount.toString());
-        const paymentCurrency = pendingPayment.currency;
-        const planCurrency = validatedData.currency || existingPlan.currency;
-
-        const conversions = await calculateMultiCurrencyConversions(
-          paymentAmount,
-          paymentCurrency,
-          pledgeCurrency,
-          planCurrency,
-          null,
-          pendingPayment.paymentDate
-        );
+      const paymentAuditEntries: AuditEntry[] = [];
+
+      // Update related pending payments with comprehensive multi-currency support and third-party fields
+      if (validatedData.distributionType !== undefined ||
+        validatedData.installmentAmount !== undefined ||
+        validatedData.currency !== undefined ||
+        isUpdatingThirdPartyStatus) {
+
+        // Get all pending payments for this plan
+        const pendingPayments = await tx
+          .select()
+          .from(payment)
+          .where(
+            and(
+              eq(payment.paymentPlanId, planId),
+              eq(payment.paymentStatus, "pending")
+            )
+          );
 
-        const paymentUpdates: any = {
-          amountUsd: safeNumericString(conversions.amountUsd),
-          exchangeRate: safeNumericString(conversions.usdExchangeRate),
-          amountInPledgeCurrency: safeNumericString(conversions.amountInPledgeCurrency),
-          pledgeCurrencyExchangeRate: safeNumericString(conversions.pledgeCurrencyExchangeRate),
-          amountInPlanCurrency: safeNumericString(conversions.amountInPlanCurrency),
-          planCurrencyExchangeRate: safeNumericString(conversions.planCurrencyExchangeRate),
-        };
-
-        // Update third-party payment fields if they changed
-        if (isUpdatingThirdPartyStatus) {
-          paymentUpdates.isThirdPartyPayment = isThirdPartyPayment;
-          paymentUpdates.payerContactId = isThirdPartyPayment ? payerContactId : null;
-        }
+        // Determine the third-party configuration to apply
+        const isThirdPartyPayment = validatedData.isThirdPartyPayment ??
+          (currentThirdPartyStatus?.isThirdPartyPayment || false);
+        const thirdPartyContactId = validatedData.thirdPartyContactId ?? null;
+        const payerContactId = validatedData.payerContactId ??
+          (currentThirdPartyStatus?.payerContactId || null);
 
-        // Update payment method if provided
-        if (validatedData.paymentMethod !== undefined) {
-          paymentUpdates.paymentMethod = validatedData.paymentMethod;
-        }
-        if (validatedData.methodDetail !== undefined) {
-          paymentUpdates.methodDetail = validatedData.methodDetail;
-        }
+        // Update pending payments with new currency conversions and third-party fields
+        for (const pendingPayment of pendingPayments) {
+          const paymentAmount = pendingPayment.amount;
+          const paymentCurrency = pendingPayment.currency;
 
-        await db
-          .update(payment)
-          .set(paymentUpdates)
-          .where(eq(payment.id, pendingPayment.id));
-
-        // Log comprehensive currency conversions
-        if (conversions.amountUsd && paymentCurrency !== "USD" && conversions.usdExchangeRate) {
-          await logCurrencyConversion(
-            pendingPayment.id,
-            paymentCurrency,
-            "USD",
+          const conversions = await calculateMultiCurrencyConversions(
             paymentAmount,
-            conversions.amountUsd,
-            conversions.usdExchangeRate,
-            "plan_update_usd"
-          );
-        }
-
-        if (conversions.amountInPledgeCurrency !== paymentAmount && conversions.pledgeCurrencyExchangeRate) {
-          await logCurrencyConversion(
-            pendingPayment.id,
             paymentCurrency,
             pledgeCurrency,
-            paymentAmount,
-            conversions.amountInPledgeCurrency,
-            conversions.pledgeCurrencyExchangeRate,
-            "plan_update_pledge"
-          );
-        }
-
-        if (conversions.amountInPlanCurrency !== paymentAmount && conversions.planCurrencyExchangeRate) {
-          await logCurrencyConversion(
-            pendingPayment.id,
-            paymentCurrency,
             planCurrency,
-            paymentAmount,
-            conversions.amountInPlanCurrency,
-            conversions.planCurrencyExchangeRate,
-            "plan_update_plan"
+            null,
+            pendingPayment.paymentDate
           );
+
+          const paymentUpdates: any = {
+            amountUsd: conversions.amountUsd,
+            exchangeRate: conversions.usdExchangeRate ? formatRate(conversions.usdExchangeRate) : null,
+            amountInPledgeCurrency: conversions.amountInPledgeCurrency,
+            pledgeCurrencyExchangeRate: conversions.pledgeCurrencyExchangeRate
+              ? formatRate(conversions.pledgeCurrencyExchangeRate)
+              : null,
+            amountInPlanCurrency: conversions.amountInPlanCurrency,
+            planCurrencyExchangeRate: conversions.planCurrencyExchangeRate
+              ? formatRate(conversions.planCurrencyExchangeRate)
+              : null,
+          };
+
+          // Update third-party payment fields if they changed
+          if (isUpdatingThirdPartyStatus) {
+            paymentUpdates.isThirdPartyPayment = isThirdPartyPayment;
+            paymentUpdates.payerContactId = isThirdPartyPayment ? payerContactId : null;
+          }
+
+          // Update payment method if provided
+          if (validatedData.paymentMethod !== undefined) {
+            paymentUpdates.paymentMethod = validatedData.paymentMethod;
+          }
+          if (validatedData.methodDetail !== undefined) {
+            paymentUpdates.methodDetail = validatedData.methodDetail;
+          }
+
+          await tx
+            .update(payment)
+            .set(paymentUpdates)
+            .where(eq(payment.id, pendingPayment.id));
+
+          paymentAuditEntries.push({
+            action: "update",
+            entityType: "payment",
+            entityId: pendingPayment.id,
+            before: pendingPayment,
+            after: paymentUpdates,
+            note: `payment plan #${planId} updated`,
+          });
+
+          // Conversion logs go with the payment updates they describe
+          if (conversions.amountUsd && paymentCurrency !== "USD" && conversions.usdExchangeRate) {
+            await logCurrencyConversion(
+              tx,
+              pendingPayment.id,
+              paymentCurrency,
+              "USD",
+              paymentAmount,
+              conversions.amountUsd,
+              conversions.usdExchangeRate,
+              "plan_update_usd"
+            );
+          }
+
+          if (decimal(conversions.amountInPledgeCurrency).compare(paymentAmount) !== 0 && conversions.pledgeCurrencyExchangeRate) {
+            await logCurrencyConversion(
+              tx,
+              pendingPayment.id,
+              paymentCurrency,
+              pledgeCurrency,
+              paymentAmount,
+              conversions.amountInPledgeCurrency,
+              conversions.pledgeCurrencyExchangeRate,
+              "plan_update_pledge"
+            );
+          }
+
+          if (decimal(conversions.amountInPlanCurrency).compare(paymentAmount) !== 0 && conversions.planCurrencyExchangeRate) {
+            await logCurrencyConversion(
+              tx,
+              pendingPayment.id,
+              paymentCurrency,
+              planCurrency,
+              paymentAmount,
+              conversions.amountInPlanCurrency,
+              conversions.planCurrencyExchangeRate,
+              "plan_update_plan"
+            );
+          }
         }
       }
-    }
+
+      return { updatedPlan, paymentAuditEntries };
+    });
+
+    await recordAudit(
+      request,
+      { action: "update", entityType: "paymentPlan", entityId: planId, before: existingPlan, after: updatedPlan },
+      ...paymentAuditEntries
+    );
 
     return NextResponse.json({
       message: "Payment plan updated successfully",
@@ -1078,6 +1028,7 @@ export async function PATCH(
   } catch (error) {
     console.error("Error updating payment plan:", error);
 
+
     if (error instanceof z.ZodError) {
       return NextResponse.json(
         {
@@ -1093,12 +1044,12 @@ export async function PATCH(
 
     return ErrorHandler.handle(error);
   }
-}
+});
 
-export async function DELETE(
+export const DELETE = withAuth({ role: "user", location: { resource: "paymentPlan", param: "id" } }, async (
   request: NextRequest,
   { params }: { params: Promise<{ id: string }> }
-) {
+) => {
   try {
     const { id: planIdString } = await params;
     const planId = parseInt(planIdString, 10);
@@ -1145,33 +1096,50 @@ export async function DELETE(
       );
     }
 
-    // Delete related records in sequence (foreign key constraints)
-    // Delete currency conversion logs first
-    await db
-      .delete(currencyConversionLog)
-      .where(
-        sql`payment_id IN (SELECT id FROM ${payment} WHERE payment_plan_id = ${planId})`
-      );
+    const deletedPayments = await withTransaction(async (tx) => {
+      // Delete related records in sequence (foreign key constraints)
+      // Delete currency conversion logs first
+      await tx
+        .delete(currencyConversionLog)
+        .where(
+          sql`payment_id IN (SELECT id FROM ${payment} WHERE payment_plan_id = ${planId})`
+        );
 
-    // Delete installment schedules (this will cascade to related payments via foreign key)
-    await db
-      .delete(installmentSchedule)
-      .where(eq(installmentSchedule.paymentPlanId, planId));
+      // Delete installment schedules (this will cascade to related payments via foreign key)
+      await tx
+        .delete(installmentSchedule)
+        .where(eq(installmentSchedule.paymentPlanId, planId));
 
-    // Delete any remaining pending payments
-    await db
-      .delete(payment)
-      .where(
-        and(
-          eq(payment.paymentPlanId, planId),
-          eq(payment.paymentStatus, "pending")
+      // Delete any remaining pending payments
+      const deletedPayments = await tx
+        .delete(payment)
+        .where(
+          and(
+            eq(payment.paymentPlanId, planId),
+            eq(payment.paymentStatus, "pending")
+          )
         )
-      );
+        .returning();
+
+      // Finally delete the payment plan
+      await tx
+        .delete(paymentPlan)
+        .where(eq(paymentPlan.id, planId));
 
-    // Finally delete the payment plan
-    await db
-      .delete(paymentPlan)
-      .where(eq(paymentPlan.id, planId));
+      return deletedPayments;
+    });
+
+    await recordAudit(
+      request,
+      { action: "delete", entityType: "paymentPlan", entityId: planId, before: existingPlan },
+      ...deletedPayments.map((deleted) => ({
+        action: "delete" as const,
+        entityType: "payment" as const,
+        entityId: deleted.id,
+        before: deleted,
+        note: `deleted with payment plan #${planId}`,
+      }))
+    );
 
     return NextResponse.json({
       message: "Payment plan deleted successfully",
@@ -1182,4 +1150,4 @@ export async function DELETE(
     console.error("Error deleting payment plan:", error);
     return ErrorHandler.handle(error);
   }
-}
\ No newline at end of file
+});
\ No newline at end of file
@@ -1,6 +1,6 @@
 /* eslint-disable @typescript-eslint/no-explicit-any */
 import { NextRequest, NextResponse } from "next/server";
-import { db } from "@/lib/db";
+import { db, withTransaction, type Transaction } from "@/lib/db";
 import {
   paymentPlan,
   pledge,
@@ -8,22 +8,29 @@ import {
   payment,
   relationships,
   currencyConversionLog,
-  exchangeRate,
   contact,
-  PaymentPlan,
+  Payment,
   NewPaymentPlan,
   NewPayment,
   NewCurrencyConversionLog
 } from "@/lib/db/schema";
-import { sql, eq, and, desc } from "drizzle-orm";
+import { sql, eq, and } from "drizzle-orm";
 import { z } from "zod";
 import { ErrorHandler } from "@/lib/error-handler";
+import { withAuth, pledgeLocationFilter, recordLocation } from "@/lib/auth-guard";
+import { recordAudit } from "@/lib/audit-log";
+import { recurrenceRuleSchema } from "@/lib/form-schemas/recurrence-rule";
+import { planInstallmentDates } from "@/lib/payment-plans/schedule";
+import { getUsdToCurrencyRate } from "@/lib/payment-totals";
+import { assertActiveCurrency } from "@/lib/currencies/currencies";
+import { currencyCodeSchema } from "@/lib/form-schemas/currency";
+import { convertAmount, crossRate, decimal, formatRate, minorUnits, roundMoney, type Decimal, type DecimalInput } from "@/lib/money";
 
 // Zod schema for validating individual custom installments
 const installmentSchema = z.object({
   installmentDate: z.string().min(1, "Installment date is required"),
   installmentAmount: z.number().positive("Installment amount must be positive"),
-  currency: z.enum(["USD", "ILS", "EUR", "JPY", "GBP", "AUD", "CAD", "ZAR"]).optional(),
+  currency: currencyCodeSchema.optional(),
   installmentAmountUsd: z.number().optional().nullable(),
   notes: z.string().optional().nullable(),
   status: z.enum(["pending", "paid", "overdue", "cancelled"]).default("pending").optional(),
@@ -45,9 +52,10 @@ const paymentPlanSchema = z.object({
     "one_time",
     "custom",
   ]),
+  recurrenceRule: recurrenceRuleSchema.optional().nullable(),
   distributionType: z.enum(["fixed", "custom"]).default("fixed"),
   totalPlannedAmount: z.number().positive("Total planned amount must be positive"),
-  currency: z.enum(["USD", "ILS", "EUR", "JPY", "GBP", "AUD", "CAD", "ZAR"]),
+  currency: currencyCodeSchema,
   totalPlannedAmountUsd: z.number().optional().nullable(),
   installmentAmount: z.number().positive("Installment amount must be positive").optional(),
   installmentAmountUsd: z.number().optional().nullable(),
@@ -97,21 +105,6 @@ function safeConvert<T>(value: T | null | undefined): T | undefined {
   return value === null ? undefined : value;
 }
 
-/**
- * Helper function to safely convert number to proper string format for database
- */
-function safeNumericString(value: number | string | null | undefined): string | null {
-  if (value === null || value === undefined) return null;
-  if (typeof value === 'number') {
-    return Number.isFinite(value) ? value.toFixed(2) : null;
-  }
-  if (typeof value === 'string') {
-    const parsed = parseFloat(value);
-    return Number.isFinite(parsed) ? parsed.toFixed(2) : null;
-  }
-  return null;
-}
-
 /**
  * Helper function to safely parse exchange rate from string to number
  */
@@ -133,65 +126,17 @@ async function getExchangeRate(
   toCurrency: string,
   providedRate?: number | null,
   conversionDate?: string
-): Promise<number | null> {
-  if (fromCurrency === toCurrency) return 1;
-  if (providedRate) return providedRate;
+): Promise<Decimal | null> {
+  if (fromCurrency === toCurrency) return decimal(1);
+  if (providedRate) return decimal(providedRate);
 
   try {
     const targetDate = conversionDate || new Date().toISOString().split('T')[0];
 
-    // Try to get exact date first
-    let rateQuery = await db
-      .select({ rate: exchangeRate.rate })
-      .from(exchangeRate)
-      .where(
-        and(
-          eq(exchangeRate.baseCurrency, fromCurrency as any),
-          eq(exchangeRate.targetCurrency, toCurrency as any),
-          eq(exchangeRate.date, targetDate)
-        )
-      )
-      .limit(1);
-
-    // If no exact date, get most recent rate
-    if (!rateQuery.length) {
-      rateQuery = await db
-        .select({ rate: exchangeRate.rate })
-        .from(exchangeRate)
-        .where(
-          and(
-            eq(exchangeRate.baseCurrency, fromCurrency as any),
-            eq(exchangeRate.targetCurrency, toCurrency as any),
-            sql`${exchangeRate.date} <= ${targetDate}`
-          )
-        )
-        .orderBy(desc(exchangeRate.date))
-        .limit(1);
-    }
-
-    if (rateQuery.length) {
-      return parseFloat(rateQuery[0].rate.toString());
-    }
-
-    // Try reverse rate (toCurrency to fromCurrency)
-    rateQuery = await db
-      .select({ rate: exchangeRate.rate })
-      .from(exchangeRate)
-      .where(
-        and(
-          eq(exchangeRate.baseCurrency, toCurrency as any),
-          eq(exchangeRate.targetCurrency, fromCurrency as any),
-          sql`${exchangeRate.date} <= ${targetDate}`
-        )
-      )
-      .orderBy(desc(exchangeRate.date))
-      .limit(1);
-
-    if (rateQuery.length) {
-      return 1 / parseFloat(rateQuery[0].rate.toString());
-    }
-
-    return null;
+    // Stored rates are all quoted per USD, so cross rates go through it
+    const usdToFromRate = await getUsdToCurrencyRate(fromCurrency, targetDate);
+    const usdToToRate = await getUsdToCurrencyRate(toCurrency, targetDate);
+    return usdToFromRate && usdToToRate ? crossRate(usdToFromRate, usdToToRate) : null;
   } catch (error) {
     console.warn("Failed to get exchange rate from database:", error);
     return null;
@@ -202,30 +147,31 @@ async function getExchangeRate(
  * Enhanced multi-currency conversion helper
  */
 async function calculateMultiCurrencyConversions(
-  amount: number,
+  amount: DecimalInput,
   paymentCurrency: string,
   pledgeCurrency: string,
   planCurrency: string,
   providedExchangeRate?: number | null,
   conversionDate?: string
 ) {
+  const unconverted = roundMoney(amount, paymentCurrency);
   const conversions = {
-    amountUsd: null as number | null,
-    amountInPledgeCurrency: amount,
-    pledgeCurrencyExchangeRate: null as number | null,
-    amountInPlanCurrency: amount,
-    planCurrencyExchangeRate: null as number | null,
-    usdExchangeRate: null as number | null,
+    amountUsd: null as string | null,
+    amountInPledgeCurrency: unconverted,
+    pledgeCurrencyExchangeRate: null as Decimal | null,
+    amountInPlanCurrency: unconverted,
+    planCurrencyExchangeRate: null as Decimal | null,
+    usdExchangeRate: null as Decimal | null,
   };
 
   // Calculate USD amount
   if (paymentCurrency === "USD") {
-    conversions.amountUsd = amount;
-    conversions.usdExchangeRate = 1;
+    conversions.amountUsd = unconverted;
+    conversions.usdExchangeRate = decimal(1);
   } else {
     const usdRate = await getExchangeRate(paymentCurrency, "USD", providedExchangeRate, conversionDate);
     if (usdRate) {
-      conversions.amountUsd = amount * usdRate;
+      conversions.amountUsd = convertAmount(amount, usdRate, "USD");
       conversions.usdExchangeRate = usdRate;
     }
   }
@@ -234,89 +180,48 @@ async function calculateMultiCurrencyConversions(
   if (paymentCurrency !== pledgeCurrency) {
     const pledgeRate = await getExchangeRate(paymentCurrency, pledgeCurrency, null, conversionDate);
     if (pledgeRate) {
-      conversions.amountInPledgeCurrency = amount * pledgeRate;
+      conversions.amountInPledgeCurrency = convertAmount(amount, pledgeRate, pledgeCurrency);
       conversions.pledgeCurrencyExchangeRate = pledgeRate;
     } else if (conversions.amountUsd && pledgeCurrency !== "USD") {
       // Try USD as intermediate currency
       const usdToPledgeRate = await getExchangeRate("USD", pledgeCurrency, null, conversionDate);
       if (usdToPledgeRate) {
-        conversions.amountInPledgeCurrency = conversions.amountUsd * usdToPledgeRate;
-        conversions.pledgeCurrencyExchangeRate = (conversions.usdExchangeRate || 1) * usdToPledgeRate;
+        conversions.amountInPledgeCurrency = convertAmount(conversions.amountUsd, usdToPledgeRate, pledgeCurrency);
+        conversions.pledgeCurrencyExchangeRate = (conversions.usdExchangeRate ?? decimal(1)).times(usdToPledgeRate);
       }
     }
   } else {
-    conversions.amountInPledgeCurrency = amount;
-    conversions.pledgeCurrencyExchangeRate = 1;
+    conversions.pledgeCurrencyExchangeRate = decimal(1);
   }
 
   // Calculate plan currency amount
   if (paymentCurrency !== planCurrency) {
     const planRate = await getExchangeRate(paymentCurrency, planCurrency, null, conversionDate);
     if (planRate) {
-      conversions.amountInPlanCurrency = amount * planRate;
+      conversions.amountInPlanCurrency = convertAmount(amount, planRate, planCurrency);
       conversions.planCurrencyExchangeRate = planRate;
     } else if (conversions.amountUsd && planCurrency !== "USD") {
       // Try USD as intermediate currency
       const usdToPlanRate = await getExchangeRate("USD", planCurrency, null, conversionDate);
       if (usdToPlanRate) {
-        conversions.amountInPlanCurrency = conversions.amountUsd * usdToPlanRate;
-        conversions.planCurrencyExchangeRate = (conversions.usdExchangeRate || 1) * usdToPlanRate;
+        conversions.amountInPlanCurrency = convertAmount(conversions.amountUsd, usdToPlanRate, planCurrency);
+        conversions.planCurrencyExchangeRate = (conversions.usdExchangeRate ?? decimal(1)).times(usdToPlanRate);
       }
     }
   } else {
-    conversions.amountInPlanCurrency = amount;
-    conversions.planCurrencyExchangeRate = 1;
+    conversions.planCurrencyExchangeRate = decimal(1);
   }
 
   return conversions;
 }
 
-/**
- * Helper function to calculate installment dates based on frequency
- */
-function calculateInstallmentDates(startDate: string, frequency: string, numberOfInstallments: number): string[] {
-  const dates: string[] = [];
-  const start = new Date(startDate);
-
-  for (let i = 0; i < numberOfInstallments; i++) {
-    const installmentDate = new Date(start);
-
-    switch (frequency) {
-      case "weekly":
-        installmentDate.setDate(start.getDate() + (i * 7));
-        break;
-      case "monthly":
-        installmentDate.setMonth(start.getMonth() + i);
-        break;
-      case "quarterly":
-        installmentDate.setMonth(start.getMonth() + (i * 3));
-        break;
-      case "biannual":
-        installmentDate.setMonth(start.getMonth() + (i * 6));
-        break;
-      case "annual":
-        installmentDate.setFullYear(start.getFullYear() + i);
-        break;
-      case "one_time":
-        installmentDate.setTime(start.getTime());
-        break;
-      default:
-        installmentDate.setTime(start.getTime());
-    }
-
-    dates.push(installmentDate.toISOString().split('T')[0]);
-  }
-
-  return dates;
-}
-
 /**
  * Validation function for payment data before database insertion
  */
 function validatePaymentData(payment: NewPayment): string[] {
   const errors: string[] = [];
 
-  if (!payment.amount || parseFloat(payment.amount) <= 0) {
+  if (!payment.amount || !decimal(payment.amount).isPositive()) {
     errors.push("Amount must be a positive number");
   }
 
@@ -349,8 +254,8 @@ async function createScheduledPayment(
   paymentPlanId: number,
   pledgeCurrency: string,
   planCurrency: string,
-  installmentAmount: number,
-  installmentAmountUsd?: number | null,
+  installmentAmount: DecimalInput,
+  installmentAmountUsd?: DecimalInput | null,
   customNotes?: string | null,
   isThirdParty: boolean = false,
   payerContactId?: number | null,
@@ -372,7 +277,7 @@ async function createScheduledPayment(
 
   // Use form-provided USD amount or calculated amount
   const finalUsdAmount = installmentAmountUsd !== null && installmentAmountUsd !== undefined
-    ? installmentAmountUsd
+    ? roundMoney(installmentAmountUsd, "USD")
     : conversions.amountUsd;
 
   return {
@@ -386,20 +291,20 @@ async function createScheduledPayment(
     isThirdPartyPayment: isThirdParty,
 
     // Core payment amount and currency
-    amount: safeNumericString(installmentAmount)!,
+    amount: roundMoney(installmentAmount, paymentCurrency),
     currency: paymentCurrency,
 
     // USD conversion (for reporting)
-    amountUsd: safeNumericString(finalUsdAmount),
-    exchangeRate: safeNumericString(conversions.usdExchangeRate),
+    amountUsd: finalUsdAmount,
+    exchangeRate: conversions.usdExchangeRate ? formatRate(conversions.usdExchangeRate) : null,
 
     // Pledge currency conversion (for pledge balance calculations)
-    amountInPledgeCurrency: safeNumericString(conversions.amountInPledgeCurrency),
-    pledgeCurrencyExchangeRate: safeNumericString(conversions.pledgeCurrencyExchangeRate),
+    amountInPledgeCurrency: conversions.amountInPledgeCurrency,
+    pledgeCurrencyExchangeRate: conversions.pledgeCurrencyExchangeRate ? formatRate(conversions.pledgeCurrencyExchangeRate) : null,
 
     // Plan currency conversion (for plan tracking)
-    amountInPlanCurrency: safeNumericString(conversions.amountInPlanCurrency),
-    planCurrencyExchangeRate: safeNumericString(conversions.planCurrencyExchangeRate),
+    amountInPlanCurrency: conversions.amountInPlanCurrency,
+    planCurrencyExchangeRate: conversions.planCurrencyExchangeRate ? formatRate(conversions.planCurrencyExchangeRate) : null,
 
     // Required payment fields
     paymentDate: paymentDate,
@@ -423,49 +328,50 @@ async function createScheduledPayment(
 }
 
 /**
- * Helper function to log currency conversions
+ * Helper function to log currency conversions, in the transaction that
+ * creates the payment
  */
 async function logCurrencyConversion(
+  tx: Transaction,
   paymentId: number,
   fromCurrency: string,
   toCurrency: string,
-  fromAmount: number,
-  toAmount: number,
-  exchangeRate: number,
+  fromAmount: string,
+  toAmount: string,
+  exchangeRate: string,
   conversionType: string
 ): Promise<void> {
-  if (fromCurrency === toCurrency || !toAmount || !exchangeRate) return;
+  if (fromCurrency === toCurrency || decimal(toAmount).isZero() || decimal(exchangeRate).isZero()) return;
 
   const conversionLog: NewCurrencyConversionLog = {
     paymentId,
-    fromCurrency: fromCurrency as any,
-    toCurrency: toCurrency as any,
-    fromAmount: safeNumericString(fromAmount)!,
-    toAmount: safeNumericString(toAmount)!,
-    exchangeRate: safeNumericString(exchangeRate)!,
+    fromCurrency,
+    toCurrency,
+    fromAmount,
+    toAmount,
+    exchangeRate: formatRate(exchangeRate),
     conversionDate: new Date().toISOString().split('T')[0],
     conversionType,
   };
 
-  try {
-    await db.insert(currencyConversionLog).values(conversionLog);
-  } catch (error) {
-    console.warn("Failed to log currency conversion:", error);
-  }
+  await tx.insert(currencyConversionLog).values(conversionLog);
 }
 
 /**
  * Handles POST requests to create a new payment plan with third-party payment support.
  */
-export async function POST(request: NextRequest) {
-  let createdPaymentPlan: PaymentPlan | null = null;
-  let paymentPlanIdToDelete: number | null = null;
-  let createdInstallmentIds: number[] = [];
-  let createdPaymentIds: number[] = [];
-
+export const POST = withAuth({
+  role: "user",
+  location: [
+    { resource: "pledge", body: "pledgeId" },
+    { resource: "contact", body: "thirdPartyContactId" },
+    { resource: "relationship", body: "relationshipId" },
+  ],
+}, async (request: NextRequest) => {
   try {
     const body = await request.json();
     const validatedData = paymentPlanSchema.parse(body);
+    await assertActiveCurrency(validatedData.currency, await recordLocation("pledge", validatedData.pledgeId));
 
     // Validate third-party contact exists if this is a third-party payment
     if (validatedData.isThirdPartyPayment && validatedData.thirdPartyContactId) {
@@ -572,25 +478,26 @@ export async function POST(request: NextRequest) {
         );
       }
 
-      const totalPlannedAmount = validatedData.totalPlannedAmount;
+      const currency = validatedData.currency;
+      const totalPlannedAmount = decimal(validatedData.totalPlannedAmount);
       const numberOfInstallments = validatedData.numberOfInstallments;
-      const installmentAmount = validatedData.installmentAmount;
+      const installmentAmount = decimal(validatedData.installmentAmount);
 
       // Calculate the correct installment amount
-      const correctInstallmentAmount = Math.round((totalPlannedAmount / numberOfInstallments) * 100) / 100;
-      const calculatedTotal = installmentAmount * numberOfInstallments;
-      const difference = Math.abs(calculatedTotal - totalPlannedAmount);
+      const correctInstallmentAmount = totalPlannedAmount.dividedBy(numberOfInstallments);
+      const calculatedTotal = installmentAmount.times(numberOfInstallments);
+      const difference = calculatedTotal.minus(totalPlannedAmount).abs();
 
-      // Allow tolerance of 1 cent per installment
-      const tolerance = numberOfInstallments * 0.01;
+      // Allow tolerance of one minor unit per installment
+      const tolerance = decimal(numberOfInstallments).dividedBy(10 ** minorUnits(currency));
 
-      if (difference > tolerance) {
+      if (difference.compare(tolerance) > 0) {
         return NextResponse.json(
           {
             error: "Validation failed",
             details: [{
               field: "installmentAmount",
-              message: `Total mismatch: ${numberOfInstallments} × ${installmentAmount.toFixed(2)} = ${calculatedTotal.toFixed(2)}, but total should be ${totalPlannedAmount.toFixed(2)}. Suggested installment amount: ${correctInstallmentAmount.toFixed(2)}`
+              message: `Total mismatch: ${numberOfInstallments} × ${installmentAmount.toMoney(currency)} = ${calculatedTotal.toMoney(currency)}, but total should be ${totalPlannedAmount.toMoney(currency)}. Suggested installment amount: ${correctInstallmentAmount.toMoney(currency)}`
             }]
           },
           { status: 400 }
@@ -643,13 +550,13 @@ export async function POST(request: NextRequest) {
     if (validatedData.distributionType === "custom") {
       // For custom distribution, use provided values directly
       finalNumberOfInstallments = validatedData.customInstallments!.length;
-      finalTotalPlannedAmount = validatedData.totalPlannedAmount.toFixed(2);
-      finalInstallmentAmount = validatedData.installmentAmount?.toFixed(2) || "0.00";
+      finalTotalPlannedAmount = roundMoney(validatedData.totalPlannedAmount, validatedData.currency);
+      finalInstallmentAmount = roundMoney(validatedData.installmentAmount ?? 0, validatedData.currency);
     } else {
       // For fixed distribution, use provided values directly
-      finalInstallmentAmount = validatedData.installmentAmount!.toFixed(2);
+      finalInstallmentAmount = roundMoney(validatedData.installmentAmount!, validatedData.currency);
       finalNumberOfInstallments = validatedData.numberOfInstallments!;
-      finalTotalPlannedAmount = validatedData.totalPlannedAmount.toFixed(2);
+      finalTotalPlannedAmount = roundMoney(validatedData.totalPlannedAmount, validatedData.currency);
     }
 
     // Calculate USD amounts using proper exchange rates
@@ -660,7 +567,7 @@ export async function POST(request: NextRequest) {
     if (validatedData.currency === "USD") {
       totalPlannedAmountUsd = finalTotalPlannedAmount;
       installmentAmountUsd = finalInstallmentAmount;
-      effectiveExchangeRate = "1.00";
+      effectiveExchangeRate = formatRate(1);
     } else {
       const usdRate = await getExchangeRate(
         validatedData.currency,
@@ -670,19 +577,19 @@ export async function POST(request: NextRequest) {
       );
 
       if (usdRate) {
-        totalPlannedAmountUsd = (validatedData.totalPlannedAmount * usdRate).toFixed(2);
+        totalPlannedAmountUsd = convertAmount(validatedData.totalPlannedAmount, usdRate, "USD");
         if (validatedData.installmentAmount) {
-          installmentAmountUsd = (validatedData.installmentAmount * usdRate).toFixed(2);
+          installmentAmountUsd = convertAmount(validatedData.installmentAmount, usdRate, "USD");
         }
-        effectiveExchangeRate = usdRate.toFixed(4);
+        effectiveExchangeRate = formatRate(usdRate);
       } else if (validatedData.totalPlannedAmountUsd) {
         // Use provided USD amounts if exchange rate calculation fails
-        totalPlannedAmountUsd = validatedData.totalPlannedAmountUsd.toFixed(2);
+        totalPlannedAmountUsd = roundMoney(validatedData.totalPlannedAmountUsd, "USD");
         if (validatedData.installmentAmountUsd) {
-          installmentAmountUsd = validatedData.installmentAmountUsd.toFixed(2);
+          installmentAmountUsd = roundMoney(validatedData.installmentAmountUsd, "USD");
         }
         if (validatedData.exchangeRate) {
-          effectiveExchangeRate = validatedData.exchangeRate.toFixed(4);
+          effectiveExchangeRate = formatRate(validatedData.exchangeRate);
         }
       }
     }
@@ -693,6 +600,7 @@ export async function POST(request: NextRequest) {
       relationshipId: validatedData.relationshipId || null,
       planName: validatedData.planName || null,
       frequency: validatedData.frequency,
+      recurrenceRule: validatedData.recurrenceRule ?? null,
       distributionType: validatedData.distributionType,
       totalPlannedAmount: finalTotalPlannedAmount,
       currency: validatedData.currency,
@@ -718,197 +626,165 @@ export async function POST(request: NextRequest) {
       exchangeRate: effectiveExchangeRate,
     };
 
-    // Insert the new payment plan
-    const paymentPlanResult = await db
-      .insert(paymentPlan)
-      .values(newPaymentPlanData)
-      .returning();
-
-    if (paymentPlanResult.length === 0) {
-      throw new Error("Failed to create payment plan record in database. No record returned.");
-    }
-
-    createdPaymentPlan = paymentPlanResult[0];
-    paymentPlanIdToDelete = createdPaymentPlan.id;
-
     // Determine payment configuration for third-party vs regular payments
     const isThirdPartyPayment = validatedData.isThirdPartyPayment;
     const payerContactId = validatedData.payerContactId; // Contact making the payment
     const thirdPartyContactId = validatedData.thirdPartyContactId; // Contact whose pledge this is for
 
-    // Handle installment schedules and scheduled payments based on distribution type
-    if (validatedData.distributionType === "custom" && validatedData.customInstallments) {
-      // Custom distribution - insert custom installment schedules and payments
-      const installmentsToInsert = [];
-
-      for (const inst of validatedData.customInstallments) {
-        const instCurrency = inst.currency || validatedData.currency;
-        let instAmountUsd: string | null = null;
-
-        if (instCurrency === "USD") {
-          instAmountUsd = inst.installmentAmount.toFixed(2);
-        } else if (inst.installmentAmountUsd) {
-          instAmountUsd = inst.installmentAmountUsd.toFixed(2);
-        } else {
-          // Calculate USD amount for this installment
-          const usdRate = await getExchangeRate(instCurrency, "USD", null, inst.installmentDate); // Pass null
-          if (usdRate) {
-            instAmountUsd = (inst.installmentAmount * usdRate).toFixed(2);
-          }
-        }
+    const fixedInstallmentDates = planInstallmentDates(
+      validatedData.startDate,
+      validatedData.frequency,
+      finalNumberOfInstallments,
+      validatedData.recurrenceRule
+    );
+    if (validatedData.distributionType === "fixed" && fixedInstallmentDates.length < finalNumberOfInstallments) {
+      return NextResponse.json(
+        {
+          error: "Validation failed",
+          details: [{
+            field: "recurrenceRule",
+            message: `The recurrence rule only yields ${fixedInstallmentDates.length} of ${finalNumberOfInstallments} installment dates`,
+          }],
+        },
+        { status: 400 }
+      );
+    }
+
+    // Plan, installments and scheduled payments are created together or not at all
+    const { createdPaymentPlan, scheduledPaymentRecords } = await withTransaction(async (tx) => {
+      // Insert the new payment plan
+      const paymentPlanResult = await tx
+        .insert(paymentPlan)
+        .values(newPaymentPlanData)
+        .returning();
 
-        installmentsToInsert.push({
-          paymentPlanId: createdPaymentPlan!.id,
-          installmentDate: inst.installmentDate,
-          installmentAmount: safeNumericString(inst.installmentAmount)!,
-          currency: instCurrency,
-          installmentAmountUsd: instAmountUsd,
-          notes: inst.notes || null,
-        });
+      if (paymentPlanResult.length === 0) {
+        throw new Error("Failed to create payment plan record in database. No record returned.");
       }
 
-      const installmentResults = await db.insert(installmentSchedule).values(installmentsToInsert).returning();
-      createdInstallmentIds = installmentResults.map(inst => inst.id);
-
-      // Create scheduled payments for each custom installment (all as third-party if specified)
-      const scheduledPayments: NewPayment[] = [];
-      for (let i = 0; i < installmentResults.length; i++) {
-        const installmentRecord = installmentResults[i];
-        const customInstallment = validatedData.customInstallments[i];
-
-        const scheduledPayment = await createScheduledPayment(
-          installmentRecord,
-          validatedData,
-          validatedData.pledgeId,
-          createdPaymentPlan.id,
-          pledgeCurrency,
-          validatedData.currency, // plan currency
-          customInstallment.installmentAmount,
-          safeConvert(customInstallment.installmentAmountUsd),
-          customInstallment.notes,
-          isThirdPartyPayment,
-          payerContactId,
-          thirdPartyContactId
-        );
+      const createdPaymentPlan = paymentPlanResult[0];
+      let scheduledPaymentRecords: Payment[] = [];
+
+      // Handle installment schedules and scheduled payments based on distribution type
+      if (validatedData.distributionType === "custom" && validatedData.customInstallments) {
+        // Custom distribution - insert custom installment schedules and payments
+        const installmentsToInsert = [];
+
+        for (const inst of validatedData.customInstallments) {
+          const instCurrency = inst.currency || validatedData.currency;
+          let instAmountUsd: string | null = null;
+
+          if (instCurrency === "USD") {
+            instAmountUsd = roundMoney(inst.installmentAmount, "USD");
+          } else if (inst.installmentAmountUsd) {
+            instAmountUsd = roundMoney(inst.installmentAmountUsd, "USD");
+          } else {
+            // Calculate USD amount for this installment
+            const usdRate = await getExchangeRate(instCurrency, "USD", null, inst.installmentDate); // Pass null
+            if (usdRate) {
+              instAmountUsd = convertAmount(inst.installmentAmount, usdRate, "USD");
+            }
+          }
 
-        // Validate payment data before adding
-        const validationErrors = validatePaymentData(scheduledPayment);
-        if (validationErrors.length > 0) {
-          throw new Error(`Payment validation failed for installment ${i + 1}: ${validationErrors.join(', ')}`);
+          installmentsToInsert.push({
+            paymentPlanId: createdPaymentPlan.id,
+            installmentDate: inst.installmentDate,
+            installmentAmount: roundMoney(inst.installmentAmount, instCurrency),
+            currency: instCurrency,
+            installmentAmountUsd: instAmountUsd,
+            notes: inst.notes || null,
+          });
         }
 
-        scheduledPayments.push(scheduledPayment);
-      }
-
-      const paymentResults = await db.insert(payment).values(scheduledPayments).returning();
-      createdPaymentIds = paymentResults.map(p => p.id);
+        const installmentResults = await tx.insert(installmentSchedule).values(installmentsToInsert).returning();
 
-      // Log currency conversions for custom installments
-      for (let i = 0; i < paymentResults.length; i++) {
-        const paymentRecord = paymentResults[i];
-        const customInstallment = validatedData.customInstallments[i];
+        // Create scheduled payments for each custom installment (all as third-party if specified)
+        const scheduledPayments: NewPayment[] = [];
+        for (let i = 0; i < installmentResults.length; i++) {
+          const installmentRecord = installmentResults[i];
+          const customInstallment = validatedData.customInstallments[i];
 
-        // Log USD conversion
-        if (paymentRecord.amountUsd && paymentRecord.currency !== "USD" && paymentRecord.exchangeRate) {
-          await logCurrencyConversion(
-            paymentRecord.id,
-            paymentRecord.currency,
-            "USD",
-            customInstallment.installmentAmount,
-            parseFloat(paymentRecord.amountUsd),
-            parseFloat(paymentRecord.exchangeRate),
-            "usd_reporting"
-          );
-        }
-
-        // Log pledge currency conversion
-        if (paymentRecord.amountInPledgeCurrency && paymentRecord.currency !== pledgeCurrency && paymentRecord.pledgeCurrencyExchangeRate) {
-          await logCurrencyConversion(
-            paymentRecord.id,
-            paymentRecord.currency,
+          const scheduledPayment = await createScheduledPayment(
+            installmentRecord,
+            validatedData,
+            validatedData.pledgeId,
+            createdPaymentPlan.id,
             pledgeCurrency,
+            validatedData.currency, // plan currency
             customInstallment.installmentAmount,
-            parseFloat(paymentRecord.amountInPledgeCurrency),
-            parseFloat(paymentRecord.pledgeCurrencyExchangeRate),
-            "pledge_balance"
+            safeConvert(customInstallment.installmentAmountUsd),
+            customInstallment.notes,
+            isThirdPartyPayment,
+            payerContactId,
+            thirdPartyContactId
           );
-        }
 
-        // Log plan currency conversion
-        if (paymentRecord.amountInPlanCurrency && paymentRecord.currency !== validatedData.currency && paymentRecord.planCurrencyExchangeRate) {
-          await logCurrencyConversion(
-            paymentRecord.id,
-            paymentRecord.currency,
-            validatedData.currency,
-            customInstallment.installmentAmount,
-            parseFloat(paymentRecord.amountInPlanCurrency),
-            parseFloat(paymentRecord.planCurrencyExchangeRate),
-            "plan_tracking"
-          );
+          // Validate payment data before adding
+          const validationErrors = validatePaymentData(scheduledPayment);
+          if (validationErrors.length > 0) {
+            throw new Error(`Payment validation failed for installment ${i + 1}: ${validationErrors.join(', ')}`);
+          }
+
+          scheduledPayments.push(scheduledPayment);
         }
-      }
 
-    } else {
-      // Fixed distribution - calculate installment dates and create schedules and payments
-      const installmentDates = calculateInstallmentDates(
-        validatedData.startDate,
-        validatedData.frequency,
-        finalNumberOfInstallments
-      );
+        scheduledPaymentRecords = await tx.insert(payment).values(scheduledPayments).returning();
+      } else {
+        // Fixed distribution - calculate installment dates and create schedules and payments
+        const installmentsToInsert = fixedInstallmentDates.map((date) => ({
+          paymentPlanId: createdPaymentPlan.id,
+          installmentDate: date,
+          installmentAmount: finalInstallmentAmount,
+          currency: createdPaymentPlan.currency,
+          installmentAmountUsd: installmentAmountUsd || null,
+          notes: null,
+        }));
+
+        const installmentResults = await tx.insert(installmentSchedule).values(installmentsToInsert).returning();
+
+        // Create scheduled payments for each fixed installment (all as third-party if specified)
+        const scheduledPayments: NewPayment[] = [];
+        for (const installmentRecord of installmentResults) {
+          const scheduledPayment = await createScheduledPayment(
+            installmentRecord,
+            validatedData,
+            validatedData.pledgeId,
+            createdPaymentPlan.id,
+            pledgeCurrency,
+            validatedData.currency, // plan currency
+            finalInstallmentAmount,
+            installmentAmountUsd,
+            null,
+            isThirdPartyPayment,
+            payerContactId,
+            thirdPartyContactId
+          );
 
-      const installmentsToInsert = installmentDates.map((date) => ({
-        paymentPlanId: createdPaymentPlan!.id,
-        installmentDate: date,
-        installmentAmount: finalInstallmentAmount,
-        currency: createdPaymentPlan!.currency,
-        installmentAmountUsd: installmentAmountUsd || null,
-        notes: null,
-      }));
-
-      const installmentResults = await db.insert(installmentSchedule).values(installmentsToInsert).returning();
-      createdInstallmentIds = installmentResults.map(inst => inst.id);
-
-      // Create scheduled payments for each fixed installment (all as third-party if specified)
-      const scheduledPayments: NewPayment[] = [];
-      for (const installmentRecord of installmentResults) {
-        const scheduledPayment = await createScheduledPayment(
-          installmentRecord,
-          validatedData,
-          validatedData.pledgeId,
-          createdPaymentPlan.id,
-          pledgeCurrency,
-          validatedData.currency, // plan currency
-          parseFloat(finalInstallmentAmount),
-          installmentAmountUsd ? parseFloat(installmentAmountUsd) : null,
-          null,
-          isThirdPartyPayment,
-          payerContactId,
-          thirdPartyContactId
-        );
+          // Validate payment data before adding
+          const validationErrors = validatePaymentData(scheduledPayment);
+          if (validationErrors.length > 0) {
+            throw new Error(`Payment validation failed: ${validationErrors.join(', ')}`);
+          }
 
-        // Validate payment data before adding
-        const validationErrors = validatePaymentData(scheduledPayment);
-        if (validationErrors.length > 0) {
-          throw new Error(`Payment validation failed: ${validationErrors.join(', ')}`);
+          scheduledPayments.push(scheduledPayment);
         }
 
-        scheduledPayments.push(scheduledPayment);
+        scheduledPaymentRecords = await tx.insert(payment).values(scheduledPayments).returning();
       }
 
-      const paymentResults = await db.insert(payment).values(scheduledPayments).returning();
-      createdPaymentIds = paymentResults.map(p => p.id);
+      // Conversion logs go with the payments they describe
+      for (const paymentRecord of scheduledPaymentRecords) {
 
-      // Log currency conversions for fixed installments
-      for (const paymentRecord of paymentResults) {
         // Log USD conversion
         if (paymentRecord.amountUsd && paymentRecord.currency !== "USD" && paymentRecord.exchangeRate) {
           await logCurrencyConversion(
+            tx,
             paymentRecord.id,
             paymentRecord.currency,
             "USD",
-            parseFloat(finalInstallmentAmount),
-            parseFloat(paymentRecord.amountUsd),
-            parseFloat(paymentRecord.exchangeRate),
+            paymentRecord.amount,
+            paymentRecord.amountUsd,
+            paymentRecord.exchangeRate,
             "usd_reporting"
           );
         }
@@ -916,12 +792,13 @@ export async function POST(request: NextRequest) {
         // Log pledge currency conversion
         if (paymentRecord.amountInPledgeCurrency && paymentRecord.currency !== pledgeCurrency && paymentRecord.pledgeCurrencyExchangeRate) {
           await logCurrencyConversion(
+            tx,
             paymentRecord.id,
             paymentRecord.currency,
             pledgeCurrency,
-            parseFloat(finalInstallmentAmount),
-            parseFloat(paymentRecord.amountInPledgeCurrency),
-            parseFloat(paymentRecord.pledgeCurrencyExchangeRate),
+            paymentRecord.amount,
+            paymentRecord.amountInPledgeCurrency,
+            paymentRecord.pledgeCurrencyExchangeRate,
             "pledge_balance"
           );
         }
@@ -929,17 +806,31 @@ export async function POST(request: NextRequest) {
         // Log plan currency conversion
         if (paymentRecord.amountInPlanCurrency && paymentRecord.currency !== validatedData.currency && paymentRecord.planCurrencyExchangeRate) {
           await logCurrencyConversion(
+            tx,
             paymentRecord.id,
             paymentRecord.currency,
             validatedData.currency,
-            parseFloat(finalInstallmentAmount),
-            parseFloat(paymentRecord.amountInPlanCurrency),
-            parseFloat(paymentRecord.planCurrencyExchangeRate),
+            paymentRecord.amount,
+            paymentRecord.amountInPlanCurrency,
+            paymentRecord.planCurrencyExchangeRate,
             "plan_tracking"
           );
         }
       }
-    }
+
+      return { createdPaymentPlan, scheduledPaymentRecords };
+    });
+
+    await recordAudit(
+      request,
+      { action: "create", entityType: "paymentPlan", entityId: createdPaymentPlan.id, after: createdPaymentPlan },
+      ...scheduledPaymentRecords.map((record) => ({
+        action: "create" as const,
+        entityType: "payment" as const,
+        entityId: record.id,
+        note: `scheduled by payment plan #${createdPaymentPlan.id}`,
+      }))
+    );
 
     // All operations successful
     const successMessage = isThirdPartyPayment
@@ -950,7 +841,7 @@ export async function POST(request: NextRequest) {
       {
         message: successMessage,
         paymentPlan: createdPaymentPlan,
-        scheduledPaymentsCount: createdPaymentIds.length,
+        scheduledPaymentsCount: scheduledPaymentRecords.length,
         isThirdPartyPayment,
         thirdPartyContactId,
         payerContactId,
@@ -959,39 +850,6 @@ export async function POST(request: NextRequest) {
     );
 
   } catch (error) {
-    // Enhanced Manual Rollback Logic for Partial Failures
-    console.warn("Error occurred during payment plan creation. Attempting rollback...");
-
-    // Rollback payments first (due to foreign key constraints)
-    if (createdPaymentIds.length > 0) {
-      try {
-        await db.delete(payment).where(sql`id = ANY(${createdPaymentIds})`);
-        console.warn(`Successfully rolled back ${createdPaymentIds.length} scheduled payments.`);
-      } catch (rollbackError) {
-        console.error(`CRITICAL: Failed to rollback scheduled payments (IDs: ${createdPaymentIds.join(', ')}). Data inconsistency possible!`, rollbackError);
-      }
-    }
-
-    // Rollback installment schedules
-    if (createdInstallmentIds.length > 0) {
-      try {
-        await db.delete(installmentSchedule).where(sql`id = ANY(${createdInstallmentIds})`);
-        console.warn(`Successfully rolled back ${createdInstallmentIds.length} installment schedules.`);
-      } catch (rollbackError) {
-        console.error(`CRITICAL: Failed to rollback installment schedules (IDs: ${createdInstallmentIds.join(', ')}). Data inconsistency possible!`, rollbackError);
-      }
-    }
-
-    // Rollback payment plan
-    if (paymentPlanIdToDelete) {
-      try {
-        await db.delete(paymentPlan).where(eq(paymentPlan.id, paymentPlanIdToDelete));
-        console.warn(`Successfully rolled back payment plan (ID: ${paymentPlanIdToDelete}).`);
-      } catch (rollbackError) {
-        console.error(`CRITICAL: Failed to rollback payment plan (ID: ${paymentPlanIdToDelete}). Data inconsistency possible!`, rollbackError);
-      }
-    }
-
     // Error Response Handling
     if (error instanceof z.ZodError) {
       console.error("Validation error during payment plan creation:", error.issues);
@@ -1052,7 +910,7 @@ export async function POST(request: NextRequest) {
     console.error("Unhandled general error creating payment plan:", error);
     return ErrorHandler.handle(error);
   }
-}
+});
 
 // GET Endpoint (unchanged from original)
 const querySchema = z.object({
@@ -1077,7 +935,7 @@ const querySchema = z.object({
   distributionType: z.enum(["fixed", "custom"]).optional(),
 });
 
-export async function GET(request: NextRequest) {
+export const GET = withAuth({ role: "user", location: [{ resource: "contact", query: "contactId" }, { resource: "pledge", query: "pledgeId" }] }, async (request, _context, auth) => {
   try {
     const { searchParams } = new URL(request.url);
     const parsedParams = querySchema.safeParse({
@@ -1112,6 +970,9 @@ export async function GET(request: NextRequest) {
     const offset = (page - 1) * limit;
     const conditions = [];
 
+    const locationCondition = pledgeLocationFilter(auth, paymentPlan.pledgeId);
+    if (locationCondition) conditions.push(locationCondition);
+
     if (pledgeId) {
       conditions.push(eq(paymentPlan.pledgeId, pledgeId));
     }
@@ -1169,6 +1030,7 @@ export async function GET(request: NextRequest) {
         remainingAmountUsd: paymentPlan.remainingAmountUsd,
         planStatus: paymentPlan.planStatus,
         autoRenew: paymentPlan.autoRenew,
+        savedPaymentMethodId: paymentPlan.savedPaymentMethodId,
         currencyPriority: paymentPlan.currencyPriority,
         isActive: paymentPlan.isActive,
         notes: paymentPlan.notes,
@@ -1285,4 +1147,4 @@ export async function GET(request: NextRequest) {
       { status: 500 }
     );
   }
-}
+});
@@ -0,0 +1,52 @@
+import { NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+import { ErrorHandler } from "@/lib/error-handler";
+import { withAuth } from "@/lib/auth-guard";
+import { getRecordHistory, revertPayment } from "@/lib/record-history";
+
+// The segment is shared with the payment routes; here it holds a payment id
+type Params = { params: Promise<{ pledgeId: string }> };
+
+const revertSchema = z.object({
+  auditLogId: z.number().int().positive(),
+});
+
+export const GET = withAuth({ role: "user", location: { resource: "payment", param: "pledgeId" } }, async (
+  _request: NextRequest,
+  { params }: Params
+) => {
+  try {
+    const { pledgeId } = await params;
+    const paymentId = parseInt(pledgeId, 10);
+    if (isNaN(paymentId) || paymentId <= 0) {
+      return NextResponse.json({ error: "Invalid payment ID" }, { status: 400 });
+    }
+
+    const history = await getRecordHistory("payment", paymentId);
+    return NextResponse.json({ history });
+  } catch (error) {
+    console.error("Error fetching payment history:", error);
+    return ErrorHandler.handle(error);
+  }
+});
+
+export const POST = withAuth({ role: "user", location: { resource: "payment", param: "pledgeId" } }, async (
+  request: NextRequest,
+  { params }: Params
+) => {
+  try {
+    const { pledgeId } = await params;
+    const paymentId = parseInt(pledgeId, 10);
+    if (isNaN(paymentId) || paymentId <= 0) {
+      return NextResponse.json({ error: "Invalid payment ID" }, { status: 400 });
+    }
+
+    const { auditLogId } = revertSchema.parse(await request.json());
+    const reverted = await revertPayment(request, paymentId, auditLogId);
+
+    return NextResponse.json({ message: "Payment reverted successfully", payment: reverted });
+  } catch (error) {
+    console.error("Error reverting payment:", error);
+    return ErrorHandler.handle(error);
+  }
+});
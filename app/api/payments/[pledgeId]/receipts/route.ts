@@ -0,0 +1,80 @@
+import { NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+import { ErrorHandler } from "@/lib/error-handler";
+import { withAuth } from "@/lib/auth-guard";
+import { recordAudit } from "@/lib/audit-log";
+import { receiptTypeEnum } from "@/lib/db/schema";
+import { issuePaymentReceipts, listPaymentReceipts } from "@/lib/receipts/donation-receipt";
+
+// The segment is shared with the payment routes; here it holds a payment id
+type Params = { params: Promise<{ pledgeId: string }> };
+
+const issueSchema = z.object({
+  receiptType: z.enum(receiptTypeEnum.enumValues).optional(),
+  allocationId: z.number().int().positive().optional(),
+});
+
+function parsePaymentId(value: string) {
+  const paymentId = parseInt(value, 10);
+  return isNaN(paymentId) || paymentId <= 0 ? null : paymentId;
+}
+
+export const GET = withAuth({ role: "user", location: { resource: "payment", param: "pledgeId" } }, async (
+  _request: NextRequest,
+  { params }: Params
+) => {
+  try {
+    const paymentId = parsePaymentId((await params).pledgeId);
+    if (!paymentId) {
+      return NextResponse.json({ error: "Invalid payment ID" }, { status: 400 });
+    }
+
+    const receipts = await listPaymentReceipts(paymentId);
+    return NextResponse.json({ receipts });
+  } catch (error) {
+    console.error("Error fetching payment receipts:", error);
+    return ErrorHandler.handle(error);
+  }
+});
+
+export const POST = withAuth({ role: "user", location: { resource: "payment", param: "pledgeId" } }, async (
+  request: NextRequest,
+  { params }: Params,
+  auth
+) => {
+  try {
+    const paymentId = parsePaymentId((await params).pledgeId);
+    if (!paymentId) {
+      return NextResponse.json({ error: "Invalid payment ID" }, { status: 400 });
+    }
+
+    const { receiptType, allocationId } = issueSchema.parse(await request.json());
+    const receipts = await issuePaymentReceipts(paymentId, {
+      receiptType,
+      allocationId,
+      issuedBy: auth.userId,
+    });
+
+    await recordAudit(
+      request,
+      ...receipts.map((receipt) => ({
+        action: "create" as const,
+        entityType: "donationReceipt" as const,
+        entityId: receipt.id,
+        after: receipt,
+        note: `No. ${receipt.receiptNumber} for payment #${paymentId}`,
+      }))
+    );
+
+    return NextResponse.json(
+      {
+        message: receipts.length === 1 ? "Receipt issued" : `${receipts.length} receipts issued`,
+        receipts,
+      },
+      { status: 201 }
+    );
+  } catch (error) {
+    console.error("Error issuing payment receipt:", error);
+    return ErrorHandler.handle(error);
+  }
+});
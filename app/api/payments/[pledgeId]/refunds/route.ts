@@ -0,0 +1,93 @@
+import { NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+import { ErrorHandler } from "@/lib/error-handler";
+import { withAuth } from "@/lib/auth-guard";
+import { recordAudit } from "@/lib/audit-log";
+import { refundTypeEnum } from "@/lib/db/schema";
+import { listPaymentRefunds, recordRefund, refundSideEffectAudits } from "@/lib/refunds/refunds";
+
+// The segment is shared with the payment routes; here it holds a payment id
+type Params = { params: Promise<{ pledgeId: string }> };
+
+const refundSchema = z.object({
+  type: z.enum(refundTypeEnum.enumValues).default("refund"),
+  amount: z.number().positive("Refund amount must be positive"),
+  reason: z.string().trim().min(1, "A reason is required for a refund"),
+  refundDate: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Refund date must be YYYY-MM-DD"),
+  referenceNumber: z.string().trim().optional().nullable(),
+  allocations: z
+    .array(
+      z.object({
+        allocationId: z.number().int().positive(),
+        amount: z.number().min(0),
+      })
+    )
+    .optional(),
+});
+
+function parsePaymentId(value: string) {
+  const paymentId = parseInt(value, 10);
+  return isNaN(paymentId) || paymentId <= 0 ? null : paymentId;
+}
+
+export const GET = withAuth({ role: "user", location: { resource: "payment", param: "pledgeId" } }, async (
+  _request: NextRequest,
+  { params }: Params
+) => {
+  try {
+    const paymentId = parsePaymentId((await params).pledgeId);
+    if (!paymentId) {
+      return NextResponse.json({ error: "Invalid payment ID" }, { status: 400 });
+    }
+
+    return NextResponse.json(await listPaymentRefunds(paymentId));
+  } catch (error) {
+    console.error("Error fetching payment refunds:", error);
+    return ErrorHandler.handle(error);
+  }
+});
+
+export const POST = withAuth({ role: "admin", location: { resource: "payment", param: "pledgeId" } }, async (
+  request: NextRequest,
+  { params }: Params,
+  auth
+) => {
+  try {
+    const paymentId = parsePaymentId((await params).pledgeId);
+    if (!paymentId) {
+      return NextResponse.json({ error: "Invalid payment ID" }, { status: 400 });
+    }
+
+    const input = refundSchema.parse(await request.json());
+    const outcome = await recordRefund(paymentId, input, auth.userId);
+    const { refund } = outcome;
+    const label = `${refund.type} #${refund.id}`;
+
+    await recordAudit(
+      request,
+      {
+        action: "create",
+        entityType: "paymentRefund",
+        entityId: refund.id,
+        after: { ...refund, allocations: outcome.allocations },
+        note: `${refund.amount} ${refund.currency} on payment #${paymentId}: ${refund.reason}`,
+      },
+      ...refundSideEffectAudits(outcome, label)
+    );
+
+    return NextResponse.json(
+      {
+        message:
+          outcome.payment.after.paymentStatus === "refunded"
+            ? `${refund.type === "chargeback" ? "Chargeback" : "Refund"} recorded; the payment is now fully refunded`
+            : `${refund.type === "chargeback" ? "Chargeback" : "Refund"} of ${refund.amount} ${refund.currency} recorded`,
+        refund: { ...refund, allocations: outcome.allocations },
+        paymentStatus: outcome.payment.after.paymentStatus,
+      },
+      { status: 201 }
+    );
+  } catch (error) {
+    console.error("Error recording refund:", error);
+    return ErrorHandler.handle(error);
+  }
+});
@@ -1,10 +1,19 @@
-import { db } from "@/lib/db";
-import { payment, pledge, paymentAllocations, paymentPlan, installmentSchedule, solicitor, bonusCalculation, contact, exchangeRate, currencyEnum, tag, paymentTags } from "@/lib/db/schema";
+import { db, withTransaction, type DbClient } from "@/lib/db";
+import { payment, pledge, paymentAllocations, paymentPlan, installmentSchedule, solicitor, bonusCalculation, contact, tag, paymentTags } from "@/lib/db/schema";
 import type { NewPaymentAllocation, NewPaymentTag } from "@/lib/db/schema";
 import { ErrorHandler } from "@/lib/error-handler";
 import { eq, desc, or, ilike, and, SQL, sql, inArray } from "drizzle-orm";
 import { NextRequest, NextResponse } from "next/server";
 import { z } from "zod";
+import { withAuth, recordLocation } from "@/lib/auth-guard";
+import { getUsdToCurrencyRate, updatePledgeTotals, updatePaymentPlanTotals } from "@/lib/payment-totals";
+import { convertAmount, crossRate, decimal, formatRate, roundMoney, sumMoney, type Decimal, type DecimalInput } from "@/lib/money";
+import { recordAudit, diffCollection } from "@/lib/audit-log";
+import { dedicationFields } from "@/lib/form-schemas/memorial";
+import { resolveDedication } from "@/lib/memorials/memorials";
+import { assertActiveCurrency } from "@/lib/currencies/currencies";
+import { currencyCodeSchema } from "@/lib/form-schemas/currency";
+import { assertPaymentUnlocked } from "@/lib/deposit-batches/batches";
 
 class AppError extends Error {
   statusCode: number;
@@ -76,7 +85,7 @@ const allocationUpdateSchema = z.object({
   amount: z.number().positive().optional(),
   notes: z.string().optional().nullable(),
   installmentScheduleId: z.number().optional().nullable(),
-  currency: z.enum(["USD", "ILS", "EUR", "JPY", "GBP", "AUD", "CAD", "ZAR"]).optional(),
+  currency: currencyCodeSchema.optional(),
   exchangeRate: z.number().positive().optional(),
   receiptNumber: z.string().optional().nullable(),
   receiptType: z.enum(["invoice", "confirmation", "receipt", "other"]).optional().nullable(),
@@ -109,7 +118,7 @@ const updatePaymentSchema = z.object({
   paymentId: z.number().positive("Payment ID is required and must be positive"),
   amount: z.number().positive("Amount must be positive").optional(),
   tagIds: z.array(z.number().positive()).optional().default([]),
-  currency: z.enum(["USD", "ILS", "EUR", "JPY", "GBP", "AUD", "CAD", "ZAR"]).optional(),
+  currency: currencyCodeSchema.optional(),
   amountUsd: z.number().positive("Amount in USD must be positive").optional(),
   amountInPledgeCurrency: z.number().positive("Amount in pledge currency must be positive").optional(),
   amountInPlanCurrency: z.number().positive("Amount in plan currency must be positive").optional(),
@@ -144,6 +153,7 @@ const updatePaymentSchema = z.object({
   // Notes and relationship
   notes: z.string().optional().nullable(),
   relationshipId: z.number().positive("Relationship ID must be positive").optional().nullable(),
+  ...dedicationFields,
 
   // Core payment associations
   pledgeId: z.number().positive("Pledge ID must be positive").optional().nullable(),
@@ -176,9 +186,8 @@ const updatePaymentSchema = z.object({
   })
   .refine((data) => {
     if (data.isSplitPayment && data.allocations && data.allocations.length > 0 && data.amount) {
-      const totalAllocated = data.allocations.reduce((sum, alloc) => sum + alloc.allocatedAmount, 0);
-      const difference = Math.abs(totalAllocated - data.amount);
-      return difference < 0.01;
+      const totalAllocated = data.allocations.reduce<Decimal>((sum, alloc) => sum.plus(alloc.allocatedAmount), decimal(0));
+      return totalAllocated.compare(data.amount) === 0;
     }
     return true;
   }, {
@@ -186,11 +195,10 @@ const updatePaymentSchema = z.object({
   })
   .refine((data) => {
     if (data.isMultiContactPayment && data.multiContactAllocations && data.multiContactAllocations.length > 0 && data.amount) {
-      const totalAllocated = data.multiContactAllocations.reduce((contactSum, contact) => {
-        return contactSum + contact.pledges.reduce((pledgeSum, pledge) => pledgeSum + pledge.allocatedAmount, 0);
-      }, 0);
-      const difference = Math.abs(totalAllocated - data.amount);
-      return difference < 0.01;
+      const totalAllocated = data.multiContactAllocations
+        .flatMap((contact) => contact.pledges)
+        .reduce<Decimal>((sum, pledge) => sum.plus(pledge.allocatedAmount), decimal(0));
+      return totalAllocated.compare(data.amount) === 0;
     }
     return true;
   }, {
@@ -230,7 +238,7 @@ type AllocationResponse = {
   pledgeId: number;
   allocatedAmount: number;
   notes: string | null;
-  currency: (typeof currencyEnum.enumValues)[number] | null;
+  currency: string | null;
   installmentScheduleId: number | null;
   receiptNumber: string | null;
   receiptType: string | null;
@@ -302,9 +310,13 @@ async function validateMultiContactAllocations(
     errors
   };
 }
-async function validateAndUpdatePaymentTags(paymentId: number, tagIds: number[]): Promise<void> {
+async function validateAndUpdatePaymentTags(
+  paymentId: number,
+  tagIds: number[],
+  client: DbClient = db
+): Promise<void> {
   // Delete existing payment tags
-  await db.delete(paymentTags).where(eq(paymentTags.paymentId, paymentId));
+  await client.delete(paymentTags).where(eq(paymentTags.paymentId, paymentId));
 
   if (!tagIds || tagIds.length === 0) return;
 
@@ -338,7 +350,7 @@ async function validateAndUpdatePaymentTags(paymentId: number, tagIds: number[])
   }));
 
   try {
-    await db.insert(paymentTags).values(paymentTagsToInsert);
+    await client.insert(paymentTags).values(paymentTagsToInsert);
   } catch (error) {
     console.error('Error creating payment tags:', error);
     throw new AppError('Failed to associate tags with payment', 500);
@@ -404,32 +416,9 @@ async function validatePaymentPlanConstraints(paymentId: number, newData: Update
 }
 
 // Currency conversion helper functions
-async function getUsdToCurrencyRate(currency: string, date: string): Promise<number | null> {
-  if (currency === 'USD') return 1;
-
-  const rate = await db
-    .select()
-    .from(exchangeRate)
-    .where(
-      and(
-        eq(exchangeRate.baseCurrency, 'USD' as "USD" | "ILS" | "EUR" | "JPY" | "GBP" | "AUD" | "CAD" | "ZAR"),
-        eq(exchangeRate.targetCurrency, currency as "USD" | "ILS" | "EUR" | "JPY" | "GBP" | "AUD" | "CAD" | "ZAR"),
-        sql`${exchangeRate.date} <= ${date}`
-      )
-    )
-    .orderBy(desc(exchangeRate.date))
-    .limit(1);
-
-  if (rate.length > 0) {
-    return parseFloat(rate[0].rate);
-  }
-
-  return null;
-}
-
-async function getExchangeRate(fromCurrency: string, toCurrency: string, date: string): Promise<number> {
+async function getExchangeRate(fromCurrency: string, toCurrency: string, date: string): Promise<Decimal> {
   if (fromCurrency === toCurrency) {
-    return 1;
+    return decimal(1);
   }
 
   // Always convert through USD
@@ -437,24 +426,47 @@ async function getExchangeRate(fromCurrency: string, toCurrency: string, date: s
   const usdToToRate = await getUsdToCurrencyRate(toCurrency, date);
 
   if (usdToFromRate && usdToToRate) {
-    return usdToToRate / usdToFromRate;
+    return crossRate(usdToFromRate, usdToToRate);
   }
 
   throw new AppError(`Exchange rate not found for ${fromCurrency} to ${toCurrency} on or before ${date}`, 400);
 }
 
 async function convertCurrency(
-  amount: number,
+  amount: DecimalInput,
   fromCurrency: string,
   toCurrency: string,
   date: string
-): Promise<{ convertedAmount: number; exchangeRate: number }> {
+): Promise<{ convertedAmount: string; exchangeRate: Decimal }> {
   const rate = await getExchangeRate(fromCurrency, toCurrency, date);
-  const convertedAmount = amount * rate;
+  const convertedAmount = convertAmount(amount, rate, toCurrency);
 
   return { convertedAmount, exchangeRate: rate };
 }
 
+// Split allocations must add up to the payment amount exactly
+function assertAllocationTotal(
+  message: string,
+  allocatedAmounts: number[],
+  paymentAmount: DecimalInput,
+  currency: string
+): void {
+  const totalAllocated = sumMoney(allocatedAmounts, currency);
+  const expected = roundMoney(paymentAmount, currency);
+  if (decimal(totalAllocated).compare(expected) !== 0) {
+    throw new AppError(
+      message,
+      400,
+      {
+        details: `Total allocated amount (${totalAllocated}) must equal payment amount (${expected}).`,
+        totalAllocated,
+        paymentAmount: expected,
+        difference: decimal(totalAllocated).minus(expected).toMoney(currency),
+      }
+    );
+  }
+}
+
 async function processMultiContactPayment(
   paymentId: number,
   multiContactAllocations: Array<{
@@ -470,10 +482,11 @@ async function processMultiContactPayment(
   }>,
   paymentCurrency: string,
   exchangeRateDate: string,
-  payerContactId?: number | null
+  payerContactId?: number | null,
+  client: DbClient = db
 ): Promise<void> {
   // Clear existing allocations
-  await db.delete(paymentAllocations).where(eq(paymentAllocations.paymentId, paymentId));
+  await client.delete(paymentAllocations).where(eq(paymentAllocations.paymentId, paymentId));
 
   // Create new allocations for each pledge across multiple contacts
   for (const contactAllocation of multiContactAllocations) {
@@ -510,10 +523,10 @@ async function processMultiContactPayment(
       const allocationToInsert: NewPaymentAllocation = {
         paymentId: paymentId,
         pledgeId: pledgeAllocation.pledgeId,
-        allocatedAmount: pledgeAllocation.allocatedAmount.toFixed(2),
-        allocatedAmountUsd: usdConversion.convertedAmount.toFixed(2),
-        allocatedAmountInPledgeCurrency: pledgeConversion.convertedAmount.toFixed(2),
-        currency: paymentCurrency as "USD" | "ILS" | "EUR" | "JPY" | "GBP" | "AUD" | "CAD" | "ZAR",
+        allocatedAmount: roundMoney(pledgeAllocation.allocatedAmount, paymentCurrency),
+        allocatedAmountUsd: usdConversion.convertedAmount,
+        allocatedAmountInPledgeCurrency: pledgeConversion.convertedAmount,
+        currency: paymentCurrency,
         installmentScheduleId: null,
         receiptNumber: null,
         receiptType: null,
@@ -524,54 +537,17 @@ async function processMultiContactPayment(
         updatedAt: new Date(),
       };
 
-      await db.insert(paymentAllocations).values(allocationToInsert);
+      await client.insert(paymentAllocations).values(allocationToInsert);
     }
   }
 }
 
-async function updatePaymentPlanTotals(paymentPlanId: number) {
-  const payments = await db
-    .select({
-      amount: payment.amount,
-      paymentStatus: payment.paymentStatus,
-    })
-    .from(payment)
-    .where(and(
-      eq(payment.paymentPlanId, paymentPlanId),
-      or(
-        eq(payment.paymentStatus, "completed"),
-        eq(payment.paymentStatus, "processing")
-      )
-    ));
-
-  const totalPaid = payments.reduce((sum, p) => sum + parseFloat(p.amount), 0);
-  const installmentsPaid = payments.length;
-
-  const paymentPlanResult = await db
-    .select({
-      totalPlannedAmount: paymentPlan.totalPlannedAmount,
-    })
-    .from(paymentPlan)
-    .where(eq(paymentPlan.id, paymentPlanId))
-    .limit(1);
-
-  if (paymentPlanResult.length > 0) {
-    const totalPlanned = parseFloat(paymentPlanResult[0].totalPlannedAmount);
-    const remainingAmount = Math.max(0, totalPlanned - totalPaid);
-
-    await db
-      .update(paymentPlan)
-      .set({
-        totalPaid: totalPaid.toString(),
-        installmentsPaid,
-        remainingAmount: remainingAmount.toString(),
-        updatedAt: new Date(),
-      })
-      .where(eq(paymentPlan.id, paymentPlanId));
-  }
-}
-
-async function updateInstallmentScheduleStatus(installmentScheduleId: number, paymentStatus: string, paidDate?: string | null) {
+async function updateInstallmentScheduleStatus(
+  installmentScheduleId: number,
+  paymentStatus: string,
+  paidDate?: string | null,
+  client: DbClient = db
+) {
   let status: "pending" | "paid" | "overdue" | "cancelled" = "pending";
 
   if (paymentStatus === "completed" || paymentStatus === "processing") {
@@ -580,7 +556,7 @@ async function updateInstallmentScheduleStatus(installmentScheduleId: number, pa
     status = "cancelled";
   }
 
-  await db
+  await client
     .update(installmentSchedule)
     .set({
       status,
@@ -590,145 +566,10 @@ async function updateInstallmentScheduleStatus(installmentScheduleId: number, pa
     .where(eq(installmentSchedule.id, installmentScheduleId));
 }
 
-async function updatePledgeTotals(pledgeId: number) {
-  const pledgeResult = await db
-    .select({
-      originalAmount: pledge.originalAmount,
-      originalAmountUsd: pledge.originalAmountUsd,
-      currency: pledge.currency,
-      exchangeRate: pledge.exchangeRate,
-    })
-    .from(pledge)
-    .where(eq(pledge.id, pledgeId))
-    .limit(1);
-
-  if (pledgeResult.length === 0) {
-    throw new AppError("Pledge not found", 404);
-  }
-
-  const currentPledge = pledgeResult[0];
-  const pledgeCurrency = currentPledge.currency;
-
-  const payments = await db
-    .select({
-      amount: payment.amount,
-      amountUsd: payment.amountUsd,
-      amountInPledgeCurrency: payment.amountInPledgeCurrency,
-      paymentStatus: payment.paymentStatus,
-      currency: payment.currency,
-      receivedDate: payment.receivedDate,
-      paymentDate: payment.paymentDate,
-    })
-    .from(payment)
-    .where(and(
-      eq(payment.pledgeId, pledgeId),
-      or(
-        eq(payment.paymentStatus, "completed"),
-        eq(payment.paymentStatus, "processing")
-      )
-    ));
-
-  const allocatedPayments = await db
-    .select({
-      allocatedAmount: paymentAllocations.allocatedAmount,
-      allocatedAmountUsd: paymentAllocations.allocatedAmountUsd,
-      allocatedAmountInPledgeCurrency: paymentAllocations.allocatedAmountInPledgeCurrency,
-      currency: paymentAllocations.currency,
-      paymentStatus: payment.paymentStatus,
-      receivedDate: payment.receivedDate,
-      paymentDate: payment.paymentDate,
-    })
-    .from(paymentAllocations)
-    .innerJoin(payment, eq(paymentAllocations.paymentId, payment.id))
-    .where(and(
-      eq(paymentAllocations.pledgeId, pledgeId),
-      or(
-        eq(payment.paymentStatus, "completed"),
-        eq(payment.paymentStatus, "processing")
-      )
-    ));
-
-  let totalPaidInPledgeCurrency = 0;
-  let totalPaidUsd = 0;
-
-  for (const p of payments) {
-    const exchangeRateDate = p.receivedDate || new Date().toISOString().split('T')[0];
-
-    if (p.amountInPledgeCurrency) {
-      totalPaidInPledgeCurrency += parseFloat(p.amountInPledgeCurrency);
-    } else {
-      const { convertedAmount } = await convertCurrency(
-        parseFloat(p.amount),
-        p.currency,
-        pledgeCurrency,
-        exchangeRateDate
-      );
-      totalPaidInPledgeCurrency += convertedAmount;
-    }
-
-    if (p.amountUsd) {
-      totalPaidUsd += parseFloat(p.amountUsd);
-    } else {
-      const { convertedAmount } = await convertCurrency(
-        parseFloat(p.amount),
-        p.currency,
-        'USD',
-        exchangeRateDate
-      );
-      totalPaidUsd += convertedAmount;
-    }
-  }
-
-  for (const a of allocatedPayments) {
-    const exchangeRateDate = a.receivedDate || new Date().toISOString().split('T')[0];
-
-    if (a.allocatedAmountInPledgeCurrency) {
-      totalPaidInPledgeCurrency += parseFloat(a.allocatedAmountInPledgeCurrency);
-    } else {
-      const { convertedAmount } = await convertCurrency(
-        parseFloat(a.allocatedAmount),
-        a.currency,
-        pledgeCurrency,
-        exchangeRateDate
-      );
-      totalPaidInPledgeCurrency += convertedAmount;
-    }
-
-    if (a.allocatedAmountUsd) {
-      totalPaidUsd += parseFloat(a.allocatedAmountUsd);
-    } else {
-      const { convertedAmount } = await convertCurrency(
-        parseFloat(a.allocatedAmount),
-        a.currency,
-        'USD',
-        exchangeRateDate
-      );
-      totalPaidUsd += convertedAmount;
-    }
-  }
-
-  const originalAmount = parseFloat(currentPledge.originalAmount);
-  const balance = Math.max(0, originalAmount - totalPaidInPledgeCurrency);
-
-  const originalAmountUsd = currentPledge.originalAmountUsd ? parseFloat(currentPledge.originalAmountUsd) : null;
-  const balanceUsd = originalAmountUsd ? Math.max(0, originalAmountUsd - totalPaidUsd) : null;
-
-  await db
-    .update(pledge)
-    .set({
-      totalPaid: totalPaidInPledgeCurrency.toFixed(2),
-      balance: balance.toFixed(2),
-      totalPaidUsd: totalPaidUsd > 0 ? totalPaidUsd.toFixed(2) : null,
-      balanceUsd: balanceUsd !== null ? balanceUsd.toFixed(2) : null,
-      updatedAt: new Date(),
-    })
-    .where(eq(pledge.id, pledgeId));
-}
-
-export async function PATCH(
+export const PATCH = withAuth({ role: "user", location: { resource: "payment", body: "paymentId" } }, async (
   request: NextRequest,
   { params }: { params: Promise<{ pledgeId: string }> }
-) {
+) => {
   let validatedData: z.infer<typeof updatePaymentSchema>;
   try {
     const resolvedParams = await params;
@@ -758,6 +599,7 @@ export async function PATCH(
     }
 
     const paymentId = validatedData.paymentId;
+    await assertPaymentUnlocked(paymentId);
 
     // Enhanced validation: Check payment plan constraints
     const paymentPlanValidation = await validatePaymentPlanConstraints(paymentId, validatedData);
@@ -808,6 +650,18 @@ export async function PATCH(
     }
     const currentPayment = existingPayment[0];
 
+    // Only a change of currency is checked, so payments in one since turned off stay editable
+    if (validatedData.currency && validatedData.currency !== currentPayment.currency) {
+      await assertActiveCurrency(validatedData.currency, await recordLocation("payment", paymentId));
+    }
+
+    // Full snapshots for the audit trail
+    const [paymentBefore] = await db.select().from(payment).where(eq(payment.id, paymentId)).limit(1);
+    const allocationsBefore = await db
+      .select()
+      .from(paymentAllocations)
+      .where(eq(paymentAllocations.paymentId, paymentId));
+
     // Get existing allocations
     const existingAllocations = await db
       .select({
@@ -897,28 +751,28 @@ export async function PATCH(
 
       // Handle all core payment fields
       if (dataToUpdate.amount !== undefined) {
-        baseUpdateData.amount = dataToUpdate.amount.toString();
+        baseUpdateData.amount = roundMoney(dataToUpdate.amount, dataToUpdate.currency ?? currentPayment.currency);
       }
       if (dataToUpdate.currency !== undefined) {
         baseUpdateData.currency = dataToUpdate.currency;
       }
       if (dataToUpdate.amountUsd !== undefined) {
-        baseUpdateData.amountUsd = dataToUpdate.amountUsd.toFixed(2);
+        baseUpdateData.amountUsd = roundMoney(dataToUpdate.amountUsd, "USD");
       }
       if (dataToUpdate.amountInPledgeCurrency !== undefined) {
-        baseUpdateData.amountInPledgeCurrency = dataToUpdate.amountInPledgeCurrency.toFixed(2);
+        baseUpdateData.amountInPledgeCurrency = decimal(dataToUpdate.amountInPledgeCurrency).toFixed(2);
       }
       if (dataToUpdate.amountInPlanCurrency !== undefined) {
-        baseUpdateData.amountInPlanCurrency = dataToUpdate.amountInPlanCurrency.toFixed(2);
+        baseUpdateData.amountInPlanCurrency = decimal(dataToUpdate.amountInPlanCurrency).toFixed(2);
       }
       if (dataToUpdate.exchangeRate !== undefined) {
-        baseUpdateData.exchangeRate = dataToUpdate.exchangeRate.toFixed(4);
+        baseUpdateData.exchangeRate = formatRate(dataToUpdate.exchangeRate);
       }
       if (dataToUpdate.pledgeCurrencyExchangeRate !== undefined) {
-        baseUpdateData.pledgeCurrencyExchangeRate = dataToUpdate.pledgeCurrencyExchangeRate.toFixed(4);
+        baseUpdateData.pledgeCurrencyExchangeRate = formatRate(dataToUpdate.pledgeCurrencyExchangeRate);
       }
       if (dataToUpdate.planCurrencyExchangeRate !== undefined) {
-        baseUpdateData.planCurrencyExchangeRate = dataToUpdate.planCurrencyExchangeRate.toFixed(4);
+        baseUpdateData.planCurrencyExchangeRate = formatRate(dataToUpdate.planCurrencyExchangeRate);
       }
 
       // Date fields
@@ -986,6 +840,7 @@ export async function PATCH(
       if (dataToUpdate.relationshipId !== undefined) {
         baseUpdateData.relationshipId = dataToUpdate.relationshipId;
       }
+      Object.assign(baseUpdateData, await resolveDedication(dataToUpdate));
 
       // Core payment associations
       if (dataToUpdate.pledgeId !== undefined) {
@@ -1021,14 +876,14 @@ export async function PATCH(
       // Use receivedDate when present, fall back to today's date
       const exchangeRateDate = data.receivedDate || new Date().toISOString().split('T')[0];
       const newCurrency = data.currency || currentPayment.currency;
-      const newAmount = data.amount || parseFloat(currentPayment.amount);
+      const newAmount = data.amount || currentPayment.amount;
 
       // Auto-calculate USD conversion if amount or currency changed
       if (data.amount || data.currency) {
         if (!dataToUpdate.amountUsd && !dataToUpdate.exchangeRate) {
           const usdConversion = await convertCurrency(newAmount, newCurrency, 'USD', exchangeRateDate);
-          baseUpdateData.amountUsd = usdConversion.convertedAmount.toFixed(2);
-          baseUpdateData.exchangeRate = usdConversion.exchangeRate.toFixed(4);
+          baseUpdateData.amountUsd = usdConversion.convertedAmount;
+          baseUpdateData.exchangeRate = formatRate(usdConversion.exchangeRate);
         }
       }
 
@@ -1045,8 +900,8 @@ export async function PATCH(
           if (pledgeData.length > 0) {
             const pledgeCurrency = pledgeData[0].currency;
             const pledgeConversion = await convertCurrency(newAmount, newCurrency, pledgeCurrency, exchangeRateDate);
-            baseUpdateData.amountInPledgeCurrency = pledgeConversion.convertedAmount.toFixed(2);
-            baseUpdateData.pledgeCurrencyExchangeRate = pledgeConversion.exchangeRate.toFixed(4);
+            baseUpdateData.amountInPledgeCurrency = pledgeConversion.convertedAmount;
+            baseUpdateData.pledgeCurrencyExchangeRate = formatRate(pledgeConversion.exchangeRate);
           }
         }
       }
@@ -1064,8 +919,8 @@ export async function PATCH(
           if (planData.length > 0) {
             const planCurrency = planData[0].currency;
             const planConversion = await convertCurrency(newAmount, newCurrency, planCurrency, exchangeRateDate);
-            baseUpdateData.amountInPlanCurrency = planConversion.convertedAmount.toFixed(2);
-            baseUpdateData.planCurrencyExchangeRate = planConversion.exchangeRate.toFixed(4);
+            baseUpdateData.amountInPlanCurrency = planConversion.convertedAmount;
+            baseUpdateData.planCurrencyExchangeRate = formatRate(planConversion.exchangeRate);
           }
         }
       }
@@ -1073,122 +928,13 @@ export async function PATCH(
       return baseUpdateData;
     };
 
-    // SCENARIO 1: Converting to multi-contact payment
-    if (!isCurrentlyMultiContact && willBeMultiContact && validatedData.multiContactAllocations) {
-      console.log("Converting to multi-contact payment");
-
-      if (currentPayment.installmentScheduleId) {
-        await db
-          .update(installmentSchedule)
-          .set({
-            status: "pending",
-            paidDate: null,
-            updatedAt: new Date(),
-          })
-          .where(eq(installmentSchedule.id, currentPayment.installmentScheduleId));
-      }
-
-      // Clear existing allocations if any
-      if (existingAllocations.length > 0) {
-        await db.delete(paymentAllocations).where(eq(paymentAllocations.paymentId, paymentId));
-      }
-
-      const updateData = await buildUpdateData(validatedData);
-      updateData.pledgeId = null;
-      updateData.installmentScheduleId = null;
-      updateData.amountInPledgeCurrency = null;
-      updateData.pledgeCurrencyExchangeRate = null;
-
-      await db.update(payment).set(updateData).where(eq(payment.id, paymentId));
-
-      // Process multi-contact allocations
-      const exchangeRateDate = validatedData.receivedDate || new Date().toISOString().split('T')[0];
-      const paymentCurrency = validatedData.currency || currentPayment.currency;
-
-      await processMultiContactPayment(
-        paymentId,
-        validatedData.multiContactAllocations,
-        paymentCurrency,
-        exchangeRateDate,
-        validatedData.isThirdPartyPayment ? (validatedData.thirdPartyContactId || validatedData.payerContactId) : null
-      );
-
-      // Add all pledges from multi-contact allocations to update list
-      validatedData.multiContactAllocations.forEach(contact => {
-        contact.pledges.forEach(pledge => pledgesToUpdate.add(pledge.pledgeId));
-      });
-    }
-
-    // SCENARIO 2: Converting split payment to regular payment
-    else if (isCurrentlySplit && !willBeSplit) {
-      console.log("Converting split payment to regular payment");
-
-      const targetPledgeId = validatedData.pledgeId || currentPayment.pledgeId;
-      if (!targetPledgeId) {
-        throw new AppError("Target pledge ID is required when converting split payment to regular payment", 400);
-      }
-
-      const targetPledgeExists = await db
-        .select({ id: pledge.id })
-        .from(pledge)
-        .where(eq(pledge.id, targetPledgeId))
-        .limit(1);
-      if (targetPledgeExists.length === 0) {
-        throw new AppError(`Target pledge with ID ${targetPledgeId} does not exist`, 400);
-      }
-
-      const allocationInstallmentIds = existingAllocations
-        .filter(a => a.installmentScheduleId)
-        .map(a => a.installmentScheduleId!);
-
-      if (allocationInstallmentIds.length > 0) {
-        for (const installmentId of allocationInstallmentIds) {
-          await db
-            .update(installmentSchedule)
-            .set({
-              status: "pending",
-              paidDate: null,
-              updatedAt: new Date(),
-            })
-            .where(eq(installmentSchedule.id, installmentId));
-        }
-      }
-
-      await db.delete(paymentAllocations).where(eq(paymentAllocations.paymentId, paymentId));
-
-      const updateData = await buildUpdateData(validatedData);
-      updateData.pledgeId = targetPledgeId;
-
-      await db.update(payment).set(updateData).where(eq(payment.id, paymentId));
-      pledgesToUpdate.add(targetPledgeId);
-    }
-
-    // SCENARIO 3: Converting regular payment to split payment (including multi-contact)
-    else if (!isCurrentlySplit && willBeSplit) {
-      console.log("Converting regular payment to split payment");
-
-      // Handle multi-contact case
-      if (willBeMultiContact && validatedData.multiContactAllocations) {
-        const totalAllocated = validatedData.multiContactAllocations.reduce((contactSum, contact) => {
-          return contactSum + contact.pledges.reduce((pledgeSum, pledge) => pledgeSum + pledge.allocatedAmount, 0);
-        }, 0);
-        const paymentAmount = validatedData.amount ?? parseFloat(currentPayment.amount);
-
-        if (Math.abs(totalAllocated - paymentAmount) > 0.01) {
-          throw new AppError(
-            "Invalid multi-contact allocation amounts",
-            400,
-            {
-              details: `Total allocated amount (${totalAllocated.toFixed(2)}) must equal payment amount (${paymentAmount.toFixed(2)}).`,
-              totalAllocated,
-              paymentAmount,
-              difference: Math.abs(totalAllocated - paymentAmount),
-            }
-          );
-        }
+    const updatedPayment = await withTransaction(async (tx) => {
+      // SCENARIO 1: Converting to multi-contact payment
+      if (!isCurrentlyMultiContact && willBeMultiContact && validatedData.multiContactAllocations) {
+        console.log("Converting to multi-contact payment");
 
         if (currentPayment.installmentScheduleId) {
-          await db
+          await tx
             .update(installmentSchedule)
             .set({
               status: "pending",
@@ -1198,14 +944,20 @@ export async function PATCH(
             .where(eq(installmentSchedule.id, currentPayment.installmentScheduleId));
         }
 
+        // Clear existing allocations if any
+        if (existingAllocations.length > 0) {
+          await tx.delete(paymentAllocations).where(eq(paymentAllocations.paymentId, paymentId));
+        }
+
         const updateData = await buildUpdateData(validatedData);
         updateData.pledgeId = null;
         updateData.installmentScheduleId = null;
         updateData.amountInPledgeCurrency = null;
         updateData.pledgeCurrencyExchangeRate = null;
 
-        await db.update(payment).set(updateData).where(eq(payment.id, paymentId));
+        await tx.update(payment).set(updateData).where(eq(payment.id, paymentId));
 
+        // Process multi-contact allocations
         const exchangeRateDate = validatedData.receivedDate || new Date().toISOString().split('T')[0];
         const paymentCurrency = validatedData.currency || currentPayment.currency;
 
@@ -1214,486 +966,549 @@ export async function PATCH(
           validatedData.multiContactAllocations,
           paymentCurrency,
           exchangeRateDate,
-          validatedData.isThirdPartyPayment ? (validatedData.thirdPartyContactId || validatedData.payerContactId) : null
+          validatedData.isThirdPartyPayment ? (validatedData.thirdPartyContactId || validatedData.payerContactId) : null,
+          tx
         );
 
+        // Add all pledges from multi-contact allocations to update list
         validatedData.multiContactAllocations.forEach(contact => {
           contact.pledges.forEach(pledge => pledgesToUpdate.add(pledge.pledgeId));
         });
       }
-      // Handle regular split payment
-      else if (validatedData.allocations && validatedData.allocations.length > 0) {
-        const totalAllocated = validatedData.allocations.reduce((sum, alloc) => sum + alloc.allocatedAmount, 0);
-        const paymentAmount = validatedData.amount ?? parseFloat(currentPayment.amount);
 
-        if (Math.abs(totalAllocated - paymentAmount) > 0.01) {
-          throw new AppError(
-            "Invalid allocation amounts",
-            400,
-            {
-              details: `Total allocated amount (${totalAllocated.toFixed(2)}) must equal payment amount (${paymentAmount.toFixed(2)}).`,
-              totalAllocated,
-              paymentAmount,
-              difference: Math.abs(totalAllocated - paymentAmount),
-            }
-          );
+      // SCENARIO 2: Converting split payment to regular payment
+      else if (isCurrentlySplit && !willBeSplit) {
+        console.log("Converting split payment to regular payment");
+
+        const targetPledgeId = validatedData.pledgeId || currentPayment.pledgeId;
+        if (!targetPledgeId) {
+          throw new AppError("Target pledge ID is required when converting split payment to regular payment", 400);
         }
 
-        const pledgeMap = new Map();
-        for (const allocation of validatedData.allocations) {
-          if (!allocation.allocatedAmount || allocation.allocatedAmount <= 0) {
-            throw new AppError(
-              "Invalid allocation amount",
-              400,
-              { details: `Allocated amount must be positive. Found: ${allocation.allocatedAmount || 0} for pledge ${allocation.pledgeId}` }
-            );
-          }
+        const targetPledgeExists = await tx
+          .select({ id: pledge.id })
+          .from(pledge)
+          .where(eq(pledge.id, targetPledgeId))
+          .limit(1);
+        if (targetPledgeExists.length === 0) {
+          throw new AppError(`Target pledge with ID ${targetPledgeId} does not exist`, 400);
+        }
 
-          const pledgeExists = await db
-            .select({
-              id: pledge.id,
-              currency: pledge.currency,
-              exchangeRate: pledge.exchangeRate,
-              contactId: pledge.contactId
-            })
-            .from(pledge)
-            .where(eq(pledge.id, allocation.pledgeId))
-            .limit(1);
+        const allocationInstallmentIds = existingAllocations
+          .filter(a => a.installmentScheduleId)
+          .map(a => a.installmentScheduleId!);
 
-          if (pledgeExists.length === 0) {
-            throw new AppError(
-              "Invalid pledge ID in allocation",
-              400,
-              { details: `Pledge with ID ${allocation.pledgeId} does not exist.` }
-            );
+        if (allocationInstallmentIds.length > 0) {
+          for (const installmentId of allocationInstallmentIds) {
+            await tx
+              .update(installmentSchedule)
+              .set({
+                status: "pending",
+                paidDate: null,
+                updatedAt: new Date(),
+              })
+              .where(eq(installmentSchedule.id, installmentId));
           }
-
-          pledgeMap.set(allocation.pledgeId, pledgeExists[0]);
-          pledgesToUpdate.add(allocation.pledgeId);
         }
 
-        if (currentPayment.installmentScheduleId) {
-          await db
-            .update(installmentSchedule)
-            .set({
-              status: "pending",
-              paidDate: null,
-              updatedAt: new Date(),
-            })
-            .where(eq(installmentSchedule.id, currentPayment.installmentScheduleId));
-        }
+        await tx.delete(paymentAllocations).where(eq(paymentAllocations.paymentId, paymentId));
 
         const updateData = await buildUpdateData(validatedData);
-        updateData.pledgeId = null;
-        updateData.installmentScheduleId = null;
-        updateData.amountInPledgeCurrency = null;
-        updateData.pledgeCurrencyExchangeRate = null;
-
-        await db.update(payment).set(updateData).where(eq(payment.id, paymentId));
-
-        const exchangeRateDate = validatedData.receivedDate || new Date().toISOString().split('T')[0];
-        const paymentCurrency = validatedData.currency || currentPayment.currency;
-
-        for (const alloc of validatedData.allocations) {
-          const pledgeInfo = pledgeMap.get(alloc.pledgeId);
-          const allocationCurrency = alloc.currency ?? paymentCurrency;
+        updateData.pledgeId = targetPledgeId;
 
-          const usdConversion = await convertCurrency(
-            alloc.allocatedAmount,
-            allocationCurrency,
-            'USD',
-            exchangeRateDate
-          );
-
-          const pledgeConversion = await convertCurrency(
-            alloc.allocatedAmount,
-            allocationCurrency,
-            pledgeInfo.currency,
-            exchangeRateDate
-          );
-
-          const allocationToInsert: NewPaymentAllocation = {
-            paymentId: paymentId,
-            pledgeId: alloc.pledgeId,
-            allocatedAmount: alloc.allocatedAmount.toFixed(2),
-            allocatedAmountUsd: usdConversion.convertedAmount.toFixed(2),
-            allocatedAmountInPledgeCurrency: pledgeConversion.convertedAmount.toFixed(2),
-            currency: allocationCurrency as "USD" | "ILS" | "EUR" | "JPY" | "GBP" | "AUD" | "CAD" | "ZAR",
-            installmentScheduleId: alloc.installmentScheduleId ?? null,
-            receiptNumber: alloc.receiptNumber ?? null,
-            receiptType: alloc.receiptType ?? null,
-            receiptIssued: alloc.receiptIssued ?? false,
-            notes: alloc.notes ?? null,
-            payerContactId: validatedData.isThirdPartyPayment ? (validatedData.thirdPartyContactId || validatedData.payerContactId) : null,
-            createdAt: new Date(),
-            updatedAt: new Date(),
-          };
-
-          await db.insert(paymentAllocations).values(allocationToInsert);
-
-          if (alloc.installmentScheduleId && validatedData.paymentStatus) {
-            await updateInstallmentScheduleStatus(
-              alloc.installmentScheduleId,
-              validatedData.paymentStatus,
-              validatedData.receivedDate || validatedData.paymentDate
-            );
-          }
-        }
-      } else {
-        throw new AppError("Allocations must be provided when converting to split payment.", 400);
+        await tx.update(payment).set(updateData).where(eq(payment.id, paymentId));
+        pledgesToUpdate.add(targetPledgeId);
       }
-    }
-
-    // SCENARIO 4: Updating existing split payment (including multi-contact)
-    else if (isCurrentlySplit && willBeSplit) {
-      console.log("Updating existing split payment");
 
-      // Handle multi-contact update
-      if (willBeMultiContact && validatedData.multiContactAllocations) {
-        const totalAllocated = validatedData.multiContactAllocations.reduce((contactSum, contact) => {
-          return contactSum + contact.pledges.reduce((pledgeSum, pledge) => pledgeSum + pledge.allocatedAmount, 0);
-        }, 0);
-        const paymentAmount = validatedData.amount ?? parseFloat(currentPayment.amount);
+      // SCENARIO 3: Converting regular payment to split payment (including multi-contact)
+      else if (!isCurrentlySplit && willBeSplit) {
+        console.log("Converting regular payment to split payment");
 
-        if (Math.abs(totalAllocated - paymentAmount) > 0.01) {
-          throw new AppError(
+        // Handle multi-contact case
+        if (willBeMultiContact && validatedData.multiContactAllocations) {
+          assertAllocationTotal(
             "Invalid multi-contact allocation amounts",
-            400,
-            {
-              details: `Total allocated amount (${totalAllocated.toFixed(2)}) must equal payment amount (${paymentAmount.toFixed(2)}).`,
-              totalAllocated,
-              paymentAmount,
-              difference: Math.abs(totalAllocated - paymentAmount),
-            }
+            validatedData.multiContactAllocations.flatMap((contact) => contact.pledges.map((pledge) => pledge.allocatedAmount)),
+            validatedData.amount ?? currentPayment.amount,
+            validatedData.currency || currentPayment.currency
           );
-        }
 
-        // Clear existing allocations
-        const allocationsToDelete = existingAllocations;
-        for (const allocation of allocationsToDelete) {
-          if (allocation.installmentScheduleId) {
-            await db
+          if (currentPayment.installmentScheduleId) {
+            await tx
               .update(installmentSchedule)
               .set({
                 status: "pending",
                 paidDate: null,
                 updatedAt: new Date(),
               })
-              .where(eq(installmentSchedule.id, allocation.installmentScheduleId));
+              .where(eq(installmentSchedule.id, currentPayment.installmentScheduleId));
           }
-        }
-
-        await db.delete(paymentAllocations).where(eq(paymentAllocations.paymentId, paymentId));
-
-        const updateData = await buildUpdateData(validatedData);
-        updateData.amountInPledgeCurrency = null;
-        updateData.pledgeCurrencyExchangeRate = null;
 
-        await db.update(payment).set(updateData).where(eq(payment.id, paymentId));
+          const updateData = await buildUpdateData(validatedData);
+          updateData.pledgeId = null;
+          updateData.installmentScheduleId = null;
+          updateData.amountInPledgeCurrency = null;
+          updateData.pledgeCurrencyExchangeRate = null;
 
-        const exchangeRateDate = validatedData.receivedDate || new Date().toISOString().split('T')[0];
-        const paymentCurrency = validatedData.currency || currentPayment.currency;
+          await tx.update(payment).set(updateData).where(eq(payment.id, paymentId));
 
-        await processMultiContactPayment(
-          paymentId,
-          validatedData.multiContactAllocations,
-          paymentCurrency,
-          exchangeRateDate,
-          validatedData.isThirdPartyPayment ? (validatedData.thirdPartyContactId || validatedData.payerContactId) : null
-        );
+          const exchangeRateDate = validatedData.receivedDate || new Date().toISOString().split('T')[0];
+          const paymentCurrency = validatedData.currency || currentPayment.currency;
 
-        validatedData.multiContactAllocations.forEach(contact => {
-          contact.pledges.forEach(pledge => pledgesToUpdate.add(pledge.pledgeId));
-        });
-      }
-      // Handle regular split payment update
-      else if (Array.isArray(validatedData.allocations) && validatedData.allocations.length > 0) {
-        const totalAllocated = validatedData.allocations.reduce((sum, alloc) => sum + alloc.allocatedAmount, 0);
-        const paymentAmount = validatedData.amount ?? parseFloat(currentPayment.amount);
+          await processMultiContactPayment(
+            paymentId,
+            validatedData.multiContactAllocations,
+            paymentCurrency,
+            exchangeRateDate,
+            validatedData.isThirdPartyPayment ? (validatedData.thirdPartyContactId || validatedData.payerContactId) : null,
+            tx
+          );
 
-        if (Math.abs(totalAllocated - paymentAmount) > 0.01) {
-          throw new AppError(
+          validatedData.multiContactAllocations.forEach(contact => {
+            contact.pledges.forEach(pledge => pledgesToUpdate.add(pledge.pledgeId));
+          });
+        }
+        // Handle regular split payment
+        else if (validatedData.allocations && validatedData.allocations.length > 0) {
+          assertAllocationTotal(
             "Invalid allocation amounts",
-            400,
-            {
-              details: `Total allocated amount (${totalAllocated.toFixed(2)}) must equal payment amount (${paymentAmount.toFixed(2)}).`,
-              totalAllocated,
-              paymentAmount,
-              difference: Math.abs(totalAllocated - paymentAmount),
-            }
+            validatedData.allocations.map((alloc) => alloc.allocatedAmount),
+            validatedData.amount ?? currentPayment.amount,
+            validatedData.currency || currentPayment.currency
           );
-        }
 
-        const pledgeMap = new Map();
-        for (const allocation of validatedData.allocations) {
-          if (allocation.id) {
-            const existingAllocation = existingAllocations.find((existing) => existing.id === allocation.id);
-            if (!existingAllocation) {
+          const pledgeMap = new Map();
+          for (const allocation of validatedData.allocations) {
+            if (!allocation.allocatedAmount || allocation.allocatedAmount <= 0) {
               throw new AppError(
-                "Invalid allocation ID",
+                "Invalid allocation amount",
                 400,
-                { details: `Allocation with ID ${allocation.id} does not exist for this payment.` }
+                { details: `Allocated amount must be positive. Found: ${allocation.allocatedAmount || 0} for pledge ${allocation.pledgeId}` }
               );
             }
-          }
 
-          if (!allocation.allocatedAmount || allocation.allocatedAmount <= 0) {
-            throw new AppError(
-              "Invalid allocation amount",
-              400,
-              { details: `Allocated amount must be positive. Found: ${allocation.allocatedAmount || 0} for pledge ${allocation.pledgeId}` }
-            );
-          }
+            const pledgeExists = await tx
+              .select({
+                id: pledge.id,
+                currency: pledge.currency,
+                exchangeRate: pledge.exchangeRate,
+                contactId: pledge.contactId
+              })
+              .from(pledge)
+              .where(eq(pledge.id, allocation.pledgeId))
+              .limit(1);
 
-          const pledgeExists = await db
-            .select({
-              id: pledge.id,
-              currency: pledge.currency,
-              exchangeRate: pledge.exchangeRate,
-              contactId: pledge.contactId
-            })
-            .from(pledge)
-            .where(eq(pledge.id, allocation.pledgeId))
-            .limit(1);
+            if (pledgeExists.length === 0) {
+              throw new AppError(
+                "Invalid pledge ID in allocation",
+                400,
+                { details: `Pledge with ID ${allocation.pledgeId} does not exist.` }
+              );
+            }
 
-          if (pledgeExists.length === 0) {
-            throw new AppError(
-              "Invalid pledge ID in allocation",
-              400,
-              { details: `Pledge with ID ${allocation.pledgeId} does not exist.` }
-            );
+            pledgeMap.set(allocation.pledgeId, pledgeExists[0]);
+            pledgesToUpdate.add(allocation.pledgeId);
           }
 
-          pledgeMap.set(allocation.pledgeId, pledgeExists[0]);
-          pledgesToUpdate.add(allocation.pledgeId);
-        }
-
-        const newAllocationIds = validatedData.allocations.filter(a => a.id).map(a => a.id!);
-        const allocationsToDelete = existingAllocations.filter(
-          existing => !newAllocationIds.includes(existing.id)
-        );
-
-        for (const allocation of allocationsToDelete) {
-          if (allocation.installmentScheduleId) {
-            await db
+          if (currentPayment.installmentScheduleId) {
+            await tx
               .update(installmentSchedule)
               .set({
                 status: "pending",
                 paidDate: null,
                 updatedAt: new Date(),
               })
-              .where(eq(installmentSchedule.id, allocation.installmentScheduleId));
+              .where(eq(installmentSchedule.id, currentPayment.installmentScheduleId));
           }
-        }
 
-        if (allocationsToDelete.length > 0) {
-          for (const allocationToDelete of allocationsToDelete) {
-            await db
-              .delete(paymentAllocations)
-              .where(eq(paymentAllocations.id, allocationToDelete.id));
+          const updateData = await buildUpdateData(validatedData);
+          updateData.pledgeId = null;
+          updateData.installmentScheduleId = null;
+          updateData.amountInPledgeCurrency = null;
+          updateData.pledgeCurrencyExchangeRate = null;
+
+          await tx.update(payment).set(updateData).where(eq(payment.id, paymentId));
+
+          const exchangeRateDate = validatedData.receivedDate || new Date().toISOString().split('T')[0];
+          const paymentCurrency = validatedData.currency || currentPayment.currency;
+
+          for (const alloc of validatedData.allocations) {
+            const pledgeInfo = pledgeMap.get(alloc.pledgeId);
+            const allocationCurrency = alloc.currency ?? paymentCurrency;
+
+            const usdConversion = await convertCurrency(
+              alloc.allocatedAmount,
+              allocationCurrency,
+              'USD',
+              exchangeRateDate
+            );
+
+            const pledgeConversion = await convertCurrency(
+              alloc.allocatedAmount,
+              allocationCurrency,
+              pledgeInfo.currency,
+              exchangeRateDate
+            );
+
+            const allocationToInsert: NewPaymentAllocation = {
+              paymentId: paymentId,
+              pledgeId: alloc.pledgeId,
+              allocatedAmount: roundMoney(alloc.allocatedAmount, allocationCurrency),
+              allocatedAmountUsd: usdConversion.convertedAmount,
+              allocatedAmountInPledgeCurrency: pledgeConversion.convertedAmount,
+              currency: allocationCurrency,
+              installmentScheduleId: alloc.installmentScheduleId ?? null,
+              receiptNumber: alloc.receiptNumber ?? null,
+              receiptType: alloc.receiptType ?? null,
+              receiptIssued: alloc.receiptIssued ?? false,
+              notes: alloc.notes ?? null,
+              payerContactId: validatedData.isThirdPartyPayment ? (validatedData.thirdPartyContactId || validatedData.payerContactId) : null,
+              createdAt: new Date(),
+              updatedAt: new Date(),
+            };
+
+            await tx.insert(paymentAllocations).values(allocationToInsert);
+
+            if (alloc.installmentScheduleId && validatedData.paymentStatus) {
+              await updateInstallmentScheduleStatus(
+                alloc.installmentScheduleId,
+                validatedData.paymentStatus,
+                validatedData.receivedDate || validatedData.paymentDate
+              );
+            }
           }
+        } else {
+          throw new AppError("Allocations must be provided when converting to split payment.", 400);
         }
+      }
 
-        const updateData = await buildUpdateData(validatedData);
-        updateData.amountInPledgeCurrency = null;
-        updateData.pledgeCurrencyExchangeRate = null;
+      // SCENARIO 4: Updating existing split payment (including multi-contact)
+      else if (isCurrentlySplit && willBeSplit) {
+        console.log("Updating existing split payment");
 
-        await db.update(payment).set(updateData).where(eq(payment.id, paymentId));
+        // Handle multi-contact update
+        if (willBeMultiContact && validatedData.multiContactAllocations) {
+          assertAllocationTotal(
+            "Invalid multi-contact allocation amounts",
+            validatedData.multiContactAllocations.flatMap((contact) => contact.pledges.map((pledge) => pledge.allocatedAmount)),
+            validatedData.amount ?? currentPayment.amount,
+            validatedData.currency || currentPayment.currency
+          );
 
-        const exchangeRateDate = validatedData.receivedDate || new Date().toISOString().split('T')[0];
-        const paymentCurrency = validatedData.currency || currentPayment.currency;
+          // Clear existing allocations
+          const allocationsToDelete = existingAllocations;
+          for (const allocation of allocationsToDelete) {
+            if (allocation.installmentScheduleId) {
+              await tx
+                .update(installmentSchedule)
+                .set({
+                  status: "pending",
+                  paidDate: null,
+                  updatedAt: new Date(),
+                })
+                .where(eq(installmentSchedule.id, allocation.installmentScheduleId));
+            }
+          }
+
+          await tx.delete(paymentAllocations).where(eq(paymentAllocations.paymentId, paymentId));
 
-        for (const allocation of validatedData.allocations) {
-          const pledgeInfo = pledgeMap.get(allocation.pledgeId);
-          const allocationCurrency = allocation.currency ?? paymentCurrency;
+          const updateData = await buildUpdateData(validatedData);
+          updateData.amountInPledgeCurrency = null;
+          updateData.pledgeCurrencyExchangeRate = null;
 
-          const usdConversion = await convertCurrency(
-            allocation.allocatedAmount,
-            allocationCurrency,
-            'USD',
-            exchangeRateDate
+          await tx.update(payment).set(updateData).where(eq(payment.id, paymentId));
+
+          const exchangeRateDate = validatedData.receivedDate || new Date().toISOString().split('T')[0];
+          const paymentCurrency = validatedData.currency || currentPayment.currency;
+
+          await processMultiContactPayment(
+            paymentId,
+            validatedData.multiContactAllocations,
+            paymentCurrency,
+            exchangeRateDate,
+            validatedData.isThirdPartyPayment ? (validatedData.thirdPartyContactId || validatedData.payerContactId) : null,
+            tx
           );
 
-          const pledgeConversion = await convertCurrency(
-            allocation.allocatedAmount,
-            allocationCurrency,
-            pledgeInfo.currency,
-            exchangeRateDate
+          validatedData.multiContactAllocations.forEach(contact => {
+            contact.pledges.forEach(pledge => pledgesToUpdate.add(pledge.pledgeId));
+          });
+        }
+        // Handle regular split payment update
+        else if (Array.isArray(validatedData.allocations) && validatedData.allocations.length > 0) {
+          assertAllocationTotal(
+            "Invalid allocation amounts",
+            validatedData.allocations.map((alloc) => alloc.allocatedAmount),
+            validatedData.amount ?? currentPayment.amount,
+            validatedData.currency || currentPayment.currency
           );
 
-          if (allocation.id) {
-            const allocationUpdateData: Record<string, string | boolean | number | null | undefined | Date> = {
-              pledgeId: allocation.pledgeId,
-              allocatedAmount: allocation.allocatedAmount.toFixed(2),
-              allocatedAmountUsd: usdConversion.convertedAmount.toFixed(2),
-              allocatedAmountInPledgeCurrency: pledgeConversion.convertedAmount.toFixed(2),
-              currency: allocationCurrency as "USD" | "ILS" | "EUR" | "JPY" | "GBP" | "AUD" | "CAD" | "ZAR",
-              notes: allocation.notes ?? null,
-              installmentScheduleId: allocation.installmentScheduleId ?? null,
-              payerContactId: validatedData.isThirdPartyPayment ? (validatedData.thirdPartyContactId || validatedData.payerContactId) : null,
-              updatedAt: new Date(),
-            };
+          const pledgeMap = new Map();
+          for (const allocation of validatedData.allocations) {
+            if (allocation.id) {
+              const existingAllocation = existingAllocations.find((existing) => existing.id === allocation.id);
+              if (!existingAllocation) {
+                throw new AppError(
+                  "Invalid allocation ID",
+                  400,
+                  { details: `Allocation with ID ${allocation.id} does not exist for this payment.` }
+                );
+              }
+            }
 
-            if ("receiptNumber" in allocation) {
-              allocationUpdateData.receiptNumber = allocation.receiptNumber ?? null;
+            if (!allocation.allocatedAmount || allocation.allocatedAmount <= 0) {
+              throw new AppError(
+                "Invalid allocation amount",
+                400,
+                { details: `Allocated amount must be positive. Found: ${allocation.allocatedAmount || 0} for pledge ${allocation.pledgeId}` }
+              );
             }
-            if ("receiptType" in allocation) {
-              allocationUpdateData.receiptType = allocation.receiptType ?? null;
+
+            const pledgeExists = await tx
+              .select({
+                id: pledge.id,
+                currency: pledge.currency,
+                exchangeRate: pledge.exchangeRate,
+                contactId: pledge.contactId
+              })
+              .from(pledge)
+              .where(eq(pledge.id, allocation.pledgeId))
+              .limit(1);
+
+            if (pledgeExists.length === 0) {
+              throw new AppError(
+                "Invalid pledge ID in allocation",
+                400,
+                { details: `Pledge with ID ${allocation.pledgeId} does not exist.` }
+              );
             }
-            if ("receiptIssued" in allocation) {
-              allocationUpdateData.receiptIssued = allocation.receiptIssued ?? false;
+
+            pledgeMap.set(allocation.pledgeId, pledgeExists[0]);
+            pledgesToUpdate.add(allocation.pledgeId);
+          }
+
+          const newAllocationIds = validatedData.allocations.filter(a => a.id).map(a => a.id!);
+          const allocationsToDelete = existingAllocations.filter(
+            existing => !newAllocationIds.includes(existing.id)
+          );
+
+          for (const allocation of allocationsToDelete) {
+            if (allocation.installmentScheduleId) {
+              await tx
+                .update(installmentSchedule)
+                .set({
+                  status: "pending",
+                  paidDate: null,
+                  updatedAt: new Date(),
+                })
+                .where(eq(installmentSchedule.id, allocation.installmentScheduleId));
             }
+          }
 
-            await db
-              .update(paymentAllocations)
-              .set(allocationUpdateData)
-              .where(eq(paymentAllocations.id, allocation.id));
-          } else {
-            const allocationToInsert: NewPaymentAllocation = {
-              paymentId: paymentId,
-              pledgeId: allocation.pledgeId,
-              allocatedAmount: allocation.allocatedAmount.toFixed(2),
-              allocatedAmountUsd: usdConversion.convertedAmount.toFixed(2),
-              allocatedAmountInPledgeCurrency: pledgeConversion.convertedAmount.toFixed(2),
-              currency: allocationCurrency as "USD" | "ILS" | "EUR" | "JPY" | "GBP" | "AUD" | "CAD" | "ZAR",
-              installmentScheduleId: allocation.installmentScheduleId ?? null,
-              receiptNumber: allocation.receiptNumber ?? null,
-              receiptType: allocation.receiptType ?? null,
-              receiptIssued: allocation.receiptIssued ?? false,
-              notes: allocation.notes ?? null,
-              payerContactId: validatedData.isThirdPartyPayment ? (validatedData.thirdPartyContactId || validatedData.payerContactId) : null,
-              createdAt: new Date(),
-              updatedAt: new Date(),
-            };
-            await db.insert(paymentAllocations).values(allocationToInsert);
+          if (allocationsToDelete.length > 0) {
+            for (const allocationToDelete of allocationsToDelete) {
+              await tx
+                .delete(paymentAllocations)
+                .where(eq(paymentAllocations.id, allocationToDelete.id));
+            }
           }
 
-          if (allocation.installmentScheduleId && validatedData.paymentStatus) {
-            await updateInstallmentScheduleStatus(
-              allocation.installmentScheduleId,
-              validatedData.paymentStatus,
-              validatedData.receivedDate || validatedData.paymentDate
+          const updateData = await buildUpdateData(validatedData);
+          updateData.amountInPledgeCurrency = null;
+          updateData.pledgeCurrencyExchangeRate = null;
+
+          await tx.update(payment).set(updateData).where(eq(payment.id, paymentId));
+
+          const exchangeRateDate = validatedData.receivedDate || new Date().toISOString().split('T')[0];
+          const paymentCurrency = validatedData.currency || currentPayment.currency;
+
+          for (const allocation of validatedData.allocations) {
+            const pledgeInfo = pledgeMap.get(allocation.pledgeId);
+            const allocationCurrency = allocation.currency ?? paymentCurrency;
+
+            const usdConversion = await convertCurrency(
+              allocation.allocatedAmount,
+              allocationCurrency,
+              'USD',
+              exchangeRateDate
             );
+
+            const pledgeConversion = await convertCurrency(
+              allocation.allocatedAmount,
+              allocationCurrency,
+              pledgeInfo.currency,
+              exchangeRateDate
+            );
+
+            if (allocation.id) {
+              const allocationUpdateData: Record<string, string | boolean | number | null | undefined | Date> = {
+                pledgeId: allocation.pledgeId,
+                allocatedAmount: roundMoney(allocation.allocatedAmount, allocationCurrency),
+                allocatedAmountUsd: usdConversion.convertedAmount,
+                allocatedAmountInPledgeCurrency: pledgeConversion.convertedAmount,
+                currency: allocationCurrency,
+                notes: allocation.notes ?? null,
+                installmentScheduleId: allocation.installmentScheduleId ?? null,
+                payerContactId: validatedData.isThirdPartyPayment ? (validatedData.thirdPartyContactId || validatedData.payerContactId) : null,
+                updatedAt: new Date(),
+              };
+
+              if ("receiptNumber" in allocation) {
+                allocationUpdateData.receiptNumber = allocation.receiptNumber ?? null;
+              }
+              if ("receiptType" in allocation) {
+                allocationUpdateData.receiptType = allocation.receiptType ?? null;
+              }
+              if ("receiptIssued" in allocation) {
+                allocationUpdateData.receiptIssued = allocation.receiptIssued ?? false;
+              }
+
+              await tx
+                .update(paymentAllocations)
+                .set(allocationUpdateData)
+                .where(eq(paymentAllocations.id, allocation.id));
+            } else {
+              const allocationToInsert: NewPaymentAllocation = {
+                paymentId: paymentId,
+                pledgeId: allocation.pledgeId,
+                allocatedAmount: roundMoney(allocation.allocatedAmount, allocationCurrency),
+                allocatedAmountUsd: usdConversion.convertedAmount,
+                allocatedAmountInPledgeCurrency: pledgeConversion.convertedAmount,
+                currency: allocationCurrency,
+                installmentScheduleId: allocation.installmentScheduleId ?? null,
+                receiptNumber: allocation.receiptNumber ?? null,
+                receiptType: allocation.receiptType ?? null,
+                receiptIssued: allocation.receiptIssued ?? false,
+                notes: allocation.notes ?? null,
+                payerContactId: validatedData.isThirdPartyPayment ? (validatedData.thirdPartyContactId || validatedData.payerContactId) : null,
+                createdAt: new Date(),
+                updatedAt: new Date(),
+              };
+              await tx.insert(paymentAllocations).values(allocationToInsert);
+            }
+
+            if (allocation.installmentScheduleId && validatedData.paymentStatus) {
+              await updateInstallmentScheduleStatus(
+                allocation.installmentScheduleId,
+                validatedData.paymentStatus,
+                validatedData.receivedDate || validatedData.paymentDate
+              );
+            }
           }
-        }
-      } else {
-        const updateData = await buildUpdateData(validatedData);
-        updateData.amountInPledgeCurrency = null;
-        updateData.pledgeCurrencyExchangeRate = null;
+        } else {
+          const updateData = await buildUpdateData(validatedData);
+          updateData.amountInPledgeCurrency = null;
+          updateData.pledgeCurrencyExchangeRate = null;
 
-        await db.update(payment).set(updateData).where(eq(payment.id, paymentId));
+          await tx.update(payment).set(updateData).where(eq(payment.id, paymentId));
+        }
       }
-    }
 
-    // SCENARIO 5: Updating regular payment
-    else {
-      console.log("Updating regular payment");
+      // SCENARIO 5: Updating regular payment
+      else {
+        console.log("Updating regular payment");
 
-      if (validatedData.pledgeId && validatedData.pledgeId !== pledgeId) {
-        const newPledgeExists = await db
-          .select({ id: pledge.id })
-          .from(pledge)
-          .where(eq(pledge.id, validatedData.pledgeId))
-          .limit(1);
+        if (validatedData.pledgeId && validatedData.pledgeId !== pledgeId) {
+          const newPledgeExists = await tx
+            .select({ id: pledge.id })
+            .from(pledge)
+            .where(eq(pledge.id, validatedData.pledgeId))
+            .limit(1);
 
-        if (newPledgeExists.length === 0) {
-          throw new AppError(
-            "Invalid pledge ID",
-            400,
-            { details: `Pledge with ID ${validatedData.pledgeId} does not exist.` }
-          );
+          if (newPledgeExists.length === 0) {
+            throw new AppError(
+              "Invalid pledge ID",
+              400,
+              { details: `Pledge with ID ${validatedData.pledgeId} does not exist.` }
+            );
+          }
+
+          pledgesToUpdate.add(validatedData.pledgeId);
         }
 
-        pledgesToUpdate.add(validatedData.pledgeId);
-      }
+        const updateData = await buildUpdateData(validatedData);
+        updateData.pledgeId = validatedData.pledgeId || currentPayment.pledgeId;
 
-      const updateData = await buildUpdateData(validatedData);
-      updateData.pledgeId = validatedData.pledgeId || currentPayment.pledgeId;
+        await tx.update(payment).set(updateData).where(eq(payment.id, paymentId));
+      }
 
-      await db.update(payment).set(updateData).where(eq(payment.id, paymentId));
-    }
+      // Get updated payment for response
+      const updatedPaymentRows = await tx
+        .select({
+          id: payment.id,
+          pledgeId: payment.pledgeId,
+          paymentPlanId: payment.paymentPlanId,
+          installmentScheduleId: payment.installmentScheduleId,
+          relationshipId: payment.relationshipId,
+          payerContactId: payment.payerContactId,
+          isThirdPartyPayment: payment.isThirdPartyPayment,
+          amount: payment.amount,
+          currency: payment.currency,
+          amountUsd: payment.amountUsd,
+          amountInPledgeCurrency: payment.amountInPledgeCurrency,
+          pledgeCurrencyExchangeRate: payment.pledgeCurrencyExchangeRate,
+          amountInPlanCurrency: payment.amountInPlanCurrency,
+          planCurrencyExchangeRate: payment.planCurrencyExchangeRate,
+          exchangeRate: payment.exchangeRate,
+          paymentDate: payment.paymentDate,
+          receivedDate: payment.receivedDate,
+          checkDate: payment.checkDate,
+          paymentMethod: payment.paymentMethod,
+          methodDetail: payment.methodDetail,
+          paymentStatus: payment.paymentStatus,
+          referenceNumber: payment.referenceNumber,
+          checkNumber: payment.checkNumber,
+          account: payment.account,
+          receiptNumber: payment.receiptNumber,
+          receiptType: payment.receiptType,
+          receiptIssued: payment.receiptIssued,
+          solicitorId: payment.solicitorId,
+          bonusPercentage: payment.bonusPercentage,
+          bonusAmount: payment.bonusAmount,
+          bonusRuleId: payment.bonusRuleId,
+          notes: payment.notes,
+          createdAt: payment.createdAt,
+          updatedAt: payment.updatedAt,
+          thirdPartyContactName: sql<string>`(
+            SELECT CONCAT(first_name, ' ', last_name) 
+            FROM ${contact} 
+            WHERE id = ${payment.payerContactId}
+          )`.as("thirdPartyContactName"),
+        })
+        .from(payment)
+        .where(eq(payment.id, validatedData.paymentId))
+        .limit(1);
 
-    // Get updated payment for response
-    const updatedPaymentRows = await db
-      .select({
-        id: payment.id,
-        pledgeId: payment.pledgeId,
-        paymentPlanId: payment.paymentPlanId,
-        installmentScheduleId: payment.installmentScheduleId,
-        relationshipId: payment.relationshipId,
-        payerContactId: payment.payerContactId,
-        isThirdPartyPayment: payment.isThirdPartyPayment,
-        amount: payment.amount,
-        currency: payment.currency,
-        amountUsd: payment.amountUsd,
-        amountInPledgeCurrency: payment.amountInPledgeCurrency,
-        pledgeCurrencyExchangeRate: payment.pledgeCurrencyExchangeRate,
-        amountInPlanCurrency: payment.amountInPlanCurrency,
-        planCurrencyExchangeRate: payment.planCurrencyExchangeRate,
-        exchangeRate: payment.exchangeRate,
-        paymentDate: payment.paymentDate,
-        receivedDate: payment.receivedDate,
-        checkDate: payment.checkDate,
-        paymentMethod: payment.paymentMethod,
-        methodDetail: payment.methodDetail,
-        paymentStatus: payment.paymentStatus,
-        referenceNumber: payment.referenceNumber,
-        checkNumber: payment.checkNumber,
-        account: payment.account,
-        receiptNumber: payment.receiptNumber,
-        receiptType: payment.receiptType,
-        receiptIssued: payment.receiptIssued,
-        solicitorId: payment.solicitorId,
-        bonusPercentage: payment.bonusPercentage,
-        bonusAmount: payment.bonusAmount,
-        bonusRuleId: payment.bonusRuleId,
-        notes: payment.notes,
-        createdAt: payment.createdAt,
-        updatedAt: payment.updatedAt,
-        thirdPartyContactName: sql<string>`(
-          SELECT CONCAT(first_name, ' ', last_name) 
-          FROM ${contact} 
-          WHERE id = ${payment.payerContactId}
-        )`.as("thirdPartyContactName"),
-      })
-      .from(payment)
-      .where(eq(payment.id, validatedData.paymentId))
-      .limit(1);
+      if (updatedPaymentRows.length === 0) {
+        throw new AppError("Failed to fetch updated payment", 500);
+      }
+      const updatedPayment = updatedPaymentRows[0];
 
-    if (updatedPaymentRows.length === 0) {
-      throw new AppError("Failed to fetch updated payment", 500);
-    }
-    const updatedPayment = updatedPaymentRows[0];
-
-    // Update related entities
-    if (updatedPayment.paymentPlanId) {
-      try {
-        await updatePaymentPlanTotals(updatedPayment.paymentPlanId);
-      } catch (error) {
-        console.error(`Failed to update payment plan ${updatedPayment.paymentPlanId}:`, error);
+      // Update related entities; a failure here rolls the whole edit back
+      if (updatedPayment.paymentPlanId) {
+        await updatePaymentPlanTotals(updatedPayment.paymentPlanId, tx);
       }
-    }
 
-    if (updatedPayment.installmentScheduleId && validatedData.paymentStatus) {
-      try {
+      if (updatedPayment.installmentScheduleId && validatedData.paymentStatus) {
         await updateInstallmentScheduleStatus(
           updatedPayment.installmentScheduleId,
           validatedData.paymentStatus,
-          validatedData.receivedDate || validatedData.paymentDate
+          validatedData.receivedDate || validatedData.paymentDate,
+          tx
         );
-      } catch (error) {
-        console.error(`Failed to update installment schedule ${updatedPayment.installmentScheduleId}:`, error);
       }
-    }
 
-    // Update pledge totals for all affected pledges
-    for (const pledgeId of pledgesToUpdate) {
-      try {
-        await updatePledgeTotals(pledgeId);
-      } catch (error) {
-        console.error(`Failed to update pledge ${pledgeId} totals:`, error);
+      // Update pledge totals for all affected pledges
+      for (const pledgeId of pledgesToUpdate) {
+        await updatePledgeTotals(pledgeId, tx);
+      }
+
+      if (validatedData.tagIds !== undefined) {
+        await validateAndUpdatePaymentTags(paymentId, validatedData.tagIds, tx);
       }
-    }
+
+      return updatedPayment;
+    });
 
     // Get allocations for response
     let allocations: AllocationResponse[] | null = null;
@@ -1785,9 +1600,18 @@ export async function PATCH(
 
       multiContactAllocations = Array.from(contactAllocationsMap.values());
     }
-    if (validatedData.tagIds !== undefined) {
-      await validateAndUpdatePaymentTags(paymentId, validatedData.tagIds);
-    }
+
+    const [paymentAfter] = await db.select().from(payment).where(eq(payment.id, paymentId)).limit(1);
+    const allocationsAfter = await db
+      .select()
+      .from(paymentAllocations)
+      .where(eq(paymentAllocations.paymentId, paymentId));
+    await recordAudit(
+      request,
+      { action: "update", entityType: "payment", entityId: paymentId, before: paymentBefore, after: paymentAfter },
+      ...diffCollection("paymentAllocation", allocationsBefore, allocationsAfter, `payment #${paymentId}`)
+    );
+
     return NextResponse.json({
       message: `${finalIsMultiContact ? "Multi-contact payment" : finalIsSplit ? "Split payment" : "Payment"} updated successfully`,
       payment: {
@@ -1813,8 +1637,8 @@ export async function PATCH(
     }
     return ErrorHandler.handle(err);
   }
-}
-export async function GET(request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+});
+export const GET = withAuth({ role: "user", location: { resource: "pledge", param: "pledgeId" } }, async (request: NextRequest, { params }: { params: Promise<{ id: string }> }) => {
   try {
     const { id } = await params;
     const pledgeId = parseInt(id, 10);
@@ -2030,12 +1854,12 @@ export async function GET(request: NextRequest, { params }: { params: Promise<{
     console.error(error);
     return NextResponse.json({ error: "Failed to fetch payments" }, { status: 500 });
   }
-}
+});
 
-export async function DELETE(
+export const DELETE = withAuth({ role: "user", location: { resource: "payment", param: "pledgeId" } }, async (
   request: NextRequest,
   { params }: { params: Promise<{ pledgeId: string }> }
-) {
+) => {
   try {
     const { pledgeId } = await params;
     const paymentId = parseInt(pledgeId, 10);
@@ -2043,6 +1867,7 @@ export async function DELETE(
     if (isNaN(paymentId) || paymentId <= 0) {
       return NextResponse.json({ error: "Invalid payment ID" }, { status: 400 });
     }
+    await assertPaymentUnlocked(paymentId);
 
     const existingPayment = await db
       .select({
@@ -2080,52 +1905,79 @@ export async function DELETE(
       .from(bonusCalculation)
       .where(eq(bonusCalculation.paymentId, paymentId));
 
-    if (currentPayment.installmentScheduleId) {
-      await db
-        .update(installmentSchedule)
-        .set({
-          paymentId: null,
-          status: "pending",
-          paidDate: null,
-          updatedAt: new Date(),
-        })
-        .where(eq(installmentSchedule.id, currentPayment.installmentScheduleId));
-    }
+    const { deletedAllocations, deletedPaymentRow } = await withTransaction(async (tx) => {
+      if (currentPayment.installmentScheduleId) {
+        await tx
+          .update(installmentSchedule)
+          .set({
+            paymentId: null,
+            status: "pending",
+            paidDate: null,
+            updatedAt: new Date(),
+          })
+          .where(eq(installmentSchedule.id, currentPayment.installmentScheduleId));
+      }
 
-    if (existingAllocations.length > 0) {
-      const allocationInstallmentIds = existingAllocations
-        .filter(a => a.installmentScheduleId)
-        .map(a => a.installmentScheduleId!);
+      if (existingAllocations.length > 0) {
+        const allocationInstallmentIds = existingAllocations
+          .filter(a => a.installmentScheduleId)
+          .map(a => a.installmentScheduleId!);
 
-      if (allocationInstallmentIds.length > 0) {
-        for (const installmentId of allocationInstallmentIds) {
-          await db
-            .update(installmentSchedule)
-            .set({
-              status: "pending",
-              paidDate: null,
-              updatedAt: new Date(),
-            })
-            .where(eq(installmentSchedule.id, installmentId));
+        if (allocationInstallmentIds.length > 0) {
+          for (const installmentId of allocationInstallmentIds) {
+            await tx
+              .update(installmentSchedule)
+              .set({
+                status: "pending",
+                paidDate: null,
+                updatedAt: new Date(),
+              })
+              .where(eq(installmentSchedule.id, installmentId));
+          }
         }
       }
-    }
 
-    if (bonusCalculations.length > 0) {
-      await db
-        .delete(bonusCalculation)
-        .where(eq(bonusCalculation.paymentId, paymentId));
-    }
+      if (bonusCalculations.length > 0) {
+        await tx
+          .delete(bonusCalculation)
+          .where(eq(bonusCalculation.paymentId, paymentId));
+      }
 
-    if (existingAllocations.length > 0) {
-      await db
-        .delete(paymentAllocations)
-        .where(eq(paymentAllocations.paymentId, paymentId));
-    }
+      const deletedAllocations = existingAllocations.length > 0
+        ? await tx
+          .delete(paymentAllocations)
+          .where(eq(paymentAllocations.paymentId, paymentId))
+          .returning()
+        : [];
+
+      const [deletedPaymentRow] = await tx
+        .delete(payment)
+        .where(eq(payment.id, paymentId))
+        .returning();
+
+      if (existingAllocations.length > 0) {
+        const uniquePledgeIds = [...new Set(existingAllocations.map(a => a.pledgeId))];
+        for (const pledgeId of uniquePledgeIds) {
+          await updatePledgeTotals(pledgeId, tx);
+        }
+      }
+
+      if (currentPayment.pledgeId && existingAllocations.length === 0) {
+        await updatePledgeTotals(currentPayment.pledgeId, tx);
+      }
+
+      if (currentPayment.paymentPlanId) {
+        await updatePaymentPlanTotals(currentPayment.paymentPlanId, tx);
+      }
+
+      return { deletedAllocations, deletedPaymentRow };
+    });
 
-    await db
-      .delete(payment)
-      .where(eq(payment.id, paymentId));
+    await recordAudit(
+      request,
+      { action: "delete", entityType: "payment", entityId: paymentId, before: deletedPaymentRow },
+      ...diffCollection("paymentAllocation", deletedAllocations, [], `deleted with payment #${paymentId}`)
+    );
 
     const deletionResult = {
       deletedPayment: currentPayment,
@@ -2135,33 +1987,6 @@ export async function DELETE(
 
     const { deletedPayment, allocations } = deletionResult;
 
-    if (allocations.length > 0) {
-      const uniquePledgeIds = [...new Set(allocations.map(a => a.pledgeId))];
-      for (const pledgeId of uniquePledgeIds) {
-        try {
-          await updatePledgeTotals(pledgeId);
-        } catch (error) {
-          console.error(`Failed to update pledge ${pledgeId} totals:`, error);
-        }
-      }
-    }
-
-    if (deletedPayment.pledgeId && allocations.length === 0) {
-      try {
-        await updatePledgeTotals(deletedPayment.pledgeId);
-      } catch (error) {
-        console.error(`Failed to update pledge ${deletedPayment.pledgeId} totals:`, error);
-      }
-    }
-
-    if (deletedPayment.paymentPlanId) {
-      try {
-        await updatePaymentPlanTotals(deletedPayment.paymentPlanId);
-      } catch (error) {
-        console.error(`Failed to update payment plan ${deletedPayment.paymentPlanId} totals:`, error);
-      }
-    }
-
     return NextResponse.json({
       message: "Payment deleted successfully",
       details: {
@@ -2189,4 +2014,4 @@ export async function DELETE(
 
     return ErrorHandler.handle(error);
   }
-}
\ No newline at end of file
+});
\ No newline at end of file
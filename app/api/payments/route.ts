@@ -1,10 +1,18 @@
 import { NextRequest, NextResponse } from "next/server";
-import { db } from "@/lib/db";
-import { payment, pledge, paymentAllocations, installmentSchedule, paymentPlan, solicitor, exchangeRate, currencyConversionLog, currencyEnum, contact, tag, paymentTags } from "@/lib/db/schema";
-import { sql, eq, and, or, lte, desc, inArray } from "drizzle-orm";
+import { db, withTransaction, type DbClient } from "@/lib/db";
+import { payment, pledge, paymentAllocations, installmentSchedule, paymentPlan, solicitor, currencyConversionLog, contact, tag, paymentTags } from "@/lib/db/schema";
+import { sql, eq, and, or, inArray } from "drizzle-orm";
 import type { NewPaymentAllocation, NewCurrencyConversionLog, NewPaymentTag } from "@/lib/db/schema";
 import { z } from "zod";
 import { ErrorHandler } from "@/lib/error-handler";
+import { withAuth, assertLocationAccess, paymentLocationFilter, recordLocation } from "@/lib/auth-guard";
+import { recordAudit } from "@/lib/audit-log";
+import { dedicationFields } from "@/lib/form-schemas/memorial";
+import { resolveDedication } from "@/lib/memorials/memorials";
+import { assertActiveCurrency } from "@/lib/currencies/currencies";
+import { currencyCodeSchema } from "@/lib/form-schemas/currency";
+import { getUsdToCurrencyRate } from "@/lib/payment-totals";
+import { convertAmount, crossRate, decimal, formatRate, roundMoney, sumMoney, type Decimal, type DecimalInput } from "@/lib/money";
 
 class AppError extends Error {
   statusCode: number;
@@ -16,7 +24,6 @@ class AppError extends Error {
   }
 }
 
-const supportedCurrencies = ["USD", "ILS", "EUR", "JPY", "GBP", "AUD", "CAD", "ZAR"] as const;
 const receiptTypeValues = ["invoice", "receipt", "confirmation", "other"] as const;
 const paymentStatusValues = [
   "pending", "completed", "failed", "cancelled", "refunded", "processing", "expected"
@@ -92,7 +99,7 @@ const allocationCreateSchema = z.object({
   amount: z.number().positive().optional(),
   installmentScheduleId: z.number().positive().optional().nullable(),
   notes: z.string().optional().nullable(),
-  currency: z.enum(supportedCurrencies).optional(),
+  currency: currencyCodeSchema.optional(),
   exchangeRate: z.number().positive().optional(),
   receiptNumber: z.string().optional().nullable(),
   receiptType: z.enum(receiptTypeValues).optional().nullable(),
@@ -111,7 +118,7 @@ const allocationCreateSchema = z.object({
 
 const paymentCreateSchema = z.object({
   amount: z.number().positive(),
-  currency: z.enum(supportedCurrencies),
+  currency: currencyCodeSchema,
   exchangeRate: z.number().positive(),
   // Form provides these but we'll calculate them
   amountUsd: z.number().optional(),
@@ -157,6 +164,7 @@ const paymentCreateSchema = z.object({
   autoAdjustAllocations: z.boolean().optional(),
   redistributionMethod: z.enum(["proportional", "equal", "custom"]).optional(),
   tagIds: z.array(z.number().positive()).optional().default([]),
+  ...dedicationFields,
 })
   .superRefine((data, ctx) => {
     const hasAllocations = data.allocations && data.allocations.length > 0;
@@ -207,9 +215,8 @@ const paymentCreateSchema = z.object({
     }
 
     if (hasAllocations && data.amount) {
-      const totalAllocated = data.allocations!.reduce((sum, alloc) => sum + alloc.allocatedAmount, 0);
-      const difference = Math.abs(totalAllocated - data.amount);
-      if (difference > 0.01) {
+      const totalAllocated = sumMoney(data.allocations!.map((alloc) => alloc.allocatedAmount), data.currency);
+      if (decimal(totalAllocated).compare(roundMoney(data.amount, data.currency)) !== 0) {
         ctx.addIssue({
           code: z.ZodIssueCode.custom,
           message: "Total allocation amount must equal the payment amount for split payments",
@@ -219,41 +226,17 @@ const paymentCreateSchema = z.object({
     }
   });
 
-// Enhanced currency conversion helper
-async function getUsdToCurrencyRate(currency: string, date: string): Promise<number | null> {
-  if (currency === 'USD') return 1;
-
-  const rate = await db
-    .select()
-    .from(exchangeRate)
-    .where(
-      and(
-        eq(exchangeRate.baseCurrency, 'USD' as (typeof currencyEnum.enumValues)[number]),
-        eq(exchangeRate.targetCurrency, currency as (typeof currencyEnum.enumValues)[number]),
-        lte(exchangeRate.date, date)
-      )
-    )
-    .orderBy(desc(exchangeRate.date))
-    .limit(1);
-
-  if (rate.length > 0) {
-    return parseFloat(rate[0].rate);
-  }
-
-  return null;
-}
-
-async function getExchangeRate(fromCurrency: string, toCurrency: string, date: string): Promise<number> {
+async function getExchangeRate(fromCurrency: string, toCurrency: string, date: string, client: DbClient = db): Promise<Decimal> {
   if (fromCurrency === toCurrency) {
-    return 1;
+    return decimal(1);
   }
 
   // Always convert through USD
-  const usdToFromRate = await getUsdToCurrencyRate(fromCurrency, date);
-  const usdToToRate = await getUsdToCurrencyRate(toCurrency, date);
+  const usdToFromRate = await getUsdToCurrencyRate(fromCurrency, date, client);
+  const usdToToRate = await getUsdToCurrencyRate(toCurrency, date, client);
 
   if (usdToFromRate && usdToToRate) {
-    return usdToToRate / usdToFromRate;
+    return crossRate(usdToFromRate, usdToToRate);
   }
 
   throw new AppError(`Exchange rate not found for ${fromCurrency} to ${toCurrency} on or before ${date}`, 400);
@@ -261,44 +244,43 @@ async function getExchangeRate(fromCurrency: string, toCurrency: string, date: s
 
 // Enhanced currency conversion with logging
 async function convertCurrency(
-  amount: number,
+  amount: DecimalInput,
   fromCurrency: string,
   toCurrency: string,
   date: string,
   paymentId?: number,
-  conversionType: string = 'general'
-): Promise<{ convertedAmount: number; exchangeRate: number }> {
-  const rate = await getExchangeRate(fromCurrency, toCurrency, date);
-  const convertedAmount = amount * rate;
-
-  // Log conversion if paymentId is provided
+  conversionType: string = 'general',
+  client: DbClient = db
+): Promise<{ convertedAmount: string; exchangeRate: Decimal }> {
+  const rate = await getExchangeRate(fromCurrency, toCurrency, date, client);
+  // Rounded to the target currency's minor units, as it is stored
+  const convertedAmount = convertAmount(amount, rate, toCurrency);
+
+  // Log conversion if paymentId is provided. Not caught: on the transaction
+  // client a failed insert aborts the payment along with it
   if (paymentId) {
-    try {
-      const logEntry: NewCurrencyConversionLog = {
-        paymentId,
-        fromCurrency: fromCurrency as (typeof currencyEnum.enumValues)[number],
-        toCurrency: toCurrency as (typeof currencyEnum.enumValues)[number],
-        fromAmount: amount.toFixed(2),
-        toAmount: convertedAmount.toFixed(2),
-        exchangeRate: rate.toFixed(4),
-        conversionDate: date,
-        conversionType,
-        createdAt: new Date(),
-      };
+    const logEntry: NewCurrencyConversionLog = {
+      paymentId,
+      fromCurrency,
+      toCurrency,
+      fromAmount: roundMoney(amount, fromCurrency),
+      toAmount: convertedAmount,
+      exchangeRate: formatRate(rate),
+      conversionDate: date,
+      conversionType,
+      createdAt: new Date(),
+    };
 
-      await db.insert(currencyConversionLog).values(logEntry);
-    } catch (error) {
-      console.error('Error logging currency conversion:', error);
-    }
+    await client.insert(currencyConversionLog).values(logEntry);
   }
 
   return { convertedAmount, exchangeRate: rate };
 }
-async function validateAndCreatePaymentTags(paymentId: number, tagIds: number[]): Promise<void> {
+async function validateAndCreatePaymentTags(paymentId: number, tagIds: number[], client: DbClient = db): Promise<void> {
   if (!tagIds || tagIds.length === 0) return;
 
   // Validate that all tag IDs exist and are active for payments
-  const validTags = await db
+  const validTags = await client
     .select({ id: tag.id, name: tag.name })
     .from(tag)
     .where(
@@ -327,7 +309,7 @@ async function validateAndCreatePaymentTags(paymentId: number, tagIds: number[])
   }));
 
   try {
-    await db.insert(paymentTags).values(paymentTagsToInsert);
+    await client.insert(paymentTags).values(paymentTagsToInsert);
   } catch (error) {
     console.error('Error creating payment tags:', error);
     throw new AppError('Failed to associate tags with payment', 500);
@@ -336,9 +318,9 @@ async function validateAndCreatePaymentTags(paymentId: number, tagIds: number[])
 
 
 // Helper functions
-async function updatePaymentPlanTotals(paymentPlanId: number) {
+async function updatePaymentPlanTotals(paymentPlanId: number, client: DbClient = db) {
   // Get payment plan details first
-  const paymentPlanResult = await db
+  const paymentPlanResult = await client
     .select({
       totalPlannedAmount: paymentPlan.totalPlannedAmount,
       currency: paymentPlan.currency,
@@ -353,7 +335,7 @@ async function updatePaymentPlanTotals(paymentPlanId: number) {
   const planCurrency = planData.currency;
 
   // Get payments for this plan - FIXED: Only count payments with receivedDate and status='completed'
-  const payments = await db
+  const payments = await client
     .select({
       amount: payment.amount,
       currency: payment.currency,
@@ -369,8 +351,8 @@ async function updatePaymentPlanTotals(paymentPlanId: number) {
       sql`${payment.receivedDate} IS NOT NULL`
     ));
 
-  let totalPaid = 0;
-  let totalPaidUsd = 0;
+  let totalPaid = decimal(0);
+  let totalPaidUsd = decimal(0);
   const installmentsPaid = payments.length;
 
   for (const p of payments) {
@@ -379,37 +361,38 @@ async function updatePaymentPlanTotals(paymentPlanId: number) {
 
     // Use existing plan currency conversion or calculate new one
     if (p.amountInPlanCurrency) {
-      totalPaid += parseFloat(p.amountInPlanCurrency);
+      totalPaid = totalPaid.plus(p.amountInPlanCurrency);
     } else {
       const { convertedAmount } = await convertCurrency(
-        parseFloat(p.amount),
+        p.amount,
         p.currency,
         planCurrency,
         exchangeRateDate,
         undefined,
-        'plan_total_update'
+        'plan_total_update',
+        client
       );
-      totalPaid += convertedAmount;
+      totalPaid = totalPaid.plus(convertedAmount);
     }
 
     // Calculate USD amount for reporting
     if (p.currency === 'USD') {
-      totalPaidUsd += parseFloat(p.amount);
+      totalPaidUsd = totalPaidUsd.plus(p.amount);
     } else {
       const { convertedAmount } = await convertCurrency(
-        parseFloat(p.amount),
+        p.amount,
         p.currency,
         'USD',
         exchangeRateDate,
         undefined,
-        'usd_reporting'
+        'usd_reporting',
+        client
       );
-      totalPaidUsd += convertedAmount;
+      totalPaidUsd = totalPaidUsd.plus(convertedAmount);
     }
   }
 
-  const totalPlanned = parseFloat(planData.totalPlannedAmount);
-  const remainingAmount = Math.max(0, totalPlanned - totalPaid);
+  const remainingAmount = decimal(planData.totalPlannedAmount).minus(totalPaid).clampToZero();
 
   // Convert to USD for reporting
   const { convertedAmount: totalPaidUsdFinal } = await convertCurrency(
@@ -418,7 +401,8 @@ async function updatePaymentPlanTotals(paymentPlanId: number) {
     'USD',
     new Date().toISOString().split('T')[0],
     undefined,
-    'plan_reporting'
+    'plan_reporting',
+    client
   );
 
   const { convertedAmount: remainingAmountUsd } = await convertCurrency(
@@ -427,23 +411,29 @@ async function updatePaymentPlanTotals(paymentPlanId: number) {
     'USD',
     new Date().toISOString().split('T')[0],
     undefined,
-    'plan_reporting'
+    'plan_reporting',
+    client
   );
 
-  await db
+  await client
     .update(paymentPlan)
     .set({
-      totalPaid: totalPaid.toFixed(2),
-      totalPaidUsd: totalPaidUsdFinal.toFixed(2),
+      totalPaid: totalPaid.toMoney(planCurrency),
+      totalPaidUsd: totalPaidUsdFinal,
       installmentsPaid,
-      remainingAmount: remainingAmount.toFixed(2),
-      remainingAmountUsd: remainingAmountUsd.toFixed(2),
+      remainingAmount: remainingAmount.toMoney(planCurrency),
+      remainingAmountUsd,
       updatedAt: new Date(),
     })
     .where(eq(paymentPlan.id, paymentPlanId));
 }
 
-async function updateInstallmentScheduleStatus(installmentScheduleId: number, paymentStatus: string, paidDate?: string | null) {
+async function updateInstallmentScheduleStatus(
+  installmentScheduleId: number,
+  paymentStatus: string,
+  paidDate?: string | null,
+  client: DbClient = db
+) {
   let status: "pending" | "paid" | "overdue" | "cancelled" = "pending";
 
   if (paymentStatus === "completed" || paymentStatus === "processing") {
@@ -452,7 +442,7 @@ async function updateInstallmentScheduleStatus(installmentScheduleId: number, pa
     status = "cancelled";
   }
 
-  await db
+  await client
     .update(installmentSchedule)
     .set({
       status,
@@ -462,14 +452,16 @@ async function updateInstallmentScheduleStatus(installmentScheduleId: number, pa
     .where(eq(installmentSchedule.id, installmentScheduleId));
 }
 
-async function updatePledgeTotals(pledgeId: number) {
+async function updatePledgeTotals(pledgeId: number, client: DbClient = db) {
   // Get pledge details first
-  const pledgeResult = await db
+  const pledgeResult = await client
     .select({
       originalAmount: pledge.originalAmount,
       originalAmountUsd: pledge.originalAmountUsd,
       currency: pledge.currency,
       exchangeRate: pledge.exchangeRate,
+      totalAdjusted: pledge.totalAdjusted,
+      totalAdjustedUsd: pledge.totalAdjustedUsd,
     })
     .from(pledge)
     .where(eq(pledge.id, pledgeId))
@@ -483,7 +475,7 @@ async function updatePledgeTotals(pledgeId: number) {
   const pledgeCurrency = currentPledge.currency;
 
   // FIXED: Only count payments with receivedDate and status='completed' 
-  const payments = await db
+  const payments = await client
     .select({
       amount: payment.amount,
       amountUsd: payment.amountUsd,
@@ -501,7 +493,7 @@ async function updatePledgeTotals(pledgeId: number) {
     ));
 
   // FIXED: Only count allocations with receivedDate and status='completed'
-  const allocatedPayments = await db
+  const allocatedPayments = await client
     .select({
       allocatedAmount: paymentAllocations.allocatedAmount,
       allocatedAmountUsd: paymentAllocations.allocatedAmountUsd,
@@ -519,8 +511,8 @@ async function updatePledgeTotals(pledgeId: number) {
       sql`${payment.receivedDate} IS NOT NULL`
     ));
 
-  let totalPaidInPledgeCurrency = 0;
-  let totalPaidUsd = 0;
+  let totalPaidInPledgeCurrency = decimal(0);
+  let totalPaidUsd = decimal(0);
 
   // Calculate totals from direct payments
   for (const p of payments) {
@@ -529,32 +521,34 @@ async function updatePledgeTotals(pledgeId: number) {
 
     // Use existing pledge currency conversion or calculate new one
     if (p.amountInPledgeCurrency) {
-      totalPaidInPledgeCurrency += parseFloat(p.amountInPledgeCurrency);
+      totalPaidInPledgeCurrency = totalPaidInPledgeCurrency.plus(p.amountInPledgeCurrency);
     } else {
       const { convertedAmount } = await convertCurrency(
-        parseFloat(p.amount),
+        p.amount,
         p.currency,
         pledgeCurrency,
         exchangeRateDate,
         undefined,
-        'pledge_total_update'
+        'pledge_total_update',
+        client
       );
-      totalPaidInPledgeCurrency += convertedAmount;
+      totalPaidInPledgeCurrency = totalPaidInPledgeCurrency.plus(convertedAmount);
     }
 
     // Calculate USD amount
     if (p.amountUsd) {
-      totalPaidUsd += parseFloat(p.amountUsd);
+      totalPaidUsd = totalPaidUsd.plus(p.amountUsd);
     } else {
       const { convertedAmount } = await convertCurrency(
-        parseFloat(p.amount),
+        p.amount,
         p.currency,
         'USD',
         exchangeRateDate,
         undefined,
-        'usd_reporting'
+        'usd_reporting',
+        client
       );
-      totalPaidUsd += convertedAmount;
+      totalPaidUsd = totalPaidUsd.plus(convertedAmount);
     }
   }
 
@@ -565,56 +559,73 @@ async function updatePledgeTotals(pledgeId: number) {
 
     // Use existing pledge currency conversion or calculate new one
     if (a.allocatedAmountInPledgeCurrency) {
-      totalPaidInPledgeCurrency += parseFloat(a.allocatedAmountInPledgeCurrency);
+      totalPaidInPledgeCurrency = totalPaidInPledgeCurrency.plus(a.allocatedAmountInPledgeCurrency);
     } else {
       const { convertedAmount } = await convertCurrency(
-        parseFloat(a.allocatedAmount),
+        a.allocatedAmount,
         a.currency,
         pledgeCurrency,
         exchangeRateDate,
         undefined,
-        'pledge_total_update'
+        'pledge_total_update',
+        client
       );
-      totalPaidInPledgeCurrency += convertedAmount;
+      totalPaidInPledgeCurrency = totalPaidInPledgeCurrency.plus(convertedAmount);
     }
 
     // Calculate USD amount
     if (a.allocatedAmountUsd) {
-      totalPaidUsd += parseFloat(a.allocatedAmountUsd);
+      totalPaidUsd = totalPaidUsd.plus(a.allocatedAmountUsd);
     } else {
       const { convertedAmount } = await convertCurrency(
-        parseFloat(a.allocatedAmount),
+        a.allocatedAmount,
         a.currency,
         'USD',
         exchangeRateDate,
         undefined,
-        'usd_reporting'
+        'usd_reporting',
+        client
       );
-      totalPaidUsd += convertedAmount;
+      totalPaidUsd = totalPaidUsd.plus(convertedAmount);
     }
   }
 
   // Calculate remaining balance
-  const originalAmount = parseFloat(currentPledge.originalAmount);
-  const balance = Math.max(0, originalAmount - totalPaidInPledgeCurrency);
-
-  const originalAmountUsd = currentPledge.originalAmountUsd ? parseFloat(currentPledge.originalAmountUsd) : null;
-  const balanceUsd = originalAmountUsd ? Math.max(0, originalAmountUsd - totalPaidUsd) : null;
+  // Approved write-offs and reductions are kept current on the pledge
+  const balance = decimal(currentPledge.originalAmount)
+    .minus(totalPaidInPledgeCurrency)
+    .minus(currentPledge.totalAdjusted)
+    .clampToZero();
+
+  const balanceUsd =
+    currentPledge.originalAmountUsd && !decimal(currentPledge.originalAmountUsd).isZero()
+      ? decimal(currentPledge.originalAmountUsd)
+          .minus(totalPaidUsd)
+          .minus(currentPledge.totalAdjustedUsd ?? "0")
+          .clampToZero()
+      : null;
 
   // Update the pledge
-  await db
+  await client
     .update(pledge)
     .set({
-      totalPaid: totalPaidInPledgeCurrency.toFixed(2),
-      balance: balance.toFixed(2),
-      totalPaidUsd: totalPaidUsd > 0 ? totalPaidUsd.toFixed(2) : null,
-      balanceUsd: balanceUsd !== null ? balanceUsd.toFixed(2) : null,
+      totalPaid: totalPaidInPledgeCurrency.toMoney(pledgeCurrency),
+      balance: balance.toMoney(pledgeCurrency),
+      totalPaidUsd: totalPaidUsd.isPositive() ? totalPaidUsd.toMoney("USD") : null,
+      balanceUsd: balanceUsd !== null ? balanceUsd.toMoney("USD") : null,
       updatedAt: new Date(),
     })
     .where(eq(pledge.id, pledgeId));
 }
 
-export async function POST(request: NextRequest) {
+export const POST = withAuth({
+  role: "user",
+  location: [
+    { resource: "pledge", body: "pledgeId" },
+    { resource: "paymentPlan", body: "paymentPlanId" },
+    { resource: "contact", body: "payerContactId" },
+  ],
+}, async (request, _context, auth) => {
   let validatedData: z.infer<typeof paymentCreateSchema>;
 
   try {
@@ -643,6 +654,21 @@ export async function POST(request: NextRequest) {
       throw zodErr;
     }
 
+    for (const allocation of validatedData.allocations ?? []) {
+      await assertLocationAccess(auth, "pledge", allocation.pledgeId);
+    }
+
+    // Checked where the pledge being paid lives
+    const firstPledgeId = validatedData.pledgeId ?? validatedData.allocations?.[0]?.pledgeId;
+    await assertActiveCurrency(
+      validatedData.currency,
+      firstPledgeId
+        ? await recordLocation("pledge", firstPledgeId)
+        : validatedData.payerContactId
+          ? await recordLocation("contact", validatedData.payerContactId)
+          : auth.locationId
+    );
+
     const paymentDate = validatedData.paymentDate;
     const receivedDate = validatedData.receivedDate ?? null;
     const checkDate = validatedData.checkDate ?? null;
@@ -665,9 +691,10 @@ export async function POST(request: NextRequest) {
       }
     }
 
+    const paymentAmount = roundMoney(validatedData.amount, validatedData.currency);
     const commonPaymentData = {
       currency: validatedData.currency,
-      exchangeRate: Number(validatedData.exchangeRate.toFixed(4)).toString(),
+      exchangeRate: formatRate(validatedData.exchangeRate),
       paymentDate,
       receivedDate,
       checkDate,
@@ -682,13 +709,14 @@ export async function POST(request: NextRequest) {
       receiptIssued: validatedData.receiptIssued ?? false,
       solicitorId: validatedData.solicitorId || null,
       bonusPercentage: validatedData.bonusPercentage != null
-        ? Number(validatedData.bonusPercentage.toFixed(2)).toString()
+        ? decimal(validatedData.bonusPercentage).toFixed(2)
         : null,
       bonusAmount: validatedData.bonusAmount != null
-        ? Number(validatedData.bonusAmount.toFixed(2)).toString()
+        ? roundMoney(validatedData.bonusAmount, "USD")
         : null,
       bonusRuleId: validatedData.bonusRuleId || null,
       notes: validatedData.notes || null,
+      ...(await resolveDedication(validatedData)),
 
       paymentPlanId: validatedData.paymentPlanId || null,
       installmentScheduleId: validatedData.installmentScheduleId || null,
@@ -749,16 +777,19 @@ export async function POST(request: NextRequest) {
       const pledgeMap = new Map(existingPledges.map(p => [p.id, p]));
 
       // Validate total allocated amounts equal payment amount
-      const totalAllocated = validatedData.allocations.reduce((sum, alloc) => sum + alloc.allocatedAmount, 0);
-      if (Math.abs(totalAllocated - validatedData.amount) > 0.01) {
+      const totalAllocated = sumMoney(
+        validatedData.allocations.map((alloc) => alloc.allocatedAmount),
+        validatedData.currency
+      );
+      if (decimal(totalAllocated).compare(paymentAmount) !== 0) {
         throw new AppError(
           "Invalid allocation amounts",
           400,
           {
-            details: `Total allocated amount (${totalAllocated.toFixed(2)}) must equal payment amount (${validatedData.amount.toFixed(2)}).`,
+            details: `Total allocated amount (${totalAllocated}) must equal payment amount (${paymentAmount}).`,
             totalAllocated,
-            paymentAmount: validatedData.amount,
-            difference: Math.abs(totalAllocated - validatedData.amount),
+            paymentAmount,
+            difference: decimal(totalAllocated).minus(paymentAmount).toMoney(validatedData.currency),
           }
         );
       }
@@ -795,8 +826,8 @@ export async function POST(request: NextRequest) {
             'plan'
           );
 
-          amountInPlanCurrency = planConversion.convertedAmount.toFixed(2);
-          planCurrencyExchangeRate = planConversion.exchangeRate.toFixed(4);
+          amountInPlanCurrency = planConversion.convertedAmount;
+          planCurrencyExchangeRate = formatRate(planConversion.exchangeRate);
         }
       }
 
@@ -804,8 +835,8 @@ export async function POST(request: NextRequest) {
       const splitPaymentData = {
         ...commonPaymentData,
         pledgeId: null, // Split payments don't have a main pledgeId
-        amount: validatedData.amount.toFixed(2),
-        amountUsd: amountUsd.convertedAmount.toFixed(2),
+        amount: paymentAmount,
+        amountUsd: amountUsd.convertedAmount,
         amountInPledgeCurrency: null, // Not applicable for split payments
         pledgeCurrencyExchangeRate: null,
         amountInPlanCurrency,
@@ -818,127 +849,150 @@ export async function POST(request: NextRequest) {
         payerContactId: splitPaymentData.payerContactId
       });
 
-      const [createdPayment] = await db.insert(payment).values(splitPaymentData).returning();
-      if (!createdPayment) throw new AppError("Failed to create payment", 500);
-      await validateAndCreatePaymentTags(createdPayment.id, validatedData.tagIds || []);
+      const allocations = validatedData.allocations;
 
-      console.log("Created single payment with ID:", createdPayment.id);
+      // Every write for this payment commits or rolls back together
+      const { createdPayment, createdAllocations } = await withTransaction(async (tx) => {
+        const [createdPayment] = await tx.insert(payment).values(splitPaymentData).returning();
+        if (!createdPayment) throw new AppError("Failed to create payment", 500);
+        await validateAndCreatePaymentTags(createdPayment.id, validatedData.tagIds || [], tx);
 
-      // Log currency conversions for the main payment
-      await convertCurrency(
-        validatedData.amount,
-        validatedData.currency,
-        'USD',
-        exchangeRateDate,
-        createdPayment.id,
-        'usd_reporting'
-      );
+        console.log("Created single payment with ID:", createdPayment.id);
 
-      if (amountInPlanCurrency && validatedData.paymentPlanId) {
-        // Need to get the actual plan currency for logging
-        const paymentPlanResult = await db
-          .select({ currency: paymentPlan.currency })
-          .from(paymentPlan)
-          .where(eq(paymentPlan.id, validatedData.paymentPlanId))
-          .limit(1);
+        // Log currency conversions for the main payment
+        await convertCurrency(
+          validatedData.amount,
+          validatedData.currency,
+          'USD',
+          exchangeRateDate,
+          createdPayment.id,
+          'usd_reporting',
+          tx
+        );
 
-        if (paymentPlanResult.length > 0) {
-          const planCurrency = paymentPlanResult[0].currency;
-          await convertCurrency(
-            validatedData.amount,
-            validatedData.currency,
-            planCurrency,
-            exchangeRateDate,
-            createdPayment.id,
-            'plan'
-          );
+        if (amountInPlanCurrency && validatedData.paymentPlanId) {
+          // Need to get the actual plan currency for logging
+          const paymentPlanResult = await tx
+            .select({ currency: paymentPlan.currency })
+            .from(paymentPlan)
+            .where(eq(paymentPlan.id, validatedData.paymentPlanId))
+            .limit(1);
+
+          if (paymentPlanResult.length > 0) {
+            const planCurrency = paymentPlanResult[0].currency;
+            await convertCurrency(
+              validatedData.amount,
+              validatedData.currency,
+              planCurrency,
+              exchangeRateDate,
+              createdPayment.id,
+              'plan',
+              tx
+            );
+          }
         }
-      }
 
-      // CRITICAL: Insert allocations for the SINGLE split payment with proper currency conversions
-      const createdAllocations = [];
-      for (const allocation of validatedData.allocations) {
-        const pledgeInfo = pledgeMap.get(allocation.pledgeId);
-        if (!pledgeInfo) continue;
-
-        // Calculate USD conversion for allocation
-        let allocatedAmountUsd: string;
-        const allocationCurrency = allocation.currency ?? validatedData.currency;
-
-        if (allocationCurrency === 'USD') {
-          allocatedAmountUsd = allocation.allocatedAmount.toFixed(2);
-        } else {
-          const usdConversion = await convertCurrency(
-            allocation.allocatedAmount,
-            allocationCurrency,
-            'USD',
-            exchangeRateDate,
-            createdPayment.id,
-            'usd_reporting'
-          );
-          allocatedAmountUsd = usdConversion.convertedAmount.toFixed(2);
-        }
+        // CRITICAL: Insert allocations for the SINGLE split payment with proper currency conversions
+        const createdAllocations = [];
+        for (const allocation of allocations) {
+          const pledgeInfo = pledgeMap.get(allocation.pledgeId);
+          if (!pledgeInfo) continue;
+
+          // Calculate USD conversion for allocation
+          let allocatedAmountUsd: string;
+          const allocationCurrency = allocation.currency ?? validatedData.currency;
+
+          if (allocationCurrency === 'USD') {
+            allocatedAmountUsd = roundMoney(allocation.allocatedAmount, 'USD');
+          } else {
+            const usdConversion = await convertCurrency(
+              allocation.allocatedAmount,
+              allocationCurrency,
+              'USD',
+              exchangeRateDate,
+              createdPayment.id,
+              'usd_reporting',
+              tx
+            );
+            allocatedAmountUsd = usdConversion.convertedAmount;
+          }
 
-        // Calculate pledge currency conversion for allocation using exchangeRateDate
-        let allocatedAmountInPledgeCurrency: string | null = null;
-        if (allocationCurrency === pledgeInfo.currency) {
-          allocatedAmountInPledgeCurrency = allocation.allocatedAmount.toFixed(2);
-        } else {
-          const pledgeConversion = await convertCurrency(
-            allocation.allocatedAmount,
-            allocationCurrency,
-            pledgeInfo.currency,
-            exchangeRateDate,
-            createdPayment.id,
-            'pledge'
-          );
-          allocatedAmountInPledgeCurrency = pledgeConversion.convertedAmount.toFixed(2);
-        }
+          // Calculate pledge currency conversion for allocation using exchangeRateDate
+          let allocatedAmountInPledgeCurrency: string | null = null;
+          if (allocationCurrency === pledgeInfo.currency) {
+            allocatedAmountInPledgeCurrency = roundMoney(allocation.allocatedAmount, pledgeInfo.currency);
+          } else {
+            const pledgeConversion = await convertCurrency(
+              allocation.allocatedAmount,
+              allocationCurrency,
+              pledgeInfo.currency,
+              exchangeRateDate,
+              createdPayment.id,
+              'pledge',
+              tx
+            );
+            allocatedAmountInPledgeCurrency = pledgeConversion.convertedAmount;
+          }
 
-        // CRITICAL: Use actualPayerContactId for all allocations (the person making the payment)
-        const allocationToInsert: NewPaymentAllocation = {
-          paymentId: createdPayment.id, // SAME payment ID for all allocations
-          pledgeId: allocation.pledgeId,
-          payerContactId: actualPayerContactId, // The person making the payment for all allocations
-          allocatedAmount: allocation.allocatedAmount.toFixed(2),
-          allocatedAmountUsd: allocatedAmountUsd,
-          allocatedAmountInPledgeCurrency: allocatedAmountInPledgeCurrency,
-          currency: allocationCurrency,
-          installmentScheduleId: allocation.installmentScheduleId ?? null,
-          receiptNumber: allocation.receiptNumber ?? null,
-          receiptType: allocation.receiptType ?? null,
-          receiptIssued: allocation.receiptIssued ?? false,
-          notes: allocation.notes ?? null,
-          createdAt: new Date(),
-          updatedAt: new Date(),
-        };
+          // CRITICAL: Use actualPayerContactId for all allocations (the person making the payment)
+          const allocationToInsert: NewPaymentAllocation = {
+            paymentId: createdPayment.id, // SAME payment ID for all allocations
+            pledgeId: allocation.pledgeId,
+            payerContactId: actualPayerContactId, // The person making the payment for all allocations
+            allocatedAmount: roundMoney(allocation.allocatedAmount, allocationCurrency),
+            allocatedAmountUsd: allocatedAmountUsd,
+            allocatedAmountInPledgeCurrency: allocatedAmountInPledgeCurrency,
+            currency: allocationCurrency,
+            installmentScheduleId: allocation.installmentScheduleId ?? null,
+            receiptNumber: allocation.receiptNumber ?? null,
+            receiptType: allocation.receiptType ?? null,
+            receiptIssued: allocation.receiptIssued ?? false,
+            notes: allocation.notes ?? null,
+            createdAt: new Date(),
+            updatedAt: new Date(),
+          };
 
-        console.log("Inserting allocation for payment ID:", createdPayment.id, "to pledge:", allocation.pledgeId);
+          console.log("Inserting allocation for payment ID:", createdPayment.id, "to pledge:", allocation.pledgeId);
 
-        const [allocResult] = await db.insert(paymentAllocations).values(allocationToInsert).returning();
-        createdAllocations.push(allocResult);
-        await validateAndCreatePaymentTags(createdPayment.id, validatedData.tagIds || []);
+          const [allocResult] = await tx.insert(paymentAllocations).values(allocationToInsert).returning();
+          createdAllocations.push(allocResult);
 
-        // Update installment schedule if applicable
-        if (allocation.installmentScheduleId && validatedData.paymentStatus) {
-          await updateInstallmentScheduleStatus(
-            allocation.installmentScheduleId,
-            validatedData.paymentStatus,
-            validatedData.receivedDate || validatedData.paymentDate
-          );
+          // Update installment schedule if applicable
+          if (allocation.installmentScheduleId && validatedData.paymentStatus) {
+            await updateInstallmentScheduleStatus(
+              allocation.installmentScheduleId,
+              validatedData.paymentStatus,
+              validatedData.receivedDate || validatedData.paymentDate,
+              tx
+            );
+          }
+
+          // Update pledge totals
+          await updatePledgeTotals(allocation.pledgeId, tx);
         }
 
-        // Update pledge totals
-        await updatePledgeTotals(allocation.pledgeId);
-      }
+        // Update payment plan totals if applicable
+        if (validatedData.paymentPlanId) {
+          await updatePaymentPlanTotals(validatedData.paymentPlanId, tx);
+        }
 
-      // Update payment plan totals if applicable
-      if (validatedData.paymentPlanId) {
-        await updatePaymentPlanTotals(validatedData.paymentPlanId);
-      }
+        return { createdPayment, createdAllocations };
+      });
 
       console.log("Successfully created 1 payment with", createdAllocations.length, "allocations");
 
+      await recordAudit(
+        request,
+        { action: "create", entityType: "payment", entityId: createdPayment.id, after: createdPayment },
+        ...createdAllocations.map((allocation) => ({
+          action: "create" as const,
+          entityType: "paymentAllocation" as const,
+          entityId: allocation.id,
+          after: allocation,
+          note: `payment #${createdPayment.id}`,
+        }))
+      );
+
       return NextResponse.json(
         {
           message: "Split payment created successfully",
@@ -989,7 +1043,7 @@ export async function POST(request: NextRequest) {
         'pledge'
       );
 
-      let amountInPlanCurrency: { convertedAmount: number; exchangeRate: number } | null = null;
+      let amountInPlanCurrency: { convertedAmount: string; exchangeRate: Decimal } | null = null;
       let planCurrency: string | null = null;
 
       // Handle payment plan currency conversion if applicable
@@ -1016,71 +1070,87 @@ export async function POST(request: NextRequest) {
       const newPaymentData = {
         ...commonPaymentData,
         pledgeId: validatedData.pledgeId!,
-        amount: validatedData.amount.toFixed(2),
+        amount: paymentAmount,
 
         // USD conversions
-        amountUsd: amountUsd.convertedAmount.toFixed(2),
-        exchangeRate: amountUsd.exchangeRate.toFixed(4),
+        amountUsd: amountUsd.convertedAmount,
+        exchangeRate: formatRate(amountUsd.exchangeRate),
 
         // Pledge currency conversions
-        amountInPledgeCurrency: amountInPledgeCurrency.convertedAmount.toFixed(2),
-        pledgeCurrencyExchangeRate: amountInPledgeCurrency.exchangeRate.toFixed(4),
+        amountInPledgeCurrency: amountInPledgeCurrency.convertedAmount,
+        pledgeCurrencyExchangeRate: formatRate(amountInPledgeCurrency.exchangeRate),
 
         // Plan currency conversions (if applicable)
-        amountInPlanCurrency: amountInPlanCurrency ? amountInPlanCurrency.convertedAmount.toFixed(2) : null,
-        planCurrencyExchangeRate: amountInPlanCurrency ? amountInPlanCurrency.exchangeRate.toFixed(4) : null,
+        amountInPlanCurrency: amountInPlanCurrency ? amountInPlanCurrency.convertedAmount : null,
+        planCurrencyExchangeRate: amountInPlanCurrency ? formatRate(amountInPlanCurrency.exchangeRate) : null,
       };
 
-      const [createdPayment] = await db.insert(payment).values(newPaymentData).returning();
-      if (!createdPayment) throw new AppError("Failed to create payment", 500);
-      await validateAndCreatePaymentTags(createdPayment.id, validatedData.tagIds || []);
+      // Every write for this payment commits or rolls back together
+      const createdPayment = await withTransaction(async (tx) => {
+        const [createdPayment] = await tx.insert(payment).values(newPaymentData).returning();
+        if (!createdPayment) throw new AppError("Failed to create payment", 500);
+        await validateAndCreatePaymentTags(createdPayment.id, validatedData.tagIds || [], tx);
 
-      // Log currency conversions
-      await convertCurrency(
-        validatedData.amount,
-        validatedData.currency,
-        'USD',
-        exchangeRateDate,
-        createdPayment.id,
-        'usd_reporting'
-      );
-
-      await convertCurrency(
-        validatedData.amount,
-        validatedData.currency,
-        pledgeData.currency,
-        exchangeRateDate,
-        createdPayment.id,
-        'pledge'
-      );
-
-      if (amountInPlanCurrency && planCurrency) {
+        // Log currency conversions
         await convertCurrency(
           validatedData.amount,
           validatedData.currency,
-          planCurrency,
+          'USD',
           exchangeRateDate,
           createdPayment.id,
-          'plan'
+          'usd_reporting',
+          tx
         );
-      }
 
-      // Update installment schedule if applicable
-      if (validatedData.installmentScheduleId && validatedData.paymentStatus) {
-        await updateInstallmentScheduleStatus(
-          validatedData.installmentScheduleId,
-          validatedData.paymentStatus,
-          validatedData.receivedDate || validatedData.paymentDate
+        await convertCurrency(
+          validatedData.amount,
+          validatedData.currency,
+          pledgeData.currency,
+          exchangeRateDate,
+          createdPayment.id,
+          'pledge',
+          tx
         );
-      }
 
-      // Update payment plan totals if applicable
-      if (validatedData.paymentPlanId) {
-        await updatePaymentPlanTotals(validatedData.paymentPlanId);
-      }
+        if (amountInPlanCurrency && planCurrency) {
+          await convertCurrency(
+            validatedData.amount,
+            validatedData.currency,
+            planCurrency,
+            exchangeRateDate,
+            createdPayment.id,
+            'plan',
+            tx
+          );
+        }
+
+        // Update installment schedule if applicable
+        if (validatedData.installmentScheduleId && validatedData.paymentStatus) {
+          await updateInstallmentScheduleStatus(
+            validatedData.installmentScheduleId,
+            validatedData.paymentStatus,
+            validatedData.receivedDate || validatedData.paymentDate,
+            tx
+          );
+        }
+
+        // Update payment plan totals if applicable
+        if (validatedData.paymentPlanId) {
+          await updatePaymentPlanTotals(validatedData.paymentPlanId, tx);
+        }
+
+        // Update pledge totals
+        await updatePledgeTotals(validatedData.pledgeId!, tx);
+
+        return createdPayment;
+      });
 
-      // Update pledge totals
-      await updatePledgeTotals(validatedData.pledgeId!);
+      await recordAudit(request, {
+        action: "create",
+        entityType: "payment",
+        entityId: createdPayment.id,
+        after: createdPayment,
+      });
 
       return NextResponse.json(
         {
@@ -1107,9 +1177,9 @@ export async function POST(request: NextRequest) {
     }
     return ErrorHandler.handle(err);
   }
-}
+});
 
-export async function GET(request: NextRequest) {
+export const GET = withAuth({ role: "user", location: [{ resource: "contact", query: "contactId" }, { resource: "pledge", query: "pledgeId" }] }, async (request, _context, auth) => {
   try {
     const searchParams = new URL(request.url).searchParams;
     const params = Object.fromEntries(searchParams.entries());
@@ -1141,19 +1211,22 @@ export async function GET(request: NextRequest) {
     const offset = (page - 1) * limit;
     const conditions = [];
 
+    const locationCondition = paymentLocationFilter(auth);
+    if (locationCondition) conditions.push(locationCondition);
+
     // Handle different contact-based queries with proper third-party payment filtering
     if (contactId) {
       if (showPaymentsMade === true && showPaymentsReceived === false) {
         conditions.push(eq(payment.payerContactId, contactId));
       } else if (showPaymentsReceived === true && showPaymentsMade === false) {
-        conditions.push(sql`(
+        conditions.push(sql`((
           payment.pledge_id IN (SELECT id FROM pledge WHERE contact_id = ${contactId}) 
           AND (payment.is_third_party_payment = false OR payment.is_third_party_payment IS NULL)
         ) OR payment.id IN (
           SELECT pa.payment_id FROM payment_allocations pa 
           JOIN pledge p ON pa.pledge_id = p.id 
           WHERE p.contact_id = ${contactId}
-        )`);
+        ))`);
       } else {
         conditions.push(sql`(
           payment.payer_contact_id = ${contactId} OR (
@@ -1169,7 +1242,7 @@ export async function GET(request: NextRequest) {
     }
 
     if (pledgeId) {
-      conditions.push(sql`payment.pledge_id = ${pledgeId} OR payment.id IN (SELECT payment_id FROM payment_allocations WHERE pledge_id = ${pledgeId})`);
+      conditions.push(sql`(payment.pledge_id = ${pledgeId} OR payment.id IN (SELECT payment_id FROM payment_allocations WHERE pledge_id = ${pledgeId}))`);
     }
 
     if (solicitorId) {
@@ -1237,6 +1310,8 @@ export async function GET(request: NextRequest) {
         receiptNumber: payment.receiptNumber,
         receiptType: payment.receiptType,
         receiptIssued: payment.receiptIssued,
+        isReconciled: payment.isReconciled,
+        bankDepositId: payment.bankDepositId,
         solicitorId: payment.solicitorId,
         bonusPercentage: payment.bonusPercentage,
         bonusAmount: payment.bonusAmount,
@@ -1396,5 +1471,5 @@ export async function GET(request: NextRequest) {
       { status: 500 }
     );
   }
-}
+});
 
@@ -0,0 +1,45 @@
+import { NextResponse } from "next/server";
+import { ErrorHandler } from "@/lib/error-handler";
+import { withAuth } from "@/lib/auth-guard";
+import { recordAudit } from "@/lib/audit-log";
+import { approveAdjustment } from "@/lib/pledge-adjustments/adjustments";
+
+// The approving admin is recorded on the adjustment and the balance drops by it
+export const POST = withAuth<{ id: string }>(
+  { role: "admin", location: { resource: "pledgeAdjustment", param: "id" } },
+  async (request, { params }, auth) => {
+    try {
+      const adjustmentId = parseInt((await params).id, 10);
+      if (isNaN(adjustmentId)) {
+        return NextResponse.json({ error: "Invalid adjustment ID" }, { status: 400 });
+      }
+
+      const { before, adjustment, pledge } = await approveAdjustment(adjustmentId, auth.userId);
+
+      await recordAudit(
+        request,
+        {
+          action: "update",
+          entityType: "pledgeAdjustment",
+          entityId: adjustment.id,
+          before,
+          after: adjustment,
+          note: "approved",
+        },
+        {
+          action: "update",
+          entityType: "pledge",
+          entityId: adjustment.pledgeId,
+          before: pledge?.before,
+          after: pledge?.after,
+          note: `adjustment #${adjustment.id} approved`,
+        }
+      );
+
+      return NextResponse.json({ message: "Adjustment approved", adjustment });
+    } catch (error) {
+      console.error("Error approving pledge adjustment:", error);
+      return ErrorHandler.handle(error);
+    }
+  }
+);
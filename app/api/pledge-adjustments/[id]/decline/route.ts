@@ -0,0 +1,39 @@
+import { NextResponse } from "next/server";
+import { z } from "zod";
+import { ErrorHandler } from "@/lib/error-handler";
+import { withAuth } from "@/lib/auth-guard";
+import { recordAudit } from "@/lib/audit-log";
+import { declineAdjustment } from "@/lib/pledge-adjustments/adjustments";
+
+const declineSchema = z.object({
+  reason: z.string().trim().min(1, "A reason is required to decline an adjustment"),
+});
+
+export const POST = withAuth<{ id: string }>(
+  { role: "admin", location: { resource: "pledgeAdjustment", param: "id" } },
+  async (request, { params }, auth) => {
+    try {
+      const adjustmentId = parseInt((await params).id, 10);
+      if (isNaN(adjustmentId)) {
+        return NextResponse.json({ error: "Invalid adjustment ID" }, { status: 400 });
+      }
+
+      const { reason } = declineSchema.parse(await request.json());
+      const { before, adjustment } = await declineAdjustment(adjustmentId, reason, auth.userId);
+
+      await recordAudit(request, {
+        action: "update",
+        entityType: "pledgeAdjustment",
+        entityId: adjustment.id,
+        before,
+        after: adjustment,
+        note: `declined: ${reason}`,
+      });
+
+      return NextResponse.json({ message: "Adjustment declined", adjustment });
+    } catch (error) {
+      console.error("Error declining pledge adjustment:", error);
+      return ErrorHandler.handle(error);
+    }
+  }
+);
@@ -0,0 +1,51 @@
+import { NextResponse } from "next/server";
+import { z } from "zod";
+import { ErrorHandler } from "@/lib/error-handler";
+import { withAuth } from "@/lib/auth-guard";
+import { recordAudit } from "@/lib/audit-log";
+import { reverseAdjustment } from "@/lib/pledge-adjustments/adjustments";
+
+const reverseSchema = z.object({
+  reason: z.string().trim().min(1, "A reason is required to reverse an adjustment"),
+});
+
+// Reversed adjustments stay on file; only the balance comes back
+export const POST = withAuth<{ id: string }>(
+  { role: "admin", location: { resource: "pledgeAdjustment", param: "id" } },
+  async (request, { params }, auth) => {
+    try {
+      const adjustmentId = parseInt((await params).id, 10);
+      if (isNaN(adjustmentId)) {
+        return NextResponse.json({ error: "Invalid adjustment ID" }, { status: 400 });
+      }
+
+      const { reason } = reverseSchema.parse(await request.json());
+      const { before, adjustment, pledge } = await reverseAdjustment(adjustmentId, reason, auth.userId);
+
+      await recordAudit(
+        request,
+        {
+          action: "update",
+          entityType: "pledgeAdjustment",
+          entityId: adjustment.id,
+          before,
+          after: adjustment,
+          note: `reversed: ${reason}`,
+        },
+        {
+          action: "update",
+          entityType: "pledge",
+          entityId: adjustment.pledgeId,
+          before: pledge?.before,
+          after: pledge?.after,
+          note: `adjustment #${adjustment.id} reversed`,
+        }
+      );
+
+      return NextResponse.json({ message: "Adjustment reversed", adjustment });
+    } catch (error) {
+      console.error("Error reversing pledge adjustment:", error);
+      return ErrorHandler.handle(error);
+    }
+  }
+);
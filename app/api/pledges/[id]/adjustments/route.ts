@@ -0,0 +1,99 @@
+import { NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+import { ErrorHandler } from "@/lib/error-handler";
+import { hasRole, withAuth } from "@/lib/auth-guard";
+import { recordAudit, type AuditEntry } from "@/lib/audit-log";
+import { pledgeAdjustmentReasonEnum, pledgeAdjustmentTypeEnum } from "@/lib/db/schema";
+import {
+  listPledgeAdjustments,
+  requestAdjustment,
+} from "@/lib/pledge-adjustments/adjustments";
+
+const adjustmentSchema = z.object({
+  type: z.enum(pledgeAdjustmentTypeEnum.enumValues),
+  reasonCode: z.enum(pledgeAdjustmentReasonEnum.enumValues),
+  amount: z.number().positive("Adjustment amount must be positive").optional(),
+  effectiveDate: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Effective date must be YYYY-MM-DD"),
+  notes: z.string().trim().optional().nullable(),
+  // Admins may approve their own request in the same step
+  approve: z.boolean().optional(),
+});
+
+function parsePledgeId(value: string) {
+  const pledgeId = parseInt(value, 10);
+  return isNaN(pledgeId) || pledgeId <= 0 ? null : pledgeId;
+}
+
+export const GET = withAuth({ role: "user", location: { resource: "pledge", param: "id" } }, async (
+  _request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) => {
+  try {
+    const pledgeId = parsePledgeId((await params).id);
+    if (!pledgeId) {
+      return NextResponse.json({ error: "Invalid pledge ID" }, { status: 400 });
+    }
+
+    const adjustments = await listPledgeAdjustments(pledgeId);
+    return NextResponse.json({ adjustments });
+  } catch (error) {
+    console.error("Error fetching pledge adjustments:", error);
+    return ErrorHandler.handle(error);
+  }
+});
+
+export const POST = withAuth({ role: "user", location: { resource: "pledge", param: "id" } }, async (
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> },
+  auth
+) => {
+  try {
+    const pledgeId = parsePledgeId((await params).id);
+    if (!pledgeId) {
+      return NextResponse.json({ error: "Invalid pledge ID" }, { status: 400 });
+    }
+
+    const { approve, ...input } = adjustmentSchema.parse(await request.json());
+    if (approve && !hasRole(auth, "admin")) {
+      return NextResponse.json({ error: "Only admins can approve pledge adjustments" }, { status: 403 });
+    }
+
+    const { adjustment, pledge } = await requestAdjustment(pledgeId, input, {
+      requestedBy: auth.userId,
+      approvedBy: approve ? auth.userId : undefined,
+    });
+
+    const entries: AuditEntry[] = [
+      {
+        action: "create",
+        entityType: "pledgeAdjustment",
+        entityId: adjustment.id,
+        after: adjustment,
+        note: `${adjustment.type} of ${adjustment.amount} on pledge #${pledgeId} (${adjustment.reasonCode})`,
+      },
+    ];
+    if (pledge) {
+      entries.push({
+        action: "update",
+        entityType: "pledge",
+        entityId: pledgeId,
+        before: pledge.before,
+        after: pledge.after,
+        note: `adjustment #${adjustment.id} approved`,
+      });
+    }
+    await recordAudit(request, ...entries);
+
+    return NextResponse.json(
+      {
+        message:
+          adjustment.status === "approved" ? "Adjustment applied to the pledge" : "Adjustment submitted for approval",
+        adjustment,
+      },
+      { status: 201 }
+    );
+  } catch (error) {
+    console.error("Error requesting pledge adjustment:", error);
+    return ErrorHandler.handle(error);
+  }
+});
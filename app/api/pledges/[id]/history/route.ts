@@ -0,0 +1,49 @@
+import { NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+import { ErrorHandler } from "@/lib/error-handler";
+import { withAuth } from "@/lib/auth-guard";
+import { getRecordHistory, revertPledge } from "@/lib/record-history";
+
+const revertSchema = z.object({
+  auditLogId: z.number().int().positive(),
+});
+
+export const GET = withAuth({ role: "user", location: { resource: "pledge", param: "id" } }, async (
+  _request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) => {
+  try {
+    const { id } = await params;
+    const pledgeId = parseInt(id, 10);
+    if (isNaN(pledgeId)) {
+      return NextResponse.json({ error: "Invalid pledge ID" }, { status: 400 });
+    }
+
+    const history = await getRecordHistory("pledge", pledgeId);
+    return NextResponse.json({ history });
+  } catch (error) {
+    console.error("Error fetching pledge history:", error);
+    return ErrorHandler.handle(error);
+  }
+});
+
+export const POST = withAuth({ role: "user", location: { resource: "pledge", param: "id" } }, async (
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) => {
+  try {
+    const { id } = await params;
+    const pledgeId = parseInt(id, 10);
+    if (isNaN(pledgeId)) {
+      return NextResponse.json({ error: "Invalid pledge ID" }, { status: 400 });
+    }
+
+    const { auditLogId } = revertSchema.parse(await request.json());
+    const reverted = await revertPledge(request, pledgeId, auditLogId);
+
+    return NextResponse.json({ message: "Pledge reverted successfully", pledge: reverted });
+  } catch (error) {
+    console.error("Error reverting pledge:", error);
+    return ErrorHandler.handle(error);
+  }
+});
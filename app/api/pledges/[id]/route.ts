@@ -16,33 +16,44 @@ import { sql, eq, and } from "drizzle-orm";
 import { alias } from "drizzle-orm/pg-core";
 import { z } from "zod";
 import { ErrorHandler } from "@/lib/error-handler";
+import { withAuth, recordLocation } from "@/lib/auth-guard";
+import { recordAudit } from "@/lib/audit-log";
+import { dedicationFields } from "@/lib/form-schemas/memorial";
+import { resolveDedication } from "@/lib/memorials/memorials";
+import { assertPaymentUnlocked } from "@/lib/deposit-batches/batches";
+import { formatRate } from "@/lib/money";
+import { assertActiveCurrency } from "@/lib/currencies/currencies";
+import { currencyCodeSchema } from "@/lib/form-schemas/currency";
 
 const updatePledgeSchema = z.object({
   contactId: z.number().positive().optional(),
   categoryId: z.number().positive().optional(),
   relationshipId: z.number().positive().optional(),
   pledgeDate: z.string().min(1, "Pledge date is required").optional(),
+  // Empty string clears the due date
+  dueDate: z.string().optional(),
   description: z.string().min(1, "Description is required").optional(),
   originalAmount: z.number().positive("Pledge amount must be positive").optional(),
-  currency: z
-    .enum(["USD", "ILS", "EUR", "JPY", "GBP", "AUD", "CAD", "ZAR"])
-    .optional(),
+  currency: currencyCodeSchema.optional(),
   originalAmountUsd: z
     .number()
     .positive("Pledge amount in USD must be positive")
     .optional(),
   exchangeRate: z.number().positive("Exchange rate must be positive").optional(),
   campaignCode: z.string().optional(),
+  advantageAmount: z.number().min(0, "Advantage amount cannot be negative").optional(),
+  advantageDescription: z.string().optional(),
   notes: z.string().optional(),
   isActive: z.boolean().optional(),
   // NEW: Add tag IDs array for updates
   tagIds: z.array(z.number().positive()).optional(),
+  ...dedicationFields,
 });
 
-export async function GET(
+export const GET = withAuth({ role: "user", location: { resource: "pledge", param: "id" } }, async (
   request: NextRequest,
   { params }: { params: Promise<{ id: string }> }
-) {
+) => {
   const { id } = await params;
   const pledgeId = parseInt(id, 10);
   try {
@@ -59,6 +70,10 @@ export async function GET(
         // Pledge fields
         id: pledge.id,
         pledgeDate: pledge.pledgeDate,
+        dueDate: pledge.dueDate,
+        dedicationType: pledge.dedicationType,
+        dedicationName: pledge.dedicationName,
+        memorialId: pledge.memorialId,
         description: pledge.description,
         originalAmount: pledge.originalAmount,
         currency: pledge.currency,
@@ -67,8 +82,12 @@ export async function GET(
         originalAmountUsd: pledge.originalAmountUsd,
         totalPaidUsd: pledge.totalPaidUsd,
         balanceUsd: pledge.balanceUsd,
+        totalAdjusted: pledge.totalAdjusted,
+        totalAdjustedUsd: pledge.totalAdjustedUsd,
         exchangeRate: pledge.exchangeRate,
         campaignCode: pledge.campaignCode,
+        advantageAmount: pledge.advantageAmount,
+        advantageDescription: pledge.advantageDescription,
         isActive: pledge.isActive,
         notes: pledge.notes,
         createdAt: pledge.createdAt,
@@ -197,6 +216,10 @@ export async function GET(
       pledge: {
         id: pledgeData.id,
         pledgeDate: pledgeData.pledgeDate,
+        dueDate: pledgeData.dueDate,
+        dedicationType: pledgeData.dedicationType,
+        dedicationName: pledgeData.dedicationName,
+        memorialId: pledgeData.memorialId,
         description: pledgeData.description,
         originalAmount: originalAmount,
         currency: pledgeData.currency,
@@ -211,10 +234,18 @@ export async function GET(
         balanceUsd: pledgeData.balanceUsd
           ? parseFloat(pledgeData.balanceUsd)
           : null,
+        totalAdjusted: parseFloat(pledgeData.totalAdjusted),
+        totalAdjustedUsd: pledgeData.totalAdjustedUsd
+          ? parseFloat(pledgeData.totalAdjustedUsd)
+          : null,
         exchangeRate: pledgeData.exchangeRate
           ? parseFloat(pledgeData.exchangeRate)
           : null,
         campaignCode: pledgeData.campaignCode,
+        advantageAmount: pledgeData.advantageAmount
+          ? parseFloat(pledgeData.advantageAmount)
+          : null,
+        advantageDescription: pledgeData.advantageDescription,
         isActive: pledgeData.isActive,
         notes: pledgeData.notes,
         createdAt: pledgeData.createdAt,
@@ -272,7 +303,7 @@ export async function GET(
         remainingAmount: parseFloat(plan.remainingAmount),
       })),
       activePaymentPlans: paymentPlans.filter(
-        (plan) => plan.isActive && plan.planStatus === "active"
+        (plan) => plan.isActive && (plan.planStatus === "active" || plan.planStatus === "overdue")
       ),
     };
 
@@ -281,12 +312,12 @@ export async function GET(
     console.error("Error fetching pledge details:", error);
     return ErrorHandler.handle(error);
   }
-}
+});
 
-export async function PUT(
+export const PUT = withAuth({ role: "user", location: { resource: "pledge", param: "id" } }, async (
   request: NextRequest,
   { params }: { params: Promise<{ id: string }> }
-) {
+) => {
   try {
     const { id } = await params;
     const pledgeId = parseInt(id, 10);
@@ -331,15 +362,28 @@ export async function PUT(
     if (validatedData.pledgeDate !== undefined) {
       updateData.pledgeDate = validatedData.pledgeDate;
     }
+    if (validatedData.dueDate !== undefined) {
+      updateData.dueDate = validatedData.dueDate || null;
+    }
     if (validatedData.description !== undefined) {
       updateData.description = validatedData.description;
     }
     if (validatedData.currency !== undefined) {
+      // Pledges already in a currency since turned off may keep it
+      if (validatedData.currency !== existingPledge[0].currency) {
+        await assertActiveCurrency(validatedData.currency, await recordLocation("pledge", pledgeId));
+      }
       updateData.currency = validatedData.currency;
     }
     if (validatedData.campaignCode !== undefined) {
       updateData.campaignCode = validatedData.campaignCode;
     }
+    if (validatedData.advantageAmount !== undefined) {
+      updateData.advantageAmount = validatedData.advantageAmount ? validatedData.advantageAmount.toString() : null;
+    }
+    if (validatedData.advantageDescription !== undefined) {
+      updateData.advantageDescription = validatedData.advantageDescription || null;
+    }
     if (validatedData.notes !== undefined) {
       updateData.notes = validatedData.notes;
     }
@@ -365,20 +409,24 @@ export async function PUT(
       const exchangeRate = validatedData.exchangeRate ?? safeParseFloat(currentPledge.exchangeRate, 1);
       const currentTotalPaid = safeParseFloat(currentPledge.totalPaid, 0);
       const currentTotalPaidUsd = safeParseFloat(currentPledge.totalPaidUsd, 0);
+      const currentTotalAdjusted = safeParseFloat(currentPledge.totalAdjusted, 0);
+      const currentTotalAdjustedUsd = safeParseFloat(currentPledge.totalAdjustedUsd, 0);
 
       // Update amounts
       updateData.originalAmount = originalAmount.toString();
       updateData.originalAmountUsd = originalAmountUsd.toString();
-      updateData.exchangeRate = exchangeRate.toString();
+      updateData.exchangeRate = formatRate(exchangeRate);
 
       // Recalculate balances
-      const newBalance = originalAmount - currentTotalPaid;
-      const newBalanceUsd = originalAmountUsd - currentTotalPaidUsd;
+      const newBalance = originalAmount - currentTotalPaid - currentTotalAdjusted;
+      const newBalanceUsd = originalAmountUsd - currentTotalPaidUsd - currentTotalAdjustedUsd;
 
       updateData.balance = Math.max(0, newBalance).toString();
       updateData.balanceUsd = Math.max(0, newBalanceUsd).toString();
     }
 
+    Object.assign(updateData, await resolveDedication(validatedData));
+
     // Add updatedAt timestamp
     updateData.updatedAt = new Date();
 
@@ -420,6 +468,14 @@ export async function PUT(
       }
     }
 
+    await recordAudit(request, {
+      action: "update",
+      entityType: "pledge",
+      entityId: pledgeId,
+      before: existingPledge[0],
+      after: result[0],
+    });
+
     return NextResponse.json(
       {
         message: "Pledge updated successfully",
@@ -445,12 +501,12 @@ export async function PUT(
     console.error("Error updating pledge:", error);
     return ErrorHandler.handle(error);
   }
-}
+});
 
-export async function DELETE(
+export const DELETE = withAuth({ role: "user", location: { resource: "pledge", param: "id" } }, async (
   request: NextRequest,
   { params }: { params: Promise<{ id: string }> }
-) {
+) => {
   const { id } = await params;
   const pledgeId = parseInt(id, 10);
 
@@ -460,7 +516,7 @@ export async function DELETE(
     }
     
     const existingPledge = await db
-      .select({ id: pledge.id })
+      .select()
       .from(pledge)
       .where(eq(pledge.id, pledgeId))
       .limit(1);
@@ -504,6 +560,17 @@ export async function DELETE(
       pledgeTags: pledgeTagCount, // NEW: Include pledge tags count
     };
 
+    // Snapshot the cascaded payments and plans for the audit trail
+    const [paymentsToDelete, plansToDelete] = await Promise.all([
+      paymentCount > 0
+        ? db.select().from(payment).where(eq(payment.pledgeId, pledgeId))
+        : Promise.resolve([]),
+      paymentPlanCount > 0
+        ? db.select().from(paymentPlan).where(eq(paymentPlan.pledgeId, pledgeId))
+        : Promise.resolve([]),
+    ]);
+    await assertPaymentUnlocked(paymentsToDelete.map((p) => p.id));
+
     // Delete related records in proper order (no transactions with Neon HTTP)
     
     // Delete bonus calculations first
@@ -533,6 +600,31 @@ export async function DELETE(
     // Finally, delete the pledge
     await db.delete(pledge).where(eq(pledge.id, pledgeId));
 
+    const cascadeNote = `deleted with pledge #${pledgeId}`;
+    await recordAudit(
+      request,
+      {
+        action: "delete",
+        entityType: "pledge",
+        entityId: pledgeId,
+        before: existingPledge[0],
+      },
+      ...paymentsToDelete.map((row) => ({
+        action: "delete" as const,
+        entityType: "payment" as const,
+        entityId: row.id,
+        before: row,
+        note: cascadeNote,
+      })),
+      ...plansToDelete.map((row) => ({
+        action: "delete" as const,
+        entityType: "paymentPlan" as const,
+        entityId: row.id,
+        before: row,
+        note: cascadeNote,
+      }))
+    );
+
     return NextResponse.json({
       success: true,
       message: "Pledge and all related records permanently deleted",
@@ -543,4 +635,4 @@ export async function DELETE(
     console.error("Error deleting pledge:", error);
     return ErrorHandler.handle(error);
   }
-}
+});
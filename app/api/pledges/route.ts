@@ -14,8 +14,15 @@ import {
 } from "@/lib/db/schema";
 import { sql, eq, and, or, not, isNull } from "drizzle-orm";
 import { alias } from "drizzle-orm/pg-core";
+import { dedicationFields } from "@/lib/form-schemas/memorial";
+import { resolveDedication } from "@/lib/memorials/memorials";
 import { z } from "zod";
 import { ErrorHandler } from "@/lib/error-handler";
+import { withAuth, contactLocationFilter, recordLocation } from "@/lib/auth-guard";
+import { recordAudit } from "@/lib/audit-log";
+import { formatRate } from "@/lib/money";
+import { assertActiveCurrency } from "@/lib/currencies/currencies";
+import { currencyCodeSchema } from "@/lib/form-schemas/currency";
 
 // Define interfaces for query results
 interface ScheduledItem {
@@ -29,6 +36,7 @@ interface PledgeQueryResult {
   categoryId: number | null;
   relationshipId: number | null;
   pledgeDate: string;
+  dueDate: string | null;
   description: string | null;
   originalAmount: string;
   currency: string;
@@ -72,17 +80,19 @@ const pledgeSchema = z.object({
   categoryId: z.number().positive().optional(),
   relationshipId: z.number().positive().optional(),
   pledgeDate: z.string().min(1, "Pledge date is required"),
+  dueDate: z.string().optional(),
   description: z.string().min(1, "Description is required"),
   originalAmount: z.number().positive("Pledge amount must be positive"),
-  currency: z
-    .enum(["USD", "ILS", "EUR", "JPY", "GBP", "AUD", "CAD", "ZAR"])
-    .default("USD"),
+  currency: currencyCodeSchema.default("USD"),
   originalAmountUsd: z.number().positive("Pledge amount in USD must be positive"),
   exchangeRate: z.number().positive("Exchange rate must be positive"),
   campaignCode: z.string().optional(),
+  advantageAmount: z.number().min(0, "Advantage amount cannot be negative").optional(),
+  advantageDescription: z.string().optional(),
   notes: z.string().optional(),
   // NEW: Add tag IDs array
   tagIds: z.array(z.number().positive()).optional(),
+  ...dedicationFields,
 });
 
 const querySchema = z.object({
@@ -100,10 +110,11 @@ const querySchema = z.object({
   tagIds: z.array(z.number().positive()).optional(),
 });
 
-export async function POST(request: NextRequest) {
+export const POST = withAuth({ role: "user", location: { resource: "contact", body: "contactId" } }, async (request: NextRequest) => {
   try {
     const body = await request.json();
     const validatedData = pledgeSchema.parse(body);
+    await assertActiveCurrency(validatedData.currency, await recordLocation("contact", validatedData.contactId));
     const balance = validatedData.originalAmount;
     const balanceUsd = validatedData.originalAmountUsd;
 
@@ -112,18 +123,22 @@ export async function POST(request: NextRequest) {
       categoryId: validatedData.categoryId || null,
       relationshipId: validatedData.relationshipId || null,
       pledgeDate: validatedData.pledgeDate,
+      dueDate: validatedData.dueDate || null,
       description: validatedData.description,
       originalAmount: validatedData.originalAmount.toString(),
       currency: validatedData.currency,
       originalAmountUsd: validatedData.originalAmountUsd.toString(),
-      exchangeRate: validatedData.exchangeRate.toString(),
+      exchangeRate: formatRate(validatedData.exchangeRate),
       campaignCode: validatedData.campaignCode || null,
+      advantageAmount: validatedData.advantageAmount ? validatedData.advantageAmount.toString() : null,
+      advantageDescription: validatedData.advantageDescription || null,
       totalPaid: "0",
       totalPaidUsd: "0",
       balance: balance.toString(),
       balanceUsd: balanceUsd.toString(),
       isActive: true,
       notes: validatedData.notes || null,
+      ...(await resolveDedication(validatedData)),
     };
 
     // Create the pledge first
@@ -145,6 +160,13 @@ export async function POST(request: NextRequest) {
       }
     }
 
+    await recordAudit(request, {
+      action: "create",
+      entityType: "pledge",
+      entityId: createdPledge.id,
+      after: createdPledge,
+    });
+
     return NextResponse.json(
       {
         message: "Pledge created successfully",
@@ -168,9 +190,9 @@ export async function POST(request: NextRequest) {
     console.error("Error creating pledge:", error);
     return ErrorHandler.handle(error);
   }
-}
+});
 
-export async function GET(request: NextRequest) {
+export const GET = withAuth({ role: "user", location: { resource: "contact", query: "contactId" } }, async (request, _context, auth) => {
   try {
     const { searchParams } = new URL(request.url);
     
@@ -239,6 +261,8 @@ export async function GET(request: NextRequest) {
 
     // Build WHERE conditions
     const conditions = [];
+    const locationCondition = contactLocationFilter(auth, pledge.contactId);
+    if (locationCondition) conditions.push(locationCondition);
     if (contactId) conditions.push(eq(pledge.contactId, contactId));
     if (categoryId) conditions.push(eq(pledge.categoryId, categoryId));
     if (relationshipId) conditions.push(eq(pledge.relationshipId, relationshipId));
@@ -298,6 +322,10 @@ export async function GET(request: NextRequest) {
         categoryId: pledge.categoryId,
         relationshipId: pledge.relationshipId,
         pledgeDate: pledge.pledgeDate,
+        dueDate: pledge.dueDate,
+        dedicationType: pledge.dedicationType,
+        dedicationName: pledge.dedicationName,
+        memorialId: pledge.memorialId,
         description: pledge.description,
         originalAmount: pledge.originalAmount,
         currency: pledge.currency,
@@ -584,4 +612,4 @@ export async function GET(request: NextRequest) {
       { status: 500 }
     );
   }
-}
+});
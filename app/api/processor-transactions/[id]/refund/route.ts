@@ -0,0 +1,45 @@
+import { NextResponse } from "next/server";
+import { z } from "zod";
+import { ErrorHandler } from "@/lib/error-handler";
+import { withAuth } from "@/lib/auth-guard";
+import { recordAudit } from "@/lib/audit-log";
+import { refundCharge } from "@/lib/payment-processors/transactions";
+
+// Leaving out the amount refunds whatever has not been refunded yet
+const refundSchema = z.object({
+  amount: z.number().positive("Refund amount must be positive").optional(),
+});
+
+export const POST = withAuth<{ id: string }>(
+  { role: "admin", location: { resource: "processorTransaction", param: "id" } },
+  async (request, { params }) => {
+    try {
+      const transactionId = parseInt((await params).id, 10);
+      if (isNaN(transactionId)) {
+        return NextResponse.json({ error: "Invalid transaction ID" }, { status: 400 });
+      }
+
+      const { amount } = refundSchema.parse(await request.json().catch(() => ({})));
+      const refund = await refundCharge(transactionId, amount);
+
+      await recordAudit(request, {
+        action: "create",
+        entityType: "processorTransaction",
+        entityId: refund.id,
+        after: refund,
+        note: `refund of transaction #${transactionId}`,
+      });
+
+      if (refund.status === "declined") {
+        return NextResponse.json(
+          { error: refund.failureMessage ?? "The processor declined the refund", refund },
+          { status: 402 }
+        );
+      }
+      return NextResponse.json({ message: "Refund sent", refund });
+    } catch (error) {
+      console.error("Error refunding charge:", error);
+      return ErrorHandler.handle(error);
+    }
+  }
+);
@@ -0,0 +1,29 @@
+import { NextResponse } from "next/server";
+import { ErrorHandler } from "@/lib/error-handler";
+import { withAuth } from "@/lib/auth-guard";
+import { getReceipt } from "@/lib/receipts/donation-receipt";
+import { renderDonationReceiptPdf } from "@/lib/receipts/donation-receipt-pdf";
+
+export const GET = withAuth<{ id: string }>(
+  { role: "user", location: { resource: "receipt", param: "id" } },
+  async (_request, { params }) => {
+    try {
+      const receiptId = parseInt((await params).id, 10);
+      if (isNaN(receiptId)) {
+        return NextResponse.json({ error: "Invalid receipt ID" }, { status: 400 });
+      }
+
+      const { receipt, replacesReceiptNumber } = await getReceipt(receiptId);
+      const suffix = receipt.status === "void" ? "-void" : "";
+
+      return new NextResponse(renderDonationReceiptPdf(receipt, replacesReceiptNumber), {
+        headers: {
+          "Content-Type": "application/pdf",
+          "Content-Disposition": `attachment; filename="receipt-${receipt.receiptNumber}${suffix}.pdf"`,
+        },
+      });
+    } catch (error) {
+      return ErrorHandler.handle(error);
+    }
+  }
+);
@@ -0,0 +1,58 @@
+import { NextResponse } from "next/server";
+import { z } from "zod";
+import { ErrorHandler } from "@/lib/error-handler";
+import { withAuth } from "@/lib/auth-guard";
+import { recordAudit } from "@/lib/audit-log";
+import { receiptTypeEnum } from "@/lib/db/schema";
+import { reissueReceipt } from "@/lib/receipts/donation-receipt";
+
+const reissueSchema = z.object({
+  reason: z.string().trim().min(1, "A reason is required to reissue a receipt"),
+  receiptType: z.enum(receiptTypeEnum.enumValues).optional(),
+});
+
+export const POST = withAuth<{ id: string }>(
+  { role: "admin", location: { resource: "receipt", param: "id" } },
+  async (request, { params }, auth) => {
+    try {
+      const receiptId = parseInt((await params).id, 10);
+      if (isNaN(receiptId)) {
+        return NextResponse.json({ error: "Invalid receipt ID" }, { status: 400 });
+      }
+
+      const { reason, receiptType } = reissueSchema.parse(await request.json());
+      const { before, voided, replacement } = await reissueReceipt(receiptId, {
+        reason,
+        receiptType,
+        issuedBy: auth.userId,
+      });
+
+      await recordAudit(
+        request,
+        {
+          action: "update",
+          entityType: "donationReceipt",
+          entityId: voided.id,
+          before,
+          after: voided,
+          note: `replaced by ${replacement.receiptNumber}: ${reason}`,
+        },
+        {
+          action: "create",
+          entityType: "donationReceipt",
+          entityId: replacement.id,
+          after: replacement,
+          note: `No. ${replacement.receiptNumber} replaces ${voided.receiptNumber}`,
+        }
+      );
+
+      return NextResponse.json({
+        message: `Receipt ${voided.receiptNumber} reissued as ${replacement.receiptNumber}`,
+        receipt: replacement,
+      });
+    } catch (error) {
+      console.error("Error reissuing receipt:", error);
+      return ErrorHandler.handle(error);
+    }
+  }
+);
@@ -0,0 +1,40 @@
+import { NextResponse } from "next/server";
+import { z } from "zod";
+import { ErrorHandler } from "@/lib/error-handler";
+import { withAuth } from "@/lib/auth-guard";
+import { recordAudit } from "@/lib/audit-log";
+import { voidReceipt } from "@/lib/receipts/donation-receipt";
+
+const voidSchema = z.object({
+  reason: z.string().trim().min(1, "A reason is required to void a receipt"),
+});
+
+// Issued numbers are never deleted or reused; voiding keeps the row for the record
+export const POST = withAuth<{ id: string }>(
+  { role: "admin", location: { resource: "receipt", param: "id" } },
+  async (request, { params }, auth) => {
+    try {
+      const receiptId = parseInt((await params).id, 10);
+      if (isNaN(receiptId)) {
+        return NextResponse.json({ error: "Invalid receipt ID" }, { status: 400 });
+      }
+
+      const { reason } = voidSchema.parse(await request.json());
+      const { before, voided } = await voidReceipt(receiptId, { reason, voidedBy: auth.userId });
+
+      await recordAudit(request, {
+        action: "update",
+        entityType: "donationReceipt",
+        entityId: voided.id,
+        before,
+        after: voided,
+        note: `voided: ${reason}`,
+      });
+
+      return NextResponse.json({ message: `Receipt ${voided.receiptNumber} voided`, receipt: voided });
+    } catch (error) {
+      console.error("Error voiding receipt:", error);
+      return ErrorHandler.handle(error);
+    }
+  }
+);
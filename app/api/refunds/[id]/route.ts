@@ -0,0 +1,42 @@
+import { NextResponse } from "next/server";
+import { ErrorHandler } from "@/lib/error-handler";
+import { withAuth } from "@/lib/auth-guard";
+import { recordAudit } from "@/lib/audit-log";
+import { refundSideEffectAudits, voidRefund } from "@/lib/refunds/refunds";
+
+// Removes a refund entered in error, or a chargeback the bank reversed
+export const DELETE = withAuth<{ id: string }>(
+  { role: "admin", location: { resource: "refund", param: "id" } },
+  async (request, { params }, auth) => {
+    try {
+      const refundId = parseInt((await params).id, 10);
+      if (isNaN(refundId)) {
+        return NextResponse.json({ error: "Invalid refund ID" }, { status: 400 });
+      }
+
+      const outcome = await voidRefund(refundId, auth.userId);
+      const { refund } = outcome;
+      const label = `${refund.type} #${refund.id} voided`;
+
+      await recordAudit(
+        request,
+        {
+          action: "delete",
+          entityType: "paymentRefund",
+          entityId: refund.id,
+          before: { ...refund, allocations: outcome.allocations },
+          note: `on payment #${refund.paymentId}`,
+        },
+        ...refundSideEffectAudits(outcome, label)
+      );
+
+      return NextResponse.json({
+        message: `${refund.type === "chargeback" ? "Chargeback" : "Refund"} voided`,
+        paymentStatus: outcome.payment.after.paymentStatus,
+      });
+    } catch (error) {
+      console.error("Error voiding refund:", error);
+      return ErrorHandler.handle(error);
+    }
+  }
+);
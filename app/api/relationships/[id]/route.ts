@@ -3,11 +3,12 @@ import { db } from "@/lib/db";
 import { eq } from "drizzle-orm";
 import { relationships } from "@/lib/db/schema";
 import { ErrorHandler } from "@/lib/error-handler";
+import { withAuth } from "@/lib/auth-guard";
 
-export async function DELETE(
+export const DELETE = withAuth({ role: "user", location: { resource: "relationship", param: "id" } }, async (
   request: NextRequest,
   { params }: { params: Promise<{ id: string }> }
-) {
+) => {
   const { id } = await params;
   const relationshipId = parseInt(id, 10);
 
@@ -54,4 +55,4 @@ export async function DELETE(
     console.error("Error deleting relationship:", error);
     return ErrorHandler.handle(error);
   }
-}
+});
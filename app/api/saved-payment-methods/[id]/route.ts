@@ -0,0 +1,73 @@
+import { NextResponse } from "next/server";
+import { eq } from "drizzle-orm";
+import { withTransaction } from "@/lib/db";
+import { paymentPlan, savedPaymentMethod } from "@/lib/db/schema";
+import { ErrorHandler } from "@/lib/error-handler";
+import { withAuth } from "@/lib/auth-guard";
+import { recordAudit } from "@/lib/audit-log";
+
+// Removing a method keeps the row for the transactions that used it and
+// stops every plan that was collecting from it
+export const DELETE = withAuth<{ id: string }>(
+  { role: "user", location: { resource: "savedPaymentMethod", param: "id" } },
+  async (request, { params }) => {
+    try {
+      const methodId = parseInt((await params).id, 10);
+      if (isNaN(methodId)) {
+        return NextResponse.json({ error: "Invalid payment method ID" }, { status: 400 });
+      }
+
+      const result = await withTransaction(async (tx) => {
+        const [before] = await tx
+          .select()
+          .from(savedPaymentMethod)
+          .where(eq(savedPaymentMethod.id, methodId))
+          .limit(1);
+        if (!before || !before.isActive) return null;
+
+        const [after] = await tx
+          .update(savedPaymentMethod)
+          .set({ isActive: false, updatedAt: new Date() })
+          .where(eq(savedPaymentMethod.id, methodId))
+          .returning();
+        const plans = await tx
+          .update(paymentPlan)
+          .set({ savedPaymentMethodId: null, updatedAt: new Date() })
+          .where(eq(paymentPlan.savedPaymentMethodId, methodId))
+          .returning({ id: paymentPlan.id });
+        return { before, after, plans };
+      });
+      if (!result) {
+        return NextResponse.json({ error: "Payment method not found" }, { status: 404 });
+      }
+
+      await recordAudit(
+        request,
+        {
+          action: "update",
+          entityType: "savedPaymentMethod",
+          entityId: methodId,
+          before: { isActive: result.before.isActive },
+          after: { isActive: result.after.isActive },
+          note: "removed",
+        },
+        ...result.plans.map((plan) => ({
+          action: "update" as const,
+          entityType: "paymentPlan" as const,
+          entityId: plan.id,
+          before: { savedPaymentMethodId: methodId },
+          after: { savedPaymentMethodId: null },
+          note: "auto-collection stopped",
+        }))
+      );
+
+      return NextResponse.json({
+        message: "Payment method removed",
+        plansStopped: result.plans.length,
+      });
+    } catch (error) {
+      console.error("Error removing payment method:", error);
+      return ErrorHandler.handle(error);
+    }
+  }
+);
@@ -3,11 +3,12 @@ import { unstable_cache } from "next/cache";
 import { db } from "@/lib/db";
 import { paymentPlan, pledge, contact } from "@/lib/db/schema";
 import { eq } from "drizzle-orm";
+import { withAuth } from "@/lib/auth-guard";
 
-export async function GET(
+export const GET = withAuth({ role: "user", location: { resource: "paymentPlan", param: "id" } }, async (
   request: NextRequest,
   { params }: { params: Promise<{ id: string }> }
-) {
+) => {
   const { id } = await params;
   const planId = parseInt(id, 10);
 
@@ -113,4 +114,4 @@ export async function GET(
     status: 200,
     headers: { "Cache-Control": "public, max-age=300" },
   });
-}
+});
@@ -13,6 +13,8 @@ import { eq, and, lte, sql, desc } from "drizzle-orm";
 import { NextRequest, NextResponse } from "next/server";
 import { getServerSession } from "next-auth";
 import { authOptions } from "@/lib/auth";
+import { recordAudit } from "@/lib/audit-log";
+import { decimal } from "@/lib/money";
 
 export async function POST(
   request: NextRequest,
@@ -116,7 +118,7 @@ export async function POST(
     }
 
     const paymentInfo = paymentDetails[0];
-    const paymentAmount = parseFloat(paymentInfo.amountUsd || "0");
+    const paymentAmount = paymentInfo.amountUsd || "0";
     const paymentDate = paymentInfo.paymentDate;
     const isDonation = paymentInfo.categoryName
       ?.toLowerCase()
@@ -148,14 +150,17 @@ export async function POST(
     if (applicableRules.length > 0) {
       const rule = applicableRules[0]; // Highest priority rule
       bonusPercentage = rule.bonusPercentage || "0";
-      bonusAmount = (
-        (paymentAmount * parseFloat(bonusPercentage)) /
-        100
-      ).toFixed(2);
+      bonusAmount = decimal(paymentAmount).times(bonusPercentage).dividedBy(100).toMoney("USD");
       bonusRuleId = rule.id;
     }
 
     // Update payment with solicitor assignment
+    const [previous] = await db
+      .select()
+      .from(payment)
+      .where(eq(payment.id, paymentId))
+      .limit(1);
+
     const updatedPayment = await db
       .update(payment)
       .set({
@@ -169,12 +174,12 @@ export async function POST(
       .returning();
 
     // Create bonus calculation record
-    if (parseFloat(bonusAmount) > 0) {
+    if (decimal(bonusAmount).isPositive()) {
       await db.insert(bonusCalculation).values({
         paymentId,
         solicitorId,
         bonusRuleId,
-        paymentAmount: paymentAmount.toString(),
+        paymentAmount,
         bonusPercentage,
         bonusAmount,
         calculatedAt: new Date(),
@@ -183,9 +188,17 @@ export async function POST(
       });
     }
 
+    await recordAudit(request, {
+      action: "update",
+      entityType: "payment",
+      entityId: paymentId,
+      before: previous,
+      after: updatedPayment[0],
+    });
+
     return NextResponse.json({
       payment: updatedPayment[0],
-      bonusCalculated: parseFloat(bonusAmount) > 0,
+      bonusCalculated: decimal(bonusAmount).isPositive(),
     });
   } catch (error) {
     console.error("Error assigning payment:", error);
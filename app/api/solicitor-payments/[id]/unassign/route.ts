@@ -4,6 +4,7 @@ import { eq, and } from "drizzle-orm";
 import { NextRequest, NextResponse } from "next/server";
 import { getServerSession } from "next-auth";
 import { authOptions } from "@/lib/auth";
+import { recordAudit } from "@/lib/audit-log";
 
 export async function POST(
   request: NextRequest,
@@ -62,6 +63,12 @@ export async function POST(
       .where(eq(bonusCalculation.paymentId, paymentId));
 
     // Update payment to remove solicitor assignment
+    const [previous] = await db
+      .select()
+      .from(payment)
+      .where(eq(payment.id, paymentId))
+      .limit(1);
+
     const updatedPayment = await db
       .update(payment)
       .set({
@@ -78,6 +85,14 @@ export async function POST(
       return NextResponse.json({ error: "Payment not found" }, { status: 404 });
     }
 
+    await recordAudit(request, {
+      action: "update",
+      entityType: "payment",
+      entityId: paymentId,
+      before: previous,
+      after: updatedPayment[0],
+    });
+
     return NextResponse.json({ payment: updatedPayment[0] });
   } catch (error) {
     console.error("Error unassigning payment:", error);
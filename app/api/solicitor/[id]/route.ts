@@ -4,6 +4,7 @@ import { eq, and } from "drizzle-orm";
 import { NextRequest, NextResponse } from "next/server";
 import { getServerSession } from "next-auth";
 import { authOptions } from "@/lib/auth";
+import { recordAudit } from "@/lib/audit-log";
 
 export async function PUT(
   request: NextRequest,
@@ -45,6 +46,12 @@ export async function PUT(
       whereConditions.push(eq(solicitor.locationId, currentUser.locationId));
     }
 
+    const [previous] = await db
+      .select()
+      .from(solicitor)
+      .where(and(...whereConditions))
+      .limit(1);
+
     const updatedSolicitor = await db
       .update(solicitor)
       .set({
@@ -61,6 +68,14 @@ export async function PUT(
       );
     }
 
+    await recordAudit(request, {
+      action: "update",
+      entityType: "solicitor",
+      entityId: solicitorId,
+      before: previous,
+      after: updatedSolicitor[0],
+    });
+
     return NextResponse.json({ solicitor: updatedSolicitor[0] });
   } catch (error) {
     console.error("Error updating solicitor:", error);
@@ -121,6 +136,13 @@ export async function DELETE(
       );
     }
 
+    await recordAudit(request, {
+      action: "delete",
+      entityType: "solicitor",
+      entityId: solicitorId,
+      before: deletedSolicitor[0],
+    });
+
     return NextResponse.json({ message: "Solicitor deleted successfully" });
   } catch (error) {
     console.error("Error deleting solicitor:", error);
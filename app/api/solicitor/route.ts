@@ -5,6 +5,7 @@ import { eq, desc, sql, and, isNotNull } from "drizzle-orm";
 import { solicitor, contact, payment, bonusCalculation, user } from "@/lib/db/schema";
 import { getServerSession } from "next-auth";
 import { authOptions } from "@/lib/auth";
+import { recordAudit } from "@/lib/audit-log";
 
 export async function GET(request: NextRequest) {
   try {
@@ -196,6 +197,13 @@ export async function POST(request: NextRequest) {
       })
       .returning();
 
+    await recordAudit(request, {
+      action: "create",
+      entityType: "solicitor",
+      entityId: newSolicitor[0].id,
+      after: newSolicitor[0],
+    });
+
     return NextResponse.json({ solicitor: newSolicitor[0] }, { status: 201 });
   } catch (error) {
     console.error("Error creating solicitor:", error);
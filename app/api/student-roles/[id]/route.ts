@@ -4,15 +4,16 @@ import { eq } from "drizzle-orm";
 import { z } from "zod";
 import { ErrorHandler } from "@/lib/error-handler";
 import { studentRoles } from "@/lib/db/schema";
+import { withAuth } from "@/lib/auth-guard";
 
 const deactivateStudentRoleSchema = z.object({
   isActive: z.literal(false).optional().default(false), // Ensure isActive is false
 });
 
-export async function PATCH(
+export const PATCH = withAuth({ role: "user", location: { resource: "studentRole", param: "id" } }, async (
   request: NextRequest,
   { params }: { params: Promise<{ id: string }> }
-) {
+) => {
   try {
     const { id } = await params;
     const studentRoleId = parseInt(id, 10);
@@ -78,4 +79,4 @@ export async function PATCH(
     console.error("Error deactivating student role:", error);
     return ErrorHandler.handle(error);
   }
-}
+});
@@ -5,11 +5,13 @@ import { z } from "zod";
 import { ErrorHandler } from "@/lib/error-handler";
 import { tag } from "@/lib/db/schema";
 import { updateTagSchema } from "@/lib/form-schemas/tag";
+import { withAuth } from "@/lib/auth-guard";
+import { recordAudit } from "@/lib/audit-log";
 
-export async function GET(
+export const GET = withAuth({ role: "admin", location: { resource: "tag", param: "id" } }, async (
   request: NextRequest,
   { params }: { params: Promise<{ id: string }> }
-) {
+) => {
   try {
     const { id } = await params;
     const tagId = parseInt(id);
@@ -38,12 +40,12 @@ export async function GET(
     console.error("Error fetching tag:", error);
     return ErrorHandler.handle(error);
   }
-}
+});
 
-export async function PATCH(
+export const PATCH = withAuth({ role: "admin", location: { resource: "tag", param: "id" } }, async (
   request: NextRequest,
   { params }: { params: Promise<{ id: string }> }
-) {
+) => {
   try {
     const { id } = await params;
     const tagId = parseInt(id);
@@ -101,6 +103,14 @@ export async function PATCH(
       .where(eq(tag.id, tagId))
       .returning();
 
+    await recordAudit(request, {
+      action: "update",
+      entityType: "tag",
+      entityId: tagId,
+      before: existingTag[0],
+      after: result[0],
+    });
+
     return NextResponse.json(
       {
         message: "Tag updated successfully",
@@ -124,12 +134,12 @@ export async function PATCH(
 
     return ErrorHandler.handle(error);
   }
-}
+});
 
-export async function DELETE(
+export const DELETE = withAuth({ role: "admin", location: { resource: "tag", param: "id" } }, async (
   request: NextRequest,
   { params }: { params: Promise<{ id: string }> }
-) {
+) => {
   try {
     const { id } = await params;
     const tagId = parseInt(id);
@@ -159,6 +169,13 @@ export async function DELETE(
       .where(eq(tag.id, tagId))
       .returning();
 
+    await recordAudit(request, {
+      action: "delete",
+      entityType: "tag",
+      entityId: tagId,
+      before: existingTag[0],
+    });
+
     return NextResponse.json(
       {
         message: "Tag deleted permanently",
@@ -170,4 +187,4 @@ export async function DELETE(
     console.error("Error deleting tag:", error);
     return ErrorHandler.handle(error);
   }
-}
\ No newline at end of file
+});
\ No newline at end of file
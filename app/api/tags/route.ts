@@ -7,6 +7,7 @@ import { z } from "zod";
 import { ErrorHandler } from "@/lib/error-handler";
 import { tag, NewTag } from "@/lib/db/schema";
 import { tagSchema } from "@/lib/form-schemas/tag";
+import { recordAudit } from "@/lib/audit-log";
 
 const querySchema = z.object({
   page: z.coerce.number().min(1).default(1),
@@ -238,6 +239,13 @@ export async function POST(request: NextRequest) {
 
     const result = await db.insert(tag).values(newTag).returning();
 
+    await recordAudit(request, {
+      action: "create",
+      entityType: "tag",
+      entityId: result[0].id,
+      after: result[0],
+    });
+
     return NextResponse.json(
       {
         message: "Tag created successfully",
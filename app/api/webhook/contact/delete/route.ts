@@ -3,6 +3,7 @@ import { db } from '@/lib/db';
 import { contact, Contact } from '@/lib/db/schema';
 import { eq, and } from 'drizzle-orm';
 import { z } from 'zod';
+import { recordAudit, WEBHOOK_ACTOR } from '@/lib/audit-log';
 
 // Helper: safely extract error message
 function getErrorMessage(err: unknown): string {
@@ -142,6 +143,14 @@ export async function POST(request: NextRequest) {
 
     await db.delete(contact).where(eq(contact.id, target.id));
 
+    await recordAudit(request, {
+      action: 'delete',
+      entityType: 'contact',
+      entityId: target.id,
+      before: target,
+      actor: WEBHOOK_ACTOR,
+    });
+
     return NextResponse.json({
       success: true,
       message: 'Contact deleted successfully',
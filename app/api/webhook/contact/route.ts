@@ -5,6 +5,7 @@ import type { Contact } from '@/lib/db/schema';
 import { eq, and } from 'drizzle-orm';
 import { z } from 'zod';
 import bcrypt from 'bcryptjs';
+import { recordAudit, WEBHOOK_ACTOR } from '@/lib/audit-log';
 
 // Helper: safely extract error message
 function getErrorMessage(err: unknown): string {
@@ -204,7 +205,12 @@ async function handleContactUpsert(data: {
       await handleUserUpsert(email);
     }
     
-    return { contact: { ...updated[0], externalContactId }, isNew: false, action: "updated" as const };
+    return {
+      contact: { ...updated[0], externalContactId },
+      previous: existingContact[0] as Contact | null,
+      isNew: false,
+      action: "updated" as const,
+    };
   } else {
     const inserted = await db.insert(contact).values({
       firstName,
@@ -223,7 +229,12 @@ async function handleContactUpsert(data: {
       await handleUserUpsert(email);
     }
     
-    return { contact: { ...inserted[0], externalContactId }, isNew: true, action: "created" as const };
+    return {
+      contact: { ...inserted[0], externalContactId },
+      previous: null,
+      isNew: true,
+      action: "created" as const,
+    };
   }
 }
 
@@ -322,6 +333,16 @@ export async function POST(request: NextRequest) {
 
     console.log(`Successfully ${result.action} contact with ID: ${result.contact.id}`);
 
+    const { externalContactId, ...savedContact } = result.contact;
+    await recordAudit(request, {
+      action: result.isNew ? 'create' : 'update',
+      entityType: 'contact',
+      entityId: savedContact.id,
+      before: result.previous,
+      after: savedContact,
+      actor: WEBHOOK_ACTOR,
+    });
+
     return NextResponse.json({
       success: true,
       message: `Contact ${result.action} successfully`,
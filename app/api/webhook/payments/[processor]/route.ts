@@ -0,0 +1,36 @@
+import { NextRequest, NextResponse } from "next/server";
+import { ErrorHandler } from "@/lib/error-handler";
+import { recordAudit, WEBHOOK_ACTOR } from "@/lib/audit-log";
+import { getPaymentProcessor, isProcessorName } from "@/lib/payment-processors/registry";
+import { applyProcessorEvent } from "@/lib/payment-processors/transactions";
+
+// Settlement and return notices from a payment processor. The signature is
+// checked against the raw body, so it is read as text before parsing.
+export async function POST(request: NextRequest, { params }: { params: Promise<{ processor: string }> }) {
+  try {
+    const { processor: name } = await params;
+    if (!isProcessorName(name)) {
+      return NextResponse.json({ error: "Unknown payment processor" }, { status: 404 });
+    }
+
+    const processor = getPaymentProcessor(name);
+    const event = processor.parseWebhook(await request.text(), request.headers);
+    const { transaction, changed } = await applyProcessorEvent(processor.name, event);
+
+    if (changed) {
+      await recordAudit(request, {
+        action: "update",
+        entityType: "processorTransaction",
+        entityId: transaction.id,
+        after: { status: transaction.status, failureCode: transaction.failureCode },
+        actor: WEBHOOK_ACTOR,
+        note: event.type,
+      });
+    }
+
+    return NextResponse.json({ received: true, changed });
+  } catch (error) {
+    console.error("Error handling payment webhook:", error);
+    return ErrorHandler.handle(error);
+  }
+}
@@ -1,10 +1,15 @@
 import { NextResponse } from "next/server";
 import { db } from "@/lib/db";
 import { category } from "@/lib/db/schema";
+import { locationFilter } from "@/lib/auth-guard";
+import { withZapierKey } from "@/lib/zapier";
 
-export async function GET() {
+export const GET = withZapierKey(async (request, _context, scope) => {
   try {
-    const categories = await db.select().from(category);
+    const categories = await db
+      .select()
+      .from(category)
+      .where(locationFilter(scope, category.locationId));
     return NextResponse.json(categories);
   } catch (error) {
     console.error("Error fetching categories:", error);
@@ -13,4 +18,4 @@ export async function GET() {
       { status: 500 }
     );
   }
-}
+});
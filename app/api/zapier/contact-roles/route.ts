@@ -1,10 +1,15 @@
 import { NextResponse } from "next/server";
 import { db } from "@/lib/db";
 import { contactRoles } from "@/lib/db/schema";
+import { contactLocationFilter } from "@/lib/auth-guard";
+import { withZapierKey } from "@/lib/zapier";
 
-export async function GET() {
+export const GET = withZapierKey(async (request, _context, scope) => {
   try {
-    const roles = await db.select().from(contactRoles);
+    const roles = await db
+      .select()
+      .from(contactRoles)
+      .where(contactLocationFilter(scope, contactRoles.contactId));
     return NextResponse.json(roles);
   } catch (error) {
     console.error("Error fetching contact roles:", error);
@@ -13,4 +18,4 @@ export async function GET() {
       { status: 500 }
     );
   }
-}
+});
@@ -1,10 +1,15 @@
 import { NextResponse } from "next/server";
 import { db } from "@/lib/db";
 import { contact } from "@/lib/db/schema";
+import { locationFilter } from "@/lib/auth-guard";
+import { withZapierKey } from "@/lib/zapier";
 
-export async function GET() {
+export const GET = withZapierKey(async (request, _context, scope) => {
   try {
-    const contacts = await db.select().from(contact);
+    const contacts = await db
+      .select()
+      .from(contact)
+      .where(locationFilter(scope, contact.locationId));
     return NextResponse.json(contacts);
   } catch (error) {
     console.error("Error fetching contacts:", error);
@@ -13,4 +18,4 @@ export async function GET() {
       { status: 500 }
     );
   }
-}
+});
@@ -1,10 +1,15 @@
 import { NextResponse } from "next/server";
 import { db } from "@/lib/db";
 import { paymentPlan } from "@/lib/db/schema";
+import { pledgeLocationFilter } from "@/lib/auth-guard";
+import { withZapierKey } from "@/lib/zapier";
 
-export async function GET() {
+export const GET = withZapierKey(async (request, _context, scope) => {
   try {
-    const plans = await db.select().from(paymentPlan);
+    const plans = await db
+      .select()
+      .from(paymentPlan)
+      .where(pledgeLocationFilter(scope, paymentPlan.pledgeId));
     return NextResponse.json(plans);
   } catch (error) {
     console.error("Error fetching payment plans:", error);
@@ -13,4 +18,4 @@ export async function GET() {
       { status: 500 }
     );
   }
-}
+});
@@ -10,8 +10,10 @@ import {
   bonusRule,
 } from "@/lib/db/schema";
 import { eq } from "drizzle-orm";
+import { paymentLocationFilter } from "@/lib/auth-guard";
+import { withZapierKey } from "@/lib/zapier";
 
-export async function GET() {
+export const GET = withZapierKey(async (request, _context, scope) => {
   try {
     const paymentsWithDetails = await db
       .select({
@@ -68,7 +70,8 @@ export async function GET() {
       .leftJoin(category, eq(pledge.categoryId, category.id))
       .leftJoin(paymentPlan, eq(payment.paymentPlanId, paymentPlan.id))
       .leftJoin(solicitor, eq(payment.solicitorId, solicitor.id))
-      .leftJoin(bonusRule, eq(payment.bonusRuleId, bonusRule.id));
+      .leftJoin(bonusRule, eq(payment.bonusRuleId, bonusRule.id))
+      .where(paymentLocationFilter(scope));
 
     return NextResponse.json(paymentsWithDetails);
   } catch (error) {
@@ -78,4 +81,4 @@ export async function GET() {
       { status: 500 }
     );
   }
-}
+});
@@ -1,10 +1,15 @@
 import { NextResponse } from "next/server";
 import { db } from "@/lib/db";
 import { payment } from "@/lib/db/schema";
+import { paymentLocationFilter } from "@/lib/auth-guard";
+import { withZapierKey } from "@/lib/zapier";
 
-export async function GET() {
+export const GET = withZapierKey(async (request, _context, scope) => {
   try {
-    const payments = await db.select().from(payment);
+    const payments = await db
+      .select()
+      .from(payment)
+      .where(paymentLocationFilter(scope));
     return NextResponse.json(payments);
   } catch (error) {
     console.error("Error fetching payments:", error);
@@ -13,4 +18,4 @@ export async function GET() {
       { status: 500 }
     );
   }
-}
+});
@@ -8,8 +8,10 @@ import {
   paymentPlan,
 } from "@/lib/db/schema";
 import { eq, sql } from "drizzle-orm";
+import { contactLocationFilter } from "@/lib/auth-guard";
+import { withZapierKey } from "@/lib/zapier";
 
-export async function GET() {
+export const GET = withZapierKey(async (request, _context, scope) => {
   try {
     const pledgesWithDetails = await db
       .select({
@@ -52,7 +54,7 @@ export async function GET() {
           "total_plans"
         ),
         activePlans:
-          sql<number>`COUNT(DISTINCT CASE WHEN ${paymentPlan.planStatus} = 'active' THEN ${paymentPlan.id} END)`.as(
+          sql<number>`COUNT(DISTINCT CASE WHEN ${paymentPlan.planStatus} IN ('active', 'overdue') THEN ${paymentPlan.id} END)`.as(
             "active_plans"
           ),
         nextPaymentDate: sql<Date>`MIN(${paymentPlan.nextPaymentDate})`.as(
@@ -64,6 +66,7 @@ export async function GET() {
       .leftJoin(category, eq(pledge.categoryId, category.id))
       .leftJoin(payment, eq(pledge.id, payment.pledgeId))
       .leftJoin(paymentPlan, eq(pledge.id, paymentPlan.pledgeId))
+      .where(contactLocationFilter(scope, pledge.contactId))
       .groupBy(pledge.id, contact.id, category.id);
 
     return NextResponse.json(pledgesWithDetails);
@@ -74,4 +77,4 @@ export async function GET() {
       { status: 500 }
     );
   }
-}
+});
@@ -1,10 +1,15 @@
 import { NextResponse } from "next/server";
 import { db } from "@/lib/db";
 import { pledge } from "@/lib/db/schema";
+import { contactLocationFilter } from "@/lib/auth-guard";
+import { withZapierKey } from "@/lib/zapier";
 
-export async function GET() {
+export const GET = withZapierKey(async (request, _context, scope) => {
   try {
-    const pledges = await db.select().from(pledge);
+    const pledges = await db
+      .select()
+      .from(pledge)
+      .where(contactLocationFilter(scope, pledge.contactId));
     return NextResponse.json(pledges);
   } catch (error) {
     console.error("Error fetching pledges:", error);
@@ -13,4 +18,4 @@ export async function GET() {
       { status: 500 }
     );
   }
-}
+});
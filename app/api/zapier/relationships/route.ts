@@ -1,10 +1,15 @@
 import { NextResponse } from "next/server";
 import { db } from "@/lib/db";
 import { relationships } from "@/lib/db/schema";
+import { contactLocationFilter } from "@/lib/auth-guard";
+import { withZapierKey } from "@/lib/zapier";
 
-export async function GET() {
+export const GET = withZapierKey(async (request, _context, scope) => {
   try {
-    const relationshipData = await db.select().from(relationships);
+    const relationshipData = await db
+      .select()
+      .from(relationships)
+      .where(contactLocationFilter(scope, relationships.contactId));
     return NextResponse.json(relationshipData);
   } catch (error) {
     console.error("Error fetching relationships:", error);
@@ -13,4 +18,4 @@ export async function GET() {
       { status: 500 }
     );
   }
-}
+});
@@ -47,6 +47,9 @@ export default function SettingsLayout({
               <TabLink href={`/contacts/${contactId}/payments`}>
                 Payments
               </TabLink>
+              <TabLink href={`/contacts/${contactId}/memorials`}>
+                Memorials
+              </TabLink>
               {isAdmin && (
                 <>
                   <TabLink href={`/contacts/${contactId}/solicitor`}>
@@ -0,0 +1,22 @@
+import { MemorialsClient } from "@/components/memorials/memorials-client";
+import React from "react";
+
+export default async function MemorialsPage({
+  params,
+}: {
+  params: Promise<{ contactId: string }>;
+}) {
+  const { contactId } = await params;
+  const contactIdNumber = parseInt(contactId);
+
+  if (isNaN(contactIdNumber)) {
+    return (
+      <div className="p-6">
+        <h1 className="text-2xl font-bold text-red-600">Invalid Contact ID</h1>
+        <p>The provided contact ID is not valid.</p>
+      </div>
+    );
+  }
+
+  return <MemorialsClient contactId={contactIdNumber} />;
+}
@@ -1,4 +1,5 @@
 import PaymentPlansTable from "@/components/payment-pans/payment-plan";
+import SavedPaymentMethods from "@/components/payment-pans/saved-payment-methods";
 import React from "react";
 
 export default async function PaymentPlansTablePage({
@@ -15,5 +16,10 @@ export default async function PaymentPlansTablePage({
       </div>
     );
   }
-  return <PaymentPlansTable contactId={contactIdNumber} />;
+  return (
+    <div className="space-y-6">
+      <SavedPaymentMethods contactId={contactIdNumber} />
+      <PaymentPlansTable contactId={contactIdNumber} />
+    </div>
+  );
 }
@@ -3,6 +3,7 @@
 import React, { useEffect, useState, useCallback, useMemo, useRef } from "react";
 import { useForm, useFieldArray } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
+import { useSession } from "next-auth/react";
 import { z } from "zod";
 import { Check, ChevronsUpDown, Edit, Users, Split, AlertTriangle, Plus, X, Search, UserPlus, RotateCcw } from "lucide-react";
 import { useQuery } from "@tanstack/react-query";
@@ -63,6 +64,7 @@ import { Badge } from "@/components/ui/badge";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Alert, AlertDescription } from "@/components/ui/alert";
 import { useExchangeRates } from "@/lib/query/useExchangeRates";
+import { currencyChoices, useCurrenciesQuery } from "@/lib/query/currencies/useCurrenciesQuery";
 import { cn } from "@/lib/utils";
 import { toast } from "sonner";
 import { useUpdatePaymentMutation } from "@/lib/query/payments/usePaymentQuery";
@@ -70,6 +72,10 @@ import { usePledgeDetailsQuery } from "@/lib/query/payment-plans/usePaymentPlanQ
 import { usePledgesQuery } from "@/lib/query/usePledgeData";
 import useContactId from "@/hooks/use-contact-id";
 import { useTagsQuery } from "@/lib/query/tags/useTagsQuery";
+import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import RecordHistory from "@/components/history/record-history";
+import PaymentReceipts from "@/components/receipts/payment-receipts";
+import PaymentRefunds from "@/components/refunds/payment-refunds";
 
 interface Solicitor {
   id: number;
@@ -251,10 +257,6 @@ const usePledgeWithContact = (pledgeId?: number | null) =>
     enabled: !!pledgeId,
   });
 
-const supportedCurrencies = [
-  "USD", "ILS", "EUR", "JPY", "GBP", "AUD", "CAD", "ZAR",
-] as const;
-
 const paymentStatuses = [
   { value: "expected", label: "Expected" },
   { value: "pending", label: "Pending" },
@@ -341,7 +343,7 @@ const editPaymentSchema = z
   .object({
     paymentId: z.number().positive(),
     amount: z.number().positive("Amount must be positive").optional(),
-    currency: z.enum([...supportedCurrencies] as [string, ...string[]]).optional(),
+    currency: z.string().optional(),
     amountUsd: z.number().positive("Amount in USD must be positive").optional(),
     amountInPledgeCurrency: z.number().positive("Amount in pledges/donations currency must be positive").optional(),
     exchangeRate: z.number().positive("Exchange rate must be positive").optional(),
@@ -460,6 +462,8 @@ export default function EditPaymentDialog({
   // Multi-contact payment state
   const [multiContactAllocations, setMultiContactAllocations] = useState<MultiContactAllocation[]>([]);
 
+  const { data: session } = useSession();
+  const [activeTab, setActiveTab] = useState<"details" | "history" | "receipts" | "refunds">("details");
   const [tagPopoverOpen, setTagPopoverOpen] = useState(false);
   const [selectedTagIds, setSelectedTagIds] = useState<number[]>(() => {
     return payment.tagIds || [];
@@ -784,6 +788,7 @@ export default function EditPaymentDialog({
     isLoading: isLoadingRates,
     error: ratesError,
   } = useExchangeRates(watchedReceivedDate || undefined);
+  const { currencies } = useCurrenciesQuery();
 
   const totalAllocatedAmount = (watchedAllocations || []).reduce(
     (sum, alloc) => sum + (alloc.allocatedAmount || 0),
@@ -2153,8 +2158,34 @@ export default function EditPaymentDialog({
           </DialogDescription>
         </DialogHeader>
 
+        <Tabs value={activeTab} onValueChange={(value) => setActiveTab(value as "details" | "history" | "receipts" | "refunds")}>
+          <TabsList>
+            <TabsTrigger value="details">Details</TabsTrigger>
+            <TabsTrigger value="history">History</TabsTrigger>
+            <TabsTrigger value="receipts">Receipts</TabsTrigger>
+            <TabsTrigger value="refunds">Refunds</TabsTrigger>
+          </TabsList>
+        </Tabs>
+
+        {activeTab === "history" && <RecordHistory recordType="payment" recordId={payment.id} />}
+        {activeTab === "receipts" && (
+          <PaymentReceipts
+            paymentId={payment.id}
+            paymentCompleted={payment.paymentStatus === "completed"}
+            canManage={session?.user?.role !== "user"}
+          />
+        )}
+        {activeTab === "refunds" && (
+          <PaymentRefunds paymentId={payment.id} canManage={session?.user?.role !== "user"} />
+        )}
+
         <Form {...form}>
-          <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-6" noValidate>
+          {/* Kept mounted while another tab is open so unsaved edits survive */}
+          <form
+            onSubmit={form.handleSubmit(onSubmit)}
+            className={cn("space-y-6", activeTab !== "details" && "hidden")}
+            noValidate
+          >
             <UndoSplitSection />
 
             {/* Amount Change Warning for Split Payments */}
@@ -2246,7 +2277,7 @@ export default function EditPaymentDialog({
                             </SelectTrigger>
                           </FormControl>
                           <SelectContent>
-                            {supportedCurrencies.map((currency) => (
+                            {currencyChoices(currencies, field.value).map((currency) => (
                               <SelectItem key={currency} value={currency}>
                                 {currency}
                               </SelectItem>
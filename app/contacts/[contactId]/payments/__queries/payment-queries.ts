@@ -3,7 +3,7 @@ import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
 export interface Payment {
   id: number;
   amount: string;
-  currency: "USD" | "ILS" | "EUR" | "JPY" | "GBP" | "AUD" | "CAD" | "ZAR";
+  currency: string;
   amountUsd?: string;
   exchangeRate?: string;
   paymentDate: string;
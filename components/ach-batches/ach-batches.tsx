@@ -0,0 +1,377 @@
+"use client";
+
+import { useRef, useState } from "react";
+import Link from "next/link";
+import { addDays, format, isWeekend } from "date-fns";
+import {
+  AchBatchPreview,
+  AchBatchSummary,
+  ImportAchReturnsResponse,
+  useAchBatchesQuery,
+  useGenerateAchBatchMutation,
+  useImportAchReturnsMutation,
+  usePreviewAchBatchMutation,
+  useSettleAchBatchMutation,
+} from "@/lib/query/ach-batches/useAchBatchesQuery";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { CheckCircle2, Download, FileUp, Landmark, Search } from "lucide-react";
+import { toast } from "sonner";
+
+const PAGE_SIZE = 25;
+
+const formatMoney = (amount: string | number, currency = "USD") =>
+  `${Number(amount).toLocaleString("en-US", { minimumFractionDigits: 2, maximumFractionDigits: 2 })} ${currency}`;
+
+// Banks need a business day's notice before the debits settle
+const nextBusinessDay = () => {
+  let day = addDays(new Date(), 1);
+  while (isWeekend(day)) day = addDays(day, 1);
+  return format(day, "yyyy-MM-dd");
+};
+
+export function AchBatches() {
+  const today = format(new Date(), "yyyy-MM-dd");
+  const [range, setRange] = useState({ fromDate: today, toDate: today, effectiveDate: nextBusinessDay() });
+  const [preview, setPreview] = useState<AchBatchPreview | null>(null);
+  const [page, setPage] = useState(1);
+  const [settling, setSettling] = useState<AchBatchSummary | null>(null);
+  const [returns, setReturns] = useState<ImportAchReturnsResponse | null>(null);
+  const fileInput = useRef<HTMLInputElement>(null);
+
+  const { data, isLoading, error, refetch } = useAchBatchesQuery(page, PAGE_SIZE);
+  const previewMutation = usePreviewAchBatchMutation();
+  const generateMutation = useGenerateAchBatchMutation();
+  const settleMutation = useSettleAchBatchMutation();
+  const returnsMutation = useImportAchReturnsMutation();
+
+  const batches = data?.batches ?? [];
+  const pagination = data?.pagination;
+  const rangeValid = !!range.fromDate && !!range.toDate && !!range.effectiveDate && range.fromDate <= range.toDate;
+
+  const updateRange = (field: keyof typeof range, value: string) => {
+    setRange({ ...range, [field]: value });
+    setPreview(null);
+  };
+
+  const handlePreview = async () => {
+    try {
+      setPreview(await previewMutation.mutateAsync(range));
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : "Failed to preview ACH batch");
+    }
+  };
+
+  const handleGenerate = async () => {
+    try {
+      const result = await generateMutation.mutateAsync(range);
+      toast.success(result.message);
+      setPreview(null);
+      window.location.href = `/api/admin/ach-batches/${result.batch.id}/file`;
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : "Failed to generate ACH batch");
+    }
+  };
+
+  const handleSettle = async () => {
+    if (!settling) return;
+    try {
+      const result = await settleMutation.mutateAsync(settling.id);
+      toast.success(result.message);
+      setSettling(null);
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : "Failed to settle ACH batch");
+    }
+  };
+
+  const handleReturnFile = async (file: File | undefined) => {
+    if (!file) return;
+    try {
+      const result = await returnsMutation.mutateAsync(await file.text());
+      setReturns(result);
+      toast.success(result.message);
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : "Failed to import return file");
+    } finally {
+      if (fileInput.current) fileInput.current.value = "";
+    }
+  };
+
+  if (error) {
+    return (
+      <div className="text-center py-8">
+        <p className="text-red-600 mb-4">Failed to load ACH batches</p>
+        <Button onClick={() => refetch()} variant="outline">
+          Retry
+        </Button>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <div>
+          <h2 className="text-2xl font-bold">ACH Batches</h2>
+          <p className="text-sm text-muted-foreground">
+            NACHA debit files for payment plans collected from a bank account
+          </p>
+        </div>
+        <div>
+          <input
+            ref={fileInput}
+            type="file"
+            accept=".txt,.ach,.ret"
+            className="hidden"
+            onChange={(e) => handleReturnFile(e.target.files?.[0])}
+          />
+          <Button
+            variant="outline"
+            onClick={() => fileInput.current?.click()}
+            disabled={returnsMutation.isPending}
+          >
+            <FileUp className="mr-2 h-4 w-4" />
+            {returnsMutation.isPending ? "Importing..." : "Import Return File"}
+          </Button>
+        </div>
+      </div>
+
+      <div className="rounded-md border p-4 space-y-4">
+        <div className="grid grid-cols-1 gap-4 md:grid-cols-4 md:items-end">
+          <div className="space-y-2">
+            <Label htmlFor="ach-from">Installments due from</Label>
+            <Input
+              id="ach-from"
+              type="date"
+              value={range.fromDate}
+              onChange={(e) => updateRange("fromDate", e.target.value)}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="ach-to">Through</Label>
+            <Input id="ach-to" type="date" value={range.toDate} onChange={(e) => updateRange("toDate", e.target.value)} />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="ach-effective">Effective date</Label>
+            <Input
+              id="ach-effective"
+              type="date"
+              value={range.effectiveDate}
+              onChange={(e) => updateRange("effectiveDate", e.target.value)}
+            />
+          </div>
+          <Button variant="outline" onClick={handlePreview} disabled={!rangeValid || previewMutation.isPending}>
+            <Search className="mr-2 h-4 w-4" />
+            {previewMutation.isPending ? "Checking..." : "Preview Debits"}
+          </Button>
+        </div>
+
+        {preview && (
+          <div className="space-y-3">
+            <div className="flex items-center justify-between">
+              <p className="text-sm">
+                {preview.debits.length} debits totalling {formatMoney(preview.totalAmount)}
+                {preview.skipped.length > 0 && (
+                  <span className="text-muted-foreground"> · {preview.skipped.length} skipped</span>
+                )}
+              </p>
+              <Button onClick={handleGenerate} disabled={preview.debits.length === 0 || generateMutation.isPending}>
+                <Landmark className="mr-2 h-4 w-4" />
+                {generateMutation.isPending ? "Generating..." : "Generate NACHA File"}
+              </Button>
+            </div>
+            {preview.debits.length > 0 && (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Donor</TableHead>
+                    <TableHead>Due</TableHead>
+                    <TableHead>Account</TableHead>
+                    <TableHead className="text-right">Amount</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {preview.debits.map((debit) => (
+                    <TableRow key={debit.installmentId}>
+                      <TableCell className="font-medium">
+                        <Link href={`/contacts/${debit.contactId}/payment-plans`} className="hover:underline">
+                          {debit.contactName}
+                        </Link>
+                      </TableCell>
+                      <TableCell>{debit.installmentDate}</TableCell>
+                      <TableCell>{debit.methodDetail}</TableCell>
+                      <TableCell className="text-right">{formatMoney(debit.amount, debit.currency)}</TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            )}
+            {preview.skipped.map((item) => (
+              <p key={item.installmentId} className="text-sm text-muted-foreground">
+                Installment #{item.installmentId} of plan #{item.paymentPlanId}: {item.reason}
+              </p>
+            ))}
+          </div>
+        )}
+      </div>
+
+      {returns && (
+        <div className="rounded-md border p-4 space-y-2 text-sm">
+          <p className="font-medium">{returns.message}</p>
+          {returns.returned.map((entry) => (
+            <p key={entry.entryId}>
+              Trace {entry.traceNumber} (batch #{entry.batchId}): {entry.returnCode} {entry.returnReason}
+            </p>
+          ))}
+          {returns.unmatched.length > 0 && (
+            <p className="text-muted-foreground">Not recognised: {returns.unmatched.join(", ")}</p>
+          )}
+          {returns.notices.map((notice) => (
+            <p key={notice.originalTraceNumber} className="text-muted-foreground">
+              Change notice {notice.changeCode} for trace {notice.originalTraceNumber}: {notice.correctedData}
+            </p>
+          ))}
+        </div>
+      )}
+
+      <div className="rounded-md border">
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Batch</TableHead>
+              <TableHead>Installments Due</TableHead>
+              <TableHead>Effective</TableHead>
+              <TableHead className="text-right">Debits</TableHead>
+              <TableHead className="text-right">Total</TableHead>
+              <TableHead>Status</TableHead>
+              <TableHead className="text-right">Actions</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {isLoading ? (
+              <TableRow>
+                <TableCell colSpan={7} className="text-center py-8">
+                  Loading batches...
+                </TableCell>
+              </TableRow>
+            ) : batches.length === 0 ? (
+              <TableRow>
+                <TableCell colSpan={7} className="text-center py-8 text-muted-foreground">
+                  No ACH batches yet
+                </TableCell>
+              </TableRow>
+            ) : (
+              batches.map((batch) => (
+                <TableRow key={batch.id}>
+                  <TableCell className="font-medium">#{batch.id}</TableCell>
+                  <TableCell>
+                    {batch.fromDate === batch.toDate ? batch.fromDate : `${batch.fromDate} – ${batch.toDate}`}
+                  </TableCell>
+                  <TableCell>{batch.effectiveDate}</TableCell>
+                  <TableCell className="text-right">{batch.entryCount}</TableCell>
+                  <TableCell className="text-right">{formatMoney(batch.totalAmount)}</TableCell>
+                  <TableCell>
+                    <div className="flex gap-1">
+                      <Badge variant={batch.settledAt ? "default" : "secondary"}>
+                        {batch.settledAt ? "Settled" : "Submitted"}
+                      </Badge>
+                      {batch.returnedCount > 0 && (
+                        <Badge variant="destructive">{batch.returnedCount} returned</Badge>
+                      )}
+                    </div>
+                  </TableCell>
+                  <TableCell className="text-right">
+                    <div className="flex justify-end gap-2">
+                      <Button size="sm" variant="outline" asChild>
+                        <a href={`/api/admin/ach-batches/${batch.id}/file`}>
+                          <Download className="mr-2 h-4 w-4" />
+                          File
+                        </a>
+                      </Button>
+                      {!batch.settledAt && (
+                        <Button
+                          size="sm"
+                          onClick={() => setSettling(batch)}
+                          disabled={batch.effectiveDate > today}
+                          title={batch.effectiveDate > today ? "Debits settle on the effective date" : undefined}
+                        >
+                          <CheckCircle2 className="mr-2 h-4 w-4" />
+                          Settle
+                        </Button>
+                      )}
+                    </div>
+                  </TableCell>
+                </TableRow>
+              ))
+            )}
+          </TableBody>
+        </Table>
+      </div>
+
+      {pagination && pagination.totalPages > 1 && (
+        <div className="flex items-center justify-between">
+          <div className="text-sm text-muted-foreground">
+            Page {pagination.page} of {pagination.totalPages}
+          </div>
+          <div className="flex space-x-2">
+            <Button variant="outline" size="sm" onClick={() => setPage(page - 1)} disabled={page <= 1}>
+              Previous
+            </Button>
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => setPage(page + 1)}
+              disabled={page >= pagination.totalPages}
+            >
+              Next
+            </Button>
+          </div>
+        </div>
+      )}
+
+      <AlertDialog open={!!settling} onOpenChange={(open) => !open && setSettling(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Mark batch #{settling?.id} as settled?</AlertDialogTitle>
+            <AlertDialogDescription>
+              Every debit not returned is completed as received on {settling?.effectiveDate}. Returns that arrive
+              later can still be imported.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel disabled={settleMutation.isPending}>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={(e) => {
+                e.preventDefault();
+                handleSettle();
+              }}
+              disabled={settleMutation.isPending}
+            >
+              {settleMutation.isPending ? "Saving..." : "Settle"}
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+}
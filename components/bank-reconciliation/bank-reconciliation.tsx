@@ -0,0 +1,442 @@
+"use client";
+
+import { useRef, useState } from "react";
+import { format } from "date-fns";
+import {
+  BankLineStatus,
+  BankStatementLine,
+  BankStatementSummary,
+  useBankLineActionMutation,
+  useBankStatementLinesQuery,
+  useBankStatementsQuery,
+  useDeleteBankStatementMutation,
+  useImportBankStatementMutation,
+  useMonthCloseSummaryQuery,
+} from "@/lib/query/bank-statements/useBankStatementsQuery";
+import { useCurrenciesQuery } from "@/lib/query/currencies/useCurrenciesQuery";
+import { DepositReviewDialog } from "@/components/bank-reconciliation/deposit-review-dialog";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { CheckCircle2, FileUp, RotateCcw, Search, Trash2 } from "lucide-react";
+import { toast } from "sonner";
+
+const STATUS_LABELS: Record<BankLineStatus | "open", string> = {
+  open: "Needs attention",
+  review: "To review",
+  unmatched: "Unmatched",
+  matched: "Reconciled",
+  ignored: "Ignored",
+};
+
+const STATUS_VARIANTS: Record<BankLineStatus, "default" | "secondary" | "destructive" | "outline"> = {
+  review: "secondary",
+  unmatched: "destructive",
+  matched: "default",
+  ignored: "outline",
+};
+
+const formatMoney = (amount: string, currency = "USD") =>
+  `${parseFloat(amount).toLocaleString("en-US", { minimumFractionDigits: 2, maximumFractionDigits: 2 })} ${currency}`;
+
+export function BankReconciliation() {
+  const { currencies } = useCurrenciesQuery();
+  const [month, setMonth] = useState(format(new Date(), "yyyy-MM"));
+  const [status, setStatus] = useState<BankLineStatus | "open">("open");
+  const [linePage, setLinePage] = useState(1);
+  const [statementPage, setStatementPage] = useState(1);
+  const [currency, setCurrency] = useState("USD");
+  const [reviewing, setReviewing] = useState<BankStatementLine | null>(null);
+  const [deleting, setDeleting] = useState<BankStatementSummary | null>(null);
+  const fileInput = useRef<HTMLInputElement>(null);
+
+  const { data: summary } = useMonthCloseSummaryQuery(month);
+  const { data: lineData, isLoading: linesLoading, error, refetch } = useBankStatementLinesQuery(status, linePage);
+  const { data: statementData } = useBankStatementsQuery(statementPage);
+  const importMutation = useImportBankStatementMutation();
+  const deleteMutation = useDeleteBankStatementMutation();
+  const actionMutation = useBankLineActionMutation();
+
+  const lines = lineData?.lines ?? [];
+  const statements = statementData?.statements ?? [];
+
+  const handleFile = async (file: File | undefined) => {
+    if (!file) return;
+    try {
+      const result = await importMutation.mutateAsync({ fileName: file.name, content: await file.text(), currency });
+      toast.success(result.message);
+      setStatus("open");
+      setLinePage(1);
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : "Failed to import bank statement");
+    } finally {
+      if (fileInput.current) fileInput.current.value = "";
+    }
+  };
+
+  const handleReopen = async (line: BankStatementLine) => {
+    try {
+      await actionMutation.mutateAsync({ lineId: line.id, action: "reopen" });
+      toast.success("Deposit reopened for review");
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : "Failed to reopen deposit");
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!deleting) return;
+    try {
+      const result = await deleteMutation.mutateAsync(deleting.id);
+      toast.success(result.message);
+      setDeleting(null);
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : "Failed to delete bank statement");
+    }
+  };
+
+  if (error) {
+    return (
+      <div className="text-center py-8">
+        <p className="text-red-600 mb-4">Failed to load bank deposits</p>
+        <Button onClick={() => refetch()} variant="outline">
+          Retry
+        </Button>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <div>
+          <h2 className="text-2xl font-bold">Bank Reconciliation</h2>
+          <p className="text-sm text-muted-foreground">
+            Match deposits on bank statements to the payments recorded here
+          </p>
+        </div>
+        <div className="flex items-center gap-2">
+          <Select value={currency} onValueChange={setCurrency}>
+            <SelectTrigger className="w-24" title="Currency of CSV statements">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {currencies.map(({ code }) => (
+                <SelectItem key={code} value={code}>
+                  {code}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <input
+            ref={fileInput}
+            type="file"
+            accept=".csv,.ofx,.qfx"
+            className="hidden"
+            onChange={(e) => handleFile(e.target.files?.[0])}
+          />
+          <Button onClick={() => fileInput.current?.click()} disabled={importMutation.isPending}>
+            <FileUp className="mr-2 h-4 w-4" />
+            {importMutation.isPending ? "Importing..." : "Import Statement"}
+          </Button>
+        </div>
+      </div>
+
+      <div className="rounded-md border p-4 space-y-3">
+        <div className="flex items-center gap-4">
+          <div className="flex items-center gap-2">
+            <Label htmlFor="close-month">Month</Label>
+            <Input
+              id="close-month"
+              type="month"
+              className="w-44"
+              value={month}
+              onChange={(e) => setMonth(e.target.value)}
+            />
+          </div>
+          {summary &&
+            (summary.readyToClose ? (
+              <Badge>
+                <CheckCircle2 className="mr-1 h-3 w-3" />
+                Ready to close
+              </Badge>
+            ) : (
+              <Badge variant="secondary">Open items</Badge>
+            ))}
+        </div>
+        {summary && (
+          <div className="grid grid-cols-2 gap-4 text-sm md:grid-cols-4">
+            {(["matched", "review", "unmatched", "ignored"] as const).map((key) => (
+              <div key={key}>
+                <p className="text-muted-foreground">{STATUS_LABELS[key]} deposits</p>
+                <p className="font-medium">
+                  {summary.deposits[key].count} · {formatMoney(summary.deposits[key].total)}
+                </p>
+              </div>
+            ))}
+            {summary.payments.map((row) => (
+              <div key={row.currency} className="col-span-2">
+                <p className="text-muted-foreground">Payments received in {row.currency}</p>
+                <p className="font-medium">
+                  {row.reconciledCount} of {row.count} reconciled · {formatMoney(row.reconciledTotal, row.currency)} of{" "}
+                  {formatMoney(row.total, row.currency)}
+                </p>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+
+      <div className="space-y-3">
+        <div className="flex items-center space-x-4">
+          <Select
+            value={status}
+            onValueChange={(value) => {
+              setStatus(value as BankLineStatus | "open");
+              setLinePage(1);
+            }}
+          >
+            <SelectTrigger className="w-48">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {Object.entries(STATUS_LABELS).map(([value, label]) => (
+                <SelectItem key={value} value={value}>
+                  {label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          {lineData && lineData.pagination.totalCount > 0 && (
+            <span className="text-sm text-muted-foreground">{lineData.pagination.totalCount} deposits</span>
+          )}
+        </div>
+
+        <div className="rounded-md border">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Posted</TableHead>
+                <TableHead>Description</TableHead>
+                <TableHead>Check / Reference</TableHead>
+                <TableHead className="text-right">Amount</TableHead>
+                <TableHead>Status</TableHead>
+                <TableHead className="text-right">Actions</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {linesLoading ? (
+                <TableRow>
+                  <TableCell colSpan={6} className="text-center py-8">
+                    Loading deposits...
+                  </TableCell>
+                </TableRow>
+              ) : lines.length === 0 ? (
+                <TableRow>
+                  <TableCell colSpan={6} className="text-center py-8 text-muted-foreground">
+                    No {STATUS_LABELS[status].toLowerCase()} deposits
+                  </TableCell>
+                </TableRow>
+              ) : (
+                lines.map((line) => (
+                  <TableRow key={line.id}>
+                    <TableCell>{line.postedDate}</TableCell>
+                    <TableCell className="max-w-xs">
+                      <div className="truncate">{line.description ?? "—"}</div>
+                      {line.matchNote && <div className="text-xs text-muted-foreground truncate">{line.matchNote}</div>}
+                    </TableCell>
+                    <TableCell>
+                      {line.checkNumber ? `#${line.checkNumber}` : (line.referenceNumber ?? "—")}
+                    </TableCell>
+                    <TableCell className="text-right">{formatMoney(line.amount, line.currency)}</TableCell>
+                    <TableCell>
+                      <Badge variant={STATUS_VARIANTS[line.status]}>{STATUS_LABELS[line.status]}</Badge>
+                      {line.paymentId && (
+                        <span className="ml-2 text-xs text-muted-foreground">
+                          Payment #{line.paymentId}
+                          {line.matchMethod === "created" ? " (new)" : line.matchMethod === "auto" ? " (auto)" : ""}
+                        </span>
+                      )}
+                    </TableCell>
+                    <TableCell className="text-right">
+                      {line.status === "review" || line.status === "unmatched" ? (
+                        <Button size="sm" onClick={() => setReviewing(line)}>
+                          <Search className="mr-2 h-4 w-4" />
+                          Review
+                        </Button>
+                      ) : (
+                        <Button
+                          size="sm"
+                          variant="outline"
+                          onClick={() => handleReopen(line)}
+                          disabled={actionMutation.isPending}
+                        >
+                          <RotateCcw className="mr-2 h-4 w-4" />
+                          Reopen
+                        </Button>
+                      )}
+                    </TableCell>
+                  </TableRow>
+                ))
+              )}
+            </TableBody>
+          </Table>
+        </div>
+
+        {lineData && lineData.pagination.totalPages > 1 && (
+          <div className="flex items-center justify-between">
+            <div className="text-sm text-muted-foreground">
+              Page {lineData.pagination.page} of {lineData.pagination.totalPages}
+            </div>
+            <div className="flex space-x-2">
+              <Button variant="outline" size="sm" onClick={() => setLinePage(linePage - 1)} disabled={linePage <= 1}>
+                Previous
+              </Button>
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => setLinePage(linePage + 1)}
+                disabled={linePage >= lineData.pagination.totalPages}
+              >
+                Next
+              </Button>
+            </div>
+          </div>
+        )}
+      </div>
+
+      <div className="space-y-3">
+        <h3 className="text-lg font-semibold">Imported Statements</h3>
+        <div className="rounded-md border">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>File</TableHead>
+                <TableHead>Period</TableHead>
+                <TableHead className="text-right">Deposits</TableHead>
+                <TableHead>Progress</TableHead>
+                <TableHead>Imported</TableHead>
+                <TableHead />
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {statements.length === 0 ? (
+                <TableRow>
+                  <TableCell colSpan={6} className="text-center py-8 text-muted-foreground">
+                    No statements imported yet
+                  </TableCell>
+                </TableRow>
+              ) : (
+                statements.map((statement) => (
+                  <TableRow key={statement.id}>
+                    <TableCell className="font-medium">
+                      {statement.fileName}
+                      <span className="ml-2 text-xs text-muted-foreground uppercase">{statement.format}</span>
+                    </TableCell>
+                    <TableCell>
+                      {statement.periodStart && statement.periodEnd
+                        ? `${statement.periodStart} – ${statement.periodEnd}`
+                        : "—"}
+                    </TableCell>
+                    <TableCell className="text-right">
+                      {statement.lineCount}
+                      {statement.duplicateCount > 0 && (
+                        <span className="text-muted-foreground"> (+{statement.duplicateCount} repeated)</span>
+                      )}
+                    </TableCell>
+                    <TableCell className="text-sm">
+                      {statement.matchedCount} reconciled
+                      {statement.reviewCount + statement.unmatchedCount > 0 && (
+                        <span className="text-muted-foreground">
+                          {" "}
+                          · {statement.reviewCount + statement.unmatchedCount} open
+                        </span>
+                      )}
+                    </TableCell>
+                    <TableCell>{format(new Date(statement.createdAt), "yyyy-MM-dd")}</TableCell>
+                    <TableCell className="text-right">
+                      <Button size="sm" variant="ghost" onClick={() => setDeleting(statement)}>
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </TableCell>
+                  </TableRow>
+                ))
+              )}
+            </TableBody>
+          </Table>
+        </div>
+        {statementData && statementData.pagination.totalPages > 1 && (
+          <div className="flex justify-end space-x-2">
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => setStatementPage(statementPage - 1)}
+              disabled={statementPage <= 1}
+            >
+              Previous
+            </Button>
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => setStatementPage(statementPage + 1)}
+              disabled={statementPage >= statementData.pagination.totalPages}
+            >
+              Next
+            </Button>
+          </div>
+        )}
+      </div>
+
+      <DepositReviewDialog key={reviewing?.id ?? "none"} deposit={reviewing} onClose={() => setReviewing(null)} />
+
+      <AlertDialog open={!!deleting} onOpenChange={(open) => !open && setDeleting(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete {deleting?.fileName}?</AlertDialogTitle>
+            <AlertDialogDescription>
+              Its deposits are removed and the payments matched to them become unreconciled. Payments recorded from
+              its deposits are kept.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel disabled={deleteMutation.isPending}>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={(e) => {
+                e.preventDefault();
+                handleDelete();
+              }}
+              disabled={deleteMutation.isPending}
+            >
+              {deleteMutation.isPending ? "Deleting..." : "Delete"}
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+}
@@ -0,0 +1,318 @@
+"use client";
+
+import { useState } from "react";
+import Link from "next/link";
+import { useQuery } from "@tanstack/react-query";
+import {
+  BankStatementLine,
+  useBankLineActionMutation,
+  useBankLineDetailQuery,
+  useCreateDepositPaymentMutation,
+} from "@/lib/query/bank-statements/useBankStatementsQuery";
+import { usePaymentMethodOptions } from "@/lib/query/usePaymentMethods";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Link2, Plus } from "lucide-react";
+import { toast } from "sonner";
+
+interface ContactOption {
+  id: number;
+  fullName: string;
+}
+
+interface PledgeOption {
+  id: number;
+  description: string | null;
+  currency: string;
+  balance: string;
+}
+
+const formatMoney = (amount: string, currency: string) =>
+  `${parseFloat(amount).toLocaleString("en-US", { minimumFractionDigits: 2, maximumFractionDigits: 2 })} ${currency}`;
+
+interface DepositReviewDialogProps {
+  deposit: BankStatementLine | null;
+  onClose: () => void;
+}
+
+export function DepositReviewDialog({ deposit, onClose }: DepositReviewDialogProps) {
+  const [creating, setCreating] = useState(false);
+  const [search, setSearch] = useState("");
+  const [contactId, setContactId] = useState<number | null>(null);
+  const [pledgeId, setPledgeId] = useState<string>("");
+  const [paymentMethod, setPaymentMethod] = useState(deposit?.checkNumber ? "check" : "");
+
+  const { data, isLoading } = useBankLineDetailQuery(deposit?.id ?? null);
+  const actionMutation = useBankLineActionMutation();
+  const createMutation = useCreateDepositPaymentMutation();
+  const { options: paymentMethodOptions } = usePaymentMethodOptions();
+
+  const { data: contactResults } = useQuery({
+    queryKey: ["contacts", "search", search],
+    queryFn: async (): Promise<{ contacts: ContactOption[] }> => {
+      const response = await fetch(`/api/contacts/search?q=${encodeURIComponent(search)}`);
+      if (!response.ok) throw new Error("Failed to search contacts");
+      return response.json();
+    },
+    enabled: creating && search.length >= 2 && !contactId,
+  });
+
+  const { data: pledgeResults } = useQuery({
+    queryKey: ["pledges", "contact", contactId, "deposit"],
+    queryFn: async (): Promise<{ pledges: PledgeOption[] }> => {
+      const response = await fetch(`/api/pledges?contactId=${contactId}&limit=100`);
+      if (!response.ok) throw new Error("Failed to fetch pledges");
+      return response.json();
+    },
+    enabled: !!contactId,
+  });
+
+  const close = () => {
+    setCreating(false);
+    setSearch("");
+    setContactId(null);
+    setPledgeId("");
+    onClose();
+  };
+
+  const handleMatch = async (paymentId: number) => {
+    if (!deposit) return;
+    try {
+      await actionMutation.mutateAsync({ lineId: deposit.id, action: "match", paymentId });
+      toast.success(`Deposit reconciled to payment #${paymentId}`);
+      close();
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : "Failed to reconcile deposit");
+    }
+  };
+
+  const handleIgnore = async () => {
+    if (!deposit) return;
+    try {
+      await actionMutation.mutateAsync({ lineId: deposit.id, action: "ignore" });
+      toast.success("Deposit ignored");
+      close();
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : "Failed to ignore deposit");
+    }
+  };
+
+  const handleCreate = async () => {
+    if (!deposit || !pledgeId || !paymentMethod) return;
+    try {
+      const result = await createMutation.mutateAsync({
+        lineId: deposit.id,
+        pledgeId: parseInt(pledgeId, 10),
+        paymentMethod,
+      });
+      toast.success(result.message);
+      close();
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : "Failed to record payment");
+    }
+  };
+
+  const candidates = (data?.candidates ?? []).filter((candidate) => !candidate.isReconciled);
+  const busy = actionMutation.isPending || createMutation.isPending;
+
+  return (
+    <Dialog open={!!deposit} onOpenChange={(open) => !open && close()}>
+      <DialogContent className="max-w-3xl">
+        <DialogHeader>
+          <DialogTitle>
+            Deposit of {deposit && formatMoney(deposit.amount, deposit.currency)} on {deposit?.postedDate}
+          </DialogTitle>
+          <DialogDescription>
+            {[deposit?.description, deposit?.checkNumber && `Check #${deposit.checkNumber}`, deposit?.referenceNumber]
+              .filter(Boolean)
+              .join(" · ") || "No description from the bank"}
+            {deposit?.matchNote && <span className="block mt-1">{deposit.matchNote}</span>}
+          </DialogDescription>
+        </DialogHeader>
+
+        {!creating ? (
+          <div className="space-y-3">
+            <p className="text-sm font-medium">Payments that could be this deposit</p>
+            <div className="rounded-md border">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Donor</TableHead>
+                    <TableHead>Received</TableHead>
+                    <TableHead>Method</TableHead>
+                    <TableHead className="text-right">Amount</TableHead>
+                    <TableHead />
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {isLoading ? (
+                    <TableRow>
+                      <TableCell colSpan={5} className="text-center py-6">
+                        Looking for payments...
+                      </TableCell>
+                    </TableRow>
+                  ) : candidates.length === 0 ? (
+                    <TableRow>
+                      <TableCell colSpan={5} className="text-center py-6 text-muted-foreground">
+                        No unreconciled payment matches this deposit
+                      </TableCell>
+                    </TableRow>
+                  ) : (
+                    candidates.map((candidate) => (
+                      <TableRow key={candidate.id}>
+                        <TableCell className="font-medium">
+                          {candidate.contactId ? (
+                            <Link href={`/contacts/${candidate.contactId}/payments`} className="hover:underline">
+                              {candidate.contactName ?? `Contact #${candidate.contactId}`}
+                            </Link>
+                          ) : (
+                            `Payment #${candidate.id}`
+                          )}
+                        </TableCell>
+                        <TableCell>{candidate.receivedDate ?? candidate.paymentDate}</TableCell>
+                        <TableCell>
+                          {candidate.paymentMethod ?? "—"}
+                          {candidate.checkNumber && (
+                            <span className="text-muted-foreground"> #{candidate.checkNumber}</span>
+                          )}
+                          {candidate.paymentStatus === "processing" && (
+                            <Badge variant="secondary" className="ml-2">
+                              Processing
+                            </Badge>
+                          )}
+                        </TableCell>
+                        <TableCell className="text-right">{formatMoney(candidate.amount, candidate.currency)}</TableCell>
+                        <TableCell className="text-right">
+                          <Button
+                            size="sm"
+                            onClick={() => handleMatch(candidate.id)}
+                            disabled={busy || candidate.amount !== deposit?.amount}
+                            title={candidate.amount !== deposit?.amount ? "The amounts differ" : undefined}
+                          >
+                            <Link2 className="mr-2 h-4 w-4" />
+                            Match
+                          </Button>
+                        </TableCell>
+                      </TableRow>
+                    ))
+                  )}
+                </TableBody>
+              </Table>
+            </div>
+          </div>
+        ) : (
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2 col-span-2">
+              <Label htmlFor="deposit-contact">Donor</Label>
+              <Input
+                id="deposit-contact"
+                value={search}
+                placeholder="Search by name or email"
+                onChange={(e) => {
+                  setSearch(e.target.value);
+                  setContactId(null);
+                  setPledgeId("");
+                }}
+              />
+              {!contactId && (contactResults?.contacts ?? []).length > 0 && (
+                <div className="rounded-md border max-h-40 overflow-y-auto">
+                  {contactResults!.contacts.map((contact) => (
+                    <button
+                      key={contact.id}
+                      type="button"
+                      className="block w-full text-left px-3 py-1.5 text-sm hover:bg-muted"
+                      onClick={() => {
+                        setContactId(contact.id);
+                        setSearch(contact.fullName);
+                      }}
+                    >
+                      {contact.fullName}
+                    </button>
+                  ))}
+                </div>
+              )}
+            </div>
+            <div className="space-y-2">
+              <Label>Pledge</Label>
+              <Select value={pledgeId} onValueChange={setPledgeId} disabled={!contactId}>
+                <SelectTrigger>
+                  <SelectValue placeholder={contactId ? "Select a pledge" : "Choose a donor first"} />
+                </SelectTrigger>
+                <SelectContent>
+                  {(pledgeResults?.pledges ?? []).map((pledge) => (
+                    <SelectItem key={pledge.id} value={String(pledge.id)}>
+                      #{pledge.id} {pledge.description ?? ""} ({formatMoney(pledge.balance, pledge.currency)} due)
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label>Payment method</Label>
+              <Select value={paymentMethod} onValueChange={setPaymentMethod}>
+                <SelectTrigger>
+                  <SelectValue placeholder="Select a method" />
+                </SelectTrigger>
+                <SelectContent>
+                  {paymentMethodOptions.map((method) => (
+                    <SelectItem key={method.value} value={method.value}>
+                      {method.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+        )}
+
+        <DialogFooter className="sm:justify-between">
+          {!creating ? (
+            <>
+              <Button variant="ghost" onClick={handleIgnore} disabled={busy}>
+                Ignore Deposit
+              </Button>
+              <Button variant="outline" onClick={() => setCreating(true)} disabled={busy}>
+                <Plus className="mr-2 h-4 w-4" />
+                Record as New Payment
+              </Button>
+            </>
+          ) : (
+            <>
+              <Button variant="ghost" onClick={() => setCreating(false)} disabled={busy}>
+                Back to Matches
+              </Button>
+              <Button onClick={handleCreate} disabled={busy || !pledgeId || !paymentMethod}>
+                {createMutation.isPending ? "Saving..." : "Record Payment"}
+              </Button>
+            </>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
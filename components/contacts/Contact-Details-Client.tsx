@@ -82,8 +82,9 @@ export default function ContactDetailsClient() {
       totalPledgedUsd: acc.totalPledgedUsd + (Number(curr.totalPledgedUsd) || 0),
       totalPaidUsd: acc.totalPaidUsd + (Number(curr.totalPaidUsd) || 0),
       currentBalanceUsd: acc.currentBalanceUsd + (Number(curr.currentBalanceUsd) || 0),
+      totalAdjustedUsd: acc.totalAdjustedUsd + (Number(curr.totalAdjustedUsd) || 0),
     }),
-    { totalPledgedUsd: 0, totalPaidUsd: 0, currentBalanceUsd: 0 }
+    { totalPledgedUsd: 0, totalPaidUsd: 0, currentBalanceUsd: 0, totalAdjustedUsd: 0 }
   );
 
   return (
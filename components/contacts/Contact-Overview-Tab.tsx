@@ -23,6 +23,7 @@ interface FinancialSummary {
   totalPledgedUsd: number;
   totalPaidUsd: number;
   currentBalanceUsd: number;
+  totalAdjustedUsd: number;
 }
 
 interface ContactOverviewTabProps {
@@ -113,6 +114,8 @@ const ContactOverviewTab: React.FC<ContactOverviewTabProps> = ({
                   title: contact.title || undefined,
                   gender: contact.gender || undefined,
                   address: contact.address || undefined,
+                  taxId: contact.taxId || undefined,
+                  giftAidDeclarationDate: contact.giftAidDeclarationDate || undefined,
                 }}
                 trigger={
                   <Button
@@ -178,6 +181,18 @@ const ContactOverviewTab: React.FC<ContactOverviewTabProps> = ({
                 </dt>
                 <dd className="text-right">{contact.address ?? "N/A"}</dd>
               </div>
+              {contact.taxId && (
+                <div className="grid grid-cols-2 gap-1 py-2">
+                  <dt className="text-muted-foreground font-medium">Tax ID</dt>
+                  <dd className="text-right">{contact.taxId}</dd>
+                </div>
+              )}
+              {contact.giftAidDeclarationDate && (
+                <div className="grid grid-cols-2 gap-1 py-2">
+                  <dt className="text-muted-foreground font-medium">Gift Aid Declaration</dt>
+                  <dd className="text-right">{contact.giftAidDeclarationDate}</dd>
+                </div>
+              )}
             </dl>
           </CardContent>
         </Card>
@@ -220,6 +235,18 @@ const ContactOverviewTab: React.FC<ContactOverviewTabProps> = ({
                   )}
                 </dd>
               </div>
+              {financialSummary.totalAdjustedUsd > 0 && (
+                <div className="grid grid-cols-2 gap-1 py-2">
+                  <dt className="text-muted-foreground font-medium">
+                    Written Off / Reduced
+                  </dt>
+                  <dd className="text-right font-medium text-red-600">
+                    -${financialSummary.totalAdjustedUsd.toLocaleString(
+                      "en-US"
+                    )}
+                  </dd>
+                </div>
+              )}
               <div className="grid grid-cols-2 gap-1 py-2">
                 <dt className="text-muted-foreground font-medium">
                   Current Balance
@@ -6,6 +6,7 @@ interface FinancialSummary {
   totalPledgedUsd: number;
   totalPaidUsd: number;
   currentBalanceUsd: number;
+  totalAdjustedUsd: number;
 }
 
 interface FinancialSummaryTabProps {
@@ -26,7 +27,7 @@ const FinancialSummaryTab: React.FC<FinancialSummaryTabProps> = ({
   return (
     <div className="space-y-6">
       {/* Financial Overview Cards */}
-      <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+      <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
         <Card>
           <CardContent className="p-6 text-center">
             <p className="text-sm text-muted-foreground mb-1">pledges/donations</p>
@@ -43,6 +44,16 @@ const FinancialSummaryTab: React.FC<FinancialSummaryTabProps> = ({
             </p>
           </CardContent>
         </Card>
+        <Card>
+          <CardContent className="p-6 text-center">
+            <p className="text-sm text-muted-foreground mb-1">
+              Written Off / Reduced
+            </p>
+            <p className="text-3xl font-bold text-red-600">
+              ${financialSummary.totalAdjustedUsd}
+            </p>
+          </CardContent>
+        </Card>
         <Card>
           <CardContent className="p-6 text-center">
             <p className="text-sm text-muted-foreground mb-1">
@@ -82,6 +93,12 @@ const FinancialSummaryTab: React.FC<FinancialSummaryTabProps> = ({
                 <div className="w-3 h-3 rounded-full bg-green-500" />
                 <span>Paid: ${financialSummary.totalPaidUsd}</span>
               </div>
+              {financialSummary.totalAdjustedUsd > 0 && (
+                <div className="flex items-center gap-2">
+                  <div className="w-3 h-3 rounded-full bg-red-500" />
+                  <span>Written off: ${financialSummary.totalAdjustedUsd}</span>
+                </div>
+              )}
               <div className="flex items-center gap-2">
                 <div className="w-3 h-3 rounded-full bg-orange-500" />
                 <span>Remaining: ${financialSummary.currentBalanceUsd}</span>
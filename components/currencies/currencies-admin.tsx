@@ -0,0 +1,212 @@
+"use client";
+
+import { useState } from "react";
+import {
+  CurrencyOption,
+  useAdminCurrenciesQuery,
+  useSaveCurrencyMutation,
+} from "@/lib/query/currencies/useCurrenciesQuery";
+import { currencySchema, type CurrencyFormData } from "@/lib/form-schemas/currency";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { Pencil, Save } from "lucide-react";
+import { toast } from "sonner";
+
+const blankForm = { code: "", name: "", symbol: "", minorUnits: "2" };
+
+export function CurrenciesAdmin() {
+  const [form, setForm] = useState(blankForm);
+  const { data, isLoading, error, refetch } = useAdminCurrenciesQuery();
+  const saveMutation = useSaveCurrencyMutation();
+
+  const currencies = data?.currencies ?? [];
+  const existing = currencies.find((currency) => currency.code === form.code.trim().toUpperCase());
+
+  const save = async (input: CurrencyFormData) => {
+    try {
+      const result = await saveMutation.mutateAsync(input);
+      toast.success(result.message);
+      return true;
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : "Failed to save currency");
+      return false;
+    }
+  };
+
+  const handleSubmit = async () => {
+    const parsed = currencySchema.safeParse({
+      code: form.code,
+      name: form.name,
+      symbol: form.symbol,
+      minorUnits: Number(form.minorUnits),
+      isActive: existing?.isActive ?? true,
+    });
+    if (!parsed.success) {
+      toast.error(parsed.error.issues[0]?.message ?? "Check the currency details");
+      return;
+    }
+    if (await save(parsed.data)) setForm(blankForm);
+  };
+
+  const toggle = (currency: CurrencyOption, isActive: boolean) =>
+    save({
+      code: currency.code,
+      name: currency.name,
+      symbol: currency.symbol,
+      minorUnits: currency.minorUnits,
+      isActive,
+    });
+
+  if (error) {
+    return (
+      <div className="text-center py-8">
+        <p className="text-red-600 mb-4">Failed to load currencies</p>
+        <Button onClick={() => refetch()} variant="outline">
+          Retry
+        </Button>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h2 className="text-2xl font-bold">Currencies</h2>
+        <p className="text-sm text-muted-foreground">
+          Enabled currencies are offered on pledges, payments and plans, and their daily rates are fetched. Turning one
+          off leaves existing records in it as they are.
+        </p>
+      </div>
+
+      <div className="rounded-md border p-4 space-y-3">
+        <h3 className="font-semibold">{existing ? `Edit ${existing.code}` : "Add a currency"}</h3>
+        <div className="grid grid-cols-4 gap-3">
+          <div className="space-y-1">
+            <Label htmlFor="currency-code">ISO code</Label>
+            <Input
+              id="currency-code"
+              maxLength={3}
+              placeholder="CHF"
+              value={form.code}
+              onChange={(e) => setForm({ ...form, code: e.target.value.toUpperCase() })}
+            />
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="currency-name">Name</Label>
+            <Input
+              id="currency-name"
+              placeholder="Swiss Franc"
+              value={form.name}
+              onChange={(e) => setForm({ ...form, name: e.target.value })}
+            />
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="currency-symbol">Symbol</Label>
+            <Input
+              id="currency-symbol"
+              placeholder="CHF"
+              value={form.symbol}
+              onChange={(e) => setForm({ ...form, symbol: e.target.value })}
+            />
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="currency-minor-units">Decimal places</Label>
+            <Input
+              id="currency-minor-units"
+              type="number"
+              min="0"
+              max="4"
+              value={form.minorUnits}
+              onChange={(e) => setForm({ ...form, minorUnits: e.target.value })}
+            />
+          </div>
+        </div>
+        <div className="flex gap-2">
+          <Button onClick={handleSubmit} disabled={saveMutation.isPending || !form.code || !form.name || !form.symbol}>
+            <Save className="mr-2 h-4 w-4" />
+            {saveMutation.isPending ? "Saving..." : existing ? "Save Changes" : "Add Currency"}
+          </Button>
+          {form !== blankForm && (
+            <Button variant="outline" onClick={() => setForm(blankForm)}>
+              Clear
+            </Button>
+          )}
+        </div>
+      </div>
+
+      <div className="rounded-md border">
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Code</TableHead>
+              <TableHead>Name</TableHead>
+              <TableHead>Symbol</TableHead>
+              <TableHead className="text-right">Decimal places</TableHead>
+              <TableHead>Applies to</TableHead>
+              <TableHead>Enabled</TableHead>
+              <TableHead />
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {isLoading ? (
+              <TableRow>
+                <TableCell colSpan={7} className="text-center text-muted-foreground py-8">
+                  Loading currencies...
+                </TableCell>
+              </TableRow>
+            ) : (
+              currencies.map((currency) => (
+                <TableRow key={currency.code}>
+                  <TableCell className="font-mono">{currency.code}</TableCell>
+                  <TableCell>{currency.name}</TableCell>
+                  <TableCell>{currency.symbol}</TableCell>
+                  <TableCell className="text-right">{currency.minorUnits}</TableCell>
+                  <TableCell>
+                    <Badge variant={currency.locationId ? "default" : "outline"}>
+                      {currency.locationId ? "This location" : "All locations"}
+                    </Badge>
+                  </TableCell>
+                  <TableCell>
+                    <Switch
+                      checked={currency.isActive}
+                      disabled={currency.code === "USD" || saveMutation.isPending}
+                      onCheckedChange={(checked) => toggle(currency, checked)}
+                    />
+                  </TableCell>
+                  <TableCell className="text-right">
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() =>
+                        setForm({
+                          code: currency.code,
+                          name: currency.name,
+                          symbol: currency.symbol,
+                          minorUnits: String(currency.minorUnits),
+                        })
+                      }
+                    >
+                      <Pencil className="mr-2 h-4 w-4" />
+                      Edit
+                    </Button>
+                  </TableCell>
+                </TableRow>
+              ))
+            )}
+          </TableBody>
+        </Table>
+      </div>
+    </div>
+  );
+}
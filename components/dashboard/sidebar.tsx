@@ -4,7 +4,7 @@ import { usePathname } from "next/navigation";
 import Link from "next/link";
 import { Button } from "@/components/ui/button";
 import { Card } from "@/components/ui/card";
-import { LogOut, Users, Home, UserPlus, UserCog, FolderOpen, CreditCard, FileText, Target, Tag, BarChart3 } from "lucide-react";
+import { LogOut, Users, Home, UserPlus, UserCog, FolderOpen, CreditCard, FileText, Target, Tag, BarChart3, Receipt, Repeat, Flame, Landmark, Scale, Banknote, Keyboard, ArrowLeftRight, ShieldCheck, Coins } from "lucide-react";
 
 export function Sidebar() {
   const pathname = usePathname();
@@ -38,6 +38,16 @@ export function Sidebar() {
           label: "Log Reports",
           icon: FileText,
         },
+        {
+          path: "/admin/integrity",
+          label: "Data Integrity",
+          icon: ShieldCheck,
+        },
+        {
+          path: "/admin/currencies",
+          label: "Currencies",
+          icon: Coins,
+        },
       ];
     } else {
       return [
@@ -86,6 +96,51 @@ export function Sidebar() {
           label: "Reports",
           icon: BarChart3,
         },
+        {
+          path: "/admin/tax-receipts",
+          label: "Tax Receipts",
+          icon: Receipt,
+        },
+        {
+          path: "/admin/plan-renewals",
+          label: "Plan Renewals",
+          icon: Repeat,
+        },
+        {
+          path: "/admin/yahrzeits",
+          label: "Yahrzeits",
+          icon: Flame,
+        },
+        {
+          path: "/admin/ach-batches",
+          label: "ACH Batches",
+          icon: Landmark,
+        },
+        {
+          path: "/admin/bank-reconciliation",
+          label: "Bank Reconciliation",
+          icon: Scale,
+        },
+        {
+          path: "/admin/deposit-batches",
+          label: "Deposit Batches",
+          icon: Banknote,
+        },
+        {
+          path: "/admin/payment-entry",
+          label: "Payment Entry",
+          icon: Keyboard,
+        },
+        {
+          path: "/admin/exchange-rates",
+          label: "Exchange Rates",
+          icon: ArrowLeftRight,
+        },
+        {
+          path: "/admin/currencies",
+          label: "Currencies",
+          icon: Coins,
+        },
       ];
     }
   };
@@ -0,0 +1,457 @@
+"use client";
+
+import { useEffect, useRef, useState } from "react";
+import Link from "next/link";
+import { useQuery } from "@tanstack/react-query";
+import {
+  BatchCheck,
+  useAddCheckMutation,
+  useCloseDepositBatchMutation,
+  useDepositBatchQuery,
+  useRemoveCheckMutation,
+  useReopenDepositBatchMutation,
+  useUpdateDepositBatchMutation,
+} from "@/lib/query/deposit-batches/useDepositBatchesQuery";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { ArrowLeft, Download, FileText, Lock, LockOpen, Plus, Trash2 } from "lucide-react";
+import { toast } from "sonner";
+
+interface ContactOption {
+  id: number;
+  fullName: string;
+}
+
+interface PledgeOption {
+  id: number;
+  description: string | null;
+  currency: string;
+  balance: string;
+}
+
+const formatMoney = (amount: string | number, currency = "USD") =>
+  `${Number(amount).toLocaleString("en-US", { minimumFractionDigits: 2, maximumFractionDigits: 2 })} ${currency}`;
+
+const emptyEntry = { search: "", contactId: null as number | null, pledgeId: "", amount: "", checkNumber: "" };
+
+interface DepositBatchDetailProps {
+  batchId: number;
+  onBack: () => void;
+}
+
+export function DepositBatchDetail({ batchId, onBack }: DepositBatchDetailProps) {
+  const [entry, setEntry] = useState(emptyEntry);
+  const [slipTotal, setSlipTotal] = useState("");
+  const [removing, setRemoving] = useState<BatchCheck | null>(null);
+  const [confirming, setConfirming] = useState<"close" | "reopen" | null>(null);
+  const donorInput = useRef<HTMLInputElement>(null);
+
+  const { data, isLoading, error, refetch } = useDepositBatchQuery(batchId);
+  const updateMutation = useUpdateDepositBatchMutation();
+  const addMutation = useAddCheckMutation();
+  const removeMutation = useRemoveCheckMutation();
+  const closeMutation = useCloseDepositBatchMutation();
+  const reopenMutation = useReopenDepositBatchMutation();
+
+  const batch = data?.batch;
+  const checks = data?.checks ?? [];
+  const isOpen = batch?.status === "open";
+
+  useEffect(() => {
+    setSlipTotal(batch?.slipTotal ?? "");
+  }, [batch?.slipTotal]);
+
+  const { data: contactResults } = useQuery({
+    queryKey: ["contacts", "search", entry.search],
+    queryFn: async (): Promise<{ contacts: ContactOption[] }> => {
+      const response = await fetch(`/api/contacts/search?q=${encodeURIComponent(entry.search)}`);
+      if (!response.ok) throw new Error("Failed to search contacts");
+      return response.json();
+    },
+    enabled: isOpen && entry.search.length >= 2 && !entry.contactId,
+  });
+
+  const { data: pledgeResults } = useQuery({
+    queryKey: ["pledges", "contact", entry.contactId, "deposit"],
+    queryFn: async (): Promise<{ pledges: PledgeOption[] }> => {
+      const response = await fetch(`/api/pledges?contactId=${entry.contactId}&limit=100`);
+      if (!response.ok) throw new Error("Failed to fetch pledges");
+      return response.json();
+    },
+    enabled: !!entry.contactId,
+  });
+  const pledges = pledgeResults?.pledges ?? [];
+
+  // Most donors have one open pledge; pick it so the keyer can go straight to the amount
+  useEffect(() => {
+    const only = pledgeResults?.pledges.length === 1 ? pledgeResults.pledges[0] : null;
+    if (only && !entry.pledgeId) {
+      setEntry((current) => ({ ...current, pledgeId: String(only.id) }));
+    }
+  }, [pledgeResults, entry.pledgeId]);
+
+  const runningTotal = parseFloat(batch?.runningTotal ?? "0");
+  const difference = batch?.slipTotal != null ? runningTotal - parseFloat(batch.slipTotal) : null;
+  const balanced = difference !== null && Math.abs(difference) < 0.005;
+  const entryValid =
+    !!entry.pledgeId && parseFloat(entry.amount) > 0 && entry.checkNumber.trim().length > 0;
+
+  const handleSlipTotal = async () => {
+    if (!batch || slipTotal === (batch.slipTotal ?? "")) return;
+    const value = slipTotal.trim() === "" ? null : parseFloat(slipTotal);
+    if (value !== null && (isNaN(value) || value <= 0)) {
+      toast.error("Enter the slip total as a positive amount");
+      return;
+    }
+    try {
+      await updateMutation.mutateAsync({ batchId, slipTotal: value });
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : "Failed to update slip total");
+    }
+  };
+
+  const handleAdd = async () => {
+    if (!entryValid) return;
+    try {
+      const result = await addMutation.mutateAsync({
+        batchId,
+        pledgeId: parseInt(entry.pledgeId, 10),
+        amount: parseFloat(entry.amount),
+        checkNumber: entry.checkNumber.trim(),
+      });
+      toast.success(result.message);
+      setEntry(emptyEntry);
+      donorInput.current?.focus();
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : "Failed to add check");
+    }
+  };
+
+  const handleRemove = async () => {
+    if (!removing) return;
+    try {
+      await removeMutation.mutateAsync({ batchId, paymentId: removing.paymentId });
+      toast.success("Check removed");
+      setRemoving(null);
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : "Failed to remove check");
+    }
+  };
+
+  const handleConfirm = async () => {
+    try {
+      const result =
+        confirming === "close" ? await closeMutation.mutateAsync(batchId) : await reopenMutation.mutateAsync(batchId);
+      toast.success(result.message);
+      setConfirming(null);
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : "Failed to update deposit batch");
+    }
+  };
+
+  if (error) {
+    return (
+      <div className="text-center py-8">
+        <p className="text-red-600 mb-4">Failed to load deposit batch</p>
+        <Button onClick={() => refetch()} variant="outline">
+          Retry
+        </Button>
+      </div>
+    );
+  }
+
+  if (isLoading || !batch) {
+    return <div className="text-center py-8">Loading batch...</div>;
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <div>
+          <Button variant="ghost" size="sm" onClick={onBack} className="mb-2 -ml-2">
+            <ArrowLeft className="mr-2 h-4 w-4" />
+            All batches
+          </Button>
+          <h2 className="text-2xl font-bold flex items-center gap-2">
+            Deposit Batch #{batch.id}
+            <Badge variant={isOpen ? "secondary" : "default"}>{isOpen ? "Open" : "Closed"}</Badge>
+          </h2>
+          <p className="text-sm text-muted-foreground">
+            Deposited {batch.depositDate} in {batch.currency}
+            {batch.exportedAt && ` · exported ${new Date(batch.exportedAt).toLocaleDateString("en-US")}`}
+          </p>
+        </div>
+        <div className="flex gap-2">
+          <Button variant="outline" asChild>
+            <a href={`/api/admin/deposit-batches/${batch.id}/pdf`}>
+              <FileText className="mr-2 h-4 w-4" />
+              Deposit Summary
+            </a>
+          </Button>
+          {isOpen ? (
+            <Button onClick={() => setConfirming("close")} disabled={!balanced || checks.length === 0}
+              title={balanced ? undefined : "The checks must add up to the deposit slip total"}>
+              <Lock className="mr-2 h-4 w-4" />
+              Close Batch
+            </Button>
+          ) : (
+            <>
+              <Button variant="outline" asChild>
+                <a href={`/api/admin/deposit-batches/${batch.id}/export`}>
+                  <Download className="mr-2 h-4 w-4" />
+                  Export to Accounting
+                </a>
+              </Button>
+              <Button variant="outline" onClick={() => setConfirming("reopen")}>
+                <LockOpen className="mr-2 h-4 w-4" />
+                Reopen
+              </Button>
+            </>
+          )}
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 gap-4 md:grid-cols-3">
+        <div className="rounded-md border p-4 space-y-2">
+          <Label htmlFor="slip-total">Deposit slip total</Label>
+          {isOpen ? (
+            <Input
+              id="slip-total"
+              type="number"
+              step="0.01"
+              min="0"
+              value={slipTotal}
+              placeholder="From the deposit slip"
+              onChange={(e) => setSlipTotal(e.target.value)}
+              onBlur={handleSlipTotal}
+              onKeyDown={(e) => e.key === "Enter" && handleSlipTotal()}
+            />
+          ) : (
+            <p className="text-2xl font-semibold">{batch.slipTotal ? formatMoney(batch.slipTotal, batch.currency) : "—"}</p>
+          )}
+        </div>
+        <div className="rounded-md border p-4">
+          <p className="text-sm text-muted-foreground">Checks keyed ({checks.length})</p>
+          <p className="text-2xl font-semibold">{formatMoney(runningTotal, batch.currency)}</p>
+        </div>
+        <div className="rounded-md border p-4">
+          <p className="text-sm text-muted-foreground">Difference</p>
+          <p
+            className={`text-2xl font-semibold ${
+              difference === null ? "" : balanced ? "text-green-600" : "text-red-600"
+            }`}
+          >
+            {difference === null ? "—" : formatMoney(difference, batch.currency)}
+          </p>
+        </div>
+      </div>
+
+      {isOpen && (
+        <form
+          className="rounded-md border p-4 grid grid-cols-1 gap-4 md:grid-cols-6 md:items-end"
+          onSubmit={(e) => {
+            e.preventDefault();
+            handleAdd();
+          }}
+        >
+          <div className="space-y-2 md:col-span-2 relative">
+            <Label htmlFor="check-donor">Donor</Label>
+            <Input
+              id="check-donor"
+              ref={donorInput}
+              autoFocus
+              value={entry.search}
+              placeholder="Search by name or email"
+              onChange={(e) => setEntry({ ...emptyEntry, search: e.target.value })}
+            />
+            {!entry.contactId && (contactResults?.contacts ?? []).length > 0 && (
+              <div className="absolute z-10 w-full rounded-md border bg-background max-h-48 overflow-y-auto">
+                {contactResults!.contacts.map((contact) => (
+                  <button
+                    key={contact.id}
+                    type="button"
+                    className="block w-full text-left px-3 py-1.5 text-sm hover:bg-muted"
+                    onClick={() => setEntry({ ...emptyEntry, search: contact.fullName, contactId: contact.id })}
+                  >
+                    {contact.fullName}
+                  </button>
+                ))}
+              </div>
+            )}
+          </div>
+          <div className="space-y-2 md:col-span-2">
+            <Label>Pledge</Label>
+            <Select
+              value={entry.pledgeId}
+              onValueChange={(pledgeId) => setEntry({ ...entry, pledgeId })}
+              disabled={!entry.contactId}
+            >
+              <SelectTrigger>
+                <SelectValue placeholder={entry.contactId ? "Select a pledge" : "Choose a donor first"} />
+              </SelectTrigger>
+              <SelectContent>
+                {pledges.map((pledge) => (
+                  <SelectItem key={pledge.id} value={String(pledge.id)}>
+                    #{pledge.id} {pledge.description ?? ""} ({formatMoney(pledge.balance, pledge.currency)} due)
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="check-number">Check #</Label>
+            <Input
+              id="check-number"
+              value={entry.checkNumber}
+              onChange={(e) => setEntry({ ...entry, checkNumber: e.target.value })}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="check-amount">Amount</Label>
+            <div className="flex gap-2">
+              <Input
+                id="check-amount"
+                type="number"
+                step="0.01"
+                min="0"
+                value={entry.amount}
+                onChange={(e) => setEntry({ ...entry, amount: e.target.value })}
+              />
+              <Button type="submit" size="icon" disabled={!entryValid || addMutation.isPending} title="Add check">
+                <Plus className="h-4 w-4" />
+              </Button>
+            </div>
+          </div>
+        </form>
+      )}
+
+      <div className="rounded-md border">
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Check #</TableHead>
+              <TableHead>Donor</TableHead>
+              <TableHead>Pledge</TableHead>
+              <TableHead className="text-right">Amount</TableHead>
+              <TableHead />
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {checks.length === 0 ? (
+              <TableRow>
+                <TableCell colSpan={5} className="text-center py-8 text-muted-foreground">
+                  No checks in this batch yet
+                </TableCell>
+              </TableRow>
+            ) : (
+              checks.map((check) => (
+                <TableRow key={check.paymentId}>
+                  <TableCell className="font-medium">{check.checkNumber ?? "—"}</TableCell>
+                  <TableCell>
+                    {check.contactId ? (
+                      <Link href={`/contacts/${check.contactId}/payments`} className="hover:underline">
+                        {check.contactName ?? `Contact #${check.contactId}`}
+                      </Link>
+                    ) : (
+                      "—"
+                    )}
+                    {check.payerName && <span className="text-muted-foreground"> (paid by {check.payerName})</span>}
+                  </TableCell>
+                  <TableCell>{check.pledgeDescription ?? (check.pledgeId ? `#${check.pledgeId}` : "—")}</TableCell>
+                  <TableCell className="text-right">{formatMoney(check.amount, check.currency)}</TableCell>
+                  <TableCell className="text-right">
+                    {isOpen && (
+                      <Button size="sm" variant="ghost" onClick={() => setRemoving(check)} title="Remove check">
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    )}
+                  </TableCell>
+                </TableRow>
+              ))
+            )}
+          </TableBody>
+        </Table>
+      </div>
+
+      <AlertDialog open={!!removing} onOpenChange={(open) => !open && setRemoving(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Remove check #{removing?.checkNumber}?</AlertDialogTitle>
+            <AlertDialogDescription>
+              The {removing && formatMoney(removing.amount, removing.currency)} payment from{" "}
+              {removing?.contactName ?? "this donor"} is deleted and its pledge balance restored.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel disabled={removeMutation.isPending}>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={(e) => {
+                e.preventDefault();
+                handleRemove();
+              }}
+              disabled={removeMutation.isPending}
+            >
+              {removeMutation.isPending ? "Removing..." : "Remove"}
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+
+      <AlertDialog open={!!confirming} onOpenChange={(open) => !open && setConfirming(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>{confirming === "close" ? "Close" : "Reopen"} batch #{batch.id}?</AlertDialogTitle>
+            <AlertDialogDescription>
+              {confirming === "close"
+                ? `The ${checks.length} payments are locked against edits until the batch is reopened.`
+                : "Its payments can be edited again and the batch must be exported to accounting again after it is closed."}
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel disabled={closeMutation.isPending || reopenMutation.isPending}>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={(e) => {
+                e.preventDefault();
+                handleConfirm();
+              }}
+              disabled={closeMutation.isPending || reopenMutation.isPending}
+            >
+              {closeMutation.isPending || reopenMutation.isPending
+                ? "Saving..."
+                : confirming === "close"
+                  ? "Close Batch"
+                  : "Reopen"}
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+}
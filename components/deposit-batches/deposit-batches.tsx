@@ -0,0 +1,286 @@
+"use client";
+
+import { useState } from "react";
+import { format } from "date-fns";
+import {
+  DepositBatchStatus,
+  DepositBatchSummary,
+  useCreateDepositBatchMutation,
+  useDeleteDepositBatchMutation,
+  useDepositBatchesQuery,
+} from "@/lib/query/deposit-batches/useDepositBatchesQuery";
+import { useCurrenciesQuery } from "@/lib/query/currencies/useCurrenciesQuery";
+import { DepositBatchDetail } from "@/components/deposit-batches/deposit-batch-detail";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { Banknote, Trash2 } from "lucide-react";
+import { toast } from "sonner";
+
+const formatMoney = (amount: string | number, currency = "USD") =>
+  `${Number(amount).toLocaleString("en-US", { minimumFractionDigits: 2, maximumFractionDigits: 2 })} ${currency}`;
+
+export function DepositBatches() {
+  const { currencies } = useCurrenciesQuery();
+  const [form, setForm] = useState({ depositDate: format(new Date(), "yyyy-MM-dd"), currency: "USD", slipTotal: "" });
+  const [status, setStatus] = useState<DepositBatchStatus | "all">("all");
+  const [page, setPage] = useState(1);
+  const [selectedId, setSelectedId] = useState<number | null>(null);
+  const [deleting, setDeleting] = useState<DepositBatchSummary | null>(null);
+
+  const { data, isLoading, error, refetch } = useDepositBatchesQuery(status, page);
+  const createMutation = useCreateDepositBatchMutation();
+  const deleteMutation = useDeleteDepositBatchMutation();
+
+  const batches = data?.batches ?? [];
+  const pagination = data?.pagination;
+
+  const handleCreate = async () => {
+    const slipTotal = form.slipTotal.trim() === "" ? null : parseFloat(form.slipTotal);
+    if (slipTotal !== null && (isNaN(slipTotal) || slipTotal <= 0)) {
+      toast.error("Enter the slip total as a positive amount");
+      return;
+    }
+    try {
+      const result = await createMutation.mutateAsync({
+        depositDate: form.depositDate,
+        currency: form.currency,
+        slipTotal,
+      });
+      toast.success(result.message);
+      setForm({ ...form, slipTotal: "" });
+      setSelectedId(result.batch.id);
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : "Failed to open deposit batch");
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!deleting) return;
+    try {
+      const result = await deleteMutation.mutateAsync(deleting.id);
+      toast.success(result.message);
+      setDeleting(null);
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : "Failed to delete deposit batch");
+    }
+  };
+
+  if (selectedId) {
+    return <DepositBatchDetail batchId={selectedId} onBack={() => setSelectedId(null)} />;
+  }
+
+  if (error) {
+    return (
+      <div className="text-center py-8">
+        <p className="text-red-600 mb-4">Failed to load deposit batches</p>
+        <Button onClick={() => refetch()} variant="outline">
+          Retry
+        </Button>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <div>
+          <h2 className="text-2xl font-bold">Deposit Batches</h2>
+          <p className="text-sm text-muted-foreground">
+            Key in the checks for a bank deposit and balance them against the deposit slip
+          </p>
+        </div>
+        <Select
+          value={status}
+          onValueChange={(value) => {
+            setStatus(value as DepositBatchStatus | "all");
+            setPage(1);
+          }}
+        >
+          <SelectTrigger className="w-36">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="all">All batches</SelectItem>
+            <SelectItem value="open">Open</SelectItem>
+            <SelectItem value="closed">Closed</SelectItem>
+          </SelectContent>
+        </Select>
+      </div>
+
+      <div className="rounded-md border p-4 grid grid-cols-1 gap-4 md:grid-cols-4 md:items-end">
+        <div className="space-y-2">
+          <Label htmlFor="batch-date">Deposit date</Label>
+          <Input
+            id="batch-date"
+            type="date"
+            value={form.depositDate}
+            onChange={(e) => setForm({ ...form, depositDate: e.target.value })}
+          />
+        </div>
+        <div className="space-y-2">
+          <Label>Currency</Label>
+          <Select value={form.currency} onValueChange={(currency) => setForm({ ...form, currency })}>
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {currencies.map(({ code }) => (
+                <SelectItem key={code} value={code}>
+                  {code}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="batch-slip">Deposit slip total</Label>
+          <Input
+            id="batch-slip"
+            type="number"
+            step="0.01"
+            min="0"
+            placeholder="Can be entered later"
+            value={form.slipTotal}
+            onChange={(e) => setForm({ ...form, slipTotal: e.target.value })}
+          />
+        </div>
+        <Button onClick={handleCreate} disabled={!form.depositDate || createMutation.isPending}>
+          <Banknote className="mr-2 h-4 w-4" />
+          {createMutation.isPending ? "Opening..." : "Open Batch"}
+        </Button>
+      </div>
+
+      <div className="rounded-md border">
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Batch</TableHead>
+              <TableHead>Deposit Date</TableHead>
+              <TableHead className="text-right">Checks</TableHead>
+              <TableHead className="text-right">Total</TableHead>
+              <TableHead className="text-right">Slip Total</TableHead>
+              <TableHead>Status</TableHead>
+              <TableHead className="text-right">Actions</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {isLoading ? (
+              <TableRow>
+                <TableCell colSpan={7} className="text-center py-8">
+                  Loading batches...
+                </TableCell>
+              </TableRow>
+            ) : batches.length === 0 ? (
+              <TableRow>
+                <TableCell colSpan={7} className="text-center py-8 text-muted-foreground">
+                  No deposit batches
+                </TableCell>
+              </TableRow>
+            ) : (
+              batches.map((batch) => (
+                <TableRow key={batch.id}>
+                  <TableCell className="font-medium">#{batch.id}</TableCell>
+                  <TableCell>{batch.depositDate}</TableCell>
+                  <TableCell className="text-right">{batch.checkCount}</TableCell>
+                  <TableCell className="text-right">{formatMoney(batch.runningTotal, batch.currency)}</TableCell>
+                  <TableCell className="text-right">
+                    {batch.slipTotal ? formatMoney(batch.slipTotal, batch.currency) : "—"}
+                  </TableCell>
+                  <TableCell>
+                    <div className="flex gap-1">
+                      <Badge variant={batch.status === "open" ? "secondary" : "default"}>
+                        {batch.status === "open" ? "Open" : "Closed"}
+                      </Badge>
+                      {batch.exportedAt && <Badge variant="outline">Exported</Badge>}
+                    </div>
+                  </TableCell>
+                  <TableCell className="text-right">
+                    <div className="flex justify-end gap-2">
+                      <Button size="sm" variant="outline" onClick={() => setSelectedId(batch.id)}>
+                        {batch.status === "open" ? "Enter Checks" : "View"}
+                      </Button>
+                      {batch.status === "open" && batch.checkCount === 0 && (
+                        <Button size="sm" variant="ghost" onClick={() => setDeleting(batch)} title="Delete batch">
+                          <Trash2 className="h-4 w-4" />
+                        </Button>
+                      )}
+                    </div>
+                  </TableCell>
+                </TableRow>
+              ))
+            )}
+          </TableBody>
+        </Table>
+      </div>
+
+      {pagination && pagination.totalPages > 1 && (
+        <div className="flex items-center justify-between">
+          <div className="text-sm text-muted-foreground">
+            Page {pagination.page} of {pagination.totalPages}
+          </div>
+          <div className="flex space-x-2">
+            <Button variant="outline" size="sm" onClick={() => setPage(page - 1)} disabled={page <= 1}>
+              Previous
+            </Button>
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => setPage(page + 1)}
+              disabled={page >= pagination.totalPages}
+            >
+              Next
+            </Button>
+          </div>
+        </div>
+      )}
+
+      <AlertDialog open={!!deleting} onOpenChange={(open) => !open && setDeleting(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete batch #{deleting?.id}?</AlertDialogTitle>
+            <AlertDialogDescription>The empty batch for {deleting?.depositDate} is removed.</AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel disabled={deleteMutation.isPending}>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={(e) => {
+                e.preventDefault();
+                handleDelete();
+              }}
+              disabled={deleteMutation.isPending}
+            >
+              {deleteMutation.isPending ? "Deleting..." : "Delete"}
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+}
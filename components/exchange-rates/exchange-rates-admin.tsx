@@ -0,0 +1,407 @@
+"use client";
+
+import { useRef, useState } from "react";
+import { format } from "date-fns";
+import {
+  RateLock,
+  RateSource,
+  useImportRatesMutation,
+  useLockRateMutation,
+  useRateLocksQuery,
+  useSaveManualRateMutation,
+  useStoredRatesQuery,
+  useUnlockRateMutation,
+} from "@/lib/query/exchange-rates/useExchangeRatesAdminQuery";
+import { useCurrenciesQuery } from "@/lib/query/currencies/useCurrenciesQuery";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { FileUp, Lock, Save, Unlock } from "lucide-react";
+import { toast } from "sonner";
+
+const SOURCE_LABELS: Record<RateSource, string> = {
+  api: "API",
+  manual: "Manual",
+  import: "Imported",
+};
+
+const SOURCE_VARIANTS: Record<RateSource, "default" | "secondary" | "outline"> = {
+  api: "outline",
+  manual: "default",
+  import: "secondary",
+};
+
+const ALL = "all";
+
+export function ExchangeRatesAdmin() {
+  const { currencies } = useCurrenciesQuery();
+  const currencyCodes = currencies.map((currency) => currency.code);
+  const quotedCodes = currencyCodes.filter((code) => code !== "USD");
+  const [month, setMonth] = useState(format(new Date(), "yyyy-MM"));
+  const [currencyFilter, setCurrencyFilter] = useState(ALL);
+  const [importBase, setImportBase] = useState("USD");
+  const [manual, setManual] = useState({ date: format(new Date(), "yyyy-MM-dd"), currency: "ILS", rate: "" });
+  const [lockForm, setLockForm] = useState({ currency: "ILS", month: format(new Date(), "yyyy-MM"), rate: "", note: "" });
+  const [unlocking, setUnlocking] = useState<RateLock | null>(null);
+  const fileInput = useRef<HTMLInputElement>(null);
+
+  const { data, isLoading, error, refetch } = useStoredRatesQuery(month, currencyFilter === ALL ? "" : currencyFilter);
+  const { data: lockData } = useRateLocksQuery();
+  const importMutation = useImportRatesMutation();
+  const manualMutation = useSaveManualRateMutation();
+  const lockMutation = useLockRateMutation();
+  const unlockMutation = useUnlockRateMutation();
+
+  const rates = data?.rates ?? [];
+  const locks = lockData?.locks ?? [];
+
+  const handleFile = async (file: File | undefined) => {
+    if (!file) return;
+    try {
+      const result = await importMutation.mutateAsync({ fileName: file.name, content: await file.text(), base: importBase });
+      toast.success(result.message);
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : "Failed to import rates");
+    } finally {
+      if (fileInput.current) fileInput.current.value = "";
+    }
+  };
+
+  const handleManual = async () => {
+    const rate = parseFloat(manual.rate);
+    if (!rate) return;
+    try {
+      const result = await manualMutation.mutateAsync({ date: manual.date, currency: manual.currency, rate });
+      toast.success(result.message);
+      setManual({ ...manual, rate: "" });
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : "Failed to save rate");
+    }
+  };
+
+  const handleLock = async () => {
+    try {
+      const result = await lockMutation.mutateAsync({
+        currency: lockForm.currency,
+        month: lockForm.month,
+        rate: lockForm.rate ? parseFloat(lockForm.rate) : undefined,
+        note: lockForm.note || null,
+      });
+      toast.success(result.message);
+      setLockForm({ ...lockForm, rate: "", note: "" });
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : "Failed to lock rate");
+    }
+  };
+
+  const handleUnlock = async () => {
+    if (!unlocking) return;
+    try {
+      const result = await unlockMutation.mutateAsync(unlocking.id);
+      toast.success(result.message);
+      setUnlocking(null);
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : "Failed to unlock rate");
+    }
+  };
+
+  if (error) {
+    return (
+      <div className="text-center py-8">
+        <p className="text-red-600 mb-4">Failed to load exchange rates</p>
+        <Button onClick={() => refetch()} variant="outline">
+          Retry
+        </Button>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <div>
+          <h2 className="text-2xl font-bold">Exchange Rates</h2>
+          <p className="text-sm text-muted-foreground">
+            Units of each currency per USD{data && ` · daily rates from ${data.provider}`}
+          </p>
+        </div>
+        <div className="flex items-center gap-2">
+          <Select value={importBase} onValueChange={setImportBase}>
+            <SelectTrigger className="w-24" title="Currency CSV rates are quoted against">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {currencyCodes.map((code) => (
+                <SelectItem key={code} value={code}>
+                  {code}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <input
+            ref={fileInput}
+            type="file"
+            accept=".csv,.xml"
+            className="hidden"
+            onChange={(e) => handleFile(e.target.files?.[0])}
+          />
+          <Button onClick={() => fileInput.current?.click()} disabled={importMutation.isPending}>
+            <FileUp className="mr-2 h-4 w-4" />
+            {importMutation.isPending ? "Importing..." : "Import CSV / ECB XML"}
+          </Button>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 gap-4 lg:grid-cols-2">
+        <div className="rounded-md border p-4 space-y-3">
+          <h3 className="font-semibold">Manual rate</h3>
+          <p className="text-sm text-muted-foreground">Takes precedence over imported and fetched rates for the day.</p>
+          <div className="grid grid-cols-3 gap-3">
+            <div className="space-y-1">
+              <Label htmlFor="manual-date">Date</Label>
+              <Input
+                id="manual-date"
+                type="date"
+                value={manual.date}
+                onChange={(e) => setManual({ ...manual, date: e.target.value })}
+              />
+            </div>
+            <div className="space-y-1">
+              <Label>Currency</Label>
+              <Select value={manual.currency} onValueChange={(value) => setManual({ ...manual, currency: value })}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {quotedCodes.map((code) => (
+                    <SelectItem key={code} value={code}>
+                      {code}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="manual-rate">Rate</Label>
+              <Input
+                id="manual-rate"
+                type="number"
+                step="0.000001"
+                min="0"
+                value={manual.rate}
+                onChange={(e) => setManual({ ...manual, rate: e.target.value })}
+              />
+            </div>
+          </div>
+          <Button onClick={handleManual} disabled={manualMutation.isPending || !parseFloat(manual.rate) || !manual.date}>
+            <Save className="mr-2 h-4 w-4" />
+            {manualMutation.isPending ? "Saving..." : "Save Rate"}
+          </Button>
+        </div>
+
+        <div className="rounded-md border p-4 space-y-3">
+          <h3 className="font-semibold">Lock a monthly rate</h3>
+          <p className="text-sm text-muted-foreground">
+            Every conversion dated in the month uses this rate. Leave the rate blank to lock the one in effect on the
+            first of the month.
+          </p>
+          <div className="grid grid-cols-3 gap-3">
+            <div className="space-y-1">
+              <Label>Currency</Label>
+              <Select value={lockForm.currency} onValueChange={(value) => setLockForm({ ...lockForm, currency: value })}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {quotedCodes.map((code) => (
+                    <SelectItem key={code} value={code}>
+                      {code}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="lock-month">Month</Label>
+              <Input
+                id="lock-month"
+                type="month"
+                value={lockForm.month}
+                onChange={(e) => setLockForm({ ...lockForm, month: e.target.value })}
+              />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="lock-rate">Rate</Label>
+              <Input
+                id="lock-rate"
+                type="number"
+                step="0.000001"
+                min="0"
+                placeholder="From stored rates"
+                value={lockForm.rate}
+                onChange={(e) => setLockForm({ ...lockForm, rate: e.target.value })}
+              />
+            </div>
+          </div>
+          <Input
+            placeholder="Note, e.g. Bank of Israel representative rate"
+            value={lockForm.note}
+            onChange={(e) => setLockForm({ ...lockForm, note: e.target.value })}
+          />
+          <Button onClick={handleLock} disabled={lockMutation.isPending || !/^\d{4}-\d{2}$/.test(lockForm.month)}>
+            <Lock className="mr-2 h-4 w-4" />
+            {lockMutation.isPending ? "Locking..." : "Lock Rate"}
+          </Button>
+        </div>
+      </div>
+
+      {locks.length > 0 && (
+        <div className="space-y-2">
+          <h3 className="font-semibold">Locked monthly rates</h3>
+          <div className="rounded-md border">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Month</TableHead>
+                  <TableHead>Currency</TableHead>
+                  <TableHead className="text-right">Rate</TableHead>
+                  <TableHead>Note</TableHead>
+                  <TableHead>Locked by</TableHead>
+                  <TableHead />
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {locks.map((lock) => (
+                  <TableRow key={lock.id}>
+                    <TableCell>{lock.month.slice(0, 7)}</TableCell>
+                    <TableCell>{lock.currency}</TableCell>
+                    <TableCell className="text-right font-mono">{lock.rate}</TableCell>
+                    <TableCell className="text-muted-foreground">{lock.note || "—"}</TableCell>
+                    <TableCell className="text-muted-foreground">{lock.lockedByEmail || "—"}</TableCell>
+                    <TableCell className="text-right">
+                      <Button variant="outline" size="sm" onClick={() => setUnlocking(lock)}>
+                        <Unlock className="mr-2 h-4 w-4" />
+                        Unlock
+                      </Button>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </div>
+        </div>
+      )}
+
+      <div className="space-y-2">
+        <div className="flex items-center gap-4">
+          <h3 className="font-semibold">Stored daily rates</h3>
+          <Input type="month" className="w-44" value={month} onChange={(e) => setMonth(e.target.value)} />
+          <Select value={currencyFilter} onValueChange={setCurrencyFilter}>
+            <SelectTrigger className="w-32">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={ALL}>All currencies</SelectItem>
+              {quotedCodes.map((code) => (
+                <SelectItem key={code} value={code}>
+                  {code}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="rounded-md border">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Date</TableHead>
+                <TableHead>Currency</TableHead>
+                <TableHead className="text-right">Rate</TableHead>
+                <TableHead>Source</TableHead>
+                <TableHead>Updated</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {isLoading ? (
+                <TableRow>
+                  <TableCell colSpan={5} className="text-center py-6 text-muted-foreground">
+                    Loading...
+                  </TableCell>
+                </TableRow>
+              ) : rates.length === 0 ? (
+                <TableRow>
+                  <TableCell colSpan={5} className="text-center py-6 text-muted-foreground">
+                    No rates stored for this month
+                  </TableCell>
+                </TableRow>
+              ) : (
+                rates.map((rate) => (
+                  <TableRow key={rate.id}>
+                    <TableCell>{rate.date}</TableCell>
+                    <TableCell>{rate.currency}</TableCell>
+                    <TableCell className="text-right font-mono">{rate.rate}</TableCell>
+                    <TableCell>
+                      <Badge variant={SOURCE_VARIANTS[rate.source]}>{SOURCE_LABELS[rate.source]}</Badge>
+                    </TableCell>
+                    <TableCell className="text-muted-foreground">{rate.updatedAt}</TableCell>
+                  </TableRow>
+                ))
+              )}
+            </TableBody>
+          </Table>
+        </div>
+      </div>
+
+      <AlertDialog open={!!unlocking} onOpenChange={(open) => !open && setUnlocking(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>
+              Unlock {unlocking?.currency} for {unlocking?.month.slice(0, 7)}?
+            </AlertDialogTitle>
+            <AlertDialogDescription>
+              Conversions dated in the month go back to the daily rates. Payments already converted keep their amounts.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel disabled={unlockMutation.isPending}>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={(e) => {
+                e.preventDefault();
+                handleUnlock();
+              }}
+              disabled={unlockMutation.isPending}
+            >
+              {unlockMutation.isPending ? "Unlocking..." : "Unlock"}
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+}
@@ -48,6 +48,8 @@ interface ContactFormDialogProps {
     title?: string;
     gender?: string;
     address?: string;
+    taxId?: string;
+    giftAidDeclarationDate?: string;
   };
   trigger?: React.ReactNode;
 }
@@ -68,6 +70,8 @@ export default function ContactFormDialog({
       title: undefined,
       gender: undefined,
       address: "",
+      taxId: "",
+      giftAidDeclarationDate: "",
     },
   });
 
@@ -90,6 +94,8 @@ export default function ContactFormDialog({
         title: contactData.title as any || undefined,
         gender: contactData.gender as any || undefined,
         address: contactData.address || "",
+        taxId: contactData.taxId || "",
+        giftAidDeclarationDate: contactData.giftAidDeclarationDate || "",
       });
     } else if (!isEditMode && open) {
       form.reset({
@@ -100,6 +106,8 @@ export default function ContactFormDialog({
         title: undefined,
         gender: undefined,
         address: "",
+        taxId: "",
+        giftAidDeclarationDate: "",
       });
     }
   }, [isEditMode, contactData, open, form]);
@@ -289,6 +297,36 @@ export default function ContactFormDialog({
               )}
             />
 
+            <div className="grid grid-cols-2 gap-4">
+              <FormField
+                control={form.control}
+                name="taxId"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel className="text-lg">Tax ID / Teudat Zehut</FormLabel>
+                    <FormControl>
+                      <Input placeholder="Required for Israeli receipts" className="h-12 text-base" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <FormField
+                control={form.control}
+                name="giftAidDeclarationDate"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel className="text-lg">Gift Aid Declaration Date</FormLabel>
+                    <FormControl>
+                      <Input type="date" className="h-12 text-base" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            </div>
+
             <div className="flex justify-end gap-4">
               <Button
                 type="button"
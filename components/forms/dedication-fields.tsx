@@ -0,0 +1,102 @@
+"use client";
+
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import type { DedicationType } from "@/lib/form-schemas/memorial";
+import { useContactMemorialsQuery } from "@/lib/query/memorials/useMemorialsQuery";
+
+export interface DedicationValue {
+  dedicationType: DedicationType | null;
+  dedicationName: string;
+  memorialId: number | null;
+}
+
+interface DedicationFieldsProps {
+  // Whose memorials can be linked to an "in memory of" dedication
+  contactId?: number;
+  value: DedicationValue;
+  onChange: (value: DedicationValue) => void;
+  idPrefix?: string;
+}
+
+/**
+ * "In honor of" / "In memory of" line for a pledge or payment. Linking one
+ * of the donor's memorials fills in the name from the memorial.
+ */
+export default function DedicationFields({ contactId, value, onChange, idPrefix = "dedication" }: DedicationFieldsProps) {
+  const { data } = useContactMemorialsQuery(contactId ?? 0);
+  const memorials = data?.memorials.filter((memorial) => memorial.isActive) ?? [];
+
+  const setType = (type: string) => {
+    if (type === "none") {
+      onChange({ dedicationType: null, dedicationName: "", memorialId: null });
+    } else {
+      const dedicationType = type as DedicationType;
+      onChange({ ...value, dedicationType, memorialId: dedicationType === "in_memory_of" ? value.memorialId : null });
+    }
+  };
+
+  const setMemorial = (id: string) => {
+    const linked = memorials.find((memorial) => String(memorial.id) === id);
+    onChange({
+      ...value,
+      memorialId: linked?.id ?? null,
+      dedicationName: linked ? linked.deceasedName : value.dedicationName,
+    });
+  };
+
+  return (
+    <div className="grid grid-cols-2 gap-4">
+      <div className="space-y-2">
+        <Label>Dedication</Label>
+        <Select value={value.dedicationType ?? "none"} onValueChange={setType}>
+          <SelectTrigger>
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="none">None</SelectItem>
+            <SelectItem value="in_honor_of">In honor of</SelectItem>
+            <SelectItem value="in_memory_of">In memory of</SelectItem>
+          </SelectContent>
+        </Select>
+      </div>
+      {value.dedicationType && (
+        <div className="space-y-2">
+          <Label htmlFor={`${idPrefix}-name`}>Name</Label>
+          <Input
+            id={`${idPrefix}-name`}
+            value={value.dedicationName}
+            onChange={(e) => onChange({ ...value, dedicationName: e.target.value })}
+            placeholder="Printed on the receipt"
+          />
+        </div>
+      )}
+      {value.dedicationType === "in_memory_of" && memorials.length > 0 && (
+        <div className="col-span-2 space-y-2">
+          <Label>Memorial</Label>
+          <Select value={value.memorialId ? String(value.memorialId) : "none"} onValueChange={setMemorial}>
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="none">Not linked</SelectItem>
+              {memorials.map((memorial) => (
+                <SelectItem key={memorial.id} value={String(memorial.id)}>
+                  {memorial.deceasedName}
+                  {memorial.relationship ? ` (${memorial.relationship})` : ""}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      )}
+    </div>
+  );
+}
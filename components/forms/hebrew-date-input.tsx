@@ -0,0 +1,114 @@
+"use client";
+
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  HEBREW_MONTHS,
+  formatHebrewDate,
+  hebrewToGregorian,
+  nextHebrewOccurrence,
+  toHebrewDate,
+  type HebrewDateParts,
+} from "@/lib/hebrew-date";
+import { formatDate } from "@/lib/utils";
+
+interface HebrewDateInputProps {
+  // Gregorian date, YYYY-MM-DD, or "" when unset
+  value: string;
+  onChange: (value: string) => void;
+  id?: string;
+  className?: string;
+}
+
+const today = () => new Date().toISOString().split("T")[0];
+
+function initialHebrewParts(value: string): HebrewDateParts {
+  const parts = value ? toHebrewDate(value) : null;
+  // Most Hebrew due dates are "by Rosh Hashana"
+  return parts ?? toHebrewDate(nextHebrewOccurrence(1, 7, today()))!;
+}
+
+/**
+ * Date field that can be entered on either calendar. Hebrew entries are
+ * converted straight away, so the form only ever holds the Gregorian date.
+ */
+export default function HebrewDateInput({ value, onChange, id, className }: HebrewDateInputProps) {
+  const [calendar, setCalendar] = useState<"gregorian" | "hebrew">("gregorian");
+  const [hebrew, setHebrew] = useState<HebrewDateParts>(() => initialHebrewParts(value));
+
+  const updateHebrew = (changes: Partial<HebrewDateParts>) => {
+    const next = { ...hebrew, ...changes };
+    setHebrew(next);
+    if (next.day >= 1 && next.day <= 30 && next.year > 3760) onChange(hebrewToGregorian(next));
+  };
+
+  const switchCalendar = () => {
+    if (calendar === "gregorian") {
+      const parts = initialHebrewParts(value);
+      setHebrew(parts);
+      onChange(hebrewToGregorian(parts));
+      setCalendar("hebrew");
+    } else {
+      setCalendar("gregorian");
+    }
+  };
+
+  return (
+    <div className={className}>
+      <div className="flex gap-2">
+        {calendar === "gregorian" ? (
+          <Input id={id} type="date" value={value} onChange={(e) => onChange(e.target.value)} />
+        ) : (
+          <>
+            <Input
+              id={id}
+              type="number"
+              min={1}
+              max={30}
+              className="w-20"
+              value={hebrew.day}
+              onChange={(e) => updateHebrew({ day: parseInt(e.target.value, 10) || 1 })}
+            />
+            <Select
+              value={String(hebrew.month)}
+              onValueChange={(month) => updateHebrew({ month: parseInt(month, 10) })}
+            >
+              <SelectTrigger className="flex-1">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {HEBREW_MONTHS.map((month) => (
+                  <SelectItem key={month.value} value={String(month.value)}>
+                    {month.label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Input
+              type="number"
+              className="w-24"
+              value={hebrew.year}
+              onChange={(e) => updateHebrew({ year: parseInt(e.target.value, 10) || hebrew.year })}
+            />
+          </>
+        )}
+        <Button type="button" variant="outline" onClick={switchCalendar}>
+          {calendar === "gregorian" ? "Hebrew" : "Gregorian"}
+        </Button>
+      </div>
+      {value && (
+        <p className="mt-1 text-xs text-muted-foreground">
+          {calendar === "gregorian" ? formatHebrewDate(value) : formatDate(value)}
+        </p>
+      )}
+    </div>
+  );
+}
@@ -53,6 +53,7 @@ import { Textarea } from "@/components/ui/textarea";
 import { Switch } from "@/components/ui/switch";
 import PledgeDialog from "../forms/pledge-form";
 import { useExchangeRates } from "@/lib/query/useExchangeRates";
+import { useCurrenciesQuery } from "@/lib/query/currencies/useCurrenciesQuery";
 import { cn } from "@/lib/utils";
 import { toast } from "sonner";
 import { useCreatePaymentMutation } from "@/lib/query/payments/usePaymentQuery";
@@ -61,6 +62,8 @@ import { PlusCircleIcon } from "lucide-react";
 import { usePledgesQuery } from "@/lib/query/usePledgeData";
 import useContactId from "@/hooks/use-contact-id";
 import { useTagsQuery } from "@/lib/query/tags/useTagsQuery";
+import DedicationFields from "./dedication-fields";
+import { DEDICATION_TYPES } from "@/lib/form-schemas/memorial";
 
 import {
   usePaymentMethodOptions,
@@ -183,17 +186,6 @@ const useContacts = (search?: string) =>
     enabled: !!search && search.length >= 2,
   });
 
-const supportedCurrencies = [
-  "USD",
-  "ILS",
-  "EUR",
-  "JPY",
-  "GBP",
-  "AUD",
-  "CAD",
-  "ZAR",
-] as const;
-
 const paymentStatuses = [
   { value: "expected", label: "Expected" },
   { value: "pending", label: "Pending" },
@@ -234,7 +226,7 @@ const allocationSchema = z.object({
 // UPDATED Payment schema - ADD TAGS
 const paymentSchema = z.object({
   amount: z.number().optional(),
-  currency: z.enum(supportedCurrencies).optional(),
+  currency: z.string().optional(),
   amountUsd: z.number().optional(),
   exchangeRate: z.number().optional(),
   amountInPledgeCurrency: z.number().optional(),
@@ -253,6 +245,9 @@ const paymentSchema = z.object({
   bonusAmount: z.number().optional().nullable(),
   bonusRuleId: z.number().optional().nullable(),
   notes: z.string().optional().nullable(),
+  dedicationType: z.enum(DEDICATION_TYPES).optional().nullable(),
+  dedicationName: z.string().optional().nullable(),
+  memorialId: z.number().optional().nullable(),
 
   pledgeId: z.number().optional().nullable(),
   paymentPlanId: z.number().optional().nullable(),
@@ -308,6 +303,9 @@ export default function PaymentFormDialog({
       bonusAmount: null,
       bonusRuleId: null,
       notes: null,
+      dedicationType: null,
+      dedicationName: null,
+      memorialId: null,
       pledgeId: initialPledgeId || null,
       paymentPlanId: null,
       installmentScheduleId: null,
@@ -541,6 +539,7 @@ export default function PaymentFormDialog({
     error: ratesError,
     refetch: refetchRates,
   } = useExchangeRates(watchedReceivedDate || undefined);
+  const { currencies } = useCurrenciesQuery();
 
   const totalAllocatedAmount = (watchedAllocations || []).reduce(
     (sum, alloc) => sum + (alloc.allocatedAmount || 0),
@@ -694,6 +693,9 @@ export default function PaymentFormDialog({
       bonusAmount: null,
       bonusRuleId: null,
       notes: null,
+      dedicationType: null,
+      dedicationName: null,
+      memorialId: null,
       pledgeId: initialPledgeId || null,
       paymentPlanId: null,
       installmentScheduleId: null,
@@ -784,6 +786,10 @@ export default function PaymentFormDialog({
         bonusAmount: data.bonusAmount || undefined,
         bonusRuleId: data.bonusRuleId || undefined,
         notes: data.notes || undefined,
+        // Left unset, a payment falls back to its pledge's dedication on the receipt
+        dedicationType: data.dedicationType || undefined,
+        dedicationName: data.dedicationType ? data.dedicationName || undefined : undefined,
+        memorialId: data.dedicationType ? data.memorialId || undefined : undefined,
         isThirdPartyPayment: isThirdParty,
         isMultiContactPayment: isMultiContact,
         payerContactId: isThirdParty ? (contactId || undefined) : undefined,
@@ -1278,10 +1284,7 @@ export default function PaymentFormDialog({
                                 const balance = parseFloat(initialPledge.balance);
                                 form.setValue("amount", balance);
                                 form.setValue("allocations.0.allocatedAmount", balance);
-                                form.setValue(
-                                  "currency",
-                                  initialPledge.currency as typeof supportedCurrencies[number]
-                                );
+                                form.setValue("currency", initialPledge.currency);
                               }
                             }
                           }
@@ -1356,9 +1359,8 @@ export default function PaymentFormDialog({
                                             form.setValue("allocations.0.pledgeId", pledge.value);
                                             form.setValue("allocations.0.allocatedAmount", parseFloat(pledge.balance));
                                             form.setValue("amount", parseFloat(pledge.balance));
-                                            const currency = pledge.currency as typeof supportedCurrencies[number];
-                                            if (supportedCurrencies.includes(currency)) {
-                                              form.setValue("currency", currency);
+                                            if (currencies.some((option) => option.code === pledge.currency)) {
+                                              form.setValue("currency", pledge.currency);
                                             }
                                           }
                                         }}
@@ -1416,7 +1418,7 @@ export default function PaymentFormDialog({
                             </SelectTrigger>
                           </FormControl>
                           <SelectContent>
-                            {supportedCurrencies.map((currency) => (
+                            {currencies.map(({ code: currency }) => (
                               <SelectItem key={currency} value={currency}>
                                 {currency}
                               </SelectItem>
@@ -2694,7 +2696,21 @@ export default function PaymentFormDialog({
               <CardHeader>
                 <CardTitle className="text-lg">Additional Notes</CardTitle>
               </CardHeader>
-              <CardContent>
+              <CardContent className="space-y-4">
+                <DedicationFields
+                  contactId={contactId || undefined}
+                  idPrefix="payment-dedication"
+                  value={{
+                    dedicationType: form.watch("dedicationType") ?? null,
+                    dedicationName: form.watch("dedicationName") ?? "",
+                    memorialId: form.watch("memorialId") ?? null,
+                  }}
+                  onChange={(dedication) => {
+                    form.setValue("dedicationType", dedication.dedicationType);
+                    form.setValue("dedicationName", dedication.dedicationName);
+                    form.setValue("memorialId", dedication.memorialId);
+                  }}
+                />
                 <FormField
                   control={form.control}
                   name="notes"
@@ -49,6 +49,7 @@ import {
 import { Textarea } from "@/components/ui/textarea";
 import { Switch } from "@/components/ui/switch";
 import { useExchangeRates } from "@/lib/query/useExchangeRates";
+import { useCurrenciesQuery } from "@/lib/query/currencies/useCurrenciesQuery";
 import { usePaymentMethodOptions, usePaymentMethodDetailOptions } from "@/lib/query/usePaymentMethods";
 import { cn } from "@/lib/utils";
 import { toast } from "sonner";
@@ -79,18 +80,6 @@ const useSolicitors = (params: { search?: string; status?: string } = {}) => {
   });
 };
 
-// Define literal tuples for enums
-const supportedCurrencies = [
-  "USD",
-  "ILS",
-  "EUR",
-  "JPY",
-  "GBP",
-  "AUD",
-  "CAD",
-  "ZAR",
-] as const;
-
 interface SolicitorOption {
   label: string;
   value: number;
@@ -98,6 +87,7 @@ interface SolicitorOption {
   contact?: any;
 }
 
+// Define literal tuples for enums
 const paymentStatusValues = [
   "expected",
   "pending",
@@ -136,7 +126,7 @@ const allocationSchema = z.object({
 const paymentSchema = z.object({
   pledgeId: z.number().optional().nullable(),
   amount: z.number().nonnegative(),
-  currency: z.enum(supportedCurrencies),
+  currency: z.string().min(1),
   amountUsd: z.number().nonnegative(),
   exchangeRate: z.number().positive(),
   paymentDate: z.string(),
@@ -163,7 +153,7 @@ interface PaymentDialogProps {
   onOpenChange: (open: boolean) => void;
   pledgeId?: number;
   pledgeAmount?: number;
-  pledgeCurrency?: typeof supportedCurrencies[number];
+  pledgeCurrency?: string;
   pledgeDescription?: string;
   onPaymentCreated?: () => void;
 }
@@ -257,6 +247,7 @@ export default function PaymentDialog({
     isLoading: isLoadingRates,
     error: ratesError,
   } = useExchangeRates(watchedPaymentDate);
+  const { currencies } = useCurrenciesQuery();
 
   // Get dynamic payment methods and details
   const { options: paymentMethodOptions, isLoading: isLoadingPaymentMethods } = usePaymentMethodOptions();
@@ -481,7 +472,7 @@ export default function PaymentDialog({
                           </SelectTrigger>
                         </FormControl>
                         <SelectContent>
-                          {supportedCurrencies.map((curr) => (
+                          {currencies.map(({ code: curr }) => (
                             <SelectItem key={curr} value={curr}>
                               {curr}
                             </SelectItem>
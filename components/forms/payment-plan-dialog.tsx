@@ -45,6 +45,7 @@ import {
 import {
   Form,
   FormControl,
+  FormDescription,
   FormField,
   FormItem,
   FormLabel,
@@ -95,7 +96,12 @@ import {
 import useContactId from "@/hooks/use-contact-id";
 import { usePledgesQuery } from "@/lib/query/usePledgeData";
 import { useExchangeRates } from "@/lib/query/useExchangeRates";
+import { currencyChoices, useCurrenciesQuery } from "@/lib/query/currencies/useCurrenciesQuery";
 import { useQuery } from "@tanstack/react-query";
+import { parseISO } from "date-fns";
+import RecurrenceRuleEditor, { DEFAULT_RECURRENCE_RULE } from "@/components/forms/recurrence-rule-editor";
+import { recurrenceRuleSchema, type RecurrenceRule } from "@/lib/form-schemas/recurrence-rule";
+import { addFrequency, isSteppedFrequency, planInstallmentDates } from "@/lib/payment-plans/schedule";
 
 // Contact type definition
 interface Contact {
@@ -134,11 +140,6 @@ const useContacts = (search?: string) => {
   });
 };
 
-// Supported currencies - matches your schema
-const supportedCurrencies = [
-  "USD", "ILS", "EUR", "JPY", "GBP", "AUD", "CAD", "ZAR",
-] as const;
-
 // Frequency options - matches your schema
 const frequencies = [
   { value: "weekly", label: "Weekly" },
@@ -167,9 +168,9 @@ interface Contact {
 }
 
 // Type-safe helper functions
-const ensureCurrency = (value: string | undefined): typeof supportedCurrencies[number] => {
-  if (value && supportedCurrencies.includes(value as typeof supportedCurrencies[number])) {
-    return value as typeof supportedCurrencies[number];
+const ensureCurrency = (value: string | undefined): string => {
+  if (value && /^[A-Z]{3}$/.test(value)) {
+    return value;
   }
   return "USD";
 };
@@ -197,11 +198,12 @@ export const paymentPlanSchema = z.object({
     "one_time",
     "custom",
   ]),
+  recurrenceRule: recurrenceRuleSchema.optional().nullable(),
   distributionType: z.enum(["fixed", "custom"]).default("fixed"),
   totalPlannedAmount: z
     .number()
     .positive("Total planned amount must be positive"),
-  currency: z.enum(supportedCurrencies).default("USD"),
+  currency: z.string().min(1).default("USD"),
   // Multi-currency support fields
   totalPlannedAmountUsd: z.number().optional(),
   installmentAmount: z.number().positive("Installment amount must be positive"),
@@ -237,7 +239,7 @@ export const paymentPlanSchema = z.object({
       z.object({
         installmentDate: z.string().min(1, "Installment date is required"),
         installmentAmount: z.number().positive("Installment amount must be positive"),
-        currency: z.enum(supportedCurrencies),
+        currency: z.string().min(1),
         installmentAmountUsd: z.number().optional().nullable(),
         status: z.enum(["pending", "paid", "overdue", "cancelled"]).default("pending"),
         paidDate: z.string().optional().nullable(),
@@ -361,30 +363,13 @@ const calculateNextPaymentDate = (
   startDate: string,
   frequency: string
 ): string => {
-  const start = new Date(startDate);
-  const next = new Date(start);
-
-  switch (frequency) {
-    case "weekly":
-      next.setDate(start.getDate() + 7);
-      break;
-    case "monthly":
-      next.setMonth(start.getMonth() + 1);
-      break;
-    case "quarterly":
-      next.setMonth(start.getMonth() + 3);
-      break;
-    case "biannual":
-      next.setMonth(start.getMonth() + 6);
-      break;
-    case "annual":
-      next.setFullYear(start.getFullYear() + 1);
-      break;
-    default:
-      return startDate;
-  }
+  return isSteppedFrequency(frequency) ? addFrequency(startDate, frequency) : startDate;
+};
 
-  return next.toISOString().split("T")[0];
+// Stored rules come back as plain JSON; anything unreadable is dropped
+const parseRecurrenceRule = (value: unknown): RecurrenceRule | null => {
+  const parsed = recurrenceRuleSchema.safeParse(value);
+  return parsed.success ? parsed.data : null;
 };
 
 interface PreviewInstallment {
@@ -402,93 +387,49 @@ const generatePreviewInstallments = (
   frequency: string,
   numberOfInstallments: number,
   totalAmount: number,
-  currency: string
+  currency: string,
+  recurrenceRule?: RecurrenceRule | null
 ): PreviewInstallment[] => {
-  const installments: PreviewInstallment[] = [];
-  const start = new Date(startDate);
+  // A one-time plan is a single payment; rule-less custom plans preview monthly
+  const dates = planInstallmentDates(
+    startDate,
+    isSteppedFrequency(frequency) ? frequency : "monthly",
+    frequency === "one_time" ? 1 : numberOfInstallments,
+    recurrenceRule
+  );
+  if (dates.length === 0) return [];
 
   // Calculate installment amount with proper distribution
-  const baseInstallmentAmount = roundToPrecision(totalAmount / numberOfInstallments, 2);
-  const remainder = roundToPrecision(totalAmount - (baseInstallmentAmount * numberOfInstallments), 2);
-
-  for (let i = 0; i < numberOfInstallments; i++) {
-    const installmentDate = new Date(start);
-
-    switch (frequency) {
-      case "weekly":
-        installmentDate.setDate(start.getDate() + i * 7);
-        break;
-      case "monthly":
-        installmentDate.setMonth(start.getMonth() + i);
-        break;
-      case "quarterly":
-        installmentDate.setMonth(start.getMonth() + i * 3);
-        break;
-      case "biannual":
-        installmentDate.setMonth(start.getMonth() + i * 6);
-        break;
-      case "annual":
-        installmentDate.setFullYear(start.getFullYear() + i);
-        break;
-      case "one_time":
-        if (i > 0) break;
-        break;
-      default:
-        installmentDate.setMonth(start.getMonth() + i);
-    }
+  const baseInstallmentAmount = roundToPrecision(totalAmount / dates.length, 2);
+  const remainder = roundToPrecision(totalAmount - (baseInstallmentAmount * dates.length), 2);
 
+  return dates.map((date, i) => {
     // Add remainder to last installment to ensure total matches exactly
     let installmentAmount = baseInstallmentAmount;
-    if (i === numberOfInstallments - 1 && remainder !== 0) {
+    if (i === dates.length - 1 && remainder !== 0) {
       installmentAmount = roundToPrecision(baseInstallmentAmount + remainder, 2);
     }
 
-    installments.push({
+    return {
       installmentNumber: i + 1,
-      date: installmentDate.toISOString().split("T")[0],
+      date,
       amount: installmentAmount,
       currency: currency,
-      formattedDate: installmentDate.toLocaleDateString(),
+      formattedDate: parseISO(date).toLocaleDateString(),
       isPaid: false,
       notes: undefined,
-    });
-
-    if (frequency === "one_time") break;
-  }
-
-  return installments;
+    };
+  });
 };
 
 const calculateEndDate = (
   startDate: string,
   frequency: string,
-  installments: number
+  installments: number,
+  recurrenceRule?: RecurrenceRule | null
 ): string => {
-  const start = new Date(startDate);
-  const end = new Date(start);
-
-  switch (frequency) {
-    case "weekly":
-      end.setDate(start.getDate() + (installments - 1) * 7);
-      break;
-    case "monthly":
-      end.setMonth(start.getMonth() + (installments - 1));
-      break;
-    case "quarterly":
-      end.setMonth(start.getMonth() + (installments - 1) * 3);
-      break;
-    case "biannual":
-      end.setMonth(start.getMonth() + (installments - 1) * 6);
-      break;
-    case "annual":
-      end.setFullYear(start.getFullYear() + (installments - 1));
-      break;
-    case "one_time":
-      return startDate;
-    default:
-      return startDate;
-  }
-  return end.toISOString().split("T")[0];
+  const dates = planInstallmentDates(startDate, frequency, installments, recurrenceRule);
+  return dates[dates.length - 1] ?? startDate;
 };
 
 export default function PaymentPlanDialog(props: PaymentPlanDialogProps) {
@@ -532,6 +473,7 @@ export default function PaymentPlanDialog(props: PaymentPlanDialogProps) {
   const { data: exchangeRateData, isLoading: isLoadingRates } =
     useExchangeRates();
   const exchangeRates = exchangeRateData?.data?.rates;
+  const { currencies } = useCurrenciesQuery();
 
   const isEditMode = mode === "edit" && !!paymentPlanId;
 
@@ -646,6 +588,7 @@ export default function PaymentPlanDialog(props: PaymentPlanDialogProps) {
       relationshipId: undefined,
       planName: "",
       frequency: "monthly" as const,
+      recurrenceRule: null,
       distributionType: "fixed" as const,
       totalPlannedAmount: defaultAmount,
       currency: ensureCurrency(effectivePledgeCurrency),
@@ -713,7 +656,8 @@ export default function PaymentPlanDialog(props: PaymentPlanDialogProps) {
           formData.frequency,
           formData.numberOfInstallments,
           formData.totalPlannedAmount,
-          formData.currency
+          formData.currency,
+          formData.recurrenceRule
         );
       }
     }, [formData]);
@@ -966,7 +910,8 @@ export default function PaymentPlanDialog(props: PaymentPlanDialogProps) {
       currentData.frequency,
       currentData.numberOfInstallments,
       currentData.totalPlannedAmount,
-      safeCurrency
+      safeCurrency,
+      parseRecurrenceRule(currentData.recurrenceRule)
     ).map(inst => ({
       installmentDate: inst.date,
       installmentAmount: inst.amount,
@@ -1023,7 +968,8 @@ export default function PaymentPlanDialog(props: PaymentPlanDialogProps) {
           existingPlan.frequency,
           existingPlan.numberOfInstallments || 1,
           Number.parseFloat(existingPlan.totalPlannedAmount?.toString() || "0"),
-          safeCurrency
+          safeCurrency,
+          parseRecurrenceRule(existingPlan.recurrenceRule)
         ).map(inst => ({
           installmentDate: inst.date,
           installmentAmount: inst.amount,
@@ -1146,6 +1092,7 @@ export default function PaymentPlanDialog(props: PaymentPlanDialogProps) {
         relationshipId: existingPlan.relationshipId || undefined,
         planName: existingPlan.planName || "",
         frequency: ensureFrequency(existingPlan.frequency),
+        recurrenceRule: parseRecurrenceRule(existingPlan.recurrenceRule),
         distributionType: (existingPlan.distributionType as "fixed" | "custom") || "fixed",
         totalPlannedAmount: Number.parseFloat(
           existingPlan.totalPlannedAmount?.toString() || "0"
@@ -1360,7 +1307,8 @@ export default function PaymentPlanDialog(props: PaymentPlanDialogProps) {
         const endDate = calculateEndDate(
           watchedStartDate,
           watchedFrequency,
-          watchedNumberOfInstallments
+          watchedNumberOfInstallments,
+          watchedFrequency === "custom" ? parseRecurrenceRule(form.getValues("recurrenceRule")) : null
         );
         form.setValue("endDate", endDate);
       }
@@ -1402,6 +1350,7 @@ export default function PaymentPlanDialog(props: PaymentPlanDialogProps) {
         relationshipId: existingPlan.relationshipId || undefined,
         planName: existingPlan.planName || "",
         frequency: ensureFrequency(existingPlan.frequency),
+        recurrenceRule: parseRecurrenceRule(existingPlan.recurrenceRule),
         distributionType: (existingPlan.distributionType as "fixed" | "custom") || "fixed",
         totalPlannedAmount: Number.parseFloat(
           existingPlan.totalPlannedAmount?.toString() || "0"
@@ -1460,6 +1409,7 @@ export default function PaymentPlanDialog(props: PaymentPlanDialogProps) {
         relationshipId: undefined,
         planName: "",
         frequency: "monthly" as const,
+        recurrenceRule: null,
         distributionType: "fixed" as const,
         totalPlannedAmount: newDefaultAmount,
         currency: safeCurrency,
@@ -1635,6 +1585,8 @@ export default function PaymentPlanDialog(props: PaymentPlanDialogProps) {
         isThirdPartyPayment: finalData.isThirdPartyPayment || false,
         thirdPartyContactId: selectedThirdPartyContact?.id || null,
         payerContactId: finalData.isThirdPartyPayment ? contactId : undefined,
+        // Only custom-frequency plans repeat by rule
+        recurrenceRule: finalData.frequency === "custom" ? finalData.recurrenceRule ?? null : null,
         customInstallments: finalData.customInstallments?.map(inst => ({
           installmentDate: inst.installmentDate,
           installmentAmount: inst.installmentAmount,
@@ -1908,6 +1860,7 @@ export default function PaymentPlanDialog(props: PaymentPlanDialogProps) {
               startDate: form.getValues().startDate || new Date().toISOString().split('T')[0],
               planStatus: form.getValues().planStatus || 'active',
               frequency: form.getValues().frequency || 'monthly',
+              recurrenceRule: parseRecurrenceRule(form.getValues().recurrenceRule),
               paymentMethod: form.getValues().paymentMethod!,
               methodDetail: form.getValues().methodDetail || '',
               // Add missing required fields with defaults
@@ -2200,7 +2153,7 @@ export default function PaymentPlanDialog(props: PaymentPlanDialogProps) {
                                 </SelectTrigger>
                               </FormControl>
                               <SelectContent>
-                                {supportedCurrencies.map((curr) => (
+                                {currencyChoices(currencies, field.value).map((curr) => (
                                   <SelectItem key={curr} value={curr}>
                                     {curr}
                                   </SelectItem>
@@ -2238,6 +2191,32 @@ export default function PaymentPlanDialog(props: PaymentPlanDialogProps) {
                       )}
                     />
 
+                    {watchedFrequency === "custom" && (
+                      <FormField
+                        control={form.control}
+                        name="recurrenceRule"
+                        render={({ field }) => (
+                          <FormItem>
+                            <FormLabel>Recurrence Rule</FormLabel>
+                            <FormDescription>
+                              For schedules that don&apos;t follow a fixed step, like the 1st and 15th or skipping the summer
+                            </FormDescription>
+                            <RecurrenceRuleEditor
+                              value={parseRecurrenceRule(field.value) ?? DEFAULT_RECURRENCE_RULE}
+                              onChange={field.onChange}
+                              onGenerate={() => {
+                                form.setValue("recurrenceRule", parseRecurrenceRule(field.value) ?? DEFAULT_RECURRENCE_RULE);
+                                form.setValue("distributionType", "custom");
+                                regenerateInstallments();
+                              }}
+                              disabled={!watchedStartDate || watchedNumberOfInstallments <= 0}
+                            />
+                            <FormMessage className="text-sm text-red-600 mt-1" />
+                          </FormItem>
+                        )}
+                      />
+                    )}
+
                     {isEditMode && (
                       <FormField
                         control={form.control}
@@ -2651,28 +2630,8 @@ export default function PaymentPlanDialog(props: PaymentPlanDialogProps) {
                                 ? currentInstallments[currentInstallments.length - 1].installmentDate
                                 : form.getValues("startDate");
 
-                              const nextDate = new Date(lastDate);
                               const frequency = form.getValues("frequency");
-
-                              switch (frequency) {
-                                case "weekly":
-                                  nextDate.setDate(nextDate.getDate() + 7);
-                                  break;
-                                case "monthly":
-                                  nextDate.setMonth(nextDate.getMonth() + 1);
-                                  break;
-                                case "quarterly":
-                                  nextDate.setMonth(nextDate.getMonth() + 3);
-                                  break;
-                                case "biannual":
-                                  nextDate.setMonth(nextDate.getMonth() + 6);
-                                  break;
-                                case "annual":
-                                  nextDate.setFullYear(nextDate.getFullYear() + 1);
-                                  break;
-                                default:
-                                  nextDate.setMonth(nextDate.getMonth() + 1);
-                              }
+                              const nextDate = addFrequency(lastDate, isSteppedFrequency(frequency) ? frequency : "monthly");
 
                               const defaultAmount = form.getValues("installmentAmount") ||
                                 roundToPrecision(form.getValues("totalPlannedAmount") / 12, 2);
@@ -2680,7 +2639,7 @@ export default function PaymentPlanDialog(props: PaymentPlanDialogProps) {
                               const { usdAmount } = calculateUsdAmounts(defaultAmount, safeCurrency);
 
                               const newInstallment = {
-                                installmentDate: nextDate.toISOString().split("T")[0],
+                                installmentDate: nextDate,
                                 installmentAmount: defaultAmount,
                                 currency: safeCurrency,
                                 installmentAmountUsd: usdAmount,
@@ -37,6 +37,7 @@ import {
 import { Textarea } from "@/components/ui/textarea";
 import { Badge } from "@/components/ui/badge";
 import { useExchangeRates } from "@/lib/query/useExchangeRates";
+import { currencyChoices, useCurrenciesQuery } from "@/lib/query/currencies/useCurrenciesQuery";
 import {
   Command,
   CommandEmpty,
@@ -56,6 +57,9 @@ import {
 import { useTagsQuery } from "@/lib/query/tags/useTagsQuery";
 import { useCampaigns } from "@/lib/query/useCampaigns";
 import PaymentDialog from "./payment-form";
+import HebrewDateInput from "./hebrew-date-input";
+import DedicationFields from "./dedication-fields";
+import { DEDICATION_TYPES } from "@/lib/form-schemas/memorial";
 import { getCategoryItems } from "@/lib/data/categories";
 import {
   Card,
@@ -77,17 +81,6 @@ interface Tag {
   updatedAt?: Date;
 }
 
-const supportedCurrencies = [
-  "USD",
-  "ILS",
-  "EUR",
-  "JPY",
-  "GBP",
-  "AUD",
-  "CAD",
-  "ZAR",
-] as const;
-
 import { useCategories } from "@/lib/query/useCategories";
 
 // Static categories for display
@@ -103,9 +96,8 @@ const pledgeSchema = z.object({
   categoryId: z.number().positive("Please select a category").optional(),
   description: z.string().optional(),
   pledgeDate: z.string().min(1, "Pledges/Donations date is required"),
-  currency: z.enum(supportedCurrencies, {
-    errorMap: () => ({ message: "Please select a valid currency" }),
-  }),
+  dueDate: z.string().optional(),
+  currency: z.string().min(1, "Please select a valid currency"),
   originalAmount: z
     .number()
     .positive("Pledges/Donations amount must be greater than 0")
@@ -120,8 +112,13 @@ const pledgeSchema = z.object({
     .min(0.0001, "Exchange rate must be at least 0.0001"),
   exchangeRateDate: z.string().optional(),
   campaignCode: z.string().optional(),
+  advantageAmount: z.number().min(0, "Advantage amount cannot be negative").optional(),
+  advantageDescription: z.string().optional(),
   notes: z.string().optional(),
   tagIds: z.array(z.number()).optional(),
+  dedicationType: z.enum(DEDICATION_TYPES).nullable().optional(),
+  dedicationName: z.string().optional(),
+  memorialId: z.number().nullable().optional(),
 });
 
 // Add categories prop to accept dynamic categories
@@ -147,11 +144,17 @@ interface PledgeData {
   contactId?: number;
   description?: string;
   pledgeDate?: string;
+  dueDate?: string | null;
+  dedicationType?: "in_honor_of" | "in_memory_of" | null;
+  dedicationName?: string | null;
+  memorialId?: number | null;
   currency?: string;
   originalAmount?: number;
   originalAmountUsd?: number;
   exchangeRate?: number;
   campaignCode?: string;
+  advantageAmount?: number | null;
+  advantageDescription?: string | null;
   notes?: string;
   category?: {
     id: number;
@@ -271,16 +274,22 @@ export default function PledgeDialog({
       const values = {
         contactId: pledgeData.contactId || contactId,
         categoryId: pledgeData.category?.id,
-        currency: pledgeData.currency as (typeof supportedCurrencies)[number],
+        currency: pledgeData.currency,
         exchangeRate: Math.max(pledgeData.exchangeRate || 1, 0.0001),
         originalAmount: Math.max(pledgeData.originalAmount || 1, 0.01),
         originalAmountUsd: Math.max(pledgeData.originalAmountUsd || 1, 0.01),
         description: pledgeData.description || "",
         pledgeDate: pledgeData.pledgeDate,
+        dueDate: pledgeData.dueDate || "",
         exchangeRateDate: pledgeData.pledgeDate,
         campaignCode: pledgeData.campaignCode || "",
+        advantageAmount: pledgeData.advantageAmount ?? undefined,
+        advantageDescription: pledgeData.advantageDescription || "",
         notes: pledgeData.notes || "",
         tagIds: extractedTagIds,
+        dedicationType: pledgeData.dedicationType ?? null,
+        dedicationName: pledgeData.dedicationName || "",
+        memorialId: pledgeData.memorialId ?? null,
       };
 
       return values;
@@ -295,10 +304,16 @@ export default function PledgeDialog({
       originalAmountUsd: 0,
       description: "",
       pledgeDate: new Date().toISOString().split("T")[0],
+      dueDate: "",
       exchangeRateDate: new Date().toISOString().split("T")[0],
       campaignCode: "",
+      advantageAmount: undefined,
+      advantageDescription: "",
       notes: "",
       tagIds: [],
+      dedicationType: null,
+      dedicationName: "",
+      memorialId: null,
     };
 
     return defaultValues;
@@ -337,6 +352,7 @@ export default function PledgeDialog({
 
   const { data: exchangeRatesData, isLoading: isLoadingRates, error: ratesError } =
     useExchangeRates(watchedExchangeRateDate);
+  const { currencies } = useCurrenciesQuery();
 
   const createPledgeMutation = useCreatePledgeMutation();
   const createPledgeAndPayMutation = useCreatePledgeAndPayMutation();
@@ -562,14 +578,20 @@ export default function PledgeDialog({
         contactId: data.contactId,
         categoryId: data.categoryId,
         pledgeDate: data.pledgeDate,
+        dueDate: data.dueDate,
         description: data.description || "",
         originalAmount: data.originalAmount,
         currency: data.currency,
         originalAmountUsd: data.originalAmountUsd,
         exchangeRate: data.exchangeRate,
         campaignCode: data.campaignCode || undefined,
+        advantageAmount: data.advantageAmount ?? 0,
+        advantageDescription: data.advantageDescription,
         notes: data.notes,
         tagIds: data.tagIds || [],
+        dedicationType: data.dedicationType ?? null,
+        dedicationName: data.dedicationType ? data.dedicationName : null,
+        memorialId: data.dedicationType ? data.memorialId ?? null : null,
       };
 
       if (isEditMode) {
@@ -1070,6 +1092,24 @@ export default function PledgeDialog({
                       </FormItem>
                     )}
                   />
+
+                  {/* Due Date */}
+                  <FormField
+                    control={form.control}
+                    name="dueDate"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Due Date</FormLabel>
+                        <FormControl>
+                          <HebrewDateInput value={field.value || ""} onChange={field.onChange} />
+                        </FormControl>
+                        <FormDescription>
+                          Optional. Switch to Hebrew for pledges due by a Hebrew date, such as 1 Tishrei for Rosh Hashana.
+                        </FormDescription>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
                 </CardContent>
               </Card>
 
@@ -1111,7 +1151,7 @@ export default function PledgeDialog({
                             </SelectTrigger>
                           </FormControl>
                           <SelectContent>
-                            {supportedCurrencies.map((curr) => (
+                            {currencyChoices(currencies, field.value).map((curr) => (
                               <SelectItem key={curr} value={curr}>
                                 {curr}
                               </SelectItem>
@@ -1223,7 +1263,59 @@ export default function PledgeDialog({
                   <CardTitle>Additional Information</CardTitle>
                   <CardDescription>Optional notes about the pledge</CardDescription>
                 </CardHeader>
-                <CardContent>
+                <CardContent className="space-y-4">
+                  {/* Printed on Canadian official receipts */}
+                  <div className="grid grid-cols-2 gap-4">
+                    <FormField
+                      control={form.control}
+                      name="advantageAmount"
+                      render={({ field }) => (
+                        <FormItem>
+                          <FormLabel>Advantage Amount</FormLabel>
+                          <FormControl>
+                            <Input
+                              type="number"
+                              step="0.01"
+                              min="0"
+                              value={field.value ?? ""}
+                              onChange={(e) =>
+                                field.onChange(e.target.value === "" ? undefined : parseFloat(e.target.value))
+                              }
+                              placeholder="Value of goods or services received"
+                            />
+                          </FormControl>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+                    <FormField
+                      control={form.control}
+                      name="advantageDescription"
+                      render={({ field }) => (
+                        <FormItem>
+                          <FormLabel>Advantage Description</FormLabel>
+                          <FormControl>
+                            <Input {...field} placeholder="e.g. Gala dinner ticket" />
+                          </FormControl>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+                  </div>
+                  <DedicationFields
+                    contactId={contactId}
+                    idPrefix="pledge-dedication"
+                    value={{
+                      dedicationType: form.watch("dedicationType") ?? null,
+                      dedicationName: form.watch("dedicationName") ?? "",
+                      memorialId: form.watch("memorialId") ?? null,
+                    }}
+                    onChange={(dedication) => {
+                      form.setValue("dedicationType", dedication.dedicationType);
+                      form.setValue("dedicationName", dedication.dedicationName);
+                      form.setValue("memorialId", dedication.memorialId);
+                    }}
+                  />
                   <FormField
                     control={form.control}
                     name="notes"
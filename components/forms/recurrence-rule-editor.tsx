@@ -0,0 +1,337 @@
+"use client";
+
+import { useState } from "react";
+import { CalendarDays } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import type { RecurrenceRule } from "@/lib/form-schemas/recurrence-rule";
+import { HEBREW_MONTHS, type LeapAdar } from "@/lib/hebrew-date";
+
+type Pattern = RecurrenceRule["pattern"];
+type Unit = Extract<RecurrenceRule, { pattern: "interval" }>["unit"];
+type WeekendAdjustment = RecurrenceRule["weekendAdjustment"];
+
+// Every pattern's fields in one place, so switching patterns keeps what was typed
+interface RuleDraft {
+  pattern: Pattern;
+  interval: number;
+  unit: Unit;
+  daysOfMonth: string;
+  hebrewDays: string;
+  hebrewMonth: number;
+  hebrewDay: number;
+  leapAdar: LeapAdar;
+  skipMonths: number[];
+  weekendAdjustment: WeekendAdjustment;
+}
+
+const PATTERN_LABELS: Record<Pattern, string> = {
+  interval: "Every N weeks, months or years",
+  days_of_month: "Set days of the month",
+  last_business_day: "Last business day of the month",
+  hebrew_monthly: "Set days of the Hebrew month",
+  hebrew_annual: "A Hebrew date every N years",
+};
+
+const UNIT_LABELS: Record<Unit, string> = {
+  week: "weeks",
+  month: "months",
+  year: "years",
+};
+
+const WEEKEND_LABELS: Record<WeekendAdjustment, string> = {
+  none: "Keep weekend dates",
+  following_monday: "Move to the following Monday",
+  preceding_friday: "Move to the preceding Friday",
+};
+
+const LEAP_ADAR_LABELS: Record<LeapAdar, string> = {
+  adar_i: "Adar I",
+  adar_ii: "Adar II",
+};
+
+const MONTHS = ["Jan", "Feb", "Mar", "Apr", "May", "Jun", "Jul", "Aug", "Sep", "Oct", "Nov", "Dec"];
+
+export const DEFAULT_RECURRENCE_RULE: RecurrenceRule = {
+  pattern: "days_of_month",
+  interval: 1,
+  daysOfMonth: [1, 15],
+  skipMonths: [],
+  weekendAdjustment: "none",
+};
+
+function toDraft(rule: RecurrenceRule): RuleDraft {
+  return {
+    pattern: rule.pattern,
+    interval: rule.interval,
+    unit: rule.pattern === "interval" ? rule.unit : "week",
+    daysOfMonth: rule.pattern === "days_of_month" ? rule.daysOfMonth.join(", ") : "1, 15",
+    hebrewDays: rule.pattern === "hebrew_monthly" ? rule.hebrewDays.join(", ") : "1",
+    // Rosh Hashana until another date is picked
+    hebrewMonth: rule.pattern === "hebrew_annual" ? rule.hebrewMonth : 7,
+    hebrewDay: rule.pattern === "hebrew_annual" ? rule.hebrewDay : 1,
+    leapAdar: rule.pattern === "hebrew_annual" ? rule.leapAdar : "adar_ii",
+    skipMonths: rule.skipMonths,
+    weekendAdjustment: rule.weekendAdjustment,
+  };
+}
+
+function parseDays(value: string, maxDay = 31): number[] {
+  return value
+    .split(/[\s,]+/)
+    .map((day) => parseInt(day, 10))
+    .filter((day) => day >= 1 && day <= maxDay);
+}
+
+function toRule(draft: RuleDraft): RecurrenceRule {
+  const options = { skipMonths: draft.skipMonths, weekendAdjustment: draft.weekendAdjustment };
+  const interval = Math.max(1, draft.interval || 1);
+  switch (draft.pattern) {
+    case "interval":
+      return { pattern: "interval", interval, unit: draft.unit, ...options };
+    case "days_of_month":
+      return { pattern: "days_of_month", interval, daysOfMonth: parseDays(draft.daysOfMonth), ...options };
+    case "last_business_day":
+      return { pattern: "last_business_day", interval, ...options };
+    case "hebrew_monthly":
+      return { pattern: "hebrew_monthly", interval, hebrewDays: parseDays(draft.hebrewDays, 30), ...options };
+    case "hebrew_annual":
+      return {
+        pattern: "hebrew_annual",
+        interval,
+        hebrewMonth: draft.hebrewMonth,
+        hebrewDay: draft.hebrewDay,
+        leapAdar: draft.leapAdar,
+        ...options,
+      };
+  }
+}
+
+interface RecurrenceRuleEditorProps {
+  value: RecurrenceRule;
+  onChange: (rule: RecurrenceRule) => void;
+  // Expands the rule into the editable installment list
+  onGenerate: () => void;
+  disabled?: boolean;
+}
+
+export default function RecurrenceRuleEditor({ value, onChange, onGenerate, disabled = false }: RecurrenceRuleEditorProps) {
+  const [draft, setDraft] = useState<RuleDraft>(() => toDraft(value));
+
+  const update = (changes: Partial<RuleDraft>) => {
+    const next = { ...draft, ...changes };
+    // Skipped months are Gregorian, so they do not carry over to Hebrew patterns
+    if (next.pattern === "hebrew_monthly" || next.pattern === "hebrew_annual") next.skipMonths = [];
+    setDraft(next);
+    onChange(toRule(next));
+  };
+
+  const toggleMonth = (month: number) => {
+    const skipMonths = draft.skipMonths.includes(month)
+      ? draft.skipMonths.filter((skipped) => skipped !== month)
+      : [...draft.skipMonths, month].sort((a, b) => a - b);
+    // At least one month has to stay open
+    if (skipMonths.length < 12) update({ skipMonths });
+  };
+
+  const noDays =
+    (draft.pattern === "days_of_month" && parseDays(draft.daysOfMonth).length === 0) ||
+    (draft.pattern === "hebrew_monthly" && parseDays(draft.hebrewDays, 30).length === 0);
+  const isHebrew = draft.pattern === "hebrew_monthly" || draft.pattern === "hebrew_annual";
+
+  return (
+    <div className="space-y-4 rounded-md border border-dashed p-4">
+      <div className="grid grid-cols-1 gap-4 md:grid-cols-2">
+        <div className="space-y-2">
+          <Label>Repeats</Label>
+          <Select value={draft.pattern} onValueChange={(pattern) => update({ pattern: pattern as Pattern })}>
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {Object.entries(PATTERN_LABELS).map(([pattern, label]) => (
+                <SelectItem key={pattern} value={pattern}>
+                  {label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
+        <div className="space-y-2">
+          <Label htmlFor="recurrence-interval">Every</Label>
+          <div className="flex gap-2">
+            <Input
+              id="recurrence-interval"
+              type="number"
+              min={1}
+              className="w-20"
+              value={draft.interval}
+              onChange={(e) => update({ interval: parseInt(e.target.value, 10) || 1 })}
+            />
+            {draft.pattern === "interval" ? (
+              <Select value={draft.unit} onValueChange={(unit) => update({ unit: unit as Unit })}>
+                <SelectTrigger className="flex-1">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {Object.entries(UNIT_LABELS).map(([unit, label]) => (
+                    <SelectItem key={unit} value={unit}>
+                      {label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            ) : (
+              <span className="self-center text-sm text-muted-foreground">
+                {draft.pattern === "hebrew_annual"
+                  ? "Hebrew years"
+                  : draft.pattern === "hebrew_monthly"
+                    ? "Hebrew months"
+                    : "months"}
+              </span>
+            )}
+          </div>
+        </div>
+
+        {draft.pattern === "days_of_month" && (
+          <div className="space-y-2">
+            <Label htmlFor="recurrence-days">Days of the month</Label>
+            <Input
+              id="recurrence-days"
+              value={draft.daysOfMonth}
+              onChange={(e) => update({ daysOfMonth: e.target.value })}
+              placeholder="e.g. 1, 15"
+            />
+            <p className="text-xs text-muted-foreground">31 falls on the last day of shorter months.</p>
+          </div>
+        )}
+
+        {draft.pattern === "hebrew_monthly" && (
+          <div className="space-y-2">
+            <Label htmlFor="recurrence-hebrew-days">Days of the Hebrew month</Label>
+            <Input
+              id="recurrence-hebrew-days"
+              value={draft.hebrewDays}
+              onChange={(e) => update({ hebrewDays: e.target.value })}
+              placeholder="e.g. 1 for Rosh Chodesh"
+            />
+            <p className="text-xs text-muted-foreground">30 falls on the 29th of 29-day months.</p>
+          </div>
+        )}
+
+        {draft.pattern === "hebrew_annual" && (
+          <div className="space-y-2">
+            <Label htmlFor="recurrence-hebrew-day">Hebrew date</Label>
+            <div className="flex gap-2">
+              <Input
+                id="recurrence-hebrew-day"
+                type="number"
+                min={1}
+                max={30}
+                className="w-20"
+                value={draft.hebrewDay}
+                onChange={(e) => update({ hebrewDay: Math.min(30, Math.max(1, parseInt(e.target.value, 10) || 1)) })}
+              />
+              <Select
+                value={String(draft.hebrewMonth)}
+                onValueChange={(month) => update({ hebrewMonth: parseInt(month, 10) })}
+              >
+                <SelectTrigger className="flex-1">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {HEBREW_MONTHS.map((month) => (
+                    <SelectItem key={month.value} value={String(month.value)}>
+                      {month.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <p className="text-xs text-muted-foreground">1 Tishrei is Rosh Hashana.</p>
+          </div>
+        )}
+
+        {/* Only plain Adar needs a choice; Adar II always means the second Adar */}
+        {draft.pattern === "hebrew_annual" && draft.hebrewMonth === 12 && (
+          <div className="space-y-2">
+            <Label>In leap years</Label>
+            <Select value={draft.leapAdar} onValueChange={(leapAdar) => update({ leapAdar: leapAdar as LeapAdar })}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {Object.entries(LEAP_ADAR_LABELS).map(([leapAdar, label]) => (
+                  <SelectItem key={leapAdar} value={leapAdar}>
+                    Falls in {label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        )}
+
+        <div className="space-y-2">
+          <Label>Weekends</Label>
+          <Select
+            value={draft.weekendAdjustment}
+            onValueChange={(weekendAdjustment) => update({ weekendAdjustment: weekendAdjustment as WeekendAdjustment })}
+          >
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {Object.entries(WEEKEND_LABELS).map(([adjustment, label]) => (
+                <SelectItem key={adjustment} value={adjustment}>
+                  {label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      </div>
+
+      {!isHebrew && (
+        <div className="space-y-2">
+          <Label>Skip months</Label>
+          <div className="flex flex-wrap gap-1">
+            {MONTHS.map((label, index) => {
+              const skipped = draft.skipMonths.includes(index + 1);
+              return (
+                <Button
+                  key={label}
+                  type="button"
+                  size="sm"
+                  variant={skipped ? "default" : "outline"}
+                  className="w-12"
+                  onClick={() => toggleMonth(index + 1)}
+                >
+                  {label}
+                </Button>
+              );
+            })}
+          </div>
+        </div>
+      )}
+
+      <div className="flex items-center justify-between">
+        <p className="text-sm text-muted-foreground">
+          Generating replaces the installment list below; dates and amounts stay editable.
+        </p>
+        <Button type="button" variant="outline" onClick={onGenerate} disabled={disabled || noDays}>
+          <CalendarDays className="mr-2 h-4 w-4" />
+          Generate Schedule
+        </Button>
+      </div>
+    </div>
+  );
+}
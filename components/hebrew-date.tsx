@@ -0,0 +1,18 @@
+import { formatHebrewDate } from "@/lib/hebrew-date";
+import { cn } from "@/lib/utils";
+
+interface HebrewDateProps {
+  date: string | null | undefined;
+  className?: string;
+}
+
+// Hebrew date shown under a Gregorian date (YYYY-MM-DD) in tables
+export default function HebrewDate({ date, className }: HebrewDateProps) {
+  const hebrew = formatHebrewDate(date);
+  if (!hebrew) return null;
+  return (
+    <div className={cn("text-xs font-normal text-muted-foreground", className)} title={formatHebrewDate(date, { gematriya: true })}>
+      {hebrew}
+    </div>
+  );
+}
@@ -0,0 +1,170 @@
+"use client";
+
+import { useState } from "react";
+import { History, RotateCcw } from "lucide-react";
+import { toast } from "sonner";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Skeleton } from "@/components/ui/skeleton";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import {
+  HistoryRecordType,
+  RecordHistoryEntry,
+  useRecordHistoryQuery,
+  useRevertRecordMutation,
+} from "@/lib/query/history/useRecordHistoryQuery";
+
+interface RecordHistoryProps {
+  recordType: HistoryRecordType;
+  recordId: number;
+  // Hides the revert action for read-only users
+  canRevert?: boolean;
+}
+
+const formatValue = (value: unknown) =>
+  value === null || value === undefined || value === "" ? "—" : String(value);
+
+// camelCase column name to "Camel case"
+const formatField = (field: string) => {
+  const words = field.replace(/([A-Z])/g, " $1").toLowerCase();
+  return words.charAt(0).toUpperCase() + words.slice(1);
+};
+
+const actionVariant = (action: RecordHistoryEntry["action"]) => {
+  switch (action) {
+    case "create":
+      return "default" as const;
+    case "delete":
+      return "destructive" as const;
+    default:
+      return "outline" as const;
+  }
+};
+
+export default function RecordHistory({ recordType, recordId, canRevert = true }: RecordHistoryProps) {
+  const { data, isLoading, error } = useRecordHistoryQuery(recordType, recordId);
+  const revertMutation = useRevertRecordMutation(recordType);
+  const [pendingRevert, setPendingRevert] = useState<RecordHistoryEntry | null>(null);
+
+  const handleRevert = async () => {
+    if (!pendingRevert) return;
+    try {
+      await revertMutation.mutateAsync({ recordId, auditLogId: pendingRevert.id });
+      toast.success("Reverted to the earlier version");
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : "Failed to revert");
+    } finally {
+      setPendingRevert(null);
+    }
+  };
+
+  if (isLoading) {
+    return (
+      <div className="space-y-2">
+        <Skeleton className="h-12 w-full" />
+        <Skeleton className="h-12 w-full" />
+      </div>
+    );
+  }
+
+  if (error) {
+    return <p className="text-sm text-red-600">Failed to load history.</p>;
+  }
+
+  const history = data?.history ?? [];
+  if (history.length === 0) {
+    return (
+      <div className="flex items-center gap-2 py-6 text-sm text-muted-foreground">
+        <History className="h-4 w-4" />
+        No changes recorded yet.
+      </div>
+    );
+  }
+
+  return (
+    <>
+      <ul className="divide-y rounded-md border bg-white">
+        {history.map((entry) => {
+          const changes = entry.action === "update" ? Object.entries(entry.changes ?? {}) : [];
+          return (
+            <li key={entry.id} className="p-3 text-sm">
+              <div className="flex items-start justify-between gap-4">
+                <div className="space-y-1">
+                  <div className="flex items-center gap-2">
+                    <Badge variant={actionVariant(entry.action)}>{entry.action}</Badge>
+                    <span className="text-gray-900">{entry.userEmail}</span>
+                    <span className="text-muted-foreground">
+                      {new Date(entry.timestamp).toLocaleString()}
+                    </span>
+                  </div>
+                  {changes.length === 0 && entry.details && (
+                    <p className="text-muted-foreground">{entry.details}</p>
+                  )}
+                </div>
+                {canRevert && entry.action === "update" && changes.length > 0 && (
+                  <Button
+                    type="button"
+                    variant="outline"
+                    size="sm"
+                    onClick={() => setPendingRevert(entry)}
+                    disabled={revertMutation.isPending}
+                  >
+                    <RotateCcw className="mr-2 h-4 w-4" />
+                    Revert
+                  </Button>
+                )}
+              </div>
+              {changes.length > 0 && (
+                <table className="mt-2 w-full text-xs">
+                  <thead>
+                    <tr className="text-left text-muted-foreground">
+                      <th className="py-1 pr-4 font-medium">Field</th>
+                      <th className="py-1 pr-4 font-medium">Old value</th>
+                      <th className="py-1 font-medium">New value</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {changes.map(([field, change]) => (
+                      <tr key={field}>
+                        <td className="py-1 pr-4 text-gray-900">{formatField(field)}</td>
+                        <td className="py-1 pr-4 text-red-700">{formatValue(change.from)}</td>
+                        <td className="py-1 text-green-700">{formatValue(change.to)}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              )}
+            </li>
+          );
+        })}
+      </ul>
+
+      <AlertDialog open={!!pendingRevert} onOpenChange={(open) => !open && setPendingRevert(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Revert this change?</AlertDialogTitle>
+            <AlertDialogDescription>
+              The {recordType} returns to the version it had before this edit. Later edits to the
+              same fields are undone as well, and pledge and payment plan totals are recalculated.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction onClick={handleRevert} disabled={revertMutation.isPending}>
+              {revertMutation.isPending ? "Reverting..." : "Revert"}
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </>
+  );
+}
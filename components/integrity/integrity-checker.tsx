@@ -0,0 +1,329 @@
+"use client";
+
+import { useMemo, useState } from "react";
+import { format } from "date-fns";
+import {
+  IntegrityIssue,
+  IntegrityRun,
+  useApplyIntegrityFixMutation,
+  useIntegrityRunQuery,
+  useIntegrityRunsQuery,
+  useStartIntegrityRunMutation,
+} from "@/lib/query/integrity/useIntegrityQuery";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { Play, Wrench } from "lucide-react";
+import { toast } from "sonner";
+
+const TYPE_LABELS: Record<string, string> = {
+  pledge_balance: "Pledge totals",
+  payment_plan_amounts: "Payment plan totals",
+  payment_conversion: "Payment conversions",
+  third_party_conversion: "Third-party payment conversions",
+  plan_conversion: "Payment plan conversions",
+  installment_conversion: "Installment conversions",
+  allocation_conversion: "Split payment conversions",
+  allocation_total: "Split payment totals",
+};
+
+const RUN_STATUS_VARIANTS: Record<IntegrityRun["status"], "default" | "secondary" | "destructive"> = {
+  running: "secondary",
+  completed: "default",
+  failed: "destructive",
+};
+
+type Grouping = "type" | "severity" | "contact";
+
+const groupLabel = (issue: IntegrityIssue, grouping: Grouping) => {
+  if (grouping === "severity") return issue.severity === "critical" ? "Critical" : "Warning";
+  if (grouping === "contact") return issue.contactName ?? "No contact";
+  return TYPE_LABELS[issue.type] ?? issue.type;
+};
+
+// "amountInPledgeCurrency" -> "amount in pledge currency"
+const fieldLabel = (field: string) => field.replace(/([A-Z])/g, " $1").toLowerCase();
+
+const formatTime = (value: string | null) => (value ? format(new Date(value), "yyyy-MM-dd HH:mm") : "—");
+
+export function IntegrityChecker() {
+  const [selectedRunId, setSelectedRunId] = useState<number | null>(null);
+  const [grouping, setGrouping] = useState<Grouping>("type");
+  const [fixing, setFixing] = useState<IntegrityIssue | null>(null);
+
+  const { data: runsData, isLoading, error, refetch } = useIntegrityRunsQuery();
+  const runs = runsData?.runs ?? [];
+  // The latest run until another is picked from the history
+  const runId = selectedRunId ?? runs[0]?.id ?? null;
+  const { data: runData, isLoading: issuesLoading } = useIntegrityRunQuery(runId);
+  const startMutation = useStartIntegrityRunMutation();
+  const fixMutation = useApplyIntegrityFixMutation();
+
+  const groups = useMemo(() => {
+    const grouped = new Map<string, IntegrityIssue[]>();
+    for (const issue of runData?.issues ?? []) {
+      const label = groupLabel(issue, grouping);
+      grouped.set(label, [...(grouped.get(label) ?? []), issue]);
+    }
+    return Array.from(grouped.entries()).sort(([a], [b]) => a.localeCompare(b));
+  }, [runData, grouping]);
+
+  const handleRun = async () => {
+    try {
+      const result = await startMutation.mutateAsync();
+      toast.success(result.message);
+      setSelectedRunId(result.run.id);
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : "Failed to run integrity check");
+    }
+  };
+
+  const handleFix = async () => {
+    if (!fixing) return;
+    try {
+      const result = await fixMutation.mutateAsync(fixing.id);
+      toast.success(result.message);
+      setFixing(null);
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : "Failed to apply fix");
+      setFixing(null);
+    }
+  };
+
+  if (error) {
+    return (
+      <div className="text-center py-8">
+        <p className="text-red-600 mb-4">Failed to load integrity runs</p>
+        <Button onClick={() => refetch()} variant="outline">
+          Retry
+        </Button>
+      </div>
+    );
+  }
+
+  const run = runData?.run;
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <div>
+          <h2 className="text-2xl font-bold">Data Integrity</h2>
+          <p className="text-sm text-muted-foreground">
+            Checks pledge and plan totals against their payments, and converted amounts against the stored rates.
+            Runs every night; new critical issues are emailed.
+          </p>
+        </div>
+        <Button onClick={handleRun} disabled={startMutation.isPending}>
+          <Play className="mr-2 h-4 w-4" />
+          {startMutation.isPending ? "Checking..." : "Run Check"}
+        </Button>
+      </div>
+
+      <div className="space-y-2">
+        <h3 className="font-semibold">Run history</h3>
+        <div className="rounded-md border">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Started</TableHead>
+                <TableHead>Trigger</TableHead>
+                <TableHead>Status</TableHead>
+                <TableHead className="text-right">Issues</TableHead>
+                <TableHead className="text-right">Critical</TableHead>
+                <TableHead className="text-right">New critical</TableHead>
+                <TableHead className="text-right">Contacts</TableHead>
+                <TableHead>Alerted</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {isLoading ? (
+                <TableRow>
+                  <TableCell colSpan={8} className="text-center py-6 text-muted-foreground">
+                    Loading...
+                  </TableCell>
+                </TableRow>
+              ) : runs.length === 0 ? (
+                <TableRow>
+                  <TableCell colSpan={8} className="text-center py-6 text-muted-foreground">
+                    No checks have run yet
+                  </TableCell>
+                </TableRow>
+              ) : (
+                runs.map((item) => (
+                  <TableRow
+                    key={item.id}
+                    className={`cursor-pointer ${item.id === runId ? "bg-muted" : ""}`}
+                    onClick={() => setSelectedRunId(item.id)}
+                  >
+                    <TableCell>{formatTime(item.startedAt)}</TableCell>
+                    <TableCell className="capitalize">{item.trigger}</TableCell>
+                    <TableCell>
+                      <Badge variant={RUN_STATUS_VARIANTS[item.status]} title={item.error ?? undefined}>
+                        {item.status}
+                      </Badge>
+                    </TableCell>
+                    <TableCell className="text-right">{item.totalIssues}</TableCell>
+                    <TableCell className="text-right">{item.criticalIssues}</TableCell>
+                    <TableCell className="text-right">{item.newCriticalIssues}</TableCell>
+                    <TableCell className="text-right">{item.affectedContacts}</TableCell>
+                    <TableCell className="text-muted-foreground">{formatTime(item.alertedAt)}</TableCell>
+                  </TableRow>
+                ))
+              )}
+            </TableBody>
+          </Table>
+        </div>
+      </div>
+
+      {run && (
+        <div className="space-y-4">
+          <div className="flex items-center gap-4">
+            <h3 className="font-semibold">
+              Issues found by run #{run.id} ({run.criticalIssues} critical, {run.warningIssues} warnings)
+            </h3>
+            <Select value={grouping} onValueChange={(value) => setGrouping(value as Grouping)}>
+              <SelectTrigger className="w-44">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="type">By type</SelectItem>
+                <SelectItem value="severity">By severity</SelectItem>
+                <SelectItem value="contact">By contact</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+
+          {run.status === "failed" && <p className="text-sm text-red-600">The run failed: {run.error}</p>}
+
+          {issuesLoading ? (
+            <p className="text-center py-6 text-muted-foreground">Loading issues...</p>
+          ) : groups.length === 0 ? (
+            run.status === "completed" && (
+              <p className="text-center py-6 text-muted-foreground">No issues found</p>
+            )
+          ) : (
+            groups.map(([label, issues]) => (
+              <div key={label} className="space-y-2">
+                <h4 className="text-sm font-medium">
+                  {label} ({issues.length})
+                </h4>
+                <div className="rounded-md border">
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>Severity</TableHead>
+                        <TableHead>Contact</TableHead>
+                        <TableHead>Record</TableHead>
+                        <TableHead>Problem</TableHead>
+                        <TableHead>Proposed fix</TableHead>
+                        <TableHead />
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {issues.map((issue) => (
+                        <TableRow key={issue.id}>
+                          <TableCell>
+                            <Badge variant={issue.severity === "critical" ? "destructive" : "secondary"}>
+                              {issue.severity}
+                            </Badge>
+                          </TableCell>
+                          <TableCell>{issue.contactName ?? "—"}</TableCell>
+                          <TableCell className="whitespace-nowrap">
+                            {issue.recordType.replace(/_/g, " ")} #{issue.recordId}
+                          </TableCell>
+                          <TableCell className="text-sm">{issue.description}</TableCell>
+                          <TableCell className="text-sm">
+                            {issue.fix ? (
+                              issue.fix.changes.map((change) => (
+                                <div key={change.field} className="whitespace-nowrap">
+                                  {fieldLabel(change.field)}:{" "}
+                                  <span className="font-mono text-muted-foreground">{change.from ?? "empty"}</span> →{" "}
+                                  <span className="font-mono">{change.to}</span>
+                                </div>
+                              ))
+                            ) : (
+                              <span className="text-muted-foreground">Needs a manual correction</span>
+                            )}
+                          </TableCell>
+                          <TableCell className="text-right">
+                            {issue.status === "fixed" ? (
+                              <Badge variant="outline">Fixed</Badge>
+                            ) : (
+                              issue.fix && (
+                                <Button
+                                  variant="outline"
+                                  size="sm"
+                                  onClick={() => setFixing(issue)}
+                                  title={issue.fixError ?? undefined}
+                                >
+                                  <Wrench className="mr-2 h-4 w-4" />
+                                  {issue.status === "failed" ? "Retry Fix" : "Apply Fix"}
+                                </Button>
+                              )
+                            )}
+                          </TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                </div>
+              </div>
+            ))
+          )}
+        </div>
+      )}
+
+      <AlertDialog open={!!fixing} onOpenChange={(open) => !open && setFixing(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>
+              Fix {fixing?.recordType.replace(/_/g, " ")} #{fixing?.recordId}?
+            </AlertDialogTitle>
+            <AlertDialogDescription>
+              {fixing?.fix?.changes
+                .map((change) => `${fieldLabel(change.field)}: ${change.from ?? "empty"} → ${change.to}`)
+                .join("; ")}
+              . Pledge and plan totals that depend on it are recalculated.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel disabled={fixMutation.isPending}>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={(e) => {
+                e.preventDefault();
+                handleFix();
+              }}
+              disabled={fixMutation.isPending}
+            >
+              {fixMutation.isPending ? "Applying..." : "Apply Fix"}
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+}
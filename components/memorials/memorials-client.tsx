@@ -0,0 +1,348 @@
+"use client";
+
+import { useState } from "react";
+import {
+  ContactMemorial,
+  useContactMemorialsQuery,
+  useCreateMemorialMutation,
+  useDeleteMemorialMutation,
+  useUpdateMemorialMutation,
+} from "@/lib/query/memorials/useMemorialsQuery";
+import type { MemorialInput } from "@/lib/form-schemas/memorial";
+import HebrewDateInput from "@/components/forms/hebrew-date-input";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { Pencil, Plus, Trash2 } from "lucide-react";
+import { toast } from "sonner";
+import { formatDate } from "@/lib/utils";
+
+interface MemorialForm {
+  deceasedName: string;
+  deceasedHebrewName: string;
+  relationship: string;
+  dateOfPassing: string;
+  afterSunset: boolean;
+  remindersEnabled: boolean;
+  notes: string;
+}
+
+const EMPTY_FORM: MemorialForm = {
+  deceasedName: "",
+  deceasedHebrewName: "",
+  relationship: "",
+  dateOfPassing: "",
+  afterSunset: false,
+  remindersEnabled: true,
+  notes: "",
+};
+
+const toForm = (memorial: ContactMemorial): MemorialForm => ({
+  deceasedName: memorial.deceasedName,
+  deceasedHebrewName: memorial.deceasedHebrewName ?? "",
+  relationship: memorial.relationship ?? "",
+  dateOfPassing: memorial.dateOfPassing,
+  afterSunset: memorial.afterSunset,
+  remindersEnabled: memorial.remindersEnabled,
+  notes: memorial.notes ?? "",
+});
+
+const toInput = (form: MemorialForm): MemorialInput => ({
+  deceasedName: form.deceasedName.trim(),
+  deceasedHebrewName: form.deceasedHebrewName.trim() || null,
+  relationship: form.relationship.trim() || null,
+  dateOfPassing: form.dateOfPassing,
+  afterSunset: form.afterSunset,
+  remindersEnabled: form.remindersEnabled,
+  notes: form.notes.trim() || null,
+});
+
+export function MemorialsClient({ contactId }: { contactId: number }) {
+  // null: dialog closed; "new": adding; otherwise the memorial being edited
+  const [editing, setEditing] = useState<ContactMemorial | "new" | null>(null);
+  const [form, setForm] = useState<MemorialForm>(EMPTY_FORM);
+  const [deleting, setDeleting] = useState<ContactMemorial | null>(null);
+
+  const { data, isLoading, error, refetch } = useContactMemorialsQuery(contactId);
+  const createMutation = useCreateMemorialMutation(contactId);
+  const updateMutation = useUpdateMemorialMutation();
+  const deleteMutation = useDeleteMemorialMutation();
+
+  const memorials = data?.memorials ?? [];
+  const saving = createMutation.isPending || updateMutation.isPending;
+  const formValid = !!form.deceasedName.trim() && !!form.dateOfPassing;
+
+  const openDialog = (memorial: ContactMemorial | "new") => {
+    setEditing(memorial);
+    setForm(memorial === "new" ? EMPTY_FORM : toForm(memorial));
+  };
+
+  const handleSave = async () => {
+    if (!editing || !formValid) return;
+    try {
+      const result =
+        editing === "new"
+          ? await createMutation.mutateAsync(toInput(form))
+          : await updateMutation.mutateAsync({ memorialId: editing.id, ...toInput(form) });
+      toast.success(result.message);
+      setEditing(null);
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : "Failed to save memorial");
+    }
+  };
+
+  const toggleActive = async (memorial: ContactMemorial) => {
+    try {
+      const result = await updateMutation.mutateAsync({ memorialId: memorial.id, isActive: !memorial.isActive });
+      toast.success(result.message);
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : "Failed to update memorial");
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!deleting) return;
+    try {
+      const result = await deleteMutation.mutateAsync(deleting.id);
+      toast.success(result.message);
+      setDeleting(null);
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : "Failed to delete memorial");
+    }
+  };
+
+  if (error) {
+    return (
+      <div className="text-center py-8">
+        <p className="text-red-600 mb-4">Failed to load memorials</p>
+        <Button onClick={() => refetch()} variant="outline">
+          Retry
+        </Button>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between">
+        <div>
+          <h2 className="text-2xl font-bold">Memorials</h2>
+          <p className="text-sm text-muted-foreground">
+            Yahrzeits are kept by the Hebrew date of passing; reminders go out ahead of each one
+          </p>
+        </div>
+        <Button onClick={() => openDialog("new")}>
+          <Plus className="mr-2 h-4 w-4" />
+          Add Memorial
+        </Button>
+      </div>
+
+      <div className="rounded-md border">
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Name</TableHead>
+              <TableHead>Relationship</TableHead>
+              <TableHead>Date of Passing</TableHead>
+              <TableHead>Next Yahrzeit</TableHead>
+              <TableHead>Reminders</TableHead>
+              <TableHead className="text-right">Actions</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {isLoading ? (
+              <TableRow>
+                <TableCell colSpan={6} className="text-center py-8">
+                  Loading memorials...
+                </TableCell>
+              </TableRow>
+            ) : memorials.length === 0 ? (
+              <TableRow>
+                <TableCell colSpan={6} className="text-center py-8 text-muted-foreground">
+                  No memorials recorded for this contact
+                </TableCell>
+              </TableRow>
+            ) : (
+              memorials.map((memorial) => (
+                <TableRow key={memorial.id} className={memorial.isActive ? undefined : "opacity-60"}>
+                  <TableCell className="font-medium">
+                    {memorial.deceasedName}
+                    {memorial.deceasedHebrewName && (
+                      <div className="text-xs text-muted-foreground" dir="rtl">
+                        {memorial.deceasedHebrewName}
+                      </div>
+                    )}
+                  </TableCell>
+                  <TableCell>{memorial.relationship || "-"}</TableCell>
+                  <TableCell>
+                    {formatDate(memorial.dateOfPassing)}
+                    {memorial.afterSunset && <span className="text-muted-foreground"> (after sunset)</span>}
+                    <div className="text-xs text-muted-foreground">{memorial.hebrewDateOfPassing}</div>
+                  </TableCell>
+                  <TableCell>
+                    {memorial.isActive ? (
+                      <>
+                        {formatDate(memorial.nextYahrzeit)}
+                        <div className="text-xs text-muted-foreground">{memorial.nextYahrzeitHebrew}</div>
+                      </>
+                    ) : (
+                      <Badge variant="secondary">Inactive</Badge>
+                    )}
+                  </TableCell>
+                  <TableCell>
+                    <Badge variant={memorial.remindersEnabled ? "default" : "outline"}>
+                      {memorial.remindersEnabled ? "On" : "Off"}
+                    </Badge>
+                  </TableCell>
+                  <TableCell className="text-right">
+                    <div className="flex justify-end gap-2">
+                      <Button size="sm" variant="outline" onClick={() => toggleActive(memorial)}>
+                        {memorial.isActive ? "Deactivate" : "Activate"}
+                      </Button>
+                      <Button size="sm" variant="outline" onClick={() => openDialog(memorial)}>
+                        <Pencil className="h-4 w-4" />
+                      </Button>
+                      <Button size="sm" variant="outline" onClick={() => setDeleting(memorial)}>
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </div>
+                  </TableCell>
+                </TableRow>
+              ))
+            )}
+          </TableBody>
+        </Table>
+      </div>
+
+      <Dialog open={!!editing} onOpenChange={(open) => !open && setEditing(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>{editing === "new" ? "Add Memorial" : "Edit Memorial"}</DialogTitle>
+            <DialogDescription>
+              The date of passing can be entered on either calendar. A passing after sunset belongs to the
+              next Hebrew day.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="memorial-name">Name</Label>
+              <Input
+                id="memorial-name"
+                value={form.deceasedName}
+                onChange={(e) => setForm({ ...form, deceasedName: e.target.value })}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="memorial-hebrew-name">Hebrew name</Label>
+              <Input
+                id="memorial-hebrew-name"
+                dir="rtl"
+                value={form.deceasedHebrewName}
+                onChange={(e) => setForm({ ...form, deceasedHebrewName: e.target.value })}
+                placeholder="e.g. שרה בת אברהם"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="memorial-relationship">Relationship</Label>
+              <Input
+                id="memorial-relationship"
+                value={form.relationship}
+                onChange={(e) => setForm({ ...form, relationship: e.target.value })}
+                placeholder="e.g. Father"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="memorial-date">Date of passing</Label>
+              <HebrewDateInput
+                id="memorial-date"
+                value={form.dateOfPassing}
+                onChange={(dateOfPassing) => setForm({ ...form, dateOfPassing })}
+              />
+            </div>
+            <div className="col-span-2 flex flex-wrap gap-6">
+              <div className="flex items-center space-x-2">
+                <Checkbox
+                  id="memorial-after-sunset"
+                  checked={form.afterSunset}
+                  onCheckedChange={(checked) => setForm({ ...form, afterSunset: checked === true })}
+                />
+                <Label htmlFor="memorial-after-sunset">Passed after sunset</Label>
+              </div>
+              <div className="flex items-center space-x-2">
+                <Checkbox
+                  id="memorial-reminders"
+                  checked={form.remindersEnabled}
+                  onCheckedChange={(checked) => setForm({ ...form, remindersEnabled: checked === true })}
+                />
+                <Label htmlFor="memorial-reminders">Send yahrzeit reminders</Label>
+              </div>
+            </div>
+            <div className="col-span-2 space-y-2">
+              <Label htmlFor="memorial-notes">Notes</Label>
+              <Textarea
+                id="memorial-notes"
+                value={form.notes}
+                onChange={(e) => setForm({ ...form, notes: e.target.value })}
+              />
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setEditing(null)}>
+              Cancel
+            </Button>
+            <Button onClick={handleSave} disabled={!formValid || saving}>
+              {saving ? "Saving..." : "Save"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <AlertDialog open={!!deleting} onOpenChange={(open) => !open && setDeleting(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete memorial for {deleting?.deceasedName}?</AlertDialogTitle>
+            <AlertDialogDescription>
+              Its reminder history is removed too. Pledges and payments dedicated to this memorial keep their
+              dedication text. To stop reminders but keep the record, deactivate it instead.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction onClick={handleDelete} disabled={deleteMutation.isPending}>
+              Delete
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+}
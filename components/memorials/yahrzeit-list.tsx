@@ -0,0 +1,122 @@
+"use client";
+
+import { useState } from "react";
+import Link from "next/link";
+import { useYahrzeitsQuery } from "@/lib/query/memorials/useMemorialsQuery";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { ChevronLeft, ChevronRight } from "lucide-react";
+import { formatDate } from "@/lib/utils";
+
+export function YahrzeitList() {
+  // undefined until the user steps away from the current Hebrew year
+  const [hebrewYear, setHebrewYear] = useState<number | undefined>(undefined);
+  const { data, isLoading, error, refetch } = useYahrzeitsQuery(hebrewYear);
+
+  const year = data?.hebrewYear ?? hebrewYear;
+  const yahrzeits = data?.yahrzeits ?? [];
+  const today = new Date().toISOString().split("T")[0];
+
+  if (error) {
+    return (
+      <div className="text-center py-8">
+        <p className="text-red-600 mb-4">Failed to load yahrzeits</p>
+        <Button onClick={() => refetch()} variant="outline">
+          Retry
+        </Button>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between">
+        <div>
+          <h2 className="text-2xl font-bold">Yahrzeits</h2>
+          <p className="text-sm text-muted-foreground">
+            Every active memorial&apos;s yahrzeit in the Hebrew year. Each begins at sundown the evening before.
+          </p>
+        </div>
+        <div className="flex items-center gap-2">
+          <Button variant="outline" size="sm" onClick={() => year && setHebrewYear(year - 1)} disabled={!year}>
+            <ChevronLeft className="h-4 w-4" />
+          </Button>
+          <span className="w-16 text-center font-medium">{year ?? "..."}</span>
+          <Button variant="outline" size="sm" onClick={() => year && setHebrewYear(year + 1)} disabled={!year}>
+            <ChevronRight className="h-4 w-4" />
+          </Button>
+        </div>
+      </div>
+
+      <div className="rounded-md border">
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Yahrzeit</TableHead>
+              <TableHead>Name</TableHead>
+              <TableHead>Relationship</TableHead>
+              <TableHead>Contact</TableHead>
+              <TableHead>Email / Phone</TableHead>
+              <TableHead>Reminders</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {isLoading ? (
+              <TableRow>
+                <TableCell colSpan={6} className="text-center py-8">
+                  Loading yahrzeits...
+                </TableCell>
+              </TableRow>
+            ) : yahrzeits.length === 0 ? (
+              <TableRow>
+                <TableCell colSpan={6} className="text-center py-8 text-muted-foreground">
+                  No yahrzeits in {year}
+                </TableCell>
+              </TableRow>
+            ) : (
+              yahrzeits.map((entry) => (
+                <TableRow key={entry.memorialId} className={entry.yahrzeitDate < today ? "opacity-60" : undefined}>
+                  <TableCell>
+                    {formatDate(entry.yahrzeitDate)}
+                    <div className="text-xs text-muted-foreground">{entry.hebrewDate}</div>
+                  </TableCell>
+                  <TableCell className="font-medium">
+                    {entry.deceasedName}
+                    {entry.deceasedHebrewName && (
+                      <div className="text-xs text-muted-foreground" dir="rtl">
+                        {entry.deceasedHebrewName}
+                      </div>
+                    )}
+                  </TableCell>
+                  <TableCell>{entry.relationship || "-"}</TableCell>
+                  <TableCell>
+                    <Link href={`/contacts/${entry.contactId}/memorials`} className="hover:underline">
+                      {entry.contactName}
+                    </Link>
+                  </TableCell>
+                  <TableCell className="text-sm">
+                    {entry.email || "-"}
+                    {entry.phone && <div className="text-muted-foreground">{entry.phone}</div>}
+                  </TableCell>
+                  <TableCell>
+                    <Badge variant={entry.remindersEnabled ? "default" : "outline"}>
+                      {entry.remindersEnabled ? "On" : "Off"}
+                    </Badge>
+                  </TableCell>
+                </TableRow>
+              ))
+            )}
+          </TableBody>
+        </Table>
+      </div>
+    </div>
+  );
+}
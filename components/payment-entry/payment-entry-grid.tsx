@@ -0,0 +1,274 @@
+"use client";
+
+import { useMemo, useState } from "react";
+import { format } from "date-fns";
+import {
+  PaymentEntrySubmitError,
+  useCommitPaymentEntriesMutation,
+} from "@/lib/query/payment-entry/usePaymentEntryQuery";
+import { usePaymentMethodOptions } from "@/lib/query/usePaymentMethods";
+import { useCurrenciesQuery } from "@/lib/query/currencies/useCurrenciesQuery";
+import { paymentEntryRowSchema, type PaymentEntryRow } from "@/lib/form-schemas/payment-entry";
+import { EntryRow, PaymentEntryGridRow } from "@/components/payment-entry/payment-entry-row";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { Plus, Save } from "lucide-react";
+import { toast } from "sonner";
+
+const INITIAL_ROWS = 10;
+
+type Defaults = Pick<EntryRow, "paymentDate" | "currency" | "paymentMethod">;
+
+let nextKey = 0;
+const blankRow = (defaults: Defaults): EntryRow => ({
+  key: nextKey++,
+  contactId: null,
+  contactName: "",
+  amount: "",
+  checkNumber: "",
+  allocations: [{ pledgeId: "", amount: "" }],
+  ...defaults,
+});
+
+const isBlank = (row: EntryRow) => !row.contactId && !row.amount && !row.checkNumber;
+
+const toNumber = (value: string) => (value.trim() === "" ? undefined : Number(value));
+
+// The row as the API expects it; a single allocation takes the whole amount
+const toEntry = (row: EntryRow) => {
+  const amount = toNumber(row.amount);
+  return {
+    contactId: row.contactId ?? undefined,
+    paymentDate: row.paymentDate,
+    currency: row.currency,
+    paymentMethod: row.paymentMethod,
+    amount,
+    checkNumber: row.checkNumber.trim() || null,
+    allocations: row.allocations.map((allocation) => ({
+      pledgeId: allocation.pledgeId ? parseInt(allocation.pledgeId, 10) : undefined,
+      amount: row.allocations.length === 1 ? amount : toNumber(allocation.amount),
+    })),
+  };
+};
+
+const validateRow = (row: EntryRow): { entry?: PaymentEntryRow; errors: Record<string, string> } => {
+  const result = paymentEntryRowSchema.safeParse(toEntry(row));
+  if (result.success) return { entry: result.data, errors: {} };
+
+  const errors: Record<string, string> = {};
+  for (const issue of result.error.issues) {
+    const field = issue.path.join(".");
+    // A single allocation's amount is the row amount, which reports its own error
+    if (row.allocations.length === 1 && field === "allocations.0.amount") continue;
+    errors[field] ??= issue.message;
+  }
+  return { errors };
+};
+
+export function PaymentEntryGrid() {
+  const [defaults, setDefaults] = useState<Defaults>({
+    paymentDate: format(new Date(), "yyyy-MM-dd"),
+    currency: "USD",
+    paymentMethod: "",
+  });
+  const [rows, setRows] = useState<EntryRow[]>(() => Array.from({ length: INITIAL_ROWS }, () => blankRow(defaults)));
+  const [serverErrors, setServerErrors] = useState<Record<number, Record<string, string>>>({});
+
+  const { options: methodOptions } = usePaymentMethodOptions();
+  const { currencies } = useCurrenciesQuery();
+  const currencyCodes = currencies.map((currency) => currency.code);
+  const commitMutation = useCommitPaymentEntriesMutation();
+
+  const validation = useMemo(
+    () => rows.map((row) => (isBlank(row) ? { blank: true, errors: {} } : { blank: false, ...validateRow(row) })),
+    [rows]
+  );
+
+  const filled = validation.filter((result) => !result.blank);
+  const invalidCount = filled.filter((result) => Object.keys(result.errors).length > 0).length;
+  const totals = useMemo(() => {
+    const byCurrency = new Map<string, number>();
+    rows.forEach((row, i) => {
+      const amount = parseFloat(row.amount);
+      if (!validation[i].blank && !isNaN(amount)) {
+        byCurrency.set(row.currency, (byCurrency.get(row.currency) ?? 0) + amount);
+      }
+    });
+    return [...byCurrency.entries()];
+  }, [rows, validation]);
+
+  const updateRow = (key: number, patch: Partial<EntryRow> | ((row: EntryRow) => Partial<EntryRow>)) => {
+    setRows((current) =>
+      current.map((row) => (row.key === key ? { ...row, ...(typeof patch === "function" ? patch(row) : patch) } : row))
+    );
+    setServerErrors((current) => {
+      if (!current[key]) return current;
+      const rest = { ...current };
+      delete rest[key];
+      return rest;
+    });
+  };
+
+  const addRows = (count: number) =>
+    setRows((current) => [...current, ...Array.from({ length: count }, () => blankRow(defaults))]);
+
+  const removeRow = (key: number) =>
+    setRows((current) => (current.length > 1 ? current.filter((row) => row.key !== key) : [blankRow(defaults)]));
+
+  const handleSave = async () => {
+    const submitted = rows.filter((row) => !isBlank(row));
+    const entries = submitted.map((row) => validateRow(row).entry);
+    if (entries.length === 0 || entries.some((entry) => !entry)) return;
+
+    try {
+      const result = await commitMutation.mutateAsync(entries as PaymentEntryRow[]);
+      toast.success(result.message);
+      setServerErrors({});
+      setRows(Array.from({ length: INITIAL_ROWS }, () => blankRow(defaults)));
+    } catch (err) {
+      if (err instanceof PaymentEntrySubmitError && err.rowErrors.length > 0) {
+        const byRow: Record<number, Record<string, string>> = {};
+        for (const rowError of err.rowErrors) {
+          const key = submitted[rowError.row]?.key;
+          if (key === undefined) continue;
+          byRow[key] = { ...byRow[key], [rowError.field || "contactId"]: rowError.message };
+        }
+        setServerErrors(byRow);
+      }
+      toast.error(err instanceof Error ? err.message : "Failed to save payments");
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <div>
+          <h2 className="text-2xl font-bold">Payment Entry</h2>
+          <p className="text-sm text-muted-foreground">
+            Key in a batch of gifts and save them together. Press Enter in the last amount for a new row.
+          </p>
+        </div>
+        <Button onClick={handleSave} disabled={filled.length === 0 || invalidCount > 0 || commitMutation.isPending}>
+          <Save className="mr-2 h-4 w-4" />
+          {commitMutation.isPending ? "Saving..." : `Save ${filled.length} Payments`}
+        </Button>
+      </div>
+
+      <div className="rounded-md border p-4 grid grid-cols-1 gap-4 md:grid-cols-3">
+        <div className="space-y-2">
+          <Label htmlFor="entry-date">Default date</Label>
+          <Input
+            id="entry-date"
+            type="date"
+            value={defaults.paymentDate}
+            onChange={(e) => setDefaults({ ...defaults, paymentDate: e.target.value })}
+          />
+        </div>
+        <div className="space-y-2">
+          <Label>Default currency</Label>
+          <Select value={defaults.currency} onValueChange={(currency) => setDefaults({ ...defaults, currency })}>
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {currencyCodes.map((code) => (
+                <SelectItem key={code} value={code}>
+                  {code}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="space-y-2">
+          <Label>Default method</Label>
+          <Select
+            value={defaults.paymentMethod}
+            onValueChange={(paymentMethod) => {
+              setDefaults({ ...defaults, paymentMethod });
+              // Rows not yet given a method pick up the new default
+              setRows((current) => current.map((row) => (row.paymentMethod ? row : { ...row, paymentMethod })));
+            }}
+          >
+            <SelectTrigger>
+              <SelectValue placeholder="Select a method" />
+            </SelectTrigger>
+            <SelectContent>
+              {methodOptions.map((method) => (
+                <SelectItem key={method.value} value={method.value}>
+                  {method.label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      </div>
+
+      <div className="rounded-md border">
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>#</TableHead>
+              <TableHead>Donor</TableHead>
+              <TableHead>Pledge</TableHead>
+              <TableHead>Date</TableHead>
+              <TableHead>Currency</TableHead>
+              <TableHead>Method</TableHead>
+              <TableHead>Check / Ref</TableHead>
+              <TableHead className="text-right">Amount</TableHead>
+              <TableHead />
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {rows.map((row, index) => (
+              <PaymentEntryGridRow
+                key={row.key}
+                row={row}
+                index={index}
+                errors={{ ...validation[index].errors, ...serverErrors[row.key] }}
+                methodOptions={methodOptions}
+                currencyCodes={currencyCodes}
+                onChange={updateRow}
+                onRemove={removeRow}
+                onLastAmountEnter={() => addRows(1)}
+                isLast={index === rows.length - 1}
+              />
+            ))}
+          </TableBody>
+        </Table>
+      </div>
+
+      <div className="flex items-center justify-between">
+        <Button variant="outline" onClick={() => addRows(10)}>
+          <Plus className="mr-2 h-4 w-4" />
+          Add 10 Rows
+        </Button>
+        <div className="text-sm text-right">
+          <p>
+            {filled.length} payments
+            {invalidCount > 0 && <span className="text-red-600"> · {invalidCount} with problems</span>}
+          </p>
+          {totals.map(([currency, total]) => (
+            <p key={currency} className="font-medium">
+              {total.toLocaleString("en-US", { minimumFractionDigits: 2, maximumFractionDigits: 2 })} {currency}
+            </p>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,334 @@
+"use client";
+
+import { useState } from "react";
+import { useQuery, useQueryClient } from "@tanstack/react-query";
+import {
+  EntryPledgeOption,
+  fetchEntryPledges,
+  paymentEntryKeys,
+} from "@/lib/query/payment-entry/usePaymentEntryQuery";
+import { formatAmount } from "@/lib/format";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { TableCell, TableRow } from "@/components/ui/table";
+import { Plus, Split, Trash2, X } from "lucide-react";
+
+export interface EntryAllocation {
+  pledgeId: string;
+  amount: string;
+}
+
+export interface EntryRow {
+  key: number;
+  contactId: number | null;
+  contactName: string;
+  paymentDate: string;
+  currency: string;
+  paymentMethod: string;
+  amount: string;
+  checkNumber: string;
+  allocations: EntryAllocation[];
+}
+
+interface ContactOption {
+  id: number;
+  fullName: string;
+}
+
+type RowPatch = Partial<EntryRow> | ((row: EntryRow) => Partial<EntryRow>);
+
+const cellClass = (error?: string) => (error ? "border-red-500 focus-visible:ring-red-500" : "");
+
+interface PaymentEntryGridRowProps {
+  row: EntryRow;
+  index: number;
+  errors: Record<string, string>;
+  methodOptions: { value: string; label: string }[];
+  currencyCodes: string[];
+  onChange: (key: number, patch: RowPatch) => void;
+  onRemove: (key: number) => void;
+  onLastAmountEnter: () => void;
+  isLast: boolean;
+}
+
+export function PaymentEntryGridRow({
+  row,
+  index,
+  errors,
+  methodOptions,
+  currencyCodes,
+  onChange,
+  onRemove,
+  onLastAmountEnter,
+  isLast,
+}: PaymentEntryGridRowProps) {
+  const queryClient = useQueryClient();
+  const [search, setSearch] = useState(row.contactName);
+  const [searching, setSearching] = useState(false);
+  const isSplit = row.allocations.length > 1;
+
+  const { data: contactResults } = useQuery({
+    queryKey: ["contacts", "search", search],
+    queryFn: async (): Promise<{ contacts: ContactOption[] }> => {
+      const response = await fetch(`/api/contacts/search?q=${encodeURIComponent(search)}`);
+      if (!response.ok) throw new Error("Failed to search contacts");
+      return response.json();
+    },
+    enabled: searching && search.length >= 2,
+  });
+
+  const { data: pledges = [] } = useQuery({
+    queryKey: paymentEntryKeys.pledges(row.contactId ?? 0),
+    queryFn: () => fetchEntryPledges(row.contactId!),
+    enabled: !!row.contactId,
+    staleTime: 1000 * 60,
+  });
+
+  // Pick the donor's oldest pledge with a balance and take its currency
+  const selectContact = async (contact: ContactOption) => {
+    setSearch(contact.fullName);
+    setSearching(false);
+    onChange(row.key, { contactId: contact.id, contactName: contact.fullName, allocations: [{ pledgeId: "", amount: "" }] });
+
+    const options = await queryClient.fetchQuery({
+      queryKey: paymentEntryKeys.pledges(contact.id),
+      queryFn: () => fetchEntryPledges(contact.id),
+      staleTime: 1000 * 60,
+    });
+    const pick: EntryPledgeOption | undefined =
+      options.find((pledge) => parseFloat(pledge.balance) > 0) ?? (options.length === 1 ? options[0] : undefined);
+    if (pick) {
+      onChange(row.key, (current) =>
+        current.contactId === contact.id
+          ? { currency: pick.currency, allocations: [{ pledgeId: String(pick.id), amount: "" }] }
+          : {}
+      );
+    }
+  };
+
+  const updateAllocation = (allocationIndex: number, patch: Partial<EntryAllocation>) =>
+    onChange(row.key, (current) => ({
+      allocations: current.allocations.map((allocation, i) =>
+        i === allocationIndex ? { ...allocation, ...patch } : allocation
+      ),
+    }));
+
+  const pledgeSelect = (allocationIndex: number) => (
+    <Select
+      value={row.allocations[allocationIndex]?.pledgeId ?? ""}
+      onValueChange={(pledgeId) => updateAllocation(allocationIndex, { pledgeId })}
+      disabled={!row.contactId}
+    >
+      <SelectTrigger
+        className={cellClass(errors[`allocations.${allocationIndex}.pledgeId`])}
+        title={errors[`allocations.${allocationIndex}.pledgeId`]}
+      >
+        <SelectValue placeholder={row.contactId ? (pledges.length ? "Pledge" : "No open pledges") : "—"} />
+      </SelectTrigger>
+      <SelectContent>
+        {pledges.map((pledge) => (
+          <SelectItem key={pledge.id} value={String(pledge.id)}>
+            #{pledge.id} {pledge.description ?? ""} ({formatAmount(pledge.balance, pledge.currency)} {pledge.currency} due)
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+
+  const hasErrors = Object.keys(errors).length > 0;
+
+  return (
+    <>
+      <TableRow className={hasErrors ? "bg-red-50/50" : undefined}>
+        <TableCell className="text-muted-foreground text-xs w-8">{index + 1}</TableCell>
+        <TableCell className="relative min-w-[200px]">
+          <Input
+            value={search}
+            placeholder="Donor"
+            className={cellClass(errors.contactId)}
+            title={errors.contactId}
+            onChange={(e) => {
+              setSearch(e.target.value);
+              setSearching(true);
+              if (row.contactId) {
+                onChange(row.key, { contactId: null, contactName: "", allocations: [{ pledgeId: "", amount: "" }] });
+              }
+            }}
+            onBlur={() => setTimeout(() => setSearching(false), 150)}
+          />
+          {searching && (contactResults?.contacts ?? []).length > 0 && (
+            <div className="absolute z-20 left-2 right-2 rounded-md border bg-background shadow max-h-48 overflow-y-auto">
+              {contactResults!.contacts.map((contact) => (
+                <button
+                  key={contact.id}
+                  type="button"
+                  className="block w-full text-left px-3 py-1.5 text-sm hover:bg-muted"
+                  onMouseDown={(e) => e.preventDefault()}
+                  onClick={() => selectContact(contact)}
+                >
+                  {contact.fullName}
+                </button>
+              ))}
+            </div>
+          )}
+        </TableCell>
+        <TableCell className="min-w-[220px]">
+          {isSplit ? (
+            <span className="text-sm text-muted-foreground">Split across {row.allocations.length} pledges</span>
+          ) : (
+            pledgeSelect(0)
+          )}
+          {errors.allocations && <p className="text-xs text-red-600 mt-1">{errors.allocations}</p>}
+        </TableCell>
+        <TableCell>
+          <Input
+            type="date"
+            value={row.paymentDate}
+            className={cellClass(errors.paymentDate)}
+            title={errors.paymentDate}
+            onChange={(e) => onChange(row.key, { paymentDate: e.target.value })}
+          />
+        </TableCell>
+        <TableCell className="w-24">
+          <Select value={row.currency} onValueChange={(currency) => onChange(row.key, { currency })}>
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {currencyCodes.map((code) => (
+                <SelectItem key={code} value={code}>
+                  {code}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </TableCell>
+        <TableCell className="min-w-[140px]">
+          <Select value={row.paymentMethod} onValueChange={(paymentMethod) => onChange(row.key, { paymentMethod })}>
+            <SelectTrigger className={cellClass(errors.paymentMethod)} title={errors.paymentMethod}>
+              <SelectValue placeholder="Method" />
+            </SelectTrigger>
+            <SelectContent>
+              {methodOptions.map((method) => (
+                <SelectItem key={method.value} value={method.value}>
+                  {method.label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </TableCell>
+        <TableCell className="w-28">
+          <Input
+            value={row.checkNumber}
+            placeholder="Check / ref"
+            onChange={(e) => onChange(row.key, { checkNumber: e.target.value })}
+          />
+        </TableCell>
+        <TableCell className="w-32">
+          <Input
+            type="number"
+            step="0.01"
+            min="0"
+            value={row.amount}
+            className={`text-right ${cellClass(errors.amount)}`}
+            title={errors.amount}
+            onChange={(e) => onChange(row.key, { amount: e.target.value })}
+            onKeyDown={(e) => {
+              if (e.key === "Enter" && isLast) {
+                e.preventDefault();
+                onLastAmountEnter();
+              }
+            }}
+          />
+        </TableCell>
+        <TableCell className="w-20">
+          <div className="flex">
+            <Button
+              type="button"
+              size="icon"
+              variant="ghost"
+              title="Split across pledges"
+              disabled={!row.contactId || pledges.length < 2}
+              onClick={() =>
+                onChange(row.key, (current) => ({
+                  allocations: [
+                    ...current.allocations.map((allocation, i) =>
+                      i === 0 && current.allocations.length === 1 ? { ...allocation, amount: current.amount } : allocation
+                    ),
+                    { pledgeId: "", amount: "" },
+                  ],
+                }))
+              }
+            >
+              <Split className="h-4 w-4" />
+            </Button>
+            <Button type="button" size="icon" variant="ghost" title="Remove row" onClick={() => onRemove(row.key)}>
+              <Trash2 className="h-4 w-4" />
+            </Button>
+          </div>
+        </TableCell>
+      </TableRow>
+
+      {isSplit &&
+        row.allocations.map((allocation, allocationIndex) => (
+          <TableRow key={allocationIndex} className="bg-muted/30">
+            <TableCell />
+            <TableCell className="text-right text-xs text-muted-foreground">Allocation {allocationIndex + 1}</TableCell>
+            <TableCell>{pledgeSelect(allocationIndex)}</TableCell>
+            <TableCell colSpan={4} />
+            <TableCell>
+              <Input
+                type="number"
+                step="0.01"
+                min="0"
+                value={allocation.amount}
+                className={`text-right ${cellClass(errors[`allocations.${allocationIndex}.amount`])}`}
+                title={errors[`allocations.${allocationIndex}.amount`]}
+                onChange={(e) => updateAllocation(allocationIndex, { amount: e.target.value })}
+              />
+            </TableCell>
+            <TableCell>
+              <div className="flex">
+                {allocationIndex === row.allocations.length - 1 && (
+                  <Button
+                    type="button"
+                    size="icon"
+                    variant="ghost"
+                    title="Add allocation"
+                    disabled={row.allocations.length >= pledges.length}
+                    onClick={() =>
+                      onChange(row.key, (current) => ({
+                        allocations: [...current.allocations, { pledgeId: "", amount: "" }],
+                      }))
+                    }
+                  >
+                    <Plus className="h-4 w-4" />
+                  </Button>
+                )}
+                <Button
+                  type="button"
+                  size="icon"
+                  variant="ghost"
+                  title="Remove allocation"
+                  onClick={() =>
+                    onChange(row.key, (current) => ({
+                      allocations: current.allocations.filter((_, i) => i !== allocationIndex),
+                    }))
+                  }
+                >
+                  <X className="h-4 w-4" />
+                </Button>
+              </div>
+            </TableCell>
+          </TableRow>
+        ))}
+    </>
+  );
+}
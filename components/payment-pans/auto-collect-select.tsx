@@ -0,0 +1,60 @@
+"use client";
+
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  useSavedPaymentMethodsQuery,
+  useSetAutoCollectMutation,
+} from "@/lib/query/saved-payment-methods/useSavedPaymentMethodsQuery";
+import { describeMethod } from "@/components/payment-pans/saved-payment-methods";
+import { toast } from "sonner";
+
+interface AutoCollectSelectProps {
+  paymentPlanId: number;
+  contactId: number;
+  savedPaymentMethodId: number | null;
+}
+
+// Picks the saved method a plan's installments are charged to, or none
+export default function AutoCollectSelect({ paymentPlanId, contactId, savedPaymentMethodId }: AutoCollectSelectProps) {
+  const { data } = useSavedPaymentMethodsQuery(contactId);
+  const mutation = useSetAutoCollectMutation();
+  const methods = data?.methods ?? [];
+
+  const handleChange = async (value: string) => {
+    try {
+      const result = await mutation.mutateAsync({
+        paymentPlanId,
+        savedPaymentMethodId: value === "none" ? null : parseInt(value, 10),
+      });
+      toast.success(result.message);
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : "Failed to update auto-collection");
+    }
+  };
+
+  return (
+    <Select
+      value={savedPaymentMethodId ? String(savedPaymentMethodId) : "none"}
+      onValueChange={handleChange}
+      disabled={mutation.isPending}
+    >
+      <SelectTrigger className="h-8 w-48">
+        <SelectValue />
+      </SelectTrigger>
+      <SelectContent>
+        <SelectItem value="none">Paid by hand</SelectItem>
+        {methods.map((method) => (
+          <SelectItem key={method.id} value={String(method.id)}>
+            {describeMethod(method)}
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+}
@@ -39,7 +39,9 @@ import {
 import { Badge } from "@/components/ui/badge";
 import { Search, ChevronDown, ChevronRight, Edit, Trash2, Users } from "lucide-react";
 import { usePaymentPlansQuery, useDeletePaymentPlanMutation } from "@/lib/query/payment-plans/usePaymentPlanQuery";
+import { currencySymbol, formatAmount } from "@/lib/format";
 import PaymentPlanDialog from "../forms/payment-plan-dialog";
+import AutoCollectSelect from "./auto-collect-select";
 
 const PlanStatusEnum = z.enum([
   "active",
@@ -176,39 +178,10 @@ export default function PaymentPlansTable({
     }
   };
 
-  const formatCurrency = (amount: string | null | undefined, currency: string) => {
-    if (!amount || amount === "0" || amount === "") {
-      return { symbol: getCurrencySymbol(currency), amount: '0.00' };
-    }
-    const value = Number(amount);
-    if (isNaN(value)) {
-      return { symbol: getCurrencySymbol(currency), amount: '0.00' };
-    }
-
-    const formatted = value.toLocaleString('en-US', {
-      minimumFractionDigits: 2,
-      maximumFractionDigits: 2,
-    });
-
-    return {
-      symbol: getCurrencySymbol(currency),
-      amount: formatted,
-    };
-  };
-
-  const getCurrencySymbol = (currency: string) => {
-    const symbols: { [key: string]: string } = {
-      'USD': '$',
-      'GBP': '£',
-      'EUR': '€',
-      'ILS': '₪',
-      'JPY': '¥',
-      'AUD': 'A$',
-      'CAD': 'C$',
-      'ZAR': 'R',
-    };
-    return symbols[currency] || currency;
-  };
+  const formatCurrency = (amount: string | null | undefined, currency: string) => ({
+    symbol: currencySymbol(currency),
+    amount: formatAmount(amount, currency),
+  });
 
   const convertToUSD = (amount: string | null | undefined, exchangeRate: string | null | undefined) => {
     if (!exchangeRate || exchangeRate === '0' || !amount || amount === '0') return null;
@@ -752,6 +725,16 @@ export default function PaymentPlansTable({
                                       <span className="text-gray-600">Auto Renew:</span>
                                       <span className="font-medium">{plan.autoRenew ? "Yes" : "No"}</span>
                                     </div>
+                                    {contactId && (
+                                      <div className="flex items-center justify-between">
+                                        <span className="text-gray-600">Auto-collect:</span>
+                                        <AutoCollectSelect
+                                          paymentPlanId={plan.id}
+                                          contactId={contactId}
+                                          savedPaymentMethodId={plan.savedPaymentMethodId ?? null}
+                                        />
+                                      </div>
+                                    )}
                                     <div className="flex justify-between">
                                       <span className="text-gray-600">Created:</span>
                                       <span className="font-medium">{formatDate(plan.createdAt)}</span>
@@ -0,0 +1,337 @@
+"use client";
+
+import { useState } from "react";
+import {
+  SavedPaymentMethod,
+  useCreateSavedPaymentMethodMutation,
+  useRemoveSavedPaymentMethodMutation,
+  useSavedPaymentMethodsQuery,
+} from "@/lib/query/saved-payment-methods/useSavedPaymentMethodsQuery";
+import type { SavedPaymentMethodInput } from "@/lib/form-schemas/saved-payment-method";
+import { NACHA_PROCESSOR } from "@/lib/ach/nacha";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { CreditCard, Landmark, Plus, Trash2 } from "lucide-react";
+import { toast } from "sonner";
+
+interface MethodForm {
+  type: "card" | "ach";
+  number: string;
+  expiry: string;
+  cvc: string;
+  routingNumber: string;
+  accountNumber: string;
+  accountType: "checking" | "savings";
+  collection: "processor" | "nacha_file";
+  holderName: string;
+}
+
+const EMPTY_FORM: MethodForm = {
+  type: "card",
+  number: "",
+  expiry: "",
+  cvc: "",
+  routingNumber: "",
+  accountNumber: "",
+  accountType: "checking",
+  collection: "processor",
+  holderName: "",
+};
+
+// "MM/YY" from the expiry field
+function parseExpiry(expiry: string): { expiryMonth: number; expiryYear: number } | null {
+  const match = /^(\d{1,2})\s*\/\s*(\d{2}|\d{4})$/.exec(expiry.trim());
+  if (!match) return null;
+  const year = parseInt(match[2], 10);
+  return { expiryMonth: parseInt(match[1], 10), expiryYear: year < 100 ? 2000 + year : year };
+}
+
+function toInput(form: MethodForm): SavedPaymentMethodInput | null {
+  if (form.type === "ach") {
+    return {
+      type: "ach",
+      routingNumber: form.routingNumber.trim(),
+      accountNumber: form.accountNumber.trim(),
+      accountType: form.accountType,
+      holderName: form.holderName.trim(),
+      collection: form.collection,
+    };
+  }
+  const expiry = parseExpiry(form.expiry);
+  if (!expiry) return null;
+  return {
+    type: "card",
+    number: form.number.replace(/\s/g, ""),
+    cvc: form.cvc.trim(),
+    holderName: form.holderName.trim() || undefined,
+    ...expiry,
+  };
+}
+
+export function describeMethod(method: SavedPaymentMethod): string {
+  return `${method.brand ?? (method.type === "ach" ? "Bank account" : "Card")} •••• ${method.last4}`;
+}
+
+export default function SavedPaymentMethods({ contactId }: { contactId: number }) {
+  const [adding, setAdding] = useState(false);
+  const [form, setForm] = useState<MethodForm>(EMPTY_FORM);
+  const [removing, setRemoving] = useState<SavedPaymentMethod | null>(null);
+
+  const { data, isLoading } = useSavedPaymentMethodsQuery(contactId);
+  const createMutation = useCreateSavedPaymentMethodMutation(contactId);
+  const removeMutation = useRemoveSavedPaymentMethodMutation();
+
+  const methods = data?.methods ?? [];
+  const update = (changes: Partial<MethodForm>) => setForm({ ...form, ...changes });
+
+  const handleSave = async () => {
+    const input = toInput(form);
+    if (!input) {
+      toast.error("Enter the expiry as MM/YY");
+      return;
+    }
+    try {
+      const result = await createMutation.mutateAsync(input);
+      toast.success(result.message);
+      setAdding(false);
+      setForm(EMPTY_FORM);
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : "Failed to save payment method");
+    }
+  };
+
+  const handleRemove = async () => {
+    if (!removing) return;
+    try {
+      const result = await removeMutation.mutateAsync(removing.id);
+      toast.success(result.message);
+      setRemoving(null);
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : "Failed to remove payment method");
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-center justify-between space-y-0">
+        <CardTitle className="text-lg">Saved Payment Methods</CardTitle>
+        <Button size="sm" variant="outline" onClick={() => setAdding(true)}>
+          <Plus className="mr-2 h-4 w-4" />
+          Add Method
+        </Button>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <p className="text-sm text-muted-foreground">Loading payment methods...</p>
+        ) : methods.length === 0 ? (
+          <p className="text-sm text-muted-foreground">
+            No saved cards or bank accounts. Save one to collect plan installments automatically.
+          </p>
+        ) : (
+          <ul className="divide-y">
+            {methods.map((method) => (
+              <li key={method.id} className="flex items-center justify-between py-2">
+                <div className="flex items-center gap-3">
+                  {method.type === "ach" ? (
+                    <Landmark className="h-4 w-4 text-muted-foreground" />
+                  ) : (
+                    <CreditCard className="h-4 w-4 text-muted-foreground" />
+                  )}
+                  <span className="font-medium">{describeMethod(method)}</span>
+                  {method.processor === NACHA_PROCESSOR && <Badge variant="outline">NACHA file</Badge>}
+                  {method.expiryMonth && method.expiryYear && (
+                    <span className="text-sm text-muted-foreground">
+                      expires {String(method.expiryMonth).padStart(2, "0")}/{String(method.expiryYear).slice(-2)}
+                    </span>
+                  )}
+                  {method.holderName && <span className="text-sm text-muted-foreground">{method.holderName}</span>}
+                </div>
+                <Button size="sm" variant="ghost" onClick={() => setRemoving(method)}>
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </li>
+            ))}
+          </ul>
+        )}
+      </CardContent>
+
+      <Dialog open={adding} onOpenChange={setAdding}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Add Payment Method</DialogTitle>
+            <DialogDescription>
+              {form.type === "ach" && form.collection === "nacha_file"
+                ? "The account is kept in full so it can be debited through the NACHA file."
+                : "Details go to the payment processor; only its token and the last four digits are kept."}
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label>Type</Label>
+              <Select value={form.type} onValueChange={(type) => update({ type: type as MethodForm["type"] })}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="card">Credit or debit card</SelectItem>
+                  <SelectItem value="ach">Bank account (ACH)</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+
+            {form.type === "card" ? (
+              <>
+                <div className="space-y-2">
+                  <Label htmlFor="method-number">Card number</Label>
+                  <Input
+                    id="method-number"
+                    inputMode="numeric"
+                    autoComplete="off"
+                    value={form.number}
+                    onChange={(e) => update({ number: e.target.value })}
+                  />
+                </div>
+                <div className="grid grid-cols-2 gap-4">
+                  <div className="space-y-2">
+                    <Label htmlFor="method-expiry">Expiry</Label>
+                    <Input
+                      id="method-expiry"
+                      placeholder="MM/YY"
+                      value={form.expiry}
+                      onChange={(e) => update({ expiry: e.target.value })}
+                    />
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="method-cvc">Security code</Label>
+                    <Input
+                      id="method-cvc"
+                      inputMode="numeric"
+                      autoComplete="off"
+                      value={form.cvc}
+                      onChange={(e) => update({ cvc: e.target.value })}
+                    />
+                  </div>
+                </div>
+              </>
+            ) : (
+              <>
+                <div className="grid grid-cols-2 gap-4">
+                  <div className="space-y-2">
+                    <Label htmlFor="method-routing">Routing number</Label>
+                    <Input
+                      id="method-routing"
+                      inputMode="numeric"
+                      value={form.routingNumber}
+                      onChange={(e) => update({ routingNumber: e.target.value })}
+                    />
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="method-account">Account number</Label>
+                    <Input
+                      id="method-account"
+                      inputMode="numeric"
+                      autoComplete="off"
+                      value={form.accountNumber}
+                      onChange={(e) => update({ accountNumber: e.target.value })}
+                    />
+                  </div>
+                </div>
+                <div className="space-y-2">
+                  <Label>Account type</Label>
+                  <Select
+                    value={form.accountType}
+                    onValueChange={(accountType) => update({ accountType: accountType as MethodForm["accountType"] })}
+                  >
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="checking">Checking</SelectItem>
+                      <SelectItem value="savings">Savings</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="space-y-2">
+                  <Label>Collected by</Label>
+                  <Select
+                    value={form.collection}
+                    onValueChange={(collection) => update({ collection: collection as MethodForm["collection"] })}
+                  >
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="processor">Payment processor</SelectItem>
+                      <SelectItem value="nacha_file">Monthly NACHA file</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </div>
+              </>
+            )}
+
+            <div className="space-y-2">
+              <Label htmlFor="method-holder">{form.type === "ach" ? "Account holder" : "Name on card"}</Label>
+              <Input
+                id="method-holder"
+                value={form.holderName}
+                onChange={(e) => update({ holderName: e.target.value })}
+              />
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setAdding(false)}>
+              Cancel
+            </Button>
+            <Button onClick={handleSave} disabled={createMutation.isPending}>
+              {createMutation.isPending ? "Saving..." : "Save Method"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <AlertDialog open={!!removing} onOpenChange={(open) => !open && setRemoving(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Remove payment method?</AlertDialogTitle>
+            <AlertDialogDescription>
+              {removing && describeMethod(removing)} will no longer be charged. Plans collecting from it go back
+              to being paid by hand.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction onClick={handleRemove}>Remove</AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </Card>
+  );
+}
@@ -61,6 +61,7 @@ import PaymentFormDialog from "../forms/payment-dialog";
 import EditPaymentDialog from "@/app/contacts/[contactId]/payments/__components/edit-payment";
 import { toast } from "sonner";
 import { formatDate } from "@/lib/utils";
+import HebrewDate from "@/components/hebrew-date";
 import { usePledgeByIdQuery } from "@/lib/query/pledge/usePledgeQuery";
 import { Badge } from "@/components/ui/badge";
 
@@ -788,12 +789,14 @@ export default function PaymentsTable({ contactId }: PaymentsTableProps) {
                         </TableCell>
                         <TableCell className="font-medium">
                           {formatDateWithFallback(payment.paymentDate)}
+                          <HebrewDate date={payment.paymentDate} />
                         </TableCell>
                         <TableCell className="font-medium">
                           {formatDateWithFallback(
                             payment.receivedDate,
                             "Not Received"
                           )}
+                          <HebrewDate date={payment.receivedDate} />
                         </TableCell>
                         <TableCell>
                           <span className="font-medium">
@@ -0,0 +1,424 @@
+"use client";
+
+import { useState } from "react";
+import Link from "next/link";
+import {
+  PlanRenewalSummary,
+  RenewalFrequency,
+  RenewalStatus,
+  useApproveRenewalMutation,
+  useDeclineRenewalMutation,
+  usePlanRenewalsQuery,
+  useQueueRenewalsMutation,
+} from "@/lib/query/plan-renewals/usePlanRenewalsQuery";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { Check, RefreshCw, X } from "lucide-react";
+import { toast } from "sonner";
+
+const PAGE_SIZE = 25;
+
+const STATUS_LABELS: Record<RenewalStatus, string> = {
+  pending: "Awaiting approval",
+  approved: "Approved",
+  declined: "Declined",
+};
+
+const FREQUENCY_LABELS: Record<RenewalFrequency, string> = {
+  weekly: "Weekly",
+  monthly: "Monthly",
+  quarterly: "Quarterly",
+  biannual: "Biannual",
+  annual: "Annual",
+};
+
+interface ApprovalForm {
+  startDate: string;
+  frequency: RenewalFrequency;
+  installmentAmount: string;
+  numberOfInstallments: string;
+}
+
+const formatMoney = (amount: number, currency: string) =>
+  `${amount.toLocaleString("en-US", { minimumFractionDigits: 2, maximumFractionDigits: 2 })} ${currency}`;
+
+export function PlanRenewalsQueue() {
+  const [status, setStatus] = useState<RenewalStatus>("pending");
+  const [page, setPage] = useState(1);
+  const [approving, setApproving] = useState<PlanRenewalSummary | null>(null);
+  const [form, setForm] = useState<ApprovalForm | null>(null);
+  const [declining, setDeclining] = useState<PlanRenewalSummary | null>(null);
+  const [reason, setReason] = useState("");
+
+  const { data, isLoading, error, refetch } = usePlanRenewalsQuery({ status, page, limit: PAGE_SIZE });
+  const queueMutation = useQueueRenewalsMutation();
+  const approveMutation = useApproveRenewalMutation();
+  const declineMutation = useDeclineRenewalMutation();
+
+  const renewals = data?.renewals ?? [];
+  const pagination = data?.pagination;
+
+  const openApproval = (renewal: PlanRenewalSummary) => {
+    setApproving(renewal);
+    setForm({
+      startDate: renewal.startDate,
+      frequency: renewal.frequency,
+      installmentAmount: renewal.installmentAmount,
+      numberOfInstallments: String(renewal.numberOfInstallments),
+    });
+  };
+
+  const closeApproval = () => {
+    setApproving(null);
+    setForm(null);
+  };
+
+  const closeDecline = () => {
+    setDeclining(null);
+    setReason("");
+  };
+
+  const installmentAmount = form ? parseFloat(form.installmentAmount) : NaN;
+  const numberOfInstallments = form ? parseInt(form.numberOfInstallments, 10) : NaN;
+  const formValid =
+    !!form?.startDate && installmentAmount > 0 && Number.isInteger(numberOfInstallments) && numberOfInstallments > 0;
+
+  const handleQueue = async () => {
+    try {
+      const result = await queueMutation.mutateAsync();
+      toast.success(result.message);
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : "Failed to queue renewals");
+    }
+  };
+
+  const handleApprove = async () => {
+    if (!approving || !form || !formValid) return;
+    try {
+      const result = await approveMutation.mutateAsync({
+        renewalId: approving.id,
+        startDate: form.startDate,
+        frequency: form.frequency,
+        installmentAmount,
+        numberOfInstallments,
+      });
+      toast.success(result.message);
+      closeApproval();
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : "Failed to approve renewal");
+    }
+  };
+
+  const handleDecline = async () => {
+    if (!declining || !reason.trim()) return;
+    try {
+      const result = await declineMutation.mutateAsync({ renewalId: declining.id, reason });
+      toast.success(result.message);
+      closeDecline();
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : "Failed to decline renewal");
+    }
+  };
+
+  if (error) {
+    return (
+      <div className="text-center py-8">
+        <p className="text-red-600 mb-4">Failed to load plan renewals</p>
+        <Button onClick={() => refetch()} variant="outline">
+          Retry
+        </Button>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between">
+        <div>
+          <h2 className="text-2xl font-bold">Plan Renewals</h2>
+          <p className="text-sm text-muted-foreground">
+            Next cycle proposed for each completed auto-renew payment plan
+          </p>
+        </div>
+        <Button variant="outline" onClick={handleQueue} disabled={queueMutation.isPending}>
+          <RefreshCw className="mr-2 h-4 w-4" />
+          {queueMutation.isPending ? "Checking..." : "Check for Renewals"}
+        </Button>
+      </div>
+
+      <div className="flex items-center space-x-4">
+        <Select
+          value={status}
+          onValueChange={(value) => {
+            setStatus(value as RenewalStatus);
+            setPage(1);
+          }}
+        >
+          <SelectTrigger className="w-48">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {Object.entries(STATUS_LABELS).map(([value, label]) => (
+              <SelectItem key={value} value={value}>
+                {label}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        {pagination && pagination.totalCount > 0 && (
+          <span className="text-sm text-muted-foreground">{pagination.totalCount} renewals</span>
+        )}
+      </div>
+
+      <div className="rounded-md border">
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Donor</TableHead>
+              <TableHead>Previous Pledge</TableHead>
+              <TableHead>Starts</TableHead>
+              <TableHead>Schedule</TableHead>
+              <TableHead className="text-right">Total</TableHead>
+              <TableHead className="text-right">{status === "pending" ? "Actions" : "Outcome"}</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {isLoading ? (
+              <TableRow>
+                <TableCell colSpan={6} className="text-center py-8">
+                  Loading renewals...
+                </TableCell>
+              </TableRow>
+            ) : renewals.length === 0 ? (
+              <TableRow>
+                <TableCell colSpan={6} className="text-center py-8 text-muted-foreground">
+                  No {STATUS_LABELS[status].toLowerCase()} renewals
+                </TableCell>
+              </TableRow>
+            ) : (
+              renewals.map((renewal) => {
+                const amount = parseFloat(renewal.installmentAmount);
+                return (
+                  <TableRow key={renewal.id}>
+                    <TableCell className="font-medium">
+                      <Link href={`/contacts/${renewal.contactId}`} className="hover:underline">
+                        {renewal.contactName}
+                      </Link>
+                    </TableCell>
+                    <TableCell>
+                      <Link
+                        href={`/contacts/${renewal.contactId}/payment-plans?pledgeId=${renewal.previousPledgeId}`}
+                        className="hover:underline"
+                      >
+                        #{renewal.previousPledgeId}
+                        {renewal.pledgeDescription ? ` · ${renewal.pledgeDescription}` : ""}
+                      </Link>
+                    </TableCell>
+                    <TableCell>{renewal.startDate}</TableCell>
+                    <TableCell>
+                      {renewal.numberOfInstallments} × {formatMoney(amount, renewal.currency)}{" "}
+                      <span className="text-muted-foreground">{FREQUENCY_LABELS[renewal.frequency].toLowerCase()}</span>
+                    </TableCell>
+                    <TableCell className="text-right">
+                      {formatMoney(amount * renewal.numberOfInstallments, renewal.currency)}
+                    </TableCell>
+                    <TableCell className="text-right">
+                      {renewal.status === "pending" ? (
+                        <div className="flex justify-end gap-2">
+                          <Button size="sm" onClick={() => openApproval(renewal)}>
+                            <Check className="mr-2 h-4 w-4" />
+                            Review
+                          </Button>
+                          <Button size="sm" variant="outline" onClick={() => setDeclining(renewal)}>
+                            <X className="mr-2 h-4 w-4" />
+                            Decline
+                          </Button>
+                        </div>
+                      ) : renewal.status === "approved" ? (
+                        <Link
+                          href={`/contacts/${renewal.contactId}/payment-plans?pledgeId=${renewal.newPledgeId}`}
+                          className="hover:underline"
+                        >
+                          <Badge>Pledge #{renewal.newPledgeId}</Badge>
+                        </Link>
+                      ) : (
+                        <span className="text-sm text-muted-foreground">{renewal.declineReason}</span>
+                      )}
+                    </TableCell>
+                  </TableRow>
+                );
+              })
+            )}
+          </TableBody>
+        </Table>
+      </div>
+
+      {pagination && pagination.totalPages > 1 && (
+        <div className="flex items-center justify-between">
+          <div className="text-sm text-muted-foreground">
+            Page {pagination.page} of {pagination.totalPages}
+          </div>
+          <div className="flex space-x-2">
+            <Button variant="outline" size="sm" onClick={() => setPage(page - 1)} disabled={page <= 1}>
+              Previous
+            </Button>
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => setPage(page + 1)}
+              disabled={page >= pagination.totalPages}
+            >
+              Next
+            </Button>
+          </div>
+        </div>
+      )}
+
+      <Dialog open={!!approving} onOpenChange={(open) => !open && closeApproval()}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Renew plan for {approving?.contactName}</DialogTitle>
+            <DialogDescription>
+              Approving creates a new pledge linked to pledge #{approving?.previousPledgeId}, an auto-renewing
+              payment plan and its scheduled payments. Adjust the terms first if they changed.
+            </DialogDescription>
+          </DialogHeader>
+          {form && (
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="renewal-start">Start date</Label>
+                <Input
+                  id="renewal-start"
+                  type="date"
+                  value={form.startDate}
+                  onChange={(e) => setForm({ ...form, startDate: e.target.value })}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label>Frequency</Label>
+                <Select
+                  value={form.frequency}
+                  onValueChange={(value) => setForm({ ...form, frequency: value as RenewalFrequency })}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {Object.entries(FREQUENCY_LABELS).map(([value, label]) => (
+                      <SelectItem key={value} value={value}>
+                        {label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="renewal-amount">Installment amount ({approving?.currency})</Label>
+                <Input
+                  id="renewal-amount"
+                  type="number"
+                  min="0"
+                  step="0.01"
+                  value={form.installmentAmount}
+                  onChange={(e) => setForm({ ...form, installmentAmount: e.target.value })}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="renewal-count">Installments</Label>
+                <Input
+                  id="renewal-count"
+                  type="number"
+                  min="1"
+                  step="1"
+                  value={form.numberOfInstallments}
+                  onChange={(e) => setForm({ ...form, numberOfInstallments: e.target.value })}
+                />
+              </div>
+              {formValid && approving && (
+                <p className="col-span-2 text-sm text-muted-foreground">
+                  New pledge total: {formatMoney(installmentAmount * numberOfInstallments, approving.currency)}
+                </p>
+              )}
+            </div>
+          )}
+          <DialogFooter>
+            <Button variant="outline" onClick={closeApproval} disabled={approveMutation.isPending}>
+              Cancel
+            </Button>
+            <Button onClick={handleApprove} disabled={!formValid || approveMutation.isPending}>
+              {approveMutation.isPending ? "Creating..." : "Approve Renewal"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <AlertDialog open={!!declining} onOpenChange={(open) => !open && closeDecline()}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Decline renewal for {declining?.contactName}?</AlertDialogTitle>
+            <AlertDialogDescription>
+              No pledge is created and this plan will not be proposed again.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <div className="space-y-2">
+            <Label htmlFor="decline-reason">Reason</Label>
+            <Textarea
+              id="decline-reason"
+              value={reason}
+              onChange={(e) => setReason(e.target.value)}
+              placeholder="e.g. Sponsor is not continuing next year"
+            />
+          </div>
+          <AlertDialogFooter>
+            <AlertDialogCancel disabled={declineMutation.isPending}>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={(e) => {
+                e.preventDefault();
+                handleDecline();
+              }}
+              disabled={declineMutation.isPending || !reason.trim()}
+            >
+              {declineMutation.isPending ? "Saving..." : "Decline"}
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+}
@@ -57,7 +57,12 @@ import {
 } from "@/components/ui/alert-dialog";
 import { useDeletePledge, PledgeQueryParams } from "@/lib/query/pledge/usePledgeQuery";
 import { formatDate } from "@/lib/utils";
+import { formatHebrewDate } from "@/lib/hebrew-date";
+import HebrewDate from "@/components/hebrew-date";
 import { useSession } from "next-auth/react";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import RecordHistory from "@/components/history/record-history";
+import PledgeAdjustments from "@/components/pledges/pledge-adjustments";
 
 const QueryParamsSchema = z.object({
   contactId: z.number().positive(),
@@ -79,11 +84,17 @@ interface PledgeFormData {
   categoryId?: number;
   description: string;
   pledgeDate: string;
+  dueDate?: string;
+  dedicationType?: "in_honor_of" | "in_memory_of" | null;
+  dedicationName?: string | null;
+  memorialId?: number | null;
   currency: string;
   originalAmount: number;
   originalAmountUsd: number;
   exchangeRate: number;
   campaignCode?: string;
+  advantageAmount?: number | null;
+  advantageDescription?: string | null;
   notes?: string;
 }
 
@@ -93,6 +104,10 @@ interface PledgeApiResponse {
   categoryId?: number;
   description?: string | null;
   pledgeDate: string;
+  dueDate?: string | null;
+  dedicationType?: "in_honor_of" | "in_memory_of" | null;
+  dedicationName?: string | null;
+  memorialId?: number | null;
   currency: string;
   originalAmount: string;
   originalAmountUsd?: string | null;
@@ -104,6 +119,9 @@ interface PledgeApiResponse {
   totalPaid: string;
   balanceUsd?: string | null;
   balance: string;
+  // Approved write-offs and reductions
+  totalAdjusted?: string;
+  totalAdjustedUsd?: string | null;
   scheduledAmount?: string | null;
   unscheduledAmount?: string | null;
   paymentPlan?: {
@@ -300,11 +318,17 @@ export default function PledgesTable() {
         categoryId: fullPledgeData.category?.id,
         description: fullPledgeData.pledge.description || "",
         pledgeDate: fullPledgeData.pledge.pledgeDate,
+        dueDate: fullPledgeData.pledge.dueDate || undefined,
+        dedicationType: fullPledgeData.pledge.dedicationType,
+        dedicationName: fullPledgeData.pledge.dedicationName,
+        memorialId: fullPledgeData.pledge.memorialId,
         currency: fullPledgeData.pledge.currency,
         originalAmount: fullPledgeData.pledge.originalAmount,
         originalAmountUsd: fullPledgeData.pledge.originalAmountUsd,
         exchangeRate: fullPledgeData.pledge.exchangeRate,
         campaignCode: fullPledgeData.pledge.campaignCode || undefined,
+        advantageAmount: fullPledgeData.pledge.advantageAmount,
+        advantageDescription: fullPledgeData.pledge.advantageDescription,
         notes: fullPledgeData.pledge.notes || undefined,
       };
       
@@ -380,6 +404,10 @@ export default function PledgesTable() {
       categoryId: pledge.categoryId,
       description: pledge.description || "",
       pledgeDate: pledge.pledgeDate,
+      dueDate: pledge.dueDate || undefined,
+      dedicationType: pledge.dedicationType,
+      dedicationName: pledge.dedicationName,
+      memorialId: pledge.memorialId,
       currency: pledge.currency,
       originalAmount: Number.parseFloat(pledge.originalAmount),
       originalAmountUsd: Number.parseFloat(pledge.originalAmountUsd || "0"),
@@ -393,13 +421,15 @@ export default function PledgesTable() {
   const calculateBalance = (pledge: PledgeApiResponse) => {
     const pledged = Number.parseFloat(pledge.originalAmount) || 0;
     const paid = Number.parseFloat(pledge.totalPaid) || 0;
-    return pledged - paid;
+    const adjusted = Number.parseFloat(pledge.totalAdjusted || "0") || 0;
+    return pledged - paid - adjusted;
   };
 
   const calculateBalanceUsd = (pledge: PledgeApiResponse) => {
     const pledgedUsd = Number.parseFloat(pledge.originalAmountUsd || "0") || 0;
     const paidUsd = Number.parseFloat(pledge.totalPaidUsd || "0") || 0;
-    return pledgedUsd - paidUsd;
+    const adjustedUsd = Number.parseFloat(pledge.totalAdjustedUsd || "0") || 0;
+    return pledgedUsd - paidUsd - adjustedUsd;
   };
 
   if (error) {
@@ -553,10 +583,22 @@ export default function PledgesTable() {
                           </TableCell>
                           <TableCell className="font-medium">
                             {formatDate(pledge.pledgeDate)}
+                            <HebrewDate date={pledge.pledgeDate} />
+                            {pledge.dueDate && (
+                              <div className="text-xs font-normal text-muted-foreground">
+                                Due {formatDate(pledge.dueDate)} ({formatHebrewDate(pledge.dueDate)})
+                              </div>
+                            )}
                           </TableCell>
                           <TableCell>
                             {typeof pledge.categoryName === 'string' ? pledge.categoryName.split(" ")[0] : 'Unknown'} {">"}{" "}
                             {pledge.description || "-"}
+                            {pledge.dedicationType && pledge.dedicationName && (
+                              <div className="text-xs text-muted-foreground">
+                                {pledge.dedicationType === "in_memory_of" ? "In memory of" : "In honor of"}{" "}
+                                {pledge.dedicationName}
+                              </div>
+                            )}
                           </TableCell>
                           <TableCell className="text-center">
                             <div className="flex justify-end items-center gap-1">
@@ -660,110 +702,145 @@ export default function PledgesTable() {
                         {expandedRows.has(pledge.id) && (
                           <TableRow>
                             <TableCell colSpan={13} className="bg-gray-50 p-6">
-                              <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
-                                {/* Column 1 */}
-                                <div className="space-y-3">
-                                  <h4 className="font-semibold text-gray-900">
-                                    Pledges/Donations Details
-                                  </h4>
-                                  <div className="space-y-2 text-sm">
-                                    <div className="flex justify-between">
-                                      <span className="text-gray-600">
-                                        Pledges/Donations Amount:
-                                      </span>
-                                      <span className="font-medium">
-                                        {formatCurrency(pledge.originalAmount, pledge.currency).symbol}
-                                        {formatCurrency(pledge.originalAmount, pledge.currency).amount}
-                                      </span>
-                                    </div>
-                                    <div className="flex justify-between">
-                                      <span className="text-gray-600">
-                                        Paid:
-                                      </span>
-                                      <span className="font-medium">
-                                        {formatCurrency(pledge.totalPaid, pledge.currency).symbol}
-                                        {formatCurrency(pledge.totalPaid, pledge.currency).amount}
-                                      </span>
-                                    </div>
-                                    <div className="flex justify-between">
-                                      <span className="text-gray-600">
-                                        Balance:
-                                      </span>
-                                      <span className="font-medium">
-                                        {formatCurrency(calculateBalance(pledge).toString(), pledge.currency).symbol}
-                                        {formatCurrency(calculateBalance(pledge).toString(), pledge.currency).amount}
-                                      </span>
-                                    </div>
-                                    <div>
-                                      <span className="text-gray-600">Notes:</span>
-                                      <p className="mt-1 text-gray-900">
-                                        {pledge.notes || "No notes available"}
-                                      </p>
+                              <Tabs defaultValue="details">
+                                <TabsList>
+                                  <TabsTrigger value="details">Details</TabsTrigger>
+                                  <TabsTrigger value="history">History</TabsTrigger>
+                                  <TabsTrigger value="adjustments">Adjustments</TabsTrigger>
+                                </TabsList>
+                                <TabsContent value="details">
+                                  <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+                                    {/* Column 1 */}
+                                    <div className="space-y-3">
+                                      <h4 className="font-semibold text-gray-900">
+                                        Pledges/Donations Details
+                                      </h4>
+                                      <div className="space-y-2 text-sm">
+                                        <div className="flex justify-between">
+                                          <span className="text-gray-600">
+                                            Pledges/Donations Amount:
+                                          </span>
+                                          <span className="font-medium">
+                                            {formatCurrency(pledge.originalAmount, pledge.currency).symbol}
+                                            {formatCurrency(pledge.originalAmount, pledge.currency).amount}
+                                          </span>
+                                        </div>
+                                        <div className="flex justify-between">
+                                          <span className="text-gray-600">
+                                            Paid:
+                                          </span>
+                                          <span className="font-medium">
+                                            {formatCurrency(pledge.totalPaid, pledge.currency).symbol}
+                                            {formatCurrency(pledge.totalPaid, pledge.currency).amount}
+                                          </span>
+                                        </div>
+                                        {Number.parseFloat(pledge.totalAdjusted || "0") > 0 && (
+                                          <div className="flex justify-between">
+                                            <span className="text-gray-600">
+                                              Written Off / Reduced:
+                                            </span>
+                                            <span className="font-medium text-red-600">
+                                              {formatCurrency(pledge.totalAdjusted!, pledge.currency).symbol}
+                                              {formatCurrency(pledge.totalAdjusted!, pledge.currency).amount}
+                                            </span>
+                                          </div>
+                                        )}
+                                        <div className="flex justify-between">
+                                          <span className="text-gray-600">
+                                            Balance:
+                                          </span>
+                                          <span className="font-medium">
+                                            {formatCurrency(calculateBalance(pledge).toString(), pledge.currency).symbol}
+                                            {formatCurrency(calculateBalance(pledge).toString(), pledge.currency).amount}
+                                          </span>
+                                        </div>
+                                        <div>
+                                          <span className="text-gray-600">Notes:</span>
+                                          <p className="mt-1 text-gray-900">
+                                            {pledge.notes || "No notes available"}
+                                          </p>
+                                        </div>
+                                      </div>
                                     </div>
-                                  </div>
-                                </div>
 
-                                {/* Column 2 */}
-                                <div className="space-y-3">
-                                  <h4 className="font-semibold text-gray-900">USD Amounts</h4>
-                                  <div className="space-y-2 text-sm">
-                                    <div className="flex justify-between">
-                                      <span className="text-gray-600">Pledges/Donations Amount:</span>
-                                      <span className="font-medium">
-                                        {formatUSDAmount(pledge.originalAmountUsd)}
-                                      </span>
-                                    </div>
-                                    <div className="flex justify-between">
-                                      <span className="text-gray-600">Paid:</span>
-                                      <span className="font-medium">
-                                        {formatUSDAmount(pledge.totalPaidUsd)}
-                                      </span>
-                                    </div>
-                                    <div className="flex justify-between">
-                                      <span className="text-gray-600">Balance:</span>
-                                      <span className="font-medium">
-                                        {formatUSDAmount(calculateBalanceUsd(pledge).toString())}
-                                      </span>
+                                    {/* Column 2 */}
+                                    <div className="space-y-3">
+                                      <h4 className="font-semibold text-gray-900">USD Amounts</h4>
+                                      <div className="space-y-2 text-sm">
+                                        <div className="flex justify-between">
+                                          <span className="text-gray-600">Pledges/Donations Amount:</span>
+                                          <span className="font-medium">
+                                            {formatUSDAmount(pledge.originalAmountUsd)}
+                                          </span>
+                                        </div>
+                                        <div className="flex justify-between">
+                                          <span className="text-gray-600">Paid:</span>
+                                          <span className="font-medium">
+                                            {formatUSDAmount(pledge.totalPaidUsd)}
+                                          </span>
+                                        </div>
+                                        <div className="flex justify-between">
+                                          <span className="text-gray-600">Balance:</span>
+                                          <span className="font-medium">
+                                            {formatUSDAmount(calculateBalanceUsd(pledge).toString())}
+                                          </span>
+                                        </div>
+                                      </div>
                                     </div>
-                                  </div>
-                                </div>
 
-                                {/* Column 3 */}
-                                <div className="space-y-3">
-                                  <h4 className="font-semibold text-gray-900">Payment Plan</h4>
-                                  <div className="space-y-2 text-sm">
-                                    <div className="flex justify-between">
-                                      <span className="text-gray-600">Scheduled:</span>
-                                      <span className="font-medium text-blue-600">
-                                        {formatCurrency(pledge.scheduledAmount || "0", pledge.currency).symbol}
-                                        {formatCurrency(pledge.scheduledAmount || "0", pledge.currency).amount}
-                                      </span>
-                                    </div>
-                                    <div className="flex justify-between">
-                                      <span className="text-gray-600">Unscheduled:</span>
-                                      <span className="font-medium text-orange-600">
-                                        {formatCurrency(pledge.unscheduledAmount || "0", pledge.currency).symbol}
-                                        {formatCurrency(pledge.unscheduledAmount || "0", pledge.currency).amount}
-                                      </span>
-                                    </div>
-                                    <div className="flex justify-between">
-                                      <span className="text-gray-600">Has Payment Plan:</span>
-                                      <span className={`font-medium ${getPaymentPlanStatus(pledge.scheduledAmount) === "Yes" ? "text-green-600" : "text-gray-500"
-                                        }`}>
-                                        {getPaymentPlanStatus(pledge.scheduledAmount)}
-                                      </span>
-                                    </div>
-                                    <div className="flex justify-between">
-                                      <span className="text-gray-600">First Installment:</span>
-                                      <span className="font-medium">{installmentInfo.first}</span>
-                                    </div>
-                                    <div className="flex justify-between">
-                                      <span className="text-gray-600">Last Installment:</span>
-                                      <span className="font-medium">{installmentInfo.last}</span>
+                                    {/* Column 3 */}
+                                    <div className="space-y-3">
+                                      <h4 className="font-semibold text-gray-900">Payment Plan</h4>
+                                      <div className="space-y-2 text-sm">
+                                        <div className="flex justify-between">
+                                          <span className="text-gray-600">Scheduled:</span>
+                                          <span className="font-medium text-blue-600">
+                                            {formatCurrency(pledge.scheduledAmount || "0", pledge.currency).symbol}
+                                            {formatCurrency(pledge.scheduledAmount || "0", pledge.currency).amount}
+                                          </span>
+                                        </div>
+                                        <div className="flex justify-between">
+                                          <span className="text-gray-600">Unscheduled:</span>
+                                          <span className="font-medium text-orange-600">
+                                            {formatCurrency(pledge.unscheduledAmount || "0", pledge.currency).symbol}
+                                            {formatCurrency(pledge.unscheduledAmount || "0", pledge.currency).amount}
+                                          </span>
+                                        </div>
+                                        <div className="flex justify-between">
+                                          <span className="text-gray-600">Has Payment Plan:</span>
+                                          <span className={`font-medium ${getPaymentPlanStatus(pledge.scheduledAmount) === "Yes" ? "text-green-600" : "text-gray-500"
+                                            }`}>
+                                            {getPaymentPlanStatus(pledge.scheduledAmount)}
+                                          </span>
+                                        </div>
+                                        <div className="flex justify-between">
+                                          <span className="text-gray-600">First Installment:</span>
+                                          <span className="font-medium">{installmentInfo.first}</span>
+                                        </div>
+                                        <div className="flex justify-between">
+                                          <span className="text-gray-600">Last Installment:</span>
+                                          <span className="font-medium">{installmentInfo.last}</span>
+                                        </div>
+                                      </div>
                                     </div>
                                   </div>
-                                </div>
-                              </div>
+                                </TabsContent>
+                                <TabsContent value="history">
+                                  <RecordHistory
+                                    recordType="pledge"
+                                    recordId={pledge.id}
+                                    canRevert={session?.user?.role !== "user"}
+                                  />
+                                </TabsContent>
+                                <TabsContent value="adjustments">
+                                  <PledgeAdjustments
+                                    pledgeId={pledge.id}
+                                    currency={pledge.currency}
+                                    balance={calculateBalance(pledge)}
+                                    canApprove={session?.user?.role !== "user"}
+                                  />
+                                </TabsContent>
+                              </Tabs>
 
                               {/* Action Buttons */}
                               <div className="mt-6 pt-4 flex gap-2 border-t justify-between">
@@ -0,0 +1,354 @@
+"use client";
+
+import { useState } from "react";
+import { Check, FileMinus, RotateCcw, X } from "lucide-react";
+import { toast } from "sonner";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import {
+  PledgeAdjustment,
+  PledgeAdjustmentReason,
+  PledgeAdjustmentStatus,
+  PledgeAdjustmentType,
+  useApproveAdjustmentMutation,
+  useDeclineAdjustmentMutation,
+  usePledgeAdjustmentsQuery,
+  useRequestAdjustmentMutation,
+  useReverseAdjustmentMutation,
+} from "@/lib/query/pledge/usePledgeAdjustmentsQuery";
+
+interface PledgeAdjustmentsProps {
+  pledgeId: number;
+  currency: string;
+  // Outstanding balance in the pledge's currency
+  balance: number;
+  // Approving, declining and reversing are admin actions
+  canApprove?: boolean;
+}
+
+const TYPE_LABELS: Record<PledgeAdjustmentType, string> = {
+  write_off: "Write-off",
+  reduction: "Reduction",
+};
+
+const REASON_LABELS: Record<PledgeAdjustmentReason, string> = {
+  uncollectible: "Uncollectible",
+  donor_deceased: "Donor deceased",
+  financial_hardship: "Financial hardship",
+  disputed: "Disputed",
+  duplicate: "Duplicate pledge",
+  donor_request: "Donor request",
+  other: "Other",
+};
+
+const STATUS_VARIANTS: Record<PledgeAdjustmentStatus, "default" | "secondary" | "destructive" | "outline"> = {
+  pending: "secondary",
+  approved: "default",
+  declined: "outline",
+  reversed: "destructive",
+};
+
+const formatAmount = (amount: string | number) =>
+  parseFloat(String(amount)).toLocaleString("en-US", { minimumFractionDigits: 2, maximumFractionDigits: 2 });
+
+const today = () => new Date().toISOString().split("T")[0];
+
+type PendingAction = { kind: "decline" | "reverse"; adjustment: PledgeAdjustment };
+
+export default function PledgeAdjustments({ pledgeId, currency, balance, canApprove = false }: PledgeAdjustmentsProps) {
+  const { data, isLoading, error } = usePledgeAdjustmentsQuery(pledgeId);
+  const requestMutation = useRequestAdjustmentMutation();
+  const approveMutation = useApproveAdjustmentMutation();
+  const declineMutation = useDeclineAdjustmentMutation();
+  const reverseMutation = useReverseAdjustmentMutation();
+
+  const [type, setType] = useState<PledgeAdjustmentType>("write_off");
+  const [reasonCode, setReasonCode] = useState<PledgeAdjustmentReason>("uncollectible");
+  const [amount, setAmount] = useState("");
+  const [effectiveDate, setEffectiveDate] = useState(today);
+  const [notes, setNotes] = useState("");
+  const [approveNow, setApproveNow] = useState(false);
+  const [pending, setPending] = useState<PendingAction | null>(null);
+  const [reason, setReason] = useState("");
+
+  const adjustments = data?.adjustments ?? [];
+  const isClosing = declineMutation.isPending || reverseMutation.isPending;
+  // A write-off left blank takes the whole balance
+  const amountRequired = type === "reduction";
+
+  const resetForm = () => {
+    setType("write_off");
+    setReasonCode("uncollectible");
+    setAmount("");
+    setEffectiveDate(today());
+    setNotes("");
+    setApproveNow(false);
+  };
+
+  const handleSubmit = async () => {
+    try {
+      const result = await requestMutation.mutateAsync({
+        pledgeId,
+        type,
+        reasonCode,
+        amount: amount ? parseFloat(amount) : undefined,
+        effectiveDate,
+        notes: notes || null,
+        approve: canApprove && approveNow,
+      });
+      toast.success(result.message);
+      resetForm();
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : "Failed to submit adjustment");
+    }
+  };
+
+  const handleApprove = async (adjustment: PledgeAdjustment) => {
+    try {
+      const result = await approveMutation.mutateAsync(adjustment.id);
+      toast.success(result.message);
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : "Failed to approve adjustment");
+    }
+  };
+
+  const closeDialog = () => {
+    setPending(null);
+    setReason("");
+  };
+
+  const handleConfirm = async () => {
+    if (!pending || !reason.trim()) return;
+    try {
+      const mutation = pending.kind === "decline" ? declineMutation : reverseMutation;
+      const result = await mutation.mutateAsync({ adjustmentId: pending.adjustment.id, reason });
+      toast.success(result.message);
+      closeDialog();
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : `Failed to ${pending.kind} adjustment`);
+    }
+  };
+
+  if (isLoading) {
+    return (
+      <div className="space-y-2">
+        <Skeleton className="h-12 w-full" />
+        <Skeleton className="h-12 w-full" />
+      </div>
+    );
+  }
+
+  if (error) {
+    return <p className="text-sm text-red-600">Failed to load adjustments.</p>;
+  }
+
+  return (
+    <div className="space-y-4">
+      {balance > 0 && (
+        <div className="space-y-3 rounded-md border bg-white p-3">
+          <div className="grid grid-cols-1 md:grid-cols-4 gap-3">
+            <div className="space-y-1">
+              <Label>Type</Label>
+              <Select value={type} onValueChange={(value) => setType(value as PledgeAdjustmentType)}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {Object.entries(TYPE_LABELS).map(([value, label]) => (
+                    <SelectItem key={value} value={value}>
+                      {label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-1">
+              <Label>Reason</Label>
+              <Select value={reasonCode} onValueChange={(value) => setReasonCode(value as PledgeAdjustmentReason)}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {Object.entries(REASON_LABELS).map(([value, label]) => (
+                    <SelectItem key={value} value={value}>
+                      {label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor={`adjustment-amount-${pledgeId}`}>Amount ({currency})</Label>
+              <Input
+                id={`adjustment-amount-${pledgeId}`}
+                type="number"
+                step="0.01"
+                min="0"
+                max={balance}
+                value={amount}
+                onChange={(e) => setAmount(e.target.value)}
+                placeholder={amountRequired ? `Up to ${formatAmount(balance)}` : `Balance ${formatAmount(balance)}`}
+              />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor={`adjustment-date-${pledgeId}`}>Effective date</Label>
+              <Input
+                id={`adjustment-date-${pledgeId}`}
+                type="date"
+                value={effectiveDate}
+                onChange={(e) => setEffectiveDate(e.target.value)}
+              />
+            </div>
+          </div>
+          <Textarea value={notes} onChange={(e) => setNotes(e.target.value)} placeholder="Notes for the approver" />
+          <div className="flex items-center justify-between">
+            {canApprove ? (
+              <label className="flex items-center gap-2 text-sm">
+                <Checkbox checked={approveNow} onCheckedChange={(checked) => setApproveNow(checked === true)} />
+                Approve now
+              </label>
+            ) : (
+              <span className="text-sm text-muted-foreground">An admin approves the adjustment before it applies.</span>
+            )}
+            <Button
+              type="button"
+              onClick={handleSubmit}
+              disabled={requestMutation.isPending || !effectiveDate || (amountRequired && !parseFloat(amount))}
+            >
+              <FileMinus className="mr-2 h-4 w-4" />
+              {requestMutation.isPending ? "Saving..." : approveNow ? "Apply" : "Submit"}
+            </Button>
+          </div>
+        </div>
+      )}
+
+      {adjustments.length === 0 ? (
+        <p className="py-6 text-sm text-muted-foreground">No write-offs or reductions on this pledge.</p>
+      ) : (
+        <ul className="divide-y rounded-md border bg-white">
+          {adjustments.map((adjustment) => (
+            <li key={adjustment.id} className="flex items-start justify-between gap-4 p-3 text-sm">
+              <div className="space-y-1">
+                <div className="flex items-center gap-2">
+                  <span className="font-medium">
+                    {TYPE_LABELS[adjustment.type]} of {formatAmount(adjustment.amount)} {currency}
+                  </span>
+                  <Badge variant={STATUS_VARIANTS[adjustment.status]}>{adjustment.status}</Badge>
+                  <span className="text-muted-foreground">effective {adjustment.effectiveDate}</span>
+                </div>
+                <p className="text-muted-foreground">
+                  {REASON_LABELS[adjustment.reasonCode]}
+                  {adjustment.requestedByEmail && ` · requested by ${adjustment.requestedByEmail}`}
+                  {adjustment.approvedByEmail && ` · approved by ${adjustment.approvedByEmail}`}
+                </p>
+                {adjustment.notes && <p>{adjustment.notes}</p>}
+                {adjustment.closeReason && (
+                  <p className="text-red-700">
+                    {adjustment.status === "declined" ? "Declined" : "Reversed"}: {adjustment.closeReason}
+                  </p>
+                )}
+              </div>
+              {canApprove && (
+                <div className="flex gap-2">
+                  {adjustment.status === "pending" && (
+                    <>
+                      <Button
+                        type="button"
+                        variant="outline"
+                        size="sm"
+                        onClick={() => handleApprove(adjustment)}
+                        disabled={approveMutation.isPending}
+                      >
+                        <Check className="mr-2 h-4 w-4" />
+                        Approve
+                      </Button>
+                      <Button
+                        type="button"
+                        variant="outline"
+                        size="sm"
+                        onClick={() => setPending({ kind: "decline", adjustment })}
+                      >
+                        <X className="mr-2 h-4 w-4" />
+                        Decline
+                      </Button>
+                    </>
+                  )}
+                  {adjustment.status === "approved" && (
+                    <Button
+                      type="button"
+                      variant="outline"
+                      size="sm"
+                      onClick={() => setPending({ kind: "reverse", adjustment })}
+                    >
+                      <RotateCcw className="mr-2 h-4 w-4" />
+                      Reverse
+                    </Button>
+                  )}
+                </div>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+
+      <AlertDialog open={!!pending} onOpenChange={(open) => !open && closeDialog()}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>
+              {pending?.kind === "decline" ? "Decline" : "Reverse"} this{" "}
+              {pending ? TYPE_LABELS[pending.adjustment.type].toLowerCase() : "adjustment"}?
+            </AlertDialogTitle>
+            <AlertDialogDescription>
+              {pending?.kind === "decline"
+                ? "The request stays on file as declined and the balance is unchanged."
+                : "The adjustment stays on file as reversed and its amount is owed on the pledge again."}
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <div className="space-y-2">
+            <Label htmlFor="adjustment-reason">Reason</Label>
+            <Textarea
+              id="adjustment-reason"
+              value={reason}
+              onChange={(e) => setReason(e.target.value)}
+              placeholder="e.g. Donor resumed payments"
+            />
+          </div>
+          <AlertDialogFooter>
+            <AlertDialogCancel disabled={isClosing}>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={(e) => {
+                e.preventDefault();
+                handleConfirm();
+              }}
+              disabled={isClosing || !reason.trim()}
+            >
+              {isClosing ? "Saving..." : pending?.kind === "decline" ? "Decline" : "Reverse"}
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+}
@@ -0,0 +1,235 @@
+"use client";
+
+import { useState } from "react";
+import { Download, FileText, RefreshCw, XCircle } from "lucide-react";
+import { toast } from "sonner";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import {
+  PaymentReceipt,
+  ReceiptType,
+  receiptPdfUrl,
+  useIssueReceiptMutation,
+  usePaymentReceiptsQuery,
+  useReissueReceiptMutation,
+  useVoidReceiptMutation,
+} from "@/lib/query/receipts/usePaymentReceiptsQuery";
+
+interface PaymentReceiptsProps {
+  paymentId: number;
+  // Receipts are only issued for money actually received
+  paymentCompleted: boolean;
+  // Voiding and reissuing are admin actions
+  canManage?: boolean;
+}
+
+const RECEIPT_TYPE_LABELS: Record<ReceiptType, string> = {
+  receipt: "Tax receipt",
+  confirmation: "Confirmation",
+  invoice: "Invoice",
+  other: "Acknowledgement",
+};
+
+type PendingAction = { kind: "void" | "reissue"; receipt: PaymentReceipt };
+
+export default function PaymentReceipts({ paymentId, paymentCompleted, canManage = false }: PaymentReceiptsProps) {
+  const { data, isLoading, error } = usePaymentReceiptsQuery(paymentId);
+  const issueMutation = useIssueReceiptMutation();
+  const voidMutation = useVoidReceiptMutation();
+  const reissueMutation = useReissueReceiptMutation();
+
+  const [receiptType, setReceiptType] = useState<ReceiptType>("receipt");
+  const [pending, setPending] = useState<PendingAction | null>(null);
+  const [reason, setReason] = useState("");
+
+  const receipts = data?.receipts ?? [];
+  const hasLiveReceipt = receipts.some((receipt) => receipt.status === "issued");
+  const isWorking = voidMutation.isPending || reissueMutation.isPending;
+
+  const handleIssue = async () => {
+    try {
+      const result = await issueMutation.mutateAsync({ paymentId, receiptType });
+      toast.success(result.message);
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : "Failed to issue receipt");
+    }
+  };
+
+  const closeDialog = () => {
+    setPending(null);
+    setReason("");
+  };
+
+  const handleConfirm = async () => {
+    if (!pending || !reason.trim()) return;
+    try {
+      const result =
+        pending.kind === "void"
+          ? await voidMutation.mutateAsync({ receiptId: pending.receipt.id, reason })
+          : await reissueMutation.mutateAsync({
+              receiptId: pending.receipt.id,
+              reason,
+              receiptType: pending.receipt.receiptType,
+            });
+      toast.success(result.message);
+      closeDialog();
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : `Failed to ${pending.kind} receipt`);
+    }
+  };
+
+  if (isLoading) {
+    return (
+      <div className="space-y-2">
+        <Skeleton className="h-12 w-full" />
+        <Skeleton className="h-12 w-full" />
+      </div>
+    );
+  }
+
+  if (error) {
+    return <p className="text-sm text-red-600">Failed to load receipts.</p>;
+  }
+
+  return (
+    <div className="space-y-4">
+      {!hasLiveReceipt && (
+        <div className="flex items-center gap-2">
+          <Select value={receiptType} onValueChange={(value) => setReceiptType(value as ReceiptType)}>
+            <SelectTrigger className="w-44">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {Object.entries(RECEIPT_TYPE_LABELS).map(([value, label]) => (
+                <SelectItem key={value} value={value}>
+                  {label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Button
+            type="button"
+            onClick={handleIssue}
+            disabled={!paymentCompleted || issueMutation.isPending}
+          >
+            <FileText className="mr-2 h-4 w-4" />
+            {issueMutation.isPending ? "Issuing..." : "Issue Receipt"}
+          </Button>
+          {!paymentCompleted && (
+            <span className="text-sm text-muted-foreground">Only completed payments can be receipted.</span>
+          )}
+        </div>
+      )}
+
+      {receipts.length === 0 ? (
+        <p className="py-6 text-sm text-muted-foreground">No receipts issued for this payment yet.</p>
+      ) : (
+        <ul className="divide-y rounded-md border bg-white">
+          {receipts.map((receipt) => (
+            <li key={receipt.id} className="flex items-start justify-between gap-4 p-3 text-sm">
+              <div className="space-y-1">
+                <div className="flex items-center gap-2">
+                  <span className="font-mono font-medium">No. {receipt.receiptNumber}</span>
+                  <Badge variant={receipt.status === "void" ? "destructive" : "default"}>{receipt.status}</Badge>
+                  <span className="text-muted-foreground">{RECEIPT_TYPE_LABELS[receipt.receiptType]}</span>
+                </div>
+                <p className="text-muted-foreground">
+                  {receipt.donorName} · {parseFloat(receipt.amount).toLocaleString("en-US", { minimumFractionDigits: 2 })}{" "}
+                  {receipt.currency} · issued {new Date(receipt.issuedAt).toLocaleString()}
+                </p>
+                {receipt.status === "void" && receipt.voidReason && (
+                  <p className="text-red-700">Voided: {receipt.voidReason}</p>
+                )}
+              </div>
+              <div className="flex gap-2">
+                <Button variant="outline" size="sm" asChild title="Download PDF">
+                  <a href={receiptPdfUrl(receipt.id)}>
+                    <Download className="h-4 w-4" />
+                  </a>
+                </Button>
+                {canManage && receipt.status === "issued" && (
+                  <>
+                    <Button
+                      type="button"
+                      variant="outline"
+                      size="sm"
+                      onClick={() => setPending({ kind: "reissue", receipt })}
+                    >
+                      <RefreshCw className="mr-2 h-4 w-4" />
+                      Reissue
+                    </Button>
+                    <Button
+                      type="button"
+                      variant="outline"
+                      size="sm"
+                      onClick={() => setPending({ kind: "void", receipt })}
+                    >
+                      <XCircle className="mr-2 h-4 w-4" />
+                      Void
+                    </Button>
+                  </>
+                )}
+              </div>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      <AlertDialog open={!!pending} onOpenChange={(open) => !open && closeDialog()}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>
+              {pending?.kind === "void" ? "Void" : "Reissue"} receipt {pending?.receipt.receiptNumber}?
+            </AlertDialogTitle>
+            <AlertDialogDescription>
+              {pending?.kind === "void"
+                ? "The receipt stays on file marked void and its number is never reused. The payment can be receipted again afterwards."
+                : "The receipt is voided and a replacement with the next number is issued from the payment's current details."}
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <div className="space-y-2">
+            <Label htmlFor="receipt-reason">Reason</Label>
+            <Textarea
+              id="receipt-reason"
+              value={reason}
+              onChange={(e) => setReason(e.target.value)}
+              placeholder="e.g. Donor name misspelled"
+            />
+          </div>
+          <AlertDialogFooter>
+            <AlertDialogCancel disabled={isWorking}>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={(e) => {
+                e.preventDefault();
+                handleConfirm();
+              }}
+              disabled={isWorking || !reason.trim()}
+            >
+              {isWorking ? "Saving..." : pending?.kind === "void" ? "Void" : "Reissue"}
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+}
@@ -0,0 +1,291 @@
+"use client";
+
+import { useState } from "react";
+import { RotateCcw, Undo2 } from "lucide-react";
+import { toast } from "sonner";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import {
+  PaymentRefund,
+  RefundType,
+  usePaymentRefundsQuery,
+  useRecordRefundMutation,
+  useVoidRefundMutation,
+} from "@/lib/query/refunds/usePaymentRefundsQuery";
+
+interface PaymentRefundsProps {
+  paymentId: number;
+  // Recording and voiding refunds are admin actions
+  canManage?: boolean;
+}
+
+const REFUND_TYPE_LABELS: Record<RefundType, string> = {
+  refund: "Refund",
+  chargeback: "Chargeback",
+};
+
+const formatAmount = (amount: string | number) =>
+  parseFloat(String(amount)).toLocaleString("en-US", { minimumFractionDigits: 2, maximumFractionDigits: 2 });
+
+const today = () => new Date().toISOString().split("T")[0];
+
+export default function PaymentRefunds({ paymentId, canManage = false }: PaymentRefundsProps) {
+  const { data, isLoading, error } = usePaymentRefundsQuery(paymentId);
+  const recordMutation = useRecordRefundMutation();
+  const voidMutation = useVoidRefundMutation();
+
+  const [type, setType] = useState<RefundType>("refund");
+  const [amount, setAmount] = useState("");
+  const [refundDate, setRefundDate] = useState(today);
+  const [referenceNumber, setReferenceNumber] = useState("");
+  const [reason, setReason] = useState("");
+  // Per-allocation amounts for split payments; left blank to spread pro rata
+  const [split, setSplit] = useState<Record<number, string>>({});
+  const [pendingVoid, setPendingVoid] = useState<PaymentRefund | null>(null);
+
+  const refundable = parseFloat(data?.refundable ?? "0");
+  const canRefund = canManage && data?.paymentStatus === "completed" && refundable > 0;
+  const splitEntries = Object.entries(split).filter(([, value]) => value.trim() !== "");
+
+  const resetForm = () => {
+    setType("refund");
+    setAmount("");
+    setRefundDate(today());
+    setReferenceNumber("");
+    setReason("");
+    setSplit({});
+  };
+
+  const handleRecord = async () => {
+    const value = parseFloat(amount);
+    if (!value || !reason.trim()) return;
+    try {
+      const result = await recordMutation.mutateAsync({
+        paymentId,
+        type,
+        amount: value,
+        reason,
+        refundDate,
+        referenceNumber: referenceNumber || null,
+        allocations:
+          splitEntries.length > 0
+            ? splitEntries.map(([allocationId, entry]) => ({
+                allocationId: parseInt(allocationId, 10),
+                amount: parseFloat(entry) || 0,
+              }))
+            : undefined,
+      });
+      toast.success(result.message);
+      resetForm();
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : "Failed to record refund");
+    }
+  };
+
+  const handleVoid = async () => {
+    if (!pendingVoid) return;
+    try {
+      const result = await voidMutation.mutateAsync(pendingVoid.id);
+      toast.success(result.message);
+      setPendingVoid(null);
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : "Failed to void refund");
+    }
+  };
+
+  if (isLoading) {
+    return (
+      <div className="space-y-2">
+        <Skeleton className="h-12 w-full" />
+        <Skeleton className="h-12 w-full" />
+      </div>
+    );
+  }
+
+  if (error || !data) {
+    return <p className="text-sm text-red-600">Failed to load refunds.</p>;
+  }
+
+  return (
+    <div className="space-y-4">
+      <p className="text-sm text-muted-foreground">
+        Received {formatAmount(data.amount)} {data.currency} · refunded {formatAmount(data.refunded)} {data.currency} ·
+        net {formatAmount(parseFloat(data.amount) - parseFloat(data.refunded))} {data.currency}
+      </p>
+
+      {canRefund && (
+        <div className="space-y-3 rounded-md border p-3">
+          <div className="grid grid-cols-2 gap-3">
+            <div className="space-y-1">
+              <Label>Type</Label>
+              <Select value={type} onValueChange={(value) => setType(value as RefundType)}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {Object.entries(REFUND_TYPE_LABELS).map(([value, label]) => (
+                    <SelectItem key={value} value={value}>
+                      {label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="refund-amount">Amount ({data.currency})</Label>
+              <Input
+                id="refund-amount"
+                type="number"
+                step="0.01"
+                min="0"
+                max={refundable}
+                value={amount}
+                onChange={(e) => setAmount(e.target.value)}
+                placeholder={`Up to ${formatAmount(refundable)}`}
+              />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="refund-date">Date</Label>
+              <Input id="refund-date" type="date" value={refundDate} onChange={(e) => setRefundDate(e.target.value)} />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="refund-reference">Reference</Label>
+              <Input
+                id="refund-reference"
+                value={referenceNumber}
+                onChange={(e) => setReferenceNumber(e.target.value)}
+                placeholder="Processor or bank reference"
+              />
+            </div>
+          </div>
+
+          {data.allocations.length > 0 && (
+            <div className="space-y-2">
+              <Label>Split across pledges (leave blank to spread in proportion)</Label>
+              {data.allocations.map((allocation) => {
+                const left = parseFloat(allocation.allocatedAmount) - parseFloat(allocation.refunded);
+                return (
+                  <div key={allocation.id} className="flex items-center gap-3 text-sm">
+                    <span className="flex-1">
+                      {allocation.pledgeDescription || `Pledge #${allocation.pledgeId}`}{" "}
+                      <span className="text-muted-foreground">
+                        ({formatAmount(left)} of {formatAmount(allocation.allocatedAmount)} left)
+                      </span>
+                    </span>
+                    <Input
+                      type="number"
+                      step="0.01"
+                      min="0"
+                      max={left}
+                      className="w-32"
+                      disabled={left <= 0}
+                      value={split[allocation.id] ?? ""}
+                      onChange={(e) => setSplit({ ...split, [allocation.id]: e.target.value })}
+                    />
+                  </div>
+                );
+              })}
+            </div>
+          )}
+
+          <div className="space-y-1">
+            <Label htmlFor="refund-reason">Reason</Label>
+            <Textarea
+              id="refund-reason"
+              value={reason}
+              onChange={(e) => setReason(e.target.value)}
+              placeholder="e.g. Duplicate card charge"
+            />
+          </div>
+          <Button
+            type="button"
+            onClick={handleRecord}
+            disabled={recordMutation.isPending || !parseFloat(amount) || !reason.trim()}
+          >
+            <Undo2 className="mr-2 h-4 w-4" />
+            {recordMutation.isPending ? "Saving..." : `Record ${REFUND_TYPE_LABELS[type].toLowerCase()}`}
+          </Button>
+        </div>
+      )}
+
+      {data.refunds.length === 0 ? (
+        <p className="py-6 text-sm text-muted-foreground">No refunds recorded for this payment.</p>
+      ) : (
+        <ul className="divide-y rounded-md border bg-white">
+          {data.refunds.map((refund) => (
+            <li key={refund.id} className="flex items-start justify-between gap-4 p-3 text-sm">
+              <div className="space-y-1">
+                <div className="flex items-center gap-2">
+                  <span className="font-medium">
+                    {formatAmount(refund.amount)} {refund.currency}
+                  </span>
+                  <Badge variant={refund.type === "chargeback" ? "destructive" : "secondary"}>
+                    {REFUND_TYPE_LABELS[refund.type]}
+                  </Badge>
+                  <span className="text-muted-foreground">{refund.refundDate}</span>
+                </div>
+                <p className="text-muted-foreground">
+                  {refund.reason}
+                  {refund.referenceNumber && ` · Ref ${refund.referenceNumber}`}
+                </p>
+              </div>
+              {canManage && (
+                <Button type="button" variant="outline" size="sm" onClick={() => setPendingVoid(refund)}>
+                  <RotateCcw className="mr-2 h-4 w-4" />
+                  Void
+                </Button>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+
+      <AlertDialog open={!!pendingVoid} onOpenChange={(open) => !open && setPendingVoid(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>
+              Void this {pendingVoid ? REFUND_TYPE_LABELS[pendingVoid.type].toLowerCase() : "refund"}?
+            </AlertDialogTitle>
+            <AlertDialogDescription>
+              The amount counts toward the pledge, plan and solicitor bonus again, and live receipts are reissued for
+              the new net amount.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel disabled={voidMutation.isPending}>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={(e) => {
+                e.preventDefault();
+                handleVoid();
+              }}
+              disabled={voidMutation.isPending}
+            >
+              {voidMutation.isPending ? "Saving..." : "Void"}
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+}
@@ -0,0 +1,240 @@
+"use client";
+
+import { useState } from "react";
+import {
+  taxReceiptPdfUrl,
+  useGenerateTaxReceiptsMutation,
+  useTaxReceiptsQuery,
+} from "@/lib/query/tax-receipts/useTaxReceiptsQuery";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { Download, FileText, Search } from "lucide-react";
+import { toast } from "sonner";
+
+const PAGE_SIZE = 25;
+
+// Receipting normally happens for the year that just ended
+const currentYear = new Date().getFullYear();
+const TAX_YEARS = Array.from({ length: 6 }, (_, index) => currentYear - index);
+
+export function TaxReceiptsManagement() {
+  const [taxYear, setTaxYear] = useState(currentYear - 1);
+  const [search, setSearch] = useState("");
+  const [page, setPage] = useState(1);
+  const [confirmOpen, setConfirmOpen] = useState(false);
+
+  const { data, isLoading, error, refetch } = useTaxReceiptsQuery({
+    taxYear,
+    search: search || undefined,
+    page,
+    limit: PAGE_SIZE,
+  });
+
+  const generateMutation = useGenerateTaxReceiptsMutation();
+
+  const handleGenerate = async () => {
+    try {
+      const result = await generateMutation.mutateAsync({ taxYear });
+      const failed = result.skipped.filter((skip) => !skip.reason.startsWith("Already issued"));
+      toast.success(result.message);
+      if (failed.length > 0) {
+        toast.warning(`${failed.length} donors were skipped`, {
+          description: failed
+            .slice(0, 5)
+            .map((skip) => `Contact #${skip.contactId}: ${skip.reason}`)
+            .join("\n"),
+        });
+      }
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Failed to generate receipts");
+    } finally {
+      setConfirmOpen(false);
+    }
+  };
+
+  const receipts = data?.receipts ?? [];
+  const pagination = data?.pagination;
+
+  if (error) {
+    return (
+      <div className="text-center py-8">
+        <p className="text-red-600 mb-4">Failed to load tax receipts</p>
+        <Button onClick={() => refetch()} variant="outline">
+          Retry
+        </Button>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between">
+        <div>
+          <h2 className="text-2xl font-bold">Year-End Tax Receipts</h2>
+          <p className="text-sm text-muted-foreground">
+            One consolidated giving statement per donor, numbered per location
+          </p>
+        </div>
+        <Button onClick={() => setConfirmOpen(true)} disabled={generateMutation.isPending}>
+          <FileText className="mr-2 h-4 w-4" />
+          {generateMutation.isPending ? "Generating..." : `Generate ${taxYear} Receipts`}
+        </Button>
+      </div>
+
+      <div className="flex items-center space-x-4">
+        <Select
+          value={String(taxYear)}
+          onValueChange={(value) => {
+            setTaxYear(parseInt(value, 10));
+            setPage(1);
+          }}
+        >
+          <SelectTrigger className="w-32">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {TAX_YEARS.map((year) => (
+              <SelectItem key={year} value={String(year)}>
+                {year}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <div className="relative flex-1 max-w-sm">
+          <Search className="absolute left-2 top-2.5 h-4 w-4 text-muted-foreground" />
+          <Input
+            placeholder="Search donor or receipt number..."
+            value={search}
+            onChange={(e) => {
+              setSearch(e.target.value);
+              setPage(1);
+            }}
+            className="pl-8"
+          />
+        </div>
+      </div>
+
+      {pagination && pagination.totalCount > 0 && (
+        <div className="text-sm text-muted-foreground">
+          {pagination.totalCount} receipts issued for {taxYear}
+        </div>
+      )}
+
+      <div className="rounded-md border">
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Receipt No.</TableHead>
+              <TableHead>Donor</TableHead>
+              <TableHead className="text-right">Gifts</TableHead>
+              <TableHead className="text-right">Total (USD)</TableHead>
+              <TableHead>Issued</TableHead>
+              <TableHead className="text-right">PDF</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {isLoading ? (
+              <TableRow>
+                <TableCell colSpan={6} className="text-center py-8">
+                  Loading receipts...
+                </TableCell>
+              </TableRow>
+            ) : receipts.length === 0 ? (
+              <TableRow>
+                <TableCell colSpan={6} className="text-center py-8 text-muted-foreground">
+                  {search ? "No receipts match your search" : `No receipts issued for ${taxYear} yet`}
+                </TableCell>
+              </TableRow>
+            ) : (
+              receipts.map((receipt) => (
+                <TableRow key={receipt.id}>
+                  <TableCell className="font-mono">{receipt.receiptNumber}</TableCell>
+                  <TableCell className="font-medium">{receipt.donorName}</TableCell>
+                  <TableCell className="text-right">{receipt.paymentCount}</TableCell>
+                  <TableCell className="text-right">
+                    {receipt.totalAmountUsd
+                      ? `$${parseFloat(receipt.totalAmountUsd).toLocaleString("en-US", { minimumFractionDigits: 2 })}`
+                      : "—"}
+                  </TableCell>
+                  <TableCell>{new Date(receipt.issuedAt).toLocaleDateString()}</TableCell>
+                  <TableCell className="text-right">
+                    <Button variant="outline" size="sm" asChild title="Download PDF">
+                      <a href={taxReceiptPdfUrl(receipt.id)}>
+                        <Download className="h-4 w-4" />
+                      </a>
+                    </Button>
+                  </TableCell>
+                </TableRow>
+              ))
+            )}
+          </TableBody>
+        </Table>
+      </div>
+
+      {pagination && pagination.totalPages > 1 && (
+        <div className="flex items-center justify-between">
+          <div className="text-sm text-muted-foreground">
+            Page {pagination.page} of {pagination.totalPages}
+          </div>
+          <div className="flex space-x-2">
+            <Button variant="outline" size="sm" onClick={() => setPage(page - 1)} disabled={page <= 1}>
+              Previous
+            </Button>
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => setPage(page + 1)}
+              disabled={page >= pagination.totalPages}
+            >
+              Next
+            </Button>
+          </div>
+        </div>
+      )}
+
+      <AlertDialog open={confirmOpen} onOpenChange={setConfirmOpen}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Generate {taxYear} receipts?</AlertDialogTitle>
+            <AlertDialogDescription>
+              Every donor with completed gifts in {taxYear} who has not been receipted yet gets a
+              statement with the next receipt number, and their payments are marked as receipted.
+              Issued numbers cannot be reused.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel disabled={generateMutation.isPending}>Cancel</AlertDialogCancel>
+            <AlertDialogAction onClick={handleGenerate} disabled={generateMutation.isPending}>
+              Generate
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+}
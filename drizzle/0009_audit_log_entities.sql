@@ -0,0 +1,8 @@
+-- Migration: Audit log entity tracking
+-- Link each audit entry to the record it touched and keep a structured diff
+ALTER TABLE "audit_log" ADD COLUMN "entity_type" text;--> statement-breakpoint
+ALTER TABLE "audit_log" ADD COLUMN "entity_id" integer;--> statement-breakpoint
+ALTER TABLE "audit_log" ADD COLUMN "changes" jsonb;--> statement-breakpoint
+-- Create indexes
+CREATE INDEX "audit_log_entity_idx" ON "audit_log"("entity_type", "entity_id");--> statement-breakpoint
+CREATE INDEX "audit_log_timestamp_idx" ON "audit_log"("timestamp");
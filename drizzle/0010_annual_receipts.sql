@@ -0,0 +1,30 @@
+-- Migration: Year-end tax receipts
+-- Per-location receipt numbering and the consolidated annual statements issued from it
+CREATE TABLE "receipt_sequence" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"location_id" text NOT NULL,
+	"series" text NOT NULL,
+	"last_number" integer DEFAULT 0 NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL
+);--> statement-breakpoint
+CREATE TABLE "annual_receipt" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"contact_id" integer,
+	"location_id" text NOT NULL,
+	"tax_year" integer NOT NULL,
+	"receipt_number" text NOT NULL,
+	"donor_name" text NOT NULL,
+	"donor_address" text,
+	"line_items" jsonb NOT NULL,
+	"payment_count" integer NOT NULL,
+	"total_amount_usd" numeric(12, 2),
+	"issued_by" integer,
+	"issued_at" timestamp DEFAULT now() NOT NULL
+);--> statement-breakpoint
+ALTER TABLE "annual_receipt" ADD CONSTRAINT "annual_receipt_contact_id_contact_id_fk" FOREIGN KEY ("contact_id") REFERENCES "public"."contact"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "annual_receipt" ADD CONSTRAINT "annual_receipt_issued_by_user_id_fk" FOREIGN KEY ("issued_by") REFERENCES "public"."user"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+-- Create indexes
+CREATE UNIQUE INDEX "receipt_sequence_location_series_unique" ON "receipt_sequence"("location_id", "series");--> statement-breakpoint
+CREATE UNIQUE INDEX "annual_receipt_contact_year_unique" ON "annual_receipt"("contact_id", "tax_year");--> statement-breakpoint
+CREATE UNIQUE INDEX "annual_receipt_location_number_unique" ON "annual_receipt"("location_id", "receipt_number");--> statement-breakpoint
+CREATE INDEX "annual_receipt_tax_year_idx" ON "annual_receipt"("tax_year");
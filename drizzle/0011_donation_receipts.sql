@@ -0,0 +1,39 @@
+-- Migration: Per-payment donation receipts
+-- Individually numbered receipts per payment or split allocation, with void and reissue
+CREATE TYPE "public"."receipt_status" AS ENUM('issued', 'void');--> statement-breakpoint
+CREATE TABLE "donation_receipt" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"location_id" text NOT NULL,
+	"receipt_number" text NOT NULL,
+	"receipt_type" "receipt_type" NOT NULL,
+	"status" "receipt_status" DEFAULT 'issued' NOT NULL,
+	"payment_id" integer,
+	"allocation_id" integer,
+	"contact_id" integer,
+	"donor_name" text NOT NULL,
+	"donor_address" text,
+	"payer_name" text,
+	"gift_date" date NOT NULL,
+	"amount" numeric(10, 2) NOT NULL,
+	"currency" "currency" NOT NULL,
+	"amount_usd" numeric(10, 2),
+	"payment_method" text,
+	"pledge_description" text,
+	"replaces_receipt_id" integer,
+	"issued_by" integer,
+	"issued_at" timestamp DEFAULT now() NOT NULL,
+	"voided_by" integer,
+	"voided_at" timestamp,
+	"void_reason" text
+);--> statement-breakpoint
+ALTER TABLE "donation_receipt" ADD CONSTRAINT "donation_receipt_payment_id_payment_id_fk" FOREIGN KEY ("payment_id") REFERENCES "public"."payment"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "donation_receipt" ADD CONSTRAINT "donation_receipt_allocation_id_payment_allocations_id_fk" FOREIGN KEY ("allocation_id") REFERENCES "public"."payment_allocations"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "donation_receipt" ADD CONSTRAINT "donation_receipt_contact_id_contact_id_fk" FOREIGN KEY ("contact_id") REFERENCES "public"."contact"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "donation_receipt" ADD CONSTRAINT "donation_receipt_replaces_receipt_id_donation_receipt_id_fk" FOREIGN KEY ("replaces_receipt_id") REFERENCES "public"."donation_receipt"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "donation_receipt" ADD CONSTRAINT "donation_receipt_issued_by_user_id_fk" FOREIGN KEY ("issued_by") REFERENCES "public"."user"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "donation_receipt" ADD CONSTRAINT "donation_receipt_voided_by_user_id_fk" FOREIGN KEY ("voided_by") REFERENCES "public"."user"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+-- Create indexes
+CREATE UNIQUE INDEX "donation_receipt_location_number_unique" ON "donation_receipt"("location_id", "receipt_number");--> statement-breakpoint
+CREATE INDEX "donation_receipt_payment_id_idx" ON "donation_receipt"("payment_id");--> statement-breakpoint
+CREATE INDEX "donation_receipt_allocation_id_idx" ON "donation_receipt"("allocation_id");--> statement-breakpoint
+CREATE INDEX "donation_receipt_contact_id_idx" ON "donation_receipt"("contact_id");
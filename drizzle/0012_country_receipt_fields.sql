@@ -0,0 +1,8 @@
+-- Migration: Country-specific receipt fields
+-- Donor and pledge data required by Israeli, Canadian and UK tax receipts
+ALTER TABLE "contact" ADD COLUMN "tax_id" text;--> statement-breakpoint
+ALTER TABLE "contact" ADD COLUMN "gift_aid_declaration_date" date;--> statement-breakpoint
+ALTER TABLE "pledge" ADD COLUMN "advantage_amount" numeric(10, 2);--> statement-breakpoint
+ALTER TABLE "pledge" ADD COLUMN "advantage_description" text;--> statement-breakpoint
+ALTER TABLE "donation_receipt" ADD COLUMN "template" text DEFAULT 'default' NOT NULL;--> statement-breakpoint
+ALTER TABLE "donation_receipt" ADD COLUMN "template_fields" jsonb;
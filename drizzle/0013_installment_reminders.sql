@@ -0,0 +1,20 @@
+-- Migration: Installment reminders
+-- Tracks which reminder offsets went out for each installment
+CREATE TYPE "public"."reminder_status" AS ENUM('sending', 'sent');--> statement-breakpoint
+CREATE TABLE "installment_reminder" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"installment_schedule_id" integer NOT NULL,
+	"payment_plan_id" integer NOT NULL,
+	"offset_days" integer NOT NULL,
+	"status" "reminder_status" DEFAULT 'sending' NOT NULL,
+	"recipient" text NOT NULL,
+	"transport" text NOT NULL,
+	"subject" text NOT NULL,
+	"sent_at" timestamp,
+	"created_at" timestamp DEFAULT now() NOT NULL
+);--> statement-breakpoint
+ALTER TABLE "installment_reminder" ADD CONSTRAINT "installment_reminder_installment_schedule_id_installment_schedule_id_fk" FOREIGN KEY ("installment_schedule_id") REFERENCES "public"."installment_schedule"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "installment_reminder" ADD CONSTRAINT "installment_reminder_payment_plan_id_payment_plan_id_fk" FOREIGN KEY ("payment_plan_id") REFERENCES "public"."payment_plan"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+-- Create indexes
+CREATE UNIQUE INDEX "installment_reminder_installment_offset_unique" ON "installment_reminder"("installment_schedule_id", "offset_days");--> statement-breakpoint
+CREATE INDEX "installment_reminder_payment_plan_id_idx" ON "installment_reminder"("payment_plan_id");
@@ -0,0 +1,30 @@
+-- Migration: Plan renewals
+-- Links renewed pledges to the previous cycle and queues renewals for approval
+ALTER TABLE "pledge" ADD COLUMN "renewed_from_pledge_id" integer;--> statement-breakpoint
+ALTER TABLE "pledge" ADD CONSTRAINT "pledge_renewed_from_pledge_id_pledge_id_fk" FOREIGN KEY ("renewed_from_pledge_id") REFERENCES "public"."pledge"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "pledge_renewed_from_pledge_id_idx" ON "pledge"("renewed_from_pledge_id");--> statement-breakpoint
+CREATE TYPE "public"."renewal_status" AS ENUM('pending', 'approved', 'declined');--> statement-breakpoint
+CREATE TABLE "plan_renewal" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"payment_plan_id" integer NOT NULL,
+	"status" "renewal_status" DEFAULT 'pending' NOT NULL,
+	"start_date" date NOT NULL,
+	"frequency" "frequency" NOT NULL,
+	"installment_amount" numeric(10, 2) NOT NULL,
+	"number_of_installments" integer NOT NULL,
+	"currency" "currency" NOT NULL,
+	"new_pledge_id" integer,
+	"new_payment_plan_id" integer,
+	"decided_by" integer,
+	"decided_at" timestamp,
+	"decline_reason" text,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL,
+	CONSTRAINT "plan_renewal_payment_plan_id_unique" UNIQUE("payment_plan_id")
+);--> statement-breakpoint
+ALTER TABLE "plan_renewal" ADD CONSTRAINT "plan_renewal_payment_plan_id_payment_plan_id_fk" FOREIGN KEY ("payment_plan_id") REFERENCES "public"."payment_plan"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "plan_renewal" ADD CONSTRAINT "plan_renewal_new_pledge_id_pledge_id_fk" FOREIGN KEY ("new_pledge_id") REFERENCES "public"."pledge"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "plan_renewal" ADD CONSTRAINT "plan_renewal_new_payment_plan_id_payment_plan_id_fk" FOREIGN KEY ("new_payment_plan_id") REFERENCES "public"."payment_plan"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "plan_renewal" ADD CONSTRAINT "plan_renewal_decided_by_user_id_fk" FOREIGN KEY ("decided_by") REFERENCES "public"."user"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+-- Create indexes
+CREATE INDEX "plan_renewal_status_idx" ON "plan_renewal"("status");
@@ -0,0 +1,3 @@
+-- Migration: Plan recurrence rules
+-- Stores the rule a payment plan's installment dates were expanded from
+ALTER TABLE "payment_plan" ADD COLUMN "recurrence_rule" jsonb;
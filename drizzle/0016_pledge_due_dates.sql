@@ -0,0 +1,3 @@
+-- Migration: Pledge due dates
+-- Date a pledge is expected to be paid by, entered on either calendar
+ALTER TABLE "pledge" ADD COLUMN "due_date" date;
@@ -0,0 +1,51 @@
+-- Migration: Memorials and dedications
+-- Memorials with the Hebrew date of passing, yahrzeit reminders, and
+-- "in honor of" / "in memory of" dedications on pledges, payments and receipts
+CREATE TYPE "public"."dedication_type" AS ENUM('in_honor_of', 'in_memory_of');--> statement-breakpoint
+CREATE TABLE "memorial" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"contact_id" integer NOT NULL,
+	"pledge_id" integer,
+	"deceased_name" text NOT NULL,
+	"deceased_hebrew_name" text,
+	"relationship" text,
+	"date_of_passing" date NOT NULL,
+	"after_sunset" boolean DEFAULT false NOT NULL,
+	"hebrew_day" integer NOT NULL,
+	"hebrew_month" integer NOT NULL,
+	"hebrew_year" integer NOT NULL,
+	"reminders_enabled" boolean DEFAULT true NOT NULL,
+	"is_active" boolean DEFAULT true NOT NULL,
+	"notes" text,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL
+);--> statement-breakpoint
+CREATE TABLE "yahrzeit_reminder" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"memorial_id" integer NOT NULL,
+	"hebrew_year" integer NOT NULL,
+	"yahrzeit_date" date NOT NULL,
+	"status" "reminder_status" DEFAULT 'sending' NOT NULL,
+	"recipient" text NOT NULL,
+	"transport" text NOT NULL,
+	"subject" text NOT NULL,
+	"sent_at" timestamp,
+	"created_at" timestamp DEFAULT now() NOT NULL
+);--> statement-breakpoint
+ALTER TABLE "pledge" ADD COLUMN "dedication_type" "dedication_type";--> statement-breakpoint
+ALTER TABLE "pledge" ADD COLUMN "dedication_name" text;--> statement-breakpoint
+ALTER TABLE "pledge" ADD COLUMN "memorial_id" integer;--> statement-breakpoint
+ALTER TABLE "payment" ADD COLUMN "dedication_type" "dedication_type";--> statement-breakpoint
+ALTER TABLE "payment" ADD COLUMN "dedication_name" text;--> statement-breakpoint
+ALTER TABLE "payment" ADD COLUMN "memorial_id" integer;--> statement-breakpoint
+ALTER TABLE "donation_receipt" ADD COLUMN "dedication" text;--> statement-breakpoint
+ALTER TABLE "memorial" ADD CONSTRAINT "memorial_contact_id_contact_id_fk" FOREIGN KEY ("contact_id") REFERENCES "public"."contact"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "memorial" ADD CONSTRAINT "memorial_pledge_id_pledge_id_fk" FOREIGN KEY ("pledge_id") REFERENCES "public"."pledge"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "yahrzeit_reminder" ADD CONSTRAINT "yahrzeit_reminder_memorial_id_memorial_id_fk" FOREIGN KEY ("memorial_id") REFERENCES "public"."memorial"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "pledge" ADD CONSTRAINT "pledge_memorial_id_memorial_id_fk" FOREIGN KEY ("memorial_id") REFERENCES "public"."memorial"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "payment" ADD CONSTRAINT "payment_memorial_id_memorial_id_fk" FOREIGN KEY ("memorial_id") REFERENCES "public"."memorial"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+-- Create indexes
+CREATE INDEX "memorial_contact_id_idx" ON "memorial"("contact_id");--> statement-breakpoint
+CREATE INDEX "memorial_pledge_id_idx" ON "memorial"("pledge_id");--> statement-breakpoint
+CREATE UNIQUE INDEX "yahrzeit_reminder_memorial_year_unique" ON "yahrzeit_reminder"("memorial_id", "hebrew_year");--> statement-breakpoint
+CREATE INDEX "pledge_memorial_id_idx" ON "pledge"("memorial_id");
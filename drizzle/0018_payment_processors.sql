@@ -0,0 +1,57 @@
+-- Migration: Payment processors
+-- Tokenized cards and bank accounts, the processor transactions charged
+-- against them, and the saved method a payment plan collects with
+CREATE TYPE "public"."instrument_type" AS ENUM('card', 'ach');--> statement-breakpoint
+CREATE TYPE "public"."processor_transaction_type" AS ENUM('charge', 'refund');--> statement-breakpoint
+CREATE TYPE "public"."processor_transaction_status" AS ENUM('pending', 'approved', 'declined', 'failed');--> statement-breakpoint
+CREATE TABLE "saved_payment_method" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"contact_id" integer NOT NULL,
+	"processor" text NOT NULL,
+	"token" text NOT NULL,
+	"type" "instrument_type" NOT NULL,
+	"brand" text,
+	"last4" text NOT NULL,
+	"expiry_month" integer,
+	"expiry_year" integer,
+	"holder_name" text,
+	"is_active" boolean DEFAULT true NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL
+);--> statement-breakpoint
+CREATE TABLE "processor_transaction" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"processor" text NOT NULL,
+	"type" "processor_transaction_type" NOT NULL,
+	"status" "processor_transaction_status" DEFAULT 'pending' NOT NULL,
+	"idempotency_key" text NOT NULL,
+	"external_id" text,
+	"amount" numeric(10, 2) NOT NULL,
+	"currency" "currency" NOT NULL,
+	"saved_payment_method_id" integer,
+	"payment_plan_id" integer,
+	"installment_schedule_id" integer,
+	"payment_id" integer,
+	"charge_transaction_id" integer,
+	"failure_code" text,
+	"failure_message" text,
+	"settled_at" timestamp,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL,
+	CONSTRAINT "processor_transaction_idempotency_key_unique" UNIQUE("idempotency_key")
+);--> statement-breakpoint
+ALTER TABLE "payment_plan" ADD COLUMN "saved_payment_method_id" integer;--> statement-breakpoint
+ALTER TABLE "saved_payment_method" ADD CONSTRAINT "saved_payment_method_contact_id_contact_id_fk" FOREIGN KEY ("contact_id") REFERENCES "public"."contact"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "payment_plan" ADD CONSTRAINT "payment_plan_saved_payment_method_id_saved_payment_method_id_fk" FOREIGN KEY ("saved_payment_method_id") REFERENCES "public"."saved_payment_method"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "processor_transaction" ADD CONSTRAINT "processor_transaction_saved_payment_method_id_saved_payment_method_id_fk" FOREIGN KEY ("saved_payment_method_id") REFERENCES "public"."saved_payment_method"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "processor_transaction" ADD CONSTRAINT "processor_transaction_payment_plan_id_payment_plan_id_fk" FOREIGN KEY ("payment_plan_id") REFERENCES "public"."payment_plan"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "processor_transaction" ADD CONSTRAINT "processor_transaction_installment_schedule_id_installment_schedule_id_fk" FOREIGN KEY ("installment_schedule_id") REFERENCES "public"."installment_schedule"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "processor_transaction" ADD CONSTRAINT "processor_transaction_payment_id_payment_id_fk" FOREIGN KEY ("payment_id") REFERENCES "public"."payment"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "processor_transaction" ADD CONSTRAINT "processor_transaction_charge_transaction_id_processor_transaction_id_fk" FOREIGN KEY ("charge_transaction_id") REFERENCES "public"."processor_transaction"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+-- Create indexes
+CREATE INDEX "saved_payment_method_contact_id_idx" ON "saved_payment_method"("contact_id");--> statement-breakpoint
+CREATE UNIQUE INDEX "saved_payment_method_processor_token_unique" ON "saved_payment_method"("processor", "token");--> statement-breakpoint
+CREATE INDEX "processor_transaction_external_id_idx" ON "processor_transaction"("processor", "external_id");--> statement-breakpoint
+CREATE INDEX "processor_transaction_installment_schedule_id_idx" ON "processor_transaction"("installment_schedule_id");--> statement-breakpoint
+CREATE INDEX "processor_transaction_payment_id_idx" ON "processor_transaction"("payment_id");--> statement-breakpoint
+CREATE INDEX "processor_transaction_status_idx" ON "processor_transaction"("status");
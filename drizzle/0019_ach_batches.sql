@@ -0,0 +1,50 @@
+-- Migration: NACHA ACH batches
+-- Debit files generated for bank-account plans, the entries in each file and
+-- the account details those files need
+CREATE TYPE "public"."ach_entry_status" AS ENUM('submitted', 'settled', 'returned');--> statement-breakpoint
+ALTER TABLE "saved_payment_method" ADD COLUMN "routing_number" text;--> statement-breakpoint
+ALTER TABLE "saved_payment_method" ADD COLUMN "account_number" text;--> statement-breakpoint
+CREATE TABLE "ach_batch" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"location_id" text,
+	"from_date" date NOT NULL,
+	"to_date" date NOT NULL,
+	"effective_date" date NOT NULL,
+	"entry_count" integer NOT NULL,
+	"total_amount" numeric(12, 2) NOT NULL,
+	"file_name" text NOT NULL,
+	"file_contents" text NOT NULL,
+	"created_by" integer,
+	"settled_at" timestamp,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL
+);--> statement-breakpoint
+CREATE TABLE "ach_batch_entry" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"batch_id" integer NOT NULL,
+	"payment_id" integer,
+	"installment_schedule_id" integer,
+	"payment_plan_id" integer,
+	"saved_payment_method_id" integer,
+	"trace_number" text NOT NULL,
+	"amount" numeric(10, 2) NOT NULL,
+	"status" "ach_entry_status" DEFAULT 'submitted' NOT NULL,
+	"return_code" text,
+	"return_reason" text,
+	"returned_at" timestamp,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL,
+	CONSTRAINT "ach_batch_entry_trace_number_unique" UNIQUE("trace_number")
+);--> statement-breakpoint
+ALTER TABLE "ach_batch" ADD CONSTRAINT "ach_batch_created_by_user_id_fk" FOREIGN KEY ("created_by") REFERENCES "public"."user"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "ach_batch_entry" ADD CONSTRAINT "ach_batch_entry_batch_id_ach_batch_id_fk" FOREIGN KEY ("batch_id") REFERENCES "public"."ach_batch"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "ach_batch_entry" ADD CONSTRAINT "ach_batch_entry_payment_id_payment_id_fk" FOREIGN KEY ("payment_id") REFERENCES "public"."payment"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "ach_batch_entry" ADD CONSTRAINT "ach_batch_entry_installment_schedule_id_installment_schedule_id_fk" FOREIGN KEY ("installment_schedule_id") REFERENCES "public"."installment_schedule"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "ach_batch_entry" ADD CONSTRAINT "ach_batch_entry_payment_plan_id_payment_plan_id_fk" FOREIGN KEY ("payment_plan_id") REFERENCES "public"."payment_plan"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "ach_batch_entry" ADD CONSTRAINT "ach_batch_entry_saved_payment_method_id_saved_payment_method_id_fk" FOREIGN KEY ("saved_payment_method_id") REFERENCES "public"."saved_payment_method"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+-- Create indexes
+CREATE INDEX "ach_batch_location_id_idx" ON "ach_batch"("location_id");--> statement-breakpoint
+CREATE INDEX "ach_batch_created_at_idx" ON "ach_batch"("created_at");--> statement-breakpoint
+CREATE INDEX "ach_batch_entry_batch_id_idx" ON "ach_batch_entry"("batch_id");--> statement-breakpoint
+CREATE INDEX "ach_batch_entry_installment_schedule_id_idx" ON "ach_batch_entry"("installment_schedule_id");--> statement-breakpoint
+CREATE INDEX "ach_batch_entry_payment_id_idx" ON "ach_batch_entry"("payment_id");
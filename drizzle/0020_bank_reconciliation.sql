@@ -0,0 +1,56 @@
+-- Migration: Bank statement reconciliation
+-- Imported statements, their deposit lines and the reconciled flag and
+-- deposit link on payments
+CREATE TYPE "public"."bank_statement_format" AS ENUM('csv', 'ofx');--> statement-breakpoint
+CREATE TYPE "public"."bank_line_status" AS ENUM('unmatched', 'review', 'matched', 'ignored');--> statement-breakpoint
+CREATE TYPE "public"."bank_match_method" AS ENUM('auto', 'manual', 'created');--> statement-breakpoint
+CREATE TABLE "bank_statement" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"location_id" text,
+	"file_name" text NOT NULL,
+	"format" "bank_statement_format" NOT NULL,
+	"currency" "currency" DEFAULT 'USD' NOT NULL,
+	"period_start" date,
+	"period_end" date,
+	"line_count" integer NOT NULL,
+	"duplicate_count" integer DEFAULT 0 NOT NULL,
+	"imported_by" integer,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL
+);--> statement-breakpoint
+CREATE TABLE "bank_statement_line" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"statement_id" integer NOT NULL,
+	"posted_date" date NOT NULL,
+	"amount" numeric(12, 2) NOT NULL,
+	"description" text,
+	"reference_number" text,
+	"check_number" text,
+	"bank_transaction_id" text,
+	"dedupe_key" text NOT NULL,
+	"status" "bank_line_status" DEFAULT 'unmatched' NOT NULL,
+	"payment_id" integer,
+	"match_method" "bank_match_method",
+	"candidate_payment_ids" jsonb,
+	"match_note" text,
+	"reconciled_by" integer,
+	"reconciled_at" timestamp,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL
+);--> statement-breakpoint
+ALTER TABLE "payment" ADD COLUMN "is_reconciled" boolean DEFAULT false NOT NULL;--> statement-breakpoint
+ALTER TABLE "payment" ADD COLUMN "bank_deposit_id" integer;--> statement-breakpoint
+ALTER TABLE "payment" ADD COLUMN "reconciled_at" timestamp;--> statement-breakpoint
+ALTER TABLE "bank_statement" ADD CONSTRAINT "bank_statement_imported_by_user_id_fk" FOREIGN KEY ("imported_by") REFERENCES "public"."user"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "bank_statement_line" ADD CONSTRAINT "bank_statement_line_statement_id_bank_statement_id_fk" FOREIGN KEY ("statement_id") REFERENCES "public"."bank_statement"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "bank_statement_line" ADD CONSTRAINT "bank_statement_line_payment_id_payment_id_fk" FOREIGN KEY ("payment_id") REFERENCES "public"."payment"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "bank_statement_line" ADD CONSTRAINT "bank_statement_line_reconciled_by_user_id_fk" FOREIGN KEY ("reconciled_by") REFERENCES "public"."user"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "payment" ADD CONSTRAINT "payment_bank_deposit_id_bank_statement_line_id_fk" FOREIGN KEY ("bank_deposit_id") REFERENCES "public"."bank_statement_line"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+-- Create indexes
+CREATE INDEX "bank_statement_location_id_idx" ON "bank_statement"("location_id");--> statement-breakpoint
+CREATE INDEX "bank_statement_created_at_idx" ON "bank_statement"("created_at");--> statement-breakpoint
+CREATE INDEX "bank_statement_line_statement_id_idx" ON "bank_statement_line"("statement_id");--> statement-breakpoint
+CREATE INDEX "bank_statement_line_status_idx" ON "bank_statement_line"("status");--> statement-breakpoint
+CREATE INDEX "bank_statement_line_dedupe_key_idx" ON "bank_statement_line"("dedupe_key");--> statement-breakpoint
+CREATE UNIQUE INDEX "bank_statement_line_payment_id_idx" ON "bank_statement_line"("payment_id");--> statement-breakpoint
+CREATE INDEX "payment_bank_deposit_id_idx" ON "payment"("bank_deposit_id");
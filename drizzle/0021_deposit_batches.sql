@@ -0,0 +1,28 @@
+-- Migration: Check deposit batches
+-- Batches of checks keyed in against one deposit slip, and the link from
+-- each payment to the batch that locks it once closed
+CREATE TYPE "public"."deposit_batch_status" AS ENUM('open', 'closed');--> statement-breakpoint
+CREATE TABLE "deposit_batch" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"location_id" text,
+	"deposit_date" date NOT NULL,
+	"currency" "currency" DEFAULT 'USD' NOT NULL,
+	"slip_total" numeric(12, 2),
+	"status" "deposit_batch_status" DEFAULT 'open' NOT NULL,
+	"notes" text,
+	"opened_by" integer,
+	"closed_by" integer,
+	"closed_at" timestamp,
+	"exported_at" timestamp,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL
+);--> statement-breakpoint
+ALTER TABLE "payment" ADD COLUMN "deposit_batch_id" integer;--> statement-breakpoint
+ALTER TABLE "deposit_batch" ADD CONSTRAINT "deposit_batch_opened_by_user_id_fk" FOREIGN KEY ("opened_by") REFERENCES "public"."user"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "deposit_batch" ADD CONSTRAINT "deposit_batch_closed_by_user_id_fk" FOREIGN KEY ("closed_by") REFERENCES "public"."user"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "payment" ADD CONSTRAINT "payment_deposit_batch_id_deposit_batch_id_fk" FOREIGN KEY ("deposit_batch_id") REFERENCES "public"."deposit_batch"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+-- Create indexes
+CREATE INDEX "deposit_batch_location_id_idx" ON "deposit_batch"("location_id");--> statement-breakpoint
+CREATE INDEX "deposit_batch_status_idx" ON "deposit_batch"("status");--> statement-breakpoint
+CREATE INDEX "deposit_batch_deposit_date_idx" ON "deposit_batch"("deposit_date");--> statement-breakpoint
+CREATE INDEX "payment_deposit_batch_id_idx" ON "payment"("deposit_batch_id");
@@ -0,0 +1,36 @@
+-- Migration: Payment refunds and chargebacks
+-- Refunds recorded against the original payment, with the share taken off
+-- each allocation when the payment was split across pledges
+CREATE TYPE "public"."refund_type" AS ENUM('refund', 'chargeback');--> statement-breakpoint
+CREATE TABLE "payment_refund" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"payment_id" integer NOT NULL,
+	"type" "refund_type" DEFAULT 'refund' NOT NULL,
+	"amount" numeric(10, 2) NOT NULL,
+	"currency" "currency" NOT NULL,
+	"amount_usd" numeric(10, 2),
+	"amount_in_pledge_currency" numeric(10, 2),
+	"reason" text NOT NULL,
+	"refund_date" date NOT NULL,
+	"reference_number" text,
+	"created_by" integer,
+	"created_at" timestamp DEFAULT now() NOT NULL
+);--> statement-breakpoint
+CREATE TABLE "payment_refund_allocation" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"refund_id" integer NOT NULL,
+	"allocation_id" integer NOT NULL,
+	"amount" numeric(10, 2) NOT NULL,
+	"amount_usd" numeric(10, 2),
+	"amount_in_pledge_currency" numeric(10, 2)
+);--> statement-breakpoint
+ALTER TABLE "payment_refund" ADD CONSTRAINT "payment_refund_payment_id_payment_id_fk" FOREIGN KEY ("payment_id") REFERENCES "public"."payment"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "payment_refund" ADD CONSTRAINT "payment_refund_created_by_user_id_fk" FOREIGN KEY ("created_by") REFERENCES "public"."user"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "payment_refund_allocation" ADD CONSTRAINT "payment_refund_allocation_refund_id_payment_refund_id_fk" FOREIGN KEY ("refund_id") REFERENCES "public"."payment_refund"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "payment_refund_allocation" ADD CONSTRAINT "payment_refund_allocation_allocation_id_payment_allocations_id_fk" FOREIGN KEY ("allocation_id") REFERENCES "public"."payment_allocations"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+
+-- Create indexes
+CREATE INDEX "payment_refund_payment_id_idx" ON "payment_refund"("payment_id");--> statement-breakpoint
+CREATE INDEX "payment_refund_refund_date_idx" ON "payment_refund"("refund_date");--> statement-breakpoint
+CREATE INDEX "payment_refund_allocation_refund_id_idx" ON "payment_refund_allocation"("refund_id");--> statement-breakpoint
+CREATE INDEX "payment_refund_allocation_allocation_id_idx" ON "payment_refund_allocation"("allocation_id");
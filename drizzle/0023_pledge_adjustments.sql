@@ -0,0 +1,35 @@
+-- Migration: Pledge write-offs and reductions
+-- Adjustments awaiting or holding approval, and the approved total carried
+-- on the pledge so its balance stays net while original_amount is kept
+CREATE TYPE "public"."pledge_adjustment_type" AS ENUM('write_off', 'reduction');--> statement-breakpoint
+CREATE TYPE "public"."pledge_adjustment_reason" AS ENUM('uncollectible', 'donor_deceased', 'financial_hardship', 'disputed', 'duplicate', 'donor_request', 'other');--> statement-breakpoint
+CREATE TYPE "public"."pledge_adjustment_status" AS ENUM('pending', 'approved', 'declined', 'reversed');--> statement-breakpoint
+CREATE TABLE "pledge_adjustment" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"pledge_id" integer NOT NULL,
+	"type" "pledge_adjustment_type" NOT NULL,
+	"reason_code" "pledge_adjustment_reason" NOT NULL,
+	"status" "pledge_adjustment_status" DEFAULT 'pending' NOT NULL,
+	"amount" numeric(10, 2) NOT NULL,
+	"amount_usd" numeric(10, 2),
+	"effective_date" date NOT NULL,
+	"notes" text,
+	"requested_by" integer,
+	"approved_by" integer,
+	"approved_at" timestamp,
+	"closed_by" integer,
+	"closed_at" timestamp,
+	"close_reason" text,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL
+);--> statement-breakpoint
+ALTER TABLE "pledge" ADD COLUMN "total_adjusted" numeric(10, 2) DEFAULT '0' NOT NULL;--> statement-breakpoint
+ALTER TABLE "pledge" ADD COLUMN "total_adjusted_usd" numeric(10, 2) DEFAULT '0';--> statement-breakpoint
+ALTER TABLE "pledge_adjustment" ADD CONSTRAINT "pledge_adjustment_pledge_id_pledge_id_fk" FOREIGN KEY ("pledge_id") REFERENCES "public"."pledge"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "pledge_adjustment" ADD CONSTRAINT "pledge_adjustment_requested_by_user_id_fk" FOREIGN KEY ("requested_by") REFERENCES "public"."user"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "pledge_adjustment" ADD CONSTRAINT "pledge_adjustment_approved_by_user_id_fk" FOREIGN KEY ("approved_by") REFERENCES "public"."user"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "pledge_adjustment" ADD CONSTRAINT "pledge_adjustment_closed_by_user_id_fk" FOREIGN KEY ("closed_by") REFERENCES "public"."user"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+-- Create indexes
+CREATE INDEX "pledge_adjustment_pledge_id_idx" ON "pledge_adjustment"("pledge_id");--> statement-breakpoint
+CREATE INDEX "pledge_adjustment_status_idx" ON "pledge_adjustment"("status");--> statement-breakpoint
+CREATE INDEX "pledge_adjustment_effective_date_idx" ON "pledge_adjustment"("effective_date");
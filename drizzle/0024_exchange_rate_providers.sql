@@ -0,0 +1,18 @@
+-- Migration: Exchange rate sources and monthly rate locks
+-- Stored rates record whether they came from the API, a manual entry or a
+-- file import, and admins can lock one official rate per currency and month
+CREATE TYPE "public"."exchange_rate_source" AS ENUM('api', 'manual', 'import');--> statement-breakpoint
+ALTER TABLE "exchange_rate" ADD COLUMN "source" "exchange_rate_source" DEFAULT 'api' NOT NULL;--> statement-breakpoint
+CREATE TABLE "exchange_rate_lock" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"currency" "currency" NOT NULL,
+	"month" date NOT NULL,
+	"rate" numeric(18, 6) NOT NULL,
+	"note" text,
+	"locked_by" integer,
+	"created_at" timestamp DEFAULT now() NOT NULL
+);--> statement-breakpoint
+ALTER TABLE "exchange_rate_lock" ADD CONSTRAINT "exchange_rate_lock_locked_by_user_id_fk" FOREIGN KEY ("locked_by") REFERENCES "public"."user"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+
+-- Create indexes
+CREATE UNIQUE INDEX "exchange_rate_lock_currency_month_idx" ON "exchange_rate_lock"("currency", "month");
@@ -0,0 +1,10 @@
+-- Migration: Store every exchange rate with six decimals
+-- Pledge and plan rates were kept with two decimals and payment rates with
+-- four, which lost most of the precision of rates such as JPY per USD and
+-- left converted amounts that could not be reproduced from the stored rate
+ALTER TABLE "pledge" ALTER COLUMN "exchange_rate" SET DATA TYPE numeric(18, 6);--> statement-breakpoint
+ALTER TABLE "payment_plan" ALTER COLUMN "exchange_rate" SET DATA TYPE numeric(18, 6);--> statement-breakpoint
+ALTER TABLE "payment" ALTER COLUMN "exchange_rate" SET DATA TYPE numeric(18, 6);--> statement-breakpoint
+ALTER TABLE "payment" ALTER COLUMN "pledge_currency_exchange_rate" SET DATA TYPE numeric(18, 6);--> statement-breakpoint
+ALTER TABLE "payment" ALTER COLUMN "plan_currency_exchange_rate" SET DATA TYPE numeric(18, 6);--> statement-breakpoint
+ALTER TABLE "currency_conversion_log" ALTER COLUMN "exchange_rate" SET DATA TYPE numeric(18, 6);
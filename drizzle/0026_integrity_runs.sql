@@ -0,0 +1,48 @@
+-- Migration: Integrity checker runs and the issues each one found
+-- Runs start from the admin page or the nightly job; each issue keeps the
+-- fix proposed for it and whether it was applied
+CREATE TYPE "public"."integrity_run_trigger" AS ENUM('manual', 'scheduled');--> statement-breakpoint
+CREATE TYPE "public"."integrity_run_status" AS ENUM('running', 'completed', 'failed');--> statement-breakpoint
+CREATE TYPE "public"."integrity_severity" AS ENUM('critical', 'warning');--> statement-breakpoint
+CREATE TYPE "public"."integrity_issue_status" AS ENUM('open', 'fixed', 'failed');--> statement-breakpoint
+CREATE TABLE "integrity_run" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"trigger" "integrity_run_trigger" NOT NULL,
+	"status" "integrity_run_status" DEFAULT 'running' NOT NULL,
+	"started_by" integer,
+	"started_at" timestamp DEFAULT now() NOT NULL,
+	"finished_at" timestamp,
+	"total_issues" integer DEFAULT 0 NOT NULL,
+	"critical_issues" integer DEFAULT 0 NOT NULL,
+	"warning_issues" integer DEFAULT 0 NOT NULL,
+	"affected_contacts" integer DEFAULT 0 NOT NULL,
+	"new_critical_issues" integer DEFAULT 0 NOT NULL,
+	"alerted_at" timestamp,
+	"error" text
+);--> statement-breakpoint
+CREATE TABLE "integrity_issue" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"run_id" integer NOT NULL,
+	"issue_key" text NOT NULL,
+	"type" text NOT NULL,
+	"severity" "integrity_severity" NOT NULL,
+	"contact_id" integer,
+	"contact_name" text,
+	"record_type" text NOT NULL,
+	"record_id" integer NOT NULL,
+	"description" text NOT NULL,
+	"fix" jsonb,
+	"status" "integrity_issue_status" DEFAULT 'open' NOT NULL,
+	"fixed_by" integer,
+	"fixed_at" timestamp,
+	"fix_error" text
+);--> statement-breakpoint
+ALTER TABLE "integrity_run" ADD CONSTRAINT "integrity_run_started_by_user_id_fk" FOREIGN KEY ("started_by") REFERENCES "public"."user"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "integrity_issue" ADD CONSTRAINT "integrity_issue_run_id_integrity_run_id_fk" FOREIGN KEY ("run_id") REFERENCES "public"."integrity_run"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "integrity_issue" ADD CONSTRAINT "integrity_issue_contact_id_contact_id_fk" FOREIGN KEY ("contact_id") REFERENCES "public"."contact"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "integrity_issue" ADD CONSTRAINT "integrity_issue_fixed_by_user_id_fk" FOREIGN KEY ("fixed_by") REFERENCES "public"."user"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+
+-- Create indexes
+CREATE INDEX "integrity_run_started_at_idx" ON "integrity_run"("started_at");--> statement-breakpoint
+CREATE INDEX "integrity_issue_run_id_idx" ON "integrity_issue"("run_id");--> statement-breakpoint
+CREATE INDEX "integrity_issue_issue_key_idx" ON "integrity_issue"("issue_key");
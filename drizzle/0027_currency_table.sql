@@ -0,0 +1,54 @@
+-- Migration: Currencies as reference data instead of an enum
+-- Adding a currency becomes a row an admin enables, not an enum migration.
+-- Rows without a location apply everywhere; a location's own row for the
+-- same code overrides it there
+CREATE TABLE "currency" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"code" varchar(3) NOT NULL,
+	"name" text NOT NULL,
+	"symbol" text NOT NULL,
+	"minor_units" integer DEFAULT 2 NOT NULL,
+	"is_active" boolean DEFAULT true NOT NULL,
+	"location_id" text,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL,
+	CONSTRAINT "currency_code_location_unique" UNIQUE NULLS NOT DISTINCT("code", "location_id")
+);--> statement-breakpoint
+
+INSERT INTO "currency" ("code", "name", "symbol", "minor_units") VALUES
+	('USD', 'US Dollar', '$', 2),
+	('ILS', 'Israeli New Shekel', '₪', 2),
+	('EUR', 'Euro', '€', 2),
+	('JPY', 'Japanese Yen', '¥', 0),
+	('GBP', 'British Pound', '£', 2),
+	('AUD', 'Australian Dollar', 'A$', 2),
+	('CAD', 'Canadian Dollar', 'C$', 2),
+	('ZAR', 'South African Rand', 'R', 2);--> statement-breakpoint
+
+-- Currency columns keep their values as plain ISO codes
+ALTER TABLE "pledge" ALTER COLUMN "currency" DROP DEFAULT;--> statement-breakpoint
+ALTER TABLE "pledge" ALTER COLUMN "currency" TYPE varchar(3) USING "currency"::text;--> statement-breakpoint
+ALTER TABLE "pledge" ALTER COLUMN "currency" SET DEFAULT 'USD';--> statement-breakpoint
+ALTER TABLE "payment_plan" ALTER COLUMN "currency" TYPE varchar(3) USING "currency"::text;--> statement-breakpoint
+ALTER TABLE "plan_renewal" ALTER COLUMN "currency" TYPE varchar(3) USING "currency"::text;--> statement-breakpoint
+ALTER TABLE "exchange_rate" ALTER COLUMN "base_currency" DROP DEFAULT;--> statement-breakpoint
+ALTER TABLE "exchange_rate" ALTER COLUMN "base_currency" TYPE varchar(3) USING "base_currency"::text;--> statement-breakpoint
+ALTER TABLE "exchange_rate" ALTER COLUMN "base_currency" SET DEFAULT 'USD';--> statement-breakpoint
+ALTER TABLE "exchange_rate" ALTER COLUMN "target_currency" TYPE varchar(3) USING "target_currency"::text;--> statement-breakpoint
+ALTER TABLE "exchange_rate_lock" ALTER COLUMN "currency" TYPE varchar(3) USING "currency"::text;--> statement-breakpoint
+ALTER TABLE "installment_schedule" ALTER COLUMN "currency" TYPE varchar(3) USING "currency"::text;--> statement-breakpoint
+ALTER TABLE "payment" ALTER COLUMN "currency" TYPE varchar(3) USING "currency"::text;--> statement-breakpoint
+ALTER TABLE "processor_transaction" ALTER COLUMN "currency" TYPE varchar(3) USING "currency"::text;--> statement-breakpoint
+ALTER TABLE "bank_statement" ALTER COLUMN "currency" DROP DEFAULT;--> statement-breakpoint
+ALTER TABLE "bank_statement" ALTER COLUMN "currency" TYPE varchar(3) USING "currency"::text;--> statement-breakpoint
+ALTER TABLE "bank_statement" ALTER COLUMN "currency" SET DEFAULT 'USD';--> statement-breakpoint
+ALTER TABLE "deposit_batch" ALTER COLUMN "currency" DROP DEFAULT;--> statement-breakpoint
+ALTER TABLE "deposit_batch" ALTER COLUMN "currency" TYPE varchar(3) USING "currency"::text;--> statement-breakpoint
+ALTER TABLE "deposit_batch" ALTER COLUMN "currency" SET DEFAULT 'USD';--> statement-breakpoint
+ALTER TABLE "payment_allocations" ALTER COLUMN "currency" TYPE varchar(3) USING "currency"::text;--> statement-breakpoint
+ALTER TABLE "payment_refund" ALTER COLUMN "currency" TYPE varchar(3) USING "currency"::text;--> statement-breakpoint
+ALTER TABLE "currency_conversion_log" ALTER COLUMN "from_currency" TYPE varchar(3) USING "from_currency"::text;--> statement-breakpoint
+ALTER TABLE "currency_conversion_log" ALTER COLUMN "to_currency" TYPE varchar(3) USING "to_currency"::text;--> statement-breakpoint
+ALTER TABLE "donation_receipt" ALTER COLUMN "currency" TYPE varchar(3) USING "currency"::text;--> statement-breakpoint
+
+DROP TYPE "public"."currency";
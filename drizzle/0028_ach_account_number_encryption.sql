@@ -0,0 +1,8 @@
+-- Migration: No full bank account numbers at rest
+-- NACHA accounts keep their number encrypted with the app's
+-- ACH_ACCOUNT_NUMBER_KEY, and batch files are rebuilt from their entries on
+-- download. The key is not available here, so the plaintext column stays
+-- until `tsx scripts/encrypt-ach-account-numbers.ts` has encrypted its
+-- values and dropped it
+ALTER TABLE "saved_payment_method" ADD COLUMN "account_number_encrypted" text;--> statement-breakpoint
+ALTER TABLE "ach_batch" DROP COLUMN "file_contents";
@@ -0,0 +1,10 @@
+-- Migration: A trace number of its own for each file's offset credit
+-- Every file used to carry the same trace number on the balancing credit.
+-- Existing batches draw one from the entry sequence, behind their first
+-- entry's originating bank
+ALTER TABLE "ach_batch" ADD COLUMN "offset_trace_number" text;--> statement-breakpoint
+UPDATE "ach_batch" SET "offset_trace_number" = (
+	SELECT left(min("trace_number"), 8) FROM "ach_batch_entry" WHERE "ach_batch_entry"."batch_id" = "ach_batch"."id"
+) || lpad((nextval(pg_get_serial_sequence('ach_batch_entry', 'id')) % 10000000)::text, 7, '0');--> statement-breakpoint
+ALTER TABLE "ach_batch" ALTER COLUMN "offset_trace_number" SET NOT NULL;--> statement-breakpoint
+ALTER TABLE "ach_batch" ADD CONSTRAINT "ach_batch_offset_trace_number_unique" UNIQUE("offset_trace_number");
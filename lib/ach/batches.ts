@@ -0,0 +1,517 @@
+import { createCipheriv, createDecipheriv, randomBytes } from "node:crypto";
+import { format, parseISO } from "date-fns";
+import { and, between, eq, inArray, isNotNull, sql, type SQL } from "drizzle-orm";
+import { db, withTransaction, type Transaction } from "@/lib/db";
+import {
+  achBatch,
+  achBatchEntry,
+  contact,
+  installmentSchedule,
+  payment,
+  paymentPlan,
+  pledge,
+  savedPaymentMethod,
+  type AchBatch,
+  type AchBatchEntry,
+} from "@/lib/db/schema";
+import { decimal, sumMoney } from "@/lib/money";
+import { updatePaymentPlanTotals, updatePledgeTotals } from "@/lib/payment-totals";
+import {
+  describeSavedMethod,
+  failInstallmentPayment,
+  recordInstallmentPayment,
+} from "@/lib/payment-plans/installment-payments";
+import {
+  NACHA_PROCESSOR,
+  RETURN_REASONS,
+  buildNachaFile,
+  parseReturnFile,
+  traceNumber,
+  type AchAccountType,
+  type NachaConfig,
+} from "@/lib/ach/nacha";
+import { DomainError } from "@/lib/error-handler";
+
+export class AchError extends DomainError {
+  constructor(message: string, statusCode: 400 | 404 | 409) {
+    super(message, statusCode);
+    this.name = "AchError";
+  }
+}
+
+const RUNNING_STATUSES = ["active", "overdue"] as const;
+
+const ACCOUNT_CIPHER = "aes-256-gcm";
+
+function accountNumberKey(): Buffer {
+  const key = Buffer.from(process.env.ACH_ACCOUNT_NUMBER_KEY ?? "", "base64");
+  if (key.length !== 32) {
+    throw new AchError("ACH accounts are not set up; ACH_ACCOUNT_NUMBER_KEY must be 32 bytes, base64 encoded", 400);
+  }
+  return key;
+}
+
+/**
+ * Encrypts a bank account number for storage. Only the NACHA file needs the
+ * full number, so it is decrypted when a file is downloaded and nowhere else.
+ */
+export function sealAccountNumber(accountNumber: string): string {
+  const iv = randomBytes(12);
+  const cipher = createCipheriv(ACCOUNT_CIPHER, accountNumberKey(), iv);
+  const encrypted = Buffer.concat([cipher.update(accountNumber, "utf8"), cipher.final()]);
+  return [iv, cipher.getAuthTag(), encrypted].map((part) => part.toString("base64")).join(".");
+}
+
+function openAccountNumber(sealed: string): string {
+  const [iv, tag, encrypted] = sealed.split(".").map((part) => Buffer.from(part, "base64"));
+  const decipher = createDecipheriv(ACCOUNT_CIPHER, accountNumberKey(), iv);
+  decipher.setAuthTag(tag);
+  return Buffer.concat([decipher.update(encrypted), decipher.final()]).toString("utf8");
+}
+
+const REQUIRED_SETTINGS = {
+  immediateDestination: "NACHA_IMMEDIATE_DESTINATION",
+  immediateDestinationName: "NACHA_IMMEDIATE_DESTINATION_NAME",
+  immediateOrigin: "NACHA_IMMEDIATE_ORIGIN",
+  companyName: "NACHA_COMPANY_NAME",
+  companyId: "NACHA_COMPANY_ID",
+  offsetRoutingNumber: "NACHA_OFFSET_ROUTING_NUMBER",
+  offsetAccountNumber: "NACHA_OFFSET_ACCOUNT_NUMBER",
+} as const;
+
+/**
+ * Originator details from the environment, as agreed with the bank. The
+ * originating DFI defaults to the destination bank, which is usual when
+ * that bank also holds the offset account.
+ */
+export function nachaConfigFromEnv(): NachaConfig {
+  const missing = Object.values(REQUIRED_SETTINGS).filter((name) => !process.env[name]);
+  if (missing.length > 0) {
+    throw new AchError(`ACH files are not set up; missing ${missing.join(", ")}`, 400);
+  }
+  const env = (key: keyof typeof REQUIRED_SETTINGS) => process.env[REQUIRED_SETTINGS[key]]!;
+  return {
+    immediateDestination: env("immediateDestination"),
+    immediateDestinationName: env("immediateDestinationName"),
+    immediateOrigin: env("immediateOrigin"),
+    immediateOriginName: process.env.NACHA_IMMEDIATE_ORIGIN_NAME || env("companyName"),
+    companyName: env("companyName"),
+    companyId: env("companyId"),
+    originatingDfi: process.env.NACHA_ORIGINATING_DFI || env("immediateDestination").slice(0, 8),
+    offsetRoutingNumber: env("offsetRoutingNumber"),
+    offsetAccountNumber: env("offsetAccountNumber"),
+    offsetAccountType: process.env.NACHA_OFFSET_ACCOUNT_TYPE === "savings" ? "savings" : "checking",
+    entryDescription: process.env.NACHA_ENTRY_DESCRIPTION || "DONATION",
+  };
+}
+
+export interface AchBatchRange {
+  fromDate: string;
+  toDate: string;
+  // null covers every location
+  locationId?: string | null;
+}
+
+export interface AchDebitCandidate {
+  installmentId: number;
+  installmentDate: string;
+  paymentPlanId: number;
+  contactId: number;
+  contactName: string;
+  amount: string;
+  currency: string;
+  methodDetail: string;
+}
+
+export interface AchSkipped {
+  installmentId: number;
+  paymentPlanId: number;
+  reason: string;
+}
+
+/**
+ * Open installments in the range on running plans set to a NACHA bank
+ * account, leaving out any already in a file that has not been returned.
+ */
+async function findDueDebits(client: typeof db | Transaction, range: AchBatchRange) {
+  const conditions: SQL[] = [
+    inArray(installmentSchedule.status, ["pending", "overdue"]),
+    between(installmentSchedule.installmentDate, range.fromDate, range.toDate),
+    inArray(paymentPlan.planStatus, [...RUNNING_STATUSES]),
+    eq(paymentPlan.isActive, true),
+    eq(savedPaymentMethod.processor, NACHA_PROCESSOR),
+    eq(savedPaymentMethod.isActive, true),
+    isNotNull(savedPaymentMethod.routingNumber),
+    isNotNull(savedPaymentMethod.accountNumberEncrypted),
+    sql`NOT EXISTS (
+      SELECT 1 FROM ${achBatchEntry}
+      WHERE ${achBatchEntry.installmentScheduleId} = ${installmentSchedule.id}
+        AND ${achBatchEntry.status} IN ('submitted', 'settled')
+    )`,
+  ];
+  if (range.locationId) conditions.push(eq(contact.locationId, range.locationId));
+
+  return client
+    .select({
+      installmentId: installmentSchedule.id,
+      installmentDate: installmentSchedule.installmentDate,
+      amount: installmentSchedule.installmentAmount,
+      currency: installmentSchedule.currency,
+      paymentPlanId: paymentPlan.id,
+      planCurrency: paymentPlan.currency,
+      relationshipId: paymentPlan.relationshipId,
+      pledgeId: pledge.id,
+      pledgeCurrency: pledge.currency,
+      contactId: contact.id,
+      contactName: sql<string>`TRIM(CONCAT(${contact.firstName}, ' ', ${contact.lastName}))`,
+      method: savedPaymentMethod,
+    })
+    .from(installmentSchedule)
+    .innerJoin(paymentPlan, eq(installmentSchedule.paymentPlanId, paymentPlan.id))
+    .innerJoin(savedPaymentMethod, eq(paymentPlan.savedPaymentMethodId, savedPaymentMethod.id))
+    .innerJoin(pledge, eq(paymentPlan.pledgeId, pledge.id))
+    .innerJoin(contact, eq(pledge.contactId, contact.id))
+    .where(and(...conditions))
+    .orderBy(installmentSchedule.installmentDate, installmentSchedule.id);
+}
+
+type DueDebit = Awaited<ReturnType<typeof findDueDebits>>[number];
+
+// NACHA moves US dollars only; other currencies stay for manual collection
+function splitByCurrency(rows: DueDebit[]): { debits: DueDebit[]; skipped: AchSkipped[] } {
+  const debits: DueDebit[] = [];
+  const skipped: AchSkipped[] = [];
+  for (const row of rows) {
+    if (row.currency === "USD") debits.push(row);
+    else
+      skipped.push({
+        installmentId: row.installmentId,
+        paymentPlanId: row.paymentPlanId,
+        reason: `ACH debits are in USD; installment is in ${row.currency}`,
+      });
+  }
+  return { debits, skipped };
+}
+
+// What a batch for the range would contain, without creating it
+export async function previewAchBatch(
+  range: AchBatchRange
+): Promise<{ debits: AchDebitCandidate[]; skipped: AchSkipped[]; totalAmount: string }> {
+  const { debits, skipped } = splitByCurrency(await findDueDebits(db, range));
+  return {
+    debits: debits.map((row) => ({
+      installmentId: row.installmentId,
+      installmentDate: row.installmentDate,
+      paymentPlanId: row.paymentPlanId,
+      contactId: row.contactId,
+      contactName: row.contactName,
+      amount: row.amount,
+      currency: row.currency,
+      methodDetail: describeSavedMethod(row.method),
+    })),
+    skipped,
+    totalAmount: sumMoney(
+      debits.map((row) => row.amount),
+      "USD"
+    ),
+  };
+}
+
+const accountTypeOf = (brand: string | null): AchAccountType => (brand === "Savings" ? "savings" : "checking");
+
+export interface GenerateAchBatchOptions extends AchBatchRange {
+  // Day the bank should debit the accounts, YYYY-MM-DD
+  effectiveDate: string;
+  createdBy: number | null;
+  config?: NachaConfig;
+}
+
+export interface GeneratedAchBatch {
+  batch: AchBatch;
+  entries: AchBatchEntry[];
+  skipped: AchSkipped[];
+}
+
+/**
+ * Records a NACHA batch for every ACH installment due in the range; the
+ * file itself is built from the entries when it is downloaded. Each installment's payment is recorded as
+ * processing, dated on the effective date with the entry's trace number as
+ * its reference, and the installment is marked paid; a return reverses
+ * both. Installments already in an earlier file are left out, so running
+ * the same range twice never debits anyone twice.
+ */
+export async function generateAchBatch(options: GenerateAchBatchOptions): Promise<GeneratedAchBatch> {
+  const config = options.config ?? nachaConfigFromEnv();
+  // Fails here rather than at download if the file could not be built
+  accountNumberKey();
+
+  return withTransaction(async (tx) => {
+    const { debits, skipped } = splitByCurrency(await findDueDebits(tx, options));
+    if (debits.length === 0) {
+      throw new AchError(`No ACH installments are due between ${options.fromDate} and ${options.toDate}`, 400);
+    }
+
+    // Entry ids are reserved up front so each trace number can carry one; the
+    // last is the offset credit's, which has no entry row
+    const reserved = await tx.execute(
+      sql`SELECT nextval(pg_get_serial_sequence('ach_batch_entry', 'id'))::int AS id
+        FROM generate_series(1, ${debits.length + 1})`
+    );
+    const entryIds = (reserved as unknown as { rows: { id: number }[] }).rows.map((row) => row.id);
+    const offsetId = entryIds.pop()!;
+
+    const [created] = await tx
+      .insert(achBatch)
+      .values({
+        locationId: options.locationId ?? null,
+        fromDate: options.fromDate,
+        toDate: options.toDate,
+        effectiveDate: options.effectiveDate,
+        entryCount: debits.length,
+        totalAmount: sumMoney(
+          debits.map((row) => row.amount),
+          "USD"
+        ),
+        fileName: "",
+        offsetTraceNumber: traceNumber(config.originatingDfi, offsetId),
+        createdBy: options.createdBy,
+      })
+      .returning();
+
+    const entries: AchBatchEntry[] = [];
+    for (const [index, row] of debits.entries()) {
+      const trace = traceNumber(config.originatingDfi, entryIds[index]);
+      const paymentId = await recordInstallmentPayment(tx, row, {
+        paymentDate: options.effectiveDate,
+        receivedDate: null,
+        paymentStatus: "processing",
+        paymentMethod: "ach",
+        methodDetail: describeSavedMethod(row.method),
+        referenceNumber: trace,
+      });
+      const [entry] = await tx
+        .insert(achBatchEntry)
+        .values({
+          id: entryIds[index],
+          batchId: created.id,
+          paymentId,
+          installmentScheduleId: row.installmentId,
+          paymentPlanId: row.paymentPlanId,
+          savedPaymentMethodId: row.method.id,
+          traceNumber: trace,
+          amount: row.amount,
+        })
+        .returning();
+      entries.push(entry);
+    }
+
+    const [batch] = await tx
+      .update(achBatch)
+      .set({ fileName: `ach-${options.effectiveDate}-${created.id}.txt`, updatedAt: new Date() })
+      .where(eq(achBatch.id, created.id))
+      .returning();
+
+    for (const planId of new Set(debits.map((row) => row.paymentPlanId))) {
+      await updatePaymentPlanTotals(planId, tx);
+    }
+    for (const pledgeId of new Set(debits.map((row) => row.pledgeId))) {
+      await updatePledgeTotals(pledgeId, tx);
+    }
+
+    return { batch, entries, skipped };
+  });
+}
+
+/**
+ * The NACHA file for a batch, built from its entries each time it is
+ * downloaded so full account numbers are never kept in a file at rest.
+ * Every entry is included, returned or not, so the file matches what was
+ * first sent to the bank.
+ */
+export async function buildAchBatchFile(
+  batchId: number,
+  config: NachaConfig = nachaConfigFromEnv()
+): Promise<{ fileName: string; contents: string }> {
+  const [batch] = await db.select().from(achBatch).where(eq(achBatch.id, batchId)).limit(1);
+  if (!batch) throw new AchError("ACH batch not found", 404);
+
+  const rows = await db
+    .select({
+      entry: achBatchEntry,
+      method: savedPaymentMethod,
+      contactId: contact.id,
+      contactName: sql<string>`TRIM(CONCAT(${contact.firstName}, ' ', ${contact.lastName}))`,
+    })
+    .from(achBatchEntry)
+    .innerJoin(savedPaymentMethod, eq(achBatchEntry.savedPaymentMethodId, savedPaymentMethod.id))
+    .innerJoin(paymentPlan, eq(achBatchEntry.paymentPlanId, paymentPlan.id))
+    .innerJoin(pledge, eq(paymentPlan.pledgeId, pledge.id))
+    .innerJoin(contact, eq(pledge.contactId, contact.id))
+    .where(eq(achBatchEntry.batchId, batchId))
+    .orderBy(achBatchEntry.id);
+  if (rows.length !== batch.entryCount) {
+    throw new AchError("Some of this batch's entries have lost their plan or bank account", 409);
+  }
+
+  const contents = buildNachaFile({
+    config,
+    effectiveDate: parseISO(batch.effectiveDate),
+    createdAt: batch.createdAt,
+    batchNumber: batch.id,
+    offsetTraceNumber: batch.offsetTraceNumber,
+    debits: rows.map((row) => ({
+      routingNumber: row.method.routingNumber!,
+      accountNumber: openAccountNumber(row.method.accountNumberEncrypted!),
+      accountType: accountTypeOf(row.method.brand),
+      amountCents: Number(decimal(row.entry.amount).times(100).toFixed(0)),
+      individualId: `C${row.contactId}`,
+      individualName: row.method.holderName || row.contactName,
+      traceNumber: row.entry.traceNumber,
+    })),
+  });
+  return { fileName: batch.fileName, contents };
+}
+
+export interface AchReturnResult {
+  returned: {
+    entryId: number;
+    batchId: number;
+    paymentId: number | null;
+    traceNumber: string;
+    returnCode: string;
+    returnReason: string;
+  }[];
+  alreadyReturned: string[];
+  // Trace numbers in the file that match none of our entries
+  unmatched: string[];
+  notices: ReturnType<typeof parseReturnFile>["notices"];
+}
+
+/**
+ * Applies a bank's return file: every returned debit fails its payment and
+ * reopens its installment so it can go out in a later file. Re-importing a
+ * file is harmless; returns already applied are only counted.
+ */
+export async function importAchReturns(
+  content: string,
+  options: { locationId?: string | null } = {}
+): Promise<AchReturnResult> {
+  let parsed: ReturnType<typeof parseReturnFile>;
+  try {
+    parsed = parseReturnFile(content);
+  } catch (error) {
+    throw new AchError(error instanceof Error ? error.message : "Unreadable return file", 400);
+  }
+
+  const result: AchReturnResult = { returned: [], alreadyReturned: [], unmatched: [], notices: parsed.notices };
+  if (parsed.returns.length === 0) return result;
+
+  return withTransaction(async (tx) => {
+    const conditions: SQL[] = [
+      inArray(
+        achBatchEntry.traceNumber,
+        parsed.returns.map((entry) => entry.originalTraceNumber)
+      ),
+    ];
+    if (options.locationId) conditions.push(eq(achBatch.locationId, options.locationId));
+
+    const rows = await tx
+      .select({ entry: achBatchEntry })
+      .from(achBatchEntry)
+      .innerJoin(achBatch, eq(achBatchEntry.batchId, achBatch.id))
+      .where(and(...conditions))
+      .for("update", { of: achBatchEntry });
+    const byTrace = new Map(rows.map((row) => [row.entry.traceNumber, row.entry]));
+
+    const plans = new Set<number>();
+    const pledges = new Set<number>();
+
+    for (const returned of parsed.returns) {
+      const entry = byTrace.get(returned.originalTraceNumber);
+      if (!entry) {
+        result.unmatched.push(returned.originalTraceNumber);
+        continue;
+      }
+      if (entry.status === "returned") {
+        result.alreadyReturned.push(entry.traceNumber);
+        continue;
+      }
+
+      const returnReason = RETURN_REASONS[returned.returnCode] ?? "Returned by the receiving bank";
+      await tx
+        .update(achBatchEntry)
+        .set({
+          status: "returned",
+          returnCode: returned.returnCode,
+          returnReason,
+          returnedAt: new Date(),
+          updatedAt: new Date(),
+        })
+        .where(eq(achBatchEntry.id, entry.id));
+      entry.status = "returned";
+
+      if (entry.paymentId) {
+        const failed = await failInstallmentPayment(tx, entry.paymentId, entry.installmentScheduleId);
+        if (failed?.paymentPlanId) plans.add(failed.paymentPlanId);
+        if (failed?.pledgeId) pledges.add(failed.pledgeId);
+      }
+
+      result.returned.push({
+        entryId: entry.id,
+        batchId: entry.batchId,
+        paymentId: entry.paymentId,
+        traceNumber: entry.traceNumber,
+        returnCode: returned.returnCode,
+        returnReason,
+      });
+    }
+
+    for (const planId of plans) await updatePaymentPlanTotals(planId, tx);
+    for (const pledgeId of pledges) await updatePledgeTotals(pledgeId, tx);
+    return result;
+  });
+}
+
+/**
+ * Marks a batch's unreturned debits as settled once the effective date has
+ * passed: their payments complete and count as received on that date. Late
+ * returns can still fail a settled debit afterwards.
+ */
+export async function settleAchBatch(batchId: number): Promise<{ batch: AchBatch; settled: number }> {
+  return withTransaction(async (tx) => {
+    const [existing] = await tx.select().from(achBatch).where(eq(achBatch.id, batchId)).for("update").limit(1);
+    if (!existing) throw new AchError("ACH batch not found", 404);
+    if (existing.settledAt) throw new AchError("This batch is already settled", 409);
+    if (existing.effectiveDate > format(new Date(), "yyyy-MM-dd")) {
+      throw new AchError(`The batch cannot settle before its effective date, ${existing.effectiveDate}`, 409);
+    }
+
+    const settled = await tx
+      .update(achBatchEntry)
+      .set({ status: "settled", updatedAt: new Date() })
+      .where(and(eq(achBatchEntry.batchId, batchId), eq(achBatchEntry.status, "submitted")))
+      .returning({ paymentId: achBatchEntry.paymentId });
+
+    const paymentIds = settled.map((entry) => entry.paymentId).filter((id): id is number => id !== null);
+    if (paymentIds.length > 0) {
+      const completed = await tx
+        .update(payment)
+        .set({ paymentStatus: "completed", receivedDate: existing.effectiveDate, updatedAt: new Date() })
+        .where(and(inArray(payment.id, paymentIds), eq(payment.paymentStatus, "processing")))
+        .returning({ paymentPlanId: payment.paymentPlanId, pledgeId: payment.pledgeId });
+      for (const planId of new Set(completed.map((row) => row.paymentPlanId))) {
+        if (planId) await updatePaymentPlanTotals(planId, tx);
+      }
+      for (const pledgeId of new Set(completed.map((row) => row.pledgeId))) {
+        if (pledgeId) await updatePledgeTotals(pledgeId, tx);
+      }
+    }
+
+    const [batch] = await tx
+      .update(achBatch)
+      .set({ settledAt: new Date(), updatedAt: new Date() })
+      .where(eq(achBatch.id, batchId))
+      .returning();
+    return { batch, settled: settled.length };
+  });
+}
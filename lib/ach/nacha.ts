@@ -0,0 +1,296 @@
+// NACHA file format: fixed-width 94-character records, blocked in tens.
+// Only what a PPD debit batch with one offsetting credit needs is built
+// here; the return side reads entry (6) and addenda (7) records.
+
+const RECORD_LENGTH = 94;
+const BLOCKING_FACTOR = 10;
+
+// Saved bank accounts with this processor are debited through NACHA files
+// rather than a processor API
+export const NACHA_PROCESSOR = "nacha";
+
+export type AchAccountType = "checking" | "savings";
+
+// Transaction codes: 27/37 debit and 22/32 credit checking/savings
+const DEBIT_CODES: Record<AchAccountType, string> = { checking: "27", savings: "37" };
+const CREDIT_CODES: Record<AchAccountType, string> = { checking: "22", savings: "32" };
+
+// Common return reasons; the bank's file carries only the code
+export const RETURN_REASONS: Record<string, string> = {
+  R01: "Insufficient funds",
+  R02: "Account closed",
+  R03: "No account / unable to locate account",
+  R04: "Invalid account number",
+  R05: "Unauthorized debit to consumer account",
+  R06: "Returned per ODFI's request",
+  R07: "Authorization revoked by customer",
+  R08: "Payment stopped",
+  R09: "Uncollected funds",
+  R10: "Customer advises not authorized",
+  R11: "Customer advises entry not in accordance with the terms of the authorization",
+  R12: "Account sold to another DFI",
+  R14: "Representative payee deceased",
+  R15: "Beneficiary or account holder deceased",
+  R16: "Account frozen",
+  R20: "Non-transaction account",
+  R29: "Corporate customer advises not authorized",
+};
+
+export interface NachaConfig {
+  // The bank the file goes to
+  immediateDestination: string;
+  immediateDestinationName: string;
+  // Usually the company id, as assigned by the bank
+  immediateOrigin: string;
+  immediateOriginName: string;
+  companyName: string;
+  companyId: string;
+  // First 8 digits of the originating bank's routing number
+  originatingDfi: string;
+  // The organisation's own account, credited to balance the file
+  offsetRoutingNumber: string;
+  offsetAccountNumber: string;
+  offsetAccountType: AchAccountType;
+  entryDescription: string;
+}
+
+export interface NachaDebit {
+  routingNumber: string;
+  accountNumber: string;
+  accountType: AchAccountType;
+  amountCents: number;
+  // Shown on the donor's statement alongside the company name
+  individualId: string;
+  individualName: string;
+  traceNumber: string;
+}
+
+export interface NachaFileOptions {
+  config: NachaConfig;
+  debits: NachaDebit[];
+  effectiveDate: Date;
+  createdAt: Date;
+  batchNumber: number;
+  // Trace number of the balancing credit, unique like the debits' own
+  offsetTraceNumber: string;
+  // Distinguishes files sent on the same day, A-Z
+  fileIdModifier?: string;
+}
+
+// ABA routing numbers carry a 3-7-1 weighted checksum
+export function isRoutingNumber(routing: string): boolean {
+  if (!/^\d{9}$/.test(routing)) return false;
+  const weights = [3, 7, 1, 3, 7, 1, 3, 7, 1];
+  return weights.reduce((sum, weight, i) => sum + weight * parseInt(routing[i], 10), 0) % 10 === 0;
+}
+
+// Left-aligned, upper-cased, space-padded text field
+function alpha(value: string, length: number): string {
+  return value
+    .toUpperCase()
+    .replace(/[^ -~]/g, "")
+    .slice(0, length)
+    .padEnd(length, " ");
+}
+
+// Right-aligned, zero-padded number field
+function numeric(value: number | string, length: number): string {
+  const digits = String(value).replace(/\D/g, "");
+  return digits.slice(-length).padStart(length, "0");
+}
+
+const yymmdd = (date: Date) =>
+  `${String(date.getFullYear()).slice(-2)}${numeric(date.getMonth() + 1, 2)}${numeric(date.getDate(), 2)}`;
+
+const hhmm = (date: Date) => `${numeric(date.getHours(), 2)}${numeric(date.getMinutes(), 2)}`;
+
+// Trace numbers are the originating bank's 8 digits and a 7-digit sequence
+export function traceNumber(originatingDfi: string, sequence: number): string {
+  return `${numeric(originatingDfi, 8)}${numeric(sequence % 10_000_000, 7)}`;
+}
+
+function entryRecord(entry: {
+  transactionCode: string;
+  routingNumber: string;
+  accountNumber: string;
+  amountCents: number;
+  individualId: string;
+  individualName: string;
+  traceNumber: string;
+}): string {
+  return [
+    "6",
+    entry.transactionCode,
+    entry.routingNumber.slice(0, 8),
+    entry.routingNumber.slice(8, 9),
+    alpha(entry.accountNumber, 17),
+    numeric(entry.amountCents, 10),
+    alpha(entry.individualId, 15),
+    alpha(entry.individualName, 22),
+    "  ",
+    "0",
+    entry.traceNumber,
+  ].join("");
+}
+
+/**
+ * A complete NACHA file: one PPD batch of the given debits and a single
+ * credit to the organisation's offset account for their total, so the file
+ * balances on its own as most originating banks require.
+ */
+export function buildNachaFile(options: NachaFileOptions): string {
+  const { config, debits } = options;
+  const totalDebitCents = debits.reduce((sum, debit) => sum + debit.amountCents, 0);
+  // Mixed debits and credits
+  const serviceClass = "200";
+  const batchNumber = numeric(options.batchNumber, 7);
+
+  const entries = debits.map((debit) =>
+    entryRecord({
+      transactionCode: DEBIT_CODES[debit.accountType],
+      routingNumber: debit.routingNumber,
+      accountNumber: debit.accountNumber,
+      amountCents: debit.amountCents,
+      individualId: debit.individualId,
+      individualName: debit.individualName,
+      traceNumber: debit.traceNumber,
+    })
+  );
+  entries.push(
+    entryRecord({
+      transactionCode: CREDIT_CODES[config.offsetAccountType],
+      routingNumber: config.offsetRoutingNumber,
+      accountNumber: config.offsetAccountNumber,
+      amountCents: totalDebitCents,
+      individualId: "OFFSET",
+      individualName: config.companyName,
+      traceNumber: options.offsetTraceNumber,
+    })
+  );
+
+  const routingNumbers = [...debits.map((debit) => debit.routingNumber), config.offsetRoutingNumber];
+  const entryHash = numeric(
+    routingNumbers.reduce((sum, routing) => sum + parseInt(routing.slice(0, 8), 10), 0),
+    10
+  );
+  const totalDebit = numeric(totalDebitCents, 12);
+  const totalCredit = numeric(totalDebitCents, 12);
+
+  const records = [
+    [
+      "1",
+      "01",
+      ` ${numeric(config.immediateDestination, 9)}`,
+      config.immediateOrigin.length === 10 ? config.immediateOrigin : ` ${numeric(config.immediateOrigin, 9)}`,
+      yymmdd(options.createdAt),
+      hhmm(options.createdAt),
+      (options.fileIdModifier ?? "A").toUpperCase().slice(0, 1),
+      "094",
+      "10",
+      "1",
+      alpha(config.immediateDestinationName, 23),
+      alpha(config.immediateOriginName, 23),
+      alpha("", 8),
+    ].join(""),
+    [
+      "5",
+      serviceClass,
+      alpha(config.companyName, 16),
+      alpha("", 20),
+      alpha(config.companyId, 10),
+      "PPD",
+      alpha(config.entryDescription, 10),
+      yymmdd(options.effectiveDate),
+      yymmdd(options.effectiveDate),
+      "   ",
+      "1",
+      numeric(config.originatingDfi, 8),
+      batchNumber,
+    ].join(""),
+    ...entries,
+    [
+      "8",
+      serviceClass,
+      numeric(entries.length, 6),
+      entryHash,
+      totalDebit,
+      totalCredit,
+      alpha(config.companyId, 10),
+      alpha("", 19),
+      alpha("", 6),
+      numeric(config.originatingDfi, 8),
+      batchNumber,
+    ].join(""),
+  ];
+
+  const blockCount = Math.ceil((records.length + 1) / BLOCKING_FACTOR);
+  records.push(
+    [
+      "9",
+      numeric(1, 6),
+      numeric(blockCount, 6),
+      numeric(entries.length, 8),
+      entryHash,
+      totalDebit,
+      totalCredit,
+      alpha("", 39),
+    ].join("")
+  );
+
+  // Pad the last block with filler records of nines
+  while (records.length % BLOCKING_FACTOR !== 0) records.push("9".repeat(RECORD_LENGTH));
+  return records.join("\n") + "\n";
+}
+
+export interface NachaReturn {
+  originalTraceNumber: string;
+  returnCode: string;
+  amountCents: number;
+}
+
+export interface ParsedReturnFile {
+  returns: NachaReturn[];
+  // Notifications of change (COR entries) update account details but do
+  // not return money; they are listed for staff to act on
+  notices: { originalTraceNumber: string; changeCode: string; correctedData: string }[];
+}
+
+/**
+ * Reads the returned entries from a bank's NACHA return file. Each return
+ * is an entry (6) record followed by a type 99 addenda carrying the reason
+ * code and the trace number of the debit we originally sent.
+ */
+export function parseReturnFile(content: string): ParsedReturnFile {
+  const lines = content
+    .split(/\r?\n/)
+    .map((line) => line.replace(/\r$/, ""))
+    .filter((line) => line.trim() !== "" && !/^9+$/.test(line));
+
+  if (lines.length === 0 || !lines.every((line) => line.length === RECORD_LENGTH)) {
+    throw new Error("Not a NACHA file: every record must be 94 characters long");
+  }
+  if (lines[0][0] !== "1") {
+    throw new Error("Not a NACHA file: the first record must be a file header");
+  }
+
+  const result: ParsedReturnFile = { returns: [], notices: [] };
+  let amountCents = 0;
+  for (const line of lines) {
+    if (line[0] === "6") {
+      amountCents = parseInt(line.slice(29, 39), 10);
+    } else if (line[0] === "7") {
+      const addendaType = line.slice(1, 3);
+      const originalTraceNumber = line.slice(6, 21);
+      if (addendaType === "99") {
+        result.returns.push({ originalTraceNumber, returnCode: line.slice(3, 6), amountCents });
+      } else if (addendaType === "98") {
+        result.notices.push({
+          originalTraceNumber,
+          changeCode: line.slice(3, 6),
+          correctedData: line.slice(35, 64).trim(),
+        });
+      }
+    }
+  }
+  return result;
+}
@@ -0,0 +1,218 @@
+import { getServerSession } from "next-auth/next";
+import { authOptions } from "@/lib/auth";
+import { db } from "@/lib/db";
+import { auditLog } from "@/lib/db/schema";
+
+export type AuditAction = "create" | "update" | "delete";
+
+export type AuditEntityType =
+  | "contact"
+  | "pledge"
+  | "payment"
+  | "paymentPlan"
+  | "paymentAllocation"
+  | "solicitor"
+  | "bonusRule"
+  | "tag"
+  | "category"
+  | "annualReceipt"
+  | "donationReceipt"
+  | "planRenewal"
+  | "memorial"
+  | "savedPaymentMethod"
+  | "processorTransaction"
+  | "achBatch"
+  | "bankStatement"
+  | "bankStatementLine"
+  | "depositBatch"
+  | "paymentRefund"
+  | "pledgeAdjustment"
+  | "exchangeRate"
+  | "exchangeRateLock"
+  | "integrityIssue"
+  | "currency";
+
+export type AuditChanges = Record<string, { from: unknown; to: unknown }>;
+
+export interface AuditActor {
+  userId: number | null;
+  email: string;
+}
+
+export interface AuditEntry {
+  action: AuditAction;
+  entityType: AuditEntityType;
+  entityId: number;
+  before?: object | null;
+  after?: object | null;
+  // Defaults to the signed-in user; webhooks pass their own actor
+  actor?: AuditActor;
+  // Short free text appended to the generated summary
+  note?: string;
+}
+
+// Actor recorded for changes pushed by the CRM webhooks
+export const WEBHOOK_ACTOR: AuditActor = { userId: null, email: "webhook" };
+
+// Bookkeeping columns that change on every write and only add noise
+const IGNORED_FIELDS = new Set(["createdAt", "updatedAt"]);
+
+const ENTITY_LABELS: Record<AuditEntityType, string> = {
+  contact: "contact",
+  pledge: "pledge",
+  payment: "payment",
+  paymentPlan: "payment plan",
+  paymentAllocation: "payment allocation",
+  solicitor: "solicitor",
+  bonusRule: "bonus rule",
+  tag: "tag",
+  category: "category",
+  annualReceipt: "annual receipt",
+  donationReceipt: "receipt",
+  planRenewal: "plan renewal",
+  memorial: "memorial",
+  savedPaymentMethod: "saved payment method",
+  processorTransaction: "processor transaction",
+  achBatch: "ACH batch",
+  bankStatement: "bank statement",
+  bankStatementLine: "bank deposit",
+  depositBatch: "deposit batch",
+  paymentRefund: "refund",
+  pledgeAdjustment: "pledge adjustment",
+  exchangeRate: "exchange rate",
+  exchangeRateLock: "exchange rate lock",
+  integrityIssue: "integrity issue",
+  currency: "currency",
+};
+
+function normalizeValue(value: unknown): unknown {
+  if (value instanceof Date) return value.toISOString();
+  if (value === undefined) return null;
+  return value;
+}
+
+/**
+ * Field-by-field diff of two versions of a record. A missing `before` lists
+ * every field as created, a missing `after` every field as removed. When
+ * both are given only the fields present on `after` are compared, so a
+ * partial `returning()` can be diffed against a full row.
+ */
+export function diffRecords(before?: object | null, after?: object | null): AuditChanges {
+  const previous = (before ?? {}) as Record<string, unknown>;
+  const next = (after ?? {}) as Record<string, unknown>;
+  const changes: AuditChanges = {};
+  const fields = before && after ? Object.keys(next) : [...Object.keys(previous), ...Object.keys(next)];
+
+  for (const field of new Set(fields)) {
+    if (IGNORED_FIELDS.has(field)) continue;
+    const from = normalizeValue(previous[field]);
+    const to = normalizeValue(next[field]);
+    if (JSON.stringify(from) !== JSON.stringify(to)) {
+      changes[field] = { from, to };
+    }
+  }
+
+  return changes;
+}
+
+/**
+ * Audit entries for a set of child rows (e.g. a payment's allocations)
+ * before and after a write, matched by id. Rows that are replaced rather
+ * than updated in place show up as a delete plus a create.
+ */
+export function diffCollection<T extends { id: number }>(
+  entityType: AuditEntityType,
+  before: T[],
+  after: T[],
+  note?: string
+): AuditEntry[] {
+  const previousById = new Map(before.map((row) => [row.id, row]));
+  const nextIds = new Set(after.map((row) => row.id));
+  const entries: AuditEntry[] = [];
+
+  for (const row of after) {
+    const previous = previousById.get(row.id);
+    if (!previous) {
+      entries.push({ action: "create", entityType, entityId: row.id, after: row, note });
+    } else if (Object.keys(diffRecords(previous, row)).length > 0) {
+      entries.push({ action: "update", entityType, entityId: row.id, before: previous, after: row, note });
+    }
+  }
+  for (const row of before) {
+    if (!nextIds.has(row.id)) {
+      entries.push({ action: "delete", entityType, entityId: row.id, before: row, note });
+    }
+  }
+
+  return entries;
+}
+
+function summarize(entry: AuditEntry, changes: AuditChanges): string {
+  const label = `${ENTITY_LABELS[entry.entityType]} #${entry.entityId}`;
+  let summary: string;
+  switch (entry.action) {
+    case "create":
+      summary = `Created ${label}`;
+      break;
+    case "delete":
+      summary = `Deleted ${label}`;
+      break;
+    default: {
+      const fields = Object.entries(changes).map(
+        ([field, { from, to }]) => `${field}: ${from ?? "—"} → ${to ?? "—"}`
+      );
+      summary = `Updated ${label}${fields.length ? `: ${fields.join(", ")}` : ""}`;
+    }
+  }
+  return entry.note ? `${summary} (${entry.note})` : summary;
+}
+
+export function getClientIp(request: Request): string | null {
+  const forwarded = request.headers.get("x-forwarded-for");
+  if (forwarded) return forwarded.split(",")[0].trim();
+  return request.headers.get("x-real-ip");
+}
+
+async function resolveActor(): Promise<AuditActor> {
+  const session = await getServerSession(authOptions);
+  if (!session?.user?.email) return { userId: null, email: "system" };
+  const userId = parseInt(session.user.id, 10);
+  return { userId: isNaN(userId) ? null : userId, email: session.user.email };
+}
+
+/**
+ * Writes one audit_log row per entry. Auditing never fails the mutation it
+ * describes: errors are logged and swallowed.
+ */
+export async function recordAudit(
+  request: Request,
+  ...entries: AuditEntry[]
+): Promise<void> {
+  if (entries.length === 0) return;
+
+  try {
+    const sessionActor = entries.every((entry) => entry.actor) ? null : await resolveActor();
+    const ipAddress = getClientIp(request);
+    const userAgent = request.headers.get("user-agent");
+
+    await db.insert(auditLog).values(
+      entries.map((entry) => {
+        const actor = entry.actor ?? sessionActor!;
+        const changes = diffRecords(entry.before, entry.after);
+        return {
+          userId: actor.userId,
+          userEmail: actor.email,
+          action: entry.action,
+          entityType: entry.entityType,
+          entityId: entry.entityId,
+          details: summarize(entry, changes),
+          changes,
+          ipAddress,
+          userAgent,
+        };
+      })
+    );
+  } catch (error) {
+    console.error("Failed to write audit log:", error);
+  }
+}
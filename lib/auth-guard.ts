@@ -0,0 +1,469 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getServerSession } from "next-auth/next";
+import { eq, inArray, or } from "drizzle-orm";
+import type { Column } from "drizzle-orm";
+import { authOptions } from "@/lib/auth";
+import { db } from "@/lib/db";
+import {
+  achBatch,
+  bankStatement,
+  bankStatementLine,
+  bonusCalculation,
+  bonusRule,
+  contact,
+  depositBatch,
+  donationReceipt,
+  memorial,
+  payment,
+  paymentAllocations,
+  paymentPlan,
+  paymentRefund,
+  planRenewal,
+  pledge,
+  pledgeAdjustment,
+  processorTransaction,
+  relationships,
+  roleEnum,
+  savedPaymentMethod,
+  solicitor,
+  studentRoles,
+  tag,
+} from "@/lib/db/schema";
+
+export type Role = (typeof roleEnum.enumValues)[number];
+
+// Higher rank inherits every permission of the lower ranks
+const ROLE_RANK: Record<Role, number> = {
+  user: 0,
+  admin: 1,
+  super_admin: 2,
+};
+
+export interface AuthContext {
+  userId: number;
+  email: string;
+  role: Role;
+  contactId: number | null;
+  locationId: string | null;
+  // Super admins are not bound to a single location
+  isGlobal: boolean;
+}
+
+// What the location filters need; API-key callers have only this
+export type LocationContext = Pick<AuthContext, "locationId" | "isGlobal">;
+
+export type LocationResource =
+  | "contact"
+  | "pledge"
+  | "payment"
+  | "paymentPlan"
+  | "relationship"
+  | "studentRole"
+  | "solicitor"
+  | "bonusRule"
+  | "bonusCalculation"
+  | "tag"
+  | "receipt"
+  | "planRenewal"
+  | "memorial"
+  | "savedPaymentMethod"
+  | "processorTransaction"
+  | "achBatch"
+  | "bankStatement"
+  | "bankStatementLine"
+  | "depositBatch"
+  | "refund"
+  | "pledgeAdjustment";
+
+export interface LocationScope {
+  resource: LocationResource;
+  // Where the record id is read from; the first one present wins
+  param?: string;
+  query?: string;
+  body?: string;
+}
+
+export interface GuardOptions {
+  role: Role;
+  // `true` only requires the caller to belong to a location (list routes filter
+  // with `locationFilter`); a scope also checks the addressed record.
+  location?: boolean | LocationScope | LocationScope[];
+}
+
+export type RouteContext<P> = { params: Promise<P> };
+
+type GuardedHandler<P> = (
+  request: NextRequest,
+  context: RouteContext<P>,
+  auth: AuthContext
+) => Promise<Response>;
+
+export class AuthorizationError extends Error {
+  constructor(
+    message: string,
+    public readonly type: "UNAUTHORIZED" | "FORBIDDEN",
+    public readonly statusCode: 401 | 403
+  ) {
+    super(message);
+    this.name = "AuthorizationError";
+  }
+
+  toResponse(): NextResponse {
+    return NextResponse.json(
+      { error: this.message, type: this.type },
+      { status: this.statusCode }
+    );
+  }
+}
+
+function isRole(value: unknown): value is Role {
+  return typeof value === "string" && value in ROLE_RANK;
+}
+
+export async function getAuthContext(): Promise<AuthContext> {
+  const session = await getServerSession(authOptions);
+  if (!session?.user?.id || !isRole(session.user.role)) {
+    throw new AuthorizationError("Unauthorized", "UNAUTHORIZED", 401);
+  }
+
+  const contactId = session.user.contactId ? parseInt(session.user.contactId, 10) : NaN;
+
+  return {
+    userId: parseInt(session.user.id, 10),
+    email: session.user.email,
+    role: session.user.role,
+    contactId: isNaN(contactId) ? null : contactId,
+    locationId: session.user.locationId || null,
+    isGlobal: session.user.role === "super_admin",
+  };
+}
+
+export function hasRole(auth: AuthContext, role: Role): boolean {
+  return ROLE_RANK[auth.role] >= ROLE_RANK[role];
+}
+
+/**
+ * Condition restricting a query to the caller's location, or `undefined`
+ * for super admins. Meant to be pushed into a route's `conditions` array.
+ */
+export function locationFilter(auth: LocationContext, column: Column) {
+  if (auth.isGlobal) return undefined;
+  return eq(column, auth.locationId ?? "");
+}
+
+/**
+ * Same as `locationFilter` for tables without their own location column,
+ * scoped through the contact they belong to.
+ */
+export function contactLocationFilter(auth: LocationContext, contactIdColumn: Column) {
+  if (auth.isGlobal) return undefined;
+  return inArray(contactIdColumn, contactsInLocation(auth));
+}
+
+/**
+ * Same as `locationFilter` for tables hanging off a pledge (payment plans,
+ * allocations), scoped through the pledge's contact.
+ */
+export function pledgeLocationFilter(auth: LocationContext, pledgeIdColumn: Column) {
+  if (auth.isGlobal) return undefined;
+  return inArray(pledgeIdColumn, pledgesInLocationQuery(auth));
+}
+
+/**
+ * Payments belong to a location through their pledge, any of their split
+ * allocations, or the third-party payer.
+ */
+export function paymentLocationFilter(auth: LocationContext) {
+  if (auth.isGlobal) return undefined;
+  const pledgesInLocation = pledgesInLocationQuery(auth);
+
+  return or(
+    inArray(payment.pledgeId, pledgesInLocation),
+    inArray(
+      payment.id,
+      db
+        .select({ id: paymentAllocations.paymentId })
+        .from(paymentAllocations)
+        .where(inArray(paymentAllocations.pledgeId, pledgesInLocation))
+    ),
+    inArray(payment.payerContactId, contactsInLocation(auth))
+  );
+}
+
+function pledgesInLocationQuery(auth: LocationContext) {
+  return db
+    .select({ id: pledge.id })
+    .from(pledge)
+    .where(inArray(pledge.contactId, contactsInLocation(auth)));
+}
+
+function contactsInLocation(auth: LocationContext) {
+  return db
+    .select({ id: contact.id })
+    .from(contact)
+    .where(eq(contact.locationId, auth.locationId ?? ""));
+}
+
+async function lookupPledgeLocation(pledgeId: number) {
+  const rows = await db
+    .select({ locationId: contact.locationId })
+    .from(pledge)
+    .innerJoin(contact, eq(pledge.contactId, contact.id))
+    .where(eq(pledge.id, pledgeId))
+    .limit(1);
+  return rows;
+}
+
+async function lookupSolicitorLocation(solicitorId: number) {
+  return db
+    .select({ locationId: contact.locationId })
+    .from(solicitor)
+    .innerJoin(contact, eq(solicitor.contactId, contact.id))
+    .where(eq(solicitor.id, solicitorId))
+    .limit(1);
+}
+
+// Every scoped record resolves to the location of the contact that owns it
+const locationLookups: Record<
+  LocationResource,
+  (id: number) => Promise<Array<{ locationId: string | null }>>
+> = {
+  contact: (id) =>
+    db
+      .select({ locationId: contact.locationId })
+      .from(contact)
+      .where(eq(contact.id, id))
+      .limit(1),
+  pledge: lookupPledgeLocation,
+  payment: async (id) => {
+    const [found] = await db
+      .select({ pledgeId: payment.pledgeId, payerContactId: payment.payerContactId })
+      .from(payment)
+      .where(eq(payment.id, id))
+      .limit(1);
+    if (!found) return [];
+    if (found.pledgeId) return lookupPledgeLocation(found.pledgeId);
+
+    // Split payments carry their pledges on the allocation rows
+    const [allocation] = await db
+      .select({ pledgeId: paymentAllocations.pledgeId })
+      .from(paymentAllocations)
+      .where(eq(paymentAllocations.paymentId, id))
+      .limit(1);
+    if (allocation) return lookupPledgeLocation(allocation.pledgeId);
+    if (found.payerContactId) return locationLookups.contact(found.payerContactId);
+    return [{ locationId: null }];
+  },
+  paymentPlan: async (id) => {
+    const [plan] = await db
+      .select({ pledgeId: paymentPlan.pledgeId })
+      .from(paymentPlan)
+      .where(eq(paymentPlan.id, id))
+      .limit(1);
+    return plan ? lookupPledgeLocation(plan.pledgeId) : [];
+  },
+  relationship: (id) =>
+    db
+      .select({ locationId: contact.locationId })
+      .from(relationships)
+      .innerJoin(contact, eq(relationships.contactId, contact.id))
+      .where(eq(relationships.id, id))
+      .limit(1),
+  studentRole: (id) =>
+    db
+      .select({ locationId: contact.locationId })
+      .from(studentRoles)
+      .innerJoin(contact, eq(studentRoles.contactId, contact.id))
+      .where(eq(studentRoles.id, id))
+      .limit(1),
+  solicitor: lookupSolicitorLocation,
+  bonusRule: async (id) => {
+    const [rule] = await db
+      .select({ solicitorId: bonusRule.solicitorId })
+      .from(bonusRule)
+      .where(eq(bonusRule.id, id))
+      .limit(1);
+    return rule ? lookupSolicitorLocation(rule.solicitorId) : [];
+  },
+  bonusCalculation: async (id) => {
+    const [calculation] = await db
+      .select({ solicitorId: bonusCalculation.solicitorId })
+      .from(bonusCalculation)
+      .where(eq(bonusCalculation.id, id))
+      .limit(1);
+    return calculation ? lookupSolicitorLocation(calculation.solicitorId) : [];
+  },
+  tag: (id) =>
+    db.select({ locationId: tag.locationId }).from(tag).where(eq(tag.id, id)).limit(1),
+  // Receipts keep the location they were numbered in, even if the donor moves
+  receipt: (id) =>
+    db
+      .select({ locationId: donationReceipt.locationId })
+      .from(donationReceipt)
+      .where(eq(donationReceipt.id, id))
+      .limit(1),
+  planRenewal: async (id) => {
+    const [renewal] = await db
+      .select({ paymentPlanId: planRenewal.paymentPlanId })
+      .from(planRenewal)
+      .where(eq(planRenewal.id, id))
+      .limit(1);
+    return renewal ? locationLookups.paymentPlan(renewal.paymentPlanId) : [];
+  },
+  memorial: (id) =>
+    db
+      .select({ locationId: contact.locationId })
+      .from(memorial)
+      .innerJoin(contact, eq(memorial.contactId, contact.id))
+      .where(eq(memorial.id, id))
+      .limit(1),
+  savedPaymentMethod: (id) =>
+    db
+      .select({ locationId: contact.locationId })
+      .from(savedPaymentMethod)
+      .innerJoin(contact, eq(savedPaymentMethod.contactId, contact.id))
+      .where(eq(savedPaymentMethod.id, id))
+      .limit(1),
+  processorTransaction: async (id) => {
+    const [transaction] = await db
+      .select({ savedPaymentMethodId: processorTransaction.savedPaymentMethodId })
+      .from(processorTransaction)
+      .where(eq(processorTransaction.id, id))
+      .limit(1);
+    return transaction?.savedPaymentMethodId ? locationLookups.savedPaymentMethod(transaction.savedPaymentMethodId) : [];
+  },
+  achBatch: (id) =>
+    db.select({ locationId: achBatch.locationId }).from(achBatch).where(eq(achBatch.id, id)).limit(1),
+  bankStatement: (id) =>
+    db
+      .select({ locationId: bankStatement.locationId })
+      .from(bankStatement)
+      .where(eq(bankStatement.id, id))
+      .limit(1),
+  bankStatementLine: (id) =>
+    db
+      .select({ locationId: bankStatement.locationId })
+      .from(bankStatementLine)
+      .innerJoin(bankStatement, eq(bankStatementLine.statementId, bankStatement.id))
+      .where(eq(bankStatementLine.id, id))
+      .limit(1),
+  depositBatch: (id) =>
+    db
+      .select({ locationId: depositBatch.locationId })
+      .from(depositBatch)
+      .where(eq(depositBatch.id, id))
+      .limit(1),
+  refund: async (id) => {
+    const [refund] = await db
+      .select({ paymentId: paymentRefund.paymentId })
+      .from(paymentRefund)
+      .where(eq(paymentRefund.id, id))
+      .limit(1);
+    return refund ? locationLookups.payment(refund.paymentId) : [];
+  },
+  pledgeAdjustment: async (id) => {
+    const [adjustment] = await db
+      .select({ pledgeId: pledgeAdjustment.pledgeId })
+      .from(pledgeAdjustment)
+      .where(eq(pledgeAdjustment.id, id))
+      .limit(1);
+    return adjustment ? lookupPledgeLocation(adjustment.pledgeId) : [];
+  },
+};
+
+// The location a record belongs to; null when it has none or is missing
+export async function recordLocation(resource: LocationResource, id: number): Promise<string | null> {
+  const rows = await locationLookups[resource](id);
+  return rows[0]?.locationId ?? null;
+}
+
+/**
+ * Throws unless the record lives in the caller's location. Missing records
+ * pass through so the route can answer with its own 404.
+ */
+export async function assertLocationAccess(
+  auth: AuthContext,
+  resource: LocationResource,
+  id: number
+): Promise<void> {
+  if (auth.isGlobal || isNaN(id)) return;
+
+  const rows = await locationLookups[resource](id);
+  if (rows.length === 0) return;
+
+  if (!auth.locationId || rows[0].locationId !== auth.locationId) {
+    throw new AuthorizationError(
+      "Forbidden: record belongs to another location",
+      "FORBIDDEN",
+      403
+    );
+  }
+}
+
+async function readScopedId(
+  request: NextRequest,
+  params: Record<string, unknown>,
+  scope: LocationScope
+): Promise<number | null> {
+  let raw: unknown;
+  if (scope.param) raw = params[scope.param];
+  if (raw == null && scope.query) raw = request.nextUrl.searchParams.get(scope.query);
+  if (raw == null && scope.body && request.headers.get("content-type")?.includes("json")) {
+    // Clone so the handler can still read the body
+    const body = await request.clone().json().catch(() => null);
+    if (body && typeof body === "object") raw = (body as Record<string, unknown>)[scope.body];
+  }
+
+  if (raw == null || raw === "") return null;
+  const id = typeof raw === "number" ? raw : parseInt(String(raw), 10);
+  return isNaN(id) ? null : id;
+}
+
+/**
+ * Wraps a route handler with session, role and location checks. Every
+ * rejection is answered the same way: `{ error, type }` with 401 or 403.
+ */
+export function withAuth<P = Record<string, string>>(
+  options: GuardOptions,
+  handler: GuardedHandler<P>
+) {
+  return async (request: NextRequest, context: RouteContext<P>): Promise<Response> => {
+    try {
+      const auth = await getAuthContext();
+
+      if (!hasRole(auth, options.role)) {
+        throw new AuthorizationError(
+          `Forbidden: ${options.role.replace("_", " ")} access required`,
+          "FORBIDDEN",
+          403
+        );
+      }
+
+      if (options.location && !auth.isGlobal) {
+        if (!auth.locationId) {
+          throw new AuthorizationError(
+            "Forbidden: no location assigned to this account",
+            "FORBIDDEN",
+            403
+          );
+        }
+
+        if (options.location !== true) {
+          const scopes = Array.isArray(options.location) ? options.location : [options.location];
+          const params = ((await context?.params) ?? {}) as Record<string, unknown>;
+          for (const scope of scopes) {
+            const id = await readScopedId(request, params, scope);
+            if (id !== null) await assertLocationAccess(auth, scope.resource, id);
+          }
+        }
+      }
+
+      return await handler(request, context, auth);
+    } catch (error) {
+      if (error instanceof AuthorizationError) {
+        return error.toResponse();
+      }
+      throw error;
+    }
+  };
+}
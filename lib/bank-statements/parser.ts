@@ -0,0 +1,247 @@
+// Bank statement files as exported by online banking: CSV with a header row,
+// or OFX/QFX (the older SGML flavour and the XML one). Only deposits are
+// returned; withdrawals have nothing to reconcile against in the CRM.
+
+import { decimal, type Decimal } from "@/lib/money";
+
+export type StatementFormat = "csv" | "ofx";
+
+export interface ParsedDeposit {
+  postedDate: string;
+  // Positive, two decimals
+  amount: string;
+  description: string | null;
+  referenceNumber: string | null;
+  checkNumber: string | null;
+  bankTransactionId: string | null;
+}
+
+export interface ParsedStatement {
+  format: StatementFormat;
+  // From the file when it says (OFX CURDEF); CSV exports do not
+  currency: string | null;
+  periodStart: string | null;
+  periodEnd: string | null;
+  deposits: ParsedDeposit[];
+  // Withdrawals and zero lines left out
+  skippedLines: number;
+}
+
+export function detectStatementFormat(fileName: string, content: string): StatementFormat {
+  if (/\.(ofx|qfx)$/i.test(fileName) || /<OFX>/i.test(content) || /^OFXHEADER:/m.test(content)) return "ofx";
+  return "csv";
+}
+
+export function parseStatement(fileName: string, content: string): ParsedStatement {
+  return detectStatementFormat(fileName, content) === "ofx" ? parseOfx(content) : parseCsv(content);
+}
+
+function periodOf(deposits: ParsedDeposit[]): Pick<ParsedStatement, "periodStart" | "periodEnd"> {
+  const dates = deposits.map((deposit) => deposit.postedDate).sort();
+  return { periodStart: dates[0] ?? null, periodEnd: dates[dates.length - 1] ?? null };
+}
+
+// "$1,250.00", "(75.00)" and "-75.00" all read as amounts
+function parseAmount(value: string): Decimal | null {
+  const trimmed = value.trim();
+  if (!trimmed) return null;
+  const negative = /^\(.*\)$/.test(trimmed) || trimmed.startsWith("-");
+  const digits = trimmed.replace(/[^0-9.]/g, "");
+  if (!/^(\d+\.?\d*|\.\d+)$/.test(digits)) return null;
+  return negative ? decimal(0).minus(digits) : decimal(digits);
+}
+
+const pad = (value: number) => String(value).padStart(2, "0");
+
+// ISO, US month-first (with two- or four-digit years) and OFX YYYYMMDD dates
+function parseDate(value: string): string | null {
+  const trimmed = value.trim();
+  let match = trimmed.match(/^(\d{4})-?(\d{2})-?(\d{2})/);
+  if (match) return `${match[1]}-${match[2]}-${match[3]}`;
+
+  match = trimmed.match(/^(\d{1,2})[/.-](\d{1,2})[/.-](\d{2}|\d{4})$/);
+  if (match) {
+    const year = match[3].length === 2 ? 2000 + parseInt(match[3], 10) : parseInt(match[3], 10);
+    const month = parseInt(match[1], 10);
+    const day = parseInt(match[2], 10);
+    if (month < 1 || month > 12 || day < 1 || day > 31) return null;
+    return `${year}-${pad(month)}-${pad(day)}`;
+  }
+  return null;
+}
+
+const emptyToNull = (value: string | undefined) => (value && value.trim() ? value.trim() : null);
+
+// --- CSV ---
+
+// Splits CSV text into rows, honouring quoted fields with commas, doubled
+// quotes and line breaks
+function csvRows(content: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = "";
+  let quoted = false;
+
+  for (let i = 0; i < content.length; i++) {
+    const char = content[i];
+    if (quoted) {
+      if (char === '"' && content[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ",") {
+      row.push(field);
+      field = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && content[i + 1] === "\n") i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = "";
+    } else {
+      field += char;
+    }
+  }
+  if (field !== "" || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+  return rows.filter((cells) => cells.some((cell) => cell.trim() !== ""));
+}
+
+// Header names banks commonly use for each column, in order of preference
+const CSV_COLUMNS = {
+  date: ["posted date", "posting date", "date posted", "date", "transaction date", "effective date"],
+  amount: ["amount", "transaction amount", "net amount"],
+  credit: ["credit", "credits", "deposit", "deposits", "credit amount", "money in"],
+  debit: ["debit", "debits", "withdrawal", "withdrawals", "debit amount", "money out"],
+  description: ["description", "memo", "details", "payee", "name", "transaction description"],
+  reference: ["reference", "reference number", "ref", "ref #", "transaction id", "bank reference", "confirmation"],
+  check: ["check number", "check #", "check no", "check", "cheque number", "serial number"],
+};
+
+type CsvColumn = keyof typeof CSV_COLUMNS;
+
+const normalizeHeader = (header: string) =>
+  header
+    .replace(/^﻿/, "")
+    .toLowerCase()
+    .replace(/[_.]/g, " ")
+    .replace(/\s+/g, " ")
+    .trim();
+
+function findColumns(header: string[]): Partial<Record<CsvColumn, number>> {
+  const names = header.map(normalizeHeader);
+  const columns: Partial<Record<CsvColumn, number>> = {};
+  for (const [column, aliases] of Object.entries(CSV_COLUMNS) as [CsvColumn, string[]][]) {
+    for (const alias of aliases) {
+      const index = names.indexOf(alias);
+      if (index !== -1 && !Object.values(columns).includes(index)) {
+        columns[column] = index;
+        break;
+      }
+    }
+  }
+  return columns;
+}
+
+export function parseCsv(content: string): ParsedStatement {
+  const rows = csvRows(content);
+  // Some banks put account details above the header; take the first row
+  // that names a date column
+  const headerIndex = rows.findIndex((row) => findColumns(row).date !== undefined);
+  if (headerIndex === -1) {
+    throw new Error("No header row with a date column was found in the CSV file");
+  }
+  const columns = findColumns(rows[headerIndex]);
+  if (columns.amount === undefined && columns.credit === undefined) {
+    throw new Error("The CSV file needs an amount column or a credit/deposit column");
+  }
+
+  const deposits: ParsedDeposit[] = [];
+  let skippedLines = 0;
+  for (const [offset, row] of rows.slice(headerIndex + 1).entries()) {
+    const cell = (column: CsvColumn) => (columns[column] !== undefined ? row[columns[column]!] ?? "" : "");
+
+    const postedDate = parseDate(cell("date"));
+    if (!postedDate) {
+      throw new Error(`Row ${headerIndex + offset + 2}: unrecognised date "${cell("date")}"`);
+    }
+    const amount = columns.amount !== undefined ? parseAmount(cell("amount")) : parseAmount(cell("credit"));
+    if (amount === null || !amount.isPositive()) {
+      skippedLines++;
+      continue;
+    }
+
+    deposits.push({
+      postedDate,
+      amount: amount.toFixed(2),
+      description: emptyToNull(cell("description")),
+      referenceNumber: emptyToNull(cell("reference")),
+      checkNumber: emptyToNull(cell("check")),
+      bankTransactionId: null,
+    });
+  }
+
+  return { format: "csv", currency: null, ...periodOf(deposits), deposits, skippedLines };
+}
+
+// --- OFX / QFX ---
+
+// SGML OFX leaves simple elements unclosed, so a value runs to the next tag
+// or line end; this reads both that and the XML form
+function ofxValue(block: string, tag: string): string | null {
+  const match = block.match(new RegExp(`<${tag}>([^<\\r\\n]*)`, "i"));
+  return match ? emptyToNull(match[1]) : null;
+}
+
+export function parseOfx(content: string): ParsedStatement {
+  if (!/<OFX>/i.test(content)) {
+    throw new Error("Not an OFX file: no <OFX> element was found");
+  }
+
+  const blocks = content.match(/<STMTTRN>[\s\S]*?<\/STMTTRN>/gi) ?? [];
+  const deposits: ParsedDeposit[] = [];
+  let skippedLines = 0;
+
+  for (const block of blocks) {
+    const postedDate = parseDate(ofxValue(block, "DTPOSTED") ?? "");
+    const amount = parseAmount(ofxValue(block, "TRNAMT") ?? "");
+    if (!postedDate || amount === null) {
+      throw new Error(`Unreadable OFX transaction ${ofxValue(block, "FITID") ?? ""}`.trim());
+    }
+    if (!amount.isPositive()) {
+      skippedLines++;
+      continue;
+    }
+
+    const name = ofxValue(block, "NAME");
+    const memo = ofxValue(block, "MEMO");
+    deposits.push({
+      postedDate,
+      amount: amount.toFixed(2),
+      description: [name, memo].filter(Boolean).join(" - ") || null,
+      referenceNumber: ofxValue(block, "REFNUM"),
+      checkNumber: ofxValue(block, "CHECKNUM"),
+      bankTransactionId: ofxValue(block, "FITID"),
+    });
+  }
+
+  const start = parseDate(ofxValue(content, "DTSTART") ?? "");
+  const end = parseDate(ofxValue(content, "DTEND") ?? "");
+  const period = periodOf(deposits);
+  return {
+    format: "ofx",
+    currency: ofxValue(content, "CURDEF")?.toUpperCase() ?? null,
+    periodStart: start ?? period.periodStart,
+    periodEnd: end ?? period.periodEnd,
+    deposits,
+    skippedLines,
+  };
+}
@@ -0,0 +1,676 @@
+import { addDays, endOfMonth, format, parseISO } from "date-fns";
+import { and, between, eq, inArray, notInArray, or, sql, type SQL } from "drizzle-orm";
+import { db, withTransaction, type DbClient, type Transaction } from "@/lib/db";
+import {
+  bankStatement,
+  bankStatementLine,
+  contact,
+  payment,
+  paymentAllocations,
+  pledge,
+  type BankStatement,
+  type BankStatementLine,
+} from "@/lib/db/schema";
+import { decimal, roundMoney } from "@/lib/money";
+import { convertPaymentAmounts, updatePledgeTotals } from "@/lib/payment-totals";
+import { listCurrencies } from "@/lib/currencies/currencies";
+import { parseStatement, type ParsedDeposit, type ParsedStatement } from "@/lib/bank-statements/parser";
+import { DomainError } from "@/lib/error-handler";
+
+export class ReconciliationError extends DomainError {
+  constructor(message: string, statusCode: 400 | 404 | 409) {
+    super(message, statusCode);
+    this.name = "ReconciliationError";
+  }
+}
+
+// How far a payment's received date may be from the day the deposit posted
+export const MATCH_WINDOW_DAYS = 7;
+
+// Payments that have money in the bank, or are about to
+const DEPOSITED_STATUSES = ["completed", "processing"] as const;
+
+const paymentDay = sql<string>`COALESCE(${payment.receivedDate}, ${payment.paymentDate})`;
+
+// Payments on a pledge, or split across pledges, of a contact in the location
+function paymentsInLocation(locationId: string): SQL {
+  const pledgesInLocation = db
+    .select({ id: pledge.id })
+    .from(pledge)
+    .innerJoin(contact, eq(pledge.contactId, contact.id))
+    .where(eq(contact.locationId, locationId));
+  return or(
+    inArray(payment.pledgeId, pledgesInLocation),
+    inArray(
+      payment.id,
+      db
+        .select({ id: paymentAllocations.paymentId })
+        .from(paymentAllocations)
+        .where(inArray(paymentAllocations.pledgeId, pledgesInLocation))
+    )
+  )!;
+}
+
+export type MatchStrength = "exact" | "amount" | "reference";
+
+export interface MatchCandidate {
+  paymentId: number;
+  strength: MatchStrength;
+  // Days between the payment being received and the deposit posting
+  dayDifference: number;
+}
+
+const STRENGTH_ORDER: Record<MatchStrength, number> = { exact: 0, amount: 1, reference: 2 };
+
+type DepositDetails = Pick<BankStatementLine, "postedDate" | "amount" | "referenceNumber" | "checkNumber">;
+
+/**
+ * Unreconciled payments that could be this deposit, best first: same amount
+ * and a matching check or reference number ("exact"), same amount within
+ * the date window ("amount"), or a matching number with a different amount
+ * ("reference"), which only ever goes to review.
+ */
+export async function findMatchCandidates(
+  client: DbClient,
+  deposit: DepositDetails,
+  options: { currency: string; locationId: string | null; excludePaymentIds?: number[] }
+): Promise<MatchCandidate[]> {
+  const posted = parseISO(deposit.postedDate);
+  const windowStart = format(addDays(posted, -MATCH_WINDOW_DAYS), "yyyy-MM-dd");
+  const windowEnd = format(addDays(posted, MATCH_WINDOW_DAYS), "yyyy-MM-dd");
+
+  const numberMatches: SQL[] = [];
+  if (deposit.checkNumber) numberMatches.push(eq(payment.checkNumber, deposit.checkNumber));
+  if (deposit.referenceNumber) numberMatches.push(eq(payment.referenceNumber, deposit.referenceNumber));
+  const numberMatch = numberMatches.length > 0 ? or(...numberMatches)! : sql`false`;
+
+  const conditions: SQL[] = [
+    eq(payment.isReconciled, false),
+    inArray(payment.paymentStatus, [...DEPOSITED_STATUSES]),
+    eq(payment.currency, options.currency),
+    or(and(eq(payment.amount, deposit.amount), between(paymentDay, windowStart, windowEnd)), numberMatch)!,
+  ];
+  if (options.locationId) conditions.push(paymentsInLocation(options.locationId));
+  if (options.excludePaymentIds?.length) {
+    conditions.push(notInArray(payment.id, options.excludePaymentIds));
+  }
+
+  const rows = await client
+    .select({
+      id: payment.id,
+      amount: payment.amount,
+      day: paymentDay,
+      numberMatch: sql<boolean>`COALESCE(${numberMatch}, false)`,
+    })
+    .from(payment)
+    .where(and(...conditions))
+    .limit(50);
+
+  return rows
+    .map((row) => {
+      const sameAmount = decimal(row.amount).compare(deposit.amount) === 0;
+      const strength: MatchStrength = sameAmount ? (row.numberMatch ? "exact" : "amount") : "reference";
+      const dayDifference = Math.abs(
+        Math.round((parseISO(row.day).getTime() - posted.getTime()) / (24 * 60 * 60 * 1000))
+      );
+      return { paymentId: row.id, strength, dayDifference };
+    })
+    .sort(
+      (a, b) =>
+        STRENGTH_ORDER[a.strength] - STRENGTH_ORDER[b.strength] ||
+        a.dayDifference - b.dayDifference ||
+        a.paymentId - b.paymentId
+    );
+}
+
+interface MatchDecision {
+  status: "matched" | "review" | "unmatched";
+  paymentId: number | null;
+  candidatePaymentIds: number[] | null;
+  matchNote: string | null;
+}
+
+/**
+ * Auto-matches only when exactly one payment fits: the single exact match,
+ * or, with none of those, the single payment of that amount in the window.
+ * Anything else goes to the review queue with its candidates.
+ */
+function decideMatch(candidates: MatchCandidate[], deposit: DepositDetails): MatchDecision {
+  const exact = candidates.filter((candidate) => candidate.strength === "exact");
+  const byAmount = candidates.filter((candidate) => candidate.strength === "amount");
+  const byNumber = deposit.checkNumber ? `check #${deposit.checkNumber}` : `reference ${deposit.referenceNumber}`;
+
+  if (exact.length === 1) {
+    return {
+      status: "matched",
+      paymentId: exact[0].paymentId,
+      candidatePaymentIds: null,
+      matchNote: `Amount and ${byNumber} match`,
+    };
+  }
+  if (exact.length === 0 && byAmount.length === 1 && candidates.length === 1) {
+    return {
+      status: "matched",
+      paymentId: byAmount[0].paymentId,
+      candidatePaymentIds: null,
+      matchNote: `Only unreconciled payment of ${deposit.amount} within ${MATCH_WINDOW_DAYS} days`,
+    };
+  }
+  if (candidates.length === 0) {
+    return { status: "unmatched", paymentId: null, candidatePaymentIds: null, matchNote: null };
+  }
+
+  const note =
+    exact.length > 1
+      ? `${exact.length} payments match the amount and ${byNumber}`
+      : byAmount.length > 1
+        ? `${byAmount.length} payments of ${deposit.amount} within ${MATCH_WINDOW_DAYS} days`
+        : byAmount.length === 1
+          ? `A payment of ${deposit.amount} and a ${byNumber} match with a different amount`
+          : `${byNumber} matches a payment with a different amount`;
+  return {
+    status: "review",
+    paymentId: null,
+    candidatePaymentIds: candidates.map((candidate) => candidate.paymentId),
+    matchNote: note,
+  };
+}
+
+async function markPaymentReconciled(tx: Transaction, paymentId: number, lineId: number) {
+  await tx
+    .update(payment)
+    .set({ isReconciled: true, bankDepositId: lineId, reconciledAt: new Date(), updatedAt: new Date() })
+    .where(eq(payment.id, paymentId));
+}
+
+// Identical deposits on one statement (two $100 checks the same day) are
+// told apart by their order, so a re-import still recognises both
+function dedupeKeys(deposits: ParsedDeposit[]): string[] {
+  const seen = new Map<string, number>();
+  return deposits.map((deposit) => {
+    if (deposit.bankTransactionId) return `fitid:${deposit.bankTransactionId}`;
+    const base = [deposit.postedDate, deposit.amount, deposit.checkNumber ?? deposit.referenceNumber ?? deposit.description ?? ""]
+      .join("|")
+      .toLowerCase();
+    const occurrence = (seen.get(base) ?? 0) + 1;
+    seen.set(base, occurrence);
+    return `${base}#${occurrence}`;
+  });
+}
+
+export interface ImportStatementOptions {
+  fileName: string;
+  content: string;
+  // Used when the file does not say; CSV exports never do
+  currency?: string;
+  // null covers every location
+  locationId: string | null;
+  importedBy: number | null;
+}
+
+export interface ImportStatementResult {
+  statement: BankStatement;
+  // Deposits auto-matched, with the payment each was reconciled to
+  reconciled: { lineId: number; paymentId: number }[];
+  matched: number;
+  review: number;
+  unmatched: number;
+  duplicates: number;
+  // Withdrawals and other lines that are not deposits
+  skipped: number;
+}
+
+/**
+ * Imports a statement's deposits and matches each to a payment. Deposits
+ * already imported from an overlapping statement are left out, and a
+ * payment matched to one line is not offered to the next.
+ */
+export async function importBankStatement(options: ImportStatementOptions): Promise<ImportStatementResult> {
+  let parsed: ParsedStatement;
+  try {
+    parsed = parseStatement(options.fileName, options.content);
+  } catch (error) {
+    throw new ReconciliationError(error instanceof Error ? error.message : "Unreadable statement file", 400);
+  }
+
+  const currency = parsed.currency ?? options.currency ?? "USD";
+  const enabled = await listCurrencies(options.locationId);
+  if (!enabled.some((option) => option.code === currency)) {
+    throw new ReconciliationError(`Statements in ${currency} are not supported; enable the currency first`, 400);
+  }
+  if (parsed.deposits.length === 0) {
+    throw new ReconciliationError("The statement has no deposits to reconcile", 400);
+  }
+
+  return withTransaction(async (tx) => {
+    const keys = dedupeKeys(parsed.deposits);
+    const existing = await tx
+      .select({ dedupeKey: bankStatementLine.dedupeKey })
+      .from(bankStatementLine)
+      .innerJoin(bankStatement, eq(bankStatementLine.statementId, bankStatement.id))
+      .where(
+        and(
+          inArray(bankStatementLine.dedupeKey, keys),
+          options.locationId
+            ? eq(bankStatement.locationId, options.locationId)
+            : sql`${bankStatement.locationId} IS NULL`
+        )
+      );
+    const imported = new Set(existing.map((row) => row.dedupeKey));
+    const fresh = parsed.deposits
+      .map((deposit, i) => ({ deposit, dedupeKey: keys[i] }))
+      .filter((row) => !imported.has(row.dedupeKey));
+
+    const [statement] = await tx
+      .insert(bankStatement)
+      .values({
+        locationId: options.locationId,
+        fileName: options.fileName,
+        format: parsed.format,
+        currency,
+        periodStart: parsed.periodStart,
+        periodEnd: parsed.periodEnd,
+        lineCount: fresh.length,
+        duplicateCount: parsed.deposits.length - fresh.length,
+        importedBy: options.importedBy,
+      })
+      .returning();
+
+    const result: ImportStatementResult = {
+      statement,
+      reconciled: [],
+      matched: 0,
+      review: 0,
+      unmatched: 0,
+      duplicates: statement.duplicateCount,
+      skipped: parsed.skippedLines,
+    };
+    const claimed: number[] = [];
+
+    for (const { deposit, dedupeKey } of fresh) {
+      const candidates = await findMatchCandidates(tx, deposit, {
+        currency,
+        locationId: options.locationId,
+        excludePaymentIds: claimed,
+      });
+      const decision = decideMatch(candidates, deposit);
+
+      const [line] = await tx
+        .insert(bankStatementLine)
+        .values({
+          statementId: statement.id,
+          ...deposit,
+          dedupeKey,
+          status: decision.status,
+          paymentId: decision.paymentId,
+          matchMethod: decision.paymentId ? "auto" : null,
+          candidatePaymentIds: decision.candidatePaymentIds,
+          matchNote: decision.matchNote,
+          reconciledAt: decision.paymentId ? new Date() : null,
+        })
+        .returning({ id: bankStatementLine.id });
+
+      if (decision.paymentId) {
+        await markPaymentReconciled(tx, decision.paymentId, line.id);
+        claimed.push(decision.paymentId);
+        result.reconciled.push({ lineId: line.id, paymentId: decision.paymentId });
+      }
+      result[decision.status]++;
+    }
+
+    return result;
+  });
+}
+
+async function lockLine(tx: Transaction, lineId: number) {
+  const [row] = await tx
+    .select({ line: bankStatementLine, currency: bankStatement.currency, locationId: bankStatement.locationId })
+    .from(bankStatementLine)
+    .innerJoin(bankStatement, eq(bankStatementLine.statementId, bankStatement.id))
+    .where(eq(bankStatementLine.id, lineId))
+    .for("update", { of: bankStatementLine })
+    .limit(1);
+  if (!row) throw new ReconciliationError("Statement line not found", 404);
+  return row;
+}
+
+/**
+ * Matches a deposit to a payment by hand, e.g. from the review queue. The
+ * amounts and currencies must agree; a deposit that covers several
+ * payments is not reconciled line by line.
+ */
+export async function reconcileLine(
+  lineId: number,
+  paymentId: number,
+  reconciledBy: number | null
+): Promise<BankStatementLine> {
+  return withTransaction(async (tx) => {
+    const { line, currency } = await lockLine(tx, lineId);
+    if (line.status === "matched") throw new ReconciliationError("This deposit is already reconciled", 409);
+
+    const [target] = await tx
+      .select({
+        amount: payment.amount,
+        currency: payment.currency,
+        isReconciled: payment.isReconciled,
+        paymentStatus: payment.paymentStatus,
+      })
+      .from(payment)
+      .where(eq(payment.id, paymentId))
+      .for("update")
+      .limit(1);
+    if (!target) throw new ReconciliationError("Payment not found", 404);
+    if (target.isReconciled) throw new ReconciliationError("That payment is already reconciled to another deposit", 409);
+    if (!(DEPOSITED_STATUSES as readonly string[]).includes(target.paymentStatus)) {
+      throw new ReconciliationError(`A ${target.paymentStatus} payment cannot be reconciled`, 400);
+    }
+    if (target.currency !== currency || decimal(target.amount).compare(line.amount) !== 0) {
+      throw new ReconciliationError(
+        `The payment of ${target.amount} ${target.currency} does not match the deposit of ${line.amount} ${currency}`,
+        400
+      );
+    }
+
+    const [updated] = await tx
+      .update(bankStatementLine)
+      .set({
+        status: "matched",
+        paymentId,
+        matchMethod: "manual",
+        candidatePaymentIds: null,
+        reconciledBy,
+        reconciledAt: new Date(),
+        updatedAt: new Date(),
+      })
+      .where(eq(bankStatementLine.id, lineId))
+      .returning();
+    await markPaymentReconciled(tx, paymentId, lineId);
+    return updated;
+  });
+}
+
+/**
+ * Undoes a match or an ignore. The deposit goes back to the review queue
+ * with fresh candidates; a payment created from it is kept, unreconciled.
+ */
+export async function reopenLine(lineId: number): Promise<BankStatementLine> {
+  return withTransaction(async (tx) => {
+    const { line, currency, locationId } = await lockLine(tx, lineId);
+    if (line.status !== "matched" && line.status !== "ignored") {
+      throw new ReconciliationError("Only reconciled or ignored deposits can be reopened", 409);
+    }
+
+    if (line.paymentId) {
+      await tx
+        .update(payment)
+        .set({ isReconciled: false, bankDepositId: null, reconciledAt: null, updatedAt: new Date() })
+        .where(eq(payment.id, line.paymentId));
+    }
+
+    const candidates = await findMatchCandidates(tx, line, { currency, locationId });
+    const [updated] = await tx
+      .update(bankStatementLine)
+      .set({
+        status: candidates.length > 0 ? "review" : "unmatched",
+        paymentId: null,
+        matchMethod: null,
+        candidatePaymentIds: candidates.length > 0 ? candidates.map((candidate) => candidate.paymentId) : null,
+        matchNote: null,
+        reconciledBy: null,
+        reconciledAt: null,
+        updatedAt: new Date(),
+      })
+      .where(eq(bankStatementLine.id, lineId))
+      .returning();
+    return updated;
+  });
+}
+
+// Deposits with nothing to reconcile against, such as interest or transfers
+export async function ignoreLine(lineId: number, reconciledBy: number | null, note?: string): Promise<BankStatementLine> {
+  return withTransaction(async (tx) => {
+    const { line } = await lockLine(tx, lineId);
+    if (line.status === "matched") {
+      throw new ReconciliationError("Reopen the reconciled deposit before ignoring it", 409);
+    }
+    const [updated] = await tx
+      .update(bankStatementLine)
+      .set({
+        status: "ignored",
+        candidatePaymentIds: null,
+        matchNote: note || null,
+        reconciledBy,
+        reconciledAt: new Date(),
+        updatedAt: new Date(),
+      })
+      .where(eq(bankStatementLine.id, lineId))
+      .returning();
+    return updated;
+  });
+}
+
+export interface DepositPaymentInput {
+  pledgeId: number;
+  paymentMethod: string;
+  notes?: string | null;
+}
+
+/**
+ * Records a deposit nobody entered as a payment on the given pledge, already
+ * received and reconciled. Returns the new payment's id.
+ */
+export async function createPaymentFromLine(
+  lineId: number,
+  input: DepositPaymentInput,
+  reconciledBy: number | null
+): Promise<{ line: BankStatementLine; paymentId: number }> {
+  return withTransaction(async (tx) => {
+    const { line, currency } = await lockLine(tx, lineId);
+    if (line.status === "matched") throw new ReconciliationError("This deposit is already reconciled", 409);
+
+    const [target] = await tx
+      .select({ id: pledge.id, currency: pledge.currency, relationshipId: pledge.relationshipId })
+      .from(pledge)
+      .where(eq(pledge.id, input.pledgeId))
+      .limit(1);
+    if (!target) throw new ReconciliationError("Pledge not found", 400);
+
+    const [created] = await tx
+      .insert(payment)
+      .values({
+        pledgeId: target.id,
+        relationshipId: target.relationshipId,
+        amount: line.amount,
+        currency,
+        ...(await convertPaymentAmounts(tx, {
+          amount: line.amount,
+          currency,
+          pledgeCurrency: target.currency,
+          date: line.postedDate,
+        })),
+        paymentDate: line.postedDate,
+        receivedDate: line.postedDate,
+        paymentMethod: input.paymentMethod,
+        paymentStatus: "completed",
+        referenceNumber: line.referenceNumber,
+        checkNumber: line.checkNumber,
+        notes: input.notes || line.description,
+        isReconciled: true,
+        bankDepositId: line.id,
+        reconciledAt: new Date(),
+      })
+      .returning({ id: payment.id });
+
+    const [updated] = await tx
+      .update(bankStatementLine)
+      .set({
+        status: "matched",
+        paymentId: created.id,
+        matchMethod: "created",
+        candidatePaymentIds: null,
+        reconciledBy,
+        reconciledAt: new Date(),
+        updatedAt: new Date(),
+      })
+      .where(eq(bankStatementLine.id, lineId))
+      .returning();
+
+    await updatePledgeTotals(target.id, tx);
+    return { line: updated, paymentId: created.id };
+  });
+}
+
+/**
+ * Removes a statement imported by mistake. Its matched payments become
+ * unreconciled again; payments created from its deposits are kept.
+ */
+export async function deleteBankStatement(statementId: number): Promise<{ unreconciled: number[] }> {
+  return withTransaction(async (tx) => {
+    const lines = await tx
+      .select({ id: bankStatementLine.id })
+      .from(bankStatementLine)
+      .where(eq(bankStatementLine.statementId, statementId));
+
+    let unreconciled: { id: number }[] = [];
+    if (lines.length > 0) {
+      unreconciled = await tx
+        .update(payment)
+        .set({ isReconciled: false, bankDepositId: null, reconciledAt: null, updatedAt: new Date() })
+        .where(
+          inArray(
+            payment.bankDepositId,
+            lines.map((line) => line.id)
+          )
+        )
+        .returning({ id: payment.id });
+    }
+
+    const deleted = await tx
+      .delete(bankStatement)
+      .where(eq(bankStatement.id, statementId))
+      .returning({ id: bankStatement.id });
+    if (deleted.length === 0) throw new ReconciliationError("Bank statement not found", 404);
+    return { unreconciled: unreconciled.map((row) => row.id) };
+  });
+}
+
+export interface MonthCloseSummary {
+  month: string;
+  deposits: Record<BankStatementLine["status"], { count: number; total: string }>;
+  // Payments received in the month, per currency, and how many are reconciled
+  payments: { currency: string; count: number; total: string; reconciledCount: number; reconciledTotal: string }[];
+  // Every deposit is settled and every payment received is reconciled
+  readyToClose: boolean;
+}
+
+/**
+ * Where a month stands: its deposits by reconciliation status, and the
+ * payments received in it that no deposit accounts for yet.
+ */
+export async function monthCloseSummary(month: string, locationId: string | null): Promise<MonthCloseSummary> {
+  const start = `${month}-01`;
+  const end = format(endOfMonth(parseISO(start)), "yyyy-MM-dd");
+
+  const lineConditions: SQL[] = [between(bankStatementLine.postedDate, start, end)];
+  if (locationId) lineConditions.push(eq(bankStatement.locationId, locationId));
+
+  const paymentConditions: SQL[] = [
+    inArray(payment.paymentStatus, [...DEPOSITED_STATUSES]),
+    between(paymentDay, start, end),
+  ];
+  if (locationId) paymentConditions.push(paymentsInLocation(locationId));
+
+  const [lineRows, paymentRows] = await Promise.all([
+    db
+      .select({
+        status: bankStatementLine.status,
+        count: sql<number>`COUNT(*)::int`,
+        total: sql<string>`COALESCE(SUM(${bankStatementLine.amount}), 0)::text`,
+      })
+      .from(bankStatementLine)
+      .innerJoin(bankStatement, eq(bankStatementLine.statementId, bankStatement.id))
+      .where(and(...lineConditions))
+      .groupBy(bankStatementLine.status),
+    db
+      .select({
+        currency: payment.currency,
+        count: sql<number>`COUNT(*)::int`,
+        total: sql<string>`COALESCE(SUM(${payment.amount}), 0)::text`,
+        reconciledCount: sql<number>`COUNT(*) FILTER (WHERE ${payment.isReconciled})::int`,
+        reconciledTotal: sql<string>`COALESCE(SUM(${payment.amount}) FILTER (WHERE ${payment.isReconciled}), 0)::text`,
+      })
+      .from(payment)
+      .where(and(...paymentConditions))
+      .groupBy(payment.currency)
+      .orderBy(payment.currency),
+  ]);
+
+  const deposits: MonthCloseSummary["deposits"] = {
+    unmatched: { count: 0, total: "0.00" },
+    review: { count: 0, total: "0.00" },
+    matched: { count: 0, total: "0.00" },
+    ignored: { count: 0, total: "0.00" },
+  };
+  for (const row of lineRows) {
+    deposits[row.status] = { count: row.count, total: decimal(row.total).toFixed(2) };
+  }
+
+  const payments = paymentRows.map((row) => ({
+    ...row,
+    total: roundMoney(row.total, row.currency),
+    reconciledTotal: roundMoney(row.reconciledTotal, row.currency),
+  }));
+
+  return {
+    month,
+    deposits,
+    payments,
+    readyToClose:
+      deposits.unmatched.count === 0 &&
+      deposits.review.count === 0 &&
+      payments.every((row) => row.reconciledCount === row.count),
+  };
+}
+
+export interface PaymentSummary {
+  id: number;
+  amount: string;
+  currency: string;
+  paymentDate: string;
+  receivedDate: string | null;
+  paymentMethod: string | null;
+  paymentStatus: string;
+  checkNumber: string | null;
+  referenceNumber: string | null;
+  pledgeId: number | null;
+  contactId: number | null;
+  contactName: string | null;
+  isReconciled: boolean;
+}
+
+// What staff need to tell candidate payments apart, in the order given
+export async function summarizePayments(paymentIds: number[]): Promise<PaymentSummary[]> {
+  if (paymentIds.length === 0) return [];
+  const rows = await db
+    .select({
+      id: payment.id,
+      amount: payment.amount,
+      currency: payment.currency,
+      paymentDate: payment.paymentDate,
+      receivedDate: payment.receivedDate,
+      paymentMethod: payment.paymentMethod,
+      paymentStatus: payment.paymentStatus,
+      checkNumber: payment.checkNumber,
+      referenceNumber: payment.referenceNumber,
+      pledgeId: payment.pledgeId,
+      contactId: contact.id,
+      contactName: sql<string | null>`NULLIF(TRIM(CONCAT(${contact.firstName}, ' ', ${contact.lastName})), '')`,
+      isReconciled: payment.isReconciled,
+    })
+    .from(payment)
+    .leftJoin(pledge, eq(payment.pledgeId, pledge.id))
+    .leftJoin(contact, eq(contact.id, sql`COALESCE(${pledge.contactId}, ${payment.payerContactId})`))
+    .where(inArray(payment.id, paymentIds));
+  const byId = new Map(rows.map((row) => [row.id, row]));
+  return paymentIds.flatMap((id) => byId.get(id) ?? []);
+}
@@ -0,0 +1,15 @@
+import { timingSafeEqual } from "node:crypto";
+import { NextRequest } from "next/server";
+
+/**
+ * Scheduled jobs call their routes with `Authorization: Bearer $CRON_SECRET`
+ * (Vercel Cron sends this header itself). Without a secret configured every
+ * call is refused.
+ */
+export function isCronRequest(request: NextRequest): boolean {
+  const secret = process.env.CRON_SECRET;
+  if (!secret) return false;
+  const received = Buffer.from(request.headers.get("authorization") ?? "");
+  const expected = Buffer.from(`Bearer ${secret}`);
+  return received.length === expected.length && timingSafeEqual(received, expected);
+}
@@ -0,0 +1,154 @@
+import { and, eq, isNull, or } from "drizzle-orm";
+import { db, type DbClient } from "@/lib/db";
+import { currency as currencyTable, type Currency } from "@/lib/db/schema";
+import { registerCurrencyFormats } from "@/lib/format";
+import type { CurrencyFormData } from "@/lib/form-schemas/currency";
+import { DomainError } from "@/lib/error-handler";
+
+export class CurrencyError extends DomainError {
+  constructor(message: string, statusCode: 400 | 404 | 409) {
+    super(message, statusCode);
+    this.name = "CurrencyError";
+  }
+}
+
+// Amounts are always also kept in USD, so it can never be turned off
+export const BASE_CURRENCY = "USD";
+
+export interface CurrencyOption {
+  code: string;
+  name: string;
+  symbol: string;
+  minorUnits: number;
+  isActive: boolean;
+  // Null when the row applies to every location
+  locationId: string | null;
+}
+
+const toOption = (row: Currency): CurrencyOption => ({
+  code: row.code,
+  name: row.name,
+  symbol: row.symbol,
+  minorUnits: row.minorUnits,
+  isActive: row.isActive,
+  locationId: row.locationId,
+});
+
+/**
+ * The currencies as `locationId` sees them: every row without a location,
+ * with the location's own rows taking their place where the codes match.
+ * Without a location, only the rows that apply everywhere.
+ */
+export async function listCurrencies(
+  locationId: string | null,
+  options: { includeInactive?: boolean } = {},
+  client: DbClient = db
+): Promise<CurrencyOption[]> {
+  const rows = await client
+    .select()
+    .from(currencyTable)
+    .where(
+      locationId
+        ? or(isNull(currencyTable.locationId), eq(currencyTable.locationId, locationId))
+        : isNull(currencyTable.locationId)
+    )
+    .orderBy(currencyTable.code);
+
+  const byCode = new Map<string, CurrencyOption>();
+  for (const row of rows) {
+    if (row.locationId === null && byCode.has(row.code)) continue;
+    byCode.set(row.code, toOption(row));
+  }
+
+  // USD first, as every form defaults to it
+  return Array.from(byCode.values())
+    .filter((option) => options.includeInactive || option.isActive)
+    .sort((a, b) => (a.code === BASE_CURRENCY ? -1 : b.code === BASE_CURRENCY ? 1 : a.code.localeCompare(b.code)));
+}
+
+/**
+ * Codes any location has enabled. Rates are fetched and stored for these,
+ * so a currency converts as soon as one location turns it on.
+ */
+export async function rateCurrencyCodes(client: DbClient = db): Promise<string[]> {
+  const rows = await client
+    .selectDistinct({ code: currencyTable.code })
+    .from(currencyTable)
+    .where(eq(currencyTable.isActive, true));
+  return rows.map((row) => row.code).filter((code) => code !== BASE_CURRENCY);
+}
+
+/**
+ * Throws unless `code` is enabled where the record lives. Existing records
+ * in a currency turned off later stay readable; only new amounts in it
+ * are refused.
+ */
+export async function assertActiveCurrency(code: string, locationId: string | null, client: DbClient = db): Promise<void> {
+  if (code === BASE_CURRENCY) return;
+  const enabled = await listCurrencies(locationId, {}, client);
+  if (!enabled.some((option) => option.code === code)) {
+    throw new CurrencyError(`${code} is not an enabled currency${locationId ? " for this location" : ""}`, 400);
+  }
+}
+
+// Loaded formats stay in use this long before the table is read again
+const FORMATS_TTL_MS = 5 * 60 * 1000;
+let formatsLoadedAt = 0;
+
+/**
+ * Registers the table's minor units and symbols for rounding and
+ * formatting. Minor units are a property of the code, so the row that
+ * applies everywhere wins over a location's own.
+ */
+export async function loadCurrencyFormats(client: DbClient = db): Promise<void> {
+  if (Date.now() - formatsLoadedAt < FORMATS_TTL_MS) return;
+  const rows = await client
+    .select({
+      code: currencyTable.code,
+      symbol: currencyTable.symbol,
+      minorUnits: currencyTable.minorUnits,
+      locationId: currencyTable.locationId,
+    })
+    .from(currencyTable);
+  // Location rows first so the ones for everywhere are registered over them
+  registerCurrencyFormats(rows.sort((a, b) => Number(a.locationId === null) - Number(b.locationId === null)));
+  formatsLoadedAt = Date.now();
+}
+
+/**
+ * Adds or updates a currency for `locationId`, or for every location when
+ * it is null. A location admin changing a currency that applies everywhere
+ * gets a row of their own, leaving the other locations as they were.
+ */
+export async function saveCurrency(
+  input: CurrencyFormData,
+  locationId: string | null
+): Promise<{ before: Currency | null; after: Currency }> {
+  if (input.code === BASE_CURRENCY && !input.isActive) {
+    throw new CurrencyError("USD is the base currency and cannot be turned off", 400);
+  }
+
+  const where = and(
+    eq(currencyTable.code, input.code),
+    locationId ? eq(currencyTable.locationId, locationId) : isNull(currencyTable.locationId)
+  );
+  const [before] = await db.select().from(currencyTable).where(where).limit(1);
+
+  const values = {
+    name: input.name,
+    symbol: input.symbol,
+    minorUnits: input.minorUnits,
+    isActive: input.isActive,
+    updatedAt: new Date(),
+  };
+  const [after] = before
+    ? await db.update(currencyTable).set(values).where(eq(currencyTable.id, before.id)).returning()
+    : await db
+        .insert(currencyTable)
+        .values({ ...values, code: input.code, locationId })
+        .returning();
+
+  // The next conversion or format picks the change up
+  formatsLoadedAt = 0;
+  return { before: before ?? null, after };
+}
@@ -1,5 +1,7 @@
 import { drizzle } from "drizzle-orm/neon-http";
-import { neon } from "@neondatabase/serverless";
+import { drizzle as drizzlePool } from "drizzle-orm/neon-serverless";
+import { neon, neonConfig, Pool } from "@neondatabase/serverless";
+import ws from "ws";
 import * as schema from "./schema";
 
 if (!process.env.DATABASE_URL) {
@@ -11,3 +13,26 @@ export const db = drizzle(sql, {
   schema,
   logger: process.env.NODE_ENV === "development" ? true : false,
 });
+
+// The HTTP driver above cannot hold a transaction open across statements.
+// Multi-statement writes go through a WebSocket pool instead.
+neonConfig.webSocketConstructor = ws;
+
+const pool = new Pool({ connectionString: process.env.DATABASE_URL });
+const pooledDb = drizzlePool(pool, {
+  schema,
+  logger: process.env.NODE_ENV === "development" ? true : false,
+});
+
+export type Transaction = Parameters<Parameters<typeof pooledDb.transaction>[0]>[0];
+
+// Anything a query can run on: the shared client or an open transaction
+export type DbClient = typeof db | Transaction;
+
+/**
+ * Runs `work` in a single database transaction. Any error thrown inside rolls
+ * back every statement issued through `tx` and is rethrown to the caller.
+ */
+export function withTransaction<T>(work: (tx: Transaction) => Promise<T>): Promise<T> {
+  return pooledDb.transaction(work);
+}
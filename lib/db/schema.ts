@@ -9,9 +9,14 @@ import {
   boolean,
   numeric,
   uniqueIndex,
+  unique,
+  varchar,
   pgEnum,
+  jsonb,
+  type AnyPgColumn,
 } from "drizzle-orm/pg-core";
 import { relations } from "drizzle-orm";
+import type { RecurrenceRule } from "@/lib/form-schemas/recurrence-rule";
 
 export const titleEnum = pgEnum("title", [
   "mr",
@@ -225,16 +230,30 @@ export const planStatusEnum = pgEnum("plan_status", [
   "overdue",
 ]);
 
-export const currencyEnum = pgEnum("currency", [
-  "USD",
-  "ILS",
-  "EUR",
-  "JPY",
-  "GBP",
-  "AUD",
-  "CAD",
-  "ZAR",
-]);
+// Currencies the CRM takes amounts in. Rows without a location apply to
+// every location; a location's own row for a code overrides that one there.
+// Currency columns elsewhere hold the plain ISO code.
+export const currency = pgTable(
+  "currency",
+  {
+    id: serial("id").primaryKey(),
+    code: varchar("code", { length: 3 }).notNull(),
+    name: text("name").notNull(),
+    symbol: text("symbol").notNull(),
+    // ISO 4217 decimal places amounts are rounded to, e.g. 0 for JPY
+    minorUnits: integer("minor_units").notNull().default(2),
+    isActive: boolean("is_active").notNull().default(true),
+    locationId: text("location_id"),
+    createdAt: timestamp("created_at").defaultNow().notNull(),
+    updatedAt: timestamp("updated_at").defaultNow().notNull(),
+  },
+  (table) => ({
+    codeLocationUnique: unique("currency_code_location_unique").on(table.code, table.locationId).nullsNotDistinct(),
+  })
+);
+
+export type Currency = typeof currency.$inferSelect;
+export type NewCurrency = typeof currency.$inferInsert;
 
 export const solicitorStatusEnum = pgEnum("solicitor_status", [
   "active",
@@ -260,6 +279,54 @@ export const installmentStatusEnum = pgEnum("installment_status", [
   "cancelled",
 ]);
 
+export const dedicationTypeEnum = pgEnum("dedication_type", ["in_honor_of", "in_memory_of"]);
+
+export const instrumentTypeEnum = pgEnum("instrument_type", ["card", "ach"]);
+
+export const processorTransactionTypeEnum = pgEnum("processor_transaction_type", ["charge", "refund"]);
+
+export const processorTransactionStatusEnum = pgEnum("processor_transaction_status", [
+  "pending",
+  "approved",
+  "declined",
+  "failed",
+]);
+
+export const achEntryStatusEnum = pgEnum("ach_entry_status", ["submitted", "settled", "returned"]);
+
+export const bankStatementFormatEnum = pgEnum("bank_statement_format", ["csv", "ofx"]);
+
+// review: more than one payment could be the deposit, or only a weak match
+export const bankLineStatusEnum = pgEnum("bank_line_status", ["unmatched", "review", "matched", "ignored"]);
+
+export const bankMatchMethodEnum = pgEnum("bank_match_method", ["auto", "manual", "created"]);
+
+export const depositBatchStatusEnum = pgEnum("deposit_batch_status", ["open", "closed"]);
+
+export const refundTypeEnum = pgEnum("refund_type", ["refund", "chargeback"]);
+
+export const pledgeAdjustmentTypeEnum = pgEnum("pledge_adjustment_type", ["write_off", "reduction"]);
+
+export const pledgeAdjustmentReasonEnum = pgEnum("pledge_adjustment_reason", [
+  "uncollectible",
+  "donor_deceased",
+  "financial_hardship",
+  "disputed",
+  "duplicate",
+  "donor_request",
+  "other",
+]);
+
+export const pledgeAdjustmentStatusEnum = pgEnum("pledge_adjustment_status", [
+  "pending",
+  "approved",
+  "declined",
+  "reversed",
+]);
+
+// Where a stored rate came from; manual entries outrank imports, which outrank the API
+export const exchangeRateSourceEnum = pgEnum("exchange_rate_source", ["api", "manual", "import"]);
+
 export const roleEnum = pgEnum("role", ["admin", "user", "super_admin"]);
 
 export const userStatusEnum = pgEnum("user_status", ["active", "suspended"]);
@@ -308,6 +375,10 @@ export const contact = pgTable("contact", {
   title: text("title"),
   gender: genderEnum("gender"),
   address: text("address"),
+  // National tax id printed on receipts (Teudat Zehut for Israeli donors)
+  taxId: text("tax_id"),
+  // Date the donor signed a UK Gift Aid declaration
+  giftAidDeclarationDate: date("gift_aid_declaration_date"),
   createdAt: timestamp("created_at").defaultNow().notNull(),
   updatedAt: timestamp("updated_at").defaultNow().notNull(),
 });
@@ -564,12 +635,14 @@ export const pledge = pgTable(
       onDelete: "set null",
     }),
     pledgeDate: date("pledge_date").notNull(),
+    // Stored Gregorian even when the donor pledged "by Rosh Hashana"
+    dueDate: date("due_date"),
     description: text("description"),
     originalAmount: numeric("original_amount", {
       precision: 10,
       scale: 2,
     }).notNull(),
-    currency: currencyEnum("currency").notNull().default("USD"),
+    currency: varchar("currency", { length: 3 }).notNull().default("USD"),
     totalPaid: numeric("total_paid", { precision: 10, scale: 2 })
       .default("0")
       .notNull(),
@@ -581,9 +654,28 @@ export const pledge = pgTable(
     totalPaidUsd: numeric("total_paid_usd", { precision: 10, scale: 2 }).default(
       "0"
     ),
-    exchangeRate: numeric("exchange_rate", { precision: 10, scale: 2 }),
+    exchangeRate: numeric("exchange_rate", { precision: 18, scale: 6 }),
     balanceUsd: numeric("balance_usd", { precision: 10, scale: 2 }),
+    // Approved write-offs and reductions; the balance is net of these while
+    // originalAmount keeps what was pledged
+    totalAdjusted: numeric("total_adjusted", { precision: 10, scale: 2 })
+      .default("0")
+      .notNull(),
+    totalAdjustedUsd: numeric("total_adjusted_usd", { precision: 10, scale: 2 }).default(
+      "0"
+    ),
     campaignCode: text("campaign_code"),
+    // Value of goods or services the donor received for the pledge (CRA "advantage")
+    advantageAmount: numeric("advantage_amount", { precision: 10, scale: 2 }),
+    advantageDescription: text("advantage_description"),
+    // Previous cycle's pledge when this one came from an auto-renewing plan
+    renewedFromPledgeId: integer("renewed_from_pledge_id"),
+    // "In honor of" / "in memory of" line printed on receipts
+    dedicationType: dedicationTypeEnum("dedication_type"),
+    dedicationName: text("dedication_name"),
+    // Memorial the dedication refers to; memorial is declared below, so the
+    // foreign key lives in the migration
+    memorialId: integer("memorial_id"),
     isActive: boolean("is_active").default(true).notNull(),
     notes: text("notes"),
     createdAt: timestamp("created_at").defaultNow().notNull(),
@@ -595,12 +687,127 @@ export const pledge = pgTable(
     relationshipIdIdx: index("pledge_relationship_id_idx").on(table.relationshipId),
     pledgeDateIdx: index("pledge_pledge_date_idx").on(table.pledgeDate),
     currencyIdx: index("pledge_currency_idx").on(table.currency),
+    renewedFromIdx: index("pledge_renewed_from_pledge_id_idx").on(table.renewedFromPledgeId),
+    memorialIdIdx: index("pledge_memorial_id_idx").on(table.memorialId),
   })
 );
 
 export type Pledge = typeof pledge.$inferSelect;
 export type NewPledge = typeof pledge.$inferInsert;
 
+// Part of a pledge's balance that will not be collected, requested by staff
+// and applied once an admin approves it
+export const pledgeAdjustment = pgTable(
+  "pledge_adjustment",
+  {
+    id: serial("id").primaryKey(),
+    pledgeId: integer("pledge_id")
+      .references(() => pledge.id, { onDelete: "cascade" })
+      .notNull(),
+    type: pledgeAdjustmentTypeEnum("type").notNull(),
+    reasonCode: pledgeAdjustmentReasonEnum("reason_code").notNull(),
+    status: pledgeAdjustmentStatusEnum("status").notNull().default("pending"),
+    // In the pledge's currency; USD at the pledge's own rate
+    amount: numeric("amount", { precision: 10, scale: 2 }).notNull(),
+    amountUsd: numeric("amount_usd", { precision: 10, scale: 2 }),
+    effectiveDate: date("effective_date").notNull(),
+    notes: text("notes"),
+    requestedBy: integer("requested_by").references(() => user.id, { onDelete: "set null" }),
+    approvedBy: integer("approved_by").references(() => user.id, { onDelete: "set null" }),
+    approvedAt: timestamp("approved_at"),
+    // Who declined a request or reversed an approved adjustment, and why
+    closedBy: integer("closed_by").references(() => user.id, { onDelete: "set null" }),
+    closedAt: timestamp("closed_at"),
+    closeReason: text("close_reason"),
+    createdAt: timestamp("created_at").defaultNow().notNull(),
+    updatedAt: timestamp("updated_at").defaultNow().notNull(),
+  },
+  (table) => ({
+    pledgeIdIdx: index("pledge_adjustment_pledge_id_idx").on(table.pledgeId),
+    statusIdx: index("pledge_adjustment_status_idx").on(table.status),
+    effectiveDateIdx: index("pledge_adjustment_effective_date_idx").on(table.effectiveDate),
+  })
+);
+
+export type PledgeAdjustment = typeof pledgeAdjustment.$inferSelect;
+export type NewPledgeAdjustment = typeof pledgeAdjustment.$inferInsert;
+
+// A relative a donor remembers, with the Hebrew date of passing that the
+// yearly yahrzeit is counted from
+export const memorial = pgTable(
+  "memorial",
+  {
+    id: serial("id").primaryKey(),
+    contactId: integer("contact_id")
+      .references(() => contact.id, { onDelete: "cascade" })
+      .notNull(),
+    pledgeId: integer("pledge_id").references(() => pledge.id, {
+      onDelete: "set null",
+    }),
+    deceasedName: text("deceased_name").notNull(),
+    deceasedHebrewName: text("deceased_hebrew_name"),
+    // How the deceased was related to the donor, e.g. "Father"
+    relationship: text("relationship"),
+    dateOfPassing: date("date_of_passing").notNull(),
+    // Passing after nightfall belongs to the next Hebrew day
+    afterSunset: boolean("after_sunset").default(false).notNull(),
+    hebrewDay: integer("hebrew_day").notNull(),
+    hebrewMonth: integer("hebrew_month").notNull(),
+    hebrewYear: integer("hebrew_year").notNull(),
+    remindersEnabled: boolean("reminders_enabled").default(true).notNull(),
+    isActive: boolean("is_active").default(true).notNull(),
+    notes: text("notes"),
+    createdAt: timestamp("created_at").defaultNow().notNull(),
+    updatedAt: timestamp("updated_at").defaultNow().notNull(),
+  },
+  (table) => ({
+    contactIdIdx: index("memorial_contact_id_idx").on(table.contactId),
+    pledgeIdIdx: index("memorial_pledge_id_idx").on(table.pledgeId),
+  })
+);
+
+export type Memorial = typeof memorial.$inferSelect;
+export type NewMemorial = typeof memorial.$inferInsert;
+
+// A card or bank account held by a payment processor. Only the processor's
+// token and what is needed to recognise the instrument are stored here.
+export const savedPaymentMethod = pgTable(
+  "saved_payment_method",
+  {
+    id: serial("id").primaryKey(),
+    contactId: integer("contact_id")
+      .references(() => contact.id, { onDelete: "cascade" })
+      .notNull(),
+    processor: text("processor").notNull(),
+    token: text("token").notNull(),
+    type: instrumentTypeEnum("type").notNull(),
+    // Card brand or bank name, e.g. "Visa"
+    brand: text("brand"),
+    last4: text("last4").notNull(),
+    expiryMonth: integer("expiry_month"),
+    expiryYear: integer("expiry_year"),
+    holderName: text("holder_name"),
+    // Only bank accounts debited through NACHA files keep these; the file
+    // has to carry the full account number, so it is kept encrypted
+    routingNumber: text("routing_number"),
+    accountNumberEncrypted: text("account_number_encrypted"),
+    // Removed methods stay behind for the transactions that used them
+    isActive: boolean("is_active").default(true).notNull(),
+    createdAt: timestamp("created_at").defaultNow().notNull(),
+    updatedAt: timestamp("updated_at").defaultNow().notNull(),
+  },
+  (table) => ({
+    contactIdIdx: index("saved_payment_method_contact_id_idx").on(table.contactId),
+    processorTokenUnique: uniqueIndex("saved_payment_method_processor_token_unique").on(
+      table.processor,
+      table.token
+    ),
+  })
+);
+
+export type SavedPaymentMethod = typeof savedPaymentMethod.$inferSelect;
+export type NewSavedPaymentMethod = typeof savedPaymentMethod.$inferInsert;
+
 export const paymentPlan = pgTable(
   "payment_plan",
   {
@@ -613,12 +820,14 @@ export const paymentPlan = pgTable(
     }),
     planName: text("plan_name"),
     frequency: frequencyEnum("frequency").notNull(),
+    // Irregular schedules (e.g. 1st and 15th, skip summer); null steps by frequency
+    recurrenceRule: jsonb("recurrence_rule").$type<RecurrenceRule>(),
     distributionType: distributionTypeEnum("distribution_type").notNull().default("fixed"),
     totalPlannedAmount: numeric("total_planned_amount", {
       precision: 10,
       scale: 2,
     }).notNull(),
-    currency: currencyEnum("currency").notNull(),
+    currency: varchar("currency", { length: 3 }).notNull(),
     totalPlannedAmountUsd: numeric("total_planned_amount_usd", {
       precision: 10,
       scale: 2,
@@ -632,7 +841,7 @@ export const paymentPlan = pgTable(
       scale: 2,
     }),
     numberOfInstallments: integer("number_of_installments").notNull(),
-    exchangeRate: numeric("exchange_rate", { precision: 10, scale: 2 }),
+    exchangeRate: numeric("exchange_rate", { precision: 18, scale: 6 }),
     startDate: date("start_date").notNull(),
     endDate: date("end_date"),
     nextPaymentDate: date("next_payment_date"),
@@ -651,6 +860,10 @@ export const paymentPlan = pgTable(
     }),
     planStatus: planStatusEnum("plan_status").notNull().default("active"),
     autoRenew: boolean("auto_renew").default(false).notNull(),
+    // Installments are charged to this method when due; null collects nothing
+    savedPaymentMethodId: integer("saved_payment_method_id").references(() => savedPaymentMethod.id, {
+      onDelete: "set null",
+    }),
     remindersSent: integer("reminders_sent").default(0).notNull(),
     lastReminderDate: date("last_reminder_date"),
     currencyPriority: integer("currency_priority").default(1).notNull(),
@@ -675,14 +888,59 @@ export const paymentPlan = pgTable(
 export type PaymentPlan = typeof paymentPlan.$inferSelect;
 export type NewPaymentPlan = typeof paymentPlan.$inferInsert;
 
+export const renewalStatusEnum = pgEnum("renewal_status", ["pending", "approved", "declined"]);
+
+// Next cycle proposed for a finished auto-renew plan, waiting on an admin
+export const planRenewal = pgTable(
+  "plan_renewal",
+  {
+    id: serial("id").primaryKey(),
+    // A plan is renewed at most once; the new plan renews itself in turn
+    paymentPlanId: integer("payment_plan_id")
+      .references(() => paymentPlan.id, { onDelete: "cascade" })
+      .notNull()
+      .unique(),
+    status: renewalStatusEnum("status").notNull().default("pending"),
+
+    // Proposed terms, adjustable until approved
+    startDate: date("start_date").notNull(),
+    frequency: frequencyEnum("frequency").notNull(),
+    installmentAmount: numeric("installment_amount", { precision: 10, scale: 2 }).notNull(),
+    numberOfInstallments: integer("number_of_installments").notNull(),
+    currency: varchar("currency", { length: 3 }).notNull(),
+
+    // Created on approval
+    newPledgeId: integer("new_pledge_id").references(() => pledge.id, {
+      onDelete: "set null",
+    }),
+    newPaymentPlanId: integer("new_payment_plan_id").references(() => paymentPlan.id, {
+      onDelete: "set null",
+    }),
+    decidedBy: integer("decided_by").references(() => user.id, {
+      onDelete: "set null",
+    }),
+    decidedAt: timestamp("decided_at"),
+    declineReason: text("decline_reason"),
+    createdAt: timestamp("created_at").defaultNow().notNull(),
+    updatedAt: timestamp("updated_at").defaultNow().notNull(),
+  },
+  (table) => ({
+    statusIdx: index("plan_renewal_status_idx").on(table.status),
+  })
+);
+
+export type PlanRenewal = typeof planRenewal.$inferSelect;
+export type NewPlanRenewal = typeof planRenewal.$inferInsert;
+
 export const exchangeRate = pgTable(
   "exchange_rate",
   {
     id: serial("id").primaryKey(),
-    baseCurrency: currencyEnum("base_currency").notNull().default("USD"),
-    targetCurrency: currencyEnum("target_currency").notNull(),
+    baseCurrency: varchar("base_currency", { length: 3 }).notNull().default("USD"),
+    targetCurrency: varchar("target_currency", { length: 3 }).notNull(),
     rate: numeric("rate", { precision: 18, scale: 6 }).notNull(),
     date: date("date").notNull(),
+    source: exchangeRateSourceEnum("source").notNull().default("api"),
     createdAt: date("created_at").defaultNow().notNull(),
     updatedAt: date("updated_at").defaultNow().notNull(),
   },
@@ -701,6 +959,29 @@ export const exchangeRate = pgTable(
 export type ExchangeRate = typeof exchangeRate.$inferSelect;
 export type NewExchangeRate = typeof exchangeRate.$inferInsert;
 
+// Official rate for a currency's month: every conversion dated in that month
+// uses it instead of the daily rate, so the books agree on one number
+export const exchangeRateLock = pgTable(
+  "exchange_rate_lock",
+  {
+    id: serial("id").primaryKey(),
+    currency: varchar("currency", { length: 3 }).notNull(),
+    // First day of the month
+    month: date("month").notNull(),
+    // Units of the currency per USD, like exchange_rate.rate
+    rate: numeric("rate", { precision: 18, scale: 6 }).notNull(),
+    note: text("note"),
+    lockedBy: integer("locked_by").references(() => user.id, { onDelete: "set null" }),
+    createdAt: timestamp("created_at").defaultNow().notNull(),
+  },
+  (table) => ({
+    uniqueLock: uniqueIndex("exchange_rate_lock_currency_month_idx").on(table.currency, table.month),
+  })
+);
+
+export type ExchangeRateLock = typeof exchangeRateLock.$inferSelect;
+export type NewExchangeRateLock = typeof exchangeRateLock.$inferInsert;
+
 export const solicitor = pgTable(
   "solicitor",
   {
@@ -777,7 +1058,7 @@ export const installmentSchedule = pgTable(
       precision: 10,
       scale: 2,
     }).notNull(),
-    currency: currencyEnum("currency").notNull(),
+    currency: varchar("currency", { length: 3 }).notNull(),
     installmentAmountUsd: numeric("installment_amount_usd", {
       precision: 10,
       scale: 2,
@@ -804,6 +1085,68 @@ export const installmentSchedule = pgTable(
 export type InstallmentSchedule = typeof installmentSchedule.$inferSelect;
 export type NewInstallmentSchedule = typeof installmentSchedule.$inferInsert;
 
+export const reminderStatusEnum = pgEnum("reminder_status", ["sending", "sent"]);
+
+// One row per installment and reminder offset, so a reminder goes out once
+export const installmentReminder = pgTable(
+  "installment_reminder",
+  {
+    id: serial("id").primaryKey(),
+    installmentScheduleId: integer("installment_schedule_id")
+      .references(() => installmentSchedule.id, { onDelete: "cascade" })
+      .notNull(),
+    paymentPlanId: integer("payment_plan_id")
+      .references(() => paymentPlan.id, { onDelete: "cascade" })
+      .notNull(),
+    // Days relative to the due date: negative before, positive overdue
+    offsetDays: integer("offset_days").notNull(),
+    status: reminderStatusEnum("status").notNull().default("sending"),
+    recipient: text("recipient").notNull(),
+    transport: text("transport").notNull(),
+    subject: text("subject").notNull(),
+    sentAt: timestamp("sent_at"),
+    createdAt: timestamp("created_at").defaultNow().notNull(),
+  },
+  (table) => ({
+    installmentOffsetUnique: uniqueIndex("installment_reminder_installment_offset_unique").on(
+      table.installmentScheduleId,
+      table.offsetDays
+    ),
+    paymentPlanIdIdx: index("installment_reminder_payment_plan_id_idx").on(table.paymentPlanId),
+  })
+);
+
+export type InstallmentReminder = typeof installmentReminder.$inferSelect;
+export type NewInstallmentReminder = typeof installmentReminder.$inferInsert;
+
+// One row per memorial and Hebrew year, so a yahrzeit reminder goes out once
+export const yahrzeitReminder = pgTable(
+  "yahrzeit_reminder",
+  {
+    id: serial("id").primaryKey(),
+    memorialId: integer("memorial_id")
+      .references(() => memorial.id, { onDelete: "cascade" })
+      .notNull(),
+    hebrewYear: integer("hebrew_year").notNull(),
+    yahrzeitDate: date("yahrzeit_date").notNull(),
+    status: reminderStatusEnum("status").notNull().default("sending"),
+    recipient: text("recipient").notNull(),
+    transport: text("transport").notNull(),
+    subject: text("subject").notNull(),
+    sentAt: timestamp("sent_at"),
+    createdAt: timestamp("created_at").defaultNow().notNull(),
+  },
+  (table) => ({
+    memorialYearUnique: uniqueIndex("yahrzeit_reminder_memorial_year_unique").on(
+      table.memorialId,
+      table.hebrewYear
+    ),
+  })
+);
+
+export type YahrzeitReminder = typeof yahrzeitReminder.$inferSelect;
+export type NewYahrzeitReminder = typeof yahrzeitReminder.$inferInsert;
+
 export const payment = pgTable(
   "payment",
   {
@@ -830,11 +1173,11 @@ export const payment = pgTable(
 
     // Core payment amount and currency
     amount: numeric("amount", { precision: 10, scale: 2 }).notNull(),
-    currency: currencyEnum("currency").notNull(),
+    currency: varchar("currency", { length: 3 }).notNull(),
 
     // USD conversion (for reporting)
     amountUsd: numeric("amount_usd", { precision: 10, scale: 2 }),
-    exchangeRate: numeric("exchange_rate", { precision: 10, scale: 4 }),
+    exchangeRate: numeric("exchange_rate", { precision: 18, scale: 6 }),
 
     // Pledge currency conversion (for pledge balance calculations)
     amountInPledgeCurrency: numeric("amount_in_pledge_currency", {
@@ -842,8 +1185,8 @@ export const payment = pgTable(
       scale: 2,
     }),
     pledgeCurrencyExchangeRate: numeric("pledge_currency_exchange_rate", {
-      precision: 10,
-      scale: 4,
+      precision: 18,
+      scale: 6,
     }),
 
     // Plan currency conversion (for plan tracking)
@@ -852,8 +1195,8 @@ export const payment = pgTable(
       scale: 2,
     }),
     planCurrencyExchangeRate: numeric("plan_currency_exchange_rate", {
-      precision: 10,
-      scale: 4,
+      precision: 18,
+      scale: 6,
     }),
 
     paymentDate: date("payment_date").notNull(),
@@ -880,6 +1223,22 @@ export const payment = pgTable(
     bonusRuleId: integer("bonus_rule_id").references(() => bonusRule.id, {
       onDelete: "set null",
     }),
+    // Overrides the pledge's dedication on this payment's receipt
+    dedicationType: dedicationTypeEnum("dedication_type"),
+    dedicationName: text("dedication_name"),
+    memorialId: integer("memorial_id").references(() => memorial.id, {
+      onDelete: "set null",
+    }),
+    // Set once the payment is matched to a deposit on a bank statement
+    isReconciled: boolean("is_reconciled").default(false).notNull(),
+    bankDepositId: integer("bank_deposit_id").references((): AnyPgColumn => bankStatementLine.id, {
+      onDelete: "set null",
+    }),
+    reconciledAt: timestamp("reconciled_at"),
+    // Check deposit the payment was keyed into; a closed batch locks it
+    depositBatchId: integer("deposit_batch_id").references((): AnyPgColumn => depositBatch.id, {
+      onDelete: "set null",
+    }),
     notes: text("notes"),
     createdAt: timestamp("created_at").defaultNow().notNull(),
     updatedAt: timestamp("updated_at").defaultNow().notNull(),
@@ -896,12 +1255,233 @@ export const payment = pgTable(
     solicitorIdIdx: index("payment_solicitor_id_idx").on(table.solicitorId),
     installmentScheduleIdIdx: index("payment_installment_schedule_id_idx").on(table.installmentScheduleId),
     currencyIdx: index("payment_currency_idx").on(table.currency),
+    bankDepositIdIdx: index("payment_bank_deposit_id_idx").on(table.bankDepositId),
+    depositBatchIdIdx: index("payment_deposit_batch_id_idx").on(table.depositBatchId),
   })
 );
 
 export type Payment = typeof payment.$inferSelect;
 export type NewPayment = typeof payment.$inferInsert;
 
+// Every charge and refund sent to a payment processor, including declines
+export const processorTransaction = pgTable(
+  "processor_transaction",
+  {
+    id: serial("id").primaryKey(),
+    processor: text("processor").notNull(),
+    type: processorTransactionTypeEnum("type").notNull(),
+    status: processorTransactionStatusEnum("status").notNull().default("pending"),
+    // Sent with the request so a retried call is not charged twice
+    idempotencyKey: text("idempotency_key").notNull().unique(),
+    // The processor's id, known once it has answered
+    externalId: text("external_id"),
+    amount: numeric("amount", { precision: 10, scale: 2 }).notNull(),
+    currency: varchar("currency", { length: 3 }).notNull(),
+    savedPaymentMethodId: integer("saved_payment_method_id").references(() => savedPaymentMethod.id, {
+      onDelete: "set null",
+    }),
+    paymentPlanId: integer("payment_plan_id").references(() => paymentPlan.id, {
+      onDelete: "set null",
+    }),
+    installmentScheduleId: integer("installment_schedule_id").references(() => installmentSchedule.id, {
+      onDelete: "set null",
+    }),
+    paymentId: integer("payment_id").references(() => payment.id, {
+      onDelete: "set null",
+    }),
+    // The charge a refund returns money from
+    chargeTransactionId: integer("charge_transaction_id"),
+    failureCode: text("failure_code"),
+    failureMessage: text("failure_message"),
+    settledAt: timestamp("settled_at"),
+    createdAt: timestamp("created_at").defaultNow().notNull(),
+    updatedAt: timestamp("updated_at").defaultNow().notNull(),
+  },
+  (table) => ({
+    externalIdIdx: index("processor_transaction_external_id_idx").on(table.processor, table.externalId),
+    installmentScheduleIdIdx: index("processor_transaction_installment_schedule_id_idx").on(
+      table.installmentScheduleId
+    ),
+    paymentIdIdx: index("processor_transaction_payment_id_idx").on(table.paymentId),
+    statusIdx: index("processor_transaction_status_idx").on(table.status),
+  })
+);
+
+export type ProcessorTransaction = typeof processorTransaction.$inferSelect;
+export type NewProcessorTransaction = typeof processorTransaction.$inferInsert;
+
+// A NACHA debit file generated for the bank, one per submission. The file
+// is rebuilt from the entries on download rather than stored
+export const achBatch = pgTable(
+  "ach_batch",
+  {
+    id: serial("id").primaryKey(),
+    // null when a super admin generated it across every location
+    locationId: text("location_id"),
+    fromDate: date("from_date").notNull(),
+    toDate: date("to_date").notNull(),
+    effectiveDate: date("effective_date").notNull(),
+    entryCount: integer("entry_count").notNull(),
+    totalAmount: numeric("total_amount", { precision: 12, scale: 2 }).notNull(),
+    fileName: text("file_name").notNull(),
+    // The balancing credit's trace number, drawn from the entries' sequence
+    offsetTraceNumber: text("offset_trace_number").notNull().unique(),
+    createdBy: integer("created_by").references(() => user.id, { onDelete: "set null" }),
+    settledAt: timestamp("settled_at"),
+    createdAt: timestamp("created_at").defaultNow().notNull(),
+    updatedAt: timestamp("updated_at").defaultNow().notNull(),
+  },
+  (table) => ({
+    locationIdIdx: index("ach_batch_location_id_idx").on(table.locationId),
+    createdAtIdx: index("ach_batch_created_at_idx").on(table.createdAt),
+  })
+);
+
+export type AchBatch = typeof achBatch.$inferSelect;
+export type NewAchBatch = typeof achBatch.$inferInsert;
+
+// One debit in a NACHA file; the trace number ties bank returns back to it
+export const achBatchEntry = pgTable(
+  "ach_batch_entry",
+  {
+    id: serial("id").primaryKey(),
+    batchId: integer("batch_id")
+      .references(() => achBatch.id, { onDelete: "cascade" })
+      .notNull(),
+    paymentId: integer("payment_id").references(() => payment.id, {
+      onDelete: "set null",
+    }),
+    installmentScheduleId: integer("installment_schedule_id").references(() => installmentSchedule.id, {
+      onDelete: "set null",
+    }),
+    paymentPlanId: integer("payment_plan_id").references(() => paymentPlan.id, {
+      onDelete: "set null",
+    }),
+    savedPaymentMethodId: integer("saved_payment_method_id").references(() => savedPaymentMethod.id, {
+      onDelete: "set null",
+    }),
+    traceNumber: text("trace_number").notNull().unique(),
+    amount: numeric("amount", { precision: 10, scale: 2 }).notNull(),
+    status: achEntryStatusEnum("status").notNull().default("submitted"),
+    returnCode: text("return_code"),
+    returnReason: text("return_reason"),
+    returnedAt: timestamp("returned_at"),
+    createdAt: timestamp("created_at").defaultNow().notNull(),
+    updatedAt: timestamp("updated_at").defaultNow().notNull(),
+  },
+  (table) => ({
+    batchIdIdx: index("ach_batch_entry_batch_id_idx").on(table.batchId),
+    installmentScheduleIdIdx: index("ach_batch_entry_installment_schedule_id_idx").on(
+      table.installmentScheduleId
+    ),
+    paymentIdIdx: index("ach_batch_entry_payment_id_idx").on(table.paymentId),
+  })
+);
+
+export type AchBatchEntry = typeof achBatchEntry.$inferSelect;
+export type NewAchBatchEntry = typeof achBatchEntry.$inferInsert;
+
+// An uploaded bank statement; only its deposits are kept
+export const bankStatement = pgTable(
+  "bank_statement",
+  {
+    id: serial("id").primaryKey(),
+    // null when a super admin imported it for every location
+    locationId: text("location_id"),
+    fileName: text("file_name").notNull(),
+    format: bankStatementFormatEnum("format").notNull(),
+    currency: varchar("currency", { length: 3 }).notNull().default("USD"),
+    // Range of the deposits in the file
+    periodStart: date("period_start"),
+    periodEnd: date("period_end"),
+    lineCount: integer("line_count").notNull(),
+    // Deposits already imported from an earlier, overlapping statement
+    duplicateCount: integer("duplicate_count").notNull().default(0),
+    importedBy: integer("imported_by").references(() => user.id, { onDelete: "set null" }),
+    createdAt: timestamp("created_at").defaultNow().notNull(),
+    updatedAt: timestamp("updated_at").defaultNow().notNull(),
+  },
+  (table) => ({
+    locationIdIdx: index("bank_statement_location_id_idx").on(table.locationId),
+    createdAtIdx: index("bank_statement_created_at_idx").on(table.createdAt),
+  })
+);
+
+export type BankStatement = typeof bankStatement.$inferSelect;
+export type NewBankStatement = typeof bankStatement.$inferInsert;
+
+// One deposit on a statement and the payment it was reconciled to
+export const bankStatementLine = pgTable(
+  "bank_statement_line",
+  {
+    id: serial("id").primaryKey(),
+    statementId: integer("statement_id")
+      .references(() => bankStatement.id, { onDelete: "cascade" })
+      .notNull(),
+    postedDate: date("posted_date").notNull(),
+    amount: numeric("amount", { precision: 12, scale: 2 }).notNull(),
+    description: text("description"),
+    referenceNumber: text("reference_number"),
+    checkNumber: text("check_number"),
+    // The bank's own id for the transaction (OFX FITID), when it has one
+    bankTransactionId: text("bank_transaction_id"),
+    // Identifies the deposit across overlapping statements
+    dedupeKey: text("dedupe_key").notNull(),
+    status: bankLineStatusEnum("status").notNull().default("unmatched"),
+    paymentId: integer("payment_id").references((): AnyPgColumn => payment.id, {
+      onDelete: "set null",
+    }),
+    matchMethod: bankMatchMethodEnum("match_method"),
+    // Payments offered for review, best first
+    candidatePaymentIds: jsonb("candidate_payment_ids").$type<number[]>(),
+    matchNote: text("match_note"),
+    reconciledBy: integer("reconciled_by").references(() => user.id, { onDelete: "set null" }),
+    reconciledAt: timestamp("reconciled_at"),
+    createdAt: timestamp("created_at").defaultNow().notNull(),
+    updatedAt: timestamp("updated_at").defaultNow().notNull(),
+  },
+  (table) => ({
+    statementIdIdx: index("bank_statement_line_statement_id_idx").on(table.statementId),
+    statusIdx: index("bank_statement_line_status_idx").on(table.status),
+    dedupeKeyIdx: index("bank_statement_line_dedupe_key_idx").on(table.dedupeKey),
+    paymentIdIdx: uniqueIndex("bank_statement_line_payment_id_idx").on(table.paymentId),
+  })
+);
+
+export type BankStatementLine = typeof bankStatementLine.$inferSelect;
+export type NewBankStatementLine = typeof bankStatementLine.$inferInsert;
+
+// A stack of checks taken to the bank on one deposit slip
+export const depositBatch = pgTable(
+  "deposit_batch",
+  {
+    id: serial("id").primaryKey(),
+    // null when a super admin opened it outside any location
+    locationId: text("location_id"),
+    depositDate: date("deposit_date").notNull(),
+    currency: varchar("currency", { length: 3 }).notNull().default("USD"),
+    // Total written on the deposit slip; the checks must add up to it
+    slipTotal: numeric("slip_total", { precision: 12, scale: 2 }),
+    status: depositBatchStatusEnum("status").notNull().default("open"),
+    notes: text("notes"),
+    openedBy: integer("opened_by").references(() => user.id, { onDelete: "set null" }),
+    closedBy: integer("closed_by").references(() => user.id, { onDelete: "set null" }),
+    closedAt: timestamp("closed_at"),
+    // Last export to accounting; cleared when the batch is reopened
+    exportedAt: timestamp("exported_at"),
+    createdAt: timestamp("created_at").defaultNow().notNull(),
+    updatedAt: timestamp("updated_at").defaultNow().notNull(),
+  },
+  (table) => ({
+    locationIdIdx: index("deposit_batch_location_id_idx").on(table.locationId),
+    statusIdx: index("deposit_batch_status_idx").on(table.status),
+    depositDateIdx: index("deposit_batch_deposit_date_idx").on(table.depositDate),
+  })
+);
+
+export type DepositBatch = typeof depositBatch.$inferSelect;
+export type NewDepositBatch = typeof depositBatch.$inferInsert;
+
 export const paymentAllocations = pgTable(
   "payment_allocations",
   {
@@ -926,7 +1506,7 @@ export const paymentAllocations = pgTable(
       precision: 10,
       scale: 2,
     }).notNull(),
-    currency: currencyEnum("currency").notNull(),
+    currency: varchar("currency", { length: 3 }).notNull(),
     allocatedAmountUsd: numeric("allocated_amount_usd", {
       precision: 10,
       scale: 2,
@@ -958,6 +1538,61 @@ export const paymentAllocations = pgTable(
 export type PaymentAllocation = typeof paymentAllocations.$inferSelect;
 export type NewPaymentAllocation = typeof paymentAllocations.$inferInsert;
 
+// Money returned to the donor, or pulled back by their bank, after a
+// payment completed. The payment itself is left as it was received.
+export const paymentRefund = pgTable(
+  "payment_refund",
+  {
+    id: serial("id").primaryKey(),
+    paymentId: integer("payment_id")
+      .references(() => payment.id, { onDelete: "cascade" })
+      .notNull(),
+    type: refundTypeEnum("type").notNull().default("refund"),
+    // In the payment's currency
+    amount: numeric("amount", { precision: 10, scale: 2 }).notNull(),
+    currency: varchar("currency", { length: 3 }).notNull(),
+    // The same share of the payment's USD and pledge-currency amounts
+    amountUsd: numeric("amount_usd", { precision: 10, scale: 2 }),
+    amountInPledgeCurrency: numeric("amount_in_pledge_currency", { precision: 10, scale: 2 }),
+    reason: text("reason").notNull(),
+    refundDate: date("refund_date").notNull(),
+    referenceNumber: text("reference_number"),
+    createdBy: integer("created_by").references(() => user.id, { onDelete: "set null" }),
+    createdAt: timestamp("created_at").defaultNow().notNull(),
+  },
+  (table) => ({
+    paymentIdIdx: index("payment_refund_payment_id_idx").on(table.paymentId),
+    refundDateIdx: index("payment_refund_refund_date_idx").on(table.refundDate),
+  })
+);
+
+export type PaymentRefund = typeof paymentRefund.$inferSelect;
+export type NewPaymentRefund = typeof paymentRefund.$inferInsert;
+
+// How a refund of a split payment comes off each allocation
+export const paymentRefundAllocation = pgTable(
+  "payment_refund_allocation",
+  {
+    id: serial("id").primaryKey(),
+    refundId: integer("refund_id")
+      .references(() => paymentRefund.id, { onDelete: "cascade" })
+      .notNull(),
+    allocationId: integer("allocation_id")
+      .references(() => paymentAllocations.id, { onDelete: "cascade" })
+      .notNull(),
+    amount: numeric("amount", { precision: 10, scale: 2 }).notNull(),
+    amountUsd: numeric("amount_usd", { precision: 10, scale: 2 }),
+    amountInPledgeCurrency: numeric("amount_in_pledge_currency", { precision: 10, scale: 2 }),
+  },
+  (table) => ({
+    refundIdIdx: index("payment_refund_allocation_refund_id_idx").on(table.refundId),
+    allocationIdIdx: index("payment_refund_allocation_allocation_id_idx").on(table.allocationId),
+  })
+);
+
+export type PaymentRefundAllocation = typeof paymentRefundAllocation.$inferSelect;
+export type NewPaymentRefundAllocation = typeof paymentRefundAllocation.$inferInsert;
+
 export const currencyConversionLog = pgTable(
   "currency_conversion_log",
   {
@@ -965,11 +1600,11 @@ export const currencyConversionLog = pgTable(
     paymentId: integer("payment_id")
       .references(() => payment.id, { onDelete: "cascade" })
       .notNull(),
-    fromCurrency: currencyEnum("from_currency").notNull(),
-    toCurrency: currencyEnum("to_currency").notNull(),
+    fromCurrency: varchar("from_currency", { length: 3 }).notNull(),
+    toCurrency: varchar("to_currency", { length: 3 }).notNull(),
     fromAmount: numeric("from_amount", { precision: 10, scale: 2 }).notNull(),
     toAmount: numeric("to_amount", { precision: 10, scale: 2 }).notNull(),
-    exchangeRate: numeric("exchange_rate", { precision: 10, scale: 4 }).notNull(),
+    exchangeRate: numeric("exchange_rate", { precision: 18, scale: 6 }).notNull(),
     conversionDate: date("conversion_date").notNull(),
     conversionType: text("conversion_type").notNull(),
     createdAt: timestamp("created_at").defaultNow().notNull(),
@@ -1027,22 +1662,246 @@ export const bonusCalculation = pgTable(
 export type BonusCalculation = typeof bonusCalculation.$inferSelect;
 export type NewBonusCalculation = typeof bonusCalculation.$inferInsert;
 
-export const auditLog = pgTable("audit_log", {
-  id: serial("id").primaryKey(),
-  userId: integer("user_id").references(() => user.id, {
-    onDelete: "set null",
-  }),
-  userEmail: text("user_email").notNull(),
-  action: text("action").notNull(),
-  details: text("details"),
-  ipAddress: text("ip_address"),
-  userAgent: text("user_agent"),
-  timestamp: timestamp("timestamp").defaultNow().notNull(),
-});
+export const auditLog = pgTable(
+  "audit_log",
+  {
+    id: serial("id").primaryKey(),
+    userId: integer("user_id").references(() => user.id, {
+      onDelete: "set null",
+    }),
+    userEmail: text("user_email").notNull(),
+    action: text("action").notNull(),
+    // Record the action was taken on, e.g. ("payment", 42)
+    entityType: text("entity_type"),
+    entityId: integer("entity_id"),
+    details: text("details"),
+    // Field-level diff: { field: { from, to } }
+    changes: jsonb("changes").$type<Record<string, { from: unknown; to: unknown }>>(),
+    ipAddress: text("ip_address"),
+    userAgent: text("user_agent"),
+    timestamp: timestamp("timestamp").defaultNow().notNull(),
+  },
+  (table) => ({
+    entityIdx: index("audit_log_entity_idx").on(table.entityType, table.entityId),
+    timestampIdx: index("audit_log_timestamp_idx").on(table.timestamp),
+  })
+);
 
 export type AuditLog = typeof auditLog.$inferSelect;
 export type NewAuditLog = typeof auditLog.$inferInsert;
 
+export const receiptSequence = pgTable(
+  "receipt_sequence",
+  {
+    id: serial("id").primaryKey(),
+    locationId: text("location_id").notNull(),
+    // Independent numbering series, e.g. "annual:2024" for year-end statements
+    series: text("series").notNull(),
+    lastNumber: integer("last_number").notNull().default(0),
+    updatedAt: timestamp("updated_at").defaultNow().notNull(),
+  },
+  (table) => ({
+    uniqueSeries: uniqueIndex("receipt_sequence_location_series_unique").on(
+      table.locationId,
+      table.series
+    ),
+  })
+);
+
+export type ReceiptSequence = typeof receiptSequence.$inferSelect;
+export type NewReceiptSequence = typeof receiptSequence.$inferInsert;
+
+// One line of a year-end statement, frozen at the time it was issued
+export interface AnnualReceiptLine {
+  paymentId: number;
+  allocationId: number | null;
+  date: string;
+  amount: string;
+  currency: string;
+  amountUsd: string | null;
+  pledgeDescription: string | null;
+  paymentMethod: string | null;
+  // Set when someone other than the donor paid on the donor's pledge
+  payerName: string | null;
+}
+
+export const annualReceipt = pgTable(
+  "annual_receipt",
+  {
+    id: serial("id").primaryKey(),
+    contactId: integer("contact_id").references(() => contact.id, {
+      onDelete: "set null",
+    }),
+    locationId: text("location_id").notNull(),
+    taxYear: integer("tax_year").notNull(),
+    receiptNumber: text("receipt_number").notNull(),
+    // Donor details as printed on the statement
+    donorName: text("donor_name").notNull(),
+    donorAddress: text("donor_address"),
+    lineItems: jsonb("line_items").$type<AnnualReceiptLine[]>().notNull(),
+    paymentCount: integer("payment_count").notNull(),
+    totalAmountUsd: numeric("total_amount_usd", { precision: 12, scale: 2 }),
+    issuedBy: integer("issued_by").references(() => user.id, {
+      onDelete: "set null",
+    }),
+    issuedAt: timestamp("issued_at").defaultNow().notNull(),
+  },
+  (table) => ({
+    contactYearUnique: uniqueIndex("annual_receipt_contact_year_unique").on(
+      table.contactId,
+      table.taxYear
+    ),
+    numberUnique: uniqueIndex("annual_receipt_location_number_unique").on(
+      table.locationId,
+      table.receiptNumber
+    ),
+    taxYearIdx: index("annual_receipt_tax_year_idx").on(table.taxYear),
+  })
+);
+
+export type AnnualReceipt = typeof annualReceipt.$inferSelect;
+export type NewAnnualReceipt = typeof annualReceipt.$inferInsert;
+
+export const receiptStatusEnum = pgEnum("receipt_status", ["issued", "void"]);
+
+export const donationReceipt = pgTable(
+  "donation_receipt",
+  {
+    id: serial("id").primaryKey(),
+    locationId: text("location_id").notNull(),
+    // Numbers are never reused: voided receipts keep theirs
+    receiptNumber: text("receipt_number").notNull(),
+    receiptType: receiptTypeEnum("receipt_type").notNull(),
+    status: receiptStatusEnum("status").notNull().default("issued"),
+    paymentId: integer("payment_id").references(() => payment.id, {
+      onDelete: "set null",
+    }),
+    // Set when the receipt covers one allocation of a split payment
+    allocationId: integer("allocation_id").references(() => paymentAllocations.id, {
+      onDelete: "set null",
+    }),
+    contactId: integer("contact_id").references(() => contact.id, {
+      onDelete: "set null",
+    }),
+
+    // Gift details as printed on the receipt
+    donorName: text("donor_name").notNull(),
+    donorAddress: text("donor_address"),
+    payerName: text("payer_name"),
+    giftDate: date("gift_date").notNull(),
+    amount: numeric("amount", { precision: 10, scale: 2 }).notNull(),
+    currency: varchar("currency", { length: 3 }).notNull(),
+    amountUsd: numeric("amount_usd", { precision: 10, scale: 2 }),
+    paymentMethod: text("payment_method"),
+    pledgeDescription: text("pledge_description"),
+    // e.g. "In memory of Sarah bat Avraham"
+    dedication: text("dedication"),
+    // Country template the receipt was printed with and the fields it required
+    template: text("template").notNull().default("default"),
+    templateFields: jsonb("template_fields").$type<Record<string, string | null>>(),
+
+    // The voided receipt this one was issued to replace
+    replacesReceiptId: integer("replaces_receipt_id"),
+    issuedBy: integer("issued_by").references(() => user.id, {
+      onDelete: "set null",
+    }),
+    issuedAt: timestamp("issued_at").defaultNow().notNull(),
+    voidedBy: integer("voided_by").references(() => user.id, {
+      onDelete: "set null",
+    }),
+    voidedAt: timestamp("voided_at"),
+    voidReason: text("void_reason"),
+  },
+  (table) => ({
+    numberUnique: uniqueIndex("donation_receipt_location_number_unique").on(
+      table.locationId,
+      table.receiptNumber
+    ),
+    paymentIdIdx: index("donation_receipt_payment_id_idx").on(table.paymentId),
+    allocationIdIdx: index("donation_receipt_allocation_id_idx").on(table.allocationId),
+    contactIdIdx: index("donation_receipt_contact_id_idx").on(table.contactId),
+  })
+);
+
+export type DonationReceipt = typeof donationReceipt.$inferSelect;
+export type NewDonationReceipt = typeof donationReceipt.$inferInsert;
+
+export const integrityRunTriggerEnum = pgEnum("integrity_run_trigger", ["manual", "scheduled"]);
+export const integrityRunStatusEnum = pgEnum("integrity_run_status", ["running", "completed", "failed"]);
+export const integritySeverityEnum = pgEnum("integrity_severity", ["critical", "warning"]);
+export const integrityIssueStatusEnum = pgEnum("integrity_issue_status", ["open", "fixed", "failed"]);
+
+// One run of the data integrity checker, by hand or from the nightly job
+export const integrityRun = pgTable(
+  "integrity_run",
+  {
+    id: serial("id").primaryKey(),
+    trigger: integrityRunTriggerEnum("trigger").notNull(),
+    status: integrityRunStatusEnum("status").notNull().default("running"),
+    startedBy: integer("started_by").references(() => user.id, {
+      onDelete: "set null",
+    }),
+    startedAt: timestamp("started_at").defaultNow().notNull(),
+    finishedAt: timestamp("finished_at"),
+    totalIssues: integer("total_issues").notNull().default(0),
+    criticalIssues: integer("critical_issues").notNull().default(0),
+    warningIssues: integer("warning_issues").notNull().default(0),
+    affectedContacts: integer("affected_contacts").notNull().default(0),
+    // Critical issues the previous completed run did not find
+    newCriticalIssues: integer("new_critical_issues").notNull().default(0),
+    alertedAt: timestamp("alerted_at"),
+    error: text("error"),
+  },
+  (table) => ({
+    startedAtIdx: index("integrity_run_started_at_idx").on(table.startedAt),
+  })
+);
+
+export type IntegrityRun = typeof integrityRun.$inferSelect;
+export type NewIntegrityRun = typeof integrityRun.$inferInsert;
+
+// A proposed correction: each field of the record and the value it gets
+export interface IntegrityFix {
+  changes: { field: string; from: string | null; to: string }[];
+}
+
+export const integrityIssue = pgTable(
+  "integrity_issue",
+  {
+    id: serial("id").primaryKey(),
+    runId: integer("run_id")
+      .references(() => integrityRun.id, { onDelete: "cascade" })
+      .notNull(),
+    // Same for the same problem on the same record in every run,
+    // e.g. "payment_usd_conversion_42"
+    issueKey: text("issue_key").notNull(),
+    type: text("type").notNull(),
+    severity: integritySeverityEnum("severity").notNull(),
+    contactId: integer("contact_id").references(() => contact.id, {
+      onDelete: "set null",
+    }),
+    contactName: text("contact_name"),
+    recordType: text("record_type").notNull(),
+    recordId: integer("record_id").notNull(),
+    description: text("description").notNull(),
+    // Null when the issue needs someone to look at it by hand
+    fix: jsonb("fix").$type<IntegrityFix>(),
+    status: integrityIssueStatusEnum("status").notNull().default("open"),
+    fixedBy: integer("fixed_by").references(() => user.id, {
+      onDelete: "set null",
+    }),
+    fixedAt: timestamp("fixed_at"),
+    fixError: text("fix_error"),
+  },
+  (table) => ({
+    runIdIdx: index("integrity_issue_run_id_idx").on(table.runId),
+    issueKeyIdx: index("integrity_issue_issue_key_idx").on(table.issueKey),
+  })
+);
+
+export type IntegrityIssueRecord = typeof integrityIssue.$inferSelect;
+export type NewIntegrityIssueRecord = typeof integrityIssue.$inferInsert;
+
 // *** RELATIONS ***
 
 export const contactRelations = relations(contact, ({ many }) => ({
@@ -1055,6 +1914,8 @@ export const contactRelations = relations(contact, ({ many }) => ({
     relationName: "relationTarget",
   }),
   pledges: many(pledge),
+  memorials: many(memorial),
+  savedPaymentMethods: many(savedPaymentMethod),
   solicitor: many(solicitor),
   paymentsAsPayer: many(payment, {
     relationName: "payerPayments",
@@ -1156,10 +2017,36 @@ export const pledgeRelations = relations(pledge, ({ one, many }) => ({
     fields: [pledge.relationshipId],
     references: [relationships.id],
   }),
+  renewedFrom: one(pledge, {
+    fields: [pledge.renewedFromPledgeId],
+    references: [pledge.id],
+  }),
+  memorial: one(memorial, {
+    fields: [pledge.memorialId],
+    references: [memorial.id],
+  }),
   paymentPlans: many(paymentPlan),
   payments: many(payment),
   paymentAllocations: many(paymentAllocations),
   pledgeTags: many(pledgeTags),
+  adjustments: many(pledgeAdjustment),
+}));
+
+export const pledgeAdjustmentRelations = relations(pledgeAdjustment, ({ one }) => ({
+  pledge: one(pledge, {
+    fields: [pledgeAdjustment.pledgeId],
+    references: [pledge.id],
+  }),
+  requestedByUser: one(user, {
+    fields: [pledgeAdjustment.requestedBy],
+    references: [user.id],
+    relationName: "pledgeAdjustmentRequestedBy",
+  }),
+  approvedByUser: one(user, {
+    fields: [pledgeAdjustment.approvedBy],
+    references: [user.id],
+    relationName: "pledgeAdjustmentApprovedBy",
+  }),
 }));
 
 export const paymentPlanRelations = relations(paymentPlan, ({ one, many }) => ({
@@ -1171,6 +2058,10 @@ export const paymentPlanRelations = relations(paymentPlan, ({ one, many }) => ({
     fields: [paymentPlan.relationshipId],
     references: [relationships.id],
   }),
+  savedPaymentMethod: one(savedPaymentMethod, {
+    fields: [paymentPlan.savedPaymentMethodId],
+    references: [savedPaymentMethod.id],
+  }),
   payments: many(payment),
   installmentSchedules: many(installmentSchedule),
 }));
@@ -1220,13 +2111,22 @@ export const paymentRelations = relations(payment, ({ one, many }) => ({
     fields: [payment.bonusRuleId],
     references: [bonusRule.id],
   }),
+  memorial: one(memorial, {
+    fields: [payment.memorialId],
+    references: [memorial.id],
+  }),
   bonusCalculation: one(bonusCalculation, {
     fields: [payment.id],
     references: [bonusCalculation.paymentId],
   }),
+  depositBatch: one(depositBatch, {
+    fields: [payment.depositBatchId],
+    references: [depositBatch.id],
+  }),
   paymentAllocations: many(paymentAllocations),
   currencyConversions: many(currencyConversionLog),
   paymentTags: many(paymentTags),
+  refunds: many(paymentRefund),
 }));
 
 export const solicitorRelations = relations(solicitor, ({ one, many }) => ({
@@ -1268,7 +2168,7 @@ export const bonusCalculationRelations = relations(
 
 export const paymentAllocationsRelations = relations(
   paymentAllocations,
-  ({ one }) => ({
+  ({ one, many }) => ({
     payment: one(payment, {
       fields: [paymentAllocations.paymentId],
       references: [payment.id],
@@ -1281,9 +2181,33 @@ export const paymentAllocationsRelations = relations(
       fields: [paymentAllocations.installmentScheduleId],
       references: [installmentSchedule.id],
     }),
+    refunds: many(paymentRefundAllocation),
   })
 );
 
+export const paymentRefundRelations = relations(paymentRefund, ({ one, many }) => ({
+  payment: one(payment, {
+    fields: [paymentRefund.paymentId],
+    references: [payment.id],
+  }),
+  createdByUser: one(user, {
+    fields: [paymentRefund.createdBy],
+    references: [user.id],
+  }),
+  allocations: many(paymentRefundAllocation),
+}));
+
+export const paymentRefundAllocationRelations = relations(paymentRefundAllocation, ({ one }) => ({
+  refund: one(paymentRefund, {
+    fields: [paymentRefundAllocation.refundId],
+    references: [paymentRefund.id],
+  }),
+  allocation: one(paymentAllocations, {
+    fields: [paymentRefundAllocation.allocationId],
+    references: [paymentAllocations.id],
+  }),
+}));
+
 export const currencyConversionLogRelations = relations(
   currencyConversionLog,
   ({ one }) => ({
@@ -1296,6 +2220,162 @@ export const currencyConversionLogRelations = relations(
 
 export const exchangeRateRelations = relations(exchangeRate, ({ }) => ({}));
 
+export const donationReceiptRelations = relations(donationReceipt, ({ one }) => ({
+  payment: one(payment, {
+    fields: [donationReceipt.paymentId],
+    references: [payment.id],
+  }),
+  allocation: one(paymentAllocations, {
+    fields: [donationReceipt.allocationId],
+    references: [paymentAllocations.id],
+  }),
+  contact: one(contact, {
+    fields: [donationReceipt.contactId],
+    references: [contact.id],
+  }),
+  replaces: one(donationReceipt, {
+    fields: [donationReceipt.replacesReceiptId],
+    references: [donationReceipt.id],
+  }),
+}));
+
+export const planRenewalRelations = relations(planRenewal, ({ one }) => ({
+  paymentPlan: one(paymentPlan, {
+    fields: [planRenewal.paymentPlanId],
+    references: [paymentPlan.id],
+  }),
+  newPledge: one(pledge, {
+    fields: [planRenewal.newPledgeId],
+    references: [pledge.id],
+  }),
+  newPaymentPlan: one(paymentPlan, {
+    fields: [planRenewal.newPaymentPlanId],
+    references: [paymentPlan.id],
+  }),
+}));
+
+export const memorialRelations = relations(memorial, ({ one, many }) => ({
+  contact: one(contact, {
+    fields: [memorial.contactId],
+    references: [contact.id],
+  }),
+  pledge: one(pledge, {
+    fields: [memorial.pledgeId],
+    references: [pledge.id],
+  }),
+  yahrzeitReminders: many(yahrzeitReminder),
+}));
+
+export const yahrzeitReminderRelations = relations(yahrzeitReminder, ({ one }) => ({
+  memorial: one(memorial, {
+    fields: [yahrzeitReminder.memorialId],
+    references: [memorial.id],
+  }),
+}));
+
+export const savedPaymentMethodRelations = relations(savedPaymentMethod, ({ one, many }) => ({
+  contact: one(contact, {
+    fields: [savedPaymentMethod.contactId],
+    references: [contact.id],
+  }),
+  paymentPlans: many(paymentPlan),
+  transactions: many(processorTransaction),
+}));
+
+export const processorTransactionRelations = relations(processorTransaction, ({ one }) => ({
+  savedPaymentMethod: one(savedPaymentMethod, {
+    fields: [processorTransaction.savedPaymentMethodId],
+    references: [savedPaymentMethod.id],
+  }),
+  paymentPlan: one(paymentPlan, {
+    fields: [processorTransaction.paymentPlanId],
+    references: [paymentPlan.id],
+  }),
+  installmentSchedule: one(installmentSchedule, {
+    fields: [processorTransaction.installmentScheduleId],
+    references: [installmentSchedule.id],
+  }),
+  payment: one(payment, {
+    fields: [processorTransaction.paymentId],
+    references: [payment.id],
+  }),
+}));
+
+export const achBatchRelations = relations(achBatch, ({ one, many }) => ({
+  createdByUser: one(user, {
+    fields: [achBatch.createdBy],
+    references: [user.id],
+  }),
+  entries: many(achBatchEntry),
+}));
+
+export const achBatchEntryRelations = relations(achBatchEntry, ({ one }) => ({
+  batch: one(achBatch, {
+    fields: [achBatchEntry.batchId],
+    references: [achBatch.id],
+  }),
+  payment: one(payment, {
+    fields: [achBatchEntry.paymentId],
+    references: [payment.id],
+  }),
+  installmentSchedule: one(installmentSchedule, {
+    fields: [achBatchEntry.installmentScheduleId],
+    references: [installmentSchedule.id],
+  }),
+  paymentPlan: one(paymentPlan, {
+    fields: [achBatchEntry.paymentPlanId],
+    references: [paymentPlan.id],
+  }),
+  savedPaymentMethod: one(savedPaymentMethod, {
+    fields: [achBatchEntry.savedPaymentMethodId],
+    references: [savedPaymentMethod.id],
+  }),
+}));
+export const bankStatementRelations = relations(bankStatement, ({ one, many }) => ({
+  importedByUser: one(user, {
+    fields: [bankStatement.importedBy],
+    references: [user.id],
+  }),
+  lines: many(bankStatementLine),
+}));
+
+export const bankStatementLineRelations = relations(bankStatementLine, ({ one }) => ({
+  statement: one(bankStatement, {
+    fields: [bankStatementLine.statementId],
+    references: [bankStatement.id],
+  }),
+  payment: one(payment, {
+    fields: [bankStatementLine.paymentId],
+    references: [payment.id],
+  }),
+}));
+export const depositBatchRelations = relations(depositBatch, ({ one, many }) => ({
+  openedByUser: one(user, {
+    fields: [depositBatch.openedBy],
+    references: [user.id],
+    relationName: "openedDepositBatches",
+  }),
+  closedByUser: one(user, {
+    fields: [depositBatch.closedBy],
+    references: [user.id],
+    relationName: "closedDepositBatches",
+  }),
+  payments: many(payment),
+}));
+
+
+
+export const annualReceiptRelations = relations(annualReceipt, ({ one }) => ({
+  contact: one(contact, {
+    fields: [annualReceipt.contactId],
+    references: [contact.id],
+  }),
+  issuedBy: one(user, {
+    fields: [annualReceipt.issuedBy],
+    references: [user.id],
+  }),
+}));
+
 export const auditLogRelations = relations(auditLog, ({ one }) => ({
   user: one(user, {
     fields: [auditLog.userId],
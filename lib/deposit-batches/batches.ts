@@ -0,0 +1,242 @@
+import { and, eq, inArray, sql } from "drizzle-orm";
+import { db, withTransaction, type DbClient, type Transaction } from "@/lib/db";
+import { contact, depositBatch, payment, pledge, type DepositBatch } from "@/lib/db/schema";
+import { decimal, roundMoney } from "@/lib/money";
+import { convertPaymentAmounts, updatePledgeTotals } from "@/lib/payment-totals";
+import { DomainError } from "@/lib/error-handler";
+
+export class DepositBatchError extends DomainError {
+  constructor(message: string, statusCode: 400 | 404 | 409) {
+    super(message, statusCode);
+    this.name = "DepositBatchError";
+  }
+}
+
+/**
+ * Payments in a closed batch match a deposit slip the bank already has, so
+ * they cannot change until the batch is reopened.
+ */
+export async function assertPaymentUnlocked(paymentId: number | number[], client: DbClient = db): Promise<void> {
+  const paymentIds = Array.isArray(paymentId) ? paymentId : [paymentId];
+  if (paymentIds.length === 0) return;
+  const [locked] = await client
+    .select({ batchId: depositBatch.id })
+    .from(payment)
+    .innerJoin(depositBatch, eq(payment.depositBatchId, depositBatch.id))
+    .where(and(inArray(payment.id, paymentIds), eq(depositBatch.status, "closed")))
+    .limit(1);
+  if (locked) {
+    throw new DepositBatchError(
+      `A payment is in closed deposit batch #${locked.batchId}; reopen the batch to change it`,
+      409
+    );
+  }
+}
+
+export async function batchTotals(
+  client: DbClient,
+  batch: Pick<DepositBatch, "id" | "currency">
+): Promise<{ checkCount: number; total: string }> {
+  const [row] = await client
+    .select({
+      checkCount: sql<number>`COUNT(*)::int`,
+      total: sql<string>`COALESCE(SUM(${payment.amount}), 0)::text`,
+    })
+    .from(payment)
+    .where(eq(payment.depositBatchId, batch.id));
+  return { checkCount: row.checkCount, total: roundMoney(row.total, batch.currency) };
+}
+
+async function lockOpenBatch(tx: Transaction, batchId: number): Promise<DepositBatch> {
+  const [batch] = await tx.select().from(depositBatch).where(eq(depositBatch.id, batchId)).for("update").limit(1);
+  if (!batch) throw new DepositBatchError("Deposit batch not found", 404);
+  if (batch.status !== "open") {
+    throw new DepositBatchError("This deposit batch is closed; reopen it to change its checks", 409);
+  }
+  return batch;
+}
+
+export interface CheckInput {
+  pledgeId: number;
+  amount: number;
+  checkNumber: string;
+  checkDate?: string | null;
+  // Someone other than the pledge's contact wrote the check
+  payerContactId?: number | null;
+  notes?: string | null;
+}
+
+/**
+ * Records one check as a completed payment on its pledge, received on the
+ * batch's deposit date and in the batch's currency. The caller must hold
+ * the batch's row lock and have checked that it is open.
+ */
+export async function recordBatchCheck(tx: Transaction, batch: DepositBatch, input: CheckInput): Promise<number> {
+  const [target] = await tx
+    .select({ id: pledge.id, contactId: pledge.contactId, currency: pledge.currency, relationshipId: pledge.relationshipId })
+    .from(pledge)
+    .where(eq(pledge.id, input.pledgeId))
+    .limit(1);
+  if (!target) throw new DepositBatchError(`Pledge #${input.pledgeId} not found`, 400);
+
+  const [duplicate] = await tx
+    .select({ id: payment.id })
+    .from(payment)
+    .innerJoin(pledge, eq(payment.pledgeId, pledge.id))
+    .where(
+      and(
+        eq(payment.depositBatchId, batch.id),
+        eq(payment.checkNumber, input.checkNumber),
+        eq(pledge.contactId, target.contactId)
+      )
+    )
+    .limit(1);
+  if (duplicate) {
+    throw new DepositBatchError(`Check #${input.checkNumber} from this donor is already in the batch`, 409);
+  }
+
+  const amount = roundMoney(input.amount, batch.currency);
+  const isThirdParty = !!input.payerContactId && input.payerContactId !== target.contactId;
+  const [created] = await tx
+    .insert(payment)
+    .values({
+      pledgeId: target.id,
+      relationshipId: target.relationshipId,
+      amount,
+      currency: batch.currency,
+      ...(await convertPaymentAmounts(tx, {
+        amount,
+        currency: batch.currency,
+        pledgeCurrency: target.currency,
+        date: batch.depositDate,
+      })),
+      paymentDate: batch.depositDate,
+      receivedDate: batch.depositDate,
+      checkDate: input.checkDate ?? null,
+      checkNumber: input.checkNumber,
+      paymentMethod: "check",
+      paymentStatus: "completed",
+      payerContactId: isThirdParty ? input.payerContactId : null,
+      isThirdPartyPayment: isThirdParty,
+      depositBatchId: batch.id,
+      notes: input.notes || null,
+    })
+    .returning({ id: payment.id });
+
+  await updatePledgeTotals(target.id, tx);
+  return created.id;
+}
+
+export async function addCheckToBatch(batchId: number, input: CheckInput): Promise<number> {
+  return withTransaction(async (tx) => recordBatchCheck(tx, await lockOpenBatch(tx, batchId), input));
+}
+
+// Takes a mis-keyed check out of an open batch, deleting its payment
+export async function removeCheckFromBatch(batchId: number, paymentId: number): Promise<void> {
+  await withTransaction(async (tx) => {
+    await lockOpenBatch(tx, batchId);
+    const [check] = await tx
+      .select({ pledgeId: payment.pledgeId, isReconciled: payment.isReconciled })
+      .from(payment)
+      .where(and(eq(payment.id, paymentId), eq(payment.depositBatchId, batchId)))
+      .limit(1);
+    if (!check) throw new DepositBatchError("Check not found in this batch", 404);
+    if (check.isReconciled) {
+      throw new DepositBatchError("This check is reconciled to a bank deposit; reopen that deposit first", 409);
+    }
+
+    await tx.delete(payment).where(eq(payment.id, paymentId));
+    if (check.pledgeId) await updatePledgeTotals(check.pledgeId, tx);
+  });
+}
+
+/**
+ * Closes and locks a batch once its checks add up to the deposit slip.
+ */
+export async function closeDepositBatch(batchId: number, closedBy: number | null): Promise<DepositBatch> {
+  return withTransaction(async (tx) => {
+    const batch = await lockOpenBatch(tx, batchId);
+    const { checkCount, total } = await batchTotals(tx, batch);
+    if (checkCount === 0) throw new DepositBatchError("The batch has no checks", 409);
+    if (batch.slipTotal === null) {
+      throw new DepositBatchError("Enter the deposit slip total before closing the batch", 409);
+    }
+    const difference = decimal(total).minus(batch.slipTotal);
+    if (!difference.isZero()) {
+      throw new DepositBatchError(
+        `The checks total ${total} but the deposit slip says ${batch.slipTotal} (${difference.isPositive() ? "+" : ""}${difference.toMoney(batch.currency)})`,
+        409
+      );
+    }
+
+    const [closed] = await tx
+      .update(depositBatch)
+      .set({ status: "closed", closedBy, closedAt: new Date(), updatedAt: new Date() })
+      .where(eq(depositBatch.id, batchId))
+      .returning();
+    return closed;
+  });
+}
+
+// Unlocks a closed batch; it has to be exported to accounting again
+export async function reopenDepositBatch(batchId: number): Promise<DepositBatch> {
+  const [reopened] = await db
+    .update(depositBatch)
+    .set({ status: "open", closedBy: null, closedAt: null, exportedAt: null, updatedAt: new Date() })
+    .where(and(eq(depositBatch.id, batchId), eq(depositBatch.status, "closed")))
+    .returning();
+  if (!reopened) {
+    const [exists] = await db.select({ id: depositBatch.id }).from(depositBatch).where(eq(depositBatch.id, batchId));
+    throw exists
+      ? new DepositBatchError("This deposit batch is already open", 409)
+      : new DepositBatchError("Deposit batch not found", 404);
+  }
+  return reopened;
+}
+
+export interface BatchCheck {
+  paymentId: number;
+  checkNumber: string | null;
+  checkDate: string | null;
+  amount: string;
+  currency: string;
+  amountUsd: string | null;
+  pledgeId: number | null;
+  pledgeDescription: string | null;
+  campaignCode: string | null;
+  contactId: number | null;
+  contactName: string | null;
+  payerName: string | null;
+  isReconciled: boolean;
+  notes: string | null;
+}
+
+// The checks in a batch in the order they were keyed in
+export async function listBatchChecks(batchId: number): Promise<BatchCheck[]> {
+  const payer = sql`payer`;
+  return db
+    .select({
+      paymentId: payment.id,
+      checkNumber: payment.checkNumber,
+      checkDate: payment.checkDate,
+      amount: payment.amount,
+      currency: payment.currency,
+      amountUsd: payment.amountUsd,
+      pledgeId: payment.pledgeId,
+      pledgeDescription: pledge.description,
+      campaignCode: pledge.campaignCode,
+      contactId: contact.id,
+      contactName: sql<string | null>`NULLIF(TRIM(CONCAT(${contact.firstName}, ' ', ${contact.lastName})), '')`,
+      payerName: sql<string | null>`(
+        SELECT NULLIF(TRIM(CONCAT(${payer}.first_name, ' ', ${payer}.last_name)), '')
+        FROM ${contact} ${payer} WHERE ${payer}.id = ${payment.payerContactId}
+      )`,
+      isReconciled: payment.isReconciled,
+      notes: payment.notes,
+    })
+    .from(payment)
+    .leftJoin(pledge, eq(payment.pledgeId, pledge.id))
+    .leftJoin(contact, eq(pledge.contactId, contact.id))
+    .where(eq(payment.depositBatchId, batchId))
+    .orderBy(payment.id);
+}
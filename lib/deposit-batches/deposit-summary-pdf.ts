@@ -0,0 +1,60 @@
+import jsPDF from "jspdf";
+import autoTable from "jspdf-autotable";
+import type { DepositBatch } from "@/lib/db/schema";
+import { ORGANIZATION_NAME, formatAmount, type JsPDFWithAutoTable } from "@/lib/receipts/pdf";
+import type { BatchCheck } from "@/lib/deposit-batches/batches";
+
+/**
+ * Deposit summary to go in the bag with the checks: every check in the
+ * batch and its total against what was written on the deposit slip.
+ */
+export function renderDepositSummaryPdf(batch: DepositBatch, checks: BatchCheck[]): ArrayBuffer {
+  const doc = new jsPDF() as JsPDFWithAutoTable;
+
+  doc.setFontSize(18);
+  doc.text(ORGANIZATION_NAME, 20, 20);
+  doc.setFontSize(14);
+  doc.text("Check Deposit Summary", 20, 30);
+
+  doc.setFontSize(10);
+  doc.text(`Batch No: ${batch.id}`, 140, 20);
+  doc.text(`Deposit date: ${batch.depositDate}`, 140, 26);
+  doc.text(batch.status === "closed" ? `Closed: ${batch.closedAt?.toLocaleDateString("en-US")}` : "Open", 140, 32);
+
+  const total = checks.reduce((sum, check) => sum + parseFloat(check.amount), 0);
+
+  autoTable(doc, {
+    startY: 45,
+    head: [["#", "Check No", "Donor", "Pledge", "Amount"]],
+    body: checks.map((check, index) => [
+      String(index + 1),
+      check.checkNumber || "-",
+      check.payerName ? `${check.payerName} (for ${check.contactName ?? "-"})` : check.contactName || "-",
+      check.pledgeDescription || (check.pledgeId ? `Pledge #${check.pledgeId}` : "-"),
+      formatAmount(parseFloat(check.amount), check.currency),
+    ]),
+    theme: "grid",
+    columnStyles: { 0: { cellWidth: 10 }, 4: { halign: "right" } },
+  });
+  let yPosition = doc.lastAutoTable.finalY + 10;
+
+  autoTable(doc, {
+    startY: yPosition,
+    body: [
+      ["Checks", String(checks.length)],
+      ["Total of checks", formatAmount(total, batch.currency)],
+      ["Deposit slip total", batch.slipTotal !== null ? formatAmount(parseFloat(batch.slipTotal), batch.currency) : "-"],
+    ],
+    theme: "grid",
+    tableWidth: 100,
+    columnStyles: { 0: { fontStyle: "bold" }, 1: { halign: "right" } },
+  });
+  yPosition = doc.lastAutoTable.finalY + 15;
+
+  if (batch.notes) {
+    doc.setFontSize(9);
+    doc.text(doc.splitTextToSize(batch.notes, 170) as string[], 20, yPosition);
+  }
+
+  return doc.output("arraybuffer");
+}
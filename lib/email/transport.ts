@@ -0,0 +1,94 @@
+import { mkdir, writeFile } from "node:fs/promises";
+import path from "node:path";
+import nodemailer from "nodemailer";
+
+export interface EmailMessage {
+  to: string;
+  subject: string;
+  text: string;
+  html?: string;
+}
+
+export interface EmailTransport {
+  // Recorded next to each message sent, e.g. "smtp" or "file"
+  name: string;
+  send(message: EmailMessage): Promise<void>;
+}
+
+export interface SmtpConfig {
+  host: string;
+  port: number;
+  secure: boolean;
+  user?: string;
+  password?: string;
+  from: string;
+}
+
+export function createSmtpTransport(config: SmtpConfig): EmailTransport {
+  const transporter = nodemailer.createTransport({
+    host: config.host,
+    port: config.port,
+    secure: config.secure,
+    auth: config.user ? { user: config.user, pass: config.password } : undefined,
+  });
+
+  return {
+    name: "smtp",
+    async send(message) {
+      await transporter.sendMail({ from: config.from, ...message });
+    },
+  };
+}
+
+// Development stand-in: prints each message instead of sending it
+export function createConsoleTransport(): EmailTransport {
+  return {
+    name: "console",
+    async send(message) {
+      console.log(`📧 To: ${message.to}\n   Subject: ${message.subject}\n\n${message.text}\n`);
+    },
+  };
+}
+
+// Development stand-in: writes each message to its own file for inspection
+export function createFileTransport(directory: string): EmailTransport {
+  let counter = 0;
+  return {
+    name: "file",
+    async send(message) {
+      await mkdir(directory, { recursive: true });
+      const fileName = `${new Date().toISOString().replace(/[:.]/g, "-")}-${++counter}.txt`;
+      await writeFile(
+        path.join(directory, fileName),
+        `To: ${message.to}\nSubject: ${message.subject}\n\n${message.text}\n`
+      );
+    },
+  };
+}
+
+/**
+ * Transport chosen by `EMAIL_TRANSPORT` (smtp, file or console). Anything
+ * but smtp keeps mail on this machine, so it is the safe default.
+ */
+export function getEmailTransport(): EmailTransport {
+  switch (process.env.EMAIL_TRANSPORT) {
+    case "smtp": {
+      if (!process.env.SMTP_HOST || !process.env.EMAIL_FROM) {
+        throw new Error("SMTP_HOST and EMAIL_FROM must be set to send email over SMTP");
+      }
+      const port = parseInt(process.env.SMTP_PORT || "587", 10);
+      return createSmtpTransport({
+        host: process.env.SMTP_HOST,
+        port,
+        secure: process.env.SMTP_SECURE ? process.env.SMTP_SECURE === "true" : port === 465,
+        user: process.env.SMTP_USER,
+        password: process.env.SMTP_PASSWORD,
+        from: process.env.EMAIL_FROM,
+      });
+    }
+    case "file":
+      return createFileTransport(process.env.EMAIL_FILE_DIR || path.join(process.cwd(), "tmp", "emails"));
+    default:
+      return createConsoleTransport();
+  }
+}
@@ -13,10 +13,42 @@ export interface ApiError {
   code?: string;
 }
 
+/**
+ * An expected failure of a domain operation, such as a record in the wrong
+ * state or a missing setting, carrying the status to answer with. Modules
+ * subclass it per area; `ErrorHandler.handle` turns any of them into a
+ * response, so routes need no branch of their own.
+ */
+export class DomainError extends Error {
+  constructor(message: string, public readonly statusCode: number) {
+    super(message);
+    this.name = "DomainError";
+  }
+
+  toResponse(): NextResponse {
+    return NextResponse.json({ error: this.message }, { status: this.statusCode });
+  }
+}
+
 export class ErrorHandler {
   static async handle(error: unknown): Promise<NextResponse> {
+    // Expected outcomes, not faults worth logging
+    if (error instanceof DomainError) {
+      return error.toResponse();
+    }
+
     console.error("API Error:", error);
 
+    // Authorization errors raised by lib/auth-guard (matched by name so this
+    // file stays free of server-only imports)
+    if (error instanceof Error && error.name === "AuthorizationError") {
+      const authError = error as Error & { type: string; statusCode: number };
+      return NextResponse.json(
+        { error: authError.message, type: authError.type },
+        { status: authError.statusCode }
+      );
+    }
+
     // Validation errors (Zod)
     if (error instanceof ZodError) {
       return NextResponse.json(
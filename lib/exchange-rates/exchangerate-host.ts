@@ -0,0 +1,47 @@
+import axios from "axios";
+import { ExchangeRateError, type ExchangeRateProvider } from "@/lib/exchange-rates/provider";
+import { formatRate } from "@/lib/money";
+
+interface HistoricalResponse {
+  success?: boolean;
+  quotes?: Record<string, number>;
+  error?: { info?: string };
+}
+
+/**
+ * exchangerate.host's historical endpoint, quoted against USD. Failures
+ * of any kind (network, bad key, quota) come back as a 502 so the caller
+ * can fall back to stored rates.
+ */
+export function createExchangeRateHostProvider(options: { accessKey: string; timeoutMs?: number }): ExchangeRateProvider {
+  return {
+    name: "exchangerate-host",
+
+    async fetchRates(date, currencies) {
+      let body: HistoricalResponse;
+      try {
+        const response = await axios.get<HistoricalResponse>("https://api.exchangerate.host/historical", {
+          params: { access_key: options.accessKey, date, currencies: currencies.join(","), format: 1 },
+          timeout: options.timeoutMs ?? 10_000,
+        });
+        body = response.data;
+      } catch (error) {
+        const reason = error instanceof Error ? error.message : "request failed";
+        throw new ExchangeRateError(`exchangerate.host could not be reached: ${reason}`, 502);
+      }
+
+      if (body.success === false || !body.quotes) {
+        throw new ExchangeRateError(`exchangerate.host returned no rates: ${body.error?.info ?? "unknown error"}`, 502);
+      }
+
+      const rates: Record<string, string> = {};
+      for (const [pair, value] of Object.entries(body.quotes)) {
+        const currency = pair.replace(/^USD/, "");
+        if (pair.startsWith("USD") && currencies.includes(currency) && Number(value) > 0) {
+          rates[currency] = formatRate(value);
+        }
+      }
+      return { date, rates };
+    },
+  };
+}
@@ -0,0 +1,32 @@
+import { readFile } from "node:fs/promises";
+import { ExchangeRateError, type ExchangeRateProvider } from "@/lib/exchange-rates/provider";
+import { parseRateFile } from "@/lib/exchange-rates/rate-files";
+
+/**
+ * Rates read from a file on the server, such as the ECB's historical XML
+ * dropped in by a cron job, so conversions keep working with no network.
+ * Days missing from the file (weekends, holidays) take the latest earlier
+ * day it has.
+ */
+export function createFileProvider(options: { path: string; base?: string }): ExchangeRateProvider {
+  return {
+    name: "file",
+
+    async fetchRates(date, currencies) {
+      let content: string;
+      try {
+        content = await readFile(options.path, "utf8");
+      } catch {
+        throw new ExchangeRateError(`The rate file ${options.path} could not be read`, 502);
+      }
+
+      const { sets } = parseRateFile(options.path, content, options.base);
+      const earlier = sets.filter((set) => set.date <= date).sort((a, b) => b.date.localeCompare(a.date));
+      if (!earlier[0]) return null;
+      const rates = Object.fromEntries(
+        Object.entries(earlier[0].rates).filter(([currency]) => currencies.includes(currency))
+      );
+      return { date: earlier[0].date, rates };
+    },
+  };
+}
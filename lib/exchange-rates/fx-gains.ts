@@ -0,0 +1,425 @@
+// Realized and unrealized foreign-exchange gain/loss on pledges in
+// currencies other than USD. A pledge is booked in USD at its own rate
+// (originalAmountUsd for originalAmount); every payment applied to it is worth
+// whatever USD it actually brought in, and the difference is realized. The
+// part still open is revalued at the rate for a chosen date, unrealized.
+
+import { and, eq, gte, inArray, lte, ne, notExists, sql, type SQL } from "drizzle-orm";
+import { db } from "@/lib/db";
+import {
+  contact,
+  currencyConversionLog,
+  payment,
+  paymentAllocations,
+  paymentRefund,
+  paymentRefundAllocation,
+  pledge,
+  pledgeAdjustment,
+} from "@/lib/db/schema";
+import { allocationRefundedAmount, paymentRefundedAmount } from "@/lib/refunds/net-amounts";
+import { getUsdToCurrencyRate, netShare } from "@/lib/payment-totals";
+import { Decimal, crossRate, decimal } from "@/lib/money";
+
+export const FX_GROUPINGS = ["pledge", "currency", "quarter", "month"] as const;
+export type FxGrouping = (typeof FX_GROUPINGS)[number];
+
+export interface FxPeriod {
+  from?: string;
+  to?: string;
+  currency?: string;
+}
+
+// One payment, or one allocation of a split payment, applied to a pledge
+export interface RealizedFxLine {
+  pledgeId: number;
+  pledgeDescription: string | null;
+  donorName: string;
+  currency: string;
+  paymentId: number;
+  paymentDate: string;
+  // Net of refunds, in the pledge's currency
+  amount: Decimal;
+  bookedUsd: Decimal;
+  receivedUsd: Decimal;
+  gainUsd: Decimal;
+}
+
+export interface UnrealizedFxLine {
+  pledgeId: number;
+  pledgeDescription: string | null;
+  donorName: string;
+  currency: string;
+  // Still owed on the date, in the pledge's currency
+  openBalance: Decimal;
+  bookedUsd: Decimal;
+  // Units of the currency per USD on the date
+  rate: string;
+  revaluedUsd: Decimal;
+  gainUsd: Decimal;
+}
+
+export interface FxLineSet<T> {
+  lines: T[];
+  // Payments or pledges left out because they were never converted to USD
+  // or the pledge has no booked USD amount to compare with
+  skipped: number;
+}
+
+export interface FxGroupTotal {
+  key: string;
+  // The pledge's donor and description, or the currency or period itself
+  label: string;
+  currency: string;
+  count: number;
+  amount: Decimal;
+  bookedUsd: Decimal;
+  actualUsd: Decimal;
+  gainUsd: Decimal;
+}
+
+const donorName = sql<string>`TRIM(CONCAT(${contact.firstName}, ' ', ${contact.lastName}))`;
+
+// Payments recorded before the USD columns were filled only have the
+// conversion in the log
+const paymentUsd = sql<string | null>`COALESCE(${payment.amountUsd}, (
+  SELECT ${currencyConversionLog.toAmount} FROM ${currencyConversionLog}
+  WHERE ${currencyConversionLog.paymentId} = ${payment.id} AND ${currencyConversionLog.toCurrency} = 'USD'
+  ORDER BY ${currencyConversionLog.createdAt} DESC
+  LIMIT 1
+))`;
+
+/**
+ * USD per unit of the pledge's currency as it was booked. The USD amount
+ * the pledge was entered with wins; the stored rate is units per USD.
+ */
+function bookedUsdPerUnit(originalAmount: string, originalAmountUsd: string | null, rate: string | null): Decimal | null {
+  const original = decimal(originalAmount);
+  if (originalAmountUsd && original.isPositive() && decimal(originalAmountUsd).isPositive()) {
+    return decimal(originalAmountUsd).dividedBy(original);
+  }
+  if (rate && decimal(rate).isPositive()) return decimal(1).dividedBy(rate);
+  return null;
+}
+
+const pledgeColumns = {
+  pledgeId: pledge.id,
+  pledgeDescription: pledge.description,
+  donorName,
+  currency: pledge.currency,
+  originalAmount: pledge.originalAmount,
+  originalAmountUsd: pledge.originalAmountUsd,
+  pledgeRate: pledge.exchangeRate,
+  paymentId: payment.id,
+  paymentDate: payment.paymentDate,
+  paymentCurrency: payment.currency,
+};
+
+/**
+ * Completed payments applied to non-USD pledges, direct and split, net of
+ * refunds. `scope` narrows them further, e.g. to a location.
+ */
+async function appliedPayments(period: FxPeriod, scope?: SQL): Promise<FxLineSet<RealizedFxLine>> {
+  const conditions: SQL[] = [eq(payment.paymentStatus, "completed"), ne(pledge.currency, "USD")];
+  if (period.from) conditions.push(gte(payment.paymentDate, period.from));
+  if (period.to) conditions.push(lte(payment.paymentDate, period.to));
+  if (period.currency) conditions.push(sql`${pledge.currency} = ${period.currency}`);
+  if (scope) conditions.push(scope);
+
+  const [direct, split] = await Promise.all([
+    db
+      .select({
+        ...pledgeColumns,
+        gross: payment.amount,
+        refunded: paymentRefundedAmount,
+        inPledgeCurrency: payment.amountInPledgeCurrency,
+        inUsd: paymentUsd,
+      })
+      .from(payment)
+      .innerJoin(pledge, eq(payment.pledgeId, pledge.id))
+      .innerJoin(contact, eq(pledge.contactId, contact.id))
+      .where(
+        and(
+          ...conditions,
+          notExists(
+            db.select({ id: paymentAllocations.id }).from(paymentAllocations).where(eq(paymentAllocations.paymentId, payment.id))
+          )
+        )
+      ),
+    db
+      .select({
+        ...pledgeColumns,
+        paymentCurrency: paymentAllocations.currency,
+        gross: paymentAllocations.allocatedAmount,
+        refunded: allocationRefundedAmount,
+        inPledgeCurrency: paymentAllocations.allocatedAmountInPledgeCurrency,
+        inUsd: paymentAllocations.allocatedAmountUsd,
+      })
+      .from(paymentAllocations)
+      .innerJoin(payment, eq(paymentAllocations.paymentId, payment.id))
+      .innerJoin(pledge, eq(paymentAllocations.pledgeId, pledge.id))
+      .innerJoin(contact, eq(pledge.contactId, contact.id))
+      .where(and(...conditions)),
+  ]);
+
+  const lines: RealizedFxLine[] = [];
+  let skipped = 0;
+  for (const row of [...direct, ...split]) {
+    const share = netShare(row.gross, row.refunded);
+    if (share.isZero()) continue;
+
+    const inPledgeCurrency = row.inPledgeCurrency ?? (row.paymentCurrency === row.currency ? row.gross : null);
+    const usdPerUnit = bookedUsdPerUnit(row.originalAmount, row.originalAmountUsd, row.pledgeRate);
+    if (!inPledgeCurrency || !row.inUsd || !usdPerUnit) {
+      skipped++;
+      continue;
+    }
+
+    const amount = decimal(inPledgeCurrency).times(share);
+    const bookedUsd = amount.times(usdPerUnit);
+    const receivedUsd = decimal(row.inUsd).times(share);
+    lines.push({
+      pledgeId: row.pledgeId,
+      pledgeDescription: row.pledgeDescription,
+      donorName: row.donorName,
+      currency: row.currency,
+      paymentId: row.paymentId,
+      paymentDate: row.paymentDate,
+      amount,
+      bookedUsd,
+      receivedUsd,
+      gainUsd: receivedUsd.minus(bookedUsd),
+    });
+  }
+  return { lines, skipped };
+}
+
+// Realized gain/loss on everything paid between `from` and `to`
+export function realizedFxGains(period: FxPeriod, scope?: SQL): Promise<FxLineSet<RealizedFxLine>> {
+  return appliedPayments(period, scope);
+}
+
+/**
+ * What had been paid towards each pledge by `asOf`, in its currency: every
+ * payment counted in the pledge's totals and received by then, converted at
+ * its received date when no pledge-currency amount was stored, less refunds
+ * made by then. Pledges with a payment that cannot be converted are listed
+ * apart rather than understated.
+ */
+async function paidAsOf(
+  asOf: string,
+  pledgeIds: number[]
+): Promise<{ paid: Map<number, Decimal>; unconvertible: Set<number> }> {
+  // Statuses computePledgeTotals counts, plus payments refunded only later
+  const conditions: SQL[] = [
+    inArray(payment.paymentStatus, ["completed", "processing", "refunded"]),
+    sql`COALESCE(${payment.receivedDate}, CURRENT_DATE) <= ${asOf}`,
+  ];
+  const refundedByThen = sql<string>`COALESCE((
+    SELECT SUM(${paymentRefund.amount}) FROM ${paymentRefund}
+    WHERE ${paymentRefund.paymentId} = ${payment.id} AND ${paymentRefund.refundDate} <= ${asOf}
+  ), 0)`;
+  const allocationRefundedByThen = sql<string>`COALESCE((
+    SELECT SUM(${paymentRefundAllocation.amount}) FROM ${paymentRefundAllocation}
+    INNER JOIN ${paymentRefund} ON ${paymentRefund.id} = ${paymentRefundAllocation.refundId}
+    WHERE ${paymentRefundAllocation.allocationId} = ${paymentAllocations.id} AND ${paymentRefund.refundDate} <= ${asOf}
+  ), 0)`;
+  const receivedOn = sql<string>`COALESCE(${payment.receivedDate}, CURRENT_DATE)::text`;
+
+  const [direct, split] = await Promise.all([
+    db
+      .select({
+        pledgeId: payment.pledgeId,
+        pledgeCurrency: pledge.currency,
+        currency: payment.currency,
+        gross: payment.amount,
+        refunded: refundedByThen,
+        inPledgeCurrency: payment.amountInPledgeCurrency,
+        receivedOn,
+      })
+      .from(payment)
+      .innerJoin(pledge, eq(payment.pledgeId, pledge.id))
+      .where(and(...conditions, inArray(payment.pledgeId, pledgeIds))),
+    db
+      .select({
+        pledgeId: paymentAllocations.pledgeId,
+        pledgeCurrency: pledge.currency,
+        currency: paymentAllocations.currency,
+        gross: paymentAllocations.allocatedAmount,
+        refunded: allocationRefundedByThen,
+        inPledgeCurrency: paymentAllocations.allocatedAmountInPledgeCurrency,
+        receivedOn,
+      })
+      .from(paymentAllocations)
+      .innerJoin(payment, eq(paymentAllocations.paymentId, payment.id))
+      .innerJoin(pledge, eq(paymentAllocations.pledgeId, pledge.id))
+      .where(and(...conditions, inArray(paymentAllocations.pledgeId, pledgeIds))),
+  ]);
+
+  const paid = new Map<number, Decimal>();
+  const unconvertible = new Set<number>();
+  for (const row of [...direct, ...split]) {
+    if (row.pledgeId === null) continue;
+    let inPledgeCurrency: Decimal | null = null;
+    if (row.inPledgeCurrency) inPledgeCurrency = decimal(row.inPledgeCurrency);
+    else if (row.currency === row.pledgeCurrency) inPledgeCurrency = decimal(row.gross);
+    else {
+      const fromRate = await getUsdToCurrencyRate(row.currency, row.receivedOn);
+      const toRate = await getUsdToCurrencyRate(row.pledgeCurrency, row.receivedOn);
+      if (fromRate && toRate) {
+        inPledgeCurrency = decimal(decimal(row.gross).times(crossRate(fromRate, toRate)).toMoney(row.pledgeCurrency));
+      }
+    }
+    if (!inPledgeCurrency) {
+      unconvertible.add(row.pledgeId);
+      continue;
+    }
+    const net = inPledgeCurrency.times(netShare(row.gross, row.refunded));
+    paid.set(row.pledgeId, (paid.get(row.pledgeId) ?? Decimal.zero()).plus(net));
+  }
+  return { paid, unconvertible };
+}
+
+/**
+ * Revalues what was still owed on non-USD pledges on `asOf`: the original
+ * amount less payments received and refunds made up to then and adjustments
+ * effective by then, at the rate for that date (a monthly lock when there
+ * is one).
+ */
+export async function unrealizedFxGains(asOf: string, currency?: string, scope?: SQL): Promise<FxLineSet<UnrealizedFxLine>> {
+  const conditions: SQL[] = [ne(pledge.currency, "USD"), lte(pledge.pledgeDate, asOf)];
+  if (currency) conditions.push(sql`${pledge.currency} = ${currency}`);
+  if (scope) conditions.push(scope);
+
+  const pledges = await db
+    .select({
+      pledgeId: pledge.id,
+      pledgeDescription: pledge.description,
+      donorName,
+      currency: pledge.currency,
+      originalAmount: pledge.originalAmount,
+      originalAmountUsd: pledge.originalAmountUsd,
+      pledgeRate: pledge.exchangeRate,
+      adjusted: sql<string>`COALESCE((
+        SELECT SUM(${pledgeAdjustment.amount}) FROM ${pledgeAdjustment}
+        WHERE ${pledgeAdjustment.pledgeId} = ${pledge.id}
+          AND ${pledgeAdjustment.status} = 'approved'
+          AND ${pledgeAdjustment.effectiveDate} <= ${asOf}
+      ), 0)`,
+    })
+    .from(pledge)
+    .innerJoin(contact, eq(pledge.contactId, contact.id))
+    .where(and(...conditions));
+  if (pledges.length === 0) return { lines: [], skipped: 0 };
+
+  const { paid, unconvertible } = await paidAsOf(asOf, pledges.map((p) => p.pledgeId));
+
+  const rates = new Map<string, number | null>();
+  for (const code of new Set(pledges.map((p) => p.currency))) {
+    rates.set(code, await getUsdToCurrencyRate(code, asOf));
+  }
+
+  const lines: UnrealizedFxLine[] = [];
+  let skipped = 0;
+  for (const row of pledges) {
+    if (unconvertible.has(row.pledgeId)) {
+      skipped++;
+      continue;
+    }
+    const openBalance = decimal(row.originalAmount)
+      .minus(paid.get(row.pledgeId) ?? Decimal.zero())
+      .minus(row.adjusted)
+      .clampToZero();
+    if (openBalance.isZero()) continue;
+
+    const usdPerUnit = bookedUsdPerUnit(row.originalAmount, row.originalAmountUsd, row.pledgeRate);
+    const rate = rates.get(row.currency);
+    if (!usdPerUnit || !rate) {
+      skipped++;
+      continue;
+    }
+
+    const bookedUsd = openBalance.times(usdPerUnit);
+    const revaluedUsd = openBalance.dividedBy(rate);
+    lines.push({
+      pledgeId: row.pledgeId,
+      pledgeDescription: row.pledgeDescription,
+      donorName: row.donorName,
+      currency: row.currency,
+      openBalance,
+      bookedUsd,
+      rate: decimal(rate).toRate(),
+      revaluedUsd,
+      gainUsd: revaluedUsd.minus(bookedUsd),
+    });
+  }
+  return { lines, skipped };
+}
+
+// "2026-Q3" or "2026-07" for a payment date
+function periodKey(date: string, grouping: "quarter" | "month"): string {
+  const [year, month] = date.split("-");
+  return grouping === "month" ? `${year}-${month}` : `${year}-Q${Math.ceil(parseInt(month, 10) / 3)}`;
+}
+
+const pledgeLabel = (line: { pledgeId: number; pledgeDescription: string | null; donorName: string }) =>
+  `${line.donorName} - ${line.pledgeDescription || `Pledge #${line.pledgeId}`}`;
+
+/**
+ * Adds realized lines up per pledge, per currency, or per quarter or month
+ * and currency, newest period first.
+ */
+export function groupRealizedFx(lines: RealizedFxLine[], grouping: FxGrouping): FxGroupTotal[] {
+  const groups = new Map<string, FxGroupTotal>();
+  for (const line of lines) {
+    const key =
+      grouping === "pledge"
+        ? String(line.pledgeId)
+        : grouping === "currency"
+          ? line.currency
+          : periodKey(line.paymentDate, grouping);
+    const id = `${key}|${line.currency}`;
+    const group = groups.get(id) ?? {
+      key,
+      label: grouping === "pledge" ? pledgeLabel(line) : key,
+      currency: line.currency,
+      count: 0,
+      amount: Decimal.zero(),
+      bookedUsd: Decimal.zero(),
+      actualUsd: Decimal.zero(),
+      gainUsd: Decimal.zero(),
+    };
+    group.count++;
+    group.amount = group.amount.plus(line.amount);
+    group.bookedUsd = group.bookedUsd.plus(line.bookedUsd);
+    group.actualUsd = group.actualUsd.plus(line.receivedUsd);
+    group.gainUsd = group.gainUsd.plus(line.gainUsd);
+    groups.set(id, group);
+  }
+  const ordered = [...groups.values()];
+  if (grouping === "pledge") return ordered.sort((a, b) => a.label.localeCompare(b.label));
+  return ordered.sort((a, b) => b.key.localeCompare(a.key) || a.currency.localeCompare(b.currency));
+}
+
+// Open balances added up per currency
+export function groupUnrealizedFx(lines: UnrealizedFxLine[]): FxGroupTotal[] {
+  const groups = new Map<string, FxGroupTotal>();
+  for (const line of lines) {
+    const group = groups.get(line.currency) ?? {
+      key: line.currency,
+      label: line.currency,
+      currency: line.currency,
+      count: 0,
+      amount: Decimal.zero(),
+      bookedUsd: Decimal.zero(),
+      actualUsd: Decimal.zero(),
+      gainUsd: Decimal.zero(),
+    };
+    group.count++;
+    group.amount = group.amount.plus(line.openBalance);
+    group.bookedUsd = group.bookedUsd.plus(line.bookedUsd);
+    group.actualUsd = group.actualUsd.plus(line.revaluedUsd);
+    group.gainUsd = group.gainUsd.plus(line.gainUsd);
+    groups.set(line.currency, group);
+  }
+  return [...groups.values()].sort((a, b) => a.currency.localeCompare(b.currency));
+}
@@ -0,0 +1,35 @@
+import { DomainError } from "@/lib/error-handler";
+
+// Three-letter ISO codes; which ones are in use is up to the currency table
+export function isCurrencyCode(code: string): boolean {
+  return /^[A-Z]{3}$/.test(code);
+}
+
+export class ExchangeRateError extends DomainError {
+  constructor(message: string, statusCode: 400 | 404 | 409 | 502) {
+    super(message, statusCode);
+    this.name = "ExchangeRateError";
+  }
+}
+
+/**
+ * Rates for one day as units of each currency per USD, six decimals.
+ * USD itself is left out; it is always 1.
+ */
+export interface RateSet {
+  date: string;
+  rates: Record<string, string>;
+}
+
+/**
+ * A source of daily rates. Adapters fetch or read them; storing, falling
+ * back to earlier days and applying monthly locks happen above them.
+ */
+export interface ExchangeRateProvider {
+  // e.g. "exchangerate-host"
+  name: string;
+  // Rates for `currencies` (enabled codes other than USD). Null when the
+  // provider has nothing for the date and stored rates should be used;
+  // throws a 502 ExchangeRateError when the source is unreachable
+  fetchRates(date: string, currencies: readonly string[]): Promise<RateSet | null>;
+}
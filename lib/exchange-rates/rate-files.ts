@@ -0,0 +1,181 @@
+// Rate files that can be loaded without reaching any API: the European
+// Central Bank's daily or historical XML (rates per EUR), and CSV in either
+// long form (date,currency,rate) or wide form (date,USD,ILS,...). Every set
+// is rebased to units per USD before it is returned.
+
+import { ExchangeRateError, isCurrencyCode, type RateSet } from "@/lib/exchange-rates/provider";
+import { decimal, formatRate } from "@/lib/money";
+
+export type RateFileFormat = "ecb-xml" | "csv";
+
+export interface ParsedRateFile {
+  format: RateFileFormat;
+  sets: RateSet[];
+  // Columns that are not currency codes, and blank or unreadable values
+  skippedValues: number;
+}
+
+const MONTHS = [
+  "january", "february", "march", "april", "may", "june",
+  "july", "august", "september", "october", "november", "december",
+];
+
+const pad = (value: number) => String(value).padStart(2, "0");
+
+// ISO dates and the "18 October 2024" form of the ECB's CSV download
+function parseDate(value: string): string | null {
+  const trimmed = value.trim();
+  let match = trimmed.match(/^(\d{4})-(\d{2})-(\d{2})$/);
+  if (match) return `${match[1]}-${match[2]}-${match[3]}`;
+
+  match = trimmed.match(/^(\d{1,2}) ([A-Za-z]+) (\d{4})$/);
+  if (match) {
+    const month = MONTHS.indexOf(match[2].toLowerCase());
+    if (month >= 0) return `${match[3]}-${pad(month + 1)}-${pad(parseInt(match[1], 10))}`;
+  }
+  return null;
+}
+
+function splitCsvLine(line: string): string[] {
+  const cells: string[] = [];
+  let cell = "";
+  let quoted = false;
+  for (let i = 0; i < line.length; i++) {
+    const char = line[i];
+    if (quoted) {
+      if (char === '"' && line[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ",") {
+      cells.push(cell.trim());
+      cell = "";
+    } else {
+      cell += char;
+    }
+  }
+  cells.push(cell.trim());
+  return cells;
+}
+
+/**
+ * Turns one day's rates quoted against `base` into rates per USD. A set
+ * quoted against anything but USD has to include USD to be rebased.
+ */
+function rebase(date: string, base: string, perBase: Map<string, number>): { set: RateSet; skipped: number } {
+  perBase.set(base, 1);
+  const usdPerBase = perBase.get("USD");
+  if (!usdPerBase) {
+    throw new ExchangeRateError(`The rates for ${date} are quoted in ${base} and have no USD rate to convert with`, 400);
+  }
+
+  const rates: Record<string, string> = {};
+  let skipped = 0;
+  for (const [currency, rate] of perBase) {
+    if (currency === "USD") continue;
+    if (!isCurrencyCode(currency)) {
+      skipped++;
+      continue;
+    }
+    rates[currency] = formatRate(decimal(rate).dividedBy(usdPerBase));
+  }
+  return { set: { date, rates }, skipped };
+}
+
+export function detectRateFileFormat(fileName: string, content: string): RateFileFormat {
+  if (/\.xml$/i.test(fileName) || /^\s*<\?xml|<Cube/i.test(content)) return "ecb-xml";
+  return "csv";
+}
+
+export function parseRateFile(fileName: string, content: string, base = "USD"): ParsedRateFile {
+  return detectRateFileFormat(fileName, content) === "ecb-xml" ? parseEcbXml(content) : parseCsv(content, base);
+}
+
+function parseEcbXml(content: string): ParsedRateFile {
+  const sets: RateSet[] = [];
+  let skippedValues = 0;
+  const days = content.split(/<Cube\s+time=/i).slice(1);
+
+  for (const day of days) {
+    const date = parseDate(day.match(/^["']([^"']+)["']/)?.[1] ?? "");
+    if (!date) continue;
+    const perEur = new Map<string, number>();
+    for (const match of day.matchAll(/<Cube\s+currency=["']([A-Z]{3})["']\s+rate=["']([^"']+)["']/gi)) {
+      const rate = parseFloat(match[2]);
+      if (rate > 0) perEur.set(match[1].toUpperCase(), rate);
+      else skippedValues++;
+    }
+    const { set, skipped } = rebase(date, "EUR", perEur);
+    sets.push(set);
+    skippedValues += skipped;
+  }
+
+  if (sets.length === 0) throw new ExchangeRateError("No daily rates were found in the XML file", 400);
+  return { format: "ecb-xml", sets, skippedValues };
+}
+
+function parseCsv(content: string, base: string): ParsedRateFile {
+  const lines = content.split(/\r?\n/).filter((line) => line.trim() !== "");
+  if (lines.length < 2) throw new ExchangeRateError("The CSV file has no rate rows", 400);
+
+  const header = splitCsvLine(lines[0]).map((cell) => cell.toLowerCase());
+  const dateColumn = header.findIndex((cell) => cell === "date");
+  if (dateColumn < 0) throw new ExchangeRateError("The CSV file needs a date column", 400);
+
+  const currencyColumn = header.indexOf("currency");
+  const rateColumn = header.indexOf("rate");
+  const baseColumn = header.indexOf("base");
+  const byDate = new Map<string, { base: string; rates: Map<string, number> }>();
+  let skippedValues = 0;
+
+  const dayOf = (date: string, dayBase: string) => {
+    const existing = byDate.get(`${date}|${dayBase}`);
+    if (existing) return existing.rates;
+    const created = { base: dayBase, rates: new Map<string, number>() };
+    byDate.set(`${date}|${dayBase}`, created);
+    return created.rates;
+  };
+
+  for (const line of lines.slice(1)) {
+    const cells = splitCsvLine(line);
+    const date = parseDate(cells[dateColumn] ?? "");
+    if (!date) {
+      skippedValues++;
+      continue;
+    }
+
+    if (currencyColumn >= 0 && rateColumn >= 0) {
+      // Long form: one currency per row
+      const rowBase = baseColumn >= 0 && cells[baseColumn] ? cells[baseColumn].toUpperCase() : base;
+      const rate = parseFloat(cells[rateColumn] ?? "");
+      const currency = (cells[currencyColumn] ?? "").toUpperCase();
+      if (rate > 0 && /^[A-Z]{3}$/.test(currency)) dayOf(date, rowBase).set(currency, rate);
+      else skippedValues++;
+    } else {
+      // Wide form: one column per currency, as the ECB's CSV download
+      const rates = dayOf(date, base);
+      header.forEach((column, index) => {
+        if (index === dateColumn || !/^[a-z]{3}$/.test(column)) return;
+        const rate = parseFloat(cells[index] ?? "");
+        if (rate > 0) rates.set(column.toUpperCase(), rate);
+        else skippedValues++;
+      });
+    }
+  }
+
+  const sets: RateSet[] = [];
+  for (const [key, day] of byDate) {
+    const { set, skipped } = rebase(key.split("|")[0], day.base, day.rates);
+    sets.push(set);
+    skippedValues += skipped;
+  }
+
+  if (sets.length === 0) throw new ExchangeRateError("No rates could be read from the CSV file", 400);
+  return { format: "csv", sets, skippedValues };
+}
@@ -0,0 +1,276 @@
+import { and, desc, eq, gte, lte, ne, sql } from "drizzle-orm";
+import { db, type DbClient } from "@/lib/db";
+import { exchangeRate, exchangeRateLock, user, type ExchangeRate, type ExchangeRateLock } from "@/lib/db/schema";
+import { ExchangeRateError, type ExchangeRateProvider, type RateSet } from "@/lib/exchange-rates/provider";
+import { parseRateFile } from "@/lib/exchange-rates/rate-files";
+import { formatRate } from "@/lib/money";
+import { getExchangeRateProvider } from "@/lib/exchange-rates/registry";
+import { rateCurrencyCodes } from "@/lib/currencies/currencies";
+
+type RateSource = ExchangeRate["source"] | "locked";
+
+export interface DailyRates {
+  // The rates as the converters read them: units per USD, USD included
+  data: { currency: "USD"; rates: Record<string, string> };
+  date: string;
+  // Per currency, where its rate came from and the day it was quoted for
+  sources: Record<string, { source: RateSource; date: string }>;
+  // Set when the provider failed and some rates are from earlier days
+  providerError: string | null;
+}
+
+const today = () => new Date().toISOString().split("T")[0];
+
+export const monthStart = (date: string) => `${date.slice(0, 7)}-01`;
+
+// The locked rate for the month `date` falls in, if an admin set one
+export async function getLockedRate(currency: string, date: string, client: DbClient = db): Promise<number | null> {
+  const [lock] = await client
+    .select({ rate: exchangeRateLock.rate })
+    .from(exchangeRateLock)
+    .where(and(eq(exchangeRateLock.currency, currency), eq(exchangeRateLock.month, monthStart(date))))
+    .limit(1);
+  return lock ? parseFloat(lock.rate) : null;
+}
+
+/**
+ * Saves a day's rates under `source`. Manual entries are never replaced by
+ * anything else, and API rates never replace imported ones.
+ */
+async function storeRates(set: RateSet, source: ExchangeRate["source"]): Promise<number> {
+  const rows = Object.entries(set.rates).map(([currency, rate]) => ({
+    baseCurrency: "USD" as const,
+    targetCurrency: currency,
+    rate: rate!,
+    date: set.date,
+    source,
+    updatedAt: today(),
+  }));
+  if (rows.length === 0) return 0;
+
+  const stored = await db
+    .insert(exchangeRate)
+    .values(rows)
+    .onConflictDoUpdate({
+      target: [exchangeRate.baseCurrency, exchangeRate.targetCurrency, exchangeRate.date],
+      set: { rate: sql`excluded.rate`, source: sql`excluded.source`, updatedAt: sql`excluded."updated_at"` },
+      setWhere:
+        source === "manual"
+          ? undefined
+          : source === "import"
+            ? ne(exchangeRate.source, "manual")
+            : eq(exchangeRate.source, "api"),
+    })
+    .returning({ id: exchangeRate.id });
+  return stored.length;
+}
+
+// Each currency's latest stored rate on or before `date`
+async function storedRatesOnOrBefore(date: string) {
+  return db
+    .selectDistinctOn([exchangeRate.targetCurrency], {
+      currency: exchangeRate.targetCurrency,
+      rate: exchangeRate.rate,
+      date: exchangeRate.date,
+      source: exchangeRate.source,
+      updatedAt: exchangeRate.updatedAt,
+    })
+    .from(exchangeRate)
+    .where(and(eq(exchangeRate.baseCurrency, "USD"), lte(exchangeRate.date, date)))
+    .orderBy(exchangeRate.targetCurrency, desc(exchangeRate.date));
+}
+
+// How long an answer for a day stands before the provider is asked again,
+// and how long a failed provider is left alone
+const FETCHED_TTL_MS = 60 * 60 * 1000;
+const FAILURE_BACKOFF_MS = 5 * 60 * 1000;
+
+// Per process: when each provider last answered for a day, and when one
+// last failed. Keeps requests from waiting on a provider that has nothing
+// more to give or is down.
+const lastFetched = new Map<string, number>();
+const lastFailure = new Map<string, { at: number; message: string }>();
+
+async function fetchProviderRates(provider: ExchangeRateProvider, date: string, wanted: string[]) {
+  const now = Date.now();
+  const failure = lastFailure.get(provider.name);
+  if (failure && now - failure.at < FAILURE_BACKOFF_MS) {
+    throw new ExchangeRateError(failure.message, 502);
+  }
+  const key = `${provider.name}:${date}:${wanted.join(",")}`;
+  const fetchedAt = lastFetched.get(key);
+  if (fetchedAt && now - fetchedAt < FETCHED_TTL_MS) return null;
+
+  try {
+    const fetched = await provider.fetchRates(date, wanted);
+    lastFetched.set(key, now);
+    lastFailure.delete(provider.name);
+    return fetched;
+  } catch (error) {
+    if (error instanceof ExchangeRateError) lastFailure.set(provider.name, { at: now, message: error.message });
+    throw error;
+  }
+}
+
+/**
+ * The rates to convert with on `date` (today for future dates). Stored
+ * rates for the day are used while complete; otherwise the provider is
+ * asked and its answer stored. When it fails or has nothing, each currency
+ * falls back to its nearest earlier stored day. Monthly locks win over all.
+ */
+export async function getRatesForDate(
+  requestedDate: string,
+  provider: ExchangeRateProvider = getExchangeRateProvider()
+): Promise<DailyRates> {
+  const date = requestedDate > today() ? today() : requestedDate;
+  const wanted = await rateCurrencyCodes();
+
+  let stored = await storedRatesOnOrBefore(date);
+  // Rates fetched during the day itself may still move; after it they are final
+  const complete = wanted.every((currency) =>
+    stored.some((row) => row.currency === currency && row.date === date && (row.source !== "api" || row.updatedAt >= date))
+  );
+
+  let providerError: string | null = null;
+  if (!complete) {
+    try {
+      const fetched = await fetchProviderRates(provider, date, wanted);
+      if (fetched && (await storeRates(fetched, "api")) > 0) stored = await storedRatesOnOrBefore(date);
+    } catch (error) {
+      if (!(error instanceof ExchangeRateError)) throw error;
+      providerError = error.message;
+      console.warn(`Exchange rates for ${date} fell back to stored rates:`, error.message);
+    }
+  }
+
+  const locks = await db
+    .select({ currency: exchangeRateLock.currency, rate: exchangeRateLock.rate, month: exchangeRateLock.month })
+    .from(exchangeRateLock)
+    .where(eq(exchangeRateLock.month, monthStart(date)));
+
+  const rates: Record<string, string> = { USD: "1.0" };
+  const sources: DailyRates["sources"] = {};
+  for (const row of stored) {
+    rates[row.currency] = row.rate;
+    sources[row.currency] = { source: row.source, date: row.date };
+  }
+  for (const lock of locks) {
+    rates[lock.currency] = lock.rate;
+    sources[lock.currency] = { source: "locked", date: lock.month };
+  }
+
+  if (Object.keys(rates).length === 1 && providerError) {
+    throw new ExchangeRateError(`No exchange rates are stored on or before ${date} and ${providerError}`, 502);
+  }
+  return { data: { currency: "USD", rates }, date, sources, providerError };
+}
+
+export interface ManualRateInput {
+  date: string;
+  currency: string;
+  // Units of the currency per USD
+  rate: number;
+}
+
+// Rates are only kept for currencies some location has enabled
+async function assertRateCurrency(currency: string): Promise<void> {
+  if (currency === "USD") throw new ExchangeRateError("USD is always 1", 400);
+  if (!(await rateCurrencyCodes()).includes(currency)) {
+    throw new ExchangeRateError(`${currency} is not an enabled currency; enable it on the currencies page first`, 400);
+  }
+}
+
+export async function saveManualRate(input: ManualRateInput): Promise<{ before: ExchangeRate | null; after: ExchangeRate }> {
+  await assertRateCurrency(input.currency);
+  if (!(input.rate > 0)) throw new ExchangeRateError("The rate must be positive", 400);
+
+  const where = and(
+    eq(exchangeRate.baseCurrency, "USD"),
+    eq(exchangeRate.targetCurrency, input.currency),
+    eq(exchangeRate.date, input.date)
+  );
+  const [before] = await db.select().from(exchangeRate).where(where).limit(1);
+  await storeRates({ date: input.date, rates: { [input.currency]: formatRate(input.rate) } }, "manual");
+  const [after] = await db.select().from(exchangeRate).where(where).limit(1);
+  return { before: before ?? null, after };
+}
+
+/**
+ * Loads an ECB XML or CSV rate file into the stored rates, so the dates it
+ * covers convert without the API. Manual entries for the same day stay.
+ */
+export async function importRateFile(input: { fileName: string; content: string; base?: string }) {
+  const parsed = parseRateFile(input.fileName, input.content, input.base);
+  // Only currencies some location has enabled are kept
+  const enabled = await rateCurrencyCodes();
+  let stored = 0;
+  let skippedValues = parsed.skippedValues;
+  for (const set of parsed.sets) {
+    const rates = Object.fromEntries(Object.entries(set.rates).filter(([currency]) => enabled.includes(currency)));
+    skippedValues += Object.keys(set.rates).length - Object.keys(rates).length;
+    stored += await storeRates({ date: set.date, rates }, "import");
+  }
+  const dates = parsed.sets.map((set) => set.date).sort();
+  return {
+    format: parsed.format,
+    days: parsed.sets.length,
+    stored,
+    skippedValues,
+    firstDate: dates[0],
+    lastDate: dates[dates.length - 1],
+  };
+}
+
+/**
+ * Locks one rate for a currency's month. Without a rate, the one in effect
+ * on the first of the month is taken. Payments already converted in the
+ * month keep their stored amounts; only later conversions use the lock.
+ */
+export async function lockMonthlyRate(
+  input: { currency: string; month: string; rate?: number; note?: string | null },
+  lockedBy: number | null
+): Promise<ExchangeRateLock> {
+  await assertRateCurrency(input.currency);
+  const month = monthStart(input.month);
+
+  let rate = input.rate;
+  if (rate === undefined) {
+    const { data } = await getRatesForDate(month);
+    rate = data.rates[input.currency] ? parseFloat(data.rates[input.currency]) : undefined;
+    if (!rate) throw new ExchangeRateError(`No ${input.currency} rate is stored for ${month}; enter one to lock`, 404);
+  }
+  if (!(rate > 0)) throw new ExchangeRateError("The rate must be positive", 400);
+
+  const [lock] = await db
+    .insert(exchangeRateLock)
+    .values({ currency: input.currency, month, rate: formatRate(rate), note: input.note || null, lockedBy })
+    .onConflictDoNothing()
+    .returning();
+  if (!lock) {
+    throw new ExchangeRateError(`${input.currency} is already locked for ${month.slice(0, 7)}; unlock it first`, 409);
+  }
+  return lock;
+}
+
+export async function unlockMonthlyRate(lockId: number): Promise<ExchangeRateLock> {
+  const [lock] = await db.delete(exchangeRateLock).where(eq(exchangeRateLock.id, lockId)).returning();
+  if (!lock) throw new ExchangeRateError("Rate lock not found", 404);
+  return lock;
+}
+
+export async function listRateLocks(fromMonth?: string) {
+  return db
+    .select({
+      id: exchangeRateLock.id,
+      currency: exchangeRateLock.currency,
+      month: exchangeRateLock.month,
+      rate: exchangeRateLock.rate,
+      note: exchangeRateLock.note,
+      lockedByEmail: user.email,
+      createdAt: exchangeRateLock.createdAt,
+    })
+    .from(exchangeRateLock)
+    .leftJoin(user, eq(exchangeRateLock.lockedBy, user.id))
+    .where(fromMonth ? gte(exchangeRateLock.month, monthStart(fromMonth)) : undefined)
+    .orderBy(desc(exchangeRateLock.month), exchangeRateLock.currency);
+}
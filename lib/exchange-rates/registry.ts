@@ -0,0 +1,42 @@
+import { createExchangeRateHostProvider } from "@/lib/exchange-rates/exchangerate-host";
+import { createFileProvider } from "@/lib/exchange-rates/file-provider";
+import { ExchangeRateError, type ExchangeRateProvider } from "@/lib/exchange-rates/provider";
+
+export const RATE_PROVIDER_NAMES = ["exchangerate-host", "file", "manual"] as const;
+
+export type RateProviderName = (typeof RATE_PROVIDER_NAMES)[number];
+
+export function isRateProviderName(name: string): name is RateProviderName {
+  return (RATE_PROVIDER_NAMES as readonly string[]).includes(name);
+}
+
+// Fetches nothing: only rates entered or imported by admins are used
+const manualProvider: ExchangeRateProvider = {
+  name: "manual",
+  async fetchRates() {
+    return null;
+  },
+};
+
+/**
+ * Provider by name, or the one chosen by `EXCHANGE_RATE_PROVIDER`. Without
+ * that setting the API is used when it has a key and the manual table
+ * otherwise, so a deploy without network access still converts.
+ */
+export function getExchangeRateProvider(name?: string): ExchangeRateProvider {
+  const accessKey = process.env.EXCHANGERATE_API_KEY || process.env.NEXT_PUBLIC_EXCHANGERATE_API_KEY;
+  const selected = name ?? process.env.EXCHANGE_RATE_PROVIDER ?? (accessKey ? "exchangerate-host" : "manual");
+  if (!isRateProviderName(selected)) {
+    throw new ExchangeRateError(`Unknown exchange rate provider: ${selected}`, 400);
+  }
+  switch (selected) {
+    case "exchangerate-host":
+      if (!accessKey) throw new Error("EXCHANGERATE_API_KEY must be set to use exchangerate.host");
+      return createExchangeRateHostProvider({ accessKey });
+    case "file":
+      if (!process.env.EXCHANGE_RATE_FILE) throw new Error("EXCHANGE_RATE_FILE must be set to use the file provider");
+      return createFileProvider({ path: process.env.EXCHANGE_RATE_FILE, base: process.env.EXCHANGE_RATE_FILE_BASE });
+    case "manual":
+      return manualProvider;
+  }
+}
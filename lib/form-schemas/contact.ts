@@ -14,4 +14,7 @@ export const contactFormSchema = z.object({
   title: z.enum(["mr", "mrs", "ms", "dr", "prof", "eng", "other"]).optional(),
   gender: z.enum(["male", "female"]).optional(),
   address: z.string().optional(),
+  // Receipt fields some countries require; see lib/receipts/templates
+  taxId: z.string().optional(),
+  giftAidDeclarationDate: z.string().optional(),
 });
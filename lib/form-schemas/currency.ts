@@ -0,0 +1,18 @@
+import { z } from "zod";
+
+// Shape only; whether the currency is enabled is checked against the table
+export const currencyCodeSchema = z
+  .string()
+  .trim()
+  .toUpperCase()
+  .regex(/^[A-Z]{3}$/, "Currency must be a three-letter ISO code");
+
+export const currencySchema = z.object({
+  code: currencyCodeSchema,
+  name: z.string().trim().min(1, "Name is required").max(100),
+  symbol: z.string().trim().min(1, "Symbol is required").max(10),
+  minorUnits: z.number().int().min(0).max(4, "At most 4 decimal places"),
+  isActive: z.boolean(),
+});
+
+export type CurrencyFormData = z.infer<typeof currencySchema>;
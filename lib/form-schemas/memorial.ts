@@ -0,0 +1,25 @@
+import { z } from "zod";
+
+export const DEDICATION_TYPES = ["in_honor_of", "in_memory_of"] as const;
+
+export type DedicationType = (typeof DEDICATION_TYPES)[number];
+
+// Spread into pledge and payment schemas; null clears a stored dedication
+export const dedicationFields = {
+  dedicationType: z.enum(DEDICATION_TYPES).nullable().optional(),
+  dedicationName: z.string().trim().max(200).nullable().optional(),
+  memorialId: z.number().int().positive().nullable().optional(),
+};
+
+export const memorialSchema = z.object({
+  deceasedName: z.string().trim().min(1, "Name is required").max(200),
+  deceasedHebrewName: z.string().trim().max(200).optional().nullable(),
+  relationship: z.string().trim().max(100).optional().nullable(),
+  dateOfPassing: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Date of passing must be YYYY-MM-DD"),
+  afterSunset: z.boolean().default(false),
+  pledgeId: z.number().int().positive().optional().nullable(),
+  remindersEnabled: z.boolean().default(true),
+  notes: z.string().optional().nullable(),
+});
+
+export type MemorialInput = z.infer<typeof memorialSchema>;
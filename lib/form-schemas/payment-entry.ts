@@ -0,0 +1,46 @@
+import { z } from "zod";
+import { currencyCodeSchema } from "@/lib/form-schemas/currency";
+import { type Decimal, decimal, roundMoney } from "@/lib/money";
+
+export const paymentEntryAllocationSchema = z.object({
+  pledgeId: z.number({ required_error: "Choose a pledge" }).int().positive("Choose a pledge"),
+  amount: z.number({ required_error: "Enter an amount" }).positive("Amount must be positive"),
+});
+
+/**
+ * One row of the rapid entry grid: a payment from one donor, allocated to
+ * one pledge or split across several. Shared by the grid, which validates
+ * rows as they are typed, and the route that commits them.
+ */
+export const paymentEntryRowSchema = z
+  .object({
+    contactId: z.number({ required_error: "Choose a donor" }).int().positive("Choose a donor"),
+    paymentDate: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Date must be YYYY-MM-DD"),
+    currency: currencyCodeSchema,
+    paymentMethod: z.string().trim().min(1, "Choose a method"),
+    amount: z.number({ required_error: "Enter an amount" }).positive("Amount must be positive"),
+    checkNumber: z.string().trim().max(50).nullable().optional(),
+    referenceNumber: z.string().trim().max(100).nullable().optional(),
+    notes: z.string().max(1000).nullable().optional(),
+    allocations: z.array(paymentEntryAllocationSchema).min(1, "Allocate the payment to a pledge"),
+  })
+  .superRefine((row, ctx) => {
+    const pledgeIds = row.allocations.map((allocation) => allocation.pledgeId);
+    if (new Set(pledgeIds).size !== pledgeIds.length) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["allocations"], message: "A pledge is allocated twice" });
+    }
+    const allocated = row.allocations.reduce<Decimal>((sum, allocation) => sum.plus(allocation.amount), decimal(0));
+    if (allocated.toMoney(row.currency) !== roundMoney(row.amount, row.currency)) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: ["allocations"],
+        message: `Allocations total ${allocated.toMoney(row.currency)} but the payment is ${roundMoney(row.amount, row.currency)}`,
+      });
+    }
+  });
+
+export const paymentEntryBatchSchema = z.object({
+  rows: z.array(paymentEntryRowSchema).min(1, "Enter at least one payment").max(500),
+});
+
+export type PaymentEntryRow = z.infer<typeof paymentEntryRowSchema>;
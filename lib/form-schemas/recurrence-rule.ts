@@ -0,0 +1,57 @@
+import { z } from "zod";
+
+const ruleOptions = {
+  // Months with no installment, 1 = January
+  skipMonths: z
+    .array(z.number().int().min(1).max(12))
+    .max(11, "At least one month must stay open")
+    .default([]),
+  weekendAdjustment: z.enum(["none", "following_monday", "preceding_friday"]).default("none"),
+};
+
+/**
+ * How a plan's installment dates repeat: every N weeks, months or years from
+ * the start date; on set days of every N months (31 means the month's last
+ * day); on the last weekday of every N months; or on the Hebrew calendar,
+ * either on set days of every N Hebrew months (day 1 is Rosh Chodesh) or on
+ * one Hebrew date every N years. Hebrew months use hebcal numbering
+ * (Nisan = 1, Tishrei = 7, Adar I = 12, Adar II = 13).
+ */
+export const recurrenceRuleSchema = z.discriminatedUnion("pattern", [
+  z.object({
+    pattern: z.literal("interval"),
+    interval: z.number().int().min(1).max(52),
+    unit: z.enum(["week", "month", "year"]),
+    ...ruleOptions,
+  }),
+  z.object({
+    pattern: z.literal("days_of_month"),
+    interval: z.number().int().min(1).max(12).default(1),
+    daysOfMonth: z.array(z.number().int().min(1).max(31)).min(1, "Pick at least one day of the month"),
+    ...ruleOptions,
+  }),
+  z.object({
+    pattern: z.literal("last_business_day"),
+    interval: z.number().int().min(1).max(12).default(1),
+    ...ruleOptions,
+  }),
+  z.object({
+    pattern: z.literal("hebrew_monthly"),
+    interval: z.number().int().min(1).max(12).default(1),
+    // 30 falls on the 29th in a month that has only 29 days
+    hebrewDays: z.array(z.number().int().min(1).max(30)).min(1, "Pick at least one day of the Hebrew month"),
+    ...ruleOptions,
+  }),
+  z.object({
+    pattern: z.literal("hebrew_annual"),
+    interval: z.number().int().min(1).max(10).default(1),
+    hebrewMonth: z.number().int().min(1).max(13),
+    hebrewDay: z.number().int().min(1).max(30),
+    // Which Adar a plain Adar date falls in during a leap year
+    leapAdar: z.enum(["adar_i", "adar_ii"]).default("adar_ii"),
+    ...ruleOptions,
+  }),
+]);
+
+export type RecurrenceRule = z.infer<typeof recurrenceRuleSchema>;
+export type RecurrenceRuleInput = z.input<typeof recurrenceRuleSchema>;
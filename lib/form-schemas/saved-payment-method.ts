@@ -0,0 +1,26 @@
+import { z } from "zod";
+
+// Raw details are passed straight to the processor for a token; only the
+// token and last four digits are kept
+export const savedPaymentMethodSchema = z.discriminatedUnion("type", [
+  z.object({
+    type: z.literal("card"),
+    number: z.string().trim().min(12, "Card number is required").max(23),
+    expiryMonth: z.number().int().min(1).max(12),
+    expiryYear: z.number().int().min(2000).max(2100),
+    cvc: z.string().trim().regex(/^\d{3,4}$/, "Security code must be 3 or 4 digits"),
+    holderName: z.string().trim().max(200).optional(),
+  }),
+  z.object({
+    type: z.literal("ach"),
+    routingNumber: z.string().trim().regex(/^\d{9}$/, "Routing number must be 9 digits"),
+    accountNumber: z.string().trim().regex(/^\d{4,17}$/, "Account number must be 4 to 17 digits"),
+    accountType: z.enum(["checking", "savings"]).default("checking"),
+    holderName: z.string().trim().min(1, "Account holder is required").max(200),
+    // "nacha_file" keeps the account, encrypted, for the monthly NACHA debit file
+    // instead of handing it to the payment processor
+    collection: z.enum(["processor", "nacha_file"]).default("processor"),
+  }),
+]);
+
+export type SavedPaymentMethodInput = z.infer<typeof savedPaymentMethodSchema>;
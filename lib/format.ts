@@ -1,3 +1,5 @@
+import { minorUnits, registerMinorUnits, type DecimalInput } from "@/lib/money";
+
 export function formatDate(
   date: Date | string | number | undefined,
   opts: Intl.DateTimeFormatOptions = {}
@@ -16,3 +18,50 @@ export function formatDate(
     return "";
   }
 }
+
+export interface CurrencyFormat {
+  code: string;
+  symbol: string;
+  minorUnits: number;
+}
+
+// Symbols set in the currency table, registered when it is loaded
+const currencySymbols = new Map<string, string>();
+
+/**
+ * Makes the currency table's symbols and minor units the ones amounts are
+ * shown and rounded with. Called wherever the table is loaded, on the
+ * server and in the browser.
+ */
+export function registerCurrencyFormats(formats: CurrencyFormat[]): void {
+  for (const format of formats) currencySymbols.set(format.code, format.symbol);
+  registerMinorUnits(Object.fromEntries(formats.map((format) => [format.code, format.minorUnits])));
+}
+
+// The registered symbol, else the one the runtime knows, else the code itself
+export function currencySymbol(currency: string): string {
+  const configured = currencySymbols.get(currency);
+  if (configured) return configured;
+  try {
+    const parts = new Intl.NumberFormat("en-US", { style: "currency", currency }).formatToParts(0);
+    return parts.find((part) => part.type === "currency")?.value ?? currency;
+  } catch {
+    return currency;
+  }
+}
+
+// Grouped digits at the currency's minor units, e.g. "1,234.50" or "1,235" for JPY
+export function formatAmount(amount: DecimalInput | null | undefined, currency: string): string {
+  const places = minorUnits(currency);
+  // Display only; the stored amount is already rounded
+  const value = typeof amount === "object" && amount !== null ? amount.toNumber() : Number(amount) || 0;
+  return value.toLocaleString("en-US", { minimumFractionDigits: places, maximumFractionDigits: places });
+}
+
+// The amount with its currency's symbol, e.g. "₪1,234.50" or "-$20.00"
+export function formatMoney(amount: DecimalInput | null | undefined, currency: string): string {
+  const formatted = formatAmount(amount, currency);
+  return formatted.startsWith("-")
+    ? `-${currencySymbol(currency)}${formatted.slice(1)}`
+    : `${currencySymbol(currency)}${formatted}`;
+}
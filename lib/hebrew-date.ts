@@ -0,0 +1,138 @@
+import { HDate, HebrewCalendar, months } from "@hebcal/core";
+import { format, isValid, parseISO } from "date-fns";
+
+// Month numbers follow hebcal: Nisan = 1 ... Elul = 6, Tishrei = 7 ... Adar I = 12, Adar II = 13
+export const HEBREW_MONTHS = [
+  { value: months.TISHREI, label: "Tishrei" },
+  { value: months.CHESHVAN, label: "Cheshvan" },
+  { value: months.KISLEV, label: "Kislev" },
+  { value: months.TEVET, label: "Tevet" },
+  { value: months.SHVAT, label: "Shvat" },
+  { value: months.ADAR_I, label: "Adar / Adar I" },
+  { value: months.ADAR_II, label: "Adar II" },
+  { value: months.NISAN, label: "Nisan" },
+  { value: months.IYYAR, label: "Iyyar" },
+  { value: months.SIVAN, label: "Sivan" },
+  { value: months.TAMUZ, label: "Tamuz" },
+  { value: months.AV, label: "Av" },
+  { value: months.ELUL, label: "Elul" },
+] as const;
+
+// Which Adar a plain "Adar" date falls in when the year has two
+export type LeapAdar = "adar_i" | "adar_ii";
+
+export interface HebrewDateParts {
+  day: number;
+  month: number;
+  year: number;
+}
+
+/**
+ * The month a Hebrew date lands in for a given year. Adar I and Adar II both
+ * collapse to Adar in a regular year; in a leap year, Adar II stays put and
+ * plain Adar goes to whichever Adar `leapAdar` picks (Purim and most
+ * anniversaries are kept in Adar II).
+ */
+export function resolveHebrewMonth(month: number, year: number, leapAdar: LeapAdar = "adar_ii"): number {
+  if (month !== months.ADAR_I && month !== months.ADAR_II) return month;
+  if (!HDate.isLeapYear(year)) return months.ADAR_I;
+  if (month === months.ADAR_II) return months.ADAR_II;
+  return leapAdar === "adar_i" ? months.ADAR_I : months.ADAR_II;
+}
+
+/**
+ * Gregorian date (YYYY-MM-DD) of a day in a month that exists in `year`. Day
+ * 30 of a month that has only 29 days that year falls on the 29th rather than
+ * rolling into the next month.
+ */
+export function hebrewMonthDay(day: number, month: number, year: number): string {
+  const clampedDay = Math.min(day, HDate.daysInMonth(month, year));
+  return format(new HDate(clampedDay, month, year).greg(), "yyyy-MM-dd");
+}
+
+// Gregorian date (YYYY-MM-DD) of a Hebrew date, with Adar resolved for the year
+export function hebrewToGregorian(
+  { day, month, year }: HebrewDateParts,
+  leapAdar: LeapAdar = "adar_ii"
+): string {
+  return hebrewMonthDay(day, resolveHebrewMonth(month, year, leapAdar), year);
+}
+
+export function toHebrewDate(date: string | Date): HebrewDateParts | null {
+  const parsed = typeof date === "string" ? parseISO(date) : date;
+  if (!isValid(parsed)) return null;
+  const hd = new HDate(parsed);
+  return { day: hd.getDate(), month: hd.getMonth(), year: hd.getFullYear() };
+}
+
+/**
+ * First Gregorian date on or after `from` that falls on the given Hebrew day
+ * and month, e.g. the next Rosh Hashana for a pledge due "by Rosh Hashana".
+ */
+export function nextHebrewOccurrence(
+  day: number,
+  month: number,
+  from: string,
+  leapAdar: LeapAdar = "adar_ii"
+): string {
+  const start = toHebrewDate(from);
+  if (!start) throw new Error(`Invalid date: ${from}`);
+  for (let year = start.year; ; year++) {
+    const date = hebrewToGregorian({ day, month, year }, leapAdar);
+    if (date >= from) return date;
+  }
+}
+
+/**
+ * Gregorian date (YYYY-MM-DD) of the yahrzeit in `hebrewYear` for a passing
+ * on the given Hebrew date, or null for years up to the passing itself. The
+ * customary rules apply: a passing in a regular Adar is kept in Adar I of a
+ * leap year, one in Adar II in the year's last Adar, and 30 Cheshvan, 30
+ * Kislev and 30 Adar I move to the day before the next month when that month
+ * is short. The yahrzeit begins at sundown the evening before.
+ */
+export function yahrzeitDate(passing: HebrewDateParts, hebrewYear: number): string | null {
+  const anniversary = HebrewCalendar.getYahrzeit(
+    hebrewYear,
+    new HDate(passing.day, passing.month, passing.year)
+  );
+  return anniversary ? format(anniversary.greg(), "yyyy-MM-dd") : null;
+}
+
+// Position of a month counted from Tishrei, the first month of the Hebrew year
+function tishreiIndex(month: number, year: number): number {
+  return month >= months.TISHREI ? month - months.TISHREI + 1 : month + HDate.monthsInYear(year) - 6;
+}
+
+function monthAtTishreiIndex(index: number, year: number): number {
+  const monthsBeforeNisan = HDate.monthsInYear(year) - 6;
+  return index <= monthsBeforeNisan ? index + months.TISHREI - 1 : index - monthsBeforeNisan;
+}
+
+/**
+ * The Hebrew month `count` months after the given one, counting Adar I and
+ * Adar II separately in leap years.
+ */
+export function addHebrewMonths(month: number, year: number, count: number): { month: number; year: number } {
+  let index = tishreiIndex(month, year) + count;
+  while (index > HDate.monthsInYear(year)) {
+    index -= HDate.monthsInYear(year);
+    year++;
+  }
+  return { month: monthAtTishreiIndex(index, year), year };
+}
+
+/**
+ * Hebrew rendering of a Gregorian date (YYYY-MM-DD): "14 Adar II 5784" in
+ * English, or with Hebrew letters such as "י״ד אדר ב׳ תשפ״ד".
+ */
+export function formatHebrewDate(
+  date: string | null | undefined,
+  options: { gematriya?: boolean } = {}
+): string {
+  if (!date) return "";
+  const parsed = parseISO(date);
+  if (!isValid(parsed)) return "";
+  const hd = new HDate(parsed);
+  return options.gematriya ? hd.renderGematriya(true) : `${hd.getDate()} ${hd.getMonthName()} ${hd.getFullYear()}`;
+}
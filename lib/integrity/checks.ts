@@ -0,0 +1,571 @@
+// The data integrity checks: stored totals that no longer match the
+// payments behind them, and converted amounts that are missing or far from
+// what the rates give. Each check returns issues with the fix it proposes;
+// nothing here writes. Runs, history and applying fixes live in runs.ts.
+
+import { and, eq, exists, ne, sql } from "drizzle-orm";
+import { db } from "@/lib/db";
+import {
+  contact,
+  installmentSchedule,
+  payment,
+  paymentAllocations,
+  paymentPlan,
+  pledge,
+  type IntegrityFix,
+} from "@/lib/db/schema";
+import { computePaymentPlanTotals, computePledgeTotals, getUsdToCurrencyRate } from "@/lib/payment-totals";
+import { crossRate, decimal, type DecimalInput } from "@/lib/money";
+
+export const INTEGRITY_ISSUE_TYPES = [
+  "pledge_balance",
+  "payment_plan_amounts",
+  "payment_conversion",
+  "third_party_conversion",
+  "plan_conversion",
+  "installment_conversion",
+  "allocation_conversion",
+  "allocation_total",
+] as const;
+export type IntegrityIssueType = (typeof INTEGRITY_ISSUE_TYPES)[number];
+
+export type IntegritySeverity = "critical" | "warning";
+
+export type IntegrityRecordType = "pledge" | "payment_plan" | "payment" | "installment_schedule" | "payment_allocation";
+
+export interface IntegrityIssue {
+  // Stable across runs, e.g. "payment_usd_conversion_42"
+  key: string;
+  type: IntegrityIssueType;
+  severity: IntegritySeverity;
+  contactId: number | null;
+  contactName: string | null;
+  recordType: IntegrityRecordType;
+  recordId: number;
+  description: string;
+  // Null when someone has to look at the records by hand
+  fix: IntegrityFix | null;
+}
+
+// Stored totals may be a cent off from rounding without being wrong
+const TOLERANCE = "0.01";
+// Converted amounts further off than this are flagged, and critical past the second
+const WARNING_PERCENT = 1;
+const CRITICAL_PERCENT = 10;
+
+const donorName = sql<string>`NULLIF(TRIM(CONCAT(${contact.firstName}, ' ', ${contact.lastName})), '')`;
+
+const today = () => new Date().toISOString().split("T")[0];
+
+// Payments convert on the day they were received; never a future day
+function conversionDate(receivedDate: string | null): string {
+  const now = today();
+  return receivedDate && receivedDate <= now ? receivedDate : now;
+}
+
+function sameAmount(recorded: string | null, expected: string | null): boolean {
+  if (recorded === null || expected === null) return recorded === expected;
+  const difference = decimal(recorded).minus(expected);
+  return (difference.isNegative() ? decimal(0).minus(difference) : difference).compare(TOLERANCE) <= 0;
+}
+
+// A row as selected; the amount and rate fields the checks read are numeric strings
+type StoredRow = Record<string, unknown>;
+
+const stored = (row: StoredRow, field: string) => (row[field] as string | null | undefined) ?? null;
+
+// The fields of `expected` whose stored value differs from it
+function changedFields(current: StoredRow, expected: Record<string, string | null>): IntegrityFix["changes"] {
+  return Object.entries(expected)
+    .filter(([field, value]) => value !== null && !sameAmount(stored(current, field), value))
+    .map(([field, value]) => ({ field, from: stored(current, field), to: value! }));
+}
+
+/**
+ * How far a stored conversion is from the expected one, in percent, and
+ * whether that makes an issue. A missing amount is always critical.
+ */
+function conversionError(recorded: string | null, expected: string): { percent: number; severity: IntegritySeverity } | null {
+  const target = decimal(expected);
+  if (recorded === null || decimal(recorded).isZero()) {
+    return target.isZero() ? null : { percent: 100, severity: "critical" };
+  }
+  if (target.isZero()) return { percent: 100, severity: "critical" };
+
+  const percent = Math.abs(decimal(recorded).minus(target).dividedBy(target).toNumber()) * 100;
+  if (percent <= WARNING_PERCENT) return null;
+  return { percent, severity: percent > CRITICAL_PERCENT ? "critical" : "warning" };
+}
+
+/**
+ * Rates for one check run, looked up once per currency and day. Lookups
+ * go through getUsdToCurrencyRate, so monthly locks apply as everywhere else.
+ */
+function createConverter() {
+  const rates = new Map<string, Promise<number | null>>();
+  const usdRate = (currency: string, date: string) => {
+    const key = `${currency}|${date}`;
+    if (!rates.has(key)) rates.set(key, getUsdToCurrencyRate(currency, date));
+    return rates.get(key)!;
+  };
+
+  // `amount` in `to`, and the rate used; null when a rate is missing
+  return async (amount: DecimalInput, from: string, to: string, date: string) => {
+    if (from === to) return { amount: decimal(amount).toMoney(to), rate: "1.000000" };
+    const [fromRate, toRate] = await Promise.all([usdRate(from, date), usdRate(to, date)]);
+    if (!fromRate || !toRate) return null;
+    const rate = crossRate(fromRate, toRate);
+    return { amount: decimal(amount).times(rate).toMoney(to), rate: rate.toRate() };
+  };
+}
+
+type Convert = ReturnType<typeof createConverter>;
+
+interface ConversionCheck {
+  key: string;
+  type: IntegrityIssueType;
+  contactId: number | null;
+  contactName: string | null;
+  recordType: IntegrityRecordType;
+  recordId: number;
+  // e.g. "USD conversion of 500.00 ILS"
+  subject: string;
+  currency: string;
+  amountField: string;
+  rateField?: string;
+  current: StoredRow;
+}
+
+async function checkConversion(
+  check: ConversionCheck,
+  converted: { amount: string; rate: string } | null
+): Promise<IntegrityIssue | null> {
+  if (!converted) return null;
+  const error = conversionError(stored(check.current, check.amountField), converted.amount);
+  if (!error) return null;
+
+  const expected: Record<string, string | null> = { [check.amountField]: converted.amount };
+  if (check.rateField) expected[check.rateField] = converted.rate;
+  const recorded = stored(check.current, check.amountField);
+  return {
+    key: check.key,
+    type: check.type,
+    severity: error.severity,
+    contactId: check.contactId,
+    contactName: check.contactName,
+    recordType: check.recordType,
+    recordId: check.recordId,
+    description: recorded
+      ? `${check.subject} is ${error.percent.toFixed(1)}% off: ${recorded} ${check.currency} recorded, ${converted.amount} ${check.currency} expected`
+      : `${check.subject} is missing; expected ${converted.amount} ${check.currency}`,
+    fix: { changes: changedFields(check.current, expected) },
+  };
+}
+
+// Active pledges whose stored paid/balance totals differ from their payments
+export async function checkPledgeTotals(): Promise<IntegrityIssue[]> {
+  const pledges = await db
+    .select({
+      id: pledge.id,
+      currency: pledge.currency,
+      totalPaid: pledge.totalPaid,
+      balance: pledge.balance,
+      totalPaidUsd: pledge.totalPaidUsd,
+      balanceUsd: pledge.balanceUsd,
+      contactId: pledge.contactId,
+      contactName: donorName,
+    })
+    .from(pledge)
+    .leftJoin(contact, eq(pledge.contactId, contact.id))
+    .where(eq(pledge.isActive, true));
+
+  const issues: IntegrityIssue[] = [];
+  for (const row of pledges) {
+    const expected = await computePledgeTotals(row.id);
+    const changes = changedFields(row, {
+      totalPaid: expected.totalPaid,
+      balance: expected.balance,
+      totalPaidUsd: expected.totalPaidUsd,
+      balanceUsd: expected.balanceUsd,
+    });
+    if (changes.length === 0) continue;
+
+    issues.push({
+      key: `pledge_totals_${row.id}`,
+      type: "pledge_balance",
+      severity: "critical",
+      contactId: row.contactId,
+      contactName: row.contactName,
+      recordType: "pledge",
+      recordId: row.id,
+      description: `Pledge totals do not match its payments: paid ${row.totalPaid} / balance ${row.balance} ${row.currency} recorded, paid ${expected.totalPaid} / balance ${expected.balance} ${row.currency} expected`,
+      fix: { changes },
+    });
+  }
+  return issues;
+}
+
+// Active payment plans whose stored paid/remaining totals differ from their payments
+export async function checkPaymentPlanTotals(): Promise<IntegrityIssue[]> {
+  const plans = await db
+    .select({
+      id: paymentPlan.id,
+      currency: paymentPlan.currency,
+      totalPaid: paymentPlan.totalPaid,
+      remainingAmount: paymentPlan.remainingAmount,
+      contactId: pledge.contactId,
+      contactName: donorName,
+    })
+    .from(paymentPlan)
+    .leftJoin(pledge, eq(paymentPlan.pledgeId, pledge.id))
+    .leftJoin(contact, eq(pledge.contactId, contact.id))
+    .where(eq(paymentPlan.isActive, true));
+
+  const issues: IntegrityIssue[] = [];
+  for (const row of plans) {
+    const expected = await computePaymentPlanTotals(row.id);
+    if (!expected) continue;
+    const changes = changedFields(row, { totalPaid: expected.totalPaid, remainingAmount: expected.remainingAmount });
+    if (changes.length === 0) continue;
+
+    issues.push({
+      key: `plan_totals_${row.id}`,
+      type: "payment_plan_amounts",
+      severity: "critical",
+      contactId: row.contactId,
+      contactName: row.contactName,
+      recordType: "payment_plan",
+      recordId: row.id,
+      description: `Plan totals do not match its payments: paid ${row.totalPaid} / remaining ${row.remainingAmount} ${row.currency} recorded, paid ${expected.totalPaid} / remaining ${expected.remainingAmount} ${row.currency} expected`,
+      fix: { changes },
+    });
+  }
+  return issues;
+}
+
+/**
+ * USD, pledge-currency and plan-currency amounts of payments, at the rate
+ * for the day each was received. Cancelled and failed payments are left
+ * alone. Third-party payments are reported under their own type.
+ */
+export async function checkPaymentConversions(convert: Convert): Promise<IntegrityIssue[]> {
+  const payments = await db
+    .select({
+      id: payment.id,
+      amount: payment.amount,
+      currency: payment.currency,
+      receivedDate: payment.receivedDate,
+      isThirdPartyPayment: payment.isThirdPartyPayment,
+      payerContactId: payment.payerContactId,
+      amountUsd: payment.amountUsd,
+      exchangeRate: payment.exchangeRate,
+      amountInPledgeCurrency: payment.amountInPledgeCurrency,
+      pledgeCurrencyExchangeRate: payment.pledgeCurrencyExchangeRate,
+      amountInPlanCurrency: payment.amountInPlanCurrency,
+      planCurrencyExchangeRate: payment.planCurrencyExchangeRate,
+      pledgeCurrency: pledge.currency,
+      planCurrency: paymentPlan.currency,
+      contactId: pledge.contactId,
+      contactName: donorName,
+    })
+    .from(payment)
+    .leftJoin(pledge, eq(payment.pledgeId, pledge.id))
+    .leftJoin(paymentPlan, eq(payment.paymentPlanId, paymentPlan.id))
+    .leftJoin(contact, eq(pledge.contactId, contact.id))
+    .where(and(ne(payment.paymentStatus, "cancelled"), ne(payment.paymentStatus, "failed")));
+
+  const issues: IntegrityIssue[] = [];
+  for (const row of payments) {
+    const date = conversionDate(row.receivedDate);
+    const base = {
+      contactId: row.contactId,
+      contactName: row.contactName,
+      recordType: "payment" as const,
+      recordId: row.id,
+      current: row,
+    };
+
+    if (row.currency !== "USD") {
+      // Payments store the rate as USD per unit of their own currency, which is what convert gives
+      const issue = await checkConversion(
+        {
+          ...base,
+          key: `payment_usd_conversion_${row.id}`,
+          type: row.isThirdPartyPayment ? "third_party_conversion" : "payment_conversion",
+          subject: `USD amount of ${row.amount} ${row.currency}`,
+          currency: "USD",
+          amountField: "amountUsd",
+          rateField: "exchangeRate",
+        },
+        await convert(row.amount, row.currency, "USD", date)
+      );
+      if (issue) issues.push(issue);
+    }
+
+    if (row.pledgeCurrency) {
+      const issue = await checkConversion(
+        {
+          ...base,
+          key: `payment_pledge_conversion_${row.id}`,
+          type: "payment_conversion",
+          subject: `Pledge-currency amount of ${row.amount} ${row.currency}`,
+          currency: row.pledgeCurrency,
+          amountField: "amountInPledgeCurrency",
+          rateField: "pledgeCurrencyExchangeRate",
+        },
+        await convert(row.amount, row.currency, row.pledgeCurrency, date)
+      );
+      if (issue) issues.push(issue);
+    }
+
+    if (row.planCurrency) {
+      const issue = await checkConversion(
+        {
+          ...base,
+          key: `payment_plan_conversion_${row.id}`,
+          type: "payment_conversion",
+          subject: `Plan-currency amount of ${row.amount} ${row.currency}`,
+          currency: row.planCurrency,
+          amountField: "amountInPlanCurrency",
+          rateField: "planCurrencyExchangeRate",
+        },
+        await convert(row.amount, row.currency, row.planCurrency, date)
+      );
+      if (issue) issues.push(issue);
+    }
+  }
+  return issues;
+}
+
+// USD amounts of non-USD payment plans, at today's rate
+export async function checkPaymentPlanConversions(convert: Convert): Promise<IntegrityIssue[]> {
+  const plans = await db
+    .select({
+      id: paymentPlan.id,
+      currency: paymentPlan.currency,
+      totalPlannedAmount: paymentPlan.totalPlannedAmount,
+      totalPlannedAmountUsd: paymentPlan.totalPlannedAmountUsd,
+      installmentAmount: paymentPlan.installmentAmount,
+      installmentAmountUsd: paymentPlan.installmentAmountUsd,
+      remainingAmount: paymentPlan.remainingAmount,
+      remainingAmountUsd: paymentPlan.remainingAmountUsd,
+      exchangeRate: paymentPlan.exchangeRate,
+      contactId: pledge.contactId,
+      contactName: donorName,
+    })
+    .from(paymentPlan)
+    .leftJoin(pledge, eq(paymentPlan.pledgeId, pledge.id))
+    .leftJoin(contact, eq(pledge.contactId, contact.id))
+    .where(ne(paymentPlan.currency, "USD"));
+
+  const issues: IntegrityIssue[] = [];
+  const date = today();
+  const fields = [
+    { name: "total", amount: "totalPlannedAmount", usd: "totalPlannedAmountUsd", label: "total planned" },
+    { name: "installment", amount: "installmentAmount", usd: "installmentAmountUsd", label: "installment" },
+    { name: "remaining", amount: "remainingAmount", usd: "remainingAmountUsd", label: "remaining" },
+  ] as const;
+
+  for (const row of plans) {
+    for (const field of fields) {
+      const amount = row[field.amount];
+      const issue = await checkConversion(
+        {
+          key: `plan_${field.name}_usd_conversion_${row.id}`,
+          type: "plan_conversion",
+          contactId: row.contactId,
+          contactName: row.contactName,
+          recordType: "payment_plan",
+          recordId: row.id,
+          subject: `USD ${field.label} amount of ${amount} ${row.currency}`,
+          currency: "USD",
+          amountField: field.usd,
+          // Plans keep one rate, set with the total
+          rateField: field.name === "total" ? "exchangeRate" : undefined,
+          current: row,
+        },
+        await convert(amount, row.currency, "USD", date)
+      );
+      if (issue) issues.push(issue);
+    }
+  }
+  return issues;
+}
+
+// USD amounts of non-USD installments, at today's rate
+export async function checkInstallmentConversions(convert: Convert): Promise<IntegrityIssue[]> {
+  const installments = await db
+    .select({
+      id: installmentSchedule.id,
+      installmentAmount: installmentSchedule.installmentAmount,
+      installmentAmountUsd: installmentSchedule.installmentAmountUsd,
+      currency: installmentSchedule.currency,
+      contactId: pledge.contactId,
+      contactName: donorName,
+    })
+    .from(installmentSchedule)
+    .innerJoin(paymentPlan, eq(installmentSchedule.paymentPlanId, paymentPlan.id))
+    .leftJoin(pledge, eq(paymentPlan.pledgeId, pledge.id))
+    .leftJoin(contact, eq(pledge.contactId, contact.id))
+    .where(ne(installmentSchedule.currency, "USD"));
+
+  const issues: IntegrityIssue[] = [];
+  const date = today();
+  for (const row of installments) {
+    const issue = await checkConversion(
+      {
+        key: `installment_usd_conversion_${row.id}`,
+        type: "installment_conversion",
+        contactId: row.contactId,
+        contactName: row.contactName,
+        recordType: "installment_schedule",
+        recordId: row.id,
+        subject: `USD amount of the ${row.installmentAmount} ${row.currency} installment`,
+        currency: "USD",
+        amountField: "installmentAmountUsd",
+        current: row,
+      },
+      await convert(row.installmentAmount, row.currency, "USD", date)
+    );
+    if (issue) issues.push(issue);
+  }
+  return issues;
+}
+
+// USD and pledge-currency amounts of split payment allocations
+export async function checkAllocationConversions(convert: Convert): Promise<IntegrityIssue[]> {
+  const allocations = await db
+    .select({
+      id: paymentAllocations.id,
+      allocatedAmount: paymentAllocations.allocatedAmount,
+      currency: paymentAllocations.currency,
+      allocatedAmountUsd: paymentAllocations.allocatedAmountUsd,
+      allocatedAmountInPledgeCurrency: paymentAllocations.allocatedAmountInPledgeCurrency,
+      receivedDate: payment.receivedDate,
+      pledgeCurrency: pledge.currency,
+      contactId: pledge.contactId,
+      contactName: donorName,
+    })
+    .from(paymentAllocations)
+    .innerJoin(payment, eq(paymentAllocations.paymentId, payment.id))
+    .innerJoin(pledge, eq(paymentAllocations.pledgeId, pledge.id))
+    .leftJoin(contact, eq(pledge.contactId, contact.id))
+    .where(and(ne(payment.paymentStatus, "cancelled"), ne(payment.paymentStatus, "failed")));
+
+  const issues: IntegrityIssue[] = [];
+  for (const row of allocations) {
+    const date = conversionDate(row.receivedDate);
+    const base = {
+      type: "allocation_conversion" as const,
+      contactId: row.contactId,
+      contactName: row.contactName,
+      recordType: "payment_allocation" as const,
+      recordId: row.id,
+      current: row,
+    };
+
+    if (row.currency !== "USD") {
+      const issue = await checkConversion(
+        {
+          ...base,
+          key: `allocation_usd_conversion_${row.id}`,
+          subject: `USD amount of the ${row.allocatedAmount} ${row.currency} allocation`,
+          currency: "USD",
+          amountField: "allocatedAmountUsd",
+        },
+        await convert(row.allocatedAmount, row.currency, "USD", date)
+      );
+      if (issue) issues.push(issue);
+    }
+
+    if (row.currency !== row.pledgeCurrency) {
+      const issue = await checkConversion(
+        {
+          ...base,
+          key: `allocation_pledge_conversion_${row.id}`,
+          subject: `Pledge-currency amount of the ${row.allocatedAmount} ${row.currency} allocation`,
+          currency: row.pledgeCurrency,
+          amountField: "allocatedAmountInPledgeCurrency",
+        },
+        await convert(row.allocatedAmount, row.currency, row.pledgeCurrency, date)
+      );
+      if (issue) issues.push(issue);
+    }
+  }
+  return issues;
+}
+
+/**
+ * Completed split payments whose allocations do not add up to the payment.
+ * Which allocation is wrong is not something a check can tell, so these
+ * come without a fix.
+ */
+export async function checkAllocationTotals(): Promise<IntegrityIssue[]> {
+  const payments = await db
+    .select({
+      id: payment.id,
+      amount: payment.amount,
+      currency: payment.currency,
+      allocated: sql<string>`COALESCE((
+        SELECT SUM(${paymentAllocations.allocatedAmount}) FROM ${paymentAllocations}
+        WHERE ${paymentAllocations.paymentId} = ${payment.id}
+      ), 0)`,
+      allocationCount: sql<number>`(
+        SELECT COUNT(*)::int FROM ${paymentAllocations} WHERE ${paymentAllocations.paymentId} = ${payment.id}
+      )`,
+      contactId: payment.payerContactId,
+      contactName: donorName,
+    })
+    .from(payment)
+    .leftJoin(contact, eq(payment.payerContactId, contact.id))
+    .where(
+      and(
+        eq(payment.paymentStatus, "completed"),
+        exists(db.select({ id: paymentAllocations.id }).from(paymentAllocations).where(eq(paymentAllocations.paymentId, payment.id)))
+      )
+    );
+
+  return payments
+    .filter((row) => !sameAmount(row.allocated, row.amount))
+    .map((row) => ({
+      key: `allocation_total_${row.id}`,
+      type: "allocation_total" as const,
+      severity: "critical" as const,
+      contactId: row.contactId,
+      contactName: row.contactName,
+      recordType: "payment" as const,
+      recordId: row.id,
+      description: `Split payment of ${row.amount} ${row.currency} has ${row.allocationCount} allocations totalling ${decimal(row.allocated).toMoney(row.currency)} ${row.currency}`,
+      fix: null,
+    }));
+}
+
+// Every check, in the order the results are listed
+export async function runIntegrityChecks(): Promise<IntegrityIssue[]> {
+  const convert = createConverter();
+  const issues: IntegrityIssue[] = [];
+  issues.push(...(await checkPledgeTotals()));
+  issues.push(...(await checkPaymentPlanTotals()));
+  issues.push(...(await checkPaymentConversions(convert)));
+  issues.push(...(await checkPaymentPlanConversions(convert)));
+  issues.push(...(await checkInstallmentConversions(convert)));
+  issues.push(...(await checkAllocationConversions(convert)));
+  issues.push(...(await checkAllocationTotals()));
+  return issues;
+}
+
+// Records the fix for each record type may write, by Drizzle field name
+export const FIXABLE_FIELDS: Record<IntegrityRecordType, readonly string[]> = {
+  pledge: ["totalPaid", "balance", "totalPaidUsd", "balanceUsd"],
+  payment_plan: ["totalPaid", "remainingAmount", "totalPlannedAmountUsd", "installmentAmountUsd", "remainingAmountUsd", "exchangeRate"],
+  payment: [
+    "amountUsd",
+    "exchangeRate",
+    "amountInPledgeCurrency",
+    "pledgeCurrencyExchangeRate",
+    "amountInPlanCurrency",
+    "planCurrencyExchangeRate",
+  ],
+  installment_schedule: ["installmentAmountUsd"],
+  payment_allocation: ["allocatedAmountUsd", "allocatedAmountInPledgeCurrency"],
+};
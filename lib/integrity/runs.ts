@@ -0,0 +1,288 @@
+import { and, desc, eq, ne } from "drizzle-orm";
+import { db, withTransaction, type Transaction } from "@/lib/db";
+import {
+  installmentSchedule,
+  integrityIssue,
+  integrityRun,
+  payment,
+  paymentAllocations,
+  paymentPlan,
+  pledge,
+  user,
+  type IntegrityIssueRecord,
+  type IntegrityRun,
+} from "@/lib/db/schema";
+import { getEmailTransport, type EmailTransport } from "@/lib/email/transport";
+import { updatePaymentPlanTotals, updatePledgeTotals } from "@/lib/payment-totals";
+import { FIXABLE_FIELDS, runIntegrityChecks, type IntegrityIssue, type IntegrityRecordType } from "./checks";
+import { DomainError } from "@/lib/error-handler";
+
+export class IntegrityError extends DomainError {
+  constructor(message: string, statusCode: 400 | 404 | 409) {
+    super(message, statusCode);
+    this.name = "IntegrityError";
+  }
+}
+
+// A run still marked running after this long died without finishing
+const STALE_RUN_MS = 60 * 60 * 1000;
+
+export interface IntegrityRunOptions {
+  trigger: "manual" | "scheduled";
+  startedBy?: number | null;
+  // Replaces the configured transport for the alert, e.g. in scripts
+  transport?: EmailTransport;
+}
+
+function summarize(issues: IntegrityIssue[]) {
+  return {
+    totalIssues: issues.length,
+    criticalIssues: issues.filter((issue) => issue.severity === "critical").length,
+    warningIssues: issues.filter((issue) => issue.severity === "warning").length,
+    affectedContacts: new Set(issues.map((issue) => issue.contactId).filter((id) => id !== null)).size,
+  };
+}
+
+// Critical issue keys the last completed run before `runId` found
+async function previousCriticalKeys(runId: number): Promise<Set<string>> {
+  const [previous] = await db
+    .select({ id: integrityRun.id })
+    .from(integrityRun)
+    .where(and(eq(integrityRun.status, "completed"), ne(integrityRun.id, runId)))
+    .orderBy(desc(integrityRun.startedAt))
+    .limit(1);
+  if (!previous) return new Set();
+
+  const rows = await db
+    .select({ issueKey: integrityIssue.issueKey })
+    .from(integrityIssue)
+    .where(and(eq(integrityIssue.runId, previous.id), eq(integrityIssue.severity, "critical")));
+  return new Set(rows.map((row) => row.issueKey));
+}
+
+// INTEGRITY_ALERT_EMAIL when set (comma-separated), otherwise every active super admin
+async function alertRecipients(): Promise<string[]> {
+  const configured = process.env.INTEGRITY_ALERT_EMAIL?.split(",")
+    .map((email) => email.trim())
+    .filter(Boolean);
+  if (configured?.length) return configured;
+
+  const admins = await db
+    .select({ email: user.email })
+    .from(user)
+    .where(and(eq(user.role, "super_admin"), eq(user.isActive, true), eq(user.status, "active")));
+  return admins.map((admin) => admin.email);
+}
+
+async function sendAlert(run: IntegrityRun, issues: IntegrityIssue[], transport: EmailTransport): Promise<boolean> {
+  const recipients = await alertRecipients();
+  if (recipients.length === 0) return false;
+
+  const listed = issues.slice(0, 20).map((issue) => `- ${issue.contactName ?? "No contact"}: ${issue.description}`);
+  const more = issues.length > listed.length ? [`…and ${issues.length - listed.length} more`] : [];
+  const text = [
+    `The nightly data integrity check (run #${run.id}) found ${issues.length} new critical issue${issues.length === 1 ? "" : "s"}:`,
+    "",
+    ...listed,
+    ...more,
+    "",
+    "Review and fix them on the Data Integrity page.",
+  ].join("\n");
+
+  for (const to of recipients) {
+    await transport.send({ to, subject: `Data integrity: ${issues.length} new critical issue(s)`, text });
+  }
+  return true;
+}
+
+/**
+ * Runs every check and records the results as a new run. Only one run
+ * goes at a time. Scheduled runs email an alert when they find critical
+ * issues the previous run did not have; manual runs are being watched.
+ */
+export async function startIntegrityRun(options: IntegrityRunOptions): Promise<IntegrityRun> {
+  const [running] = await db
+    .select({ id: integrityRun.id, startedAt: integrityRun.startedAt })
+    .from(integrityRun)
+    .where(eq(integrityRun.status, "running"))
+    .orderBy(desc(integrityRun.startedAt))
+    .limit(1);
+  if (running && Date.now() - running.startedAt.getTime() < STALE_RUN_MS) {
+    throw new IntegrityError(`Integrity check #${running.id} is still running`, 409);
+  }
+
+  const [run] = await db
+    .insert(integrityRun)
+    .values({ trigger: options.trigger, startedBy: options.startedBy ?? null })
+    .returning();
+
+  try {
+    const issues = await runIntegrityChecks();
+    if (issues.length > 0) {
+      await db.insert(integrityIssue).values(
+        issues.map((issue) => ({
+          runId: run.id,
+          issueKey: issue.key,
+          type: issue.type,
+          severity: issue.severity,
+          contactId: issue.contactId,
+          contactName: issue.contactName,
+          recordType: issue.recordType,
+          recordId: issue.recordId,
+          description: issue.description,
+          fix: issue.fix,
+        }))
+      );
+    }
+
+    const knownCritical = await previousCriticalKeys(run.id);
+    const newCritical = issues.filter((issue) => issue.severity === "critical" && !knownCritical.has(issue.key));
+
+    const [completed] = await db
+      .update(integrityRun)
+      .set({
+        ...summarize(issues),
+        newCriticalIssues: newCritical.length,
+        status: "completed",
+        finishedAt: new Date(),
+      })
+      .where(eq(integrityRun.id, run.id))
+      .returning();
+
+    if (options.trigger !== "scheduled" || newCritical.length === 0) return completed;
+
+    // A failed alert should not turn a finished run into a failed one
+    try {
+      const sent = await sendAlert(completed, newCritical, options.transport ?? getEmailTransport());
+      if (!sent) return completed;
+      const [alerted] = await db
+        .update(integrityRun)
+        .set({ alertedAt: new Date() })
+        .where(eq(integrityRun.id, run.id))
+        .returning();
+      return alerted;
+    } catch (error) {
+      console.error("Failed to send integrity alert:", error);
+      return completed;
+    }
+  } catch (error) {
+    await db
+      .update(integrityRun)
+      .set({
+        status: "failed",
+        finishedAt: new Date(),
+        error: error instanceof Error ? error.message : String(error),
+      })
+      .where(eq(integrityRun.id, run.id));
+    throw error;
+  }
+}
+
+export async function listIntegrityRuns(limit = 30): Promise<IntegrityRun[]> {
+  return db.select().from(integrityRun).orderBy(desc(integrityRun.startedAt)).limit(limit);
+}
+
+export async function getIntegrityRun(
+  runId: number
+): Promise<{ run: IntegrityRun; issues: IntegrityIssueRecord[] }> {
+  const [run] = await db.select().from(integrityRun).where(eq(integrityRun.id, runId)).limit(1);
+  if (!run) throw new IntegrityError("Integrity run not found", 404);
+
+  const issues = await db
+    .select()
+    .from(integrityIssue)
+    .where(eq(integrityIssue.runId, runId))
+    .orderBy(integrityIssue.severity, integrityIssue.type, integrityIssue.id);
+  return { run, issues };
+}
+
+const RECORD_TABLES = {
+  pledge,
+  payment_plan: paymentPlan,
+  payment,
+  installment_schedule: installmentSchedule,
+  payment_allocation: paymentAllocations,
+} as const;
+
+// Totals that depend on the amounts a fix just rewrote
+async function refreshTotals(tx: Transaction, recordType: IntegrityRecordType, recordId: number): Promise<void> {
+  if (recordType === "payment") {
+    const [row] = await tx
+      .select({ pledgeId: payment.pledgeId, paymentPlanId: payment.paymentPlanId })
+      .from(payment)
+      .where(eq(payment.id, recordId));
+    if (row?.pledgeId) await updatePledgeTotals(row.pledgeId, tx);
+    if (row?.paymentPlanId) await updatePaymentPlanTotals(row.paymentPlanId, tx);
+  } else if (recordType === "payment_allocation") {
+    const [row] = await tx
+      .select({ pledgeId: paymentAllocations.pledgeId })
+      .from(paymentAllocations)
+      .where(eq(paymentAllocations.id, recordId));
+    if (row) await updatePledgeTotals(row.pledgeId, tx);
+  }
+}
+
+/**
+ * Applies the fix an issue proposes. The record must still hold the values
+ * the check saw; anything else means it was edited since, and the issue
+ * is left for the next run to look at again.
+ */
+export async function applyIssueFix(issueId: number, userId: number | null): Promise<IntegrityIssueRecord> {
+  const [issue] = await db.select().from(integrityIssue).where(eq(integrityIssue.id, issueId)).limit(1);
+  if (!issue) throw new IntegrityError("Integrity issue not found", 404);
+  if (issue.status === "fixed") throw new IntegrityError("This issue has already been fixed", 409);
+  if (!issue.fix || issue.fix.changes.length === 0) {
+    throw new IntegrityError("This issue has no automatic fix; correct the records by hand", 400);
+  }
+
+  const recordType = issue.recordType as IntegrityRecordType;
+  const table = RECORD_TABLES[recordType];
+  const allowed = FIXABLE_FIELDS[recordType];
+  const disallowed = issue.fix.changes.find((change) => !allowed?.includes(change.field));
+  if (!table || disallowed) {
+    throw new IntegrityError(`The fix changes a field it may not: ${disallowed?.field ?? issue.recordType}`, 400);
+  }
+
+  try {
+    await withTransaction(async (tx) => {
+      const [record] = await tx.select().from(table).where(eq(table.id, issue.recordId)).for("update").limit(1);
+      if (!record) throw new IntegrityError("The record this issue is about no longer exists", 409);
+
+      const current = record as Record<string, unknown>;
+      const changed = issue.fix!.changes.find((change) => (current[change.field] ?? null) !== change.from);
+      if (changed) {
+        throw new IntegrityError(
+          `The ${fieldLabel(changed.field)} changed since the check ran; run the check again before fixing`,
+          409
+        );
+      }
+
+      const values = Object.fromEntries(issue.fix!.changes.map((change) => [change.field, change.to]));
+      await tx
+        .update(table)
+        .set({ ...values, updatedAt: new Date() })
+        .where(eq(table.id, issue.recordId));
+      await refreshTotals(tx, recordType, issue.recordId);
+    });
+  } catch (error) {
+    // Stale records are expected; anything else is recorded against the issue
+    if (error instanceof IntegrityError) throw error;
+    await db
+      .update(integrityIssue)
+      .set({ status: "failed", fixError: error instanceof Error ? error.message : String(error) })
+      .where(eq(integrityIssue.id, issueId));
+    throw error;
+  }
+
+  const [fixed] = await db
+    .update(integrityIssue)
+    .set({ status: "fixed", fixedBy: userId, fixedAt: new Date(), fixError: null })
+    .where(eq(integrityIssue.id, issueId))
+    .returning();
+  return fixed;
+}
+
+// "amountInPledgeCurrency" -> "amount in pledge currency"
+function fieldLabel(field: string): string {
+  return field.replace(/([A-Z])/g, " $1").toLowerCase();
+}
@@ -0,0 +1,159 @@
+import { addDays, format, parseISO } from "date-fns";
+import { and, eq, sql, type SQL } from "drizzle-orm";
+import { db, type DbClient } from "@/lib/db";
+import { contact, memorial, type Memorial } from "@/lib/db/schema";
+import type { DedicationType } from "@/lib/form-schemas/memorial";
+import { toHebrewDate, yahrzeitDate, type HebrewDateParts } from "@/lib/hebrew-date";
+import { DomainError } from "@/lib/error-handler";
+
+export class MemorialError extends DomainError {
+  constructor(message: string, statusCode: 400 | 404 | 409) {
+    super(message, statusCode);
+    this.name = "MemorialError";
+  }
+}
+
+export const DEDICATION_LABELS: Record<DedicationType, string> = {
+  in_honor_of: "In honor of",
+  in_memory_of: "In memory of",
+};
+
+// The line printed on receipts, e.g. "In memory of Sarah bat Avraham"
+export function formatDedication(type: DedicationType | null, name: string | null): string | null {
+  if (!type || !name) return null;
+  return `${DEDICATION_LABELS[type]} ${name}`;
+}
+
+/**
+ * Hebrew date of a passing. The Hebrew day starts at nightfall, so a passing
+ * after sunset falls on the next day's Hebrew date.
+ */
+export function hebrewDateOfPassing(dateOfPassing: string, afterSunset: boolean): HebrewDateParts {
+  const date = afterSunset ? format(addDays(parseISO(dateOfPassing), 1), "yyyy-MM-dd") : dateOfPassing;
+  const parts = toHebrewDate(date);
+  if (!parts) throw new MemorialError("Invalid date of passing", 400);
+  return parts;
+}
+
+type MemorialDate = Pick<Memorial, "hebrewDay" | "hebrewMonth" | "hebrewYear">;
+
+const passingOf = (row: MemorialDate): HebrewDateParts => ({
+  day: row.hebrewDay,
+  month: row.hebrewMonth,
+  year: row.hebrewYear,
+});
+
+export function memorialYahrzeit(row: MemorialDate, hebrewYear: number): string | null {
+  return yahrzeitDate(passingOf(row), hebrewYear);
+}
+
+// First yahrzeit on or after `from` (YYYY-MM-DD), with the Hebrew year it falls in
+export function nextYahrzeit(row: MemorialDate, from: string): { hebrewYear: number; date: string } {
+  const { year } = toHebrewDate(from)!;
+  for (let hebrewYear = Math.max(year, row.hebrewYear + 1); ; hebrewYear++) {
+    const date = memorialYahrzeit(row, hebrewYear);
+    if (date && date >= from) return { hebrewYear, date };
+  }
+}
+
+export interface DedicationInput {
+  dedicationType?: DedicationType | null;
+  dedicationName?: string | null;
+  memorialId?: number | null;
+}
+
+export interface DedicationValues {
+  dedicationType: DedicationType | null;
+  dedicationName: string | null;
+  memorialId: number | null;
+}
+
+/**
+ * Normalizes a dedication before it is stored. Linking a memorial fills in
+ * "in memory of" and the deceased's name unless they were given; otherwise
+ * a dedication type needs a name. Returns only the fields that were sent, so
+ * updates leave the others alone.
+ */
+export async function resolveDedication(
+  input: DedicationInput,
+  client: DbClient = db
+): Promise<Partial<DedicationValues>> {
+  const values: Partial<DedicationValues> = {};
+  if (input.dedicationType !== undefined) values.dedicationType = input.dedicationType;
+  if (input.dedicationName !== undefined) values.dedicationName = input.dedicationName || null;
+  if (input.memorialId !== undefined) values.memorialId = input.memorialId;
+
+  if (input.memorialId) {
+    const [linked] = await client
+      .select({ deceasedName: memorial.deceasedName })
+      .from(memorial)
+      .where(eq(memorial.id, input.memorialId))
+      .limit(1);
+    if (!linked) throw new MemorialError("Memorial not found", 400);
+    values.dedicationType = input.dedicationType ?? "in_memory_of";
+    values.dedicationName = input.dedicationName || linked.deceasedName;
+  }
+
+  if (values.dedicationType === null) {
+    values.dedicationName = null;
+    values.memorialId = null;
+  } else if (values.dedicationType && !values.dedicationName) {
+    throw new MemorialError("A dedication needs the name of the person it honors", 400);
+  }
+  return values;
+}
+
+export interface YahrzeitListEntry {
+  memorialId: number;
+  deceasedName: string;
+  deceasedHebrewName: string | null;
+  relationship: string | null;
+  hebrewDay: number;
+  hebrewMonth: number;
+  yahrzeitDate: string;
+  contactId: number;
+  contactName: string;
+  email: string | null;
+  phone: string | null;
+  remindersEnabled: boolean;
+}
+
+/**
+ * Every active memorial's yahrzeit in one Hebrew year, in date order.
+ * Memorials whose passing is in that year or later have none yet.
+ */
+export async function listYahrzeits(options: {
+  hebrewYear: number;
+  locationCondition?: SQL;
+  contactId?: number;
+}): Promise<YahrzeitListEntry[]> {
+  const conditions: SQL[] = [eq(memorial.isActive, true)];
+  if (options.locationCondition) conditions.push(options.locationCondition);
+  if (options.contactId) conditions.push(eq(memorial.contactId, options.contactId));
+
+  const rows = await db
+    .select({
+      memorialId: memorial.id,
+      deceasedName: memorial.deceasedName,
+      deceasedHebrewName: memorial.deceasedHebrewName,
+      relationship: memorial.relationship,
+      hebrewDay: memorial.hebrewDay,
+      hebrewMonth: memorial.hebrewMonth,
+      hebrewYear: memorial.hebrewYear,
+      remindersEnabled: memorial.remindersEnabled,
+      contactId: contact.id,
+      contactName: sql<string>`TRIM(CONCAT(${contact.firstName}, ' ', ${contact.lastName}))`,
+      email: contact.email,
+      phone: contact.phone,
+    })
+    .from(memorial)
+    .innerJoin(contact, eq(memorial.contactId, contact.id))
+    .where(and(...conditions));
+
+  const entries: YahrzeitListEntry[] = [];
+  for (const { hebrewYear, ...row } of rows) {
+    const date = yahrzeitDate({ day: row.hebrewDay, month: row.hebrewMonth, year: hebrewYear }, options.hebrewYear);
+    if (date) entries.push({ ...row, yahrzeitDate: date });
+  }
+  return entries.sort((a, b) => a.yahrzeitDate.localeCompare(b.yahrzeitDate) || a.memorialId - b.memorialId);
+}
@@ -0,0 +1,209 @@
+// Exact decimal arithmetic for money and exchange rates. Amounts and rates
+// come out of Postgres numeric columns as strings; doing the sums in floats
+// (0.1 + 0.2, or 1234 JPY / 149.438616) leaves cents that do not add up,
+// so conversions and totals go through here instead of parseFloat.
+
+// Digits kept while calculating; results are rounded once at the end
+const WORKING_SCALE = 18;
+// The build targets ES2017, which has BigInt but not its literals
+const ZERO = BigInt(0);
+const ONE = BigInt(1);
+const TWO = BigInt(2);
+const TEN = BigInt(10);
+const WORKING_FACTOR = TEN ** BigInt(WORKING_SCALE);
+
+// Exchange rates are stored with six decimals everywhere
+export const RATE_SCALE = 6;
+
+// Minor units set in the currency table, registered when it is loaded
+const MINOR_UNITS = new Map<string, number>();
+// What the runtime knows of ISO 4217, for codes not registered yet
+const ISO_MINOR_UNITS = new Map<string, number>();
+
+export function registerMinorUnits(units: Record<string, number>): void {
+  for (const [currency, places] of Object.entries(units)) MINOR_UNITS.set(currency, places);
+}
+
+/**
+ * Decimal places an amount in `currency` is rounded to: the currency
+ * table's setting, else the ISO 4217 default, else two.
+ */
+export function minorUnits(currency: string): number {
+  const configured = MINOR_UNITS.get(currency);
+  if (configured !== undefined) return configured;
+
+  if (!ISO_MINOR_UNITS.has(currency)) {
+    let places = 2;
+    try {
+      places = new Intl.NumberFormat("en-US", { style: "currency", currency }).resolvedOptions().maximumFractionDigits ?? 2;
+    } catch {
+      // Not a well-formed code; amounts in it still round to cents
+    }
+    ISO_MINOR_UNITS.set(currency, places);
+  }
+  return ISO_MINOR_UNITS.get(currency)!;
+}
+
+export type DecimalInput = Decimal | string | number;
+
+// Divides rounding half away from zero, as Postgres ROUND does
+function divideRounded(numerator: bigint, denominator: bigint): bigint {
+  const negative = numerator < ZERO !== denominator < ZERO;
+  const n = numerator < ZERO ? -numerator : numerator;
+  const d = denominator < ZERO ? -denominator : denominator;
+  const quotient = (n * TWO + d) / (d * TWO);
+  return negative ? -quotient : quotient;
+}
+
+function parseUnits(value: string | number): bigint {
+  let text = typeof value === "number" ? String(value) : value.trim();
+  if (typeof value === "number") {
+    if (!Number.isFinite(value)) throw new RangeError(`Not a finite amount: ${value}`);
+    // Exponent forms such as 1e-7 or 1.5e21
+    if (/e/i.test(text)) text = value.toFixed(WORKING_SCALE);
+  }
+  const match = /^([+-])?(\d*)(?:\.(\d*))?$/.exec(text);
+  if (!match || (!match[2] && !match[3])) throw new RangeError(`Not a decimal amount: "${value}"`);
+
+  const fraction = match[3] ?? "";
+  const kept = fraction.slice(0, WORKING_SCALE).padEnd(WORKING_SCALE, "0");
+  let units = BigInt(match[2] || "0") * WORKING_FACTOR + BigInt(kept);
+  // Digits past the working scale only matter for rounding the last kept one
+  if (fraction.length > WORKING_SCALE && fraction[WORKING_SCALE] >= "5") units += ONE;
+  return match[1] === "-" ? -units : units;
+}
+
+/**
+ * An immutable decimal with 18 places of working precision. Build one with
+ * `decimal(...)`, chain the arithmetic, and round with `toFixed`, `toMoney`
+ * or `toRate` when storing.
+ */
+export class Decimal {
+  private constructor(private readonly units: bigint) {}
+
+  static from(value: DecimalInput): Decimal {
+    return value instanceof Decimal ? value : new Decimal(parseUnits(value));
+  }
+
+  static zero(): Decimal {
+    return new Decimal(ZERO);
+  }
+
+  plus(other: DecimalInput): Decimal {
+    return new Decimal(this.units + Decimal.from(other).units);
+  }
+
+  minus(other: DecimalInput): Decimal {
+    return new Decimal(this.units - Decimal.from(other).units);
+  }
+
+  times(other: DecimalInput): Decimal {
+    return new Decimal(divideRounded(this.units * Decimal.from(other).units, WORKING_FACTOR));
+  }
+
+  dividedBy(other: DecimalInput): Decimal {
+    const divisor = Decimal.from(other).units;
+    if (divisor === ZERO) throw new RangeError("Division by zero");
+    return new Decimal(divideRounded(this.units * WORKING_FACTOR, divisor));
+  }
+
+  isZero(): boolean {
+    return this.units === ZERO;
+  }
+
+  isPositive(): boolean {
+    return this.units > ZERO;
+  }
+
+  isNegative(): boolean {
+    return this.units < ZERO;
+  }
+
+  compare(other: DecimalInput): -1 | 0 | 1 {
+    const difference = this.units - Decimal.from(other).units;
+    return difference === ZERO ? 0 : difference < ZERO ? -1 : 1;
+  }
+
+  abs(): Decimal {
+    return this.units < ZERO ? new Decimal(-this.units) : this;
+  }
+
+  // Negative values become zero, as balances are never below it
+  clampToZero(): Decimal {
+    return this.units < ZERO ? Decimal.zero() : this;
+  }
+
+  round(places: number): Decimal {
+    const step = TEN ** BigInt(WORKING_SCALE - places);
+    return new Decimal(divideRounded(this.units, step) * step);
+  }
+
+  // Rounded toward zero, for shares whose remainder goes to another part
+  truncate(places: number): Decimal {
+    const step = TEN ** BigInt(WORKING_SCALE - places);
+    return new Decimal((this.units / step) * step);
+  }
+
+  toFixed(places: number): string {
+    const rounded = this.round(places).units;
+    const negative = rounded < ZERO;
+    const digits = (negative ? -rounded : rounded).toString().padStart(WORKING_SCALE + 1, "0");
+    const whole = digits.slice(0, digits.length - WORKING_SCALE);
+    const fraction = digits.slice(digits.length - WORKING_SCALE, digits.length - WORKING_SCALE + places);
+    const text = places > 0 ? `${whole}.${fraction}` : whole;
+    return negative && /[1-9]/.test(text) ? `-${text}` : text;
+  }
+
+  // Rounded to the currency's minor units, ready for a numeric column
+  toMoney(currency: string): string {
+    return this.toFixed(minorUnits(currency));
+  }
+
+  toRate(): string {
+    return this.toFixed(RATE_SCALE);
+  }
+
+  // For display and charts only; never feed the result back into sums
+  toNumber(): number {
+    return Number(this.toFixed(WORKING_SCALE));
+  }
+}
+
+export const decimal = (value: DecimalInput) => Decimal.from(value);
+
+export function roundMoney(amount: DecimalInput, currency: string): string {
+  return decimal(amount).toMoney(currency);
+}
+
+export function formatRate(rate: DecimalInput): string {
+  return decimal(rate).toRate();
+}
+
+export function sumMoney(amounts: DecimalInput[], currency: string): string {
+  return amounts.reduce<Decimal>((sum, amount) => sum.plus(amount), Decimal.zero()).toMoney(currency);
+}
+
+/**
+ * Rate from one currency to another given both as units per USD, which is
+ * how every stored rate is quoted.
+ */
+export function crossRate(usdToFrom: DecimalInput, usdToTo: DecimalInput): Decimal {
+  return decimal(usdToTo).dividedBy(usdToFrom);
+}
+
+// `amount` times `rate`, rounded to the minor units of the currency it lands in
+export function convertAmount(amount: DecimalInput, rate: DecimalInput, toCurrency: string): string {
+  return decimal(amount).times(rate).toMoney(toCurrency);
+}
+
+// The part of `amount` that `part` is of `whole`, e.g. a refund's USD share
+export function proportionOf(
+  amount: DecimalInput,
+  part: DecimalInput,
+  whole: DecimalInput,
+  currency: string
+): string {
+  const base = decimal(whole);
+  if (base.isZero()) return decimal(0).toMoney(currency);
+  return decimal(amount).times(part).dividedBy(base).toMoney(currency);
+}
@@ -0,0 +1,151 @@
+import { inArray } from "drizzle-orm";
+import { NextResponse } from "next/server";
+import { db, withTransaction } from "@/lib/db";
+import { payment, paymentAllocations, pledge } from "@/lib/db/schema";
+import { roundMoney } from "@/lib/money";
+import { convertPaymentAmounts, updatePledgeTotals } from "@/lib/payment-totals";
+import type { PaymentEntryRow } from "@/lib/form-schemas/payment-entry";
+import { listCurrencies } from "@/lib/currencies/currencies";
+import { DomainError } from "@/lib/error-handler";
+
+export interface RowError {
+  // Zero-based index into the submitted rows
+  row: number;
+  field: string;
+  message: string;
+}
+
+export class PaymentEntryError extends DomainError {
+  constructor(message: string, statusCode: 400 | 404 | 409, public readonly rowErrors: RowError[] = []) {
+    super(message, statusCode);
+    this.name = "PaymentEntryError";
+  }
+
+  toResponse(): NextResponse {
+    return NextResponse.json({ error: this.message, rowErrors: this.rowErrors }, { status: this.statusCode });
+  }
+}
+
+export interface CommittedEntry {
+  row: number;
+  paymentId: number;
+  pledgeIds: number[];
+}
+
+/**
+ * Saves every row of an entry grid as a completed payment in one
+ * transaction, so a batch of gifts is either all recorded or not at all.
+ * A row with one allocation becomes a direct pledge payment; a row with
+ * several becomes a split payment with an allocation per pledge. Currencies
+ * must be enabled for `locationId`.
+ */
+export async function commitPaymentEntries(rows: PaymentEntryRow[], locationId: string | null): Promise<CommittedEntry[]> {
+  const pledgeIds = [...new Set(rows.flatMap((row) => row.allocations.map((allocation) => allocation.pledgeId)))];
+  const pledges = await db
+    .select({
+      id: pledge.id,
+      contactId: pledge.contactId,
+      currency: pledge.currency,
+      relationshipId: pledge.relationshipId,
+      isActive: pledge.isActive,
+    })
+    .from(pledge)
+    .where(inArray(pledge.id, pledgeIds));
+  const pledgeById = new Map(pledges.map((row) => [row.id, row]));
+  const enabled = new Set((await listCurrencies(locationId)).map((option) => option.code));
+
+  const rowErrors: RowError[] = [];
+  rows.forEach((row, index) => {
+    if (!enabled.has(row.currency)) {
+      rowErrors.push({ row: index, field: "currency", message: `${row.currency} is not an enabled currency` });
+    }
+    row.allocations.forEach((allocation, allocationIndex) => {
+      const target = pledgeById.get(allocation.pledgeId);
+      const field = `allocations.${allocationIndex}.pledgeId`;
+      if (!target) {
+        rowErrors.push({ row: index, field, message: `Pledge #${allocation.pledgeId} not found` });
+      } else if (target.contactId !== row.contactId) {
+        rowErrors.push({ row: index, field, message: `Pledge #${allocation.pledgeId} belongs to another donor` });
+      } else if (!target.isActive) {
+        rowErrors.push({ row: index, field, message: `Pledge #${allocation.pledgeId} is inactive` });
+      }
+    });
+  });
+  if (rowErrors.length > 0) {
+    throw new PaymentEntryError(
+      `${new Set(rowErrors.map((error) => error.row)).size} rows need fixing before the batch can be saved`,
+      400,
+      rowErrors
+    );
+  }
+
+  return withTransaction(async (tx) => {
+    const committed: CommittedEntry[] = [];
+
+    for (const [index, row] of rows.entries()) {
+      const amount = roundMoney(row.amount, row.currency);
+      const isSplit = row.allocations.length > 1;
+      const direct = isSplit ? null : pledgeById.get(row.allocations[0].pledgeId)!;
+      const conversions = await convertPaymentAmounts(tx, {
+        amount,
+        currency: row.currency,
+        pledgeCurrency: direct?.currency ?? row.currency,
+        date: row.paymentDate,
+      });
+
+      const [created] = await tx
+        .insert(payment)
+        .values({
+          pledgeId: direct?.id ?? null,
+          relationshipId: direct?.relationshipId ?? null,
+          amount,
+          currency: row.currency,
+          amountUsd: conversions.amountUsd,
+          exchangeRate: conversions.exchangeRate,
+          // Split payments carry their pledge-currency amounts on the allocations
+          amountInPledgeCurrency: direct ? conversions.amountInPledgeCurrency : null,
+          pledgeCurrencyExchangeRate: direct ? conversions.pledgeCurrencyExchangeRate : null,
+          paymentDate: row.paymentDate,
+          receivedDate: row.paymentDate,
+          paymentMethod: row.paymentMethod,
+          paymentStatus: "completed",
+          checkNumber: row.checkNumber || null,
+          referenceNumber: row.referenceNumber || null,
+          notes: row.notes || null,
+        })
+        .returning({ id: payment.id });
+
+      if (isSplit) {
+        for (const allocation of row.allocations) {
+          const target = pledgeById.get(allocation.pledgeId)!;
+          const allocatedAmount = roundMoney(allocation.amount, row.currency);
+          const allocationConversions = await convertPaymentAmounts(tx, {
+            amount: allocatedAmount,
+            currency: row.currency,
+            pledgeCurrency: target.currency,
+            date: row.paymentDate,
+          });
+          await tx.insert(paymentAllocations).values({
+            paymentId: created.id,
+            pledgeId: target.id,
+            allocatedAmount,
+            currency: row.currency,
+            allocatedAmountUsd: allocationConversions.amountUsd,
+            allocatedAmountInPledgeCurrency: allocationConversions.amountInPledgeCurrency,
+          });
+        }
+      }
+
+      committed.push({
+        row: index,
+        paymentId: created.id,
+        pledgeIds: row.allocations.map((allocation) => allocation.pledgeId),
+      });
+    }
+
+    for (const pledgeId of pledgeIds) {
+      await updatePledgeTotals(pledgeId, tx);
+    }
+    return committed;
+  });
+}
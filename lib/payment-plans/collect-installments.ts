@@ -0,0 +1,314 @@
+import { format } from "date-fns";
+import { and, desc, eq, inArray, lte, ne, sql, type SQL } from "drizzle-orm";
+import { db, withTransaction } from "@/lib/db";
+import {
+  contact,
+  installmentSchedule,
+  paymentPlan,
+  pledge,
+  processorTransaction,
+  savedPaymentMethod,
+} from "@/lib/db/schema";
+import { updatePaymentPlanTotals, updatePledgeTotals } from "@/lib/payment-totals";
+import { describeSavedMethod, recordInstallmentPayment } from "@/lib/payment-plans/installment-payments";
+import { ProcessorError, type PaymentProcessor, type ProcessorResult } from "@/lib/payment-processors/processor";
+import { getPaymentProcessor } from "@/lib/payment-processors/registry";
+import { NACHA_PROCESSOR } from "@/lib/ach/nacha";
+
+// Declined attempts before an installment is left for staff to follow up
+export const DEFAULT_MAX_ATTEMPTS = 3;
+
+// A claim older than this belongs to a run that died before the processor answered
+const STALE_CLAIM_INTERVAL = sql`interval '1 hour'`;
+
+const RUNNING_STATUSES = ["active", "overdue"] as const;
+
+export interface CollectInstallmentsOptions {
+  // Run date as YYYY-MM-DD; installments due on or before it are charged
+  asOf?: string;
+  // null covers every location
+  locationId?: string | null;
+  paymentPlanId?: number;
+  // Defaults to the processor each saved method was tokenized with
+  processor?: PaymentProcessor;
+  maxAttempts?: number;
+  // Lists what would be charged without charging or recording anything
+  dryRun?: boolean;
+}
+
+export interface CollectedInstallment {
+  installmentId: number;
+  paymentPlanId: number;
+  transactionId: number | null;
+  paymentId: number | null;
+  amount: string;
+  currency: string;
+}
+
+export interface CollectionProblem {
+  installmentId: number;
+  paymentPlanId: number;
+  reason: string;
+}
+
+export interface CollectInstallmentsResult {
+  asOf: string;
+  collected: CollectedInstallment[];
+  // Bank debits accepted by the processor that settle later
+  pending: CollectedInstallment[];
+  declined: CollectionProblem[];
+  failed: CollectionProblem[];
+  skipped: CollectionProblem[];
+}
+
+/**
+ * Open installments of running plans that charge a saved method, due on or
+ * before the run date, without a charge already in flight or through.
+ */
+async function findCollectableInstallments(asOf: string, options: CollectInstallmentsOptions) {
+  const conditions: SQL[] = [
+    inArray(installmentSchedule.status, ["pending", "overdue"]),
+    lte(installmentSchedule.installmentDate, asOf),
+    inArray(paymentPlan.planStatus, [...RUNNING_STATUSES]),
+    eq(paymentPlan.isActive, true),
+    eq(savedPaymentMethod.isActive, true),
+    // NACHA accounts are debited through the bank file instead
+    ne(savedPaymentMethod.processor, NACHA_PROCESSOR),
+    sql`NOT EXISTS (
+      SELECT 1 FROM ${processorTransaction}
+      WHERE ${processorTransaction.installmentScheduleId} = ${installmentSchedule.id}
+        AND ${processorTransaction.type} = 'charge'
+        AND (${processorTransaction.status} = 'approved'
+          OR (${processorTransaction.status} = 'pending'
+            AND (${processorTransaction.externalId} IS NOT NULL
+              OR ${processorTransaction.updatedAt} > now() - ${STALE_CLAIM_INTERVAL})))
+    )`,
+  ];
+  if (options.locationId) conditions.push(eq(contact.locationId, options.locationId));
+  if (options.paymentPlanId) conditions.push(eq(paymentPlan.id, options.paymentPlanId));
+
+  return db
+    .select({
+      installmentId: installmentSchedule.id,
+      installmentDate: installmentSchedule.installmentDate,
+      amount: installmentSchedule.installmentAmount,
+      currency: installmentSchedule.currency,
+      paymentPlanId: paymentPlan.id,
+      planCurrency: paymentPlan.currency,
+      relationshipId: paymentPlan.relationshipId,
+      pledgeId: pledge.id,
+      pledgeCurrency: pledge.currency,
+      method: savedPaymentMethod,
+    })
+    .from(installmentSchedule)
+    .innerJoin(paymentPlan, eq(installmentSchedule.paymentPlanId, paymentPlan.id))
+    .innerJoin(savedPaymentMethod, eq(paymentPlan.savedPaymentMethodId, savedPaymentMethod.id))
+    .innerJoin(pledge, eq(paymentPlan.pledgeId, pledge.id))
+    .innerJoin(contact, eq(pledge.contactId, contact.id))
+    .where(and(...conditions))
+    .orderBy(installmentSchedule.installmentDate, installmentSchedule.id);
+}
+
+type CollectableInstallment = Awaited<ReturnType<typeof findCollectableInstallments>>[number];
+
+// Earlier declined or failed charges for an installment, newest first
+async function previousAttempts(installmentId: number) {
+  return db
+    .select({ createdAt: processorTransaction.createdAt })
+    .from(processorTransaction)
+    .where(
+      and(
+        eq(processorTransaction.installmentScheduleId, installmentId),
+        eq(processorTransaction.type, "charge"),
+        inArray(processorTransaction.status, ["declined", "failed"])
+      )
+    )
+    .orderBy(desc(processorTransaction.createdAt));
+}
+
+/**
+ * Claims an attempt by inserting its transaction. The idempotency key is
+ * per installment and attempt, so a run that died after sending the charge
+ * reclaims the same key and the processor answers with the first outcome.
+ */
+async function claimAttempt(row: CollectableInstallment, processorName: string, attempt: number) {
+  const [claimed] = await db
+    .insert(processorTransaction)
+    .values({
+      processor: processorName,
+      type: "charge",
+      idempotencyKey: `installment-${row.installmentId}-attempt-${attempt}`,
+      amount: row.amount,
+      currency: row.currency,
+      savedPaymentMethodId: row.method.id,
+      paymentPlanId: row.paymentPlanId,
+      installmentScheduleId: row.installmentId,
+    })
+    .onConflictDoUpdate({
+      target: processorTransaction.idempotencyKey,
+      set: { updatedAt: new Date() },
+      setWhere: sql`${processorTransaction.status} = 'pending'
+        AND ${processorTransaction.externalId} IS NULL
+        AND ${processorTransaction.updatedAt} <= now() - ${STALE_CLAIM_INTERVAL}`,
+    })
+    .returning();
+  return claimed ?? null;
+}
+
+async function recordOutcome(
+  row: CollectableInstallment,
+  transactionId: number,
+  result: ProcessorResult,
+  asOf: string
+): Promise<number | null> {
+  if (result.status === "declined") {
+    await db
+      .update(processorTransaction)
+      .set({
+        status: "declined",
+        externalId: result.transactionId,
+        failureCode: result.failureCode ?? null,
+        failureMessage: result.failureMessage ?? null,
+        updatedAt: new Date(),
+      })
+      .where(eq(processorTransaction.id, transactionId));
+    return null;
+  }
+
+  const settled = result.status === "approved";
+
+  return withTransaction(async (tx) => {
+    const paymentId = await recordInstallmentPayment(tx, row, {
+      paymentDate: asOf,
+      // A bank debit is not received until it settles
+      receivedDate: settled ? asOf : null,
+      paymentStatus: settled ? "completed" : "processing",
+      paymentMethod: row.method.type === "ach" ? "ach" : "credit_card",
+      methodDetail: describeSavedMethod(row.method),
+      referenceNumber: result.transactionId,
+    });
+
+    await tx
+      .update(processorTransaction)
+      .set({
+        status: result.status,
+        externalId: result.transactionId,
+        paymentId,
+        settledAt: settled ? new Date() : null,
+        updatedAt: new Date(),
+      })
+      .where(eq(processorTransaction.id, transactionId));
+
+    await updatePaymentPlanTotals(row.paymentPlanId, tx);
+    await updatePledgeTotals(row.pledgeId, tx);
+    return paymentId;
+  });
+}
+
+/**
+ * Charges every due installment of plans set to collect from a saved card
+ * or bank account. A declined installment is retried on later runs, at
+ * most once a day, until `maxAttempts` declines; a charge the processor
+ * accepted or is still settling is never sent again.
+ */
+export async function collectDueInstallments(
+  options: CollectInstallmentsOptions = {}
+): Promise<CollectInstallmentsResult> {
+  const asOf = options.asOf ?? format(new Date(), "yyyy-MM-dd");
+  const maxAttempts = options.maxAttempts ?? DEFAULT_MAX_ATTEMPTS;
+  const result: CollectInstallmentsResult = {
+    asOf,
+    collected: [],
+    pending: [],
+    declined: [],
+    failed: [],
+    skipped: [],
+  };
+
+  const due = await findCollectableInstallments(asOf, options);
+
+  for (const row of due) {
+    const problem = (reason: string): CollectionProblem => ({
+      installmentId: row.installmentId,
+      paymentPlanId: row.paymentPlanId,
+      reason,
+    });
+
+    const attempts = await previousAttempts(row.installmentId);
+    if (attempts.length >= maxAttempts) {
+      result.skipped.push(problem(`Declined ${attempts.length} times`));
+      continue;
+    }
+    if (attempts.length > 0 && format(attempts[0].createdAt, "yyyy-MM-dd") === asOf) {
+      result.skipped.push(problem("Already attempted today"));
+      continue;
+    }
+
+    const entry: CollectedInstallment = {
+      installmentId: row.installmentId,
+      paymentPlanId: row.paymentPlanId,
+      transactionId: null,
+      paymentId: null,
+      amount: row.amount,
+      currency: row.currency,
+    };
+
+    if (options.dryRun) {
+      result.collected.push(entry);
+      continue;
+    }
+
+    let processor: PaymentProcessor;
+    try {
+      processor = options.processor ?? getPaymentProcessor(row.method.processor);
+    } catch (error) {
+      result.failed.push(problem(error instanceof Error ? error.message : "Unknown processor"));
+      continue;
+    }
+    if (processor.name !== row.method.processor) {
+      result.skipped.push(problem(`Saved method belongs to ${row.method.processor}`));
+      continue;
+    }
+
+    const transaction = await claimAttempt(row, processor.name, attempts.length + 1);
+    if (!transaction) {
+      result.skipped.push(problem("Already being collected by another run"));
+      continue;
+    }
+    entry.transactionId = transaction.id;
+
+    try {
+      const outcome = await processor.charge({
+        token: row.method.token,
+        amount: parseFloat(row.amount),
+        currency: row.currency,
+        idempotencyKey: transaction.idempotencyKey,
+        description: `Installment ${row.installmentId} of payment plan ${row.paymentPlanId}`,
+      });
+      entry.paymentId = await recordOutcome(row, transaction.id, outcome, asOf);
+
+      if (outcome.status === "declined") {
+        result.declined.push(problem(outcome.failureMessage ?? "Declined"));
+      } else if (outcome.status === "pending") {
+        result.pending.push(entry);
+      } else {
+        result.collected.push(entry);
+      }
+    } catch (error) {
+      const reason = error instanceof Error ? error.message : "Unknown error";
+      // The processor refused the request outright. Anything else (a timeout,
+      // say) may have charged, so the claim stays open and a later run
+      // resends the same key once it goes stale.
+      if (error instanceof ProcessorError) {
+        await db
+          .update(processorTransaction)
+          .set({ status: "failed", failureMessage: reason, updatedAt: new Date() })
+          .where(eq(processorTransaction.id, transaction.id));
+      }
+      console.error(`Failed to collect installment ${row.installmentId}:`, error);
+      result.failed.push(problem(reason));
+    }
+  }
+
+  return result;
+}
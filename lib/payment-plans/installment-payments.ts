@@ -0,0 +1,154 @@
+import { and, eq, inArray, or, sql } from "drizzle-orm";
+import type { Transaction } from "@/lib/db";
+import { installmentSchedule, payment, type Payment, type SavedPaymentMethod } from "@/lib/db/schema";
+import { convertPaymentAmounts } from "@/lib/payment-totals";
+
+// The installment being paid and the currencies its payment converts into
+export interface InstallmentPaymentTarget {
+  installmentId: number;
+  paymentPlanId: number;
+  pledgeId: number;
+  relationshipId: number | null;
+  amount: string;
+  currency: string;
+  planCurrency: string;
+  pledgeCurrency: string;
+}
+
+export interface InstallmentPaymentDetails {
+  paymentDate: string;
+  // null until the money has actually arrived, e.g. a bank debit in flight
+  receivedDate: string | null;
+  paymentStatus: "completed" | "processing";
+  paymentMethod: string;
+  methodDetail: string;
+  referenceNumber: string | null;
+}
+
+// "Visa •••• 4242", shown as the payment's method detail
+export function describeSavedMethod(method: Pick<SavedPaymentMethod, "brand" | "last4" | "type">): string {
+  return `${method.brand ?? (method.type === "ach" ? "Bank account" : "Card")} •••• ${method.last4}`;
+}
+
+/**
+ * Records the payment for an installment collected electronically and marks
+ * the installment paid. Plans pre-create a pending payment per installment;
+ * that row is filled in rather than adding a second one. The caller updates
+ * the plan and pledge totals once it is done with the transaction.
+ */
+export async function recordInstallmentPayment(
+  tx: Transaction,
+  target: InstallmentPaymentTarget,
+  details: InstallmentPaymentDetails
+): Promise<number> {
+  const values = {
+    ...details,
+    amount: target.amount,
+    currency: target.currency as (typeof payment.currency.enumValues)[number],
+    ...(await convertPaymentAmounts(tx, {
+      amount: target.amount,
+      currency: target.currency,
+      pledgeCurrency: target.pledgeCurrency,
+      planCurrency: target.planCurrency,
+      date: details.paymentDate,
+    })),
+    updatedAt: new Date(),
+  };
+
+  const [scheduled] = await tx
+    .select({ id: payment.id })
+    .from(payment)
+    .where(
+      and(
+        eq(payment.installmentScheduleId, target.installmentId),
+        inArray(payment.paymentStatus, ["pending", "expected"])
+      )
+    )
+    .limit(1);
+
+  const [recorded] = scheduled
+    ? await tx.update(payment).set(values).where(eq(payment.id, scheduled.id)).returning({ id: payment.id })
+    : await tx
+        .insert(payment)
+        .values({
+          ...values,
+          pledgeId: target.pledgeId,
+          paymentPlanId: target.paymentPlanId,
+          installmentScheduleId: target.installmentId,
+          relationshipId: target.relationshipId,
+        })
+        .returning({ id: payment.id });
+
+  await tx
+    .update(installmentSchedule)
+    .set({ status: "paid", paidDate: details.paymentDate, paymentId: recorded.id, updatedAt: new Date() })
+    .where(eq(installmentSchedule.id, target.installmentId));
+
+  return recorded.id;
+}
+
+/**
+ * Undoes an electronic payment that bounced: the payment fails and its
+ * installment opens again so it is collected next time. Returns the failed
+ * payment's plan and pledge for the caller to re-total.
+ */
+export async function failInstallmentPayment(
+  tx: Transaction,
+  paymentId: number,
+  installmentId: number | null
+): Promise<{ paymentPlanId: number | null; pledgeId: number | null } | null> {
+  const [failed] = await tx
+    .update(payment)
+    .set({ paymentStatus: "failed", receivedDate: null, updatedAt: new Date() })
+    .where(eq(payment.id, paymentId))
+    .returning({ paymentPlanId: payment.paymentPlanId, pledgeId: payment.pledgeId });
+
+  if (installmentId) {
+    await tx
+      .update(installmentSchedule)
+      .set({ status: "pending", paidDate: null, paymentId: null, updatedAt: new Date() })
+      .where(eq(installmentSchedule.id, installmentId));
+  }
+  return failed ?? null;
+}
+
+/**
+ * Opens an installment again once the money that paid it is gone, or marks
+ * it paid again when it is back (a voided refund, a payment moved onto it). Installments since paid by another
+ * payment are left alone.
+ */
+export async function syncInstallment(
+  tx: Transaction,
+  installmentId: number,
+  paid: boolean,
+  target: Pick<Payment, "id" | "paymentDate" | "receivedDate">
+) {
+  const ownPayment = or(sql`${installmentSchedule.paymentId} IS NULL`, eq(installmentSchedule.paymentId, target.id));
+  if (paid) {
+    await tx
+      .update(installmentSchedule)
+      .set({
+        status: "paid",
+        paidDate: target.receivedDate || target.paymentDate,
+        paymentId: target.id,
+        updatedAt: new Date(),
+      })
+      .where(
+        and(
+          eq(installmentSchedule.id, installmentId),
+          inArray(installmentSchedule.status, ["pending", "overdue"]),
+          ownPayment
+        )
+      );
+  } else {
+    await tx
+      .update(installmentSchedule)
+      .set({
+        status: sql`CASE WHEN ${installmentSchedule.installmentDate} < CURRENT_DATE THEN 'overdue' ELSE 'pending' END::installment_status`,
+        paidDate: null,
+        paymentId: null,
+        updatedAt: new Date(),
+      })
+      .where(and(eq(installmentSchedule.id, installmentId), eq(installmentSchedule.status, "paid"), ownPayment));
+  }
+}
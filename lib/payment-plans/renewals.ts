@@ -0,0 +1,299 @@
+import { and, desc, eq, inArray, isNull, sql, type SQL } from "drizzle-orm";
+import { db, withTransaction, type Transaction } from "@/lib/db";
+import {
+  contact,
+  installmentSchedule,
+  payment,
+  paymentPlan,
+  planRenewal,
+  pledge,
+  type NewPayment,
+  type Payment,
+  type PaymentPlan,
+  type PlanRenewal,
+  type Pledge,
+} from "@/lib/db/schema";
+import { getUsdToCurrencyRate } from "@/lib/payment-totals";
+import { decimal, formatRate, roundMoney } from "@/lib/money";
+import {
+  STEPPED_FREQUENCIES,
+  addFrequency,
+  isSteppedFrequency,
+  steppedInstallmentDates,
+  type SteppedFrequency,
+} from "@/lib/payment-plans/schedule";
+import { DomainError } from "@/lib/error-handler";
+
+export class RenewalError extends DomainError {
+  constructor(message: string, statusCode: 400 | 404 | 409) {
+    super(message, statusCode);
+    this.name = "RenewalError";
+  }
+}
+
+export interface RenewalAdjustments {
+  startDate?: string;
+  frequency?: SteppedFrequency;
+  installmentAmount?: number;
+  numberOfInstallments?: number;
+}
+
+export interface ApprovedRenewal {
+  before: PlanRenewal;
+  renewal: PlanRenewal;
+  pledge: Pledge;
+  plan: PaymentPlan;
+  payments: Payment[];
+}
+
+/**
+ * Proposes the next cycle for every finished auto-renew plan that has not
+ * been queued yet. The cycle keeps the plan's frequency, installment amount
+ * and count and starts one interval after its last installment. Plans
+ * without a fixed frequency (one_time, custom) have no next date to propose
+ * and are left for staff to renew by hand.
+ */
+export async function queuePlanRenewals(options: { locationId?: string | null } = {}): Promise<PlanRenewal[]> {
+  const conditions: SQL[] = [
+    eq(paymentPlan.planStatus, "completed"),
+    eq(paymentPlan.autoRenew, true),
+    eq(paymentPlan.isActive, true),
+    inArray(paymentPlan.frequency, [...STEPPED_FREQUENCIES]),
+    isNull(planRenewal.id),
+  ];
+  if (options.locationId) conditions.push(eq(contact.locationId, options.locationId));
+
+  const candidates = await db
+    .select({
+      id: paymentPlan.id,
+      frequency: paymentPlan.frequency,
+      installmentAmount: paymentPlan.installmentAmount,
+      numberOfInstallments: paymentPlan.numberOfInstallments,
+      currency: paymentPlan.currency,
+      startDate: paymentPlan.startDate,
+      lastInstallmentDate: sql<string | null>`(
+        SELECT MAX(${installmentSchedule.installmentDate}) FROM ${installmentSchedule}
+        WHERE ${installmentSchedule.paymentPlanId} = ${paymentPlan.id}
+      )`,
+    })
+    .from(paymentPlan)
+    .innerJoin(pledge, eq(paymentPlan.pledgeId, pledge.id))
+    .innerJoin(contact, eq(pledge.contactId, contact.id))
+    .leftJoin(planRenewal, eq(planRenewal.paymentPlanId, paymentPlan.id))
+    .where(and(...conditions));
+
+  if (candidates.length === 0) return [];
+
+  const proposals = candidates.map((plan) => {
+    const frequency = plan.frequency as SteppedFrequency;
+    // Plans entered without a schedule are assumed to have run to term
+    const lastDate =
+      plan.lastInstallmentDate ?? addFrequency(plan.startDate, frequency, plan.numberOfInstallments - 1);
+    return {
+      paymentPlanId: plan.id,
+      startDate: addFrequency(lastDate, frequency),
+      frequency,
+      installmentAmount: plan.installmentAmount,
+      numberOfInstallments: plan.numberOfInstallments,
+      currency: plan.currency,
+    };
+  });
+
+  // Concurrent runs race on the unique plan id; the loser inserts nothing
+  return db.insert(planRenewal).values(proposals).onConflictDoNothing().returning();
+}
+
+async function lockRenewal(tx: Transaction, renewalId: number) {
+  const [renewal] = await tx
+    .select()
+    .from(planRenewal)
+    .where(eq(planRenewal.id, renewalId))
+    .limit(1)
+    .for("update");
+  if (!renewal) throw new RenewalError("Renewal not found", 404);
+  if (renewal.status !== "pending") {
+    throw new RenewalError(`Renewal was already ${renewal.status}`, 409);
+  }
+  return renewal;
+}
+
+function usdAmount(amount: string, rate: number | null): string | null {
+  return rate ? decimal(amount).dividedBy(rate).toMoney("USD") : null;
+}
+
+/**
+ * Creates the next cycle from a pending renewal, with any adjustments
+ * applied: a pledge linked to the previous one, an auto-renewing plan, its
+ * installments and a pending scheduled payment for each, all in one
+ * transaction. Payment method and payer carry over from the previous plan.
+ */
+export async function approveRenewal(
+  renewalId: number,
+  adjustments: RenewalAdjustments,
+  decidedBy: number | null
+): Promise<ApprovedRenewal> {
+  return withTransaction(async (tx) => {
+    const before = await lockRenewal(tx, renewalId);
+
+    const [previous] = await tx
+      .select({ plan: paymentPlan, pledge })
+      .from(paymentPlan)
+      .innerJoin(pledge, eq(paymentPlan.pledgeId, pledge.id))
+      .where(eq(paymentPlan.id, before.paymentPlanId))
+      .limit(1);
+    if (!previous) throw new RenewalError("The plan being renewed no longer exists", 409);
+
+    const startDate = adjustments.startDate ?? before.startDate;
+    const frequency = adjustments.frequency ?? before.frequency;
+    if (!isSteppedFrequency(frequency)) {
+      throw new RenewalError(`Plans with ${frequency} frequency cannot be renewed automatically`, 400);
+    }
+    const currency = before.currency;
+    const installmentAmount = roundMoney(adjustments.installmentAmount ?? before.installmentAmount, currency);
+    const numberOfInstallments = adjustments.numberOfInstallments ?? before.numberOfInstallments;
+    const totalAmount = decimal(installmentAmount).times(numberOfInstallments).toMoney(currency);
+
+    const usdRate = await getUsdToCurrencyRate(currency, startDate, tx);
+    const totalUsd = usdAmount(totalAmount, usdRate);
+    const installmentUsd = usdAmount(installmentAmount, usdRate);
+    const dates = steppedInstallmentDates(startDate, frequency, numberOfInstallments);
+
+    const [newPledge] = await tx
+      .insert(pledge)
+      .values({
+        contactId: previous.pledge.contactId,
+        categoryId: previous.pledge.categoryId,
+        relationshipId: previous.pledge.relationshipId,
+        pledgeDate: startDate,
+        description: previous.pledge.description,
+        originalAmount: totalAmount,
+        currency,
+        balance: totalAmount,
+        originalAmountUsd: totalUsd,
+        balanceUsd: totalUsd,
+        exchangeRate: usdRate ? formatRate(usdRate) : null,
+        campaignCode: previous.pledge.campaignCode,
+        advantageAmount: previous.pledge.advantageAmount,
+        advantageDescription: previous.pledge.advantageDescription,
+        renewedFromPledgeId: previous.pledge.id,
+        notes: previous.pledge.notes,
+      })
+      .returning();
+
+    const [newPlan] = await tx
+      .insert(paymentPlan)
+      .values({
+        pledgeId: newPledge.id,
+        relationshipId: previous.plan.relationshipId,
+        planName: previous.plan.planName,
+        frequency,
+        distributionType: "fixed",
+        totalPlannedAmount: totalAmount,
+        currency,
+        totalPlannedAmountUsd: totalUsd,
+        installmentAmount,
+        installmentAmountUsd: installmentUsd,
+        numberOfInstallments,
+        exchangeRate: usdRate ? formatRate(usdRate) : null,
+        startDate,
+        endDate: dates[dates.length - 1],
+        nextPaymentDate: startDate,
+        remainingAmount: totalAmount,
+        remainingAmountUsd: totalUsd,
+        totalPaid: "0.00",
+        totalPaidUsd: "0.00",
+        autoRenew: true,
+        notes: previous.plan.notes,
+        internalNotes: previous.plan.internalNotes,
+      })
+      .returning();
+
+    const installments = await tx
+      .insert(installmentSchedule)
+      .values(
+        dates.map((installmentDate) => ({
+          paymentPlanId: newPlan.id,
+          installmentDate,
+          installmentAmount,
+          currency,
+          installmentAmountUsd: installmentUsd,
+        }))
+      )
+      .returning();
+
+    const [lastPayment] = await tx
+      .select({
+        paymentMethod: payment.paymentMethod,
+        methodDetail: payment.methodDetail,
+        payerContactId: payment.payerContactId,
+        isThirdPartyPayment: payment.isThirdPartyPayment,
+      })
+      .from(payment)
+      .where(eq(payment.paymentPlanId, previous.plan.id))
+      .orderBy(desc(payment.paymentDate))
+      .limit(1);
+
+    const scheduled: NewPayment[] = installments.map((installment) => ({
+      pledgeId: newPledge.id,
+      paymentPlanId: newPlan.id,
+      installmentScheduleId: installment.id,
+      relationshipId: previous.plan.relationshipId,
+      payerContactId: lastPayment?.isThirdPartyPayment ? lastPayment.payerContactId : null,
+      isThirdPartyPayment: lastPayment?.isThirdPartyPayment ?? false,
+      amount: installment.installmentAmount,
+      currency,
+      amountUsd: installmentUsd,
+      exchangeRate: usdRate ? formatRate(decimal(1).dividedBy(usdRate)) : null,
+      amountInPledgeCurrency: installment.installmentAmount,
+      pledgeCurrencyExchangeRate: "1",
+      amountInPlanCurrency: installment.installmentAmount,
+      planCurrencyExchangeRate: "1",
+      paymentDate: installment.installmentDate,
+      paymentMethod: lastPayment?.paymentMethod || "other",
+      methodDetail: lastPayment?.methodDetail ?? null,
+      paymentStatus: "pending",
+    }));
+    const payments = await tx.insert(payment).values(scheduled).returning();
+
+    const [renewal] = await tx
+      .update(planRenewal)
+      .set({
+        status: "approved",
+        startDate,
+        frequency,
+        installmentAmount,
+        numberOfInstallments,
+        newPledgeId: newPledge.id,
+        newPaymentPlanId: newPlan.id,
+        decidedBy,
+        decidedAt: new Date(),
+        updatedAt: new Date(),
+      })
+      .where(eq(planRenewal.id, renewalId))
+      .returning();
+
+    return { before, renewal, pledge: newPledge, plan: newPlan, payments };
+  });
+}
+
+export async function declineRenewal(
+  renewalId: number,
+  reason: string,
+  decidedBy: number | null
+): Promise<{ before: PlanRenewal; renewal: PlanRenewal }> {
+  return withTransaction(async (tx) => {
+    const before = await lockRenewal(tx, renewalId);
+    const [renewal] = await tx
+      .update(planRenewal)
+      .set({
+        status: "declined",
+        declineReason: reason,
+        decidedBy,
+        decidedAt: new Date(),
+        updatedAt: new Date(),
+      })
+      .where(eq(planRenewal.id, renewalId))
+      .returning();
+    return { before, renewal };
+  });
+}
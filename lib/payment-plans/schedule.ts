@@ -0,0 +1,153 @@
+import {
+  addDays,
+  addMonths,
+  addWeeks,
+  addYears,
+  format,
+  getDaysInMonth,
+  isSaturday,
+  isSunday,
+  lastDayOfMonth,
+  parseISO,
+  setDate,
+  startOfMonth,
+} from "date-fns";
+import type { frequencyEnum } from "@/lib/db/schema";
+import type { RecurrenceRule } from "@/lib/form-schemas/recurrence-rule";
+import { addHebrewMonths, hebrewMonthDay, hebrewToGregorian, toHebrewDate } from "@/lib/hebrew-date";
+
+export type PlanFrequency = (typeof frequencyEnum.enumValues)[number];
+
+// Frequencies that step by a fixed interval; one_time and custom have none
+export const STEPPED_FREQUENCIES = ["weekly", "monthly", "quarterly", "biannual", "annual"] as const;
+
+export type SteppedFrequency = (typeof STEPPED_FREQUENCIES)[number];
+
+export function isSteppedFrequency(frequency: string): frequency is SteppedFrequency {
+  return (STEPPED_FREQUENCIES as readonly string[]).includes(frequency);
+}
+
+const toDateString = (date: Date) => format(date, "yyyy-MM-dd");
+
+/**
+ * Date `steps` intervals after `date` (YYYY-MM-DD). Months are added from
+ * the original date each time, so Jan 31 steps to Feb 28 and then Mar 31.
+ */
+export function addFrequency(date: string, frequency: SteppedFrequency, steps = 1): string {
+  const start = parseISO(date);
+  let result: Date;
+  switch (frequency) {
+    case "weekly":
+      result = addWeeks(start, steps);
+      break;
+    case "monthly":
+      result = addMonths(start, steps);
+      break;
+    case "quarterly":
+      result = addMonths(start, steps * 3);
+      break;
+    case "biannual":
+      result = addMonths(start, steps * 6);
+      break;
+    case "annual":
+      result = addYears(start, steps);
+      break;
+  }
+  return toDateString(result);
+}
+
+export function steppedInstallmentDates(
+  startDate: string,
+  frequency: SteppedFrequency,
+  numberOfInstallments: number
+): string[] {
+  return Array.from({ length: numberOfInstallments }, (_, i) => addFrequency(startDate, frequency, i));
+}
+
+/**
+ * Installment dates for any plan: the recurrence rule when there is one,
+ * otherwise the frequency's fixed step. one_time and rule-less custom plans
+ * have no step, so every installment falls on the start date.
+ */
+export function planInstallmentDates(
+  startDate: string,
+  frequency: string,
+  numberOfInstallments: number,
+  rule?: RecurrenceRule | null
+): string[] {
+  if (rule) return expandRecurrenceRule(rule, startDate, numberOfInstallments);
+  if (isSteppedFrequency(frequency)) return steppedInstallmentDates(startDate, frequency, numberOfInstallments);
+  return Array.from({ length: numberOfInstallments }, () => startDate);
+}
+
+function lastBusinessDay(month: Date): Date {
+  let day = lastDayOfMonth(month);
+  while (isSaturday(day) || isSunday(day)) day = addDays(day, -1);
+  return day;
+}
+
+function adjustForWeekend(date: Date, adjustment: RecurrenceRule["weekendAdjustment"]): Date {
+  if (adjustment === "following_monday") {
+    if (isSaturday(date)) return addDays(date, 2);
+    if (isSunday(date)) return addDays(date, 1);
+  } else if (adjustment === "preceding_friday") {
+    if (isSaturday(date)) return addDays(date, -1);
+    if (isSunday(date)) return addDays(date, -2);
+  }
+  return date;
+}
+
+// Candidate dates of the i-th period, before skips and weekend moves
+function periodDates(rule: RecurrenceRule, start: Date, period: number): Date[] {
+  if (rule.pattern === "interval") {
+    const steps = period * rule.interval;
+    if (rule.unit === "week") return [addWeeks(start, steps)];
+    if (rule.unit === "year") return [addYears(start, steps)];
+    return [addMonths(start, steps)];
+  }
+
+  if (rule.pattern === "hebrew_monthly" || rule.pattern === "hebrew_annual") {
+    const hebrewStart = toHebrewDate(start)!;
+    if (rule.pattern === "hebrew_annual") {
+      const year = hebrewStart.year + period * rule.interval;
+      return [parseISO(hebrewToGregorian({ day: rule.hebrewDay, month: rule.hebrewMonth, year }, rule.leapAdar))];
+    }
+    const { month, year } = addHebrewMonths(hebrewStart.month, hebrewStart.year, period * rule.interval);
+    return [...new Set(rule.hebrewDays)]
+      .sort((a, b) => a - b)
+      .map((day) => parseISO(hebrewMonthDay(day, month, year)));
+  }
+
+  const month = addMonths(startOfMonth(start), period * rule.interval);
+  if (rule.pattern === "last_business_day") return [lastBusinessDay(month)];
+
+  // Days past the end of a short month fall on its last day
+  const daysInMonth = getDaysInMonth(month);
+  return [...new Set(rule.daysOfMonth.map((day) => Math.min(day, daysInMonth)))]
+    .sort((a, b) => a - b)
+    .map((day) => setDate(month, day));
+}
+
+/**
+ * Expands a recurrence rule into the first `count` installment dates on or
+ * after `startDate`. Skipped months are judged by the scheduled date, before
+ * a weekend is moved, so "skip August" also drops Aug 31 moved to Sep 2.
+ */
+export function expandRecurrenceRule(rule: RecurrenceRule, startDate: string, count: number): string[] {
+  const start = parseISO(startDate);
+  const skipMonths = new Set(rule.skipMonths);
+  const dates: string[] = [];
+
+  // The schema keeps at least one month open, so this always terminates;
+  // the cap only guards against a rule that somehow slips through
+  for (let period = 0; dates.length < count && period < count * 12 + 24; period++) {
+    for (const date of periodDates(rule, start, period)) {
+      if (date < start || skipMonths.has(date.getMonth() + 1)) continue;
+      const installmentDate = toDateString(adjustForWeekend(date, rule.weekendAdjustment));
+      if (dates[dates.length - 1] !== installmentDate) dates.push(installmentDate);
+      if (dates.length === count) break;
+    }
+  }
+
+  return dates;
+}
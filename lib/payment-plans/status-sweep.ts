@@ -0,0 +1,139 @@
+import { format } from "date-fns";
+import { and, eq, inArray, lt, gte, sql, type SQL } from "drizzle-orm";
+import { withTransaction } from "@/lib/db";
+import { contact, installmentSchedule, payment, paymentPlan, pledge } from "@/lib/db/schema";
+
+export interface PlanStatusSweepOptions {
+  // Run date as YYYY-MM-DD; installments due before it are past due
+  asOf?: string;
+  // null covers every location
+  locationId?: string | null;
+}
+
+export interface PlanStatusSweepResult {
+  asOf: string;
+  installmentsOverdue: number;
+  installmentsPending: number;
+  plansCompleted: number;
+  plansOverdue: number;
+  plansReactivated: number;
+  nextPaymentDatesUpdated: number;
+}
+
+// Only running plans move; paused, cancelled and completed ones are left alone.
+// An overdue plan is still running, so filters for live plans match both.
+const RUNNING_STATUSES = ["active", "overdue"] as const;
+
+const openInstallment = sql`${installmentSchedule.status} IN ('pending', 'overdue')`;
+
+/**
+ * Brings installment and plan statuses up to date with the calendar:
+ * past-due installments become overdue (and rescheduled ones pending again),
+ * plans paid off with settled payments complete, the rest are active or overdue depending on their
+ * installments, and nextPaymentDate points at the earliest open installment.
+ * Every step is idempotent, so the sweep can run as often as needed.
+ */
+export async function sweepPlanStatuses(options: PlanStatusSweepOptions = {}): Promise<PlanStatusSweepResult> {
+  const asOf = options.asOf ?? format(new Date(), "yyyy-MM-dd");
+
+  const planScope: SQL[] = [inArray(paymentPlan.planStatus, [...RUNNING_STATUSES])];
+  if (options.locationId) {
+    planScope.push(
+      inArray(
+        paymentPlan.pledgeId,
+        sql`(SELECT ${pledge.id} FROM ${pledge}
+          INNER JOIN ${contact} ON ${contact.id} = ${pledge.contactId}
+          WHERE ${contact.locationId} = ${options.locationId})`
+      )
+    );
+  }
+  const runningPlanIds = sql`(SELECT ${paymentPlan.id} FROM ${paymentPlan} WHERE ${and(...planScope)})`;
+
+  const hasOverdueInstallment = sql`EXISTS (
+    SELECT 1 FROM ${installmentSchedule}
+    WHERE ${installmentSchedule.paymentPlanId} = ${paymentPlan.id}
+      AND ${installmentSchedule.status} = 'overdue'
+  )`;
+  // Unsettled ACH and processor charges count towards the plan's totals but
+  // can still be returned, so a plan only completes once they have settled
+  const hasUnsettledPayment = sql`EXISTS (
+    SELECT 1 FROM ${payment}
+    WHERE ${payment.paymentPlanId} = ${paymentPlan.id}
+      AND ${payment.paymentStatus} = 'processing'
+  )`;
+  const earliestOpenInstallment = sql`(
+    SELECT MIN(${installmentSchedule.installmentDate}) FROM ${installmentSchedule}
+    WHERE ${installmentSchedule.paymentPlanId} = ${paymentPlan.id} AND ${openInstallment}
+  )`;
+
+  return withTransaction(async (tx) => {
+    const installmentsOverdue = await tx
+      .update(installmentSchedule)
+      .set({ status: "overdue", updatedAt: new Date() })
+      .where(
+        and(
+          eq(installmentSchedule.status, "pending"),
+          lt(installmentSchedule.installmentDate, asOf),
+          inArray(installmentSchedule.paymentPlanId, runningPlanIds)
+        )
+      )
+      .returning({ id: installmentSchedule.id });
+
+    // An overdue installment moved to a later date is no longer late
+    const installmentsPending = await tx
+      .update(installmentSchedule)
+      .set({ status: "pending", updatedAt: new Date() })
+      .where(
+        and(
+          eq(installmentSchedule.status, "overdue"),
+          gte(installmentSchedule.installmentDate, asOf),
+          inArray(installmentSchedule.paymentPlanId, runningPlanIds)
+        )
+      )
+      .returning({ id: installmentSchedule.id });
+
+    const plansCompleted = await tx
+      .update(paymentPlan)
+      .set({ planStatus: "completed", nextPaymentDate: null, updatedAt: new Date() })
+      .where(and(...planScope, sql`${paymentPlan.remainingAmount} <= 0`, sql`NOT ${hasUnsettledPayment}`))
+      .returning({ id: paymentPlan.id });
+
+    const plansOverdue = await tx
+      .update(paymentPlan)
+      .set({ planStatus: "overdue", updatedAt: new Date() })
+      .where(and(...planScope, eq(paymentPlan.planStatus, "active"), hasOverdueInstallment))
+      .returning({ id: paymentPlan.id });
+
+    const plansReactivated = await tx
+      .update(paymentPlan)
+      .set({ planStatus: "active", updatedAt: new Date() })
+      .where(and(...planScope, eq(paymentPlan.planStatus, "overdue"), sql`NOT ${hasOverdueInstallment}`))
+      .returning({ id: paymentPlan.id });
+
+    // Plans without a schedule keep the date entered by hand
+    const nextPaymentDatesUpdated = await tx
+      .update(paymentPlan)
+      .set({ nextPaymentDate: earliestOpenInstallment, updatedAt: new Date() })
+      .where(
+        and(
+          ...planScope,
+          sql`EXISTS (
+            SELECT 1 FROM ${installmentSchedule}
+            WHERE ${installmentSchedule.paymentPlanId} = ${paymentPlan.id}
+          )`,
+          sql`${paymentPlan.nextPaymentDate} IS DISTINCT FROM ${earliestOpenInstallment}`
+        )
+      )
+      .returning({ id: paymentPlan.id });
+
+    return {
+      asOf,
+      installmentsOverdue: installmentsOverdue.length,
+      installmentsPending: installmentsPending.length,
+      plansCompleted: plansCompleted.length,
+      plansOverdue: plansOverdue.length,
+      plansReactivated: plansReactivated.length,
+      nextPaymentDatesUpdated: nextPaymentDatesUpdated.length,
+    };
+  });
+}
@@ -0,0 +1,201 @@
+import { createHmac, randomBytes, timingSafeEqual } from "node:crypto";
+import { isRoutingNumber } from "@/lib/ach/nacha";
+import {
+  ProcessorError,
+  type ChargeRequest,
+  type InstrumentDetails,
+  type PaymentProcessor,
+  type ProcessorEvent,
+  type ProcessorResult,
+  type RefundRequest,
+  type TokenizedInstrument,
+} from "@/lib/payment-processors/processor";
+
+export const MOCK_SIGNATURE_HEADER = "x-mock-signature";
+
+// Outcome encoded in each token, so charges behave the same after a restart
+type MockBehavior = "approve" | "decline" | "insufficient_funds" | "ach_return";
+
+// Test card numbers from the usual processor test ranges; any other valid card is approved
+const TEST_CARDS: Record<string, MockBehavior> = {
+  "4000000000000002": "decline",
+  "4000000000009995": "insufficient_funds",
+};
+
+// Bank accounts ending in these digits are returned when the debit settles
+const RETURNED_ACCOUNT_SUFFIX = "0000";
+
+const DECLINES: Record<"decline" | "insufficient_funds", { code: string; message: string }> = {
+  decline: { code: "card_declined", message: "The card was declined" },
+  insufficient_funds: { code: "insufficient_funds", message: "The card has insufficient funds" },
+};
+
+const ACH_RETURN = { code: "R01", message: "Insufficient funds in the bank account" };
+
+// Shared across instances, like the real processor remembering keys
+const idempotentResults = new Map<string, ProcessorResult>();
+
+const randomId = (prefix: string) => `${prefix}_${randomBytes(8).toString("hex")}`;
+
+function passesLuhn(number: string): boolean {
+  let sum = 0;
+  for (let i = 0; i < number.length; i++) {
+    let digit = parseInt(number[number.length - 1 - i], 10);
+    if (i % 2 === 1) {
+      digit *= 2;
+      if (digit > 9) digit -= 9;
+    }
+    sum += digit;
+  }
+  return sum % 10 === 0;
+}
+
+function cardBrand(number: string): string {
+  if (/^4/.test(number)) return "Visa";
+  if (/^(5[1-5]|2[2-7])/.test(number)) return "Mastercard";
+  if (/^3[47]/.test(number)) return "Amex";
+  if (/^6/.test(number)) return "Discover";
+  return "Card";
+}
+
+function behaviorOf(token: string): { type: "card" | "ach"; behavior: MockBehavior } {
+  const match = /^mock_(card|ach)_(approve|decline|insufficient_funds|ach_return)_[0-9a-f]+$/.exec(token);
+  if (!match) throw new ProcessorError("Unknown payment token", 400);
+  return { type: match[1] as "card" | "ach", behavior: match[2] as MockBehavior };
+}
+
+function tokenizeCard(details: Extract<InstrumentDetails, { type: "card" }>): TokenizedInstrument {
+  const number = details.number.replace(/[\s-]/g, "");
+  if (!/^\d{12,19}$/.test(number) || !passesLuhn(number)) {
+    throw new ProcessorError("The card number is invalid", 400);
+  }
+  if (!/^\d{3,4}$/.test(details.cvc)) {
+    throw new ProcessorError("The security code is invalid", 400);
+  }
+  const now = new Date();
+  const expired =
+    details.expiryYear < now.getFullYear() ||
+    (details.expiryYear === now.getFullYear() && details.expiryMonth < now.getMonth() + 1);
+  if (expired) throw new ProcessorError("The card has expired", 400);
+
+  const behavior = TEST_CARDS[number] ?? "approve";
+  return {
+    token: randomId(`mock_card_${behavior}`),
+    type: "card",
+    brand: cardBrand(number),
+    last4: number.slice(-4),
+    expiryMonth: details.expiryMonth,
+    expiryYear: details.expiryYear,
+  };
+}
+
+function tokenizeBankAccount(details: Extract<InstrumentDetails, { type: "ach" }>): TokenizedInstrument {
+  if (!isRoutingNumber(details.routingNumber)) {
+    throw new ProcessorError("The routing number is invalid", 400);
+  }
+  if (!/^\d{4,17}$/.test(details.accountNumber)) {
+    throw new ProcessorError("The account number is invalid", 400);
+  }
+  const behavior = details.accountNumber.endsWith(RETURNED_ACCOUNT_SUFFIX) ? "ach_return" : "approve";
+  return {
+    token: randomId(`mock_ach_${behavior}`),
+    type: "ach",
+    brand: details.accountType === "savings" ? "Savings" : "Checking",
+    last4: details.accountNumber.slice(-4),
+    expiryMonth: null,
+    expiryYear: null,
+  };
+}
+
+function sign(rawBody: string, secret: string): string {
+  return createHmac("sha256", secret).update(rawBody).digest("hex");
+}
+
+/**
+ * Webhook the mock gateway would send for an event, signed with `secret`.
+ * Used by the simulation script to drive the webhook route end to end.
+ */
+export function signMockWebhook(event: ProcessorEvent, secret: string): { body: string; signature: string } {
+  const body = JSON.stringify(event);
+  return { body, signature: sign(body, secret) };
+}
+
+/**
+ * How a pending mock transaction settles: debits from accounts ending in
+ * 0000 are returned, everything else clears.
+ */
+export function mockSettlement(token: string, transactionId: string): ProcessorEvent {
+  const { behavior } = behaviorOf(token);
+  return behavior === "ach_return"
+    ? { type: "transaction.failed", transactionId, failureCode: ACH_RETURN.code, failureMessage: ACH_RETURN.message }
+    : { type: "transaction.settled", transactionId };
+}
+
+/**
+ * Local stand-in for a real processor. Cards approve at once unless they
+ * are one of the declining test numbers; bank debits stay pending until a
+ * webhook settles or returns them. Nothing leaves this machine.
+ */
+export function createMockGateway(options: { webhookSecret: string }): PaymentProcessor {
+  const once = (key: string, result: () => ProcessorResult): ProcessorResult => {
+    const previous = idempotentResults.get(key);
+    if (previous) return previous;
+    const outcome = result();
+    idempotentResults.set(key, outcome);
+    return outcome;
+  };
+
+  return {
+    name: "mock",
+
+    async tokenize(details) {
+      return details.type === "card" ? tokenizeCard(details) : tokenizeBankAccount(details);
+    },
+
+    async charge(request: ChargeRequest) {
+      if (!(request.amount > 0)) throw new ProcessorError("Charge amount must be positive", 400);
+      const { type, behavior } = behaviorOf(request.token);
+      return once(request.idempotencyKey, () => {
+        const transactionId = randomId("mock_ch");
+        if (behavior === "decline" || behavior === "insufficient_funds") {
+          const decline = DECLINES[behavior];
+          return { status: "declined", transactionId, failureCode: decline.code, failureMessage: decline.message };
+        }
+        return { status: type === "ach" ? "pending" : "approved", transactionId };
+      });
+    },
+
+    async refund(request: RefundRequest) {
+      if (!request.transactionId.startsWith("mock_ch_")) {
+        throw new ProcessorError("The charge to refund was not found", 404);
+      }
+      if (!(request.amount > 0)) throw new ProcessorError("Refund amount must be positive", 400);
+      return once(request.idempotencyKey, () => ({ status: "approved", transactionId: randomId("mock_re") }));
+    },
+
+    parseWebhook(rawBody, headers) {
+      const signature = headers.get(MOCK_SIGNATURE_HEADER) ?? "";
+      const expected = sign(rawBody, options.webhookSecret);
+      if (
+        signature.length !== expected.length ||
+        !timingSafeEqual(Buffer.from(signature), Buffer.from(expected))
+      ) {
+        throw new ProcessorError("Invalid webhook signature", 401);
+      }
+
+      let event: ProcessorEvent;
+      try {
+        event = JSON.parse(rawBody);
+      } catch {
+        throw new ProcessorError("Webhook body is not JSON", 400);
+      }
+      if (
+        (event.type !== "transaction.settled" && event.type !== "transaction.failed") ||
+        typeof event.transactionId !== "string"
+      ) {
+        throw new ProcessorError("Unrecognised webhook event", 400);
+      }
+      return event;
+    },
+  };
+}
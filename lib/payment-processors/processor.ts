@@ -0,0 +1,90 @@
+import type { instrumentTypeEnum } from "@/lib/db/schema";
+import { DomainError } from "@/lib/error-handler";
+
+// ISO code; processors reject currencies their account cannot take
+export type ProcessorCurrency = string;
+
+export type InstrumentType = (typeof instrumentTypeEnum.enumValues)[number];
+
+export class ProcessorError extends DomainError {
+  constructor(message: string, statusCode: 400 | 401 | 404 | 409 | 502) {
+    super(message, statusCode);
+    this.name = "ProcessorError";
+  }
+}
+
+// Raw instrument details, exchanged for a token and never stored
+export type InstrumentDetails =
+  | {
+      type: "card";
+      number: string;
+      expiryMonth: number;
+      expiryYear: number;
+      cvc: string;
+      holderName?: string;
+    }
+  | {
+      type: "ach";
+      routingNumber: string;
+      accountNumber: string;
+      accountType: "checking" | "savings";
+      holderName: string;
+    };
+
+export interface TokenizedInstrument {
+  token: string;
+  type: InstrumentType;
+  brand: string | null;
+  last4: string;
+  expiryMonth: number | null;
+  expiryYear: number | null;
+}
+
+export interface ChargeRequest {
+  token: string;
+  amount: number;
+  currency: ProcessorCurrency;
+  // Repeating a key returns the first outcome instead of charging again
+  idempotencyKey: string;
+  description?: string;
+}
+
+export interface RefundRequest {
+  // The processor's id of the charge being refunded
+  transactionId: string;
+  amount: number;
+  currency: ProcessorCurrency;
+  idempotencyKey: string;
+}
+
+/**
+ * What the processor made of a charge or refund. Bank debits come back
+ * pending and settle (or fail) later through a webhook.
+ */
+export interface ProcessorResult {
+  status: "approved" | "pending" | "declined";
+  transactionId: string | null;
+  failureCode?: string;
+  failureMessage?: string;
+}
+
+export interface ProcessorEvent {
+  type: "transaction.settled" | "transaction.failed";
+  transactionId: string;
+  failureCode?: string;
+  failureMessage?: string;
+}
+
+/**
+ * Provider-agnostic gateway. Adapters translate these calls to one
+ * processor's API; everything above them only sees tokens and results.
+ */
+export interface PaymentProcessor {
+  // Stored with every token and transaction, e.g. "mock"
+  name: string;
+  tokenize(details: InstrumentDetails): Promise<TokenizedInstrument>;
+  charge(request: ChargeRequest): Promise<ProcessorResult>;
+  refund(request: RefundRequest): Promise<ProcessorResult>;
+  // Throws a 401 ProcessorError when the signature does not check out
+  parseWebhook(rawBody: string, headers: Headers): ProcessorEvent;
+}
@@ -0,0 +1,30 @@
+import { createMockGateway } from "@/lib/payment-processors/mock-gateway";
+import { ProcessorError, type PaymentProcessor } from "@/lib/payment-processors/processor";
+
+export const PROCESSOR_NAMES = ["mock"] as const;
+
+export type ProcessorName = (typeof PROCESSOR_NAMES)[number];
+
+export function isProcessorName(name: string): name is ProcessorName {
+  return (PROCESSOR_NAMES as readonly string[]).includes(name);
+}
+
+/**
+ * Processor by name, or the one chosen by `PAYMENT_PROCESSOR` when no name
+ * is given. Only the mock gateway exists so far; it is the default outside
+ * production and has to be chosen explicitly in production, so a deploy
+ * never approves simulated charges by accident.
+ */
+export function getPaymentProcessor(name?: string): PaymentProcessor {
+  const selected = name ?? process.env.PAYMENT_PROCESSOR ?? (process.env.NODE_ENV === "production" ? null : "mock");
+  if (!selected) {
+    throw new Error("PAYMENT_PROCESSOR must be set to collect payments in production");
+  }
+  if (!isProcessorName(selected)) {
+    throw new ProcessorError(`Unknown payment processor: ${selected}`, 400);
+  }
+  switch (selected) {
+    case "mock":
+      return createMockGateway({ webhookSecret: process.env.MOCK_GATEWAY_WEBHOOK_SECRET || "mock-webhook-secret" });
+  }
+}
@@ -0,0 +1,178 @@
+import { format } from "date-fns";
+import { and, eq, sql } from "drizzle-orm";
+import { db, withTransaction } from "@/lib/db";
+import {
+  payment,
+  processorTransaction,
+  type ProcessorTransaction,
+} from "@/lib/db/schema";
+import { decimal, minorUnits } from "@/lib/money";
+import { updatePaymentPlanTotals, updatePledgeTotals } from "@/lib/payment-totals";
+import { failInstallmentPayment } from "@/lib/payment-plans/installment-payments";
+import { ProcessorError, type ProcessorEvent } from "@/lib/payment-processors/processor";
+import { getPaymentProcessor } from "@/lib/payment-processors/registry";
+
+export interface AppliedEvent {
+  transaction: ProcessorTransaction;
+  // False when the event repeated one already applied
+  changed: boolean;
+}
+
+/**
+ * Applies a webhook event to the transaction it names. A settled charge
+ * completes its payment; a failed one (a bank return, say) fails the
+ * payment and reopens the installment so the next collection run retries
+ * it. Processors redeliver events, so applying one twice changes nothing.
+ */
+export async function applyProcessorEvent(processorName: string, event: ProcessorEvent): Promise<AppliedEvent> {
+  return withTransaction(async (tx) => {
+    const [transaction] = await tx
+      .select()
+      .from(processorTransaction)
+      .where(
+        and(eq(processorTransaction.processor, processorName), eq(processorTransaction.externalId, event.transactionId))
+      )
+      .for("update")
+      .limit(1);
+    if (!transaction) throw new ProcessorError("Transaction not found", 404);
+
+    const status = event.type === "transaction.settled" ? "approved" : "failed";
+    const alreadyApplied =
+      transaction.status === status && (status === "failed" || transaction.settledAt !== null);
+    if (alreadyApplied || transaction.status === "declined") {
+      return { transaction, changed: false };
+    }
+
+    const [updated] = await tx
+      .update(processorTransaction)
+      .set({
+        status,
+        settledAt: status === "approved" ? new Date() : null,
+        failureCode: event.failureCode ?? null,
+        failureMessage: event.failureMessage ?? null,
+        updatedAt: new Date(),
+      })
+      .where(eq(processorTransaction.id, transaction.id))
+      .returning();
+
+    if (transaction.type !== "charge" || !transaction.paymentId) {
+      return { transaction: updated, changed: true };
+    }
+
+    let linked: { paymentPlanId: number | null; pledgeId: number | null } | null;
+    if (status === "approved") {
+      const today = format(new Date(), "yyyy-MM-dd");
+      [linked] = await tx
+        .update(payment)
+        .set({
+          paymentStatus: "completed",
+          receivedDate: sql`COALESCE(${payment.receivedDate}, ${today})`,
+          updatedAt: new Date(),
+        })
+        .where(eq(payment.id, transaction.paymentId))
+        .returning({ paymentPlanId: payment.paymentPlanId, pledgeId: payment.pledgeId });
+    } else {
+      linked = await failInstallmentPayment(tx, transaction.paymentId, transaction.installmentScheduleId);
+    }
+
+    if (linked?.paymentPlanId) await updatePaymentPlanTotals(linked.paymentPlanId, tx);
+    if (linked?.pledgeId) await updatePledgeTotals(linked.pledgeId, tx);
+    return { transaction: updated, changed: true };
+  });
+}
+
+/**
+ * Refunds all or part of an approved charge through its processor. A full
+ * refund marks the payment refunded so it drops out of the pledge and plan
+ * totals; a partial one is only recorded against the charge.
+ */
+export async function refundCharge(chargeTransactionId: number, amount?: number): Promise<ProcessorTransaction> {
+  const [charge] = await db
+    .select()
+    .from(processorTransaction)
+    .where(and(eq(processorTransaction.id, chargeTransactionId), eq(processorTransaction.type, "charge")))
+    .limit(1);
+  if (!charge) throw new ProcessorError("Charge not found", 404);
+  if (charge.status !== "approved" || !charge.externalId) {
+    throw new ProcessorError("Only approved charges can be refunded", 409);
+  }
+
+  const [{ refunded }] = await db
+    .select({ refunded: sql<string>`COALESCE(SUM(${processorTransaction.amount}), 0)` })
+    .from(processorTransaction)
+    .where(
+      and(
+        eq(processorTransaction.chargeTransactionId, charge.id),
+        sql`${processorTransaction.status} IN ('pending', 'approved')`
+      )
+    );
+  const refundable = decimal(charge.amount).minus(refunded);
+  const refundAmount = amount === undefined ? refundable : decimal(amount).round(minorUnits(charge.currency));
+  if (!refundAmount.isPositive() || refundAmount.compare(refundable) > 0) {
+    throw new ProcessorError(`At most ${refundable.toMoney(charge.currency)} ${charge.currency} can be refunded`, 400);
+  }
+
+  const [refund] = await db
+    .insert(processorTransaction)
+    .values({
+      processor: charge.processor,
+      type: "refund",
+      idempotencyKey: `refund-${charge.id}-${Date.now()}`,
+      amount: refundAmount.toMoney(charge.currency),
+      currency: charge.currency,
+      savedPaymentMethodId: charge.savedPaymentMethodId,
+      paymentPlanId: charge.paymentPlanId,
+      installmentScheduleId: charge.installmentScheduleId,
+      paymentId: charge.paymentId,
+      chargeTransactionId: charge.id,
+    })
+    .returning();
+
+  const processor = getPaymentProcessor(charge.processor);
+  let result;
+  try {
+    result = await processor.refund({
+      transactionId: charge.externalId,
+      amount: Number(refundAmount.toMoney(charge.currency)),
+      currency: charge.currency,
+      idempotencyKey: refund.idempotencyKey,
+    });
+  } catch (error) {
+    await db
+      .update(processorTransaction)
+      .set({
+        status: "failed",
+        failureMessage: error instanceof Error ? error.message : String(error),
+        updatedAt: new Date(),
+      })
+      .where(eq(processorTransaction.id, refund.id));
+    throw error;
+  }
+
+  return withTransaction(async (tx) => {
+    const [recorded] = await tx
+      .update(processorTransaction)
+      .set({
+        status: result.status,
+        externalId: result.transactionId,
+        failureCode: result.failureCode ?? null,
+        failureMessage: result.failureMessage ?? null,
+        settledAt: result.status === "approved" ? new Date() : null,
+        updatedAt: new Date(),
+      })
+      .where(eq(processorTransaction.id, refund.id))
+      .returning();
+
+    const fullyRefunded = result.status !== "declined" && refundAmount.compare(refundable) === 0;
+    if (fullyRefunded && charge.paymentId) {
+      const [refundedPayment] = await tx
+        .update(payment)
+        .set({ paymentStatus: "refunded", updatedAt: new Date() })
+        .where(eq(payment.id, charge.paymentId))
+        .returning();
+      if (refundedPayment?.paymentPlanId) await updatePaymentPlanTotals(refundedPayment.paymentPlanId, tx);
+      if (refundedPayment?.pledgeId) await updatePledgeTotals(refundedPayment.pledgeId, tx);
+    }
+    return recorded;
+  });
+}
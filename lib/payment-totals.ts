@@ -0,0 +1,290 @@
+import { db, type DbClient } from "@/lib/db";
+import {
+  exchangeRate,
+  payment,
+  paymentAllocations,
+  paymentPlan,
+  pledge,
+  pledgeAdjustment,
+} from "@/lib/db/schema";
+import { allocationRefundedAmount, paymentRefundedAmount } from "@/lib/refunds/net-amounts";
+import { getLockedRate } from "@/lib/exchange-rates/rates";
+import { loadCurrencyFormats } from "@/lib/currencies/currencies";
+import { Decimal, crossRate, decimal } from "@/lib/money";
+import { and, desc, eq, lte, or, sql } from "drizzle-orm";
+
+// Units of `currency` per USD on or before `date`, matching pledge.exchangeRate.
+// A rate locked for the month wins over the daily one.
+export async function getUsdToCurrencyRate(
+  currency: string,
+  date: string,
+  client: DbClient = db
+): Promise<number | null> {
+  // Conversions all start here, so amounts round with the table's minor units
+  await loadCurrencyFormats(client);
+  if (currency === "USD") return 1;
+
+  const locked = await getLockedRate(currency, date, client);
+  if (locked) return locked;
+
+  const rate = await client
+    .select({ rate: exchangeRate.rate })
+    .from(exchangeRate)
+    .where(
+      and(
+        eq(exchangeRate.baseCurrency, "USD"),
+        eq(exchangeRate.targetCurrency, currency),
+        lte(exchangeRate.date, date)
+      )
+    )
+    .orderBy(desc(exchangeRate.date))
+    .limit(1);
+
+  return rate.length > 0 ? parseFloat(rate[0].rate) : null;
+}
+
+/**
+ * The USD, pledge-currency and plan-currency amounts stored on a payment.
+ * A conversion is left null when its rate is missing rather than failing
+ * the payment; the integrity checker reports those for fixing later.
+ */
+export async function convertPaymentAmounts(
+  client: DbClient,
+  input: { amount: string; currency: string; pledgeCurrency: string; planCurrency?: string | null; date: string }
+) {
+  const amount = decimal(input.amount);
+  const usdRate = await getUsdToCurrencyRate(input.currency, input.date, client);
+  const pledgeRate = await getUsdToCurrencyRate(input.pledgeCurrency, input.date, client);
+  const planRate = input.planCurrency ? await getUsdToCurrencyRate(input.planCurrency, input.date, client) : null;
+  const toPledge = usdRate && pledgeRate ? crossRate(usdRate, pledgeRate) : null;
+  const toPlan = usdRate && planRate && input.planCurrency ? crossRate(usdRate, planRate) : null;
+
+  return {
+    amountUsd: usdRate ? amount.dividedBy(usdRate).toMoney("USD") : null,
+    exchangeRate: usdRate ? decimal(1).dividedBy(usdRate).toRate() : null,
+    amountInPledgeCurrency: toPledge ? amount.times(toPledge).toMoney(input.pledgeCurrency) : null,
+    pledgeCurrencyExchangeRate: toPledge ? toPledge.toRate() : null,
+    amountInPlanCurrency: toPlan ? amount.times(toPlan).toMoney(input.planCurrency!) : null,
+    planCurrencyExchangeRate: toPlan ? toPlan.toRate() : null,
+  };
+}
+
+// Cross rates always go through USD; the result is in toCurrency's minor units
+async function convertCurrency(
+  amount: string,
+  fromCurrency: string,
+  toCurrency: string,
+  date: string,
+  client: DbClient = db
+): Promise<{ convertedAmount: Decimal; exchangeRate: Decimal }> {
+  if (fromCurrency === toCurrency) return { convertedAmount: decimal(amount), exchangeRate: decimal(1) };
+
+  const usdToFromRate = await getUsdToCurrencyRate(fromCurrency, date, client);
+  const usdToToRate = await getUsdToCurrencyRate(toCurrency, date, client);
+  if (!usdToFromRate || !usdToToRate) {
+    throw new Error(`Exchange rate not found for ${fromCurrency} to ${toCurrency} on or before ${date}`);
+  }
+
+  const rate = crossRate(usdToFromRate, usdToToRate);
+  return { convertedAmount: decimal(decimal(amount).times(rate).toMoney(toCurrency)), exchangeRate: rate };
+}
+
+// Refunds take the same share of every converted amount, so the part of a
+// payment still counted is one ratio in the payment's own currency
+export const netShare = (amount: string, refunded: string): Decimal => {
+  const gross = decimal(amount);
+  return gross.isPositive() ? decimal(1).minus(decimal(refunded).dividedBy(gross)).clampToZero() : Decimal.zero();
+};
+
+/**
+ * A payment plan's paid/remaining totals as they should be, from its
+ * completed and processing payments net of refunds. Null when the plan is
+ * gone.
+ */
+export async function computePaymentPlanTotals(paymentPlanId: number, client: DbClient = db) {
+  const payments = await client
+    .select({
+      amount: payment.amount,
+      refunded: paymentRefundedAmount,
+      paymentStatus: payment.paymentStatus,
+    })
+    .from(payment)
+    .where(and(
+      eq(payment.paymentPlanId, paymentPlanId),
+      or(
+        eq(payment.paymentStatus, "completed"),
+        eq(payment.paymentStatus, "processing")
+      )
+    ));
+
+  const totalPaid = payments.reduce((sum, p) => sum.plus(p.amount).minus(p.refunded), Decimal.zero());
+  const installmentsPaid = payments.length;
+
+  const paymentPlanResult = await client
+    .select({
+      totalPlannedAmount: paymentPlan.totalPlannedAmount,
+      currency: paymentPlan.currency,
+    })
+    .from(paymentPlan)
+    .where(eq(paymentPlan.id, paymentPlanId))
+    .limit(1);
+
+  if (paymentPlanResult.length === 0) return null;
+
+  const { totalPlannedAmount, currency } = paymentPlanResult[0];
+  const remainingAmount = decimal(totalPlannedAmount).minus(totalPaid).clampToZero();
+  return {
+    totalPaid: totalPaid.toMoney(currency),
+    installmentsPaid,
+    remainingAmount: remainingAmount.toMoney(currency),
+  };
+}
+
+/**
+ * Recomputes a payment plan's paid/remaining totals. Pass the transaction
+ * when called mid-write so the totals see the uncommitted rows.
+ */
+export async function updatePaymentPlanTotals(paymentPlanId: number, client: DbClient = db) {
+  const totals = await computePaymentPlanTotals(paymentPlanId, client);
+  if (!totals) return;
+
+  await client
+    .update(paymentPlan)
+    .set({ ...totals, updatedAt: new Date() })
+    .where(eq(paymentPlan.id, paymentPlanId));
+}
+
+/**
+ * A pledge's totalPaid/balance (pledge currency and USD) as they should be,
+ * from its direct payments and split allocations net of refunds. Approved
+ * write-offs and reductions come off the balance as well.
+ */
+export async function computePledgeTotals(pledgeId: number, client: DbClient = db) {
+  const pledgeResult = await client
+    .select({
+      originalAmount: pledge.originalAmount,
+      originalAmountUsd: pledge.originalAmountUsd,
+      currency: pledge.currency,
+      exchangeRate: pledge.exchangeRate,
+      totalAdjusted: sql<string>`COALESCE((
+        SELECT SUM(${pledgeAdjustment.amount}) FROM ${pledgeAdjustment}
+        WHERE ${pledgeAdjustment.pledgeId} = ${pledge.id} AND ${pledgeAdjustment.status} = 'approved'
+      ), 0)`,
+      totalAdjustedUsd: sql<string>`COALESCE((
+        SELECT SUM(${pledgeAdjustment.amountUsd}) FROM ${pledgeAdjustment}
+        WHERE ${pledgeAdjustment.pledgeId} = ${pledge.id} AND ${pledgeAdjustment.status} = 'approved'
+      ), 0)`,
+    })
+    .from(pledge)
+    .where(eq(pledge.id, pledgeId))
+    .limit(1);
+
+  if (pledgeResult.length === 0) {
+    throw new Error(`Pledge ${pledgeId} not found`);
+  }
+
+  const currentPledge = pledgeResult[0];
+  const pledgeCurrency = currentPledge.currency;
+
+  const payments = await client
+    .select({
+      amount: payment.amount,
+      amountUsd: payment.amountUsd,
+      amountInPledgeCurrency: payment.amountInPledgeCurrency,
+      refunded: paymentRefundedAmount,
+      paymentStatus: payment.paymentStatus,
+      currency: payment.currency,
+      receivedDate: payment.receivedDate,
+      paymentDate: payment.paymentDate,
+    })
+    .from(payment)
+    .where(and(
+      eq(payment.pledgeId, pledgeId),
+      or(
+        eq(payment.paymentStatus, "completed"),
+        eq(payment.paymentStatus, "processing")
+      )
+    ));
+
+  const allocatedPayments = await client
+    .select({
+      allocatedAmount: paymentAllocations.allocatedAmount,
+      allocatedAmountUsd: paymentAllocations.allocatedAmountUsd,
+      allocatedAmountInPledgeCurrency: paymentAllocations.allocatedAmountInPledgeCurrency,
+      refunded: allocationRefundedAmount,
+      currency: paymentAllocations.currency,
+      paymentStatus: payment.paymentStatus,
+      receivedDate: payment.receivedDate,
+      paymentDate: payment.paymentDate,
+    })
+    .from(paymentAllocations)
+    .innerJoin(payment, eq(paymentAllocations.paymentId, payment.id))
+    .where(and(
+      eq(paymentAllocations.pledgeId, pledgeId),
+      or(
+        eq(payment.paymentStatus, "completed"),
+        eq(payment.paymentStatus, "processing")
+      )
+    ));
+
+  let totalPaidInPledgeCurrency = Decimal.zero();
+  let totalPaidUsd = Decimal.zero();
+
+  for (const p of payments) {
+    const exchangeRateDate = p.receivedDate || new Date().toISOString().split('T')[0];
+    const share = netShare(p.amount, p.refunded);
+
+    const inPledgeCurrency = p.amountInPledgeCurrency
+      ? decimal(p.amountInPledgeCurrency)
+      : (await convertCurrency(p.amount, p.currency, pledgeCurrency, exchangeRateDate, client)).convertedAmount;
+    totalPaidInPledgeCurrency = totalPaidInPledgeCurrency.plus(inPledgeCurrency.times(share));
+
+    const inUsd = p.amountUsd
+      ? decimal(p.amountUsd)
+      : (await convertCurrency(p.amount, p.currency, 'USD', exchangeRateDate, client)).convertedAmount;
+    totalPaidUsd = totalPaidUsd.plus(inUsd.times(share));
+  }
+
+  for (const a of allocatedPayments) {
+    const exchangeRateDate = a.receivedDate || new Date().toISOString().split('T')[0];
+    const share = netShare(a.allocatedAmount, a.refunded);
+
+    const inPledgeCurrency = a.allocatedAmountInPledgeCurrency
+      ? decimal(a.allocatedAmountInPledgeCurrency)
+      : (await convertCurrency(a.allocatedAmount, a.currency, pledgeCurrency, exchangeRateDate, client)).convertedAmount;
+    totalPaidInPledgeCurrency = totalPaidInPledgeCurrency.plus(inPledgeCurrency.times(share));
+
+    const inUsd = a.allocatedAmountUsd
+      ? decimal(a.allocatedAmountUsd)
+      : (await convertCurrency(a.allocatedAmount, a.currency, 'USD', exchangeRateDate, client)).convertedAmount;
+    totalPaidUsd = totalPaidUsd.plus(inUsd.times(share));
+  }
+
+  const totalAdjusted = decimal(currentPledge.totalAdjusted);
+  const totalAdjustedUsd = decimal(currentPledge.totalAdjustedUsd);
+  const balance = decimal(currentPledge.originalAmount).minus(totalPaidInPledgeCurrency).minus(totalAdjusted).clampToZero();
+  const balanceUsd = currentPledge.originalAmountUsd
+    ? decimal(currentPledge.originalAmountUsd).minus(totalPaidUsd).minus(totalAdjustedUsd).clampToZero()
+    : null;
+
+  return {
+    totalPaid: totalPaidInPledgeCurrency.toMoney(pledgeCurrency),
+    balance: balance.toMoney(pledgeCurrency),
+    totalPaidUsd: totalPaidUsd.isPositive() ? totalPaidUsd.toMoney("USD") : null,
+    balanceUsd: balanceUsd ? balanceUsd.toMoney("USD") : null,
+    totalAdjusted: totalAdjusted.toMoney(pledgeCurrency),
+    totalAdjustedUsd: totalAdjustedUsd.toMoney("USD"),
+  };
+}
+
+/**
+ * Recomputes a pledge's stored totals. Pass the transaction when called
+ * mid-write so the totals see the uncommitted rows.
+ */
+export async function updatePledgeTotals(pledgeId: number, client: DbClient = db) {
+  const totals = await computePledgeTotals(pledgeId, client);
+  await client
+    .update(pledge)
+    .set({ ...totals, updatedAt: new Date() })
+    .where(eq(pledge.id, pledgeId));
+}
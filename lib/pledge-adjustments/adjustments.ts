@@ -0,0 +1,215 @@
+import { desc, eq, inArray } from "drizzle-orm";
+import { db, withTransaction, type Transaction } from "@/lib/db";
+import {
+  pledge,
+  pledgeAdjustment,
+  pledgeAdjustmentReasonEnum,
+  pledgeAdjustmentTypeEnum,
+  user,
+  type Pledge,
+  type PledgeAdjustment,
+} from "@/lib/db/schema";
+import { decimal, minorUnits, proportionOf, type Decimal } from "@/lib/money";
+import { updatePledgeTotals } from "@/lib/payment-totals";
+import { DomainError } from "@/lib/error-handler";
+
+export type PledgeAdjustmentType = (typeof pledgeAdjustmentTypeEnum.enumValues)[number];
+export type PledgeAdjustmentReason = (typeof pledgeAdjustmentReasonEnum.enumValues)[number];
+
+export class PledgeAdjustmentError extends DomainError {
+  constructor(message: string, statusCode: 400 | 404 | 409) {
+    super(message, statusCode);
+    this.name = "PledgeAdjustmentError";
+  }
+}
+
+export interface AdjustmentInput {
+  type: PledgeAdjustmentType;
+  reasonCode: PledgeAdjustmentReason;
+  // In the pledge's currency; a write-off without one takes the whole balance
+  amount?: number;
+  effectiveDate: string;
+  notes?: string | null;
+}
+
+export interface AdjustmentChange {
+  before: PledgeAdjustment | null;
+  adjustment: PledgeAdjustment;
+  // The pledge as it was and as the adjustment left it, when it was applied or undone
+  pledge?: { before: Pledge; after: Pledge };
+}
+
+// USD at the pledge's own rate, so balanceUsd moves in step with balance
+function usdShare(current: Pledge, amount: Decimal): string | null {
+  if (!current.originalAmountUsd || decimal(current.originalAmount).isZero()) return null;
+  return proportionOf(current.originalAmountUsd, amount, current.originalAmount, "USD");
+}
+
+async function lockPledge(tx: Transaction, pledgeId: number) {
+  const [found] = await tx.select().from(pledge).where(eq(pledge.id, pledgeId)).limit(1).for("update");
+  if (!found) throw new PledgeAdjustmentError("Pledge not found", 404);
+  return found;
+}
+
+async function lockAdjustment(tx: Transaction, adjustmentId: number, status: PledgeAdjustment["status"]) {
+  const [found] = await tx
+    .select()
+    .from(pledgeAdjustment)
+    .where(eq(pledgeAdjustment.id, adjustmentId))
+    .limit(1)
+    .for("update");
+  if (!found) throw new PledgeAdjustmentError("Adjustment not found", 404);
+  if (found.status !== status) {
+    throw new PledgeAdjustmentError(`Adjustment is ${found.status}, not ${status}`, 409);
+  }
+  return found;
+}
+
+/**
+ * Approves inside an open transaction: the amount must still fit the
+ * pledge's balance, which then drops by it through the pledge totals.
+ */
+async function applyApproval(
+  tx: Transaction,
+  before: PledgeAdjustment,
+  approvedBy: number | null
+): Promise<Required<AdjustmentChange>> {
+  const pledgeBefore = await lockPledge(tx, before.pledgeId);
+  if (decimal(before.amount).compare(pledgeBefore.balance) > 0) {
+    throw new PledgeAdjustmentError(
+      `The pledge balance is ${pledgeBefore.balance} ${pledgeBefore.currency}; the adjustment cannot exceed it`,
+      409
+    );
+  }
+
+  const [adjustment] = await tx
+    .update(pledgeAdjustment)
+    .set({ status: "approved", approvedBy, approvedAt: new Date(), updatedAt: new Date() })
+    .where(eq(pledgeAdjustment.id, before.id))
+    .returning();
+  await updatePledgeTotals(before.pledgeId, tx);
+  const [pledgeAfter] = await tx.select().from(pledge).where(eq(pledge.id, before.pledgeId));
+  return { before, adjustment, pledge: { before: pledgeBefore, after: pledgeAfter } };
+}
+
+/**
+ * Files a write-off or reduction against a pledge's outstanding balance.
+ * It waits for an admin unless `approvedBy` is given, in which case the
+ * requester approves it in the same step.
+ */
+export async function requestAdjustment(
+  pledgeId: number,
+  input: AdjustmentInput,
+  options: { requestedBy: number | null; approvedBy?: number | null }
+): Promise<AdjustmentChange> {
+  return withTransaction(async (tx) => {
+    const current = await lockPledge(tx, pledgeId);
+    const balance = decimal(current.balance);
+    if (!balance.isPositive()) throw new PledgeAdjustmentError("The pledge has no balance left to adjust", 409);
+
+    const amount =
+      input.amount === undefined
+        ? input.type === "write_off"
+          ? balance
+          : decimal(0)
+        : decimal(input.amount).round(minorUnits(current.currency));
+    if (!amount.isPositive()) throw new PledgeAdjustmentError("Adjustment amount must be positive", 400);
+    if (amount.compare(balance) > 0) {
+      throw new PledgeAdjustmentError(
+        `At most ${current.balance} ${current.currency} is outstanding on this pledge`,
+        400
+      );
+    }
+
+    const [created] = await tx
+      .insert(pledgeAdjustment)
+      .values({
+        pledgeId,
+        type: input.type,
+        reasonCode: input.reasonCode,
+        amount: amount.toMoney(current.currency),
+        amountUsd: usdShare(current, amount),
+        effectiveDate: input.effectiveDate,
+        notes: input.notes || null,
+        requestedBy: options.requestedBy,
+      })
+      .returning();
+
+    if (options.approvedBy === undefined) return { before: null, adjustment: created };
+    const approved = await applyApproval(tx, created, options.approvedBy);
+    return { ...approved, before: null };
+  });
+}
+
+export async function approveAdjustment(adjustmentId: number, approvedBy: number | null): Promise<AdjustmentChange> {
+  return withTransaction(async (tx) => {
+    const before = await lockAdjustment(tx, adjustmentId, "pending");
+    return applyApproval(tx, before, approvedBy);
+  });
+}
+
+export async function declineAdjustment(
+  adjustmentId: number,
+  reason: string,
+  closedBy: number | null
+): Promise<AdjustmentChange> {
+  return withTransaction(async (tx) => {
+    const before = await lockAdjustment(tx, adjustmentId, "pending");
+    const [adjustment] = await tx
+      .update(pledgeAdjustment)
+      .set({ status: "declined", closedBy, closedAt: new Date(), closeReason: reason, updatedAt: new Date() })
+      .where(eq(pledgeAdjustment.id, adjustmentId))
+      .returning();
+    return { before, adjustment };
+  });
+}
+
+/**
+ * Undoes an approved adjustment, for instance when a written-off donor pays
+ * after all. The row stays on file as reversed and the balance comes back.
+ */
+export async function reverseAdjustment(
+  adjustmentId: number,
+  reason: string,
+  closedBy: number | null
+): Promise<AdjustmentChange> {
+  return withTransaction(async (tx) => {
+    const before = await lockAdjustment(tx, adjustmentId, "approved");
+    const pledgeBefore = await lockPledge(tx, before.pledgeId);
+    const [adjustment] = await tx
+      .update(pledgeAdjustment)
+      .set({ status: "reversed", closedBy, closedAt: new Date(), closeReason: reason, updatedAt: new Date() })
+      .where(eq(pledgeAdjustment.id, adjustmentId))
+      .returning();
+    await updatePledgeTotals(before.pledgeId, tx);
+    const [pledgeAfter] = await tx.select().from(pledge).where(eq(pledge.id, before.pledgeId));
+    return { before, adjustment, pledge: { before: pledgeBefore, after: pledgeAfter } };
+  });
+}
+
+export async function listPledgeAdjustments(pledgeId: number) {
+  const adjustments = await db
+    .select()
+    .from(pledgeAdjustment)
+    .where(eq(pledgeAdjustment.pledgeId, pledgeId))
+    .orderBy(desc(pledgeAdjustment.effectiveDate), desc(pledgeAdjustment.id));
+
+  const userIds = [
+    ...new Set(
+      adjustments.flatMap((adjustment) => [adjustment.requestedBy, adjustment.approvedBy, adjustment.closedBy])
+    ),
+  ].filter((id): id is number => id !== null);
+  const users =
+    userIds.length > 0
+      ? await db.select({ id: user.id, email: user.email }).from(user).where(inArray(user.id, userIds))
+      : [];
+  const emailOf = (id: number | null) => users.find((candidate) => candidate.id === id)?.email ?? null;
+
+  return adjustments.map((adjustment) => ({
+    ...adjustment,
+    requestedByEmail: emailOf(adjustment.requestedBy),
+    approvedByEmail: emailOf(adjustment.approvedBy),
+    closedByEmail: emailOf(adjustment.closedBy),
+  }));
+}
+
@@ -0,0 +1,145 @@
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+
+export interface AchBatchSummary {
+  id: number;
+  fromDate: string;
+  toDate: string;
+  effectiveDate: string;
+  entryCount: number;
+  totalAmount: string;
+  fileName: string;
+  settledAt: string | null;
+  createdAt: string;
+  returnedCount: number;
+}
+
+export interface AchBatchesResponse {
+  batches: AchBatchSummary[];
+  pagination: {
+    page: number;
+    limit: number;
+    totalCount: number;
+    totalPages: number;
+  };
+}
+
+export interface AchDebitCandidate {
+  installmentId: number;
+  installmentDate: string;
+  paymentPlanId: number;
+  contactId: number;
+  contactName: string;
+  amount: string;
+  currency: string;
+  methodDetail: string;
+}
+
+export interface AchSkipped {
+  installmentId: number;
+  paymentPlanId: number;
+  reason: string;
+}
+
+export interface AchBatchPreview {
+  debits: AchDebitCandidate[];
+  skipped: AchSkipped[];
+  totalAmount: string;
+}
+
+export interface AchBatchRangeData {
+  fromDate: string;
+  toDate: string;
+  effectiveDate: string;
+}
+
+export interface GenerateAchBatchResponse {
+  message: string;
+  batch: AchBatchSummary;
+  skipped: AchSkipped[];
+}
+
+export interface ImportAchReturnsResponse {
+  message: string;
+  returned: { entryId: number; batchId: number; traceNumber: string; returnCode: string; returnReason: string }[];
+  alreadyReturned: string[];
+  unmatched: string[];
+  notices: { originalTraceNumber: string; changeCode: string; correctedData: string }[];
+}
+
+const postJson = async <T>(url: string, body: object | null, failure: string): Promise<T> => {
+  const response = await fetch(url, {
+    method: "POST",
+    headers: {
+      "Content-Type": "application/json",
+    },
+    body: body ? JSON.stringify(body) : undefined,
+  });
+
+  if (!response.ok) {
+    const errorData = await response.json();
+    throw new Error(errorData.error || errorData.message || `${failure}: ${response.statusText}`);
+  }
+  return response.json();
+};
+
+const fetchAchBatches = async (page: number, limit: number): Promise<AchBatchesResponse> => {
+  const response = await fetch(`/api/admin/ach-batches?page=${page}&limit=${limit}`);
+  if (!response.ok) {
+    throw new Error(`Failed to fetch ACH batches: ${response.statusText}`);
+  }
+  return response.json();
+};
+
+export const achBatchKeys = {
+  all: ["ach-batches"] as const,
+  list: (page: number, limit: number) => [...achBatchKeys.all, "list", page, limit] as const,
+};
+
+export const useAchBatchesQuery = (page: number, limit: number) => {
+  return useQuery({
+    queryKey: achBatchKeys.list(page, limit),
+    queryFn: () => fetchAchBatches(page, limit),
+    staleTime: 1000 * 60,
+  });
+};
+
+// Not cached: the due installments change as soon as a batch is generated
+export const usePreviewAchBatchMutation = () =>
+  useMutation({
+    mutationFn: (data: AchBatchRangeData) =>
+      postJson<AchBatchPreview>("/api/admin/ach-batches", { ...data, preview: true }, "Failed to preview ACH batch"),
+  });
+
+const useAchBatchMutation = <T, R>(mutationFn: (data: T) => Promise<R>, label: string) => {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn,
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: achBatchKeys.all });
+    },
+    onError: (error) => {
+      console.error(`Error ${label}:`, error);
+    },
+  });
+};
+
+export const useGenerateAchBatchMutation = () =>
+  useAchBatchMutation(
+    (data: AchBatchRangeData) =>
+      postJson<GenerateAchBatchResponse>("/api/admin/ach-batches", data, "Failed to generate ACH batch"),
+    "generating ACH batch"
+  );
+
+export const useSettleAchBatchMutation = () =>
+  useAchBatchMutation(
+    (batchId: number) =>
+      postJson<{ message: string }>(`/api/admin/ach-batches/${batchId}/settle`, null, "Failed to settle ACH batch"),
+    "settling ACH batch"
+  );
+
+export const useImportAchReturnsMutation = () =>
+  useAchBatchMutation(
+    (content: string) =>
+      postJson<ImportAchReturnsResponse>("/api/admin/ach-batches/returns", { content }, "Failed to import return file"),
+    "importing ACH returns"
+  );
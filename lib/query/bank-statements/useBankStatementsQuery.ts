@@ -0,0 +1,242 @@
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+
+export type BankLineStatus = "unmatched" | "review" | "matched" | "ignored";
+
+export interface BankStatementSummary {
+  id: number;
+  fileName: string;
+  format: "csv" | "ofx";
+  currency: string;
+  periodStart: string | null;
+  periodEnd: string | null;
+  lineCount: number;
+  duplicateCount: number;
+  createdAt: string;
+  matchedCount: number;
+  reviewCount: number;
+  unmatchedCount: number;
+  ignoredCount: number;
+}
+
+export interface Pagination {
+  page: number;
+  limit: number;
+  totalCount: number;
+  totalPages: number;
+}
+
+export interface BankStatementsResponse {
+  statements: BankStatementSummary[];
+  pagination: Pagination;
+}
+
+export interface BankStatementLine {
+  id: number;
+  statementId: number;
+  fileName: string;
+  currency: string;
+  postedDate: string;
+  amount: string;
+  description: string | null;
+  referenceNumber: string | null;
+  checkNumber: string | null;
+  status: BankLineStatus;
+  paymentId: number | null;
+  matchMethod: "auto" | "manual" | "created" | null;
+  candidatePaymentIds: number[] | null;
+  matchNote: string | null;
+}
+
+export interface BankStatementLinesResponse {
+  lines: BankStatementLine[];
+  pagination: Pagination;
+}
+
+export interface CandidatePayment {
+  id: number;
+  amount: string;
+  currency: string;
+  paymentDate: string;
+  receivedDate: string | null;
+  paymentMethod: string | null;
+  paymentStatus: string;
+  checkNumber: string | null;
+  referenceNumber: string | null;
+  pledgeId: number | null;
+  contactId: number | null;
+  contactName: string | null;
+  isReconciled: boolean;
+}
+
+export interface BankLineDetailResponse {
+  line: Omit<BankStatementLine, "fileName">;
+  candidates: CandidatePayment[];
+}
+
+export interface MonthCloseSummary {
+  month: string;
+  deposits: Record<BankLineStatus, { count: number; total: string }>;
+  payments: { currency: string; count: number; total: string; reconciledCount: number; reconciledTotal: string }[];
+  readyToClose: boolean;
+}
+
+export interface ImportStatementData {
+  fileName: string;
+  content: string;
+  currency?: string;
+}
+
+export type LineActionData =
+  | { lineId: number; action: "match"; paymentId: number }
+  | { lineId: number; action: "ignore"; note?: string }
+  | { lineId: number; action: "reopen" };
+
+export interface DepositPaymentData {
+  lineId: number;
+  pledgeId: number;
+  paymentMethod: string;
+  notes?: string;
+}
+
+interface MutationResponse {
+  message?: string;
+}
+
+const sendJson = async <T>(
+  url: string,
+  method: "POST" | "PATCH" | "DELETE",
+  body: object | null,
+  failure: string
+): Promise<T> => {
+  const response = await fetch(url, {
+    method,
+    headers: {
+      "Content-Type": "application/json",
+    },
+    body: body ? JSON.stringify(body) : undefined,
+  });
+
+  if (!response.ok) {
+    const errorData = await response.json();
+    throw new Error(errorData.error || errorData.message || `${failure}: ${response.statusText}`);
+  }
+  return response.json();
+};
+
+const fetchJson = async <T>(url: string, failure: string): Promise<T> => {
+  const response = await fetch(url);
+  if (!response.ok) {
+    throw new Error(`${failure}: ${response.statusText}`);
+  }
+  return response.json();
+};
+
+export const bankStatementKeys = {
+  all: ["bank-statements"] as const,
+  list: (page: number) => [...bankStatementKeys.all, "list", page] as const,
+  lines: (status: string, page: number) => [...bankStatementKeys.all, "lines", status, page] as const,
+  line: (lineId: number) => [...bankStatementKeys.all, "line", lineId] as const,
+  summary: (month: string) => [...bankStatementKeys.all, "summary", month] as const,
+};
+
+export const useBankStatementsQuery = (page: number) => {
+  return useQuery({
+    queryKey: bankStatementKeys.list(page),
+    queryFn: () =>
+      fetchJson<BankStatementsResponse>(`/api/admin/bank-statements?page=${page}`, "Failed to fetch bank statements"),
+    staleTime: 1000 * 60,
+  });
+};
+
+export const useBankStatementLinesQuery = (status: BankLineStatus | "open", page: number) => {
+  return useQuery({
+    queryKey: bankStatementKeys.lines(status, page),
+    queryFn: () =>
+      fetchJson<BankStatementLinesResponse>(
+        `/api/admin/bank-statements/lines?status=${status}&page=${page}`,
+        "Failed to fetch deposits"
+      ),
+    staleTime: 1000 * 60,
+  });
+};
+
+export const useBankLineDetailQuery = (lineId: number | null) => {
+  return useQuery({
+    queryKey: bankStatementKeys.line(lineId ?? 0),
+    queryFn: () =>
+      fetchJson<BankLineDetailResponse>(`/api/admin/bank-statements/lines/${lineId}`, "Failed to fetch deposit"),
+    enabled: !!lineId,
+  });
+};
+
+export const useMonthCloseSummaryQuery = (month: string) => {
+  return useQuery({
+    queryKey: bankStatementKeys.summary(month),
+    queryFn: () =>
+      fetchJson<MonthCloseSummary>(
+        `/api/admin/bank-statements/summary?month=${month}`,
+        "Failed to fetch reconciliation summary"
+      ),
+    enabled: /^\d{4}-\d{2}$/.test(month),
+    staleTime: 1000 * 60,
+  });
+};
+
+const useReconciliationMutation = <T, R extends MutationResponse>(
+  mutationFn: (data: T) => Promise<R>,
+  label: string
+) => {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn,
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: bankStatementKeys.all });
+    },
+    onError: (error) => {
+      console.error(`Error ${label}:`, error);
+    },
+  });
+};
+
+export const useImportBankStatementMutation = () =>
+  useReconciliationMutation(
+    (data: ImportStatementData) =>
+      sendJson<MutationResponse & { message: string }>(
+        "/api/admin/bank-statements",
+        "POST",
+        data,
+        "Failed to import bank statement"
+      ),
+    "importing bank statement"
+  );
+
+export const useDeleteBankStatementMutation = () =>
+  useReconciliationMutation(
+    (statementId: number) =>
+      sendJson<MutationResponse & { message: string }>(
+        `/api/admin/bank-statements/${statementId}`,
+        "DELETE",
+        null,
+        "Failed to delete bank statement"
+      ),
+    "deleting bank statement"
+  );
+
+export const useBankLineActionMutation = () =>
+  useReconciliationMutation(
+    ({ lineId, ...data }: LineActionData) =>
+      sendJson<MutationResponse>(`/api/admin/bank-statements/lines/${lineId}`, "PATCH", data, "Failed to update deposit"),
+    "updating deposit"
+  );
+
+export const useCreateDepositPaymentMutation = () =>
+  useReconciliationMutation(
+    ({ lineId, ...data }: DepositPaymentData) =>
+      sendJson<MutationResponse & { message: string }>(
+        `/api/admin/bank-statements/lines/${lineId}/payment`,
+        "POST",
+        data,
+        "Failed to record payment"
+      ),
+    "recording payment from deposit"
+  );
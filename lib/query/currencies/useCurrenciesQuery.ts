@@ -0,0 +1,104 @@
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { registerCurrencyFormats } from "@/lib/format";
+import type { CurrencyFormData } from "@/lib/form-schemas/currency";
+
+export interface CurrencyOption {
+  code: string;
+  name: string;
+  symbol: string;
+  minorUnits: number;
+  isActive: boolean;
+  // Null when the row applies to every location
+  locationId: string | null;
+}
+
+interface CurrenciesResponse {
+  currencies: CurrencyOption[];
+}
+
+interface MutationResponse {
+  message?: string;
+}
+
+// Offered while the list loads, so forms defaulting to USD render at once
+const BASE_OPTION: CurrencyOption = {
+  code: "USD",
+  name: "US Dollar",
+  symbol: "$",
+  minorUnits: 2,
+  isActive: true,
+  locationId: null,
+};
+
+const fetchCurrencies = async (url: string): Promise<CurrenciesResponse> => {
+  const response = await fetch(url);
+  if (!response.ok) {
+    throw new Error(`Failed to fetch currencies: ${response.statusText}`);
+  }
+  const data: CurrenciesResponse = await response.json();
+  // Amounts formatted after this use the table's symbols and decimals
+  registerCurrencyFormats(data.currencies);
+  return data;
+};
+
+export const currencyKeys = {
+  all: ["currencies"] as const,
+  enabled: () => [...currencyKeys.all, "enabled"] as const,
+  admin: () => [...currencyKeys.all, "admin"] as const,
+};
+
+/** The currencies enabled for the user's location, USD first. */
+export const useCurrenciesQuery = () => {
+  const query = useQuery({
+    queryKey: currencyKeys.enabled(),
+    queryFn: () => fetchCurrencies("/api/currencies"),
+    staleTime: 1000 * 60 * 5,
+  });
+  return { ...query, currencies: query.data?.currencies ?? [BASE_OPTION] };
+};
+
+/**
+ * The codes to offer in a currency select. A record saved in a currency
+ * since turned off keeps it as a choice, so editing it changes nothing
+ * by surprise.
+ */
+export const currencyChoices = (currencies: CurrencyOption[], current?: string | null): string[] => {
+  const codes = currencies.map((currency) => currency.code);
+  return current && !codes.includes(current) ? [...codes, current] : codes;
+};
+
+export const useAdminCurrenciesQuery = () => {
+  return useQuery({
+    queryKey: currencyKeys.admin(),
+    queryFn: () => fetchCurrencies("/api/admin/currencies"),
+    staleTime: 1000 * 60,
+  });
+};
+
+export const useSaveCurrencyMutation = () => {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: async (data: CurrencyFormData): Promise<MutationResponse> => {
+      const response = await fetch("/api/admin/currencies", {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify(data),
+      });
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error(errorData.error || errorData.message || `Failed to save currency: ${response.statusText}`);
+      }
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: currencyKeys.all });
+      // Newly enabled currencies are fetched with the daily rates
+      queryClient.invalidateQueries({ queryKey: ["exchangeRates"] });
+    },
+    onError: (error) => {
+      console.error("Error saving currency:", error);
+    },
+  });
+};
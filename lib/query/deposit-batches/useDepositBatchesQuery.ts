@@ -0,0 +1,214 @@
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+
+export type DepositBatchStatus = "open" | "closed";
+
+export interface DepositBatchSummary {
+  id: number;
+  depositDate: string;
+  currency: string;
+  slipTotal: string | null;
+  status: DepositBatchStatus;
+  notes: string | null;
+  closedAt: string | null;
+  exportedAt: string | null;
+  createdAt: string;
+  checkCount: number;
+  runningTotal: string;
+}
+
+export interface DepositBatchesResponse {
+  batches: DepositBatchSummary[];
+  pagination: {
+    page: number;
+    limit: number;
+    totalCount: number;
+    totalPages: number;
+  };
+}
+
+export interface BatchCheck {
+  paymentId: number;
+  checkNumber: string | null;
+  checkDate: string | null;
+  amount: string;
+  currency: string;
+  amountUsd: string | null;
+  pledgeId: number | null;
+  pledgeDescription: string | null;
+  campaignCode: string | null;
+  contactId: number | null;
+  contactName: string | null;
+  payerName: string | null;
+  isReconciled: boolean;
+  notes: string | null;
+}
+
+export interface DepositBatchDetailResponse {
+  batch: DepositBatchSummary;
+  checks: BatchCheck[];
+}
+
+export interface CreateDepositBatchData {
+  depositDate: string;
+  currency: string;
+  slipTotal?: number | null;
+  notes?: string | null;
+}
+
+export interface UpdateDepositBatchData {
+  batchId: number;
+  depositDate?: string;
+  slipTotal?: number | null;
+  notes?: string | null;
+}
+
+export interface AddCheckData {
+  batchId: number;
+  pledgeId: number;
+  amount: number;
+  checkNumber: string;
+  checkDate?: string | null;
+  notes?: string | null;
+}
+
+interface MutationResponse {
+  message: string;
+}
+
+const sendJson = async <T>(
+  url: string,
+  method: "POST" | "PATCH" | "DELETE",
+  body: object | null,
+  failure: string
+): Promise<T> => {
+  const response = await fetch(url, {
+    method,
+    headers: {
+      "Content-Type": "application/json",
+    },
+    body: body ? JSON.stringify(body) : undefined,
+  });
+
+  if (!response.ok) {
+    const errorData = await response.json();
+    throw new Error(errorData.error || errorData.message || `${failure}: ${response.statusText}`);
+  }
+  return response.json();
+};
+
+const fetchJson = async <T>(url: string, failure: string): Promise<T> => {
+  const response = await fetch(url);
+  if (!response.ok) {
+    throw new Error(`${failure}: ${response.statusText}`);
+  }
+  return response.json();
+};
+
+export const depositBatchKeys = {
+  all: ["deposit-batches"] as const,
+  list: (status: string, page: number) => [...depositBatchKeys.all, "list", status, page] as const,
+  detail: (batchId: number) => [...depositBatchKeys.all, "detail", batchId] as const,
+};
+
+export const useDepositBatchesQuery = (status: DepositBatchStatus | "all", page: number) => {
+  return useQuery({
+    queryKey: depositBatchKeys.list(status, page),
+    queryFn: () =>
+      fetchJson<DepositBatchesResponse>(
+        `/api/admin/deposit-batches?page=${page}${status === "all" ? "" : `&status=${status}`}`,
+        "Failed to fetch deposit batches"
+      ),
+    staleTime: 1000 * 60,
+  });
+};
+
+export const useDepositBatchQuery = (batchId: number | null) => {
+  return useQuery({
+    queryKey: depositBatchKeys.detail(batchId ?? 0),
+    queryFn: () =>
+      fetchJson<DepositBatchDetailResponse>(`/api/admin/deposit-batches/${batchId}`, "Failed to fetch deposit batch"),
+    enabled: !!batchId,
+  });
+};
+
+const useDepositBatchMutation = <T, R>(mutationFn: (data: T) => Promise<R>, label: string) => {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn,
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: depositBatchKeys.all });
+    },
+    onError: (error) => {
+      console.error(`Error ${label}:`, error);
+    },
+  });
+};
+
+export const useCreateDepositBatchMutation = () =>
+  useDepositBatchMutation(
+    (data: CreateDepositBatchData) =>
+      sendJson<MutationResponse & { batch: DepositBatchSummary }>(
+        "/api/admin/deposit-batches",
+        "POST",
+        data,
+        "Failed to open deposit batch"
+      ),
+    "opening deposit batch"
+  );
+
+export const useUpdateDepositBatchMutation = () =>
+  useDepositBatchMutation(
+    ({ batchId, ...data }: UpdateDepositBatchData) =>
+      sendJson<MutationResponse>(`/api/admin/deposit-batches/${batchId}`, "PATCH", data, "Failed to update deposit batch"),
+    "updating deposit batch"
+  );
+
+export const useDeleteDepositBatchMutation = () =>
+  useDepositBatchMutation(
+    (batchId: number) =>
+      sendJson<MutationResponse>(`/api/admin/deposit-batches/${batchId}`, "DELETE", null, "Failed to delete deposit batch"),
+    "deleting deposit batch"
+  );
+
+export const useAddCheckMutation = () =>
+  useDepositBatchMutation(
+    ({ batchId, ...data }: AddCheckData) =>
+      sendJson<MutationResponse & { paymentId: number }>(
+        `/api/admin/deposit-batches/${batchId}/checks`,
+        "POST",
+        data,
+        "Failed to add check"
+      ),
+    "adding check to deposit batch"
+  );
+
+export const useRemoveCheckMutation = () =>
+  useDepositBatchMutation(
+    ({ batchId, paymentId }: { batchId: number; paymentId: number }) =>
+      sendJson<MutationResponse>(
+        `/api/admin/deposit-batches/${batchId}/checks/${paymentId}`,
+        "DELETE",
+        null,
+        "Failed to remove check"
+      ),
+    "removing check from deposit batch"
+  );
+
+export const useCloseDepositBatchMutation = () =>
+  useDepositBatchMutation(
+    (batchId: number) =>
+      sendJson<MutationResponse>(`/api/admin/deposit-batches/${batchId}/close`, "POST", null, "Failed to close deposit batch"),
+    "closing deposit batch"
+  );
+
+export const useReopenDepositBatchMutation = () =>
+  useDepositBatchMutation(
+    (batchId: number) =>
+      sendJson<MutationResponse>(
+        `/api/admin/deposit-batches/${batchId}/reopen`,
+        "POST",
+        null,
+        "Failed to reopen deposit batch"
+      ),
+    "reopening deposit batch"
+  );
@@ -0,0 +1,146 @@
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+
+export type RateSource = "api" | "manual" | "import";
+
+export interface StoredRate {
+  id: number;
+  currency: string;
+  rate: string;
+  date: string;
+  source: RateSource;
+  updatedAt: string;
+}
+
+export interface StoredRatesResponse {
+  month: string;
+  // Name of the configured provider, or why it is misconfigured
+  provider: string;
+  rates: StoredRate[];
+}
+
+export interface RateLock {
+  id: number;
+  currency: string;
+  month: string;
+  rate: string;
+  note: string | null;
+  lockedByEmail: string | null;
+  createdAt: string;
+}
+
+export interface ManualRateData {
+  date: string;
+  currency: string;
+  rate: number;
+}
+
+export interface ImportRatesData {
+  fileName: string;
+  content: string;
+  base?: string;
+}
+
+export interface LockRateData {
+  currency: string;
+  month: string;
+  rate?: number;
+  note?: string | null;
+}
+
+interface MutationResponse {
+  message?: string;
+}
+
+const sendJson = async <T>(url: string, method: "POST" | "DELETE", body: object | null, failure: string): Promise<T> => {
+  const response = await fetch(url, {
+    method,
+    headers: {
+      "Content-Type": "application/json",
+    },
+    body: body ? JSON.stringify(body) : undefined,
+  });
+
+  if (!response.ok) {
+    const errorData = await response.json();
+    throw new Error(errorData.error || errorData.message || `${failure}: ${response.statusText}`);
+  }
+  return response.json();
+};
+
+const fetchJson = async <T>(url: string, failure: string): Promise<T> => {
+  const response = await fetch(url);
+  if (!response.ok) {
+    throw new Error(`${failure}: ${response.statusText}`);
+  }
+  return response.json();
+};
+
+export const exchangeRateAdminKeys = {
+  all: ["exchange-rates-admin"] as const,
+  stored: (month: string, currency: string) => [...exchangeRateAdminKeys.all, "stored", month, currency] as const,
+  locks: () => [...exchangeRateAdminKeys.all, "locks"] as const,
+};
+
+export const useStoredRatesQuery = (month: string, currency: string) => {
+  return useQuery({
+    queryKey: exchangeRateAdminKeys.stored(month, currency),
+    queryFn: () =>
+      fetchJson<StoredRatesResponse>(
+        `/api/admin/exchange-rates?month=${month}${currency ? `&currency=${currency}` : ""}`,
+        "Failed to fetch exchange rates"
+      ),
+    enabled: /^\d{4}-\d{2}$/.test(month),
+    staleTime: 1000 * 60,
+  });
+};
+
+export const useRateLocksQuery = () => {
+  return useQuery({
+    queryKey: exchangeRateAdminKeys.locks(),
+    queryFn: () => fetchJson<{ locks: RateLock[] }>("/api/admin/exchange-rates/locks", "Failed to fetch rate locks"),
+    staleTime: 1000 * 60,
+  });
+};
+
+const useRateMutation = <T, R extends MutationResponse>(mutationFn: (data: T) => Promise<R>, label: string) => {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn,
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: exchangeRateAdminKeys.all });
+      // Converters read the daily rates through this key
+      queryClient.invalidateQueries({ queryKey: ["exchangeRates"] });
+    },
+    onError: (error) => {
+      console.error(`Error ${label}:`, error);
+    },
+  });
+};
+
+export const useSaveManualRateMutation = () =>
+  useRateMutation(
+    (data: ManualRateData) =>
+      sendJson<MutationResponse>("/api/admin/exchange-rates", "POST", data, "Failed to save rate"),
+    "saving exchange rate"
+  );
+
+export const useImportRatesMutation = () =>
+  useRateMutation(
+    (data: ImportRatesData) =>
+      sendJson<MutationResponse>("/api/admin/exchange-rates/import", "POST", data, "Failed to import rates"),
+    "importing exchange rates"
+  );
+
+export const useLockRateMutation = () =>
+  useRateMutation(
+    (data: LockRateData) =>
+      sendJson<MutationResponse>("/api/admin/exchange-rates/locks", "POST", data, "Failed to lock rate"),
+    "locking exchange rate"
+  );
+
+export const useUnlockRateMutation = () =>
+  useRateMutation(
+    (lockId: number) =>
+      sendJson<MutationResponse>(`/api/admin/exchange-rates/locks/${lockId}`, "DELETE", null, "Failed to unlock rate"),
+    "unlocking exchange rate"
+  );
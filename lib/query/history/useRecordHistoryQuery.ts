@@ -0,0 +1,85 @@
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+
+export type HistoryRecordType = "pledge" | "payment";
+
+export interface RecordHistoryEntry {
+  id: number;
+  action: "create" | "update" | "delete";
+  userEmail: string;
+  details: string | null;
+  changes: Record<string, { from: unknown; to: unknown }> | null;
+  timestamp: string;
+}
+
+export interface RecordHistoryResponse {
+  history: RecordHistoryEntry[];
+}
+
+export interface RevertRecordData {
+  recordId: number;
+  auditLogId: number;
+}
+
+// Payments live under the shared /api/payments/[pledgeId] segment
+const historyUrl = (recordType: HistoryRecordType, recordId: number) =>
+  `/api/${recordType === "pledge" ? "pledges" : "payments"}/${recordId}/history`;
+
+const fetchRecordHistory = async (
+  recordType: HistoryRecordType,
+  recordId: number
+): Promise<RecordHistoryResponse> => {
+  const response = await fetch(historyUrl(recordType, recordId));
+  if (!response.ok) {
+    throw new Error(`Failed to fetch history: ${response.statusText}`);
+  }
+  return response.json();
+};
+
+const revertRecord = async (recordType: HistoryRecordType, data: RevertRecordData) => {
+  const response = await fetch(historyUrl(recordType, data.recordId), {
+    method: "POST",
+    headers: {
+      "Content-Type": "application/json",
+    },
+    body: JSON.stringify({ auditLogId: data.auditLogId }),
+  });
+
+  if (!response.ok) {
+    const errorData = await response.json();
+    throw new Error(errorData.error || `Failed to revert: ${response.statusText}`);
+  }
+  return response.json();
+};
+
+export const historyKeys = {
+  all: ["record-history"] as const,
+  record: (recordType: HistoryRecordType, recordId: number) =>
+    [...historyKeys.all, recordType, recordId] as const,
+};
+
+export const useRecordHistoryQuery = (
+  recordType: HistoryRecordType,
+  recordId: number,
+  options?: { enabled?: boolean }
+) => {
+  return useQuery({
+    queryKey: historyKeys.record(recordType, recordId),
+    queryFn: () => fetchRecordHistory(recordType, recordId),
+    enabled: (options?.enabled ?? true) && !!recordId,
+    staleTime: 1000 * 30,
+  });
+};
+
+export const useRevertRecordMutation = (recordType: HistoryRecordType) => {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: (data: RevertRecordData) => revertRecord(recordType, data),
+    onSuccess: () => {
+      // Totals of pledges and plans change along with the record
+      queryClient.invalidateQueries();
+    },
+    onError: (error) => {
+      console.error(`Error reverting ${recordType}:`, error);
+    },
+  });
+};
@@ -0,0 +1,133 @@
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+
+export type IntegritySeverity = "critical" | "warning";
+export type IntegrityIssueStatus = "open" | "fixed" | "failed";
+
+export interface IntegrityRun {
+  id: number;
+  trigger: "manual" | "scheduled";
+  status: "running" | "completed" | "failed";
+  startedAt: string;
+  finishedAt: string | null;
+  totalIssues: number;
+  criticalIssues: number;
+  warningIssues: number;
+  affectedContacts: number;
+  newCriticalIssues: number;
+  alertedAt: string | null;
+  error: string | null;
+}
+
+export interface IntegrityFixChange {
+  field: string;
+  from: string | null;
+  to: string;
+}
+
+export interface IntegrityIssue {
+  id: number;
+  runId: number;
+  issueKey: string;
+  type: string;
+  severity: IntegritySeverity;
+  contactId: number | null;
+  contactName: string | null;
+  recordType: string;
+  recordId: number;
+  description: string;
+  fix: { changes: IntegrityFixChange[] } | null;
+  status: IntegrityIssueStatus;
+  fixedAt: string | null;
+  fixError: string | null;
+}
+
+interface MutationResponse {
+  message?: string;
+}
+
+const sendJson = async <T>(url: string, failure: string): Promise<T> => {
+  const response = await fetch(url, {
+    method: "POST",
+    headers: {
+      "Content-Type": "application/json",
+    },
+  });
+
+  if (!response.ok) {
+    const errorData = await response.json();
+    throw new Error(errorData.error || errorData.message || `${failure}: ${response.statusText}`);
+  }
+  return response.json();
+};
+
+const fetchJson = async <T>(url: string, failure: string): Promise<T> => {
+  const response = await fetch(url);
+  if (!response.ok) {
+    throw new Error(`${failure}: ${response.statusText}`);
+  }
+  return response.json();
+};
+
+export const integrityKeys = {
+  all: ["integrity"] as const,
+  runs: () => [...integrityKeys.all, "runs"] as const,
+  run: (runId: number) => [...integrityKeys.all, "run", runId] as const,
+};
+
+export const useIntegrityRunsQuery = () => {
+  return useQuery({
+    queryKey: integrityKeys.runs(),
+    queryFn: () => fetchJson<{ runs: IntegrityRun[] }>("/api/admin/integrity/runs", "Failed to fetch integrity runs"),
+    staleTime: 1000 * 60,
+  });
+};
+
+export const useIntegrityRunQuery = (runId: number | null) => {
+  return useQuery({
+    queryKey: integrityKeys.run(runId ?? 0),
+    queryFn: () =>
+      fetchJson<{ run: IntegrityRun; issues: IntegrityIssue[] }>(
+        `/api/admin/integrity/runs/${runId}`,
+        "Failed to fetch integrity run"
+      ),
+    enabled: runId !== null,
+    staleTime: 1000 * 60,
+  });
+};
+
+export const useStartIntegrityRunMutation = () => {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: () =>
+      sendJson<MutationResponse & { run: IntegrityRun }>("/api/admin/integrity/runs", "Failed to run integrity check"),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: integrityKeys.runs() });
+    },
+    onError: (error) => {
+      console.error("Error running integrity check:", error);
+    },
+  });
+};
+
+export const useApplyIntegrityFixMutation = () => {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: (issueId: number) =>
+      sendJson<MutationResponse & { issue: IntegrityIssue }>(
+        `/api/admin/integrity/issues/${issueId}/fix`,
+        "Failed to apply fix"
+      ),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: integrityKeys.all });
+      // Fixed amounts and totals show up on pledges and payments
+      queryClient.invalidateQueries({ queryKey: ["pledges"] });
+      queryClient.invalidateQueries({ queryKey: ["payments"] });
+      queryClient.invalidateQueries({ queryKey: ["paymentPlans"] });
+    },
+    onError: (error, issueId) => {
+      // A failed fix is recorded on the issue, so the list needs the new status
+      queryClient.invalidateQueries({ queryKey: integrityKeys.all });
+      console.error(`Error applying fix for issue ${issueId}:`, error);
+    },
+  });
+};
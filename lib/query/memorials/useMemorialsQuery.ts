@@ -0,0 +1,148 @@
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import type { MemorialInput } from "@/lib/form-schemas/memorial";
+
+export interface ContactMemorial {
+  id: number;
+  contactId: number;
+  pledgeId: number | null;
+  deceasedName: string;
+  deceasedHebrewName: string | null;
+  relationship: string | null;
+  dateOfPassing: string;
+  afterSunset: boolean;
+  hebrewDay: number;
+  hebrewMonth: number;
+  hebrewYear: number;
+  remindersEnabled: boolean;
+  isActive: boolean;
+  notes: string | null;
+  hebrewDateOfPassing: string;
+  nextYahrzeit: string;
+  nextYahrzeitHebrew: string;
+}
+
+export interface ContactMemorialsResponse {
+  memorials: ContactMemorial[];
+}
+
+export interface YahrzeitEntry {
+  memorialId: number;
+  deceasedName: string;
+  deceasedHebrewName: string | null;
+  relationship: string | null;
+  yahrzeitDate: string;
+  hebrewDate: string;
+  contactId: number;
+  contactName: string;
+  email: string | null;
+  phone: string | null;
+  remindersEnabled: boolean;
+}
+
+export interface YahrzeitsResponse {
+  hebrewYear: number;
+  yahrzeits: YahrzeitEntry[];
+}
+
+export interface UpdateMemorialData extends Partial<MemorialInput> {
+  memorialId: number;
+  isActive?: boolean;
+}
+
+export interface MemorialMutationResponse {
+  message: string;
+}
+
+const sendJson = async (
+  url: string,
+  method: "POST" | "PATCH" | "DELETE",
+  body: object | null,
+  failure: string
+): Promise<MemorialMutationResponse> => {
+  const response = await fetch(url, {
+    method,
+    headers: {
+      "Content-Type": "application/json",
+    },
+    body: body ? JSON.stringify(body) : undefined,
+  });
+
+  if (!response.ok) {
+    const errorData = await response.json();
+    throw new Error(errorData.error || errorData.message || `${failure}: ${response.statusText}`);
+  }
+  return response.json();
+};
+
+const fetchContactMemorials = async (contactId: number): Promise<ContactMemorialsResponse> => {
+  const response = await fetch(`/api/contacts/${contactId}/memorials`);
+  if (!response.ok) {
+    throw new Error(`Failed to fetch memorials: ${response.statusText}`);
+  }
+  return response.json();
+};
+
+const fetchYahrzeits = async (hebrewYear?: number): Promise<YahrzeitsResponse> => {
+  const query = hebrewYear ? `?hebrewYear=${hebrewYear}` : "";
+  const response = await fetch(`/api/memorials/yahrzeits${query}`);
+  if (!response.ok) {
+    throw new Error(`Failed to fetch yahrzeits: ${response.statusText}`);
+  }
+  return response.json();
+};
+
+export const memorialKeys = {
+  all: ["memorials"] as const,
+  contact: (contactId: number) => [...memorialKeys.all, "contact", contactId] as const,
+  yahrzeits: (hebrewYear?: number) => [...memorialKeys.all, "yahrzeits", hebrewYear ?? "current"] as const,
+};
+
+export const useContactMemorialsQuery = (contactId: number) => {
+  return useQuery({
+    queryKey: memorialKeys.contact(contactId),
+    queryFn: () => fetchContactMemorials(contactId),
+    enabled: !!contactId,
+    staleTime: 1000 * 60,
+  });
+};
+
+export const useYahrzeitsQuery = (hebrewYear?: number) => {
+  return useQuery({
+    queryKey: memorialKeys.yahrzeits(hebrewYear),
+    queryFn: () => fetchYahrzeits(hebrewYear),
+    staleTime: 1000 * 60 * 5,
+  });
+};
+
+const useMemorialMutation = <T>(mutationFn: (data: T) => Promise<MemorialMutationResponse>, label: string) => {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn,
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: memorialKeys.all });
+    },
+    onError: (error) => {
+      console.error(`Error ${label} memorial:`, error);
+    },
+  });
+};
+
+export const useCreateMemorialMutation = (contactId: number) =>
+  useMemorialMutation(
+    (data: MemorialInput) =>
+      sendJson(`/api/contacts/${contactId}/memorials`, "POST", data, "Failed to create memorial"),
+    "creating"
+  );
+
+export const useUpdateMemorialMutation = () =>
+  useMemorialMutation(
+    ({ memorialId, ...data }: UpdateMemorialData) =>
+      sendJson(`/api/memorials/${memorialId}`, "PATCH", data, "Failed to update memorial"),
+    "updating"
+  );
+
+export const useDeleteMemorialMutation = () =>
+  useMemorialMutation(
+    (memorialId: number) => sendJson(`/api/memorials/${memorialId}`, "DELETE", null, "Failed to delete memorial"),
+    "deleting"
+  );
@@ -0,0 +1,73 @@
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import type { PaymentEntryRow } from "@/lib/form-schemas/payment-entry";
+
+export interface EntryPledgeOption {
+  id: number;
+  description: string | null;
+  currency: string;
+  balance: string;
+  isActive: boolean;
+}
+
+export interface EntryRowError {
+  row: number;
+  field: string;
+  message: string;
+}
+
+export interface CommitPaymentEntriesResponse {
+  message: string;
+  payments: { row: number; paymentId: number; pledgeIds: number[] }[];
+}
+
+// Carries the server's per-row problems so the grid can mark the cells
+export class PaymentEntrySubmitError extends Error {
+  constructor(message: string, public readonly rowErrors: EntryRowError[]) {
+    super(message);
+    this.name = "PaymentEntrySubmitError";
+  }
+}
+
+export const paymentEntryKeys = {
+  pledges: (contactId: number) => ["pledges", "contact", contactId, "entry"] as const,
+};
+
+export const fetchEntryPledges = async (contactId: number): Promise<EntryPledgeOption[]> => {
+  const response = await fetch(`/api/pledges?contactId=${contactId}&limit=100`);
+  if (!response.ok) {
+    throw new Error(`Failed to fetch pledges: ${response.statusText}`);
+  }
+  const data: { pledges: EntryPledgeOption[] } = await response.json();
+  return data.pledges.filter((pledge) => pledge.isActive).sort((a, b) => a.id - b.id);
+};
+
+export const useCommitPaymentEntriesMutation = () => {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: async (rows: PaymentEntryRow[]): Promise<CommitPaymentEntriesResponse> => {
+      const response = await fetch("/api/admin/payment-entry", {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({ rows }),
+      });
+
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new PaymentEntrySubmitError(
+          errorData.error || `Failed to save payments: ${response.statusText}`,
+          errorData.rowErrors ?? []
+        );
+      }
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["payments"] });
+      queryClient.invalidateQueries({ queryKey: ["pledges"] });
+    },
+    onError: (error) => {
+      console.error("Error saving payment entry batch:", error);
+    },
+  });
+};
@@ -1,6 +1,7 @@
 // lib/query/payment-plans/usePaymentPlanQuery.ts
 import { useMutation, useQuery, useQueryClient, UseQueryOptions } from "@tanstack/react-query";
 import { toast } from "sonner";
+import type { RecurrenceRuleInput } from "@/lib/form-schemas/recurrence-rule";
 
 
 // Update the interfaces to match your form schema exactly
@@ -21,9 +22,10 @@ export interface PaymentPlanFormData {
   relationshipId?: number;
   planName?: string;
   frequency: "weekly" | "monthly" | "quarterly" | "biannual" | "annual" | "one_time" | "custom";
+  recurrenceRule?: RecurrenceRuleInput | null;
   distributionType: "fixed" | "custom";
   totalPlannedAmount: number;
-  currency: "USD" | "ILS" | "EUR" | "JPY" | "GBP" | "AUD" | "CAD" | "ZAR";
+  currency: string;
   totalPlannedAmountUsd?: number;
   installmentAmount: number;
   installmentAmountUsd?: number;
@@ -83,6 +85,7 @@ export interface PaymentPlan {
   relationshipId?: number;
   planName?: string;
   frequency: string;
+  recurrenceRule?: RecurrenceRuleInput | null;
   distributionType: "fixed" | "custom";
   totalPlannedAmount: number;
   currency: string;
@@ -101,6 +104,8 @@ export interface PaymentPlan {
   remainingAmountUsd?: number;
   planStatus: "active" | "completed" | "cancelled" | "paused" | "overdue";
   autoRenew: boolean;
+  // Saved card or bank account the installments are charged to
+  savedPaymentMethodId?: number | null;
   remindersSent: number;
   lastReminderDate?: string;
   currencyPriority: number;
@@ -63,6 +63,9 @@ export interface Payment {
   receiptNumber: string | null;
   receiptType: string | null;
   receiptIssued: boolean;
+  // Matched to a deposit on an imported bank statement
+  isReconciled?: boolean;
+  bankDepositId?: number | null;
   solicitorId: number | null;
   bonusPercentage: string | null;
   bonusAmount: string | null;
@@ -140,7 +143,7 @@ export interface PaymentsResponse {
 export interface CreatePaymentData {
   pledgeId: number;
   amount: number;
-  currency: "USD" | "ILS" | "EUR" | "JPY" | "GBP" | "AUD" | "CAD" | "ZAR";
+  currency: string;
   amountUsd: number;
   exchangeRate: number;
   paymentDate: string;
@@ -200,7 +203,7 @@ export interface CreatePaymentResponse {
 export interface UpdatePaymentData {
   paymentId: number;
   amount?: number;
-  currency?: "USD" | "ILS" | "EUR" | "JPY" | "GBP" | "AUD" | "CAD" | "ZAR";
+  currency?: string;
   amountUsd?: number;
   exchangeRate?: number;
   paymentDate?: string;
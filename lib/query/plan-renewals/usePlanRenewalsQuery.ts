@@ -0,0 +1,137 @@
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { pledgeKeys } from "@/lib/query/pledge/usePledgeQuery";
+import { paymentKeys } from "@/lib/query/payments/usePaymentQuery";
+
+export type RenewalStatus = "pending" | "approved" | "declined";
+
+export type RenewalFrequency = "weekly" | "monthly" | "quarterly" | "biannual" | "annual";
+
+export interface PlanRenewalQueryParams {
+  status: RenewalStatus;
+  page?: number;
+  limit?: number;
+}
+
+export interface PlanRenewalSummary {
+  id: number;
+  status: RenewalStatus;
+  paymentPlanId: number;
+  startDate: string;
+  frequency: RenewalFrequency;
+  installmentAmount: string;
+  numberOfInstallments: number;
+  currency: string;
+  newPledgeId: number | null;
+  newPaymentPlanId: number | null;
+  decidedAt: string | null;
+  declineReason: string | null;
+  createdAt: string;
+  planName: string | null;
+  previousPledgeId: number;
+  pledgeDescription: string | null;
+  contactId: number;
+  contactName: string;
+}
+
+export interface PlanRenewalsResponse {
+  renewals: PlanRenewalSummary[];
+  pagination: {
+    page: number;
+    limit: number;
+    totalCount: number;
+    totalPages: number;
+  };
+}
+
+export interface ApproveRenewalData {
+  renewalId: number;
+  startDate?: string;
+  frequency?: RenewalFrequency;
+  installmentAmount?: number;
+  numberOfInstallments?: number;
+}
+
+export interface DeclineRenewalData {
+  renewalId: number;
+  reason: string;
+}
+
+export interface RenewalMutationResponse {
+  message: string;
+}
+
+const fetchPlanRenewals = async (params: PlanRenewalQueryParams): Promise<PlanRenewalsResponse> => {
+  const searchParams = new URLSearchParams({ status: params.status });
+  if (params.page) searchParams.append("page", String(params.page));
+  if (params.limit) searchParams.append("limit", String(params.limit));
+
+  const response = await fetch(`/api/admin/plan-renewals?${searchParams}`);
+  if (!response.ok) {
+    throw new Error(`Failed to fetch plan renewals: ${response.statusText}`);
+  }
+  return response.json();
+};
+
+const postRenewalAction = async (url: string, body: object): Promise<RenewalMutationResponse> => {
+  const response = await fetch(url, {
+    method: "POST",
+    headers: {
+      "Content-Type": "application/json",
+    },
+    body: JSON.stringify(body),
+  });
+
+  if (!response.ok) {
+    const errorData = await response.json();
+    throw new Error(errorData.error || errorData.message || `Request failed: ${response.statusText}`);
+  }
+  return response.json();
+};
+
+export const planRenewalKeys = {
+  all: ["plan-renewals"] as const,
+  list: (params: PlanRenewalQueryParams) => [...planRenewalKeys.all, "list", params] as const,
+};
+
+export const usePlanRenewalsQuery = (params: PlanRenewalQueryParams) => {
+  return useQuery({
+    queryKey: planRenewalKeys.list(params),
+    queryFn: () => fetchPlanRenewals(params),
+    staleTime: 1000 * 60,
+  });
+};
+
+export const useQueueRenewalsMutation = () => {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: () => postRenewalAction("/api/admin/plan-renewals", {}),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: planRenewalKeys.all });
+    },
+  });
+};
+
+export const useApproveRenewalMutation = () => {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: ({ renewalId, ...adjustments }: ApproveRenewalData) =>
+      postRenewalAction(`/api/admin/plan-renewals/${renewalId}/approve`, adjustments),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: planRenewalKeys.all });
+      // Approval creates a pledge, a plan and its scheduled payments
+      queryClient.invalidateQueries({ queryKey: pledgeKeys.all });
+      queryClient.invalidateQueries({ queryKey: paymentKeys.all });
+    },
+  });
+};
+
+export const useDeclineRenewalMutation = () => {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: ({ renewalId, reason }: DeclineRenewalData) =>
+      postRenewalAction(`/api/admin/plan-renewals/${renewalId}/decline`, { reason }),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: planRenewalKeys.all });
+    },
+  });
+};
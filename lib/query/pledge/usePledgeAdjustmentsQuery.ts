@@ -0,0 +1,138 @@
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { pledgeKeys } from "@/lib/query/pledge/usePledgeQuery";
+
+export type PledgeAdjustmentType = "write_off" | "reduction";
+
+export type PledgeAdjustmentReason =
+  | "uncollectible"
+  | "donor_deceased"
+  | "financial_hardship"
+  | "disputed"
+  | "duplicate"
+  | "donor_request"
+  | "other";
+
+export type PledgeAdjustmentStatus = "pending" | "approved" | "declined" | "reversed";
+
+export interface PledgeAdjustment {
+  id: number;
+  pledgeId: number;
+  type: PledgeAdjustmentType;
+  reasonCode: PledgeAdjustmentReason;
+  status: PledgeAdjustmentStatus;
+  amount: string;
+  amountUsd: string | null;
+  effectiveDate: string;
+  notes: string | null;
+  requestedByEmail: string | null;
+  approvedByEmail: string | null;
+  approvedAt: string | null;
+  closedByEmail: string | null;
+  closedAt: string | null;
+  closeReason: string | null;
+  createdAt: string;
+}
+
+export interface PledgeAdjustmentsResponse {
+  adjustments: PledgeAdjustment[];
+}
+
+export interface RequestAdjustmentData {
+  pledgeId: number;
+  type: PledgeAdjustmentType;
+  reasonCode: PledgeAdjustmentReason;
+  amount?: number;
+  effectiveDate: string;
+  notes?: string | null;
+  approve?: boolean;
+}
+
+export interface CloseAdjustmentData {
+  adjustmentId: number;
+  reason: string;
+}
+
+export interface AdjustmentMutationResponse {
+  message: string;
+}
+
+const postJson = async (url: string, body: object, failure: string): Promise<AdjustmentMutationResponse> => {
+  const response = await fetch(url, {
+    method: "POST",
+    headers: {
+      "Content-Type": "application/json",
+    },
+    body: JSON.stringify(body),
+  });
+
+  if (!response.ok) {
+    const errorData = await response.json();
+    throw new Error(errorData.error || errorData.message || `${failure}: ${response.statusText}`);
+  }
+  return response.json();
+};
+
+const fetchPledgeAdjustments = async (pledgeId: number): Promise<PledgeAdjustmentsResponse> => {
+  const response = await fetch(`/api/pledges/${pledgeId}/adjustments`);
+  if (!response.ok) {
+    throw new Error(`Failed to fetch adjustments: ${response.statusText}`);
+  }
+  return response.json();
+};
+
+export const adjustmentKeys = {
+  all: ["pledgeAdjustments"] as const,
+  pledge: (pledgeId: number) => [...adjustmentKeys.all, "pledge", pledgeId] as const,
+};
+
+export const usePledgeAdjustmentsQuery = (pledgeId: number, options?: { enabled?: boolean }) => {
+  return useQuery({
+    queryKey: adjustmentKeys.pledge(pledgeId),
+    queryFn: () => fetchPledgeAdjustments(pledgeId),
+    enabled: (options?.enabled ?? true) && !!pledgeId,
+    staleTime: 1000 * 30,
+  });
+};
+
+// Approving or reversing moves the pledge balance, so pledge lists go stale too
+const useAdjustmentMutation = <T>(mutationFn: (data: T) => Promise<AdjustmentMutationResponse>, label: string) => {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn,
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: adjustmentKeys.all });
+      queryClient.invalidateQueries({ queryKey: pledgeKeys.all });
+    },
+    onError: (error) => {
+      console.error(`Error ${label} pledge adjustment:`, error);
+    },
+  });
+};
+
+export const useRequestAdjustmentMutation = () =>
+  useAdjustmentMutation(
+    ({ pledgeId, ...data }: RequestAdjustmentData) =>
+      postJson(`/api/pledges/${pledgeId}/adjustments`, data, "Failed to submit adjustment"),
+    "submitting"
+  );
+
+export const useApproveAdjustmentMutation = () =>
+  useAdjustmentMutation(
+    (adjustmentId: number) =>
+      postJson(`/api/pledge-adjustments/${adjustmentId}/approve`, {}, "Failed to approve adjustment"),
+    "approving"
+  );
+
+export const useDeclineAdjustmentMutation = () =>
+  useAdjustmentMutation(
+    ({ adjustmentId, ...data }: CloseAdjustmentData) =>
+      postJson(`/api/pledge-adjustments/${adjustmentId}/decline`, data, "Failed to decline adjustment"),
+    "declining"
+  );
+
+export const useReverseAdjustmentMutation = () =>
+  useAdjustmentMutation(
+    ({ adjustmentId, ...data }: CloseAdjustmentData) =>
+      postJson(`/api/pledge-adjustments/${adjustmentId}/reverse`, data, "Failed to reverse adjustment"),
+    "reversing"
+  );
@@ -1,4 +1,5 @@
 import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import type { DedicationType } from "@/lib/form-schemas/memorial";
 
 // Payment Types
 export interface CreatePaymentData {
@@ -70,6 +71,10 @@ export interface Pledge {
   categoryId: number | null;
   relationshipId?: number;
   pledgeDate: string;
+  dueDate?: string | null;
+  dedicationType?: DedicationType | null;
+  dedicationName?: string | null;
+  memorialId?: number | null;
   description: string;
   originalAmount: string;
   currency: string;
@@ -144,12 +149,18 @@ export interface CreatePledgeData {
   categoryId?: number;
   relationshipId?: number;
   pledgeDate: string;
+  dueDate?: string;
   description: string;
   originalAmount: number;
   currency: string;
   originalAmountUsd: number;
   exchangeRate: number;
+  advantageAmount?: number;
+  advantageDescription?: string;
   notes?: string;
+  dedicationType?: DedicationType | null;
+  dedicationName?: string | null;
+  memorialId?: number | null;
 }
 
 export interface CreatePledgeResponse {
@@ -167,13 +178,19 @@ export interface UpdatePledgeData {
   relationshipId?: number;
   categoryId?: number;
   pledgeDate?: string;
+  dueDate?: string;
   description?: string;
   originalAmount?: number;
   currency?: string;
   originalAmountUsd?: number;
   exchangeRate?: number;
   isActive?: boolean;
+  advantageAmount?: number;
+  advantageDescription?: string;
   notes?: string;
+  dedicationType?: DedicationType | null;
+  dedicationName?: string | null;
+  memorialId?: number | null;
 }
 
 export interface UpdatePledgeResponse {
@@ -0,0 +1,120 @@
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { paymentKeys } from "@/lib/query/payments/usePaymentQuery";
+
+export type ReceiptType = "invoice" | "confirmation" | "receipt" | "other";
+
+export interface PaymentReceipt {
+  id: number;
+  receiptNumber: string;
+  receiptType: ReceiptType;
+  status: "issued" | "void";
+  paymentId: number | null;
+  allocationId: number | null;
+  donorName: string;
+  giftDate: string;
+  amount: string;
+  currency: string;
+  replacesReceiptId: number | null;
+  issuedAt: string;
+  voidedAt: string | null;
+  voidReason: string | null;
+}
+
+export interface PaymentReceiptsResponse {
+  receipts: PaymentReceipt[];
+}
+
+export interface IssueReceiptData {
+  paymentId: number;
+  receiptType?: ReceiptType;
+  allocationId?: number;
+}
+
+export interface VoidReceiptData {
+  receiptId: number;
+  reason: string;
+}
+
+export interface ReissueReceiptData extends VoidReceiptData {
+  receiptType?: ReceiptType;
+}
+
+export interface ReceiptMutationResponse {
+  message: string;
+}
+
+const postJson = async (url: string, body: object, failure: string): Promise<ReceiptMutationResponse> => {
+  const response = await fetch(url, {
+    method: "POST",
+    headers: {
+      "Content-Type": "application/json",
+    },
+    body: JSON.stringify(body),
+  });
+
+  if (!response.ok) {
+    const errorData = await response.json();
+    throw new Error(errorData.error || errorData.message || `${failure}: ${response.statusText}`);
+  }
+  return response.json();
+};
+
+const fetchPaymentReceipts = async (paymentId: number): Promise<PaymentReceiptsResponse> => {
+  const response = await fetch(`/api/payments/${paymentId}/receipts`);
+  if (!response.ok) {
+    throw new Error(`Failed to fetch receipts: ${response.statusText}`);
+  }
+  return response.json();
+};
+
+export const receiptKeys = {
+  all: ["receipts"] as const,
+  payment: (paymentId: number) => [...receiptKeys.all, "payment", paymentId] as const,
+};
+
+export const receiptPdfUrl = (receiptId: number) => `/api/receipts/${receiptId}/pdf`;
+
+export const usePaymentReceiptsQuery = (paymentId: number, options?: { enabled?: boolean }) => {
+  return useQuery({
+    queryKey: receiptKeys.payment(paymentId),
+    queryFn: () => fetchPaymentReceipts(paymentId),
+    enabled: (options?.enabled ?? true) && !!paymentId,
+    staleTime: 1000 * 30,
+  });
+};
+
+// Receipt numbers are mirrored on the payment rows, so both lists go stale
+const useReceiptMutation = <T>(mutationFn: (data: T) => Promise<ReceiptMutationResponse>, label: string) => {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn,
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: receiptKeys.all });
+      queryClient.invalidateQueries({ queryKey: paymentKeys.all });
+    },
+    onError: (error) => {
+      console.error(`Error ${label} receipt:`, error);
+    },
+  });
+};
+
+export const useIssueReceiptMutation = () =>
+  useReceiptMutation(
+    ({ paymentId, ...data }: IssueReceiptData) =>
+      postJson(`/api/payments/${paymentId}/receipts`, data, "Failed to issue receipt"),
+    "issuing"
+  );
+
+export const useVoidReceiptMutation = () =>
+  useReceiptMutation(
+    ({ receiptId, ...data }: VoidReceiptData) =>
+      postJson(`/api/receipts/${receiptId}/void`, data, "Failed to void receipt"),
+    "voiding"
+  );
+
+export const useReissueReceiptMutation = () =>
+  useReceiptMutation(
+    ({ receiptId, ...data }: ReissueReceiptData) =>
+      postJson(`/api/receipts/${receiptId}/reissue`, data, "Failed to reissue receipt"),
+    "reissuing"
+  );
@@ -0,0 +1,133 @@
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { paymentKeys } from "@/lib/query/payments/usePaymentQuery";
+import { receiptKeys } from "@/lib/query/receipts/usePaymentReceiptsQuery";
+
+export type RefundType = "refund" | "chargeback";
+
+export interface PaymentRefundAllocation {
+  id: number;
+  refundId: number;
+  allocationId: number;
+  amount: string;
+}
+
+export interface PaymentRefund {
+  id: number;
+  paymentId: number;
+  type: RefundType;
+  amount: string;
+  currency: string;
+  amountUsd: string | null;
+  reason: string;
+  refundDate: string;
+  referenceNumber: string | null;
+  createdAt: string;
+  allocations: PaymentRefundAllocation[];
+}
+
+export interface RefundableAllocation {
+  id: number;
+  pledgeId: number;
+  pledgeDescription: string | null;
+  allocatedAmount: string;
+  currency: string;
+  refunded: string;
+}
+
+export interface PaymentRefundsResponse {
+  amount: string;
+  currency: string;
+  paymentStatus: string;
+  refunded: string;
+  refundable: string;
+  refunds: PaymentRefund[];
+  allocations: RefundableAllocation[];
+}
+
+export interface RecordRefundData {
+  paymentId: number;
+  type: RefundType;
+  amount: number;
+  reason: string;
+  refundDate: string;
+  referenceNumber?: string | null;
+  allocations?: { allocationId: number; amount: number }[];
+}
+
+export interface RefundMutationResponse {
+  message: string;
+  paymentStatus: string;
+}
+
+const fetchPaymentRefunds = async (paymentId: number): Promise<PaymentRefundsResponse> => {
+  const response = await fetch(`/api/payments/${paymentId}/refunds`);
+  if (!response.ok) {
+    throw new Error(`Failed to fetch refunds: ${response.statusText}`);
+  }
+  return response.json();
+};
+
+const sendJson = async (
+  url: string,
+  method: "POST" | "DELETE",
+  body: object | undefined,
+  failure: string
+): Promise<RefundMutationResponse> => {
+  const response = await fetch(url, {
+    method,
+    headers: {
+      "Content-Type": "application/json",
+    },
+    body: body ? JSON.stringify(body) : undefined,
+  });
+
+  if (!response.ok) {
+    const errorData = await response.json();
+    throw new Error(errorData.error || errorData.message || `${failure}: ${response.statusText}`);
+  }
+  return response.json();
+};
+
+export const refundKeys = {
+  all: ["refunds"] as const,
+  payment: (paymentId: number) => [...refundKeys.all, "payment", paymentId] as const,
+};
+
+export const usePaymentRefundsQuery = (paymentId: number, options?: { enabled?: boolean }) => {
+  return useQuery({
+    queryKey: refundKeys.payment(paymentId),
+    queryFn: () => fetchPaymentRefunds(paymentId),
+    enabled: (options?.enabled ?? true) && !!paymentId,
+    staleTime: 1000 * 30,
+  });
+};
+
+// A refund moves payment status, pledge balances and receipts at once
+const useRefundMutation = <T>(mutationFn: (data: T) => Promise<RefundMutationResponse>, label: string) => {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn,
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: refundKeys.all });
+      queryClient.invalidateQueries({ queryKey: receiptKeys.all });
+      queryClient.invalidateQueries({ queryKey: paymentKeys.all });
+      queryClient.invalidateQueries({ queryKey: ["pledges"] });
+    },
+    onError: (error) => {
+      console.error(`Error ${label} refund:`, error);
+    },
+  });
+};
+
+export const useRecordRefundMutation = () =>
+  useRefundMutation(
+    ({ paymentId, ...data }: RecordRefundData) =>
+      sendJson(`/api/payments/${paymentId}/refunds`, "POST", data, "Failed to record refund"),
+    "recording"
+  );
+
+export const useVoidRefundMutation = () =>
+  useRefundMutation(
+    (refundId: number) => sendJson(`/api/refunds/${refundId}`, "DELETE", undefined, "Failed to void refund"),
+    "voiding"
+  );
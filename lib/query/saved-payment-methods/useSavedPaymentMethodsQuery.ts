@@ -0,0 +1,105 @@
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import type { SavedPaymentMethodInput } from "@/lib/form-schemas/saved-payment-method";
+
+export interface SavedPaymentMethod {
+  id: number;
+  processor: string;
+  type: "card" | "ach";
+  brand: string | null;
+  last4: string;
+  expiryMonth: number | null;
+  expiryYear: number | null;
+  holderName: string | null;
+  createdAt: string;
+}
+
+export interface SavedPaymentMethodsResponse {
+  methods: SavedPaymentMethod[];
+}
+
+export interface SavedPaymentMethodMutationResponse {
+  message: string;
+}
+
+const sendJson = async (
+  url: string,
+  method: "POST" | "PUT" | "DELETE",
+  body: object | null,
+  failure: string
+): Promise<SavedPaymentMethodMutationResponse> => {
+  const response = await fetch(url, {
+    method,
+    headers: {
+      "Content-Type": "application/json",
+    },
+    body: body ? JSON.stringify(body) : undefined,
+  });
+
+  if (!response.ok) {
+    const errorData = await response.json();
+    throw new Error(errorData.error || errorData.message || `${failure}: ${response.statusText}`);
+  }
+  return response.json();
+};
+
+const fetchSavedPaymentMethods = async (contactId: number): Promise<SavedPaymentMethodsResponse> => {
+  const response = await fetch(`/api/contacts/${contactId}/saved-payment-methods`);
+  if (!response.ok) {
+    throw new Error(`Failed to fetch payment methods: ${response.statusText}`);
+  }
+  return response.json();
+};
+
+export const savedPaymentMethodKeys = {
+  all: ["saved-payment-methods"] as const,
+  contact: (contactId: number) => [...savedPaymentMethodKeys.all, "contact", contactId] as const,
+};
+
+export const useSavedPaymentMethodsQuery = (contactId: number) => {
+  return useQuery({
+    queryKey: savedPaymentMethodKeys.contact(contactId),
+    queryFn: () => fetchSavedPaymentMethods(contactId),
+    enabled: !!contactId,
+    staleTime: 1000 * 60,
+  });
+};
+
+export const useCreateSavedPaymentMethodMutation = (contactId: number) => {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: (data: SavedPaymentMethodInput) =>
+      sendJson(`/api/contacts/${contactId}/saved-payment-methods`, "POST", data, "Failed to save payment method"),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: savedPaymentMethodKeys.all });
+    },
+  });
+};
+
+// Removing a method also stops the plans collecting from it
+export const useRemoveSavedPaymentMethodMutation = () => {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: (methodId: number) =>
+      sendJson(`/api/saved-payment-methods/${methodId}`, "DELETE", null, "Failed to remove payment method"),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: savedPaymentMethodKeys.all });
+      queryClient.invalidateQueries({ queryKey: ["paymentPlans"] });
+    },
+  });
+};
+
+export const useSetAutoCollectMutation = () => {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: ({ paymentPlanId, savedPaymentMethodId }: { paymentPlanId: number; savedPaymentMethodId: number | null }) =>
+      sendJson(
+        `/api/payment-plans/${paymentPlanId}/auto-collect`,
+        "PUT",
+        { savedPaymentMethodId },
+        "Failed to update auto-collection"
+      ),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["paymentPlans"] });
+    },
+  });
+};
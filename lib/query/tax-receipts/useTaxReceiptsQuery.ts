@@ -0,0 +1,100 @@
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { paymentKeys } from "@/lib/query/payments/usePaymentQuery";
+
+export interface TaxReceiptQueryParams {
+  taxYear: number;
+  search?: string;
+  page?: number;
+  limit?: number;
+}
+
+export interface TaxReceiptSummary {
+  id: number;
+  contactId: number | null;
+  taxYear: number;
+  receiptNumber: string;
+  donorName: string;
+  paymentCount: number;
+  totalAmountUsd: string | null;
+  issuedAt: string;
+}
+
+export interface TaxReceiptsResponse {
+  receipts: TaxReceiptSummary[];
+  pagination: {
+    page: number;
+    limit: number;
+    totalCount: number;
+    totalPages: number;
+  };
+}
+
+export interface GenerateTaxReceiptsData {
+  taxYear: number;
+  contactIds?: number[];
+}
+
+export interface GenerateTaxReceiptsResponse {
+  message: string;
+  issuedCount: number;
+  skipped: Array<{ contactId: number; reason: string }>;
+}
+
+const fetchTaxReceipts = async (params: TaxReceiptQueryParams): Promise<TaxReceiptsResponse> => {
+  const searchParams = new URLSearchParams({ taxYear: String(params.taxYear) });
+  if (params.search) searchParams.append("search", params.search);
+  if (params.page) searchParams.append("page", String(params.page));
+  if (params.limit) searchParams.append("limit", String(params.limit));
+
+  const response = await fetch(`/api/admin/tax-receipts?${searchParams}`);
+  if (!response.ok) {
+    throw new Error(`Failed to fetch tax receipts: ${response.statusText}`);
+  }
+  return response.json();
+};
+
+const generateTaxReceipts = async (data: GenerateTaxReceiptsData): Promise<GenerateTaxReceiptsResponse> => {
+  const response = await fetch("/api/admin/tax-receipts", {
+    method: "POST",
+    headers: {
+      "Content-Type": "application/json",
+    },
+    body: JSON.stringify(data),
+  });
+
+  if (!response.ok) {
+    const errorData = await response.json();
+    throw new Error(errorData.error || errorData.message || `Failed to generate receipts: ${response.statusText}`);
+  }
+  return response.json();
+};
+
+export const taxReceiptKeys = {
+  all: ["tax-receipts"] as const,
+  list: (params: TaxReceiptQueryParams) => [...taxReceiptKeys.all, "list", params] as const,
+};
+
+export const taxReceiptPdfUrl = (receiptId: number) => `/api/admin/tax-receipts/${receiptId}/pdf`;
+
+export const useTaxReceiptsQuery = (params: TaxReceiptQueryParams) => {
+  return useQuery({
+    queryKey: taxReceiptKeys.list(params),
+    queryFn: () => fetchTaxReceipts(params),
+    staleTime: 1000 * 60,
+  });
+};
+
+export const useGenerateTaxReceiptsMutation = () => {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: generateTaxReceipts,
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: taxReceiptKeys.all });
+      // Payments now carry receipt numbers
+      queryClient.invalidateQueries({ queryKey: paymentKeys.all });
+    },
+    onError: (error) => {
+      console.error("Error generating tax receipts:", error);
+    },
+  });
+};
@@ -7,6 +7,8 @@ interface CategoryFinancialSummary {
   totalPledgedUsd: number;
   totalPaidUsd: number;
   currentBalanceUsd: number;
+  // Approved write-offs and reductions
+  totalAdjustedUsd: number;
 }
 
 interface ContactResponse {
@@ -6,6 +6,11 @@ interface ExchangeRateData {
     currency: string;
     rates: Record<string, string>;
   };
+  date?: string;
+  // Per currency: "api", "manual", "import" or "locked", and the day quoted
+  sources?: Record<string, { source: string; date: string }>;
+  // Set when the provider failed and some rates are from earlier days
+  providerError?: string | null;
 }
 
 export const useExchangeRates = (date?: string) => {
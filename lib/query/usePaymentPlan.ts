@@ -11,17 +11,6 @@ const PlanStatusEnum = z.enum([
   "overdue",
 ]);
 
-const CurrencyEnum = z.enum([
-  "USD",
-  "ILS", 
-  "EUR",
-  "JPY",
-  "GBP",
-  "AUD",
-  "CAD",
-  "ZAR",
-]);
-
 const FrequencyEnum = z.enum([
   "weekly",
   "monthly", 
@@ -46,7 +35,7 @@ interface PaymentPlan {
   frequency: z.infer<typeof FrequencyEnum>;
   distributionType: z.infer<typeof DistributionTypeEnum>;
   totalPlannedAmount: number;
-  currency: z.infer<typeof CurrencyEnum>;
+  currency: string;
   // New USD conversion fields
   totalPlannedAmountUsd?: number;
   installmentAmount: number;
@@ -148,7 +137,7 @@ interface UsePaymentPlansParams {
   search?: string;
   planStatus?: z.infer<typeof PlanStatusEnum>;
   frequency?: z.infer<typeof FrequencyEnum>;
-  currency?: z.infer<typeof CurrencyEnum>;
+  currency?: string;
   // New filter options
   includeInstallmentSchedule?: boolean;
   includePledgeDetails?: boolean;
@@ -252,7 +241,7 @@ export const useActivePaymentPlansByPledge = (pledgeId: number) => {
 export const usePaymentPlansSummary = (params?: {
   contactId?: number;
   planStatus?: z.infer<typeof PlanStatusEnum>;
-  currency?: z.infer<typeof CurrencyEnum>;
+  currency?: string;
   dateRange?: {
     startDate?: string;
     endDate?: string;
@@ -327,7 +316,6 @@ export type {
 
 export { 
   PlanStatusEnum, 
-  CurrencyEnum, 
   FrequencyEnum, 
   DistributionTypeEnum 
 };
\ No newline at end of file
@@ -6,12 +6,10 @@ const paymentStatusEnum = z.enum([
   "pending", "completed", "failed", "cancelled", "refunded", "processing", "expected"
 ]);
 
-const currencyEnum = z.enum(["USD", "ILS", "EUR", "JPY", "GBP", "AUD", "CAD", "ZAR"]);
-
 const PaymentSchema = z.object({
   id: z.number(),
   amount: z.string(),
-  currency: currencyEnum,
+  currency: z.string(),
   amountUsd: z.string().nullable(),
   paymentDate: z.string(),
   receivedDate: z.string().nullable(),
@@ -4,6 +4,10 @@ import axios from "axios";
 interface PledgeResponse {
   id: number;
   pledgeDate: string;
+  dueDate: string | null;
+  dedicationType: "in_honor_of" | "in_memory_of" | null;
+  dedicationName: string | null;
+  memorialId: number | null;
   description: string | null;
   originalAmount: string;
   currency: string;
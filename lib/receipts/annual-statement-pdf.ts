@@ -0,0 +1,69 @@
+import jsPDF from "jspdf";
+import autoTable from "jspdf-autotable";
+import type { AnnualReceipt } from "@/lib/db/schema";
+import {
+  drawDonorBlock,
+  drawReceiptHeader,
+  formatAmount,
+  type JsPDFWithAutoTable,
+} from "@/lib/receipts/pdf";
+
+/**
+ * Consolidated giving statement for one donor and tax year, rendered from
+ * the lines frozen on the receipt so a reprint always matches the original.
+ */
+export function renderAnnualReceiptPdf(receipt: AnnualReceipt): ArrayBuffer {
+  const doc = new jsPDF() as JsPDFWithAutoTable;
+
+  drawReceiptHeader(doc, `${receipt.taxYear} Annual Giving Statement`, receipt.receiptNumber, receipt.issuedAt);
+  let yPosition = drawDonorBlock(doc, receipt.donorName, receipt.donorAddress, 45);
+
+  autoTable(doc, {
+    startY: yPosition,
+    head: [["Date", "Pledge", "Method", "Paid By", "Amount"]],
+    body: receipt.lineItems.map((line) => [
+      line.date,
+      line.pledgeDescription || "-",
+      line.paymentMethod || "-",
+      line.payerName || "Donor",
+      formatAmount(parseFloat(line.amount), line.currency),
+    ]),
+    theme: "grid",
+    columnStyles: { 4: { halign: "right" } },
+  });
+  yPosition = doc.lastAutoTable.finalY + 10;
+
+  // Gifts keep their original currency; one total per currency given in
+  const totalsByCurrency = new Map<string, number>();
+  for (const line of receipt.lineItems) {
+    totalsByCurrency.set(line.currency, (totalsByCurrency.get(line.currency) ?? 0) + parseFloat(line.amount));
+  }
+
+  autoTable(doc, {
+    startY: yPosition,
+    head: [["Currency", "Total Received"]],
+    body: [
+      ...[...totalsByCurrency.entries()].map(([currency, total]) => [currency, formatAmount(total, currency)]),
+      ...(totalsByCurrency.size > 1 && receipt.totalAmountUsd
+        ? [["Total (USD equivalent)", formatAmount(parseFloat(receipt.totalAmountUsd), "USD")]]
+        : []),
+    ],
+    theme: "grid",
+    tableWidth: 100,
+    columnStyles: { 1: { halign: "right" } },
+  });
+  yPosition = doc.lastAutoTable.finalY + 15;
+
+  doc.setFontSize(9);
+  doc.text(
+    doc.splitTextToSize(
+      "No goods or services were provided in exchange for these contributions. " +
+        "Please retain this statement for your tax records.",
+      170
+    ) as string[],
+    20,
+    yPosition
+  );
+
+  return doc.output("arraybuffer");
+}
@@ -0,0 +1,284 @@
+import { and, asc, eq, inArray, sql } from "drizzle-orm";
+import { db, withTransaction, type DbClient } from "@/lib/db";
+import {
+  annualReceipt,
+  contact,
+  payment,
+  paymentAllocations,
+  pledge,
+  type AnnualReceipt,
+  type AnnualReceiptLine,
+} from "@/lib/db/schema";
+import { decimal } from "@/lib/money";
+import { nextReceiptNumber } from "@/lib/receipts/sequence";
+import {
+  allocationRefundedAmount,
+  allocationRefundedAmountUsd,
+  paymentRefundedAmount,
+  paymentRefundedAmountUsd,
+} from "@/lib/refunds/net-amounts";
+
+export interface GenerateAnnualReceiptsOptions {
+  taxYear: number;
+  // null covers every location (super admins and the batch job)
+  locationId: string | null;
+  // Restricts the run to these donors; otherwise every donor who gave that year
+  contactIds?: number[];
+  issuedBy?: number | null;
+}
+
+export interface AnnualReceiptSkip {
+  contactId: number;
+  reason: string;
+}
+
+export interface GenerateAnnualReceiptsResult {
+  issued: AnnualReceipt[];
+  skipped: AnnualReceiptSkip[];
+}
+
+type IssueOutcome = { receipt: AnnualReceipt } | { skipped: string };
+
+// A gift counts toward the year it was received in
+const giftDate = sql<string>`COALESCE(${payment.receivedDate}, ${payment.paymentDate})`;
+
+function yearBounds(taxYear: number) {
+  return { start: `${taxYear}-01-01`, end: `${taxYear}-12-31` };
+}
+
+export function formatAnnualReceiptNumber(taxYear: number, sequence: number): string {
+  return `${taxYear}-${String(sequence).padStart(5, "0")}`;
+}
+
+/**
+ * Completed gifts credited to a donor in a tax year: payments on the donor's
+ * pledges, including ones a third party paid, and the donor's share of split
+ * payments. Split payments are listed per allocation only. Amounts are net
+ * of refunds.
+ */
+export async function collectAnnualGiving(
+  contactId: number,
+  taxYear: number,
+  client: DbClient = db
+): Promise<AnnualReceiptLine[]> {
+  const { start, end } = yearBounds(taxYear);
+
+  const direct = await client
+    .select({
+      paymentId: payment.id,
+      date: giftDate,
+      amount: sql<string>`${payment.amount} - ${paymentRefundedAmount}`,
+      currency: payment.currency,
+      amountUsd: sql<string | null>`${payment.amountUsd} - ${paymentRefundedAmountUsd}`,
+      pledgeDescription: pledge.description,
+      paymentMethod: payment.paymentMethod,
+      payerContactId: payment.payerContactId,
+      payerName: sql<string | null>`(
+        SELECT CONCAT(first_name, ' ', last_name)
+        FROM ${contact}
+        WHERE id = ${payment.payerContactId}
+      )`,
+    })
+    .from(payment)
+    .innerJoin(pledge, eq(payment.pledgeId, pledge.id))
+    .where(
+      and(
+        eq(pledge.contactId, contactId),
+        eq(payment.paymentStatus, "completed"),
+        sql`${giftDate} BETWEEN ${start} AND ${end}`,
+        sql`NOT EXISTS (
+          SELECT 1 FROM ${paymentAllocations}
+          WHERE ${paymentAllocations.paymentId} = ${payment.id}
+        )`
+      )
+    )
+    .orderBy(asc(giftDate), asc(payment.id));
+
+  const allocated = await client
+    .select({
+      paymentId: payment.id,
+      allocationId: paymentAllocations.id,
+      date: giftDate,
+      amount: sql<string>`${paymentAllocations.allocatedAmount} - ${allocationRefundedAmount}`,
+      currency: paymentAllocations.currency,
+      amountUsd: sql<string | null>`${paymentAllocations.allocatedAmountUsd} - ${allocationRefundedAmountUsd}`,
+      pledgeDescription: pledge.description,
+      paymentMethod: payment.paymentMethod,
+      payerContactId: sql<number | null>`COALESCE(${paymentAllocations.payerContactId}, ${payment.payerContactId})`,
+      payerName: sql<string | null>`(
+        SELECT CONCAT(first_name, ' ', last_name)
+        FROM ${contact}
+        WHERE id = COALESCE(${paymentAllocations.payerContactId}, ${payment.payerContactId})
+      )`,
+    })
+    .from(paymentAllocations)
+    .innerJoin(payment, eq(paymentAllocations.paymentId, payment.id))
+    .innerJoin(pledge, eq(paymentAllocations.pledgeId, pledge.id))
+    .where(
+      and(
+        eq(pledge.contactId, contactId),
+        eq(payment.paymentStatus, "completed"),
+        sql`${giftDate} BETWEEN ${start} AND ${end}`
+      )
+    )
+    .orderBy(asc(giftDate), asc(paymentAllocations.id));
+
+  // Gifts refunded in full leave no line
+  const lines: AnnualReceiptLine[] = [
+    ...direct.map((row) => ({ ...row, allocationId: null })),
+    ...allocated,
+  ]
+    .filter((line) => decimal(line.amount).isPositive())
+    .map(({ payerContactId, payerName, ...line }) => ({
+      ...line,
+      payerName: payerContactId && payerContactId !== contactId ? payerName : null,
+    }));
+
+  return lines.sort((a, b) => a.date.localeCompare(b.date) || a.paymentId - b.paymentId);
+}
+
+// USD total, or null when a foreign-currency line was never converted
+function totalUsd(lines: AnnualReceiptLine[]): string | null {
+  let total = decimal(0);
+  for (const line of lines) {
+    if (line.amountUsd !== null) total = total.plus(line.amountUsd);
+    else if (line.currency === "USD") total = total.plus(line.amount);
+    else return null;
+  }
+  return total.toMoney("USD");
+}
+
+async function issueAnnualReceipt(
+  contactId: number,
+  taxYear: number,
+  issuedBy: number | null
+): Promise<IssueOutcome> {
+  return withTransaction(async (tx) => {
+    const [donor] = await tx.select().from(contact).where(eq(contact.id, contactId)).limit(1);
+    if (!donor) return { skipped: "Contact not found" };
+    if (!donor.locationId) return { skipped: "Contact has no location" };
+
+    const [existing] = await tx
+      .select({ receiptNumber: annualReceipt.receiptNumber })
+      .from(annualReceipt)
+      .where(and(eq(annualReceipt.contactId, contactId), eq(annualReceipt.taxYear, taxYear)))
+      .limit(1);
+    if (existing) return { skipped: `Already issued as ${existing.receiptNumber}` };
+
+    const lines = await collectAnnualGiving(contactId, taxYear, tx);
+    if (lines.length === 0) return { skipped: "No completed gifts in this year" };
+
+    const sequence = await nextReceiptNumber(tx, donor.locationId, `annual:${taxYear}`);
+    const receiptNumber = formatAnnualReceiptNumber(taxYear, sequence);
+
+    const [receipt] = await tx
+      .insert(annualReceipt)
+      .values({
+        contactId,
+        locationId: donor.locationId,
+        taxYear,
+        receiptNumber,
+        donorName: donor.displayName || `${donor.firstName} ${donor.lastName}`,
+        donorAddress: donor.address,
+        lineItems: lines,
+        paymentCount: lines.length,
+        totalAmountUsd: totalUsd(lines),
+        issuedBy,
+      })
+      .returning();
+
+    // Keep any number already written on the payment by hand
+    const paymentIds = lines.filter((line) => line.allocationId === null).map((line) => line.paymentId);
+    const allocationIds = lines.flatMap((line) => (line.allocationId === null ? [] : [line.allocationId]));
+
+    if (paymentIds.length > 0) {
+      await tx
+        .update(payment)
+        .set({
+          receiptIssued: true,
+          receiptNumber: sql`COALESCE(${payment.receiptNumber}, ${receiptNumber})`,
+          receiptType: sql`COALESCE(${payment.receiptType}, 'receipt')`,
+          updatedAt: new Date(),
+        })
+        .where(inArray(payment.id, paymentIds));
+    }
+    if (allocationIds.length > 0) {
+      await tx
+        .update(paymentAllocations)
+        .set({
+          receiptIssued: true,
+          receiptNumber: sql`COALESCE(${paymentAllocations.receiptNumber}, ${receiptNumber})`,
+          receiptType: sql`COALESCE(${paymentAllocations.receiptType}, 'receipt')`,
+          updatedAt: new Date(),
+        })
+        .where(inArray(paymentAllocations.id, allocationIds));
+    }
+
+    return { receipt };
+  });
+}
+
+/**
+ * Donors with at least one completed gift in the year, through their own
+ * pledges or a split allocation.
+ */
+async function findDonorsForYear(options: GenerateAnnualReceiptsOptions): Promise<number[]> {
+  const { start, end } = yearBounds(options.taxYear);
+  const conditions = [
+    sql`(
+      EXISTS (
+        SELECT 1 FROM ${payment} p
+        INNER JOIN ${pledge} pl ON pl.id = p.pledge_id
+        WHERE pl.contact_id = ${contact.id}
+          AND p.payment_status = 'completed'
+          AND COALESCE(p.received_date, p.payment_date) BETWEEN ${start} AND ${end}
+      )
+      OR EXISTS (
+        SELECT 1 FROM ${paymentAllocations} pa
+        INNER JOIN ${payment} p ON p.id = pa.payment_id
+        INNER JOIN ${pledge} pl ON pl.id = pa.pledge_id
+        WHERE pl.contact_id = ${contact.id}
+          AND p.payment_status = 'completed'
+          AND COALESCE(p.received_date, p.payment_date) BETWEEN ${start} AND ${end}
+      )
+    )`,
+  ];
+  if (options.locationId) conditions.push(eq(contact.locationId, options.locationId));
+  if (options.contactIds?.length) conditions.push(inArray(contact.id, options.contactIds));
+
+  const donors = await db
+    .select({ id: contact.id })
+    .from(contact)
+    .where(and(...conditions))
+    .orderBy(asc(contact.lastName), asc(contact.firstName), asc(contact.id));
+
+  return donors.map((donor) => donor.id);
+}
+
+/**
+ * Issues one year-end statement per donor. Each donor is handled in its own
+ * transaction, so a failure only skips that donor and a rerun picks up where
+ * the last one stopped: donors already receipted for the year are skipped.
+ */
+export async function generateAnnualReceipts(
+  options: GenerateAnnualReceiptsOptions
+): Promise<GenerateAnnualReceiptsResult> {
+  const result: GenerateAnnualReceiptsResult = { issued: [], skipped: [] };
+  const donorIds = await findDonorsForYear(options);
+
+  for (const contactId of donorIds) {
+    try {
+      const outcome = await issueAnnualReceipt(contactId, options.taxYear, options.issuedBy ?? null);
+      if ("receipt" in outcome) result.issued.push(outcome.receipt);
+      else result.skipped.push({ contactId, reason: outcome.skipped });
+    } catch (error) {
+      console.error(`Failed to issue ${options.taxYear} receipt for contact ${contactId}:`, error);
+      result.skipped.push({
+        contactId,
+        reason: error instanceof Error ? error.message : "Unknown error",
+      });
+    }
+  }
+
+  return result;
+}
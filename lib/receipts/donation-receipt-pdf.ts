@@ -0,0 +1,100 @@
+import jsPDF from "jspdf";
+import autoTable from "jspdf-autotable";
+import type { DonationReceipt } from "@/lib/db/schema";
+import type { ReceiptType } from "@/lib/receipts/donation-receipt";
+import {
+  drawDonorBlock,
+  drawReceiptHeader,
+  formatAmount,
+  type JsPDFWithAutoTable,
+} from "@/lib/receipts/pdf";
+import { receiptTemplateByKey } from "@/lib/receipts/templates";
+
+interface ReceiptTemplate {
+  title: string;
+  // Closing paragraph; null prints none
+  statement: string | null;
+}
+
+// One layout per receipt type stored on the payment
+const RECEIPT_TEMPLATES: Record<ReceiptType, ReceiptTemplate> = {
+  receipt: {
+    title: "Donation Receipt",
+    statement:
+      "No goods or services were provided in exchange for this contribution. " +
+      "Please retain this receipt for your tax records.",
+  },
+  confirmation: {
+    title: "Donation Confirmation",
+    statement: "This confirms that your gift was received with thanks. It is not a receipt for tax purposes.",
+  },
+  invoice: {
+    title: "Invoice",
+    statement: "Paid in full. This invoice is not a receipt for tax purposes.",
+  },
+  other: {
+    title: "Payment Acknowledgement",
+    statement: null,
+  },
+};
+
+/**
+ * Single-gift receipt rendered from the snapshot taken at issue time. Void
+ * receipts still print, stamped VOID, so a copy on file can be checked.
+ * Receipts issued under a country template add its rows and wording.
+ */
+export function renderDonationReceiptPdf(
+  receipt: DonationReceipt,
+  replacesReceiptNumber: string | null = null
+): ArrayBuffer {
+  const doc = new jsPDF() as JsPDFWithAutoTable;
+  const countryTemplate = receiptTemplateByKey(receipt.template);
+  const fields = receipt.templateFields ?? {};
+  const template: ReceiptTemplate = countryTemplate
+    ? { title: countryTemplate.title, statement: countryTemplate.statement(fields) }
+    : RECEIPT_TEMPLATES[receipt.receiptType];
+
+  drawReceiptHeader(doc, template.title, receipt.receiptNumber, receipt.issuedAt);
+  let yPosition = drawDonorBlock(doc, receipt.donorName, receipt.donorAddress, 45);
+
+  autoTable(doc, {
+    startY: yPosition,
+    body: [
+      ["Date Received", receipt.giftDate],
+      ["Amount", formatAmount(parseFloat(receipt.amount), receipt.currency)],
+      ...(receipt.currency !== "USD" && receipt.amountUsd
+        ? [["USD Equivalent", formatAmount(parseFloat(receipt.amountUsd), "USD")]]
+        : []),
+      ["Payment Method", receipt.paymentMethod || "-"],
+      ["Pledge", receipt.pledgeDescription || "-"],
+      ...(receipt.dedication ? [["Dedication", receipt.dedication]] : []),
+      ...(receipt.payerName ? [["Paid By", receipt.payerName]] : []),
+      ...(countryTemplate ? countryTemplate.rows(fields, receipt.currency) : []),
+    ],
+    theme: "grid",
+    tableWidth: 120,
+    columnStyles: { 0: { fontStyle: "bold", cellWidth: 45 } },
+  });
+  yPosition = doc.lastAutoTable.finalY + 15;
+
+  doc.setFontSize(9);
+  if (replacesReceiptNumber) {
+    doc.text(`This receipt replaces receipt No. ${replacesReceiptNumber}, which is void.`, 20, yPosition);
+    yPosition += 8;
+  }
+  if (template.statement) {
+    doc.text(doc.splitTextToSize(template.statement, 170) as string[], 20, yPosition);
+  }
+
+  if (receipt.status === "void") {
+    doc.setTextColor(200, 0, 0);
+    doc.setFontSize(96);
+    doc.text("VOID", 105, 160, { align: "center", angle: 30 });
+    doc.setFontSize(10);
+    const voidedOn = receipt.voidedAt ? receipt.voidedAt.toLocaleDateString("en-US") : "";
+    doc.text(`Voided ${voidedOn}${receipt.voidReason ? `: ${receipt.voidReason}` : ""}`, 20, 280);
+    doc.setTextColor(0, 0, 0);
+  }
+
+  return doc.output("arraybuffer");
+}
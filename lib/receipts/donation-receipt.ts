@@ -0,0 +1,517 @@
+import { and, desc, eq, isNull, sql } from "drizzle-orm";
+import { db, withTransaction, type Transaction } from "@/lib/db";
+import {
+  contact,
+  donationReceipt,
+  payment,
+  paymentAllocations,
+  pledge,
+  receiptTypeEnum,
+  type DonationReceipt,
+} from "@/lib/db/schema";
+import { formatDedication } from "@/lib/memorials/memorials";
+import { decimal } from "@/lib/money";
+import { nextReceiptNumber } from "@/lib/receipts/sequence";
+import { receiptTemplateForCurrency } from "@/lib/receipts/templates";
+import {
+  allocationRefundedAmount,
+  allocationRefundedAmountUsd,
+  paymentRefundedAmount,
+  paymentRefundedAmountUsd,
+} from "@/lib/refunds/net-amounts";
+import { DomainError } from "@/lib/error-handler";
+
+export type ReceiptType = (typeof receiptTypeEnum.enumValues)[number];
+
+export class ReceiptError extends DomainError {
+  constructor(message: string, statusCode: 400 | 404 | 409) {
+    super(message, statusCode);
+    this.name = "ReceiptError";
+  }
+}
+
+// All receipt types share one series so the location's numbers stay unbroken
+const RECEIPT_SERIES = "donation";
+
+export function formatDonationReceiptNumber(sequence: number): string {
+  return String(sequence).padStart(6, "0");
+}
+
+// Everything printed on a receipt, read from the payment or allocation
+interface ReceiptSubject {
+  paymentId: number;
+  allocationId: number | null;
+  pledgeId: number;
+  contactId: number;
+  locationId: string | null;
+  donorName: string;
+  donorAddress: string | null;
+  payerName: string | null;
+  giftDate: string;
+  amount: string;
+  currency: DonationReceipt["currency"];
+  amountUsd: string | null;
+  paymentMethod: string | null;
+  pledgeDescription: string | null;
+  // "In memory of ..." from the payment, or else from the pledge
+  dedication: string | null;
+  receiptType: ReceiptType | null;
+}
+
+const donorName = sql<string>`COALESCE(${contact.displayName}, CONCAT(${contact.firstName}, ' ', ${contact.lastName}))`;
+
+async function payerNameOf(tx: Transaction, payerContactId: number | null, donorId: number) {
+  if (!payerContactId || payerContactId === donorId) return null;
+  const [payer] = await tx
+    .select({ name: sql<string>`CONCAT(${contact.firstName}, ' ', ${contact.lastName})` })
+    .from(contact)
+    .where(eq(contact.id, payerContactId))
+    .limit(1);
+  return payer?.name ?? null;
+}
+
+// Amount left after refunds, or null when the gross amount was
+const netOf = (amount: string | null, refunded: string, currency: string) =>
+  amount === null ? null : decimal(amount).minus(refunded).toMoney(currency);
+
+/**
+ * Receipt subjects of a payment: the payment itself, or one per allocation
+ * for split payments (optionally narrowed to a single allocation). Amounts
+ * are net of refunds, and allocations refunded in full are left out.
+ */
+async function loadReceiptSubjects(
+  tx: Transaction,
+  paymentId: number,
+  allocationId?: number | null
+): Promise<ReceiptSubject[]> {
+  // Locked so two requests cannot both find no live receipt and each issue one
+  const [found] = await tx.select().from(payment).where(eq(payment.id, paymentId)).limit(1).for("update");
+  if (!found) throw new ReceiptError("Payment not found", 404);
+  if (found.paymentStatus !== "completed") {
+    throw new ReceiptError("Only completed payments can be receipted", 400);
+  }
+  const giftDate = found.receivedDate || found.paymentDate;
+  const paymentDedication = formatDedication(found.dedicationType, found.dedicationName);
+
+  const allocations = await tx
+    .select({
+      id: paymentAllocations.id,
+      amount: paymentAllocations.allocatedAmount,
+      currency: paymentAllocations.currency,
+      amountUsd: paymentAllocations.allocatedAmountUsd,
+      refunded: allocationRefundedAmount,
+      refundedUsd: allocationRefundedAmountUsd,
+      payerContactId: paymentAllocations.payerContactId,
+      receiptType: paymentAllocations.receiptType,
+      pledgeId: pledge.id,
+      pledgeDescription: pledge.description,
+      pledgeDedicationType: pledge.dedicationType,
+      pledgeDedicationName: pledge.dedicationName,
+      contactId: contact.id,
+      locationId: contact.locationId,
+      donorName,
+      donorAddress: contact.address,
+    })
+    .from(paymentAllocations)
+    .innerJoin(pledge, eq(paymentAllocations.pledgeId, pledge.id))
+    .innerJoin(contact, eq(pledge.contactId, contact.id))
+    .where(eq(paymentAllocations.paymentId, paymentId))
+    .orderBy(paymentAllocations.id);
+
+  if (allocations.length > 0) {
+    const selected = allocationId ? allocations.filter((allocation) => allocation.id === allocationId) : allocations;
+    if (selected.length === 0) throw new ReceiptError("Allocation not found on this payment", 404);
+    const unrefunded = selected.filter((allocation) =>
+      decimal(allocation.amount).minus(allocation.refunded).isPositive()
+    );
+    if (unrefunded.length === 0) throw new ReceiptError("This gift was refunded in full", 400);
+
+    const subjects: ReceiptSubject[] = [];
+    for (const allocation of unrefunded) {
+      subjects.push({
+        paymentId,
+        allocationId: allocation.id,
+        pledgeId: allocation.pledgeId,
+        contactId: allocation.contactId,
+        locationId: allocation.locationId,
+        donorName: allocation.donorName,
+        donorAddress: allocation.donorAddress,
+        payerName: await payerNameOf(tx, allocation.payerContactId ?? found.payerContactId, allocation.contactId),
+        giftDate,
+        amount: netOf(allocation.amount, allocation.refunded, allocation.currency)!,
+        currency: allocation.currency,
+        amountUsd: netOf(allocation.amountUsd, allocation.refundedUsd, "USD"),
+        paymentMethod: found.paymentMethod,
+        pledgeDescription: allocation.pledgeDescription,
+        dedication:
+          paymentDedication ?? formatDedication(allocation.pledgeDedicationType, allocation.pledgeDedicationName),
+        receiptType: allocation.receiptType,
+      });
+    }
+    return subjects;
+  }
+
+  if (allocationId) throw new ReceiptError("This payment is not split", 400);
+  if (!found.pledgeId) throw new ReceiptError("Payment is not linked to a pledge", 400);
+
+  const [owner] = await tx
+    .select({
+      contactId: contact.id,
+      locationId: contact.locationId,
+      donorName,
+      donorAddress: contact.address,
+      pledgeDescription: pledge.description,
+      pledgeDedicationType: pledge.dedicationType,
+      pledgeDedicationName: pledge.dedicationName,
+    })
+    .from(pledge)
+    .innerJoin(contact, eq(pledge.contactId, contact.id))
+    .where(eq(pledge.id, found.pledgeId))
+    .limit(1);
+  if (!owner) throw new ReceiptError("Pledge not found", 404);
+  const { pledgeDedicationType, pledgeDedicationName, ...donor } = owner;
+
+  const [{ refunded, refundedUsd }] = await tx
+    .select({ refunded: paymentRefundedAmount, refundedUsd: paymentRefundedAmountUsd })
+    .from(payment)
+    .where(eq(payment.id, paymentId));
+
+  return [
+    {
+      paymentId,
+      allocationId: null,
+      pledgeId: found.pledgeId,
+      ...donor,
+      payerName: await payerNameOf(tx, found.payerContactId, donor.contactId),
+      giftDate,
+      amount: netOf(found.amount, refunded, found.currency)!,
+      currency: found.currency,
+      amountUsd: netOf(found.amountUsd, refundedUsd, "USD"),
+      paymentMethod: found.paymentMethod,
+      dedication: paymentDedication ?? formatDedication(pledgeDedicationType, pledgeDedicationName),
+      receiptType: found.receiptType,
+    },
+  ];
+}
+
+async function findActiveReceipt(tx: Transaction, subject: ReceiptSubject) {
+  const [active] = await tx
+    .select()
+    .from(donationReceipt)
+    .where(
+      and(
+        eq(donationReceipt.paymentId, subject.paymentId),
+        subject.allocationId === null
+          ? isNull(donationReceipt.allocationId)
+          : eq(donationReceipt.allocationId, subject.allocationId),
+        eq(donationReceipt.status, "issued")
+      )
+    )
+    .limit(1);
+  return active ?? null;
+}
+
+/**
+ * Official tax receipts use the template registered for the gift's currency,
+ * which must find everything it needs on the donor and pledge first.
+ */
+async function resolveCountryTemplate(tx: Transaction, subject: ReceiptSubject, receiptType: ReceiptType) {
+  const template = receiptType === "receipt" ? receiptTemplateForCurrency(subject.currency) : undefined;
+  if (!template) return { template: "default", templateFields: null };
+
+  const [donor] = await tx
+    .select({
+      address: contact.address,
+      taxId: contact.taxId,
+      giftAidDeclarationDate: contact.giftAidDeclarationDate,
+    })
+    .from(contact)
+    .where(eq(contact.id, subject.contactId))
+    .limit(1);
+  const [pledgeRow] = await tx
+    .select({
+      originalAmount: pledge.originalAmount,
+      advantageAmount: pledge.advantageAmount,
+      advantageDescription: pledge.advantageDescription,
+    })
+    .from(pledge)
+    .where(eq(pledge.id, subject.pledgeId))
+    .limit(1);
+
+  const context = {
+    donor,
+    pledge: pledgeRow ?? null,
+    amount: subject.amount,
+    currency: subject.currency,
+    giftDate: subject.giftDate,
+  };
+  const problems = template.validate(context);
+  if (problems.length > 0) {
+    throw new ReceiptError(`Cannot issue a ${template.name}: ${problems.join("; ")}`, 400);
+  }
+
+  return { template: template.key, templateFields: template.fields(context) };
+}
+
+async function issueForSubject(
+  tx: Transaction,
+  subject: ReceiptSubject,
+  receiptType: ReceiptType,
+  issuedBy: number | null,
+  replacesReceiptId: number | null = null
+): Promise<DonationReceipt> {
+  if (!subject.locationId) {
+    throw new ReceiptError("The donor has no location, so no receipt number can be assigned", 400);
+  }
+
+  const { template, templateFields } = await resolveCountryTemplate(tx, subject, receiptType);
+  const sequence = await nextReceiptNumber(tx, subject.locationId, RECEIPT_SERIES);
+  const receiptNumber = formatDonationReceiptNumber(sequence);
+
+  const [receipt] = await tx
+    .insert(donationReceipt)
+    .values({
+      locationId: subject.locationId,
+      receiptNumber,
+      receiptType,
+      paymentId: subject.paymentId,
+      allocationId: subject.allocationId,
+      contactId: subject.contactId,
+      donorName: subject.donorName,
+      donorAddress: subject.donorAddress,
+      payerName: subject.payerName,
+      giftDate: subject.giftDate,
+      amount: subject.amount,
+      currency: subject.currency,
+      amountUsd: subject.amountUsd,
+      paymentMethod: subject.paymentMethod,
+      pledgeDescription: subject.pledgeDescription,
+      dedication: subject.dedication,
+      template,
+      templateFields,
+      replacesReceiptId,
+      issuedBy,
+    })
+    .returning();
+
+  const receiptFields = { receiptNumber, receiptType, receiptIssued: true, updatedAt: new Date() };
+  if (subject.allocationId === null) {
+    await tx.update(payment).set(receiptFields).where(eq(payment.id, subject.paymentId));
+  } else {
+    await tx
+      .update(paymentAllocations)
+      .set(receiptFields)
+      .where(eq(paymentAllocations.id, subject.allocationId));
+  }
+
+  return receipt;
+}
+
+// Marks the receipt void and unlinks it from the payment it was printed for
+async function markVoid(tx: Transaction, receipt: DonationReceipt, reason: string, voidedBy: number | null) {
+  const [voided] = await tx
+    .update(donationReceipt)
+    .set({ status: "void", voidedAt: new Date(), voidedBy, voidReason: reason })
+    .where(eq(donationReceipt.id, receipt.id))
+    .returning();
+
+  const clearedFields = { receiptNumber: null, receiptIssued: false, updatedAt: new Date() };
+  if (receipt.allocationId !== null) {
+    await tx
+      .update(paymentAllocations)
+      .set(clearedFields)
+      .where(
+        and(
+          eq(paymentAllocations.id, receipt.allocationId),
+          eq(paymentAllocations.receiptNumber, receipt.receiptNumber)
+        )
+      );
+  } else if (receipt.paymentId !== null) {
+    await tx
+      .update(payment)
+      .set(clearedFields)
+      .where(and(eq(payment.id, receipt.paymentId), eq(payment.receiptNumber, receipt.receiptNumber)));
+  }
+
+  return voided;
+}
+
+// The receipt's payment is locked first, in the order refunds take them, so
+// a void or reissue racing a refund cannot deadlock
+async function lockReceipt(tx: Transaction, receiptId: number) {
+  const [target] = await tx
+    .select({ paymentId: donationReceipt.paymentId })
+    .from(donationReceipt)
+    .where(eq(donationReceipt.id, receiptId))
+    .limit(1);
+  if (target?.paymentId) {
+    await tx.select({ id: payment.id }).from(payment).where(eq(payment.id, target.paymentId)).for("update");
+  }
+  const [receipt] = await tx
+    .select()
+    .from(donationReceipt)
+    .where(eq(donationReceipt.id, receiptId))
+    .limit(1)
+    .for("update");
+  if (!receipt) throw new ReceiptError("Receipt not found", 404);
+  return receipt;
+}
+
+export async function listPaymentReceipts(paymentId: number): Promise<DonationReceipt[]> {
+  return db
+    .select()
+    .from(donationReceipt)
+    .where(eq(donationReceipt.paymentId, paymentId))
+    .orderBy(desc(donationReceipt.issuedAt), desc(donationReceipt.id));
+}
+
+export async function getReceipt(receiptId: number) {
+  const [receipt] = await db
+    .select()
+    .from(donationReceipt)
+    .where(eq(donationReceipt.id, receiptId))
+    .limit(1);
+  if (!receipt) throw new ReceiptError("Receipt not found", 404);
+
+  const replaces = receipt.replacesReceiptId
+    ? (
+        await db
+          .select({ receiptNumber: donationReceipt.receiptNumber })
+          .from(donationReceipt)
+          .where(eq(donationReceipt.id, receipt.replacesReceiptId))
+          .limit(1)
+      )[0] ?? null
+    : null;
+
+  return { receipt, replacesReceiptNumber: replaces?.receiptNumber ?? null };
+}
+
+/**
+ * Issues receipts for a completed payment. Split payments get one receipt
+ * per allocation; allocations that already hold a live receipt are left
+ * alone, and asking for one explicitly is a conflict.
+ */
+export async function issuePaymentReceipts(
+  paymentId: number,
+  options: { receiptType?: ReceiptType; allocationId?: number | null; issuedBy: number | null }
+): Promise<DonationReceipt[]> {
+  return withTransaction(async (tx) => {
+    const subjects = await loadReceiptSubjects(tx, paymentId, options.allocationId);
+    const issued: DonationReceipt[] = [];
+
+    for (const subject of subjects) {
+      const active = await findActiveReceipt(tx, subject);
+      if (active) {
+        if (subjects.length === 1) {
+          throw new ReceiptError(
+            `Receipt ${active.receiptNumber} is already issued for this payment; reissue it instead`,
+            409
+          );
+        }
+        continue;
+      }
+      const receiptType = options.receiptType ?? subject.receiptType ?? "receipt";
+      issued.push(await issueForSubject(tx, subject, receiptType, options.issuedBy));
+    }
+
+    if (issued.length === 0) {
+      throw new ReceiptError("Every allocation of this payment already has a receipt", 409);
+    }
+    return issued;
+  });
+}
+
+export async function voidReceipt(
+  receiptId: number,
+  options: { reason: string; voidedBy: number | null }
+): Promise<{ before: DonationReceipt; voided: DonationReceipt }> {
+  return withTransaction(async (tx) => {
+    const before = await lockReceipt(tx, receiptId);
+    if (before.status === "void") throw new ReceiptError("Receipt is already void", 409);
+
+    const voided = await markVoid(tx, before, options.reason, options.voidedBy);
+    return { before, voided };
+  });
+}
+
+/**
+ * Voids a receipt (if still live) and issues a replacement with a new number,
+ * linked back to it. The replacement is printed from the payment's current
+ * details, so corrections made since the original carry over.
+ */
+export async function reissueReceipt(
+  receiptId: number,
+  options: { reason: string; receiptType?: ReceiptType; issuedBy: number | null }
+): Promise<{ before: DonationReceipt; voided: DonationReceipt; replacement: DonationReceipt }> {
+  return withTransaction(async (tx) => {
+    const before = await lockReceipt(tx, receiptId);
+    if (before.paymentId === null) {
+      throw new ReceiptError("The payment for this receipt was deleted; it can only be voided", 409);
+    }
+
+    const [existingReplacement] = await tx
+      .select({ receiptNumber: donationReceipt.receiptNumber })
+      .from(donationReceipt)
+      .where(eq(donationReceipt.replacesReceiptId, receiptId))
+      .limit(1);
+    if (existingReplacement) {
+      throw new ReceiptError(`Receipt was already replaced by ${existingReplacement.receiptNumber}`, 409);
+    }
+
+    const voided =
+      before.status === "void" ? before : await markVoid(tx, before, options.reason, options.issuedBy);
+
+    const [subject] = await loadReceiptSubjects(tx, before.paymentId, before.allocationId);
+    const replacement = await issueForSubject(
+      tx,
+      subject,
+      options.receiptType ?? before.receiptType,
+      options.issuedBy,
+      before.id
+    );
+
+    return { before, voided, replacement };
+  });
+}
+
+/**
+ * Brings a payment's live receipts in line after a refund. A receipt whose
+ * amount no longer matches is voided and, unless the gift was refunded in
+ * full, replaced with one for the net amount. Runs in the refund's own
+ * transaction; a replacement the country template rejects is left for the
+ * user to reissue by hand rather than blocking the refund.
+ */
+export async function reissueRefundedReceipts(
+  tx: Transaction,
+  paymentId: number,
+  options: { reason: string; issuedBy: number | null }
+): Promise<{ voided: DonationReceipt[]; replacements: DonationReceipt[] }> {
+  const live = await tx
+    .select()
+    .from(donationReceipt)
+    .where(and(eq(donationReceipt.paymentId, paymentId), eq(donationReceipt.status, "issued")))
+    .for("update");
+  if (live.length === 0) return { voided: [], replacements: [] };
+
+  const [current] = await tx
+    .select({ paymentStatus: payment.paymentStatus })
+    .from(payment)
+    .where(eq(payment.id, paymentId));
+  const subjects = current?.paymentStatus === "completed" ? await loadReceiptSubjects(tx, paymentId) : [];
+
+  const voided: DonationReceipt[] = [];
+  const replacements: DonationReceipt[] = [];
+  for (const receipt of live) {
+    const subject = subjects.find((candidate) => candidate.allocationId === receipt.allocationId);
+    if (subject && decimal(subject.amount).compare(receipt.amount) === 0) continue;
+
+    voided.push(await markVoid(tx, receipt, options.reason, options.issuedBy));
+    if (!subject) continue;
+    try {
+      replacements.push(await issueForSubject(tx, subject, receipt.receiptType, options.issuedBy, receipt.id));
+    } catch (error) {
+      if (!(error instanceof ReceiptError)) throw error;
+    }
+  }
+  return { voided, replacements };
+}
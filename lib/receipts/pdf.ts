@@ -0,0 +1,46 @@
+import jsPDF from "jspdf";
+
+export interface JsPDFWithAutoTable extends jsPDF {
+  lastAutoTable: {
+    finalY: number;
+  };
+}
+
+export const ORGANIZATION_NAME = process.env.RECEIPT_ORGANIZATION_NAME || "Lev Hatora";
+
+export function formatAmount(amount: number, currency: string) {
+  return new Intl.NumberFormat("en-US", { style: "currency", currency }).format(amount);
+}
+
+/**
+ * Letterhead shared by every receipt: organization and title on the left,
+ * receipt number and issue date on the right.
+ */
+export function drawReceiptHeader(
+  doc: jsPDF,
+  title: string,
+  receiptNumber: string,
+  issuedAt: Date
+) {
+  doc.setFontSize(18);
+  doc.text(ORGANIZATION_NAME, 20, 20);
+  doc.setFontSize(14);
+  doc.text(title, 20, 30);
+
+  doc.setFontSize(10);
+  doc.text(`Receipt No: ${receiptNumber}`, 140, 20);
+  doc.text(`Issued: ${issuedAt.toLocaleDateString("en-US")}`, 140, 26);
+}
+
+// Donor block under the header; returns the y position below it
+export function drawDonorBlock(doc: jsPDF, name: string, address: string | null, y: number): number {
+  doc.setFontSize(11);
+  doc.text(name, 20, y);
+  let yPosition = y + 6;
+  if (address) {
+    const addressLines = doc.splitTextToSize(address, 100) as string[];
+    doc.text(addressLines, 20, yPosition);
+    yPosition += addressLines.length * 6;
+  }
+  return yPosition + 6;
+}
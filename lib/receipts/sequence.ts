@@ -0,0 +1,29 @@
+import { sql } from "drizzle-orm";
+import type { Transaction } from "@/lib/db";
+import { receiptSequence } from "@/lib/db/schema";
+
+/**
+ * Claims the next number of a location's receipt series. The counter row
+ * stays locked until the surrounding transaction ends, so concurrent issuers
+ * queue up and a rolled-back receipt gives its number back: the series never
+ * skips or repeats.
+ */
+export async function nextReceiptNumber(
+  tx: Transaction,
+  locationId: string,
+  series: string
+): Promise<number> {
+  const [row] = await tx
+    .insert(receiptSequence)
+    .values({ locationId, series, lastNumber: 1 })
+    .onConflictDoUpdate({
+      target: [receiptSequence.locationId, receiptSequence.series],
+      set: {
+        lastNumber: sql`${receiptSequence.lastNumber} + 1`,
+        updatedAt: new Date(),
+      },
+    })
+    .returning({ lastNumber: receiptSequence.lastNumber });
+
+  return row.lastNumber;
+}
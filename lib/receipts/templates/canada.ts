@@ -0,0 +1,59 @@
+import { decimal, type Decimal } from "@/lib/money";
+import { formatAmount } from "@/lib/receipts/pdf";
+import type { CountryReceiptTemplate, ReceiptTemplateContext } from "@/lib/receipts/templates/registry";
+
+// Above this share of the gift the CRA does not treat it as a gift at all
+const MAX_ADVANTAGE_RATIO = 0.8;
+
+// The pledge's advantage is spread over its payments by amount
+function advantageForGift({ pledge, amount, currency }: ReceiptTemplateContext): Decimal {
+  const advantage = decimal(pledge?.advantageAmount ?? "0");
+  const pledged = decimal(pledge?.originalAmount ?? "0");
+  if (advantage.isZero() || pledged.isZero()) return decimal(0);
+  const share = decimal(advantage.times(amount).dividedBy(pledged).toMoney(currency));
+  return share.compare(amount) > 0 ? decimal(amount) : share;
+}
+
+// CRA official donation receipt with eligible amount and advantage
+export const canadaCraTemplate: CountryReceiptTemplate = {
+  key: "ca-cra",
+  name: "CRA official donation receipt",
+  title: "Official Receipt for Income Tax Purposes",
+  validate(context) {
+    const problems: string[] = [];
+    if (!process.env.RECEIPT_CRA_REGISTRATION_NUMBER) {
+      problems.push("the charity's CRA registration number is not configured");
+    }
+    if (!context.donor.address) problems.push("the donor's address is missing");
+
+    const advantage = advantageForGift(context);
+    if (advantage.compare(decimal(context.amount).times(MAX_ADVANTAGE_RATIO)) > 0) {
+      problems.push("the advantage exceeds 80% of the gift, so no official receipt can be issued");
+    } else if (advantage.isPositive() && !context.pledge?.advantageDescription) {
+      problems.push("the pledge has an advantage amount without a description");
+    }
+    return problems;
+  },
+  fields(context) {
+    const advantage = advantageForGift(context);
+    return {
+      registrationNumber: process.env.RECEIPT_CRA_REGISTRATION_NUMBER ?? null,
+      eligibleAmount: decimal(context.amount).minus(advantage).toMoney(context.currency),
+      advantageAmount: advantage.toMoney(context.currency),
+      advantageDescription: advantage.isPositive() ? context.pledge?.advantageDescription ?? null : null,
+    };
+  },
+  rows(fields, currency) {
+    return [
+      ["Amount of Advantage", formatAmount(parseFloat(fields.advantageAmount ?? "0"), currency)],
+      ...(fields.advantageDescription
+        ? [["Description of Advantage", fields.advantageDescription] as [string, string]]
+        : []),
+      ["Eligible Amount of Gift", formatAmount(parseFloat(fields.eligibleAmount ?? "0"), currency)],
+      ["Charity Registration No.", fields.registrationNumber ?? "-"],
+    ];
+  },
+  statement() {
+    return "Official receipt for income tax purposes. Canada Revenue Agency: canada.ca/charities-giving";
+  },
+};
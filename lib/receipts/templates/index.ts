@@ -0,0 +1,12 @@
+import { canadaCraTemplate } from "@/lib/receipts/templates/canada";
+import { israelSection46Template } from "@/lib/receipts/templates/israel";
+import { registerReceiptTemplate } from "@/lib/receipts/templates/registry";
+import { ukGiftAidTemplate } from "@/lib/receipts/templates/united-kingdom";
+
+// Gifts in other currencies get the generic receipt
+registerReceiptTemplate(israelSection46Template, ["ILS"]);
+registerReceiptTemplate(canadaCraTemplate, ["CAD"]);
+registerReceiptTemplate(ukGiftAidTemplate, ["GBP"]);
+
+export * from "@/lib/receipts/templates/registry";
+export { isValidTeudatZehut } from "@/lib/receipts/templates/israel";
@@ -0,0 +1,48 @@
+import type { CountryReceiptTemplate } from "@/lib/receipts/templates/registry";
+
+/**
+ * Teudat Zehut check digit: digits weighted 1,2,1,2..., two-digit products
+ * summed, total divisible by 10. Shorter numbers are zero-padded to nine.
+ */
+export function isValidTeudatZehut(value: string): boolean {
+  const digits = value.replace(/[\s-]/g, "");
+  if (!/^\d{5,9}$/.test(digits)) return false;
+
+  let sum = 0;
+  for (const [index, digit] of [...digits.padStart(9, "0")].entries()) {
+    const product = Number(digit) * ((index % 2) + 1);
+    sum += product > 9 ? product - 9 : product;
+  }
+  return sum % 10 === 0;
+}
+
+// Section 46 receipts: the donor's ID number and the organization's approval
+export const israelSection46Template: CountryReceiptTemplate = {
+  key: "il-section-46",
+  name: "Section 46 receipt",
+  title: "Donation Receipt (Section 46)",
+  validate({ donor }) {
+    const problems: string[] = [];
+    if (!process.env.RECEIPT_IL_SECTION46_NUMBER) {
+      problems.push("the organization's Section 46 approval number is not configured");
+    }
+    if (!donor.taxId) problems.push("the donor's Teudat Zehut is missing");
+    else if (!isValidTeudatZehut(donor.taxId)) problems.push("the donor's Teudat Zehut is not valid");
+    return problems;
+  },
+  fields({ donor }) {
+    return {
+      donorTaxId: donor.taxId,
+      approvalNumber: process.env.RECEIPT_IL_SECTION46_NUMBER ?? null,
+    };
+  },
+  rows(fields) {
+    return [["Donor ID (Teudat Zehut)", fields.donorTaxId ?? "-"]];
+  },
+  statement(fields) {
+    return (
+      "Donations to this organization are recognized for tax credit purposes under Section 46 " +
+      `of the Income Tax Ordinance (approval no. ${fields.approvalNumber}).`
+    );
+  },
+};
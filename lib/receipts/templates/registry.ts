@@ -0,0 +1,49 @@
+import type { Contact, DonationReceipt, Pledge } from "@/lib/db/schema";
+
+export type ReceiptCurrency = DonationReceipt["currency"];
+
+// Values frozen onto the receipt so a reprint matches what was issued
+export type ReceiptTemplateFields = Record<string, string | null>;
+
+export interface ReceiptTemplateContext {
+  donor: Pick<Contact, "address" | "taxId" | "giftAidDeclarationDate">;
+  pledge: Pick<Pledge, "originalAmount" | "advantageAmount" | "advantageDescription"> | null;
+  amount: string;
+  currency: ReceiptCurrency;
+  giftDate: string;
+}
+
+export interface CountryReceiptTemplate {
+  key: string;
+  // Used in validation messages, e.g. "CRA official donation receipt"
+  name: string;
+  title: string;
+  /** Everything missing or wrong for this country; empty when the receipt may be issued. */
+  validate(context: ReceiptTemplateContext): string[];
+  fields(context: ReceiptTemplateContext): ReceiptTemplateFields;
+  /** Extra rows for the gift table, rendered from the frozen fields. */
+  rows(fields: ReceiptTemplateFields, currency: ReceiptCurrency): Array<[string, string]>;
+  statement(fields: ReceiptTemplateFields): string;
+}
+
+const templatesByCurrency = new Map<ReceiptCurrency, CountryReceiptTemplate>();
+const templatesByKey = new Map<string, CountryReceiptTemplate>();
+
+/**
+ * Makes a template the official tax receipt for gifts in these currencies.
+ * Registering a currency again replaces its template.
+ */
+export function registerReceiptTemplate(template: CountryReceiptTemplate, currencies: ReceiptCurrency[]) {
+  templatesByKey.set(template.key, template);
+  for (const currency of currencies) {
+    templatesByCurrency.set(currency, template);
+  }
+}
+
+export function receiptTemplateForCurrency(currency: ReceiptCurrency): CountryReceiptTemplate | undefined {
+  return templatesByCurrency.get(currency);
+}
+
+export function receiptTemplateByKey(key: string): CountryReceiptTemplate | undefined {
+  return templatesByKey.get(key);
+}
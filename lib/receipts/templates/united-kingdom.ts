@@ -0,0 +1,57 @@
+import { decimal } from "@/lib/money";
+import { formatAmount } from "@/lib/receipts/pdf";
+import type { CountryReceiptTemplate } from "@/lib/receipts/templates/registry";
+
+// Basic-rate relief: the charity reclaims 25p per pound given
+const GIFT_AID_RATE = 0.25;
+
+// A declaration also covers gifts made in the four years before it
+const DECLARATION_LOOKBACK_YEARS = 4;
+
+function declarationCovers(declarationDate: string, giftDate: string): boolean {
+  const earliest = new Date(declarationDate);
+  earliest.setFullYear(earliest.getFullYear() - DECLARATION_LOOKBACK_YEARS);
+  return giftDate >= earliest.toISOString().split("T")[0];
+}
+
+// Gift Aid receipt, backed by the donor's declaration
+export const ukGiftAidTemplate: CountryReceiptTemplate = {
+  key: "uk-gift-aid",
+  name: "Gift Aid receipt",
+  title: "Gift Aid Donation Receipt",
+  validate({ donor, giftDate }) {
+    const problems: string[] = [];
+    if (!process.env.RECEIPT_UK_CHARITY_REFERENCE) {
+      problems.push("the charity's HMRC reference is not configured");
+    }
+    // HMRC matches claims on the donor's home address
+    if (!donor.address) problems.push("the donor's home address is missing");
+    if (!donor.giftAidDeclarationDate) {
+      problems.push("the donor has no Gift Aid declaration on file");
+    } else if (!declarationCovers(donor.giftAidDeclarationDate, giftDate)) {
+      problems.push("the Gift Aid declaration does not cover a gift this old");
+    }
+    return problems;
+  },
+  fields({ donor, amount, currency }) {
+    return {
+      declarationDate: donor.giftAidDeclarationDate,
+      charityReference: process.env.RECEIPT_UK_CHARITY_REFERENCE ?? null,
+      giftAidAmount: decimal(amount).times(GIFT_AID_RATE).toMoney(currency),
+    };
+  },
+  rows(fields, currency) {
+    return [
+      ["Gift Aid Declaration", fields.declarationDate ?? "-"],
+      ["Gift Aid Reclaimable", formatAmount(parseFloat(fields.giftAidAmount ?? "0"), currency)],
+      ["HMRC Charity Reference", fields.charityReference ?? "-"],
+    ];
+  },
+  statement() {
+    return (
+      "You have declared that you are a UK taxpayer and that Gift Aid may be claimed on this donation. " +
+      "If you pay less Income Tax and/or Capital Gains Tax than the amount of Gift Aid claimed on all " +
+      "your donations in that tax year, it is your responsibility to pay any difference."
+    );
+  },
+};
@@ -0,0 +1,249 @@
+import { and, asc, desc, eq, getTableColumns, gte, gt, inArray, sql } from "drizzle-orm";
+import { db, withTransaction } from "@/lib/db";
+import { auditLog, payment, paymentAllocations, pledge } from "@/lib/db/schema";
+import { recordAudit, type AuditChanges } from "@/lib/audit-log";
+import { updatePaymentPlanTotals, updatePledgeTotals } from "@/lib/payment-totals";
+import { assertPaymentUnlocked } from "@/lib/deposit-batches/batches";
+import { syncInstallment } from "@/lib/payment-plans/installment-payments";
+import { DomainError } from "@/lib/error-handler";
+
+export type HistoryEntityType = "pledge" | "payment";
+
+export interface HistoryEntry {
+  id: number;
+  action: string;
+  userEmail: string;
+  details: string | null;
+  changes: AuditChanges | null;
+  timestamp: Date;
+}
+
+export class RecordHistoryError extends DomainError {
+  constructor(message: string, statusCode: 400 | 404 | 409) {
+    super(message, statusCode);
+    this.name = "RecordHistoryError";
+  }
+}
+
+// Never restored: identity and timestamps, plus columns other workflows own.
+// Putting those back by hand would contradict the records they keep, e.g. a
+// refunded payment marked completed while its refund rows remain.
+const PROTECTED_FIELDS: Record<HistoryEntityType, Set<string>> = {
+  pledge: new Set([
+    "id",
+    "createdAt",
+    "updatedAt",
+    // Recomputed from payments and adjustments
+    "totalPaid",
+    "totalPaidUsd",
+    "balance",
+    "balanceUsd",
+    "totalAdjusted",
+    "totalAdjustedUsd",
+    // Plan renewals
+    "renewedFromPledgeId",
+  ]),
+  payment: new Set([
+    "id",
+    "createdAt",
+    "updatedAt",
+    // Refunds, processors and installment collection
+    "paymentStatus",
+    // Deposit batches
+    "depositBatchId",
+    // Bank reconciliation
+    "isReconciled",
+    "bankDepositId",
+    "reconciledAt",
+    // Donation receipts
+    "receiptNumber",
+    "receiptType",
+    "receiptIssued",
+  ]),
+};
+
+const tables = { pledge, payment };
+
+export async function getRecordHistory(
+  entityType: HistoryEntityType,
+  entityId: number
+): Promise<HistoryEntry[]> {
+  return db
+    .select({
+      id: auditLog.id,
+      action: auditLog.action,
+      userEmail: auditLog.userEmail,
+      details: auditLog.details,
+      changes: auditLog.changes,
+      timestamp: auditLog.timestamp,
+    })
+    .from(auditLog)
+    .where(and(eq(auditLog.entityType, entityType), eq(auditLog.entityId, entityId)))
+    .orderBy(desc(auditLog.timestamp), desc(auditLog.id));
+}
+
+/**
+ * Field values of the version that existed just before `auditLogId`. Every
+ * later edit is rolled back too, so the oldest `from` of each field wins.
+ */
+async function buildRestoreValues(
+  entityType: HistoryEntityType,
+  entityId: number,
+  auditLogId: number
+): Promise<Record<string, unknown>> {
+  const entries = await db
+    .select({ id: auditLog.id, action: auditLog.action, changes: auditLog.changes })
+    .from(auditLog)
+    .where(
+      and(
+        eq(auditLog.entityType, entityType),
+        eq(auditLog.entityId, entityId),
+        gte(auditLog.id, auditLogId)
+      )
+    )
+    .orderBy(asc(auditLog.id));
+
+  const target = entries[0];
+  if (!target || target.id !== auditLogId) {
+    throw new RecordHistoryError("History entry not found for this record", 404);
+  }
+  if (target.action !== "update") {
+    throw new RecordHistoryError("Only edits can be reverted", 400);
+  }
+
+  const columns = getTableColumns(tables[entityType]);
+  const values: Record<string, unknown> = {};
+
+  for (const entry of entries) {
+    if (entry.action !== "update") continue;
+    for (const [field, change] of Object.entries(entry.changes ?? {})) {
+      if (field in values || PROTECTED_FIELDS[entityType].has(field) || !(field in columns)) continue;
+      const column = columns[field as keyof typeof columns];
+      // Timestamps are stored as ISO strings in the diff
+      values[field] =
+        column.columnType === "PgTimestamp" && typeof change.from === "string"
+          ? new Date(change.from)
+          : change.from;
+    }
+  }
+
+  if (Object.keys(values).length === 0) {
+    throw new RecordHistoryError("Nothing to revert", 400);
+  }
+  return values;
+}
+
+export async function revertPledge(request: Request, pledgeId: number, auditLogId: number) {
+  const [current] = await db.select().from(pledge).where(eq(pledge.id, pledgeId)).limit(1);
+  if (!current) throw new RecordHistoryError("Pledge not found", 404);
+
+  const values = await buildRestoreValues("pledge", pledgeId, auditLogId);
+  const reverted = await withTransaction(async (tx) => {
+    await tx
+      .update(pledge)
+      .set({ ...values, updatedAt: new Date() })
+      .where(eq(pledge.id, pledgeId));
+
+    // Balance follows the restored amount
+    await updatePledgeTotals(pledgeId, tx);
+
+    const [row] = await tx.select().from(pledge).where(eq(pledge.id, pledgeId)).limit(1);
+    return row;
+  });
+  await recordAudit(request, {
+    action: "update",
+    entityType: "pledge",
+    entityId: pledgeId,
+    before: current,
+    after: reverted,
+    note: `reverted to the version before history entry #${auditLogId}`,
+  });
+
+  return reverted;
+}
+
+export async function revertPayment(request: Request, paymentId: number, auditLogId: number) {
+  const [current] = await db.select().from(payment).where(eq(payment.id, paymentId)).limit(1);
+  if (!current) throw new RecordHistoryError("Payment not found", 404);
+
+  // Split allocations are replaced wholesale on edit and cannot be rebuilt
+  // from field diffs, so only payments whose split is untouched can revert.
+  // Its allocations are the current rows plus any whose create or delete
+  // entry recorded it as their payment.
+  const allocationIds = sql`(
+    SELECT ${paymentAllocations.id} FROM ${paymentAllocations}
+    WHERE ${paymentAllocations.paymentId} = ${paymentId}
+    UNION
+    SELECT ${auditLog.entityId} FROM ${auditLog}
+    WHERE ${auditLog.entityType} = 'paymentAllocation'
+      AND ${String(paymentId)} IN (${auditLog.changes}->'paymentId'->>'from', ${auditLog.changes}->'paymentId'->>'to')
+  )`;
+  const allocationChanges = await db
+    .select({ id: auditLog.id })
+    .from(auditLog)
+    .where(
+      and(
+        eq(auditLog.entityType, "paymentAllocation"),
+        gt(auditLog.id, auditLogId),
+        inArray(auditLog.entityId, allocationIds)
+      )
+    )
+    .limit(1);
+  if (allocationChanges.length > 0) {
+    throw new RecordHistoryError(
+      "The split allocations of this payment changed since this version; edit the payment instead",
+      409
+    );
+  }
+
+  const values = await buildRestoreValues("payment", paymentId, auditLogId);
+  const reverted = await withTransaction(async (tx) => {
+    // A closed batch's slip totals are final until it is reopened
+    await assertPaymentUnlocked(paymentId, tx);
+
+    const [row] = await tx
+      .update(payment)
+      .set({ ...values, updatedAt: new Date() })
+      .where(eq(payment.id, paymentId))
+      .returning();
+
+    if (row.installmentScheduleId !== current.installmentScheduleId) {
+      if (current.installmentScheduleId) await syncInstallment(tx, current.installmentScheduleId, false, row);
+      if (row.installmentScheduleId) {
+        const counts = row.paymentStatus === "completed" || row.paymentStatus === "processing";
+        await syncInstallment(tx, row.installmentScheduleId, counts, row);
+      }
+    }
+
+    const allocations = await tx
+      .select({ pledgeId: paymentAllocations.pledgeId })
+      .from(paymentAllocations)
+      .where(eq(paymentAllocations.paymentId, paymentId));
+
+    const pledgeIds = new Set<number>(allocations.map((allocation) => allocation.pledgeId));
+    const planIds = new Set<number>();
+    for (const version of [current, row]) {
+      if (version.pledgeId) pledgeIds.add(version.pledgeId);
+      if (version.paymentPlanId) planIds.add(version.paymentPlanId);
+    }
+
+    for (const id of pledgeIds) {
+      await updatePledgeTotals(id, tx);
+    }
+    for (const id of planIds) {
+      await updatePaymentPlanTotals(id, tx);
+    }
+    return row;
+  });
+
+  await recordAudit(request, {
+    action: "update",
+    entityType: "payment",
+    entityId: paymentId,
+    before: current,
+    after: reverted,
+    note: `reverted to the version before history entry #${auditLogId}`,
+  });
+
+  return reverted;
+}
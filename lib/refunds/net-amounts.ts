@@ -0,0 +1,41 @@
+import { sql } from "drizzle-orm";
+import { payment, paymentAllocations, paymentRefund, paymentRefundAllocation } from "@/lib/db/schema";
+
+// Refunds taken off a payment, in its own currency and in USD
+export const paymentRefundedAmount = sql<string>`COALESCE((
+  SELECT SUM(${paymentRefund.amount}) FROM ${paymentRefund}
+  WHERE ${paymentRefund.paymentId} = ${payment.id}
+), 0)`;
+
+export const paymentRefundedAmountUsd = sql<string>`COALESCE((
+  SELECT SUM(${paymentRefund.amountUsd}) FROM ${paymentRefund}
+  WHERE ${paymentRefund.paymentId} = ${payment.id}
+), 0)`;
+
+// The share of those refunds that came off one allocation of a split payment
+export const allocationRefundedAmount = sql<string>`COALESCE((
+  SELECT SUM(${paymentRefundAllocation.amount}) FROM ${paymentRefundAllocation}
+  WHERE ${paymentRefundAllocation.allocationId} = ${paymentAllocations.id}
+), 0)`;
+
+export const allocationRefundedAmountUsd = sql<string>`COALESCE((
+  SELECT SUM(${paymentRefundAllocation.amountUsd}) FROM ${paymentRefundAllocation}
+  WHERE ${paymentRefundAllocation.allocationId} = ${paymentAllocations.id}
+), 0)`;
+
+/**
+ * Net USD amount of a payment for the hand-written report queries, which
+ * alias payment as `p` and fall back to the original amount when it was
+ * never converted. Fully refunded payments are already excluded by status.
+ */
+export const netPaymentAmountSql = (alias = "p") => `(COALESCE(${alias}.amount_usd, ${alias}.amount) - COALESCE((
+          SELECT SUM(COALESCE(r.amount_usd, r.amount)) FROM payment_refund r WHERE r.payment_id = ${alias}.id
+        ), 0))`;
+
+// The same for an allocation, aliased `pa`
+export const netAllocationAmountSql = (alias = "pa") => `(COALESCE(${alias}.allocated_amount_usd, ${alias}.allocated_amount) - COALESCE((
+          SELECT SUM(COALESCE(ra.amount_usd, ra.amount)) FROM payment_refund_allocation ra WHERE ra.allocation_id = ${alias}.id
+        ), 0))`;
+
+// A payment's USD amount less its refunds, for dashboard sums
+export const netPaymentAmountUsd = sql<string>`(${payment.amountUsd} - ${paymentRefundedAmountUsd})`;
@@ -0,0 +1,448 @@
+import { and, desc, eq, inArray, or, sql } from "drizzle-orm";
+import type { AuditEntry } from "@/lib/audit-log";
+import { db, withTransaction, type Transaction } from "@/lib/db";
+import {
+  bonusCalculation,
+  installmentSchedule,
+  payment,
+  paymentAllocations,
+  paymentRefund,
+  paymentRefundAllocation,
+  pledge,
+  refundTypeEnum,
+  type DonationReceipt,
+  type Payment,
+  type PaymentRefund,
+  type PaymentRefundAllocation,
+} from "@/lib/db/schema";
+import { decimal, minorUnits, proportionOf, type Decimal } from "@/lib/money";
+import { updatePaymentPlanTotals, updatePledgeTotals } from "@/lib/payment-totals";
+import { syncInstallment } from "@/lib/payment-plans/installment-payments";
+import { reissueRefundedReceipts } from "@/lib/receipts/donation-receipt";
+import { allocationRefundedAmount, paymentRefundedAmount } from "@/lib/refunds/net-amounts";
+import { DomainError } from "@/lib/error-handler";
+
+export type RefundType = (typeof refundTypeEnum.enumValues)[number];
+
+export class RefundError extends DomainError {
+  constructor(message: string, statusCode: 400 | 404 | 409) {
+    super(message, statusCode);
+    this.name = "RefundError";
+  }
+}
+
+export interface RefundInput {
+  type: RefundType;
+  // In the payment's currency
+  amount: number;
+  reason: string;
+  refundDate: string;
+  referenceNumber?: string | null;
+  // How a split payment's refund comes off its allocations; spread in
+  // proportion to what is left on each when omitted
+  allocations?: { allocationId: number; amount: number }[];
+}
+
+export interface RefundOutcome {
+  refund: PaymentRefund;
+  allocations: PaymentRefundAllocation[];
+  // The payment as it was and as the refund left it
+  payment: { before: Payment; after: Payment };
+  receipts: { voided: DonationReceipt[]; replacements: DonationReceipt[] };
+}
+
+// The same share of a converted amount as `part` is of `whole`
+function proportion(value: string | null, part: Decimal, whole: string, currency: string | null): string | null {
+  if (value === null || currency === null) return null;
+  return proportionOf(value, part, whole, currency);
+}
+
+async function lockPayment(tx: Transaction, paymentId: number) {
+  const [found] = await tx.select().from(payment).where(eq(payment.id, paymentId)).limit(1).for("update");
+  if (!found) throw new RefundError("Payment not found", 404);
+  return found;
+}
+
+async function loadAllocations(tx: Transaction, paymentId: number) {
+  return tx
+    .select({
+      id: paymentAllocations.id,
+      pledgeId: paymentAllocations.pledgeId,
+      installmentScheduleId: paymentAllocations.installmentScheduleId,
+      allocatedAmount: paymentAllocations.allocatedAmount,
+      allocatedAmountUsd: paymentAllocations.allocatedAmountUsd,
+      allocatedAmountInPledgeCurrency: paymentAllocations.allocatedAmountInPledgeCurrency,
+      pledgeCurrency: pledge.currency,
+      refunded: allocationRefundedAmount,
+    })
+    .from(paymentAllocations)
+    .innerJoin(pledge, eq(paymentAllocations.pledgeId, pledge.id))
+    .where(eq(paymentAllocations.paymentId, paymentId))
+    .orderBy(paymentAllocations.id);
+}
+
+type RefundableAllocation = Awaited<ReturnType<typeof loadAllocations>>[number];
+
+/**
+ * Splits a refund of a split payment across its allocations, in the
+ * payment's currency. An explicit split must add up to the refund;
+ * otherwise it is spread over what is left on each allocation, the last one
+ * taking the rounding.
+ */
+function splitAcrossAllocations(
+  allocations: RefundableAllocation[],
+  amount: Decimal,
+  currency: string,
+  requested: RefundInput["allocations"]
+): { allocation: RefundableAllocation; amount: Decimal }[] {
+  const places = minorUnits(currency);
+  const remaining = new Map(
+    allocations.map((allocation) => [allocation.id, decimal(allocation.allocatedAmount).minus(allocation.refunded)])
+  );
+
+  if (requested && requested.length > 0) {
+    const seen = new Set<number>();
+    const split = requested.map((entry) => {
+      const allocation = allocations.find((candidate) => candidate.id === entry.allocationId);
+      if (!allocation) throw new RefundError(`Allocation #${entry.allocationId} is not on this payment`, 400);
+      if (seen.has(allocation.id)) throw new RefundError(`Allocation #${allocation.id} is listed twice`, 400);
+      seen.add(allocation.id);
+      const share = decimal(entry.amount).round(places);
+      if (share.compare(remaining.get(allocation.id)!) > 0) {
+        throw new RefundError(
+          `At most ${remaining.get(allocation.id)!.toMoney(currency)} can be refunded from allocation #${allocation.id}`,
+          400
+        );
+      }
+      return { allocation, amount: share };
+    });
+    const total = split.reduce<Decimal>((sum, entry) => sum.plus(entry.amount), decimal(0));
+    if (total.compare(amount) !== 0) {
+      throw new RefundError(
+        `Allocation refunds total ${total.toMoney(currency)} but the refund is ${amount.toMoney(currency)}`,
+        400
+      );
+    }
+    return split.filter((entry) => entry.amount.isPositive());
+  }
+
+  const open = allocations.filter((allocation) => remaining.get(allocation.id)!.isPositive());
+  const openTotal = open.reduce<Decimal>((sum, allocation) => sum.plus(remaining.get(allocation.id)!), decimal(0));
+  let assigned = decimal(0);
+  return open
+    .map((allocation, index) => {
+      const share =
+        index === open.length - 1
+          ? amount.minus(assigned)
+          : amount.times(remaining.get(allocation.id)!).dividedBy(openTotal).truncate(places);
+      assigned = assigned.plus(share);
+      return { allocation, amount: share };
+    })
+    .filter((entry) => entry.amount.isPositive());
+}
+
+/**
+ * Re-bases the solicitor's bonus on what the payment still brings in. A
+ * bonus already paid out keeps its paid flag, with a note of how much of it
+ * is now owed back.
+ */
+async function syncBonus(tx: Transaction, current: Payment, refundedUsd: string) {
+  const [calculation] = await tx
+    .select()
+    .from(bonusCalculation)
+    .where(eq(bonusCalculation.paymentId, current.id))
+    .limit(1)
+    .for("update");
+  if (!calculation) return;
+
+  const netUsd =
+    current.paymentStatus === "refunded"
+      ? decimal(0)
+      : decimal(current.amountUsd ?? current.amount)
+          .minus(refundedUsd)
+          .clampToZero();
+  const bonusAmount = netUsd.times(calculation.bonusPercentage).dividedBy(100).toMoney("USD");
+  if (decimal(bonusAmount).compare(calculation.bonusAmount) === 0) return;
+
+  const overpaid = calculation.isPaid ? decimal(calculation.bonusAmount).minus(bonusAmount) : decimal(0);
+  const note = overpaid.isPositive()
+    ? `${overpaid.toMoney("USD")} USD of the paid bonus to recover after a refund`
+    : overpaid.isNegative()
+      ? `${overpaid.abs().toMoney("USD")} USD still to pay after a refund was voided`
+      : null;
+
+  await tx
+    .update(bonusCalculation)
+    .set({
+      paymentAmount: netUsd.toMoney("USD"),
+      bonusAmount,
+      calculatedAt: new Date(),
+      notes: note ? [calculation.notes, note].filter(Boolean).join("\n") : calculation.notes,
+    })
+    .where(eq(bonusCalculation.id, calculation.id));
+  await tx.update(payment).set({ bonusAmount, updatedAt: new Date() }).where(eq(payment.id, current.id));
+}
+
+/**
+ * Everything that hangs off a payment's net amount: plan and pledge totals,
+ * installment status, the solicitor's bonus and live receipts. Idempotent,
+ * so recording and voiding a refund both finish here.
+ */
+async function applyRefundEffects(tx: Transaction, paymentId: number, reason: string, userId: number | null) {
+  const [current] = await tx.select().from(payment).where(eq(payment.id, paymentId)).limit(1);
+  const allocations = await loadAllocations(tx, paymentId);
+  const [{ refunded, refundedUsd }] = await tx
+    .select({
+      refunded: paymentRefundedAmount,
+      refundedUsd: sql<string>`COALESCE((
+        SELECT SUM(COALESCE(${paymentRefund.amountUsd}, ${paymentRefund.amount})) FROM ${paymentRefund}
+        WHERE ${paymentRefund.paymentId} = ${payment.id}
+      ), 0)`,
+    })
+    .from(payment)
+    .where(eq(payment.id, paymentId));
+  const stillPaid = current.paymentStatus === "completed";
+
+  if (current.paymentPlanId) await updatePaymentPlanTotals(current.paymentPlanId, tx);
+  const pledgeIds = new Set(allocations.map((allocation) => allocation.pledgeId));
+  if (current.pledgeId) pledgeIds.add(current.pledgeId);
+  for (const pledgeId of pledgeIds) {
+    await updatePledgeTotals(pledgeId, tx);
+  }
+
+  // A partly refunded installment stays paid: reopening it would collect
+  // the whole installment again. The plan's remaining amount shows the gap.
+  if (current.installmentScheduleId) {
+    await syncInstallment(tx, current.installmentScheduleId, stillPaid, current);
+  }
+  for (const allocation of allocations) {
+    if (!allocation.installmentScheduleId) continue;
+    const left = decimal(allocation.allocatedAmount).minus(allocation.refunded);
+    await syncInstallment(tx, allocation.installmentScheduleId, stillPaid && left.isPositive(), current);
+  }
+
+  await syncBonus(tx, current, refundedUsd);
+
+  const receipts = await reissueRefundedReceipts(tx, paymentId, { reason, issuedBy: userId });
+  // Re-read so the bonus and receipt fields just written come back too
+  const [after] = await tx.select().from(payment).where(eq(payment.id, paymentId)).limit(1);
+  return { current: after, refunded, receipts };
+}
+
+/**
+ * Records a refund or chargeback against a completed payment. Partial
+ * refunds leave the payment completed and count against its net amount;
+ * refunding whatever is left marks it refunded. Allowed on payments in a
+ * closed deposit batch: the deposit still happened, and the refund leaves
+ * the amount the batch's slip totals add up untouched.
+ */
+export async function recordRefund(paymentId: number, input: RefundInput, userId: number | null): Promise<RefundOutcome> {
+  return withTransaction(async (tx) => {
+    const original = await lockPayment(tx, paymentId);
+    if (original.paymentStatus !== "completed") {
+      throw new RefundError("Only completed payments can be refunded", 409);
+    }
+
+    const [{ refunded }] = await tx
+      .select({ refunded: paymentRefundedAmount })
+      .from(payment)
+      .where(eq(payment.id, paymentId));
+    const refundable = decimal(original.amount).minus(refunded);
+    const amount = decimal(input.amount).round(minorUnits(original.currency));
+    if (!amount.isPositive() || amount.compare(refundable) > 0) {
+      throw new RefundError(`At most ${refundable.toMoney(original.currency)} ${original.currency} can be refunded`, 400);
+    }
+    const [paymentPledge] = original.pledgeId
+      ? await tx.select({ currency: pledge.currency }).from(pledge).where(eq(pledge.id, original.pledgeId)).limit(1)
+      : [];
+
+    const allocations = await loadAllocations(tx, paymentId);
+    if (allocations.length === 0 && input.allocations?.length) {
+      throw new RefundError("This payment is not split", 400);
+    }
+    const split = allocations.length > 0 ? splitAcrossAllocations(allocations, amount, original.currency, input.allocations) : [];
+
+    const [refund] = await tx
+      .insert(paymentRefund)
+      .values({
+        paymentId,
+        type: input.type,
+        amount: amount.toMoney(original.currency),
+        currency: original.currency,
+        amountUsd: proportion(original.amountUsd, amount, original.amount, "USD"),
+        amountInPledgeCurrency: proportion(
+          original.amountInPledgeCurrency,
+          amount,
+          original.amount,
+          paymentPledge?.currency ?? null
+        ),
+        reason: input.reason,
+        refundDate: input.refundDate,
+        referenceNumber: input.referenceNumber || null,
+        createdBy: userId,
+      })
+      .returning();
+
+    const refundAllocations =
+      split.length > 0
+        ? await tx
+            .insert(paymentRefundAllocation)
+            .values(
+              split.map(({ allocation, amount: share }) => ({
+                refundId: refund.id,
+                allocationId: allocation.id,
+                amount: share.toMoney(original.currency),
+                amountUsd: proportion(allocation.allocatedAmountUsd, share, allocation.allocatedAmount, "USD"),
+                amountInPledgeCurrency: proportion(
+                  allocation.allocatedAmountInPledgeCurrency,
+                  share,
+                  allocation.allocatedAmount,
+                  allocation.pledgeCurrency
+                ),
+              }))
+            )
+            .returning()
+        : [];
+
+    if (amount.compare(refundable) === 0) {
+      await tx
+        .update(payment)
+        .set({ paymentStatus: "refunded", updatedAt: new Date() })
+        .where(eq(payment.id, paymentId));
+    }
+
+    const label = input.type === "chargeback" ? "Chargeback" : "Refund";
+    const { current, receipts } = await applyRefundEffects(
+      tx,
+      paymentId,
+      `${label} #${refund.id}: ${input.reason}`,
+      userId
+    );
+    return {
+      refund,
+      allocations: refundAllocations,
+      payment: { before: original, after: current },
+      receipts,
+    };
+  });
+}
+
+/**
+ * Removes a refund recorded in error, or a chargeback the donor's bank
+ * reversed, and restores everything it took off the payment.
+ */
+export async function voidRefund(refundId: number, userId: number | null): Promise<RefundOutcome> {
+  return withTransaction(async (tx) => {
+    const [refund] = await tx.select().from(paymentRefund).where(eq(paymentRefund.id, refundId)).limit(1);
+    if (!refund) throw new RefundError("Refund not found", 404);
+    const original = await lockPayment(tx, refund.paymentId);
+
+    const allocations = await tx
+      .select()
+      .from(paymentRefundAllocation)
+      .where(eq(paymentRefundAllocation.refundId, refundId));
+    await tx.delete(paymentRefund).where(eq(paymentRefund.id, refundId));
+    if (original.paymentStatus === "refunded") {
+      await tx
+        .update(payment)
+        .set({ paymentStatus: "completed", updatedAt: new Date() })
+        .where(eq(payment.id, original.id));
+    }
+
+    const label = refund.type === "chargeback" ? "Chargeback" : "Refund";
+    const { current, receipts } = await applyRefundEffects(
+      tx,
+      refund.paymentId,
+      `${label} #${refund.id} voided`,
+      userId
+    );
+    return { refund, allocations, payment: { before: original, after: current }, receipts };
+  });
+}
+
+// Audit entries for the payment and receipts a refund touched, besides the refund row
+export function refundSideEffectAudits(outcome: RefundOutcome, note: string): AuditEntry[] {
+  return [
+    {
+      action: "update",
+      entityType: "payment",
+      entityId: outcome.payment.after.id,
+      before: outcome.payment.before,
+      after: outcome.payment.after,
+      note,
+    },
+    ...outcome.receipts.voided.map((receipt) => ({
+      action: "update" as const,
+      entityType: "donationReceipt" as const,
+      entityId: receipt.id,
+      after: receipt,
+      note: `voided: ${note}`,
+    })),
+    ...outcome.receipts.replacements.map((receipt) => ({
+      action: "create" as const,
+      entityType: "donationReceipt" as const,
+      entityId: receipt.id,
+      after: receipt,
+      note: `No. ${receipt.receiptNumber} for the net amount after ${note}`,
+    })),
+  ];
+}
+
+/**
+ * A payment's refunds with their allocation splits, plus what is left to
+ * refund in total and on each allocation.
+ */
+export async function listPaymentRefunds(paymentId: number) {
+  const [found] = await db
+    .select({
+      amount: payment.amount,
+      currency: payment.currency,
+      paymentStatus: payment.paymentStatus,
+      refunded: paymentRefundedAmount,
+    })
+    .from(payment)
+    .where(eq(payment.id, paymentId))
+    .limit(1);
+  if (!found) throw new RefundError("Payment not found", 404);
+
+  const refunds = await db
+    .select()
+    .from(paymentRefund)
+    .where(eq(paymentRefund.paymentId, paymentId))
+    .orderBy(desc(paymentRefund.refundDate), desc(paymentRefund.id));
+  const refundAllocations =
+    refunds.length > 0
+      ? await db
+          .select()
+          .from(paymentRefundAllocation)
+          .where(
+            inArray(
+              paymentRefundAllocation.refundId,
+              refunds.map((refund) => refund.id)
+            )
+          )
+      : [];
+  const allocations = await db
+    .select({
+      id: paymentAllocations.id,
+      pledgeId: paymentAllocations.pledgeId,
+      pledgeDescription: pledge.description,
+      allocatedAmount: paymentAllocations.allocatedAmount,
+      currency: paymentAllocations.currency,
+      refunded: allocationRefundedAmount,
+    })
+    .from(paymentAllocations)
+    .innerJoin(pledge, eq(paymentAllocations.pledgeId, pledge.id))
+    .where(eq(paymentAllocations.paymentId, paymentId))
+    .orderBy(paymentAllocations.id);
+
+  return {
+    ...found,
+    refundable: decimal(found.amount).minus(found.refunded).toMoney(found.currency),
+    refunds: refunds.map((refund) => ({
+      ...refund,
+      allocations: refundAllocations.filter((allocation) => allocation.refundId === refund.id),
+    })),
+    allocations,
+  };
+}
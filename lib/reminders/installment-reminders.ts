@@ -0,0 +1,238 @@
+import { addDays, format, parseISO } from "date-fns";
+import { and, eq, gt, inArray, lte, sql } from "drizzle-orm";
+import { db, withTransaction } from "@/lib/db";
+import {
+  contact,
+  installmentReminder,
+  installmentSchedule,
+  paymentPlan,
+  pledge,
+} from "@/lib/db/schema";
+import { getEmailTransport, type EmailTransport } from "@/lib/email/transport";
+import { renderReminder } from "@/lib/reminders/templates";
+
+// 7 days before, on the due date and 14 days overdue
+export const DEFAULT_REMINDER_OFFSETS = [-7, 0, 14];
+
+// A missed nightly run still sends reminders up to this many days late
+const CATCH_UP_DAYS = 3;
+
+// A claim older than this belongs to a run that died mid-send
+const STALE_CLAIM_INTERVAL = sql`interval '1 hour'`;
+
+export interface SendInstallmentRemindersOptions {
+  // Run date as YYYY-MM-DD; defaults to today
+  asOf?: string;
+  offsets?: number[];
+  transport?: EmailTransport;
+  // null covers every location
+  locationId?: string | null;
+  // Lists what would be sent without sending or recording anything
+  dryRun?: boolean;
+}
+
+export interface ReminderSent {
+  installmentId: number;
+  paymentPlanId: number;
+  offsetDays: number;
+  recipient: string;
+  subject: string;
+}
+
+export interface ReminderProblem {
+  installmentId: number;
+  offsetDays: number;
+  reason: string;
+}
+
+export interface SendInstallmentRemindersResult {
+  sent: ReminderSent[];
+  skipped: ReminderProblem[];
+  failed: ReminderProblem[];
+}
+
+/**
+ * Offsets from `REMINDER_OFFSETS` ("-7,0,14"), falling back to the defaults
+ * when unset or unparseable.
+ */
+export function reminderOffsetsFromEnv(): number[] {
+  const raw = process.env.REMINDER_OFFSETS;
+  if (!raw) return DEFAULT_REMINDER_OFFSETS;
+  const offsets = raw.split(",").map((value) => parseInt(value.trim(), 10));
+  return offsets.every((offset) => !isNaN(offset)) ? offsets : DEFAULT_REMINDER_OFFSETS;
+}
+
+function shiftDate(date: string, days: number) {
+  return format(addDays(parseISO(date), days), "yyyy-MM-dd");
+}
+
+/**
+ * Open installments of running plans whose reminder for this offset fell due
+ * within the catch-up window and has not gone out yet.
+ */
+async function findDueReminders(asOf: string, offsetDays: number, locationId: string | null) {
+  const conditions = [
+    lte(installmentSchedule.installmentDate, shiftDate(asOf, -offsetDays)),
+    gt(installmentSchedule.installmentDate, shiftDate(asOf, -offsetDays - CATCH_UP_DAYS)),
+    inArray(installmentSchedule.status, ["pending", "overdue"]),
+    // The nightly sweep marks plans with a late installment overdue; they still get dunning
+    inArray(paymentPlan.planStatus, ["active", "overdue"]),
+    eq(paymentPlan.isActive, true),
+    sql`NOT EXISTS (
+      SELECT 1 FROM ${installmentReminder}
+      WHERE ${installmentReminder.installmentScheduleId} = ${installmentSchedule.id}
+        AND ${installmentReminder.offsetDays} = ${offsetDays}
+        AND (${installmentReminder.status} = 'sent'
+          OR ${installmentReminder.createdAt} > now() - ${STALE_CLAIM_INTERVAL})
+    )`,
+  ];
+  if (locationId) conditions.push(eq(contact.locationId, locationId));
+
+  return db
+    .select({
+      installmentId: installmentSchedule.id,
+      paymentPlanId: paymentPlan.id,
+      dueDate: installmentSchedule.installmentDate,
+      amount: installmentSchedule.installmentAmount,
+      currency: installmentSchedule.currency,
+      planName: paymentPlan.planName,
+      pledgeDescription: pledge.description,
+      email: contact.email,
+      donorName: sql<string>`COALESCE(${contact.displayName}, CONCAT(${contact.firstName}, ' ', ${contact.lastName}))`,
+    })
+    .from(installmentSchedule)
+    .innerJoin(paymentPlan, eq(installmentSchedule.paymentPlanId, paymentPlan.id))
+    .innerJoin(pledge, eq(paymentPlan.pledgeId, pledge.id))
+    .innerJoin(contact, eq(pledge.contactId, contact.id))
+    .where(and(...conditions))
+    .orderBy(installmentSchedule.installmentDate, installmentSchedule.id);
+}
+
+/**
+ * Claims the reminder before sending so overlapping runs cannot both send
+ * it. Returns false when another run holds or already used the claim.
+ */
+async function claimReminder(values: typeof installmentReminder.$inferInsert): Promise<boolean> {
+  const claimed = await db
+    .insert(installmentReminder)
+    .values(values)
+    .onConflictDoUpdate({
+      target: [installmentReminder.installmentScheduleId, installmentReminder.offsetDays],
+      set: {
+        recipient: values.recipient,
+        transport: values.transport,
+        subject: values.subject,
+        createdAt: new Date(),
+      },
+      setWhere: sql`${installmentReminder.status} = 'sending'
+        AND ${installmentReminder.createdAt} <= now() - ${STALE_CLAIM_INTERVAL}`,
+    })
+    .returning({ id: installmentReminder.id });
+  return claimed.length > 0;
+}
+
+/**
+ * Sends every reminder due on the run date. Offsets are worked from the most
+ * overdue down, and an installment gets at most one reminder per run.
+ */
+export async function sendInstallmentReminders(
+  options: SendInstallmentRemindersOptions = {}
+): Promise<SendInstallmentRemindersResult> {
+  const asOf = options.asOf ?? format(new Date(), "yyyy-MM-dd");
+  const offsets = [...(options.offsets ?? reminderOffsetsFromEnv())].sort((a, b) => b - a);
+  const transport = options.transport ?? getEmailTransport();
+  const result: SendInstallmentRemindersResult = { sent: [], skipped: [], failed: [] };
+  const remindedThisRun = new Set<number>();
+
+  for (const offsetDays of offsets) {
+    const due = await findDueReminders(asOf, offsetDays, options.locationId ?? null);
+
+    for (const row of due) {
+      const skip = (reason: string) =>
+        result.skipped.push({ installmentId: row.installmentId, offsetDays, reason });
+
+      if (remindedThisRun.has(row.installmentId)) {
+        skip("A later reminder was sent in this run");
+        continue;
+      }
+      if (!row.email) {
+        skip("Donor has no email address");
+        continue;
+      }
+
+      const message = { to: row.email, ...renderReminder({ ...row, offsetDays }) };
+      const reminder: ReminderSent = {
+        installmentId: row.installmentId,
+        paymentPlanId: row.paymentPlanId,
+        offsetDays,
+        recipient: row.email,
+        subject: message.subject,
+      };
+
+      if (options.dryRun) {
+        result.sent.push(reminder);
+        remindedThisRun.add(row.installmentId);
+        continue;
+      }
+
+      const claimed = await claimReminder({
+        installmentScheduleId: row.installmentId,
+        paymentPlanId: row.paymentPlanId,
+        offsetDays,
+        recipient: row.email,
+        transport: transport.name,
+        subject: message.subject,
+      });
+      if (!claimed) {
+        skip("Already sent by another run");
+        continue;
+      }
+
+      try {
+        await transport.send(message);
+      } catch (error) {
+        // Give the claim back so the next run retries
+        await db
+          .delete(installmentReminder)
+          .where(
+            and(
+              eq(installmentReminder.installmentScheduleId, row.installmentId),
+              eq(installmentReminder.offsetDays, offsetDays)
+            )
+          );
+        console.error(`Failed to send reminder for installment ${row.installmentId}:`, error);
+        result.failed.push({
+          installmentId: row.installmentId,
+          offsetDays,
+          reason: error instanceof Error ? error.message : "Unknown error",
+        });
+        continue;
+      }
+
+      await withTransaction(async (tx) => {
+        await tx
+          .update(installmentReminder)
+          .set({ status: "sent", sentAt: new Date() })
+          .where(
+            and(
+              eq(installmentReminder.installmentScheduleId, row.installmentId),
+              eq(installmentReminder.offsetDays, offsetDays)
+            )
+          );
+        await tx
+          .update(paymentPlan)
+          .set({
+            remindersSent: sql`${paymentPlan.remindersSent} + 1`,
+            lastReminderDate: asOf,
+            updatedAt: new Date(),
+          })
+          .where(eq(paymentPlan.id, row.paymentPlanId));
+      });
+
+      result.sent.push(reminder);
+      remindedThisRun.add(row.installmentId);
+    }
+  }
+
+  return result;
+}
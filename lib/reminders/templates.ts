@@ -0,0 +1,87 @@
+import type { EmailMessage } from "@/lib/email/transport";
+
+export interface ReminderTemplateContext {
+  donorName: string;
+  planName: string | null;
+  pledgeDescription: string | null;
+  amount: string;
+  currency: string;
+  dueDate: string;
+  // Days relative to the due date: negative before, positive overdue
+  offsetDays: number;
+}
+
+export type ReminderKind = "upcoming" | "due" | "overdue";
+
+type ReminderContent = Pick<EmailMessage, "subject" | "text">;
+
+const ORGANIZATION_NAME = process.env.RECEIPT_ORGANIZATION_NAME || "Lev Hatora";
+
+export function reminderKind(offsetDays: number): ReminderKind {
+  if (offsetDays < 0) return "upcoming";
+  return offsetDays === 0 ? "due" : "overdue";
+}
+
+function formatAmount(amount: string, currency: string) {
+  return new Intl.NumberFormat("en-US", { style: "currency", currency }).format(parseFloat(amount));
+}
+
+function describePlan(context: ReminderTemplateContext) {
+  return context.planName || context.pledgeDescription || "your pledge";
+}
+
+const REMINDER_TEMPLATES: Record<ReminderKind, (context: ReminderTemplateContext) => ReminderContent> = {
+  upcoming: (context) => ({
+    subject: `Upcoming installment of ${formatAmount(context.amount, context.currency)} on ${context.dueDate}`,
+    text:
+      `Dear ${context.donorName},\n\n` +
+      `This is a friendly reminder that your next installment of ${formatAmount(context.amount, context.currency)} ` +
+      `toward ${describePlan(context)} is due on ${context.dueDate}, in ${-context.offsetDays} days.\n\n` +
+      `Thank you for your continued support.\n${ORGANIZATION_NAME}`,
+  }),
+  due: (context) => ({
+    subject: `Your installment of ${formatAmount(context.amount, context.currency)} is due today`,
+    text:
+      `Dear ${context.donorName},\n\n` +
+      `Your installment of ${formatAmount(context.amount, context.currency)} toward ${describePlan(context)} ` +
+      `is due today, ${context.dueDate}.\n\n` +
+      `If you have already paid, thank you and please disregard this message.\n${ORGANIZATION_NAME}`,
+  }),
+  overdue: (context) => ({
+    subject: `Overdue installment of ${formatAmount(context.amount, context.currency)}`,
+    text:
+      `Dear ${context.donorName},\n\n` +
+      `Our records show that your installment of ${formatAmount(context.amount, context.currency)} ` +
+      `toward ${describePlan(context)}, due on ${context.dueDate}, is ${context.offsetDays} days overdue.\n\n` +
+      `If you have already paid, thank you and please disregard this message. ` +
+      `Otherwise, please contact us to arrange payment.\n${ORGANIZATION_NAME}`,
+  }),
+};
+
+export function renderReminder(context: ReminderTemplateContext): ReminderContent {
+  return REMINDER_TEMPLATES[reminderKind(context.offsetDays)](context);
+}
+
+export interface YahrzeitTemplateContext {
+  donorName: string;
+  deceasedName: string;
+  relationship: string | null;
+  // Gregorian date of the yahrzeit day, which begins the evening before
+  yahrzeitDate: string;
+  hebrewDate: string;
+}
+
+export function renderYahrzeitReminder(context: YahrzeitTemplateContext): ReminderContent {
+  const remembered = context.relationship
+    ? `your ${context.relationship.toLowerCase()}, ${context.deceasedName}`
+    : context.deceasedName;
+  return {
+    subject: `Yahrzeit of ${context.deceasedName} on ${context.yahrzeitDate}`,
+    text:
+      `Dear ${context.donorName},\n\n` +
+      `The yahrzeit of ${remembered} falls on ${context.hebrewDate}, ` +
+      `which is ${context.yahrzeitDate}. It begins at sundown the evening before.\n\n` +
+      `We remember ${context.deceasedName} with you. If you would like to mark the yahrzeit ` +
+      `with a dedication, please be in touch.\n${ORGANIZATION_NAME}`,
+  };
+}
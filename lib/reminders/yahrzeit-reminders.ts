@@ -0,0 +1,199 @@
+import { addDays, format, parseISO } from "date-fns";
+import { and, eq, inArray, or, sql } from "drizzle-orm";
+import { db } from "@/lib/db";
+import { contact, memorial, yahrzeitReminder } from "@/lib/db/schema";
+import { getEmailTransport, type EmailTransport } from "@/lib/email/transport";
+import { formatHebrewDate } from "@/lib/hebrew-date";
+import { nextYahrzeit } from "@/lib/memorials/memorials";
+import { renderYahrzeitReminder } from "@/lib/reminders/templates";
+
+// Reminders go out this many days ahead of the yahrzeit
+export const DEFAULT_YAHRZEIT_LEAD_DAYS = 10;
+
+// A claim older than this belongs to a run that died mid-send
+const STALE_CLAIM_INTERVAL = sql`interval '1 hour'`;
+
+export interface SendYahrzeitRemindersOptions {
+  // Run date as YYYY-MM-DD; defaults to today
+  asOf?: string;
+  leadDays?: number;
+  transport?: EmailTransport;
+  // null covers every location
+  locationId?: string | null;
+  // Lists what would be sent without sending or recording anything
+  dryRun?: boolean;
+}
+
+export interface YahrzeitReminderSent {
+  memorialId: number;
+  hebrewYear: number;
+  yahrzeitDate: string;
+  recipient: string;
+  subject: string;
+}
+
+export interface YahrzeitReminderProblem {
+  memorialId: number;
+  hebrewYear: number;
+  reason: string;
+}
+
+export interface SendYahrzeitRemindersResult {
+  sent: YahrzeitReminderSent[];
+  skipped: YahrzeitReminderProblem[];
+  failed: YahrzeitReminderProblem[];
+}
+
+// Lead time from `YAHRZEIT_REMINDER_DAYS`, falling back to the default
+export function yahrzeitLeadDaysFromEnv(): number {
+  const leadDays = parseInt(process.env.YAHRZEIT_REMINDER_DAYS ?? "", 10);
+  return isNaN(leadDays) || leadDays < 0 ? DEFAULT_YAHRZEIT_LEAD_DAYS : leadDays;
+}
+
+const reminderKey = (memorialId: number, hebrewYear: number) => `${memorialId}:${hebrewYear}`;
+
+/**
+ * Claims the reminder before sending so overlapping runs cannot both send
+ * it. Returns false when another run holds or already used the claim.
+ */
+async function claimReminder(values: typeof yahrzeitReminder.$inferInsert): Promise<boolean> {
+  const claimed = await db
+    .insert(yahrzeitReminder)
+    .values(values)
+    .onConflictDoUpdate({
+      target: [yahrzeitReminder.memorialId, yahrzeitReminder.hebrewYear],
+      set: {
+        recipient: values.recipient,
+        transport: values.transport,
+        subject: values.subject,
+        createdAt: new Date(),
+      },
+      setWhere: sql`${yahrzeitReminder.status} = 'sending'
+        AND ${yahrzeitReminder.createdAt} <= now() - ${STALE_CLAIM_INTERVAL}`,
+    })
+    .returning({ id: yahrzeitReminder.id });
+  return claimed.length > 0;
+}
+
+/**
+ * Sends a reminder for every yahrzeit that falls within the lead time of
+ * the run date. Yahrzeit dates move against the Gregorian calendar, so they
+ * are worked out from each memorial's Hebrew date on every run; a memorial
+ * gets one reminder per Hebrew year.
+ */
+export async function sendYahrzeitReminders(
+  options: SendYahrzeitRemindersOptions = {}
+): Promise<SendYahrzeitRemindersResult> {
+  const asOf = options.asOf ?? format(new Date(), "yyyy-MM-dd");
+  const horizon = format(addDays(parseISO(asOf), options.leadDays ?? yahrzeitLeadDaysFromEnv()), "yyyy-MM-dd");
+  const transport = options.transport ?? getEmailTransport();
+  const result: SendYahrzeitRemindersResult = { sent: [], skipped: [], failed: [] };
+
+  const conditions = [eq(memorial.isActive, true), eq(memorial.remindersEnabled, true)];
+  if (options.locationId) conditions.push(eq(contact.locationId, options.locationId));
+
+  const memorials = await db
+    .select({
+      id: memorial.id,
+      deceasedName: memorial.deceasedName,
+      relationship: memorial.relationship,
+      hebrewDay: memorial.hebrewDay,
+      hebrewMonth: memorial.hebrewMonth,
+      hebrewYear: memorial.hebrewYear,
+      email: contact.email,
+      donorName: sql<string>`COALESCE(${contact.displayName}, CONCAT(${contact.firstName}, ' ', ${contact.lastName}))`,
+    })
+    .from(memorial)
+    .innerJoin(contact, eq(memorial.contactId, contact.id))
+    .where(and(...conditions))
+    .orderBy(memorial.id);
+
+  const due = memorials
+    .map((row) => ({ ...row, next: nextYahrzeit(row, asOf) }))
+    .filter((row) => row.next.date <= horizon);
+  if (due.length === 0) return result;
+
+  // Sent reminders, and claims a live run still holds, are not retried
+  const handled = await db
+    .select({ memorialId: yahrzeitReminder.memorialId, hebrewYear: yahrzeitReminder.hebrewYear })
+    .from(yahrzeitReminder)
+    .where(
+      and(
+        inArray(
+          yahrzeitReminder.memorialId,
+          due.map((row) => row.id)
+        ),
+        or(
+          eq(yahrzeitReminder.status, "sent"),
+          sql`${yahrzeitReminder.createdAt} > now() - ${STALE_CLAIM_INTERVAL}`
+        )
+      )
+    );
+  const handledKeys = new Set(handled.map((row) => reminderKey(row.memorialId, row.hebrewYear)));
+
+  for (const row of due) {
+    const { hebrewYear, date } = row.next;
+    if (handledKeys.has(reminderKey(row.id, hebrewYear))) continue;
+
+    if (!row.email) {
+      result.skipped.push({ memorialId: row.id, hebrewYear, reason: "Donor has no email address" });
+      continue;
+    }
+
+    const message = {
+      to: row.email,
+      ...renderYahrzeitReminder({
+        donorName: row.donorName,
+        deceasedName: row.deceasedName,
+        relationship: row.relationship,
+        yahrzeitDate: date,
+        hebrewDate: formatHebrewDate(date),
+      }),
+    };
+    const reminder: YahrzeitReminderSent = {
+      memorialId: row.id,
+      hebrewYear,
+      yahrzeitDate: date,
+      recipient: row.email,
+      subject: message.subject,
+    };
+
+    if (options.dryRun) {
+      result.sent.push(reminder);
+      continue;
+    }
+
+    const claimed = await claimReminder({
+      memorialId: row.id,
+      hebrewYear,
+      yahrzeitDate: date,
+      recipient: row.email,
+      transport: transport.name,
+      subject: message.subject,
+    });
+    if (!claimed) {
+      result.skipped.push({ memorialId: row.id, hebrewYear, reason: "Already sent by another run" });
+      continue;
+    }
+
+    const reminderRow = and(eq(yahrzeitReminder.memorialId, row.id), eq(yahrzeitReminder.hebrewYear, hebrewYear));
+    try {
+      await transport.send(message);
+    } catch (error) {
+      // Give the claim back so the next run retries
+      await db.delete(yahrzeitReminder).where(reminderRow);
+      console.error(`Failed to send yahrzeit reminder for memorial ${row.id}:`, error);
+      result.failed.push({
+        memorialId: row.id,
+        hebrewYear,
+        reason: error instanceof Error ? error.message : "Unknown error",
+      });
+      continue;
+    }
+
+    await db.update(yahrzeitReminder).set({ status: "sent", sentAt: new Date() }).where(reminderRow);
+    result.sent.push(reminder);
+  }
+
+  return result;
+}
@@ -0,0 +1,42 @@
+import { timingSafeEqual } from "node:crypto";
+import { NextRequest } from "next/server";
+import { AuthorizationError, type LocationContext, type RouteContext } from "@/lib/auth-guard";
+
+type ZapierHandler<P> = (
+  request: NextRequest,
+  context: RouteContext<P>,
+  scope: LocationContext
+) => Promise<Response>;
+
+const equalInConstantTime = (a: Buffer, b: Buffer) => a.length === b.length && timingSafeEqual(a, b);
+
+/**
+ * Zapier has no session, so its routes take `Authorization: Bearer <key>`
+ * instead. Each location gets its own key, set as
+ * `ZAPIER_API_KEYS=<locationId>:<key>,<locationId>:<key>`, and a call only
+ * sees that location's records. Without keys configured every call is
+ * refused.
+ */
+export function findZapierLocation(request: NextRequest): string | null {
+  const received = Buffer.from(request.headers.get("authorization") ?? "");
+  let match: string | null = null;
+  for (const pair of (process.env.ZAPIER_API_KEYS ?? "").split(",")) {
+    const separator = pair.indexOf(":");
+    if (separator <= 0) continue;
+    const locationId = pair.slice(0, separator).trim();
+    const key = pair.slice(separator + 1).trim();
+    // Every key is compared, so the time taken does not reveal which matched
+    if (key && equalInConstantTime(received, Buffer.from(`Bearer ${key}`))) match = locationId;
+  }
+  return match;
+}
+
+export function withZapierKey<P = Record<string, string>>(handler: ZapierHandler<P>) {
+  return async (request: NextRequest, context: RouteContext<P>): Promise<Response> => {
+    const locationId = findZapierLocation(request);
+    if (!locationId) {
+      return new AuthorizationError("Unauthorized", "UNAUTHORIZED", 401).toResponse();
+    }
+    return handler(request, context, { locationId, isGlobal: false });
+  };
+}
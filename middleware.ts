@@ -15,7 +15,7 @@ export default withAuth(
         if (token.role === "super_admin") return true;
 
         // Regular admin routes
-        if (pathname.startsWith("/admin")) {
+        if (pathname.startsWith("/admin") || pathname.startsWith("/api/admin")) {
           return token.role === "admin";
         }
 
@@ -62,10 +62,12 @@ export const config = {
      * Match all request paths except for the ones starting with:
      * - api/auth (NextAuth API routes)
      * - api/webhook (webhook endpoints)
+     * - api/cron (scheduled jobs, checked against CRON_SECRET)
+     * - api/zapier (Zapier, checked against ZAPIER_API_KEYS)
      * - _next/static (static files)
      * - _next/image (image optimization files)
      * - favicon.ico (favicon file)
      */
-    "/((?!api/auth|api/webhook|_next/static|_next/image|favicon.ico).*)",
+    "/((?!api/auth|api/webhook|api/cron|api/zapier|_next/static|_next/image|favicon.ico).*)",
   ],
 };
@@ -0,0 +1,56 @@
+// scripts/collect-installments.ts
+//
+// Charges due installments of payment plans that collect from a saved card
+// or bank account. Declined installments are retried once a day up to the
+// attempt limit; anything already charged or settling is never sent again.
+//
+//   tsx scripts/collect-installments.ts [YYYY-MM-DD] [--location <locationId>] [--plan <id>] [--dry-run]
+
+import 'dotenv/config';
+import { collectDueInstallments } from '../lib/payment-plans/collect-installments';
+
+function parseArgs(args: string[]) {
+  const valueOf = (flag: string) => {
+    const index = args.indexOf(flag);
+    return index >= 0 ? args[index + 1] : undefined;
+  };
+  const plan = valueOf('--plan');
+  return {
+    asOf: args.find((arg) => /^\d{4}-\d{2}-\d{2}$/.test(arg)),
+    locationId: valueOf('--location') ?? null,
+    paymentPlanId: plan ? parseInt(plan, 10) : undefined,
+    dryRun: args.includes('--dry-run'),
+  };
+}
+
+async function main() {
+  const options = parseArgs(process.argv.slice(2));
+  const result = await collectDueInstallments(options);
+
+  const label = options.dryRun ? 'Would collect' : 'Collected';
+  console.log(`💳 Installment collection as of ${result.asOf}${options.locationId ? ` for location ${options.locationId}` : ''}`);
+  for (const entry of result.collected) {
+    console.log(`  ✅ ${label} installment ${entry.installmentId} (plan ${entry.paymentPlanId}): ${entry.amount} ${entry.currency}`);
+  }
+  for (const entry of result.pending) {
+    console.log(`  ⏳ Settling installment ${entry.installmentId} (plan ${entry.paymentPlanId}): ${entry.amount} ${entry.currency}`);
+  }
+  for (const problem of result.declined) {
+    console.log(`  🚫 Declined installment ${problem.installmentId} (plan ${problem.paymentPlanId}): ${problem.reason}`);
+  }
+  for (const problem of result.failed) {
+    console.log(`  ❌ Failed installment ${problem.installmentId} (plan ${problem.paymentPlanId}): ${problem.reason}`);
+  }
+  console.log(
+    `  ${result.collected.length} collected, ${result.pending.length} settling, ${result.declined.length} declined, ` +
+      `${result.failed.length} failed, ${result.skipped.length} skipped`
+  );
+
+  // The transaction pool keeps idle sockets open
+  process.exit(result.failed.length > 0 ? 1 : 0);
+}
+
+main().catch((error) => {
+  console.error('❌ Installment collection failed:', error);
+  process.exit(1);
+});
@@ -0,0 +1,47 @@
+// scripts/encrypt-ach-account-numbers.ts
+//
+// One-off follow-up to migration 0028: encrypts the bank account numbers
+// saved for NACHA debits before the encryption column existed, then drops
+// the plaintext column. Needs ACH_ACCOUNT_NUMBER_KEY; safe to rerun.
+//
+//   tsx scripts/encrypt-ach-account-numbers.ts
+
+import 'dotenv/config';
+import { sql } from 'drizzle-orm';
+import { withTransaction } from '../lib/db';
+import { sealAccountNumber } from '../lib/ach/batches';
+
+async function main() {
+  const encrypted = await withTransaction(async (tx) => {
+    const column = await tx.execute(
+      sql`SELECT 1 FROM information_schema.columns
+        WHERE table_name = 'saved_payment_method' AND column_name = 'account_number'`
+    );
+    if ((column as unknown as { rows: unknown[] }).rows.length === 0) return null;
+
+    const plaintext = await tx.execute(
+      sql`SELECT id, account_number FROM saved_payment_method WHERE account_number IS NOT NULL FOR UPDATE`
+    );
+    const rows = (plaintext as unknown as { rows: { id: number; account_number: string }[] }).rows;
+    for (const row of rows) {
+      await tx.execute(
+        sql`UPDATE saved_payment_method
+          SET account_number_encrypted = ${sealAccountNumber(row.account_number)}, updated_at = now()
+          WHERE id = ${row.id}`
+      );
+    }
+    await tx.execute(sql`ALTER TABLE saved_payment_method DROP COLUMN account_number`);
+    return rows.length;
+  });
+
+  if (encrypted === null) console.log('🔐 Account numbers are already encrypted');
+  else console.log(`🔐 Encrypted ${encrypted} bank account numbers and dropped the plaintext column`);
+
+  // The transaction pool keeps idle sockets open
+  process.exit(0);
+}
+
+main().catch((error) => {
+  console.error('❌ Account number encryption failed:', error);
+  process.exit(1);
+});
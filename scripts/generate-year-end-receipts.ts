@@ -0,0 +1,43 @@
+// scripts/generate-year-end-receipts.ts
+//
+// Batch job for year-end tax receipts. Issues a consolidated statement to
+// every donor who gave in the tax year; donors already receipted are skipped,
+// so the job can be rerun safely.
+//
+//   tsx scripts/generate-year-end-receipts.ts [taxYear] [--location <locationId>]
+
+import 'dotenv/config';
+import { generateAnnualReceipts } from '../lib/receipts/annual-statement';
+
+function parseArgs(args: string[]) {
+  const locationIndex = args.indexOf('--location');
+  const locationId = locationIndex >= 0 ? args[locationIndex + 1] : null;
+  const yearArg = args.find((arg, index) => /^\d{4}$/.test(arg) && index !== locationIndex + 1);
+
+  // Receipts go out early in the year for the one that just ended
+  const taxYear = yearArg ? parseInt(yearArg, 10) : new Date().getFullYear() - 1;
+  return { taxYear, locationId };
+}
+
+async function main() {
+  const { taxYear, locationId } = parseArgs(process.argv.slice(2));
+  console.log(`🧾 Generating ${taxYear} year-end receipts${locationId ? ` for location ${locationId}` : ''}...`);
+
+  const result = await generateAnnualReceipts({ taxYear, locationId });
+
+  for (const receipt of result.issued) {
+    console.log(`  ✅ ${receipt.receiptNumber}  ${receipt.donorName} (${receipt.paymentCount} gifts)`);
+  }
+  for (const skip of result.skipped) {
+    console.log(`  ⏭️  contact ${skip.contactId}: ${skip.reason}`);
+  }
+  console.log(`\nIssued ${result.issued.length} receipts, skipped ${result.skipped.length}.`);
+
+  // The transaction pool keeps idle sockets open
+  process.exit(0);
+}
+
+main().catch((error) => {
+  console.error('❌ Year-end receipt generation failed:', error);
+  process.exit(1);
+});
@@ -0,0 +1,67 @@
+// scripts/mock-gateway-webhook.ts
+//
+// Plays the mock gateway's side of settlement: every pending mock charge is
+// settled (or returned, for test accounts ending in 0000) by posting a
+// signed webhook to the running app, exactly as a real processor would.
+//
+//   tsx scripts/mock-gateway-webhook.ts [--url http://localhost:3000] [--transaction <externalId>]
+
+import 'dotenv/config';
+import { and, eq, isNotNull } from 'drizzle-orm';
+import { db } from '../lib/db';
+import { processorTransaction, savedPaymentMethod } from '../lib/db/schema';
+import { MOCK_SIGNATURE_HEADER, mockSettlement, signMockWebhook } from '../lib/payment-processors/mock-gateway';
+
+function parseArgs(args: string[]) {
+  const valueOf = (flag: string) => {
+    const index = args.indexOf(flag);
+    return index >= 0 ? args[index + 1] : undefined;
+  };
+  return {
+    url: valueOf('--url') ?? 'http://localhost:3000',
+    transaction: valueOf('--transaction'),
+  };
+}
+
+async function main() {
+  const { url, transaction } = parseArgs(process.argv.slice(2));
+  const secret = process.env.MOCK_GATEWAY_WEBHOOK_SECRET || 'mock-webhook-secret';
+
+  const conditions = [
+    eq(processorTransaction.processor, 'mock'),
+    eq(processorTransaction.status, 'pending'),
+    isNotNull(processorTransaction.externalId),
+  ];
+  if (transaction) conditions.push(eq(processorTransaction.externalId, transaction));
+
+  const pending = await db
+    .select({ externalId: processorTransaction.externalId, token: savedPaymentMethod.token })
+    .from(processorTransaction)
+    .innerJoin(savedPaymentMethod, eq(processorTransaction.savedPaymentMethodId, savedPaymentMethod.id))
+    .where(and(...conditions));
+
+  console.log(`🏦 ${pending.length} pending mock transaction(s)`);
+  let failures = 0;
+  for (const row of pending) {
+    const event = mockSettlement(row.token, row.externalId!);
+    const { body, signature } = signMockWebhook(event, secret);
+    const response = await fetch(`${url}/api/webhook/payments/mock`, {
+      method: 'POST',
+      headers: { 'content-type': 'application/json', [MOCK_SIGNATURE_HEADER]: signature },
+      body,
+    });
+    if (response.ok) {
+      console.log(`  ${event.type === 'transaction.settled' ? '✅ Settled' : '↩️  Returned'} ${row.externalId}`);
+    } else {
+      failures++;
+      console.log(`  ❌ ${row.externalId}: ${response.status} ${await response.text()}`);
+    }
+  }
+
+  process.exit(failures > 0 ? 1 : 0);
+}
+
+main().catch((error) => {
+  console.error('❌ Mock webhook delivery failed:', error);
+  process.exit(1);
+});
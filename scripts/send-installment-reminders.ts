@@ -0,0 +1,44 @@
+// scripts/send-installment-reminders.ts
+//
+// Sends the installment reminders due on a date (today by default). Each
+// reminder is recorded once sent, so the job can be rerun safely.
+//
+//   tsx scripts/send-installment-reminders.ts [YYYY-MM-DD] [--location <locationId>] [--dry-run]
+
+import 'dotenv/config';
+import { sendInstallmentReminders } from '../lib/reminders/installment-reminders';
+
+function parseArgs(args: string[]) {
+  const locationIndex = args.indexOf('--location');
+  const locationId = locationIndex >= 0 ? args[locationIndex + 1] : null;
+  const asOf = args.find((arg) => /^\d{4}-\d{2}-\d{2}$/.test(arg));
+  return { asOf, locationId, dryRun: args.includes('--dry-run') };
+}
+
+async function main() {
+  const { asOf, locationId, dryRun } = parseArgs(process.argv.slice(2));
+  console.log(`📬 ${dryRun ? 'Listing' : 'Sending'} installment reminders${asOf ? ` for ${asOf}` : ''}...`);
+
+  const result = await sendInstallmentReminders({ asOf, locationId, dryRun });
+
+  for (const reminder of result.sent) {
+    console.log(`  ✅ installment ${reminder.installmentId} (${reminder.offsetDays}d) → ${reminder.recipient}`);
+  }
+  for (const skip of result.skipped) {
+    console.log(`  ⏭️  installment ${skip.installmentId} (${skip.offsetDays}d): ${skip.reason}`);
+  }
+  for (const failure of result.failed) {
+    console.log(`  ❌ installment ${failure.installmentId} (${failure.offsetDays}d): ${failure.reason}`);
+  }
+  console.log(
+    `\n${dryRun ? 'Would send' : 'Sent'} ${result.sent.length}, skipped ${result.skipped.length}, failed ${result.failed.length}.`
+  );
+
+  // The transaction pool keeps idle sockets open
+  process.exit(result.failed.length > 0 ? 1 : 0);
+}
+
+main().catch((error) => {
+  console.error('❌ Installment reminder run failed:', error);
+  process.exit(1);
+});
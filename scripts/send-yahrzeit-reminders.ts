@@ -0,0 +1,46 @@
+// scripts/send-yahrzeit-reminders.ts
+//
+// Sends reminders for yahrzeits coming up within the lead time of a date
+// (today by default). Each reminder is recorded once sent, so the job can be
+// rerun safely.
+//
+//   tsx scripts/send-yahrzeit-reminders.ts [YYYY-MM-DD] [--days <n>] [--location <locationId>] [--dry-run]
+
+import 'dotenv/config';
+import { sendYahrzeitReminders } from '../lib/reminders/yahrzeit-reminders';
+
+function parseArgs(args: string[]) {
+  const locationIndex = args.indexOf('--location');
+  const locationId = locationIndex >= 0 ? args[locationIndex + 1] : null;
+  const daysIndex = args.indexOf('--days');
+  const leadDays = daysIndex >= 0 ? parseInt(args[daysIndex + 1], 10) : undefined;
+  const asOf = args.find((arg) => /^\d{4}-\d{2}-\d{2}$/.test(arg));
+  return { asOf, leadDays, locationId, dryRun: args.includes('--dry-run') };
+}
+
+async function main() {
+  const { asOf, leadDays, locationId, dryRun } = parseArgs(process.argv.slice(2));
+  console.log(`🕯️  ${dryRun ? 'Listing' : 'Sending'} yahrzeit reminders${asOf ? ` for ${asOf}` : ''}...`);
+
+  const result = await sendYahrzeitReminders({ asOf, leadDays, locationId, dryRun });
+
+  for (const reminder of result.sent) {
+    console.log(`  ✅ memorial ${reminder.memorialId} (${reminder.yahrzeitDate}) → ${reminder.recipient}`);
+  }
+  for (const skip of result.skipped) {
+    console.log(`  ⏭️  memorial ${skip.memorialId} (${skip.hebrewYear}): ${skip.reason}`);
+  }
+  for (const failure of result.failed) {
+    console.log(`  ❌ memorial ${failure.memorialId} (${failure.hebrewYear}): ${failure.reason}`);
+  }
+  console.log(
+    `\n${dryRun ? 'Would send' : 'Sent'} ${result.sent.length}, skipped ${result.skipped.length}, failed ${result.failed.length}.`
+  );
+
+  process.exit(result.failed.length > 0 ? 1 : 0);
+}
+
+main().catch((error) => {
+  console.error('❌ Yahrzeit reminder run failed:', error);
+  process.exit(1);
+});
@@ -0,0 +1,42 @@
+// scripts/update-plan-statuses.ts
+//
+// Nightly status sweep for payment plans: flags past-due installments and
+// plans as overdue, reactivates plans that caught up, completes paid-off
+// plans, recomputes nextPaymentDate and queues renewals for completed
+// auto-renew plans. Safe to rerun.
+//
+//   tsx scripts/update-plan-statuses.ts [YYYY-MM-DD] [--location <locationId>]
+
+import 'dotenv/config';
+import { sweepPlanStatuses } from '../lib/payment-plans/status-sweep';
+import { queuePlanRenewals } from '../lib/payment-plans/renewals';
+
+function parseArgs(args: string[]) {
+  const locationIndex = args.indexOf('--location');
+  const locationId = locationIndex >= 0 ? args[locationIndex + 1] : null;
+  const asOf = args.find((arg) => /^\d{4}-\d{2}-\d{2}$/.test(arg));
+  return { asOf, locationId };
+}
+
+async function main() {
+  const { asOf, locationId } = parseArgs(process.argv.slice(2));
+  const result = await sweepPlanStatuses({ asOf, locationId });
+  const renewals = await queuePlanRenewals({ locationId });
+
+  console.log(`🗓️  Plan statuses as of ${result.asOf}${locationId ? ` for location ${locationId}` : ''}`);
+  console.log(`  Installments marked overdue:   ${result.installmentsOverdue}`);
+  console.log(`  Installments back to pending:  ${result.installmentsPending}`);
+  console.log(`  Plans completed:               ${result.plansCompleted}`);
+  console.log(`  Plans marked overdue:          ${result.plansOverdue}`);
+  console.log(`  Plans back to active:          ${result.plansReactivated}`);
+  console.log(`  Next payment dates updated:    ${result.nextPaymentDatesUpdated}`);
+  console.log(`  Renewals queued for approval:  ${renewals.length}`);
+
+  // The transaction pool keeps idle sockets open
+  process.exit(0);
+}
+
+main().catch((error) => {
+  console.error('❌ Plan status sweep failed:', error);
+  process.exit(1);
+});